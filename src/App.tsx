@@ -1,5 +1,7 @@
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { AuthProvider } from './contexts/AuthContext';
+import { useAuth } from './contexts/useAuth';
 import { Layout } from './components/Layout';
 import { Dashboard } from './pages/Dashboard';
 import { Registry } from './pages/Registry';
@@ -8,23 +10,62 @@ import { Notices } from './pages/Notices';
 import { Settings } from './pages/Settings';
 import { ReviewQueue } from './pages/ReviewQueue';
 import { Monitor } from './pages/Monitor';
+import { Companies } from './pages/Companies';
+import { CompanyTimeline } from './pages/CompanyTimeline';
+import { Practitioners } from './pages/Practitioners';
+import { CourtMatters } from './pages/CourtMatters';
+import { Watchlist } from './pages/Watchlist';
+import { Webhooks } from './pages/Webhooks';
+import { Search } from './pages/Search';
+import { Jobs } from './pages/Jobs';
+import { Login } from './pages/Login';
+
+function AppRoutes() {
+  const { session, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-900">
+        Loading...
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Login />;
+  }
+
+  return (
+    <BrowserRouter>
+      <Routes>
+        <Route path="/" element={<Layout />}>
+          <Route index element={<Dashboard />} />
+          <Route path="registry" element={<Registry />} />
+          <Route path="gazettes" element={<Gazettes />} />
+          <Route path="notices" element={<Notices />} />
+          <Route path="companies" element={<Companies />} />
+          <Route path="companies/:id" element={<CompanyTimeline />} />
+          <Route path="practitioners" element={<Practitioners />} />
+          <Route path="court-matters" element={<CourtMatters />} />
+          <Route path="watchlist" element={<Watchlist />} />
+          <Route path="monitor" element={<Monitor />} />
+          <Route path="settings" element={<Settings />} />
+          <Route path="review" element={<ReviewQueue />} />
+          <Route path="jobs" element={<Jobs />} />
+          <Route path="webhooks" element={<Webhooks />} />
+          <Route path="search" element={<Search />} />
+        </Route>
+      </Routes>
+    </BrowserRouter>
+  );
+}
 
 function App() {
   return (
     <ThemeProvider>
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Layout />}>
-            <Route index element={<Dashboard />} />
-            <Route path="registry" element={<Registry />} />
-            <Route path="gazettes" element={<Gazettes />} />
-            <Route path="notices" element={<Notices />} />
-            <Route path="monitor" element={<Monitor />} />
-            <Route path="settings" element={<Settings />} />
-            <Route path="review" element={<ReviewQueue />} />
-          </Route>
-        </Routes>
-      </BrowserRouter>
+      <AuthProvider>
+        <AppRoutes />
+      </AuthProvider>
     </ThemeProvider>
   );
 }
@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
-import { Eye, Download, Trash2, Search, FileText } from 'lucide-react';
+import { Eye, Download, FileDown, Trash2, Search, FileText } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { openPdf } from '../lib/pdfStorage';
 import type { AnalyzedGazettePdf, GazetteLiquidationNotice } from '../lib/database.types';
 import { EnhancedGazetteDisplay } from './EnhancedGazetteDisplay';
 
@@ -93,6 +94,15 @@ export function AnalyzedGazettesSection() {
     }
   }
 
+  async function handleOpenPdf(pdfObjectId: string) {
+    try {
+      await openPdf(pdfObjectId);
+    } catch (error) {
+      console.error('Error opening PDF:', error);
+      alert('Failed to open gazette PDF');
+    }
+  }
+
   function handleExport(gazette: AnalyzedGazettePdf) {
     const dataStr = JSON.stringify(
       {
@@ -233,6 +243,15 @@ export function AnalyzedGazettesSection() {
                     <Eye size={14} />
                     View Notices
                   </button>
+                  {gazette.pdf_object_id && (
+                    <button
+                      onClick={() => handleOpenPdf(gazette.pdf_object_id!)}
+                      className="flex items-center justify-center gap-1 px-3 py-2 bg-gray-100 text-gray-700 text-xs font-medium rounded hover:bg-gray-200 transition-colors"
+                      title="Open original PDF"
+                    >
+                      <FileDown size={14} />
+                    </button>
+                  )}
                   <button
                     onClick={() => handleExport(gazette)}
                     className="flex items-center justify-center gap-1 px-3 py-2 bg-gray-100 text-gray-700 text-xs font-medium rounded hover:bg-gray-200 transition-colors"
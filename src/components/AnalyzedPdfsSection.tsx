@@ -1,8 +1,10 @@
 import { useEffect, useState } from 'react';
-import { Eye, Download, Trash2, Search } from 'lucide-react';
+import { Eye, Download, FileDown, Trash2, Search } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { openPdf } from '../lib/pdfStorage';
 import type { AnalyzedRegistryPdf } from '../lib/database.types';
 import { CaseSummaryRenderer } from './CaseSummaryRenderer';
+import { isCaseAnalysis } from '../lib/caseAnalysis';
 
 export function AnalyzedPdfsSection() {
   const [analyzedPdfs, setAnalyzedPdfs] = useState<AnalyzedRegistryPdf[]>([]);
@@ -29,7 +31,7 @@ export function AnalyzedPdfsSection() {
       setLoading(true);
       const { data, error } = await supabase
         .from('analyzed_registry_pdfs')
-        .select('id, cause_number, dashboard_summary, extraction_metadata, extraction_quality_score, llm_tokens_used, uploaded_by, created_at, updated_at')
+        .select('id, cause_number, dashboard_summary, parsed_json, extraction_metadata, extraction_quality_score, llm_tokens_used, uploaded_by, pdf_object_id, created_at, updated_at')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -58,6 +60,15 @@ export function AnalyzedPdfsSection() {
     }
   }
 
+  async function handleOpenPdf(pdfObjectId: string) {
+    try {
+      await openPdf(pdfObjectId);
+    } catch (error) {
+      console.error('Error opening PDF:', error);
+      alert('Failed to open PDF');
+    }
+  }
+
   function handleExport(pdf: AnalyzedRegistryPdf) {
     const dataStr = JSON.stringify(
       {
@@ -163,6 +174,15 @@ export function AnalyzedPdfsSection() {
                     <Eye size={14} />
                     View
                   </button>
+                  {pdf.pdf_object_id && (
+                    <button
+                      onClick={() => handleOpenPdf(pdf.pdf_object_id!)}
+                      className="flex items-center justify-center gap-1 px-3 py-2 bg-gray-100 text-gray-700 text-xs font-medium rounded hover:bg-gray-200 transition-colors"
+                      title="Open original PDF"
+                    >
+                      <FileDown size={14} />
+                    </button>
+                  )}
                   <button
                     onClick={() => handleExport(pdf)}
                     className="flex items-center justify-center gap-1 px-3 py-2 bg-gray-100 text-gray-700 text-xs font-medium rounded hover:bg-gray-200 transition-colors"
@@ -204,7 +224,10 @@ export function AnalyzedPdfsSection() {
               </button>
             </div>
             <div className="p-6 overflow-y-auto">
-              <CaseSummaryRenderer summary={selectedPdf.dashboard_summary} />
+              <CaseSummaryRenderer
+                analysis={isCaseAnalysis(selectedPdf.parsed_json) ? selectedPdf.parsed_json : null}
+                fallbackSummary={selectedPdf.dashboard_summary}
+              />
             </div>
             <div className="p-6 border-t border-gray-200 flex gap-3">
               <button
@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { accessToken } from '../lib/supabase';
+
+// Mirrors SECRET_NAMES in supabase/functions/shared/secrets.ts
+const API_KEYS = [
+  { name: 'openai_api_key', label: 'OpenAI', placeholder: 'sk-...', help: 'LLM tasks routed to OpenAI' },
+  { name: 'anthropic_api_key', label: 'Anthropic', placeholder: 'sk-ant-...', help: 'LLM tasks routed to Anthropic, and PDF reading' },
+  { name: 'firecrawl_api_key', label: 'Firecrawl', placeholder: 'fc-...', help: 'Scraping judicial.ky' },
+  { name: 'ocr_api_key', label: 'OCR', placeholder: 'OCR provider key', help: 'pdfRest or ConvertAPI; not needed for local OCR' },
+  { name: 'newsapi_key', label: 'NewsAPI', placeholder: 'NewsAPI key', help: 'Cayman Monitor news ingestion' },
+  { name: 'monitor_openai_api_key', label: 'Monitor OpenAI', placeholder: 'sk-...', help: 'Cayman Monitor batch classification' },
+];
+
+interface SecretStatus {
+  name: string;
+  set: boolean;
+  source: 'settings' | 'environment' | null;
+  updated_by: string | null;
+  updated_at: string | null;
+}
+
+async function callManageSecrets(body: Record<string, unknown>) {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/manage-secrets`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await accessToken()}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `manage-secrets failed: ${response.status}`);
+  }
+  return result;
+}
+
+/**
+ * Write-only API keys: stored values are never sent back to the browser, so
+ * each key shows whether it is set and lets an admin replace or clear it.
+ */
+export function ApiKeysPanel() {
+  const [statuses, setStatuses] = useState<Record<string, SecretStatus>>({});
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  async function loadStatus() {
+    try {
+      setError(null);
+      const result = await callManageSecrets({ action: 'status' });
+      const next: Record<string, SecretStatus> = {};
+      for (const status of result.secrets as SecretStatus[]) next[status.name] = status;
+      setStatuses(next);
+    } catch (err) {
+      console.error('Error loading API key status:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load API keys');
+    }
+  }
+
+  async function update(name: string, action: 'set' | 'clear') {
+    try {
+      setBusy(name);
+      setError(null);
+      await callManageSecrets(action === 'set' ? { action, name, value: drafts[name] } : { action, name });
+      setDrafts({ ...drafts, [name]: '' });
+      await loadStatus();
+    } catch (err) {
+      console.error('Error updating API key:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update API key');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function statusLabel(status: SecretStatus | undefined) {
+    if (!status?.set) return <span className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-600">Not set</span>;
+    if (status.source === 'environment') {
+      return <span className="px-2 py-0.5 rounded text-xs bg-blue-100 text-blue-800">Set in environment</span>;
+    }
+    const by = status.updated_by ? ` by ${status.updated_by}` : '';
+    const at = status.updated_at ? ` on ${new Date(status.updated_at).toLocaleDateString()}` : '';
+    return <span className="px-2 py-0.5 rounded text-xs bg-green-100 text-green-800">Set{by}{at}</span>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Keys are stored server-side and can be replaced or cleared, but never read back.
+        </p>
+        <button
+          onClick={loadStatus}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+        >
+          <RefreshCw size={14} />
+          Refresh
+        </button>
+      </div>
+
+      {error && <div className="p-3 rounded-lg bg-red-50 text-red-800 text-sm">{error}</div>}
+
+      {API_KEYS.map(({ name, label, placeholder, help }) => {
+        const status = statuses[name];
+        return (
+          <div key={name} className="p-4 bg-gray-50 rounded-lg space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <span className="text-sm font-medium text-gray-700">{label} API Key</span>
+                <p className="text-xs text-gray-500">{help}</p>
+              </div>
+              {statusLabel(status)}
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="password"
+                autoComplete="off"
+                value={drafts[name] || ''}
+                onChange={(e) => setDrafts({ ...drafts, [name]: e.target.value })}
+                placeholder={status?.set ? 'Enter a new key to replace it' : placeholder}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                onClick={() => update(name, 'set')}
+                disabled={busy === name || !(drafts[name] || '').trim()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                Save
+              </button>
+              {status?.source === 'settings' && (
+                <button
+                  onClick={() => update(name, 'clear')}
+                  disabled={busy === name}
+                  className="px-4 py-2 text-red-700 border border-red-300 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,8 +1,16 @@
-import React from 'react';
 import { Copy, Download } from 'lucide-react';
+import type { CaseAnalysis } from '../lib/database.types';
+import {
+  capitalStructureFields,
+  companyDisplayName,
+  companyOverviewFields,
+  legalDetailsFields,
+  practitionerFields,
+  type CaseAnalysisField,
+} from '../lib/caseAnalysis';
 
 interface DashboardSummaryDisplayProps {
-  summary: string;
+  analysis: CaseAnalysis;
   tokensUsed?: {
     input_tokens?: number;
     output_tokens?: number;
@@ -17,13 +25,13 @@ interface DashboardSummaryDisplayProps {
 }
 
 export function DashboardSummaryDisplay({
-  summary,
+  analysis,
   tokensUsed,
   onCopy,
   onExport,
   onClear,
 }: DashboardSummaryDisplayProps) {
-  const sections = parseSummary(summary);
+  const companyName = companyDisplayName(analysis);
 
   return (
     <div className="space-y-6">
@@ -67,132 +75,70 @@ export function DashboardSummaryDisplay({
       </div>
 
       <div className="space-y-6">
-        {sections.companyOverview && (
-          <DashboardSection title="Company Overview" content={sections.companyOverview} />
-        )}
+        <DashboardSection title="Company Overview" fields={companyOverviewFields(analysis)} heading={companyName} />
 
-        {sections.legalDetails && (
-          <DashboardSection title="Legal Details" content={sections.legalDetails} />
-        )}
+        <DashboardSection title="Legal Details" fields={legalDetailsFields(analysis)} />
 
-        {sections.timeline && (
-          <div className="border border-gray-200 rounded-lg p-4">
-            <h4 className="text-md font-semibold text-gray-900 mb-3">Key Timeline</h4>
-            <div className="overflow-x-auto">
-              {renderTimeline(sections.timeline)}
-            </div>
+        <div className="border border-gray-200 rounded-lg p-4">
+          <h4 className="text-md font-semibold text-gray-900 mb-3">Key Timeline</h4>
+          <div className="overflow-x-auto">
+            <TimelineTable timeline={analysis.timeline} />
           </div>
-        )}
-
-        {sections.financialSummary && (
-          <DashboardSection title="Financial Summary" content={sections.financialSummary} />
-        )}
+        </div>
 
-        {sections.insolvencyPractitioners && (
-          <DashboardSection title="Insolvency Practitioners" content={sections.insolvencyPractitioners} />
-        )}
+        <DashboardSection title="Capital Structure" fields={capitalStructureFields(analysis)} />
 
-        {sections.creditorInformation && (
-          <DashboardSection title="Creditor Information" content={sections.creditorInformation} />
-        )}
+        <DashboardSection title="Insolvency Practitioners" fields={practitionerFields(analysis)} />
       </div>
 
       <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
-        <h4 className="text-sm font-semibold text-gray-700 mb-2">Raw Markdown</h4>
+        <h4 className="text-sm font-semibold text-gray-700 mb-2">Structured JSON</h4>
         <pre className="text-xs text-gray-600 whitespace-pre-wrap font-mono max-h-64 overflow-y-auto">
-          {summary}
+          {JSON.stringify(analysis, null, 2)}
         </pre>
       </div>
     </div>
   );
 }
 
-function DashboardSection({ title, content }: { title: string; content: string }) {
+function DashboardSection({
+  title,
+  fields,
+  heading,
+}: {
+  title: string;
+  fields: CaseAnalysisField[];
+  heading?: string | null;
+}) {
   return (
     <div className="border border-gray-200 rounded-lg p-4">
       <h4 className="text-md font-semibold text-gray-900 mb-3">{title}</h4>
-      <div className="prose prose-sm max-w-none">
-        {content.split('\n').map((line, idx) => {
-          const trimmedLine = line.trim();
-          if (!trimmedLine) return null;
-
-          if (trimmedLine.startsWith('- ') || trimmedLine.startsWith('• ')) {
-            const bulletContent = trimmedLine.startsWith('- ') ? trimmedLine.substring(2) : trimmedLine.substring(2);
-            return (
-              <div key={idx} className="flex items-start gap-2 mb-2">
-                <span className="text-blue-600 mt-1">•</span>
-                <span className="text-gray-700 flex-1">{renderMarkdown(bulletContent)}</span>
-              </div>
-            );
-          }
-
-          if (trimmedLine.includes('→')) {
-            return (
-              <div key={idx} className="flex items-center gap-2 mb-2 bg-blue-50 px-3 py-2 rounded">
-                <span className="text-gray-700">{renderMarkdown(trimmedLine)}</span>
-              </div>
-            );
-          }
-
-          return (
-            <p key={idx} className="text-gray-700 mb-2">
-              {renderMarkdown(trimmedLine)}
-            </p>
-          );
-        })}
-      </div>
+      {heading && <p className="font-semibold text-gray-900 mb-2">{heading}</p>}
+      {fields.length === 0 ? (
+        <p className="text-gray-500 text-sm">Not specified</p>
+      ) : (
+        fields.map((field, idx) => (
+          <div
+            key={idx}
+            className={`flex items-start gap-2 mb-2 ${field.value.includes('→') ? 'bg-blue-50 px-3 py-2 rounded' : ''}`}
+          >
+            <span className="text-blue-600 mt-1">•</span>
+            <span className="text-gray-700 flex-1">
+              {field.label && <strong className="font-semibold text-gray-900">{field.label}: </strong>}
+              {field.value}
+            </span>
+          </div>
+        ))
+      )}
     </div>
   );
 }
 
-function renderMarkdown(text: string): React.ReactNode {
-  const parts: React.ReactNode[] = [];
-  let currentIndex = 0;
-  let key = 0;
-
-  const boldPattern = /\*\*(.+?)\*\*/g;
-  let match;
-
-  const matches: Array<{ start: number; end: number; content: string }> = [];
-  while ((match = boldPattern.exec(text)) !== null) {
-    matches.push({ start: match.index, end: match.index + match[0].length, content: match[1] });
-  }
-
-  if (matches.length === 0) {
-    return text;
-  }
-
-  for (const m of matches) {
-    if (m.start > currentIndex) {
-      parts.push(text.substring(currentIndex, m.start));
-    }
-    parts.push(<strong key={key++} className="font-semibold text-gray-900">{m.content}</strong>);
-    currentIndex = m.end;
-  }
-
-  if (currentIndex < text.length) {
-    parts.push(text.substring(currentIndex));
-  }
-
-  return <>{parts}</>;
-}
-
-function renderTimeline(timelineText: string) {
-  const lines = timelineText.split('\n').map(l => l.trim()).filter(Boolean);
-
-  const tableRows = lines.filter(line =>
-    line.includes('|') && !line.startsWith('|--') && !line.includes('Date')
-  );
-
-  if (tableRows.length === 0) {
+function TimelineTable({ timeline }: { timeline: CaseAnalysis['timeline'] }) {
+  if (timeline.length === 0) {
     return <p className="text-gray-500 text-sm">No timeline data available</p>;
   }
 
-  const rows = tableRows.map(line => {
-    const parts = line.split('|').map(p => p.trim()).filter(Boolean);
-    return { date: parts[0] || '', event: parts[1] || '' };
-  });
-
   return (
     <table className="min-w-full divide-y divide-gray-200">
       <thead className="bg-gray-50">
@@ -206,7 +152,7 @@ function renderTimeline(timelineText: string) {
         </tr>
       </thead>
       <tbody className="bg-white divide-y divide-gray-200">
-        {rows.map((row, idx) => (
+        {timeline.map((row, idx) => (
           <tr key={idx} className="hover:bg-gray-50">
             <td className="px-4 py-2 text-sm font-medium text-gray-900 whitespace-nowrap">
               {row.date}
@@ -220,24 +166,3 @@ function renderTimeline(timelineText: string) {
     </table>
   );
 }
-
-function parseSummary(summary: string) {
-  return {
-    companyOverview: extractSection(summary, 'Company Overview', 'Legal Details') || extractSection(summary, '## Company Overview', '## Legal Details') || extractSection(summary, '1. COMPANY OVERVIEW', '2. LEGAL DETAILS'),
-    legalDetails: extractSection(summary, 'Legal Details', 'Key Timeline') || extractSection(summary, '## Legal Details', '## Key Timeline') || extractSection(summary, '2. LEGAL DETAILS', '3. KEY TIMELINE'),
-    timeline: extractSection(summary, 'Key Timeline', 'Financial Summary') || extractSection(summary, '## Key Timeline', '## Financial Summary') || extractSection(summary, '3. KEY TIMELINE', '4. FINANCIAL SUMMARY'),
-    financialSummary: extractSection(summary, 'Financial Summary', 'Insolvency Practitioners') || extractSection(summary, '## Financial Summary', '## Insolvency Practitioners') || extractSection(summary, '4. FINANCIAL SUMMARY', '5. INSOLVENCY PRACTITIONERS'),
-    insolvencyPractitioners: extractSection(summary, 'Insolvency Practitioners', 'Creditor Information') || extractSection(summary, '## Insolvency Practitioners', '## Creditor Information') || extractSection(summary, '5. INSOLVENCY PRACTITIONERS', '6. CREDITOR INFORMATION') || extractSection(summary, '5. INSOLVENCY PRACTITIONERS', '---'),
-    creditorInformation: extractSection(summary, 'Creditor Information', '---') || extractSection(summary, '## Creditor Information', '---') || extractSection(summary, '6. CREDITOR INFORMATION', '---'),
-  };
-}
-
-function extractSection(text: string, startMarker: string, endMarker: string): string {
-  const startIdx = text.indexOf(startMarker);
-  if (startIdx === -1) return '';
-
-  const endIdx = text.indexOf(endMarker, startIdx);
-  const section = endIdx === -1 ? text.slice(startIdx) : text.slice(startIdx, endIdx);
-
-  return section.replace(startMarker, '').trim();
-}
@@ -1,5 +1,7 @@
 import { useState } from 'react';
 import { Upload, Loader, AlertTriangle, X, CheckCircle, TrendingUp, Building2, Scale, Users, Calendar } from 'lucide-react';
+import { uploadPdf } from '../lib/pdfStorage';
+import { accessToken } from '../lib/supabase';
 
 interface SummaryStats {
   totalEntities: number;
@@ -88,15 +90,8 @@ export function GazetteAnalyzerPanel() {
       setGazetteMetadata(null);
       setTokensUsed(null);
 
-      setProcessingStep('Preparing PDF for analysis...');
-
-      const arrayBuffer = await file.arrayBuffer();
-      const base64 = btoa(
-        new Uint8Array(arrayBuffer).reduce(
-          (data, byte) => data + String.fromCharCode(byte),
-          ''
-        )
-      );
+      setProcessingStep('Uploading PDF...');
+      const { pdf_object: pdfObject } = await uploadPdf(file);
 
       // Estimate file size for user feedback
       const fileSizeMB = (file.size / (1024 * 1024)).toFixed(1);
@@ -106,11 +101,11 @@ export function GazetteAnalyzerPanel() {
       const response = await fetch(analyzeUrl, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await accessToken()}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          pdf_base64: base64,
+          pdf_object_id: pdfObject.id,
           gazette_type: gazetteType,
           issue_number: issueNumber || undefined,
           issue_date: issueDate || undefined,
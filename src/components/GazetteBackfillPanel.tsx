@@ -0,0 +1,274 @@
+import { useEffect, useState } from 'react';
+import { History, Play, RefreshCw } from 'lucide-react';
+import { supabase, accessToken } from '../lib/supabase';
+import type { GazetteBackfillProgress, ScrapeJob } from '../lib/database.types';
+
+type GazetteKind = 'regular' | 'extraordinary';
+type RangeMode = 'year' | 'dates';
+
+const FUNCTIONS_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`;
+
+async function callFunction(name: string, body: Record<string, unknown>) {
+  const response = await fetch(`${FUNCTIONS_URL}/${name}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await accessToken()}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `${name} failed: ${response.status}`);
+  }
+  return result;
+}
+
+function statusBadge(status: string) {
+  const colors: Record<string, string> = {
+    running: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300',
+    success: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+    partial_success: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300',
+    failed: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+  };
+  return (
+    <span className={`px-2 py-1 text-xs font-medium rounded-full ${colors[status] || 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-300'}`}>
+      {status.replace('_', ' ')}
+    </span>
+  );
+}
+
+function BackfillRow({ job }: { job: ScrapeJob }) {
+  const progress = (job.progress || {}) as GazetteBackfillProgress;
+  const queued = progress.queued ?? 0;
+  const done = (progress.success ?? 0) + (progress.skipped ?? 0) + (progress.failed ?? 0) - (progress.retrying ?? 0);
+  const percent = queued > 0 ? Math.min(100, (done / queued) * 100) : 100;
+  const range = progress.range;
+
+  return (
+    <tr className="hover:bg-gray-50 dark:hover:bg-gray-700">
+      <td className="px-4 py-3 text-sm text-gray-900 dark:text-white whitespace-nowrap">
+        {range?.from ?? '…'} → {range?.to ?? '…'}
+        <div className="text-xs text-gray-500 dark:text-gray-400">{(progress.kinds || []).join(', ')}</div>
+      </td>
+      <td className="px-4 py-3 text-sm">{statusBadge(job.status)}</td>
+      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+        {progress.found ?? 0} found · {queued} queued
+        {progress.already_queued ? ` · ${progress.already_queued} already queued` : ''}
+        {progress.undated_skipped ? ` · ${progress.undated_skipped} undated` : ''}
+      </td>
+      <td className="px-4 py-3 text-sm w-64">
+        <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-500" style={{ width: `${percent}%` }} />
+        </div>
+        <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          {progress.success ?? 0} analyzed · {progress.skipped ?? 0} skipped · {progress.failed ?? 0} failed
+          {progress.retrying ? ` (${progress.retrying} retrying)` : ''} · {progress.pending ?? 0} pending
+        </div>
+      </td>
+      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+        {new Date(job.created_at).toLocaleString()}
+      </td>
+    </tr>
+  );
+}
+
+export function GazetteBackfillPanel() {
+  const [jobs, setJobs] = useState<ScrapeJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [processing, setProcessing] = useState(false);
+
+  const [kinds, setKinds] = useState<GazetteKind[]>(['regular', 'extraordinary']);
+  const [rangeMode, setRangeMode] = useState<RangeMode>('year');
+  const [year, setYear] = useState(String(new Date().getFullYear() - 1));
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  useEffect(() => {
+    loadJobs();
+  }, []);
+
+  async function loadJobs() {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('scrape_jobs')
+        .select('*')
+        .eq('job_type', 'gazette_backfill')
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+      if (error) throw error;
+      setJobs(data || []);
+    } catch (error) {
+      console.error('Error loading backfill jobs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function toggleKind(kind: GazetteKind) {
+    setKinds((current) => (current.includes(kind) ? current.filter((k) => k !== kind) : [...current, kind]));
+  }
+
+  async function startBackfill() {
+    if (kinds.length === 0) {
+      alert('Choose at least one gazette type');
+      return;
+    }
+
+    const range = rangeMode === 'year' ? { year: Number(year) } : { from: from || undefined, to: to || undefined };
+    try {
+      setStarting(true);
+      const result = await callFunction('scrape-gazette', { mode: 'backfill', kinds, ...range });
+      alert(`Backfill queued ${result.progress.queued} gazette PDFs (${result.progress.already_queued} were already queued)`);
+      await loadJobs();
+    } catch (error) {
+      console.error('Error starting backfill:', error);
+      alert(`Failed to start backfill: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setStarting(false);
+    }
+  }
+
+  async function processQueue() {
+    try {
+      setProcessing(true);
+      const result = await callFunction('process-gazette-queue', {});
+      alert(`Processed ${result.processed} queued gazette PDFs`);
+      await loadJobs();
+    } catch (error) {
+      console.error('Error processing gazette queue:', error);
+      alert(`Failed to process queue: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setProcessing(false);
+    }
+  }
+
+  const inputClass =
+    'px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <History size={20} />
+            Historical Backfill
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Crawl the gov.ky gazette archive for a period and queue every issue for analysis
+          </p>
+        </div>
+        <button
+          onClick={processQueue}
+          disabled={processing}
+          className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+        >
+          <RefreshCw size={16} className={processing ? 'animate-spin' : ''} />
+          {processing ? 'Processing...' : 'Process Queue Now'}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <div>
+          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Gazettes</span>
+          <div className="flex gap-4 py-2">
+            {(['regular', 'extraordinary'] as GazetteKind[]).map((kind) => (
+              <label key={kind} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input type="checkbox" checked={kinds.includes(kind)} onChange={() => toggleKind(kind)} />
+                {kind === 'regular' ? 'Regular' : 'Extraordinary'}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="backfill-range-mode" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Period
+          </label>
+          <select
+            id="backfill-range-mode"
+            value={rangeMode}
+            onChange={(e) => setRangeMode(e.target.value as RangeMode)}
+            className={inputClass}
+          >
+            <option value="year">Calendar year</option>
+            <option value="dates">Date range</option>
+          </select>
+        </div>
+
+        {rangeMode === 'year' ? (
+          <div>
+            <label htmlFor="backfill-year" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Year
+            </label>
+            <input
+              id="backfill-year"
+              type="number"
+              min={2000}
+              max={new Date().getFullYear()}
+              value={year}
+              onChange={(e) => setYear(e.target.value)}
+              className={`${inputClass} w-28`}
+            />
+          </div>
+        ) : (
+          <>
+            <div>
+              <label htmlFor="backfill-from" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                From
+              </label>
+              <input id="backfill-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="backfill-to" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                To
+              </label>
+              <input id="backfill-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+            </div>
+          </>
+        )}
+
+        <button
+          onClick={startBackfill}
+          disabled={starting}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          <Play size={16} />
+          {starting ? 'Crawling archive...' : 'Start Backfill'}
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="p-8 text-center text-gray-500 dark:text-gray-400">Loading backfills...</div>
+      ) : jobs.length === 0 ? (
+        <div className="p-8 text-center text-gray-500 dark:text-gray-400">No backfills yet</div>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+          <table className="w-full">
+            <thead className="bg-gray-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600">
+              <tr>
+                {['Period', 'Status', 'Archive', 'Progress', 'Started'].map((heading) => (
+                  <th
+                    key={heading}
+                    className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {jobs.map((job) => (
+                <BackfillRow key={job.id} job={job} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
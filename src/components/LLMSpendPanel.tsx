@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { LLMUsageDaily } from '../lib/database.types';
+
+const CHART_DAYS = 30;
+
+interface SpendRollup {
+  key: string;
+  calls: number;
+  tokens: number;
+  cost: number;
+}
+
+interface LLMSpendPanelProps {
+  dailyBudget: number | null;
+  monthlyBudget: number | null;
+}
+
+// Days are UTC to match llm_usage_daily and the budget checks
+function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function lastDays(count: number): string[] {
+  const days: string[] = [];
+  const today = new Date();
+  for (let i = count - 1; i >= 0; i--) {
+    days.push(utcDay(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - i))));
+  }
+  return days;
+}
+
+function rollup(rows: LLMUsageDaily[], keyOf: (row: LLMUsageDaily) => string): SpendRollup[] {
+  const totals = new Map<string, SpendRollup>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const entry = totals.get(key) || { key, calls: 0, tokens: 0, cost: 0 };
+    entry.calls += Number(row.calls);
+    entry.tokens += Number(row.total_tokens);
+    entry.cost += Number(row.cost);
+    totals.set(key, entry);
+  }
+  return Array.from(totals.values()).sort((a, b) => b.cost - a.cost);
+}
+
+function formatUSD(amount: number): string {
+  return `$${amount.toFixed(amount < 1 ? 4 : 2)}`;
+}
+
+function BudgetMeter({ label, spent, budget }: { label: string; spent: number; budget: number | null }) {
+  const percent = budget ? Math.min(100, (spent / budget) * 100) : 0;
+  const color = percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-amber-500' : 'bg-blue-500';
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="text-sm text-gray-600">{label}</div>
+      <div className="text-2xl font-bold text-gray-900">{formatUSD(spent)}</div>
+      {budget !== null ? (
+        <>
+          <div className="mt-2 h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className={`h-full ${color}`} style={{ width: `${percent}%` }} />
+          </div>
+          <div className="text-xs text-gray-500 mt-1">
+            {percent.toFixed(0)}% of {formatUSD(budget)} budget
+          </div>
+        </>
+      ) : (
+        <div className="text-xs text-gray-500 mt-1">No budget set</div>
+      )}
+    </div>
+  );
+}
+
+function RollupTable({ title, rows }: { title: string; rows: SpendRollup[] }) {
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-900 mb-2">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">No usage this month</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-1 font-medium">Name</th>
+              <th className="py-1 font-medium text-right">Calls</th>
+              <th className="py-1 font-medium text-right">Tokens</th>
+              <th className="py-1 font-medium text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-b border-gray-100">
+                <td className="py-1 text-gray-900 font-mono text-xs">{row.key}</td>
+                <td className="py-1 text-right text-gray-700">{row.calls.toLocaleString()}</td>
+                <td className="py-1 text-right text-gray-700">{row.tokens.toLocaleString()}</td>
+                <td className="py-1 text-right text-gray-900">{formatUSD(row.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export function LLMSpendPanel({ dailyBudget, monthlyBudget }: LLMSpendPanelProps) {
+  const [rows, setRows] = useState<LLMUsageDaily[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const days = lastDays(CHART_DAYS);
+  const today = days[days.length - 1];
+  const monthStart = `${today.slice(0, 7)}-01`;
+  const since = days[0] < monthStart ? days[0] : monthStart;
+
+  const loadUsage = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('llm_usage_daily')
+        .select('*')
+        .gte('day', since);
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      console.error('Error loading LLM usage:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [since]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const costByDay = new Map<string, number>();
+  for (const row of rows) {
+    costByDay.set(row.day, (costByDay.get(row.day) || 0) + Number(row.cost));
+  }
+  const monthRows = rows.filter((row) => row.day >= monthStart);
+  const spentToday = costByDay.get(today) || 0;
+  const spentThisMonth = monthRows.reduce((sum, row) => sum + Number(row.cost), 0);
+  const chartMax = Math.max(dailyBudget || 0, ...days.map((day) => costByDay.get(day) || 0)) || 1;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 mb-2">LLM Spend</h2>
+          <p className="text-sm text-gray-600">
+            Estimated cost of every LLM call made by case analysis, gazette extraction and news classification.
+            News monitor functions can also be capped separately with the budgets in monitor settings.
+          </p>
+        </div>
+        <button
+          onClick={loadUsage}
+          disabled={loading}
+          className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors shrink-0"
+        >
+          <RefreshCw size={18} className={loading ? 'animate-spin' : ''} />
+          Refresh
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <BudgetMeter label="Today (UTC)" spent={spentToday} budget={dailyBudget} />
+        <BudgetMeter label="This month" spent={spentThisMonth} budget={monthlyBudget} />
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-2">Daily spend, last {CHART_DAYS} days</h3>
+        <div className="relative h-40 flex items-end gap-1 border-b border-gray-200">
+          {dailyBudget !== null && dailyBudget > 0 && (
+            <div
+              className="absolute left-0 right-0 border-t border-dashed border-red-400"
+              style={{ bottom: `${(dailyBudget / chartMax) * 100}%` }}
+              title={`Daily budget ${formatUSD(dailyBudget)}`}
+            />
+          )}
+          {days.map((day) => {
+            const cost = costByDay.get(day) || 0;
+            return (
+              <div
+                key={day}
+                className={`flex-1 rounded-t ${dailyBudget !== null && cost >= dailyBudget ? 'bg-red-400' : 'bg-blue-400'}`}
+                style={{ height: `${(cost / chartMax) * 100}%` }}
+                title={`${day}: ${formatUSD(cost)}`}
+              />
+            );
+          })}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{days[0]}</span>
+          <span>{today}</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <RollupTable title="This month by function" rows={rollup(monthRows, (row) => row.function_name)} />
+        <RollupTable title="This month by model" rows={rollup(monthRows, (row) => row.model)} />
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,53 @@
-import { Link, Outlet, useLocation } from 'react-router-dom';
-import { Home, FileText, BookOpen, Bell, Settings, AlertTriangle, Newspaper } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Link, Outlet, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { Home, FileText, BookOpen, Bell, Settings, AlertTriangle, Newspaper, Building2, Briefcase, Eye, Webhook, Search, Gavel, ListChecks, LogOut } from 'lucide-react';
 import { DarkModeToggle } from './DarkModeToggle';
+import { useAuth } from '../contexts/useAuth';
+import type { UserRole } from '../lib/database.types';
 
 export function Layout() {
   const location = useLocation();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [searchQuery, setSearchQuery] = useState('');
+  const { session, profile, hasRole, signOut } = useAuth();
 
-  const navItems = [
+  // Keep the box in sync with the query being shown on the search page
+  useEffect(() => {
+    if (location.pathname === '/search') {
+      setSearchQuery(searchParams.get('q') || '');
+    }
+  }, [location.pathname, searchParams]);
+
+  function handleSearch(e: React.FormEvent) {
+    e.preventDefault();
+    const trimmed = searchQuery.trim();
+    if (trimmed.length < 2) return;
+    navigate(`/search?q=${encodeURIComponent(trimmed)}`);
+  }
+
+  // minRole hides pages whose actions the user's role can't perform
+  const navItems: { path: string; icon: typeof Home; label: string; minRole?: UserRole }[] = [
     { path: '/', icon: Home, label: 'Dashboard' },
     { path: '/registry', icon: FileText, label: 'Registry' },
     { path: '/gazettes', icon: BookOpen, label: 'Gazettes' },
     { path: '/notices', icon: Bell, label: 'Notices' },
+    { path: '/companies', icon: Building2, label: 'Companies' },
+    { path: '/court-matters', icon: Gavel, label: 'Court Matters' },
+    { path: '/practitioners', icon: Briefcase, label: 'Practitioners' },
+    { path: '/watchlist', icon: Eye, label: 'Watchlist' },
     { path: '/monitor', icon: Newspaper, label: 'Cayman Monitor' },
-    { path: '/review', icon: AlertTriangle, label: 'Review Queue' },
-    { path: '/settings', icon: Settings, label: 'Settings' },
+    { path: '/review', icon: AlertTriangle, label: 'Review Queue', minRole: 'analyst' },
+    { path: '/jobs', icon: ListChecks, label: 'Jobs', minRole: 'analyst' },
+    { path: '/webhooks', icon: Webhook, label: 'Webhooks', minRole: 'admin' },
+    { path: '/settings', icon: Settings, label: 'Settings', minRole: 'admin' },
   ];
 
+  const visibleItems = navItems.filter((item) => !item.minRole || hasRole(item.minRole));
+  const restricted = navItems.find(
+    (item) => item.minRole && item.path !== '/' && location.pathname.startsWith(item.path) && !hasRole(item.minRole)
+  );
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex">
       <aside className="w-64 bg-white dark:bg-gray-800 border-r border-gray-200 dark:border-gray-700 flex flex-col">
@@ -27,9 +60,11 @@ export function Layout() {
         </div>
 
         <nav className="flex-1 p-4 space-y-1">
-          {navItems.map((item) => {
+          {visibleItems.map((item) => {
             const Icon = item.icon;
-            const isActive = location.pathname === item.path;
+            const isActive = item.path === '/'
+              ? location.pathname === '/'
+              : location.pathname.startsWith(item.path);
 
             return (
               <Link
@@ -49,6 +84,19 @@ export function Layout() {
         </nav>
 
         <div className="p-4 border-t border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between mb-3">
+            <div className="min-w-0">
+              <div className="text-sm text-gray-900 dark:text-white truncate">{session?.user.email}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 capitalize">{profile?.role ?? 'No role'}</div>
+            </div>
+            <button
+              onClick={signOut}
+              title="Sign out"
+              className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              <LogOut size={18} />
+            </button>
+          </div>
           <div className="text-xs text-gray-500 dark:text-gray-400">
             <div className="flex items-center gap-2 mb-1">
               <div className="w-2 h-2 bg-green-500 rounded-full"></div>
@@ -60,8 +108,26 @@ export function Layout() {
       </aside>
 
       <main className="flex-1 overflow-auto bg-gray-50 dark:bg-gray-900">
+        <div className="sticky top-0 z-10 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-8 py-3">
+          <form onSubmit={handleSearch} className="relative max-w-2xl">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 dark:text-gray-500" size={18} />
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search cases, notices, companies, liquidators, articles or a registration number..."
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
+            />
+          </form>
+        </div>
         <div className="p-8">
-          <Outlet />
+          {restricted ? (
+            <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+              {restricted.label} needs the {restricted.minRole} role. Ask an admin to change your role in Settings.
+            </div>
+          ) : (
+            <Outlet />
+          )}
         </div>
       </main>
     </div>
@@ -2,22 +2,14 @@ import { useEffect, useMemo, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { ExternalLink, X } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import type { ArticleEntity, MonitorArticle, MonitorSignal } from './monitor/types';
+import type { ArticleEntity, MonitorArticle, MonitorSignal, StoryCoverage } from './monitor/types';
+import { SIGNAL_SEVERITY_CLASSES, flaggedSignals, signalDefinition, useSignalTaxonomy } from './monitor/signals';
 
 interface MonitorArticleDetailProps {
   article: MonitorArticle | null;
   onClose: () => void;
 }
 
-const SIGNAL_LABELS: Record<MonitorSignal, string> = {
-  financial_decline: 'Financial Decline',
-  fraud: 'Fraud',
-  misstated_financials: 'Misstated Financials',
-  shareholder_issues: 'Shareholder Issues',
-  director_duties: 'Director Duties',
-  enforcement: 'Enforcement',
-};
-
 export function MonitorArticleDetail({ article, onClose }: MonitorArticleDetailProps) {
   const [entities, setEntities] = useState<ArticleEntity[]>([]);
   const [loadingEntities, setLoadingEntities] = useState(false);
@@ -71,11 +63,48 @@ export function MonitorArticleDetail({ article, onClose }: MonitorArticleDetailP
     };
   }, [article]);
 
+  const [coverage, setCoverage] = useState<StoryCoverage[]>([]);
+
+  useEffect(() => {
+    const story = article?.story;
+    if (!story || story.article_count <= 1) {
+      setCoverage([]);
+      return;
+    }
+
+    const storyId = story.id;
+
+    let isActive = true;
+    async function loadCoverage() {
+      const { data, error } = await supabase
+        .from('articles')
+        .select('id, url, source, source_name, title, published_at')
+        .eq('story_id', storyId)
+        .order('published_at', { ascending: true });
+
+      if (error) {
+        console.error('Error loading story coverage:', error.message);
+        return;
+      }
+
+      if (isActive && data) {
+        setCoverage(data as StoryCoverage[]);
+      }
+    }
+
+    loadCoverage();
+
+    return () => {
+      isActive = false;
+    };
+  }, [article]);
+
   const isOpen = Boolean(article);
+  const taxonomy = useSignalTaxonomy();
   const signals = useMemo(() => {
     if (!article) return [] as MonitorSignal[];
-    return (Object.keys(article.signals) as MonitorSignal[]).filter((key) => Boolean(article.signals[key]));
-  }, [article]);
+    return flaggedSignals(taxonomy, article.signals);
+  }, [article, taxonomy]);
 
   if (!isOpen || !article) {
     return null;
@@ -160,14 +189,18 @@ export function MonitorArticleDetail({ article, onClose }: MonitorArticleDetailP
                 Detected Signals
               </h4>
               <div className="flex flex-wrap gap-2">
-                {signals.map((signal) => (
-                  <span
-                    key={signal}
-                    className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium bg-blue-50 dark:bg-blue-900/40 text-blue-700 dark:text-blue-200"
-                  >
-                    {SIGNAL_LABELS[signal]}
-                  </span>
-                ))}
+                {signals.map((signal) => {
+                  const definition = signalDefinition(taxonomy, signal);
+                  return (
+                    <span
+                      key={signal}
+                      title={definition.description || undefined}
+                      className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${SIGNAL_SEVERITY_CLASSES[definition.severity]}`}
+                    >
+                      {definition.label}
+                    </span>
+                  );
+                })}
               </div>
             </section>
           ) : null}
@@ -185,6 +218,34 @@ export function MonitorArticleDetail({ article, onClose }: MonitorArticleDetailP
             </section>
           ) : null}
 
+          {coverage.length > 1 ? (
+            <section>
+              <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wide mb-3">
+                Also Reported By ({coverage.length - 1})
+              </h4>
+              <ul className="space-y-2">
+                {coverage
+                  .filter((copy) => copy.id !== article.id)
+                  .map((copy) => (
+                    <li key={copy.id}>
+                      <a
+                        href={copy.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center justify-between gap-3 rounded-lg bg-gray-100 dark:bg-gray-800 px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+                      >
+                        <span className="min-w-0">
+                          <span className="font-medium text-gray-900 dark:text-white">{copy.source_name || copy.source}</span>
+                          {copy.title && <span className="block truncate text-xs text-gray-500 dark:text-gray-400">{copy.title}</span>}
+                        </span>
+                        <ExternalLink className="h-4 w-4 flex-shrink-0" />
+                      </a>
+                    </li>
+                  ))}
+              </ul>
+            </section>
+          ) : null}
+
           <section>
             <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wide mb-3">
               Extracted Entities
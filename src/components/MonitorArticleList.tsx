@@ -1,5 +1,6 @@
-import { ExternalLink, Clock } from 'lucide-react';
-import type { MonitorArticle, MonitorSignal } from './monitor/types';
+import { ExternalLink, Clock, Layers } from 'lucide-react';
+import type { MonitorArticle } from './monitor/types';
+import { SIGNAL_SEVERITY_CLASSES, flaggedSignals, signalDefinition, useSignalTaxonomy } from './monitor/signals';
 
 interface MonitorArticleListProps {
   articles: MonitorArticle[];
@@ -7,33 +8,6 @@ interface MonitorArticleListProps {
   onSelect: (article: MonitorArticle) => void;
 }
 
-const SIGNAL_META: Record<MonitorSignal, { label: string; classNames: string }> = {
-  financial_decline: {
-    label: 'Financial Decline',
-    classNames: 'bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-200',
-  },
-  fraud: {
-    label: 'Fraud',
-    classNames: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200',
-  },
-  misstated_financials: {
-    label: 'Misstated Financials',
-    classNames: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200',
-  },
-  shareholder_issues: {
-    label: 'Shareholder Issues',
-    classNames: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200',
-  },
-  director_duties: {
-    label: 'Director Duties',
-    classNames: 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-800 dark:text-indigo-200',
-  },
-  enforcement: {
-    label: 'Enforcement',
-    classNames: 'bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-200',
-  },
-};
-
 function formatPublishedAt(publishedAt: string | null) {
   if (!publishedAt) return 'Unknown date';
   const published = new Date(publishedAt);
@@ -58,11 +32,9 @@ function extractHostname(url: string) {
   }
 }
 
-function getActiveSignals(signals: MonitorArticle['signals']) {
-  return (Object.keys(signals) as MonitorSignal[]).filter((key) => Boolean(signals[key]));
-}
-
 export function MonitorArticleList({ articles, loading, onSelect }: MonitorArticleListProps) {
+  const taxonomy = useSignalTaxonomy();
+
   if (loading) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-12 text-center">
@@ -83,7 +55,7 @@ export function MonitorArticleList({ articles, loading, onSelect }: MonitorArtic
   return (
     <div className="space-y-4">
       {articles.map((article) => {
-        const signals = getActiveSignals(article.signals);
+        const signals = flaggedSignals(taxonomy, article.signals);
         const hostname = extractHostname(article.url);
 
         return (
@@ -105,6 +77,15 @@ export function MonitorArticleList({ articles, loading, onSelect }: MonitorArtic
                     <Clock className="h-3.5 w-3.5" />
                     {formatPublishedAt(article.published_at)}
                   </span>
+                  {article.story && article.story.source_count > 1 && (
+                    <span
+                      className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-200"
+                      title={`${article.story.article_count} copies of this story`}
+                    >
+                      <Layers className="h-3.5 w-3.5" />
+                      {article.story.source_count} sources
+                    </span>
+                  )}
                 </div>
               </div>
               <a
@@ -127,14 +108,17 @@ export function MonitorArticleList({ articles, loading, onSelect }: MonitorArtic
 
             {signals.length > 0 && (
               <div className="flex flex-wrap gap-2 mb-4">
-                {signals.map((signal) => (
-                  <span
-                    key={signal}
-                    className={`inline-flex items-center px-2.5 py-1 text-xs font-medium rounded-full ${SIGNAL_META[signal].classNames}`}
-                  >
-                    {SIGNAL_META[signal].label}
-                  </span>
-                ))}
+                {signals.map((signal) => {
+                  const definition = signalDefinition(taxonomy, signal);
+                  return (
+                    <span
+                      key={signal}
+                      className={`inline-flex items-center px-2.5 py-1 text-xs font-medium rounded-full ${SIGNAL_SEVERITY_CLASSES[definition.severity]}`}
+                    >
+                      {definition.label}
+                    </span>
+                  );
+                })}
               </div>
             )}
 
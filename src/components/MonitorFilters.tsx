@@ -1,11 +1,12 @@
 import { FormEvent } from 'react';
 import { Search, RefreshCw } from 'lucide-react';
 import type { MonitorSignal } from './monitor/types';
+import { useSignalTaxonomy } from './monitor/signals';
 
 export type MonitorFiltersState = {
   query: string;
   signals: MonitorSignal[];
-  source: 'all' | 'gdelt' | 'newsapi';
+  source: 'all' | 'gdelt' | 'newsapi' | 'rss';
   from: string;
   to: string;
 };
@@ -18,22 +19,16 @@ interface MonitorFiltersProps {
   isLoading?: boolean;
 }
 
-const SIGNAL_OPTIONS: { key: MonitorSignal; label: string }[] = [
-  { key: 'fraud', label: 'Fraud' },
-  { key: 'financial_decline', label: 'Financial Decline' },
-  { key: 'enforcement', label: 'Enforcement' },
-  { key: 'misstated_financials', label: 'Misstated Financials' },
-  { key: 'shareholder_issues', label: 'Shareholder Issues' },
-  { key: 'director_duties', label: 'Director Duties' },
-];
-
 const SOURCE_OPTIONS = [
   { value: 'all', label: 'All Sources' },
   { value: 'gdelt', label: 'GDELT' },
   { value: 'newsapi', label: 'NewsAPI' },
+  { value: 'rss', label: 'RSS Feeds' },
 ];
 
 export function MonitorFilters({ value, onChange, onApply, onReset, isLoading }: MonitorFiltersProps) {
+  const taxonomy = useSignalTaxonomy();
+
   const handleSubmit = (event: FormEvent) => {
     event.preventDefault();
     onApply();
@@ -81,11 +76,12 @@ export function MonitorFilters({ value, onChange, onApply, onReset, isLoading }:
       <div>
         <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Risk Signals</p>
         <div className="grid grid-cols-1 gap-2">
-          {SIGNAL_OPTIONS.map((option) => {
-            const checked = value.signals.includes(option.key);
+          {taxonomy.map((option) => {
+            const checked = value.signals.includes(option.name);
             return (
               <label
-                key={option.key}
+                key={option.name}
+                title={option.description || undefined}
                 className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-colors cursor-pointer ${
                   checked
                     ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/40 text-blue-700 dark:text-blue-200'
@@ -95,10 +91,11 @@ export function MonitorFilters({ value, onChange, onApply, onReset, isLoading }:
                 <input
                   type="checkbox"
                   checked={checked}
-                  onChange={() => toggleSignal(option.key)}
+                  onChange={() => toggleSignal(option.name)}
                   className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                 />
                 <span className="text-sm font-medium">{option.label}</span>
+                {!option.active && <span className="ml-auto text-xs text-gray-400 dark:text-gray-500">Retired</span>}
               </label>
             );
           })}
@@ -1,5 +1,7 @@
 import { useEffect, useMemo, useState } from 'react';
 import { Database, TrendingUp, Globe, Activity } from 'lucide-react';
+import { accessToken } from '../lib/supabase';
+import { signalDefinition, useSignalTaxonomy } from './monitor/signals';
 
 interface StatsResponse {
   total_articles: number;
@@ -21,6 +23,7 @@ interface StatsResponse {
 export function MonitorStatsWidget() {
   const [stats, setStats] = useState<StatsResponse | null>(null);
   const [loading, setLoading] = useState(true);
+  const taxonomy = useSignalTaxonomy();
 
   useEffect(() => {
     loadStats();
@@ -31,10 +34,9 @@ export function MonitorStatsWidget() {
   async function loadStats() {
     try {
       const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-      const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
       const response = await fetch(`${supabaseUrl}/functions/v1/monitor_api/stats`, {
         headers: {
-          'Authorization': `Bearer ${supabaseKey}`,
+          'Authorization': `Bearer ${await accessToken()}`,
         },
       });
 
@@ -127,7 +129,7 @@ export function MonitorStatsWidget() {
             <ul className="space-y-2 text-sm text-gray-700 dark:text-gray-300">
               {topSignals.map(({ key, count }) => (
                 <li key={key} className="flex items-center justify-between">
-                  <span className="capitalize">{key.replace(/_/g, ' ')}</span>
+                  <span>{signalDefinition(taxonomy, key).label}</span>
                   <span className="font-semibold text-gray-900 dark:text-white">{count}</span>
                 </li>
               ))}
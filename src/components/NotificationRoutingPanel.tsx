@@ -0,0 +1,512 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2, Edit2, FileText, X } from 'lucide-react';
+import { supabase, accessToken } from '../lib/supabase';
+import type { Database, NotificationRoutingRule } from '../lib/database.types';
+
+type RuleInsert = Database['public']['Tables']['notification_routing_rules']['Insert'];
+
+const PRIORITIES = ['low', 'medium', 'high', 'critical'];
+const CHANNELS = ['dashboard', 'email', 'slack', 'webhook'];
+const NOTIFICATION_TYPES = ['registry_new_cases', 'watchlist_hit', 'system_alert', 'error_alert'];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const DELIVERY_MODE_LABELS: Record<string, string> = {
+  immediate: 'Immediate',
+  daily_digest: 'Daily digest',
+  weekly_digest: 'Weekly digest',
+};
+
+interface RuleForm {
+  name: string;
+  notification_type: string;
+  priorities: string[];
+  channels: string[];
+  email_recipients: string;
+  slack_webhook: string;
+  delivery_mode: 'immediate' | 'daily_digest' | 'weekly_digest';
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  timezone: string;
+  digest_hour: number;
+  digest_weekday: number;
+  sort_order: number;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  notification_type: '',
+  priorities: ['low', 'medium'],
+  channels: ['dashboard', 'email'],
+  email_recipients: '',
+  slack_webhook: '',
+  delivery_mode: 'daily_digest',
+  quiet_hours_start: '',
+  quiet_hours_end: '',
+  timezone: 'America/Cayman',
+  digest_hour: 8,
+  digest_weekday: 1,
+  sort_order: 100,
+};
+
+function toForm(rule: NotificationRoutingRule): RuleForm {
+  return {
+    name: rule.name,
+    notification_type: rule.notification_type || '',
+    priorities: rule.priorities,
+    channels: rule.channels,
+    email_recipients: rule.email_recipients.join(', '),
+    slack_webhook: rule.slack_webhook || '',
+    delivery_mode: rule.delivery_mode,
+    quiet_hours_start: rule.quiet_hours_start?.slice(0, 5) || '',
+    quiet_hours_end: rule.quiet_hours_end?.slice(0, 5) || '',
+    timezone: rule.timezone,
+    digest_hour: rule.digest_hour,
+    digest_weekday: rule.digest_weekday,
+    sort_order: rule.sort_order,
+  };
+}
+
+function toggle(list: string[], value: string): string[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+export function NotificationRoutingPanel() {
+  const [rules, setRules] = useState<NotificationRoutingRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [previewHtml, setPreviewHtml] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  async function loadRules() {
+    try {
+      const { data, error } = await supabase
+        .from('notification_routing_rules')
+        .select('*')
+        .order('sort_order', { ascending: true });
+
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      console.error('Error loading routing rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function startAdd() {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setShowForm(true);
+  }
+
+  function startEdit(rule: NotificationRoutingRule) {
+    setEditingId(rule.id);
+    setForm(toForm(rule));
+    setShowForm(true);
+  }
+
+  async function saveRule() {
+    if (!form.name.trim()) {
+      alert('Give the rule a name.');
+      return;
+    }
+    if ((form.quiet_hours_start === '') !== (form.quiet_hours_end === '')) {
+      alert('Set both the start and end of quiet hours, or neither.');
+      return;
+    }
+
+    const payload: RuleInsert = {
+      name: form.name.trim(),
+      notification_type: form.notification_type || null,
+      priorities: form.priorities,
+      channels: form.channels,
+      email_recipients: form.email_recipients
+        .split(/[,;\s]+/)
+        .map((email) => email.trim())
+        .filter(Boolean),
+      slack_webhook: form.slack_webhook.trim() || null,
+      delivery_mode: form.delivery_mode,
+      quiet_hours_start: form.quiet_hours_start || null,
+      quiet_hours_end: form.quiet_hours_end || null,
+      timezone: form.timezone,
+      digest_hour: form.digest_hour,
+      digest_weekday: form.digest_weekday,
+      sort_order: form.sort_order,
+    };
+
+    try {
+      setSaving(true);
+      const { error } = editingId
+        ? await supabase.from('notification_routing_rules').update(payload).eq('id', editingId)
+        : await supabase.from('notification_routing_rules').insert(payload);
+
+      if (error) throw error;
+      setShowForm(false);
+      setEditingId(null);
+      await loadRules();
+    } catch (error) {
+      console.error('Error saving routing rule:', error);
+      alert('Failed to save routing rule');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function toggleActive(rule: NotificationRoutingRule) {
+    const { error } = await supabase
+      .from('notification_routing_rules')
+      .update({ is_active: !rule.is_active })
+      .eq('id', rule.id);
+
+    if (error) {
+      console.error('Error updating routing rule:', error);
+      alert('Failed to update routing rule');
+      return;
+    }
+    await loadRules();
+  }
+
+  async function deleteRule(rule: NotificationRoutingRule) {
+    if (!confirm(`Delete the routing rule "${rule.name}"? Notifications queued for it will be dropped.`)) return;
+
+    const { error } = await supabase.from('notification_routing_rules').delete().eq('id', rule.id);
+    if (error) {
+      console.error('Error deleting routing rule:', error);
+      alert('Failed to delete routing rule');
+      return;
+    }
+    await loadRules();
+  }
+
+  async function previewDigest(rule: NotificationRoutingRule) {
+    try {
+      setPreviewing(rule.id);
+      const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/send-notification-digest`;
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${await accessToken()}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ rule_id: rule.id, preview: true }),
+      });
+
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      // Quiet-hours holds and scheduled digests render separately; show them one after the other
+      const html = (result.digests as Array<{ html: string }>).map((digest) => digest.html).join('\n');
+      setPreviewHtml(html || '<p style="font-family:sans-serif;color:#6b7280;">Nothing queued for this rule.</p>');
+    } catch (error) {
+      console.error('Error previewing digest:', error);
+      alert('Failed to render digest preview. Please check the console for details.');
+    } finally {
+      setPreviewing(null);
+    }
+  }
+
+  function describeRule(rule: NotificationRoutingRule): string {
+    const parts = [
+      rule.notification_type || 'all types',
+      rule.priorities.length === PRIORITIES.length || rule.priorities.length === 0
+        ? 'any priority'
+        : rule.priorities.join('/'),
+      `→ ${rule.channels.join(', ')}`,
+    ];
+    if (rule.delivery_mode === 'daily_digest') {
+      parts.push(`daily at ${String(rule.digest_hour).padStart(2, '0')}:00`);
+    } else if (rule.delivery_mode === 'weekly_digest') {
+      parts.push(`${WEEKDAYS[rule.digest_weekday]}s at ${String(rule.digest_hour).padStart(2, '0')}:00`);
+    }
+    if (rule.quiet_hours_start && rule.quiet_hours_end) {
+      parts.push(`quiet ${rule.quiet_hours_start.slice(0, 5)}–${rule.quiet_hours_end.slice(0, 5)}`);
+    }
+    return parts.join(' · ');
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 mb-2">Notification Routing</h2>
+          <p className="text-sm text-gray-600">
+            Rules are checked in order and the first match decides channels, recipients, quiet hours and
+            whether notifications are batched into a digest. Critical notifications are always sent
+            immediately. Without a matching rule, notifications use the email and Slack settings above.
+          </p>
+        </div>
+        <button
+          onClick={startAdd}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shrink-0"
+        >
+          <Plus size={18} />
+          Add Rule
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-4 bg-gray-50">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Low priority daily digest"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Notification Type</label>
+              <select
+                value={form.notification_type}
+                onChange={(e) => setForm({ ...form, notification_type: e.target.value })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Any type</option>
+                {NOTIFICATION_TYPES.map((type) => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Order</label>
+              <input
+                type="number"
+                value={form.sort_order}
+                onChange={(e) => setForm({ ...form, sort_order: parseInt(e.target.value) || 0 })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Priorities</label>
+              <div className="flex flex-wrap gap-3">
+                {PRIORITIES.map((priority) => (
+                  <label key={priority} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.priorities.includes(priority)}
+                      onChange={() => setForm({ ...form, priorities: toggle(form.priorities, priority) })}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    {priority}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Channels</label>
+              <div className="flex flex-wrap gap-3">
+                {CHANNELS.map((channel) => (
+                  <label key={channel} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.channels.includes(channel)}
+                      onChange={() => setForm({ ...form, channels: toggle(form.channels, channel) })}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    {channel}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Email Recipients</label>
+              <input
+                type="text"
+                value={form.email_recipients}
+                onChange={(e) => setForm({ ...form, email_recipients: e.target.value })}
+                placeholder="Comma separated; blank uses the alert email"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Slack Webhook</label>
+              <input
+                type="text"
+                value={form.slack_webhook}
+                onChange={(e) => setForm({ ...form, slack_webhook: e.target.value })}
+                placeholder="Blank uses the Slack webhook above"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Delivery</label>
+              <select
+                value={form.delivery_mode}
+                onChange={(e) => setForm({ ...form, delivery_mode: e.target.value as RuleForm['delivery_mode'] })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {Object.entries(DELIVERY_MODE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Digest Hour</label>
+              <select
+                value={form.digest_hour}
+                disabled={form.delivery_mode === 'immediate'}
+                onChange={(e) => setForm({ ...form, digest_hour: parseInt(e.target.value) })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <option key={hour} value={hour}>{String(hour).padStart(2, '0')}:00</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Digest Day</label>
+              <select
+                value={form.digest_weekday}
+                disabled={form.delivery_mode !== 'weekly_digest'}
+                onChange={(e) => setForm({ ...form, digest_weekday: parseInt(e.target.value) })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+              >
+                {WEEKDAYS.map((day, index) => (
+                  <option key={day} value={index}>{day}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Timezone</label>
+              <select
+                value={form.timezone}
+                onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="America/Cayman">America/Cayman</option>
+                <option value="America/New_York">America/New York</option>
+                <option value="Europe/London">Europe/London</option>
+                <option value="UTC">UTC</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Quiet Hours Start</label>
+              <input
+                type="time"
+                value={form.quiet_hours_start}
+                onChange={(e) => setForm({ ...form, quiet_hours_start: e.target.value })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Quiet Hours End</label>
+              <input
+                type="time"
+                value={form.quiet_hours_end}
+                onChange={(e) => setForm({ ...form, quiet_hours_end: e.target.value })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={saveRule}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+            >
+              {saving ? 'Saving...' : editingId ? 'Update Rule' : 'Add Rule'}
+            </button>
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-sm text-gray-500">Loading routing rules...</div>
+      ) : rules.length === 0 ? (
+        <div className="text-sm text-gray-500">
+          No routing rules yet. All notifications are sent immediately to the configured channels.
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between p-4 gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-gray-400">#{rule.sort_order}</span>
+                  <span className={`font-medium ${rule.is_active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                    {rule.name}
+                  </span>
+                  <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+                    {DELIVERY_MODE_LABELS[rule.delivery_mode]}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600 mt-1 truncate">{describeRule(rule)}</p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  onClick={() => previewDigest(rule)}
+                  disabled={previewing === rule.id}
+                  title="Preview digest"
+                  className="p-2 text-gray-600 hover:text-blue-600 disabled:text-gray-300"
+                >
+                  <FileText size={18} />
+                </button>
+                <button
+                  onClick={() => toggleActive(rule)}
+                  className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-100"
+                >
+                  {rule.is_active ? 'Pause' : 'Resume'}
+                </button>
+                <button
+                  onClick={() => startEdit(rule)}
+                  title="Edit rule"
+                  className="p-2 text-gray-600 hover:text-blue-600"
+                >
+                  <Edit2 size={18} />
+                </button>
+                <button
+                  onClick={() => deleteRule(rule)}
+                  title="Delete rule"
+                  className="p-2 text-gray-600 hover:text-red-600"
+                >
+                  <Trash2 size={18} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {previewHtml !== null && (
+        <div className="border border-gray-200 rounded-lg">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 bg-gray-50">
+            <span className="text-sm font-medium text-gray-700">Digest preview (nothing has been sent)</span>
+            <button onClick={() => setPreviewHtml(null)} className="text-gray-500 hover:text-gray-700">
+              <X size={18} />
+            </button>
+          </div>
+          <iframe title="Digest preview" srcDoc={previewHtml} sandbox="" className="w-full h-96 bg-white" />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,16 @@
 import { useState } from 'react';
 import { Upload, Loader, AlertTriangle, X } from 'lucide-react';
 import { DashboardSummaryDisplay } from './DashboardSummaryDisplay';
+import type { CaseAnalysis } from '../lib/database.types';
+import { uploadPdf } from '../lib/pdfStorage';
+import { accessToken } from '../lib/supabase';
 
 export function PdfExtractPanel() {
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingStep, setProcessingStep] = useState('');
   const [dashboardSummary, setDashboardSummary] = useState<string | null>(null);
+  const [analysis, setAnalysis] = useState<CaseAnalysis | null>(null);
   const [tokensUsed, setTokensUsed] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
 
@@ -52,26 +56,22 @@ export function PdfExtractPanel() {
       setIsProcessing(true);
       setError(null);
       setDashboardSummary(null);
+      setAnalysis(null);
       setTokensUsed(null);
 
-      setProcessingStep('Analyzing PDF with Claude...');
+      setProcessingStep('Uploading PDF...');
+      const { pdf_object: pdfObject } = await uploadPdf(file);
 
-      const arrayBuffer = await file.arrayBuffer();
-      const base64 = btoa(
-        new Uint8Array(arrayBuffer).reduce(
-          (data, byte) => data + String.fromCharCode(byte),
-          ''
-        )
-      );
+      setProcessingStep('Analyzing PDF with Claude...');
 
       const analyzeUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-pdf-with-claude`;
       const response = await fetch(analyzeUrl, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await accessToken()}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ pdf_base64: base64 }),
+        body: JSON.stringify({ pdf_object_id: pdfObject.id }),
       });
 
       if (!response.ok) {
@@ -86,6 +86,7 @@ export function PdfExtractPanel() {
       }
 
       setDashboardSummary(result.dashboard_summary);
+      setAnalysis(result.analysis);
       setTokensUsed(result.tokens_used);
       setProcessingStep('Complete!');
     } catch (err: any) {
@@ -99,6 +100,7 @@ export function PdfExtractPanel() {
 
   function handleClear() {
     setDashboardSummary(null);
+    setAnalysis(null);
     setTokensUsed(null);
     setError(null);
   }
@@ -107,7 +109,7 @@ export function PdfExtractPanel() {
     if (!dashboardSummary) return;
 
     const dataStr = JSON.stringify(
-      { summary: dashboardSummary, tokens_used: tokensUsed, timestamp: new Date().toISOString() },
+      { analysis, summary: dashboardSummary, tokens_used: tokensUsed, timestamp: new Date().toISOString() },
       null,
       2
     );
@@ -138,7 +140,7 @@ export function PdfExtractPanel() {
         </div>
       </div>
 
-      {!dashboardSummary && !isProcessing && (
+      {!analysis && !isProcessing && (
         <div
           onDragOver={handleDragOver}
           onDragLeave={handleDragLeave}
@@ -206,9 +208,9 @@ export function PdfExtractPanel() {
         </div>
       )}
 
-      {dashboardSummary && (
+      {dashboardSummary && analysis && (
         <DashboardSummaryDisplay
-          summary={dashboardSummary}
+          analysis={analysis}
           tokensUsed={tokensUsed}
           onCopy={handleCopyToClipboard}
           onExport={handleExport}
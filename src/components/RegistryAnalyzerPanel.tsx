@@ -1,13 +1,18 @@
 import { useState } from 'react';
 import { Upload, Loader, AlertTriangle, X } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { supabase, accessToken } from '../lib/supabase';
 import { DashboardSummaryDisplay } from './DashboardSummaryDisplay';
+import type { CaseAnalysis } from '../lib/database.types';
+import { uploadPdf } from '../lib/pdfStorage';
+import { useAuth } from '../contexts/useAuth';
 
 export function RegistryAnalyzerPanel() {
+  const { session } = useAuth();
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingStep, setProcessingStep] = useState('');
   const [dashboardSummary, setDashboardSummary] = useState<string | null>(null);
+  const [analysis, setAnalysis] = useState<CaseAnalysis | null>(null);
   const [tokensUsed, setTokensUsed] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
   const [extractedCauseNumber, setExtractedCauseNumber] = useState<string>('');
@@ -54,27 +59,23 @@ export function RegistryAnalyzerPanel() {
       setIsProcessing(true);
       setError(null);
       setDashboardSummary(null);
+      setAnalysis(null);
       setTokensUsed(null);
       setExtractedCauseNumber('');
 
-      setProcessingStep('Analyzing PDF with Claude...');
+      setProcessingStep('Uploading PDF...');
+      const { pdf_object: pdfObject } = await uploadPdf(file);
 
-      const arrayBuffer = await file.arrayBuffer();
-      const base64 = btoa(
-        new Uint8Array(arrayBuffer).reduce(
-          (data, byte) => data + String.fromCharCode(byte),
-          ''
-        )
-      );
+      setProcessingStep('Analyzing PDF with Claude...');
 
       const analyzeUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-pdf-with-claude`;
       const response = await fetch(analyzeUrl, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await accessToken()}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ pdf_base64: base64 }),
+        body: JSON.stringify({ pdf_object_id: pdfObject.id }),
       });
 
       if (!response.ok) {
@@ -98,10 +99,12 @@ export function RegistryAnalyzerPanel() {
         .insert({
           cause_number: causeNumber,
           dashboard_summary: result.dashboard_summary,
-          extraction_metadata: {},
-          extraction_quality_score: 0,
+          parsed_json: result.analysis,
+          extraction_metadata: { schema_version: result.analysis.schema_version },
+          extraction_quality_score: result.quality_score ?? 0,
           llm_tokens_used: result.tokens_used,
-          uploaded_by: 'user',
+          uploaded_by: session?.user.email || session?.user.id,
+          pdf_object_id: pdfObject.id,
         });
 
       if (dbError) {
@@ -110,6 +113,7 @@ export function RegistryAnalyzerPanel() {
       }
 
       setDashboardSummary(result.dashboard_summary);
+      setAnalysis(result.analysis);
       setTokensUsed(result.tokens_used);
       setProcessingStep('Complete!');
 
@@ -125,6 +129,7 @@ export function RegistryAnalyzerPanel() {
 
   function handleClear() {
     setDashboardSummary(null);
+    setAnalysis(null);
     setTokensUsed(null);
     setError(null);
     setExtractedCauseNumber('');
@@ -136,6 +141,7 @@ export function RegistryAnalyzerPanel() {
     const dataStr = JSON.stringify(
       {
         cause_number: extractedCauseNumber,
+        analysis,
         summary: dashboardSummary,
         tokens_used: tokensUsed,
         timestamp: new Date().toISOString()
@@ -170,7 +176,7 @@ export function RegistryAnalyzerPanel() {
         </div>
       </div>
 
-      {!dashboardSummary && !isProcessing && (
+      {!analysis && !isProcessing && (
         <>
           <div
             onDragOver={handleDragOver}
@@ -240,7 +246,7 @@ export function RegistryAnalyzerPanel() {
         </div>
       )}
 
-      {dashboardSummary && (
+      {dashboardSummary && analysis && (
         <div className="space-y-4">
           {extractedCauseNumber && (
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -251,7 +257,7 @@ export function RegistryAnalyzerPanel() {
             </div>
           )}
           <DashboardSummaryDisplay
-            summary={dashboardSummary}
+            analysis={analysis}
             tokensUsed={tokensUsed}
             onCopy={handleCopyToClipboard}
             onExport={handleExport}
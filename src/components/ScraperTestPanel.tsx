@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { PlayCircle, CheckCircle, XCircle, AlertCircle, Clock, ChevronDown, ChevronRight } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { supabase, accessToken } from '../lib/supabase';
 
 interface TestLog {
   step: string;
@@ -45,7 +45,7 @@ export function ScraperTestPanel() {
       const response = await fetch(apiUrl, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await accessToken()}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/useAuth';
+import type { UserProfile, UserRole } from '../lib/database.types';
+
+const ROLES: { role: UserRole; description: string }[] = [
+  { role: 'viewer', description: 'Read everything, mark notifications read' },
+  { role: 'analyst', description: 'Also upload and analyze PDFs, run scrapes, review and manage watchlists' },
+  { role: 'admin', description: 'Also change settings, API keys, webhooks, routing and user roles' },
+];
+
+export function UserRolesPanel() {
+  const { profile } = useAuth();
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  async function loadUsers() {
+    try {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setUsers(data || []);
+    } catch (err) {
+      console.error('Error loading users:', err);
+      setError('Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function setRole(id: string, role: UserRole) {
+    try {
+      setError(null);
+      const { error } = await supabase.from('user_profiles').update({ role }).eq('id', id);
+      if (error) throw error;
+      setUsers(users.map((user) => (user.id === id ? { ...user, role } : user)));
+    } catch (err) {
+      console.error('Error updating role:', err);
+      setError('Failed to update role');
+    }
+  }
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading users...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <ul className="text-xs text-gray-600 space-y-1">
+        {ROLES.map(({ role, description }) => (
+          <li key={role}>
+            <strong className="capitalize">{role}</strong>: {description}
+          </li>
+        ))}
+      </ul>
+
+      {error && <div className="p-3 rounded-lg bg-red-50 text-red-800 text-sm">{error}</div>}
+
+      <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {users.map((user) => (
+          <div key={user.id} className="flex items-center justify-between px-4 py-3">
+            <div>
+              <div className="text-sm font-medium text-gray-900">{user.email || user.id}</div>
+              <div className="text-xs text-gray-500">Joined {new Date(user.created_at).toLocaleDateString()}</div>
+            </div>
+            <select
+              value={user.role}
+              onChange={(e) => setRole(user.id, e.target.value as UserRole)}
+              // Admins can't demote themselves and lock everyone out of Settings
+              disabled={user.id === profile?.id}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+            >
+              {ROLES.map(({ role }) => (
+                <option key={role} value={role}>{role}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import type { MonitorSignal, MonitorSignalDefinition, SignalSeverity } from './types';
+
+export const SIGNAL_SEVERITY_CLASSES: Record<SignalSeverity, string> = {
+  high: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200',
+  medium: 'bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-200',
+  low: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200',
+};
+
+// The taxonomy changes rarely; one request per page load is enough
+let taxonomyRequest: Promise<MonitorSignalDefinition[]> | null = null;
+
+function loadSignalTaxonomy(): Promise<MonitorSignalDefinition[]> {
+  taxonomyRequest ??= (async () => {
+    const { data, error } = await supabase
+      .from('monitor_signals')
+      .select('name, label, description, severity, active')
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true });
+
+    if (error) {
+      taxonomyRequest = null;
+      throw error;
+    }
+    return (data || []) as MonitorSignalDefinition[];
+  })();
+  return taxonomyRequest;
+}
+
+/**
+ * Signals from monitor_signals, in display order; empty until loaded
+ */
+export function useSignalTaxonomy(): MonitorSignalDefinition[] {
+  const [signals, setSignals] = useState<MonitorSignalDefinition[]>([]);
+
+  useEffect(() => {
+    let isActive = true;
+
+    loadSignalTaxonomy()
+      .then((data) => {
+        if (isActive) setSignals(data);
+      })
+      .catch((error) => console.error('Error loading signal taxonomy:', error));
+
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  return signals;
+}
+
+/**
+ * A signal's definition, or a readable stand-in for a name the taxonomy does not list
+ */
+export function signalDefinition(signals: MonitorSignalDefinition[], name: MonitorSignal): MonitorSignalDefinition {
+  return (
+    signals.find((signal) => signal.name === name) ?? {
+      name,
+      label: name.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase()),
+      description: '',
+      severity: 'medium',
+      active: false,
+    }
+  );
+}
+
+/**
+ * Names of the signals set on an article, in taxonomy order
+ */
+export function flaggedSignals(signals: MonitorSignalDefinition[], flags: Record<MonitorSignal, boolean>): MonitorSignal[] {
+  const order = new Map(signals.map((signal, index) => [signal.name, index]));
+  return Object.keys(flags)
+    .filter((name) => flags[name])
+    .sort((a, b) => (order.get(a) ?? order.size) - (order.get(b) ?? order.size));
+}
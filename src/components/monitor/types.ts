@@ -1,10 +1,16 @@
-export type MonitorSignal =
-  | 'financial_decline'
-  | 'fraud'
-  | 'misstated_financials'
-  | 'shareholder_issues'
-  | 'director_duties'
-  | 'enforcement';
+// A name from the monitor_signals taxonomy
+export type MonitorSignal = string;
+
+export type SignalSeverity = 'low' | 'medium' | 'high';
+
+export type MonitorSignalDefinition = {
+  name: MonitorSignal;
+  label: string;
+  description: string;
+  severity: SignalSeverity;
+  // Retired signals are no longer detected but stay on articles and in the filters
+  active: boolean;
+};
 
 export type MonitorArticle = {
   id: string;
@@ -17,6 +23,26 @@ export type MonitorArticle = {
   signals: Record<MonitorSignal, boolean>;
   reasons: string[];
   confidence: number | null;
+  // Present when the list is grouped by story; source_count > 1 means other sites carried it too
+  story?: MonitorStory | null;
+};
+
+export type MonitorStory = {
+  id: string;
+  title: string | null;
+  article_count: number;
+  source_count: number;
+  first_published_at: string | null;
+  last_published_at: string | null;
+};
+
+export type StoryCoverage = {
+  id: string;
+  url: string;
+  source: string;
+  source_name: string | null;
+  title: string | null;
+  published_at: string | null;
 };
 
 export type ArticleEntity = {
@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import type { UserProfile, UserRole } from '../lib/database.types';
+import { AuthContext } from './useAuth';
+
+const ROLE_ORDER: UserRole[] = ['viewer', 'analyst', 'admin'];
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      if (!data.session) setLoading(false);
+    });
+
+    const { data } = supabase.auth.onAuthStateChange((_event, next) => {
+      setSession(next);
+      if (!next) {
+        setProfile(null);
+        setLoading(false);
+      }
+    });
+
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  const userId = session?.user.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    supabase
+      .from('user_profiles')
+      .select('*')
+      .eq('id', userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error('Error loading profile:', error);
+        setProfile(data);
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Both return an error message, or null on success
+  const signIn = async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    return error ? error.message : null;
+  };
+
+  const signUp = async (email: string, password: string) => {
+    const { error } = await supabase.auth.signUp({ email, password });
+    return error ? error.message : null;
+  };
+
+  const signOut = async () => {
+    await supabase.auth.signOut();
+  };
+
+  const hasRole = (required: UserRole) =>
+    !!profile && ROLE_ORDER.indexOf(profile.role) >= ROLE_ORDER.indexOf(required);
+
+  return (
+    <AuthContext.Provider value={{ session, profile, loading, signIn, signUp, signOut, hasRole }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
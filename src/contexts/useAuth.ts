@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import type { UserProfile, UserRole } from '../lib/database.types';
+
+interface AuthContextType {
+  session: Session | null;
+  profile: UserProfile | null;
+  loading: boolean;
+  signIn: (email: string, password: string) => Promise<string | null>;
+  signUp: (email: string, password: string) => Promise<string | null>;
+  signOut: () => Promise<void>;
+  hasRole: (required: UserRole) => boolean;
+}
+
+// Provided by AuthProvider in AuthContext.tsx
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
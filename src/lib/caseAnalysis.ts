@@ -0,0 +1,93 @@
+import type { CaseAnalysis } from './database.types';
+
+export interface CaseAnalysisField {
+  label: string;
+  value: string;
+}
+
+/**
+ * Structured analyses have schema_version 1; anything else in parsed_json is a
+ * markdown-era analysis that migrate-case-analyses has not converted yet
+ */
+export function isCaseAnalysis(value: unknown): value is CaseAnalysis {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    (value as { schema_version?: unknown }).schema_version === 1 &&
+    Array.isArray((value as { timeline?: unknown }).timeline)
+  );
+}
+
+function fields(entries: Array<[string, string | null | undefined]>, notes: string[] = []): CaseAnalysisField[] {
+  return [
+    ...entries
+      .filter((entry): entry is [string, string] => !!entry[1])
+      .map(([label, value]) => ({ label, value })),
+    ...notes.map((note) => ({ label: '', value: note })),
+  ];
+}
+
+export function companyOverviewFields(analysis: CaseAnalysis): CaseAnalysisField[] {
+  const overview = analysis.company_overview;
+  const formerNames = overview.former_names
+    .map((former) => (former.changed_on ? `${former.name} (until ${former.changed_on})` : former.name))
+    .join(' → ');
+
+  return fields(
+    [
+      ['Registration No.', overview.registration_number],
+      ['Incorporated', overview.incorporation_date],
+      ['Former names', formerNames],
+      ['Registered Office', overview.registered_office],
+      ['Principal Business', overview.principal_business],
+      ['Stock Listing', overview.stock_listing],
+    ],
+    overview.notes
+  );
+}
+
+export function legalDetailsFields(analysis: CaseAnalysis): CaseAnalysisField[] {
+  const legal = analysis.legal_details;
+  return fields(
+    [
+      ['Court', legal.court],
+      ['Cause No.', legal.cause_number],
+      ['Filed', legal.filing_date],
+      ['Filing Law Firm', legal.filing_law_firm],
+      ['Petition Type', legal.petition_type],
+      ['Statutory Basis', legal.statutory_basis],
+    ],
+    legal.notes
+  );
+}
+
+export function capitalStructureFields(analysis: CaseAnalysis): CaseAnalysisField[] {
+  const capital = analysis.capital_structure;
+  return fields(
+    [
+      ['Authorised capital', capital.authorised_capital],
+      ['Issued capital', capital.issued_capital],
+      ['Proposed changes', capital.proposed_changes],
+      ['Purpose', capital.purpose],
+      ['Solvency status', capital.solvency_status],
+    ],
+    capital.notes
+  );
+}
+
+export function practitionerFields(analysis: CaseAnalysis): CaseAnalysisField[] {
+  const { appointed, appointments, note } = analysis.practitioners;
+  const entries = appointments.map((appointment) => ({
+    label: appointment.role || '',
+    value: appointment.firm ? `${appointment.name} (${appointment.firm})` : appointment.name,
+  }));
+
+  if (note) entries.push({ label: '', value: note });
+  if (entries.length === 0 && appointed === false) entries.push({ label: '', value: 'None appointed' });
+  return entries;
+}
+
+export function companyDisplayName(analysis: CaseAnalysis): string | null {
+  const { name, name_chinese } = analysis.company_overview;
+  return [name, name_chinese].filter(Boolean).join(' ') || null;
+}
@@ -64,6 +64,7 @@ export interface Database {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       cases: {
         Row: {
@@ -87,6 +88,7 @@ export interface Database {
           status: string
           error_message: string | null
           processed_at: string | null
+          pdf_object_id: string | null
           created_at: string
           updated_at: string
         }
@@ -111,6 +113,7 @@ export interface Database {
           status?: string
           error_message?: string | null
           processed_at?: string | null
+          pdf_object_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -135,9 +138,11 @@ export interface Database {
           status?: string
           error_message?: string | null
           processed_at?: string | null
+          pdf_object_id?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       gazette_issues: {
         Row: {
@@ -154,6 +159,7 @@ export interface Database {
           possible_misses: Json
           run_fingerprint: string
           manually_reviewed: boolean
+          pdf_object_id: string | null
           created_at: string
           updated_at: string
         }
@@ -171,6 +177,7 @@ export interface Database {
           possible_misses?: Json
           run_fingerprint: string
           manually_reviewed?: boolean
+          pdf_object_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -188,9 +195,11 @@ export interface Database {
           possible_misses?: Json
           run_fingerprint?: string
           manually_reviewed?: boolean
+          pdf_object_id?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       gazette_notices: {
         Row: {
@@ -241,6 +250,7 @@ export interface Database {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       scrape_jobs: {
         Row: {
@@ -256,6 +266,12 @@ export interface Database {
           error_log: string | null
           summary_report: string | null
           triggered_by: string
+          parent_job_id: string | null
+          payload: Json
+          progress: Json
+          attempts: number
+          next_attempt_at: string | null
+          dedupe_key: string | null
           created_at: string
         }
         Insert: {
@@ -271,6 +287,12 @@ export interface Database {
           error_log?: string | null
           summary_report?: string | null
           triggered_by?: string
+          parent_job_id?: string | null
+          payload?: Json
+          progress?: Json
+          attempts?: number
+          next_attempt_at?: string | null
+          dedupe_key?: string | null
           created_at?: string
         }
         Update: {
@@ -286,15 +308,20 @@ export interface Database {
           error_log?: string | null
           summary_report?: string | null
           triggered_by?: string
+          parent_job_id?: string | null
+          payload?: Json
+          progress?: Json
+          attempts?: number
+          next_attempt_at?: string | null
+          dedupe_key?: string | null
           created_at?: string
         }
+        Relationships: []
       }
       app_settings: {
         Row: {
           id: string
           ocr_provider: string
-          ocr_api_key: string | null
-          firecrawl_api_key: string | null
           firecrawl_enabled: boolean
           automation_enabled: boolean
           alert_email: string | null
@@ -309,14 +336,16 @@ export interface Database {
           last_gazette_extraordinary_run: string | null
           notification_enabled: boolean
           lookback_days: number
+          llm_provider: string
+          llm_models: Json
+          llm_daily_budget: number | null
+          llm_monthly_budget: number | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
           ocr_provider?: string
-          ocr_api_key?: string | null
-          firecrawl_api_key?: string | null
           firecrawl_enabled?: boolean
           automation_enabled?: boolean
           alert_email?: string | null
@@ -331,14 +360,16 @@ export interface Database {
           last_gazette_extraordinary_run?: string | null
           notification_enabled?: boolean
           lookback_days?: number
+          llm_provider?: string
+          llm_models?: Json
+          llm_daily_budget?: number | null
+          llm_monthly_budget?: number | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
           ocr_provider?: string
-          ocr_api_key?: string | null
-          firecrawl_api_key?: string | null
           firecrawl_enabled?: boolean
           automation_enabled?: boolean
           alert_email?: string | null
@@ -353,9 +384,14 @@ export interface Database {
           last_gazette_extraordinary_run?: string | null
           notification_enabled?: boolean
           lookback_days?: number
+          llm_provider?: string
+          llm_models?: Json
+          llm_daily_budget?: number | null
+          llm_monthly_budget?: number | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       review_queue: {
         Row: {
@@ -368,6 +404,11 @@ export interface Database {
           reviewed_by: string | null
           reviewed_at: string | null
           notes: string | null
+          status: string
+          assigned_to: string | null
+          claimed_at: string | null
+          decision_reason: string | null
+          decided_at: string | null
           created_at: string
         }
         Insert: {
@@ -380,6 +421,11 @@ export interface Database {
           reviewed_by?: string | null
           reviewed_at?: string | null
           notes?: string | null
+          status?: string
+          assigned_to?: string | null
+          claimed_at?: string | null
+          decision_reason?: string | null
+          decided_at?: string | null
           created_at?: string
         }
         Update: {
@@ -392,18 +438,26 @@ export interface Database {
           reviewed_by?: string | null
           reviewed_at?: string | null
           notes?: string | null
+          status?: string
+          assigned_to?: string | null
+          claimed_at?: string | null
+          decision_reason?: string | null
+          decided_at?: string | null
           created_at?: string
         }
+        Relationships: []
       }
       analyzed_registry_pdfs: {
         Row: {
           id: string
           cause_number: string
           dashboard_summary: string
+          parsed_json: Json | null
           extraction_metadata: Json
           extraction_quality_score: number
           llm_tokens_used: Json
           uploaded_by: string
+          pdf_object_id: string | null
           created_at: string
           updated_at: string
         }
@@ -411,10 +465,12 @@ export interface Database {
           id?: string
           cause_number: string
           dashboard_summary: string
+          parsed_json?: Json | null
           extraction_metadata?: Json
           extraction_quality_score?: number
           llm_tokens_used?: Json
           uploaded_by?: string
+          pdf_object_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -422,13 +478,16 @@ export interface Database {
           id?: string
           cause_number?: string
           dashboard_summary?: string
+          parsed_json?: Json | null
           extraction_metadata?: Json
           extraction_quality_score?: number
           llm_tokens_used?: Json
           uploaded_by?: string
+          pdf_object_id?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       analyzed_gazette_pdfs: {
         Row: {
@@ -442,6 +501,7 @@ export interface Database {
           extraction_metadata: Json
           llm_tokens_used: Json
           uploaded_by: string
+          pdf_object_id: string | null
           created_at: string
           updated_at: string
         }
@@ -456,6 +516,7 @@ export interface Database {
           extraction_metadata?: Json
           llm_tokens_used?: Json
           uploaded_by?: string
+          pdf_object_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -470,9 +531,11 @@ export interface Database {
           extraction_metadata?: Json
           llm_tokens_used?: Json
           uploaded_by?: string
+          pdf_object_id?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       gazette_liquidation_notices: {
         Row: {
@@ -494,6 +557,12 @@ export interface Database {
           liquidator_contact: string | null
           raw_notice_text: string | null
           extraction_confidence: string
+          final_meeting_notice_id: string | null
+          linked_notice_ids: Json
+          final_meeting_match_status: string | null
+          final_meeting_match_method: string | null
+          final_meeting_match_confidence: number | null
+          final_meeting_reconciled_at: string | null
           created_at: string
           updated_at: string
         }
@@ -516,6 +585,12 @@ export interface Database {
           liquidator_contact?: string | null
           raw_notice_text?: string | null
           extraction_confidence?: string
+          final_meeting_notice_id?: string | null
+          linked_notice_ids?: Json
+          final_meeting_match_status?: string | null
+          final_meeting_match_method?: string | null
+          final_meeting_match_confidence?: number | null
+          final_meeting_reconciled_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -538,9 +613,16 @@ export interface Database {
           liquidator_contact?: string | null
           raw_notice_text?: string | null
           extraction_confidence?: string
+          final_meeting_notice_id?: string | null
+          linked_notice_ids?: Json
+          final_meeting_match_status?: string | null
+          final_meeting_match_method?: string | null
+          final_meeting_match_confidence?: number | null
+          final_meeting_reconciled_at?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       audit_log: {
         Row: {
@@ -573,6 +655,7 @@ export interface Database {
           user_id?: string | null
           created_at?: string
         }
+        Relationships: []
       }
       notifications: {
         Row: {
@@ -611,6 +694,920 @@ export interface Database {
           priority?: string
           created_at?: string
         }
+        Relationships: []
+      }
+      companies: {
+        Row: {
+          id: string
+          canonical_name: string
+          normalized_name: string
+          registration_no: string | null
+          aliases: Json
+          source_count: number
+          first_seen_at: string
+          last_seen_at: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          canonical_name: string
+          normalized_name: string
+          registration_no?: string | null
+          aliases?: Json
+          source_count?: number
+          first_seen_at?: string
+          last_seen_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          canonical_name?: string
+          normalized_name?: string
+          registration_no?: string | null
+          aliases?: Json
+          source_count?: number
+          first_seen_at?: string
+          last_seen_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      company_source_links: {
+        Row: {
+          id: string
+          company_id: string
+          source_type: string
+          source_id: string
+          match_method: string
+          match_confidence: number | null
+          matched_name: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          company_id: string
+          source_type: string
+          source_id: string
+          match_method: string
+          match_confidence?: number | null
+          matched_name?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          company_id?: string
+          source_type?: string
+          source_id?: string
+          match_method?: string
+          match_confidence?: number | null
+          matched_name?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      practitioner_firms: {
+        Row: {
+          id: string
+          name: string
+          normalized_name: string
+          email_domains: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          normalized_name: string
+          email_domains?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          normalized_name?: string
+          email_domains?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      practitioners: {
+        Row: {
+          id: string
+          full_name: string
+          surname: string
+          first_initial: string
+          normalized_key: string
+          firm_id: string | null
+          emails: Json
+          aliases: Json
+          appointment_count: number
+          active_mandate_count: number
+          first_appointed_on: string | null
+          last_appointed_on: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          full_name: string
+          surname: string
+          first_initial: string
+          normalized_key: string
+          firm_id?: string | null
+          emails?: Json
+          aliases?: Json
+          appointment_count?: number
+          active_mandate_count?: number
+          first_appointed_on?: string | null
+          last_appointed_on?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          full_name?: string
+          surname?: string
+          first_initial?: string
+          normalized_key?: string
+          firm_id?: string | null
+          emails?: Json
+          aliases?: Json
+          appointment_count?: number
+          active_mandate_count?: number
+          first_appointed_on?: string | null
+          last_appointed_on?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'practitioners_firm_id_fkey'
+            columns: ['firm_id']
+            isOneToOne: false
+            referencedRelation: 'practitioner_firms'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      practitioner_appointments: {
+        Row: {
+          id: string
+          practitioner_id: string
+          firm_id: string | null
+          source_type: string
+          source_id: string
+          company_name: string
+          appointment_type: string
+          appointed_on: string | null
+          closed_on: string | null
+          is_active: boolean
+          matched_name: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          practitioner_id: string
+          firm_id?: string | null
+          source_type: string
+          source_id: string
+          company_name: string
+          appointment_type?: string
+          appointed_on?: string | null
+          closed_on?: string | null
+          is_active?: boolean
+          matched_name?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          practitioner_id?: string
+          firm_id?: string | null
+          source_type?: string
+          source_id?: string
+          company_name?: string
+          appointment_type?: string
+          appointed_on?: string | null
+          closed_on?: string | null
+          is_active?: boolean
+          matched_name?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      watchlists: {
+        Row: {
+          id: string
+          entry_type: string
+          value: string
+          normalized_value: string
+          label: string | null
+          notes: string | null
+          priority: string
+          channels: Json
+          is_active: boolean
+          hit_count: number
+          last_hit_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          entry_type: string
+          value: string
+          label?: string | null
+          notes?: string | null
+          priority?: string
+          channels?: Json
+          is_active?: boolean
+          hit_count?: number
+          last_hit_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          entry_type?: string
+          value?: string
+          label?: string | null
+          notes?: string | null
+          priority?: string
+          channels?: Json
+          is_active?: boolean
+          hit_count?: number
+          last_hit_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      watchlist_hits: {
+        Row: {
+          id: string
+          watchlist_id: string
+          source_type: string
+          source_id: string
+          title: string | null
+          url: string | null
+          match_reason: string
+          matched_text: string | null
+          snippet: string | null
+          notification_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          watchlist_id: string
+          source_type: string
+          source_id: string
+          title?: string | null
+          url?: string | null
+          match_reason: string
+          matched_text?: string | null
+          snippet?: string | null
+          notification_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          watchlist_id?: string
+          source_type?: string
+          source_id?: string
+          title?: string | null
+          url?: string | null
+          match_reason?: string
+          matched_text?: string | null
+          snippet?: string | null
+          notification_id?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      watchlist_scan_state: {
+        Row: {
+          source_type: string
+          last_scanned_at: string
+          last_source_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          source_type: string
+          last_scanned_at?: string
+          last_source_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          source_type?: string
+          last_scanned_at?: string
+          last_source_id?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      notification_routing_rules: {
+        Row: {
+          id: string
+          name: string
+          notification_type: string | null
+          priorities: string[]
+          channels: string[]
+          email_recipients: string[]
+          slack_webhook: string | null
+          delivery_mode: 'immediate' | 'daily_digest' | 'weekly_digest'
+          quiet_hours_start: string | null
+          quiet_hours_end: string | null
+          timezone: string
+          digest_hour: number
+          digest_weekday: number
+          sort_order: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          notification_type?: string | null
+          priorities?: string[]
+          channels?: string[]
+          email_recipients?: string[]
+          slack_webhook?: string | null
+          delivery_mode?: 'immediate' | 'daily_digest' | 'weekly_digest'
+          quiet_hours_start?: string | null
+          quiet_hours_end?: string | null
+          timezone?: string
+          digest_hour?: number
+          digest_weekday?: number
+          sort_order?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          notification_type?: string | null
+          priorities?: string[]
+          channels?: string[]
+          email_recipients?: string[]
+          slack_webhook?: string | null
+          delivery_mode?: 'immediate' | 'daily_digest' | 'weekly_digest'
+          quiet_hours_start?: string | null
+          quiet_hours_end?: string | null
+          timezone?: string
+          digest_hour?: number
+          digest_weekday?: number
+          sort_order?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      notification_queue: {
+        Row: {
+          id: string
+          notification_id: string
+          rule_id: string
+          reason: 'digest' | 'quiet_hours'
+          deliver_after: string
+          sent_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          notification_id: string
+          rule_id: string
+          reason: 'digest' | 'quiet_hours'
+          deliver_after: string
+          sent_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          notification_id?: string
+          rule_id?: string
+          reason?: 'digest' | 'quiet_hours'
+          deliver_after?: string
+          sent_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      webhook_endpoints: {
+        Row: {
+          id: string
+          name: string
+          url: string
+          secret: string
+          event_types: string[]
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          url: string
+          secret: string
+          event_types?: string[]
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          url?: string
+          secret?: string
+          event_types?: string[]
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      webhook_deliveries: {
+        Row: {
+          id: string
+          endpoint_id: string
+          event_id: string
+          event_type: string
+          payload: Json
+          status: 'pending' | 'sending' | 'succeeded' | 'failed' | 'dead'
+          attempt_count: number
+          next_attempt_at: string | null
+          last_status_code: number | null
+          last_error: string | null
+          last_attempt_at: string | null
+          delivered_at: string | null
+          locked_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          endpoint_id: string
+          event_id: string
+          event_type: string
+          payload: Json
+          status?: 'pending' | 'sending' | 'succeeded' | 'failed' | 'dead'
+          attempt_count?: number
+          next_attempt_at?: string | null
+          last_status_code?: number | null
+          last_error?: string | null
+          last_attempt_at?: string | null
+          delivered_at?: string | null
+          locked_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          endpoint_id?: string
+          event_id?: string
+          event_type?: string
+          payload?: Json
+          status?: 'pending' | 'sending' | 'succeeded' | 'failed' | 'dead'
+          attempt_count?: number
+          next_attempt_at?: string | null
+          last_status_code?: number | null
+          last_error?: string | null
+          last_attempt_at?: string | null
+          delivered_at?: string | null
+          locked_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      webhook_delivery_attempts: {
+        Row: {
+          id: string
+          delivery_id: string
+          attempt_number: number
+          status_code: number | null
+          error: string | null
+          response_body: string | null
+          duration_ms: number | null
+          attempted_at: string
+        }
+        Insert: {
+          id?: string
+          delivery_id: string
+          attempt_number: number
+          status_code?: number | null
+          error?: string | null
+          response_body?: string | null
+          duration_ms?: number | null
+          attempted_at?: string
+        }
+        Update: {
+          id?: string
+          delivery_id?: string
+          attempt_number?: number
+          status_code?: number | null
+          error?: string | null
+          response_body?: string | null
+          duration_ms?: number | null
+          attempted_at?: string
+        }
+        Relationships: []
+      }
+      llm_usage: {
+        Row: {
+          id: string
+          function_name: string
+          task: string
+          provider: string
+          model: string
+          input_tokens: number
+          output_tokens: number
+          total_tokens: number
+          cost: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          function_name: string
+          task: string
+          provider: string
+          model: string
+          input_tokens?: number
+          output_tokens?: number
+          cost?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          function_name?: string
+          task?: string
+          provider?: string
+          model?: string
+          input_tokens?: number
+          output_tokens?: number
+          cost?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
+      court_matters: {
+        Row: {
+          id: string
+          cause_key: string
+          division: string
+          cause_number: number
+          cause_year: number
+          judge_initials: string | null
+          display_cause_number: string
+          company_name: string | null
+          company_id: string | null
+          stage: CourtMatterStage
+          petition_filed_on: string | null
+          next_hearing_on: string | null
+          last_hearing_on: string | null
+          winding_up_order_on: string | null
+          liquidator_appointed_on: string | null
+          dissolved_on: string | null
+          last_event_on: string | null
+          liquidators: Json
+          source_count: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          cause_key: string
+          division: string
+          cause_number: number
+          cause_year: number
+          judge_initials?: string | null
+          display_cause_number: string
+          company_name?: string | null
+          company_id?: string | null
+          stage?: CourtMatterStage
+          petition_filed_on?: string | null
+          next_hearing_on?: string | null
+          last_hearing_on?: string | null
+          winding_up_order_on?: string | null
+          liquidator_appointed_on?: string | null
+          dissolved_on?: string | null
+          last_event_on?: string | null
+          liquidators?: Json
+          source_count?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          cause_key?: string
+          division?: string
+          cause_number?: number
+          cause_year?: number
+          judge_initials?: string | null
+          display_cause_number?: string
+          company_name?: string | null
+          company_id?: string | null
+          stage?: CourtMatterStage
+          petition_filed_on?: string | null
+          next_hearing_on?: string | null
+          last_hearing_on?: string | null
+          winding_up_order_on?: string | null
+          liquidator_appointed_on?: string | null
+          dissolved_on?: string | null
+          last_event_on?: string | null
+          liquidators?: Json
+          source_count?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      court_matter_events: {
+        Row: {
+          id: string
+          matter_id: string
+          event_type: CourtMatterEventType
+          event_date: string | null
+          source_type: 'registry_row' | 'case' | 'gazette_notice'
+          source_id: string
+          description: string | null
+          raw_cause_number: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          matter_id: string
+          event_type: CourtMatterEventType
+          event_date?: string | null
+          source_type: 'registry_row' | 'case' | 'gazette_notice'
+          source_id: string
+          description?: string | null
+          raw_cause_number?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          matter_id?: string
+          event_type?: CourtMatterEventType
+          event_date?: string | null
+          source_type?: 'registry_row' | 'case' | 'gazette_notice'
+          source_id?: string
+          description?: string | null
+          raw_cause_number?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      pdf_objects: {
+        Row: {
+          id: string
+          sha256: string
+          storage_path: string
+          size_bytes: number
+          content_type: string
+          original_filename: string | null
+          source_url: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          sha256: string
+          storage_path: string
+          size_bytes: number
+          content_type?: string
+          original_filename?: string | null
+          source_url?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          sha256?: string
+          storage_path?: string
+          size_bytes?: number
+          content_type?: string
+          original_filename?: string | null
+          source_url?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      ocr_pages: {
+        Row: {
+          id: string
+          pdf_object_id: string
+          page_number: number
+          engine: string
+          dpi: number | null
+          text: string
+          word_count: number
+          confidence: number
+          error: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          pdf_object_id: string
+          page_number: number
+          engine: string
+          dpi?: number | null
+          text?: string
+          word_count?: number
+          confidence?: number
+          error?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          pdf_object_id?: string
+          page_number?: number
+          engine?: string
+          dpi?: number | null
+          text?: string
+          word_count?: number
+          confidence?: number
+          error?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      jobs: {
+        Row: {
+          id: string
+          kind: string
+          payload: Json
+          status: 'pending' | 'running' | 'succeeded' | 'failed' | 'dead' | 'blocked'
+          idempotency_key: string | null
+          parent_job_id: string | null
+          attempt_count: number
+          max_attempts: number
+          next_attempt_at: string | null
+          locked_at: string | null
+          started_at: string | null
+          finished_at: string | null
+          last_error: string | null
+          blocked_by_job_id: string | null
+          result: Json | null
+          triggered_by: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          kind: string
+          payload?: Json
+          status?: 'pending' | 'running' | 'succeeded' | 'failed' | 'dead' | 'blocked'
+          idempotency_key?: string | null
+          parent_job_id?: string | null
+          attempt_count?: number
+          max_attempts?: number
+          next_attempt_at?: string | null
+          locked_at?: string | null
+          started_at?: string | null
+          finished_at?: string | null
+          last_error?: string | null
+          blocked_by_job_id?: string | null
+          result?: Json | null
+          triggered_by?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          kind?: string
+          payload?: Json
+          status?: 'pending' | 'running' | 'succeeded' | 'failed' | 'dead' | 'blocked'
+          idempotency_key?: string | null
+          parent_job_id?: string | null
+          attempt_count?: number
+          max_attempts?: number
+          next_attempt_at?: string | null
+          locked_at?: string | null
+          started_at?: string | null
+          finished_at?: string | null
+          last_error?: string | null
+          blocked_by_job_id?: string | null
+          result?: Json | null
+          triggered_by?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      job_dependencies: {
+        Row: {
+          job_id: string
+          depends_on_job_id: string
+          created_at: string
+        }
+        Insert: {
+          job_id: string
+          depends_on_job_id: string
+          created_at?: string
+        }
+        Update: {
+          job_id?: string
+          depends_on_job_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      job_attempts: {
+        Row: {
+          id: string
+          job_id: string
+          attempt_number: number
+          status_code: number | null
+          error: string | null
+          duration_ms: number | null
+          attempted_at: string
+        }
+        Insert: {
+          id?: string
+          job_id: string
+          attempt_number: number
+          status_code?: number | null
+          error?: string | null
+          duration_ms?: number | null
+          attempted_at?: string
+        }
+        Update: {
+          id?: string
+          job_id?: string
+          attempt_number?: number
+          status_code?: number | null
+          error?: string | null
+          duration_ms?: number | null
+          attempted_at?: string
+        }
+        Relationships: []
+      }
+      extraction_examples: {
+        Row: {
+          id: string
+          target: string
+          record_id: string
+          field: string
+          extractor_field: string | null
+          original_value: Json
+          corrected_value: Json
+          review_item_id: string | null
+          corrected_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          target: string
+          record_id: string
+          field: string
+          extractor_field?: string | null
+          original_value?: Json
+          corrected_value?: Json
+          review_item_id?: string | null
+          corrected_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          target?: string
+          record_id?: string
+          field?: string
+          extractor_field?: string | null
+          original_value?: Json
+          corrected_value?: Json
+          review_item_id?: string | null
+          corrected_by?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      user_profiles: {
+        Row: {
+          id: string
+          email: string | null
+          role: UserRole
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          email?: string | null
+          role?: UserRole
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          email?: string | null
+          role?: UserRole
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
       }
       scraper_test_runs: {
         Row: {
@@ -658,6 +1655,7 @@ export interface Database {
           triggered_by?: string
           created_at?: string
         }
+        Relationships: []
       }
       scraper_test_logs: {
         Row: {
@@ -699,8 +1697,235 @@ export interface Database {
           execution_time_ms?: number
           created_at?: string
         }
+        Relationships: []
+      }
+      articles: {
+        Row: {
+          id: string
+          url: string
+          url_hash: string
+          source: string
+          source_api: string | null
+          source_name: string | null
+          author: string | null
+          language: string | null
+          title: string | null
+          excerpt: string | null
+          body: string | null
+          published_at: string | null
+          cayman_flag: boolean | null
+          signals: Json | null
+          reasons: string[] | null
+          confidence: number | null
+          embedding: string | null
+          embedding_model: string | null
+          story_id: string | null
+          similarity_score: number | null
+          clustered_at: string | null
+          meta: Json | null
+          status: 'pending' | 'classified' | 'failed'
+          requires_review: boolean
+          classified_at: string | null
+          content_fetch_status: 'pending' | 'fetched' | 'paywalled' | 'blocked' | 'failed' | null
+          content_fetch_attempts: number
+          content_fetch_error: string | null
+          content_fetched_at: string | null
+          content_fetch_retry_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          url: string
+          url_hash: string
+          source: string
+          source_api?: string | null
+          source_name?: string | null
+          author?: string | null
+          language?: string | null
+          title?: string | null
+          excerpt?: string | null
+          body?: string | null
+          published_at?: string | null
+          cayman_flag?: boolean | null
+          signals?: Json | null
+          reasons?: string[] | null
+          confidence?: number | null
+          embedding?: string | null
+          embedding_model?: string | null
+          story_id?: string | null
+          similarity_score?: number | null
+          clustered_at?: string | null
+          meta?: Json | null
+          status?: 'pending' | 'classified' | 'failed'
+          requires_review?: boolean
+          classified_at?: string | null
+          content_fetch_status?: 'pending' | 'fetched' | 'paywalled' | 'blocked' | 'failed' | null
+          content_fetch_attempts?: number
+          content_fetch_error?: string | null
+          content_fetched_at?: string | null
+          content_fetch_retry_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          url?: string
+          url_hash?: string
+          source?: string
+          source_api?: string | null
+          source_name?: string | null
+          author?: string | null
+          language?: string | null
+          title?: string | null
+          excerpt?: string | null
+          body?: string | null
+          published_at?: string | null
+          cayman_flag?: boolean | null
+          signals?: Json | null
+          reasons?: string[] | null
+          confidence?: number | null
+          embedding?: string | null
+          embedding_model?: string | null
+          story_id?: string | null
+          similarity_score?: number | null
+          clustered_at?: string | null
+          meta?: Json | null
+          status?: 'pending' | 'classified' | 'failed'
+          requires_review?: boolean
+          classified_at?: string | null
+          content_fetch_status?: 'pending' | 'fetched' | 'paywalled' | 'blocked' | 'failed' | null
+          content_fetch_attempts?: number
+          content_fetch_error?: string | null
+          content_fetched_at?: string | null
+          content_fetch_retry_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      entities: {
+        Row: {
+          id: string
+          name: string
+          canonical_name: string | null
+          type: 'ORG' | 'PERSON' | 'GPE' | 'RO_PROVIDER'
+          aliases: string[] | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          canonical_name?: string | null
+          type: 'ORG' | 'PERSON' | 'GPE' | 'RO_PROVIDER'
+          aliases?: string[] | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          canonical_name?: string | null
+          type?: 'ORG' | 'PERSON' | 'GPE' | 'RO_PROVIDER'
+          aliases?: string[] | null
+        }
+        Relationships: []
+      }
+      article_entities: {
+        Row: {
+          article_id: string
+          entity_id: string
+          role: string | null
+        }
+        Insert: {
+          article_id: string
+          entity_id: string
+          role?: string | null
+        }
+        Update: {
+          article_id?: string
+          entity_id?: string
+          role?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'article_entities_article_id_fkey'
+            columns: ['article_id']
+            isOneToOne: false
+            referencedRelation: 'articles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'article_entities_entity_id_fkey'
+            columns: ['entity_id']
+            isOneToOne: false
+            referencedRelation: 'entities'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      monitor_signals: {
+        Row: {
+          name: string
+          label: string
+          description: string
+          keywords: string[]
+          severity: 'low' | 'medium' | 'high'
+          aliases: string[]
+          active: boolean
+          sort_order: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          name: string
+          label: string
+          description?: string
+          keywords?: string[]
+          severity?: 'low' | 'medium' | 'high'
+          aliases?: string[]
+          active?: boolean
+          sort_order?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          name?: string
+          label?: string
+          description?: string
+          keywords?: string[]
+          severity?: 'low' | 'medium' | 'high'
+          aliases?: string[]
+          active?: boolean
+          sort_order?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
       }
     }
+    Views: {
+      llm_usage_daily: {
+        Row: {
+          day: string
+          function_name: string
+          provider: string
+          model: string
+          calls: number
+          input_tokens: number
+          output_tokens: number
+          total_tokens: number
+          cost: number
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      [_ in never]: never
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
   }
 }
 
@@ -765,3 +1990,145 @@ export interface PossibleMiss {
 export type AnalyzedRegistryPdf = Database['public']['Tables']['analyzed_registry_pdfs']['Row']
 export type AnalyzedGazettePdf = Database['public']['Tables']['analyzed_gazette_pdfs']['Row']
 export type GazetteLiquidationNotice = Database['public']['Tables']['gazette_liquidation_notices']['Row']
+export type Company = Database['public']['Tables']['companies']['Row']
+export type CompanySourceLink = Database['public']['Tables']['company_source_links']['Row']
+export type PractitionerFirm = Database['public']['Tables']['practitioner_firms']['Row']
+export type Practitioner = Database['public']['Tables']['practitioners']['Row']
+export type PractitionerAppointment = Database['public']['Tables']['practitioner_appointments']['Row']
+export type Watchlist = Database['public']['Tables']['watchlists']['Row']
+export type WatchlistHit = Database['public']['Tables']['watchlist_hits']['Row']
+export type NotificationRoutingRule = Database['public']['Tables']['notification_routing_rules']['Row']
+export type NotificationQueueItem = Database['public']['Tables']['notification_queue']['Row']
+// secret is write-only from the browser (column privileges), so it is never selected
+export type WebhookEndpoint = Omit<Database['public']['Tables']['webhook_endpoints']['Row'], 'secret'>
+export type WebhookDelivery = Database['public']['Tables']['webhook_deliveries']['Row']
+export type WebhookDeliveryAttempt = Database['public']['Tables']['webhook_delivery_attempts']['Row']
+export type LLMUsage = Database['public']['Tables']['llm_usage']['Row']
+export type CourtMatter = Database['public']['Tables']['court_matters']['Row']
+export type CourtMatterEvent = Database['public']['Tables']['court_matter_events']['Row']
+export type PdfObject = Database['public']['Tables']['pdf_objects']['Row']
+export type OcrPage = Database['public']['Tables']['ocr_pages']['Row']
+export type Job = Database['public']['Tables']['jobs']['Row']
+export type JobDependency = Database['public']['Tables']['job_dependencies']['Row']
+export type JobAttempt = Database['public']['Tables']['job_attempts']['Row']
+export type ExtractionExample = Database['public']['Tables']['extraction_examples']['Row']
+export type UserProfile = Database['public']['Tables']['user_profiles']['Row']
+
+// Row of the llm_usage_daily view (UTC day x function x model)
+export type LLMUsageDaily = Database['public']['Views']['llm_usage_daily']['Row']
+
+// Structured case analysis stored in cases.parsed_json and analyzed_registry_pdfs.parsed_json
+// (mirrors CaseAnalysisSchema in supabase/functions/shared/case-analysis.ts)
+export interface CaseAnalysis {
+  schema_version: 1
+  source: 'llm' | 'legacy_markdown'
+  company_overview: {
+    name: string | null
+    name_chinese: string | null
+    registration_number: string | null
+    incorporation_date: string | null
+    former_names: { name: string; changed_on: string | null }[]
+    registered_office: string | null
+    principal_business: string | null
+    stock_listing: string | null
+    notes: string[]
+  }
+  legal_details: {
+    court: string | null
+    cause_number: string | null
+    filing_date: string | null
+    filing_law_firm: string | null
+    petition_type: string | null
+    statutory_basis: string | null
+    notes: string[]
+  }
+  timeline: { date: string; event: string }[]
+  capital_structure: {
+    authorised_capital: string | null
+    issued_capital: string | null
+    proposed_changes: string | null
+    purpose: string | null
+    solvency_status: string | null
+    notes: string[]
+  }
+  practitioners: {
+    appointed: boolean | null
+    appointments: { name: string; firm: string | null; role: string | null }[]
+    note: string | null
+  }
+}
+
+export type SearchSource =
+  | 'registry_row'
+  | 'case'
+  | 'gazette_notice'
+  | 'company'
+  | 'practitioner'
+  | 'article'
+
+// Row returned by the global_search() function; snippet matches are wrapped in ⟦ ⟧
+export interface GlobalSearchResult {
+  source: SearchSource
+  record_id: string
+  title: string
+  subtitle: string | null
+  url: string | null
+  record_date: string | null
+  rank: number
+  exact_match: boolean
+  snippet: string | null
+}
+
+export interface SearchFacetCount {
+  value: string
+  count: number
+}
+
+export type CourtMatterStage = 'petition' | 'hearing' | 'wound_up' | 'in_liquidation' | 'dissolved' | 'dismissed'
+
+export type CourtMatterEventType =
+  | 'petition_filed'
+  | 'hearing'
+  | 'winding_up_order'
+  | 'liquidator_appointed'
+  | 'dissolved'
+  | 'dismissed'
+
+// scrape_jobs.progress for gazette_backfill jobs; the status counts cover its gazette_pdf jobs
+export interface GazetteBackfillProgress {
+  range?: { from: string | null; to: string | null }
+  kinds?: Array<'regular' | 'extraordinary'>
+  pages_crawled?: number
+  found?: number
+  undated_skipped?: number
+  queued?: number
+  already_queued?: number
+  pending?: number
+  running?: number
+  success?: number
+  skipped?: number
+  failed?: number
+  retrying?: number
+}
+
+export type ReviewStatus = 'open' | 'claimed' | 'approved' | 'rejected'
+
+// An editable field of the record a review item concerns, as returned by review-queue
+export interface ReviewFieldState {
+  key: string
+  label: string
+  kind: 'text' | 'list' | 'boolean'
+  value: string | string[] | boolean | null
+}
+
+// A liquidation notice a final_meeting_match review item may close, from review_queue.notes
+export interface FinalMeetingCandidate {
+  id: string
+  company_name: string
+  registration_no: string | null
+  gazette: string | null
+  similarity: number
+}
+
+// Ordered: each role can do everything the ones before it can
+export type UserRole = 'viewer' | 'analyst' | 'admin'
@@ -0,0 +1,58 @@
+import type { PdfObject } from './database.types';
+import { accessToken } from './supabase';
+
+const PDF_STORAGE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/pdf-storage`;
+
+export interface UploadedPdf {
+  pdf_object: PdfObject;
+  /** The same file had been uploaded before; the existing copy is reused */
+  deduplicated: boolean;
+}
+
+async function callPdfStorage<T>(body: Record<string, unknown>): Promise<T> {
+  const response = await fetch(PDF_STORAGE_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await accessToken()}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `PDF storage request failed: ${response.status}`);
+  }
+  return result as T;
+}
+
+export async function fileToBase64(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Store an uploaded PDF (once per distinct file) before it is analyzed
+ */
+export async function uploadPdf(file: File): Promise<UploadedPdf> {
+  return callPdfStorage<UploadedPdf>({
+    action: 'upload',
+    pdf_base64: await fileToBase64(file),
+    filename: file.name,
+  });
+}
+
+/**
+ * Open a stored PDF through a signed link that expires after a few minutes
+ */
+export async function openPdf(pdfObjectId: string): Promise<void> {
+  const { url } = await callPdfStorage<{ url: string; expires_at: string }>({
+    action: 'signed_url',
+    pdf_object_id: pdfObjectId,
+  });
+  window.open(url, '_blank', 'noopener');
+}
@@ -15,7 +15,14 @@ export const supabase = createClient<Database>(
   supabaseAnonKey || 'placeholder-key',
   {
     auth: {
-      persistSession: false
+      persistSession: true,
+      autoRefreshToken: true
     }
   }
 );
+
+// Bearer token for edge function calls: the signed-in user's access token
+export async function accessToken(): Promise<string> {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token ?? supabaseAnonKey ?? '';
+}
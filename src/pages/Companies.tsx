@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Search, RefreshCw } from 'lucide-react';
+import { supabase, accessToken } from '../lib/supabase';
+import type { Company } from '../lib/database.types';
+
+export function Companies() {
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resolving, setResolving] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      loadCompanies(searchTerm);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  async function loadCompanies(term: string) {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from('companies')
+        .select('*')
+        .order('last_seen_at', { ascending: false })
+        .limit(200);
+
+      const trimmed = term.trim();
+      if (trimmed) {
+        query = query.or(`canonical_name.ilike.%${trimmed}%,registration_no.ilike.%${trimmed}%`);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setCompanies(data || []);
+    } catch (error) {
+      console.error('Error loading companies:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function runResolution() {
+    try {
+      setResolving(true);
+      const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/resolve-companies`;
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${await accessToken()}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) throw new Error('Failed to run company resolution');
+
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Company resolution failed');
+
+      alert(`Company resolution completed.\n\nNew companies: ${result.companies_created}\nLinks created: ${result.links_created}`);
+      await loadCompanies(searchTerm);
+    } catch (error) {
+      console.error('Error running company resolution:', error);
+      alert('Failed to run company resolution. Please check the console for details.');
+    } finally {
+      setResolving(false);
+    }
+  }
+
+  function formatDate(dateString: string | null) {
+    if (!dateString) return 'N/A';
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Companies</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Companies matched across registry cases, gazette notices and news
+          </p>
+        </div>
+        <button
+          onClick={runResolution}
+          disabled={resolving}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-60"
+        >
+          <RefreshCw size={16} className={resolving ? 'animate-spin' : ''} />
+          {resolving ? 'Resolving…' : 'Resolve Now'}
+        </button>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 dark:text-gray-500" size={20} />
+          <input
+            type="text"
+            placeholder="Search by company name or registration number..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
+          />
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+        {loading ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+            Loading companies...
+          </div>
+        ) : companies.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+            No companies found. Run company resolution to link records.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Company
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Registration No.
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Linked Records
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Last Seen
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {companies.map((company) => (
+                  <tr key={company.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <td className="px-6 py-4 text-sm font-medium">
+                      <Link
+                        to={`/companies/${company.id}`}
+                        className="text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        {company.canonical_name}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                      {company.registration_no || 'N/A'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                      {company.source_count}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                      {formatDate(company.last_seen_at)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Showing {companies.length} companies
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, ExternalLink, FileText, Gavel, Newspaper, Scale, Users } from 'lucide-react';
+import type { Company } from '../lib/database.types';
+import { accessToken } from '../lib/supabase';
+
+type TimelineEventKind =
+  | 'petition'
+  | 'case_analysis'
+  | 'liquidation_notice'
+  | 'final_meeting'
+  | 'adverse_news';
+
+interface TimelineEvent {
+  id: string;
+  kind: TimelineEventKind;
+  date: string;
+  title: string;
+  description: string | null;
+  source_type: string;
+  source_id: string;
+  url: string | null;
+  metadata: Record<string, unknown>;
+}
+
+interface TimelineResponse {
+  success: boolean;
+  company?: Company;
+  source_counts?: Record<string, number>;
+  events?: TimelineEvent[];
+  error?: string;
+}
+
+const EVENT_STYLES: Record<TimelineEventKind, { label: string; icon: typeof FileText; className: string }> = {
+  petition: {
+    label: 'Petition',
+    icon: Gavel,
+    className: 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300',
+  },
+  case_analysis: {
+    label: 'Case Analysis',
+    icon: FileText,
+    className: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300',
+  },
+  liquidation_notice: {
+    label: 'Liquidation Notice',
+    icon: Scale,
+    className: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300',
+  },
+  final_meeting: {
+    label: 'Final Meeting',
+    icon: Users,
+    className: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300',
+  },
+  adverse_news: {
+    label: 'Adverse News',
+    icon: Newspaper,
+    className: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+  },
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  registry_row: 'Registry',
+  case: 'Cases',
+  gazette_notice: 'Gazette Notices',
+  article: 'News Articles',
+};
+
+export function CompanyTimeline() {
+  const { id } = useParams<{ id: string }>();
+  const [company, setCompany] = useState<Company | null>(null);
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [sourceCounts, setSourceCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTimeline = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/company-timeline?id=${encodeURIComponent(id)}`;
+      const response = await fetch(apiUrl, {
+        headers: {
+          'Authorization': `Bearer ${await accessToken()}`,
+        },
+      });
+
+      const data: TimelineResponse = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Request failed with status ${response.status}`);
+      }
+
+      setCompany(data.company ?? null);
+      setEvents(data.events ?? []);
+      setSourceCounts(data.source_counts ?? {});
+    } catch (err) {
+      console.error('Failed to load company timeline', err);
+      setError(err instanceof Error ? err.message : 'Failed to load company timeline');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [loadTimeline]);
+
+  function formatDate(dateString: string | null) {
+    if (!dateString) return 'N/A';
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+  }
+
+  const aliases = Array.isArray(company?.aliases) ? (company?.aliases as string[]) : [];
+
+  return (
+    <div className="space-y-6">
+      <Link
+        to="/companies"
+        className="inline-flex items-center gap-2 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+      >
+        <ArrowLeft size={16} />
+        All companies
+      </Link>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/30 border-l-4 border-red-500 text-sm text-red-800 dark:text-red-200 p-4 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+          Loading company timeline...
+        </div>
+      ) : company && (
+        <>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{company.canonical_name}</h1>
+            <p className="text-gray-600 dark:text-gray-400 mt-2">
+              Registration No. {company.registration_no || 'N/A'}
+            </p>
+            {aliases.length > 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                Also seen as: {aliases.join(' • ')}
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {Object.entries(SOURCE_LABELS).map(([key, label]) => (
+              <div
+                key={key}
+                className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4"
+              >
+                <p className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider">{label}</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{sourceCounts[key] || 0}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Timeline</h2>
+
+            {events.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No dated events for this company yet.</p>
+            ) : (
+              <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-3 space-y-6">
+                {events.map((event) => {
+                  const style = EVENT_STYLES[event.kind];
+                  const Icon = style.icon;
+
+                  return (
+                    <li key={event.id} className="ml-6">
+                      <span className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full ${style.className}`}>
+                        <Icon size={14} />
+                      </span>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <time className="text-sm font-medium text-gray-900 dark:text-white">{formatDate(event.date)}</time>
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${style.className}`}>
+                          {style.label}
+                        </span>
+                      </div>
+                      <p className="mt-1 text-sm font-medium text-gray-800 dark:text-gray-200">
+                        {event.url ? (
+                          <a
+                            href={event.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1 hover:underline"
+                          >
+                            {event.title}
+                            <ExternalLink size={12} />
+                          </a>
+                        ) : (
+                          event.title
+                        )}
+                      </p>
+                      {event.description && (
+                        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">{event.description}</p>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,396 @@
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Search, RefreshCw, ChevronDown, ChevronRight, CalendarClock } from 'lucide-react';
+import { supabase, accessToken } from '../lib/supabase';
+import type { CourtMatter, CourtMatterEvent, CourtMatterEventType, CourtMatterStage } from '../lib/database.types';
+
+const STAGE_LABELS: Record<CourtMatterStage, string> = {
+  petition: 'Petition filed',
+  hearing: 'Hearing',
+  wound_up: 'Wound up',
+  in_liquidation: 'In liquidation',
+  dissolved: 'Dissolved',
+  dismissed: 'Dismissed',
+};
+
+const STAGE_STYLES: Record<CourtMatterStage, string> = {
+  petition: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300',
+  hearing: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300',
+  wound_up: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+  in_liquidation: 'bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300',
+  dissolved: 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-300',
+  dismissed: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+};
+
+const EVENT_LABELS: Record<CourtMatterEventType, string> = {
+  petition_filed: 'Petition filed',
+  hearing: 'Hearing',
+  winding_up_order: 'Winding-up order',
+  liquidator_appointed: 'Liquidators appointed',
+  dissolved: 'Dissolved',
+  dismissed: 'Petition dismissed',
+};
+
+const SOURCE_LABELS: Record<CourtMatterEvent['source_type'], string> = {
+  registry_row: 'Registry',
+  case: 'Case analysis',
+  gazette_notice: 'Gazette',
+};
+
+export function CourtMatters() {
+  const [matters, setMatters] = useState<CourtMatter[]>([]);
+  const [events, setEvents] = useState<Record<string, CourtMatterEvent[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [rebuilding, setRebuilding] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [stageFilter, setStageFilter] = useState<CourtMatterStage | 'all'>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadMatters();
+  }, []);
+
+  async function loadMatters() {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('court_matters')
+        .select('*')
+        .order('cause_year', { ascending: false })
+        .order('cause_number', { ascending: false })
+        .limit(2000);
+
+      if (error) throw error;
+      setMatters(data || []);
+      setEvents({});
+    } catch (error) {
+      console.error('Error loading court matters:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function toggleMatter(matterId: string) {
+    if (expandedId === matterId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(matterId);
+    if (events[matterId]) return;
+
+    const { data, error } = await supabase
+      .from('court_matter_events')
+      .select('*')
+      .eq('matter_id', matterId)
+      .order('event_date', { ascending: true, nullsFirst: false });
+
+    if (error) {
+      console.error('Error loading court matter events:', error);
+      return;
+    }
+    setEvents((current) => ({ ...current, [matterId]: data || [] }));
+  }
+
+  async function rebuildMatters() {
+    try {
+      setRebuilding(true);
+      const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/build-court-matters`;
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${await accessToken()}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) throw new Error('Failed to rebuild court matters');
+
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Court matter rebuild failed');
+
+      const unparsed = result.unparsed_cause_numbers > 0
+        ? `\n\n${result.unparsed_cause_numbers} cause numbers could not be parsed (see function logs)`
+        : '';
+      alert(`Court matters rebuilt.\n\nMatters: ${result.matters}\nEvents: ${result.events}${unparsed}`);
+      await loadMatters();
+    } catch (error) {
+      console.error('Error rebuilding court matters:', error);
+      alert('Failed to rebuild court matters. Please check the console for details.');
+    } finally {
+      setRebuilding(false);
+    }
+  }
+
+  const stageCounts = useMemo(() => {
+    const counts = new Map<CourtMatterStage, number>();
+    for (const matter of matters) counts.set(matter.stage, (counts.get(matter.stage) || 0) + 1);
+    return counts;
+  }, [matters]);
+
+  const upcomingHearings = useMemo(
+    () =>
+      matters
+        .filter((matter) => matter.next_hearing_on)
+        .sort((a, b) => (a.next_hearing_on || '').localeCompare(b.next_hearing_on || ''))
+        .slice(0, 8),
+    [matters]
+  );
+
+  const filteredMatters = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return matters
+      .filter((matter) => stageFilter === 'all' || matter.stage === stageFilter)
+      .filter((matter) => {
+        if (!term) return true;
+        return [matter.display_cause_number, matter.cause_key, matter.company_name || ''].some((value) =>
+          value.toLowerCase().includes(term)
+        );
+      });
+  }, [matters, stageFilter, searchTerm]);
+
+  function formatDate(dateString: string | null) {
+    if (!dateString) return 'N/A';
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Court Matters</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Grand Court causes followed from petition to dissolution across the registry, case analyses and gazette notices
+          </p>
+        </div>
+        <button
+          onClick={rebuildMatters}
+          disabled={rebuilding}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-60"
+        >
+          <RefreshCw size={16} className={rebuilding ? 'animate-spin' : ''} />
+          {rebuilding ? 'Rebuilding…' : 'Rebuild Matters'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+        {(Object.keys(STAGE_LABELS) as CourtMatterStage[]).map((stage) => (
+          <button
+            key={stage}
+            onClick={() => setStageFilter(stageFilter === stage ? 'all' : stage)}
+            className={`text-left bg-white dark:bg-gray-800 rounded-lg border p-4 transition-colors ${
+              stageFilter === stage
+                ? 'border-blue-500 dark:border-blue-400'
+                : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+            }`}
+          >
+            <p className="text-sm text-gray-600 dark:text-gray-400">{STAGE_LABELS[stage]}</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{stageCounts.get(stage) || 0}</p>
+          </button>
+        ))}
+      </div>
+
+      {upcomingHearings.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            <CalendarClock size={20} />
+            Upcoming Hearings
+          </h2>
+          <div className="space-y-2">
+            {upcomingHearings.map((matter) => (
+              <div key={matter.id} className="flex items-center justify-between text-sm">
+                <div>
+                  <span className="font-medium text-gray-900 dark:text-white">{matter.display_cause_number}</span>
+                  <span className="text-gray-600 dark:text-gray-400"> · {matter.company_name || 'Unknown company'}</span>
+                </div>
+                <span className="text-gray-900 dark:text-white">{formatDate(matter.next_hearing_on)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+        <div className="flex flex-col md:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 dark:text-gray-500" size={20} />
+            <input
+              type="text"
+              placeholder="Search by cause number or company..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
+            />
+          </div>
+          <select
+            value={stageFilter}
+            onChange={(e) => setStageFilter(e.target.value as CourtMatterStage | 'all')}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value="all">All stages</option>
+            {(Object.keys(STAGE_LABELS) as CourtMatterStage[]).map((stage) => (
+              <option key={stage} value={stage}>{STAGE_LABELS[stage]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+        {loading ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+            Loading court matters...
+          </div>
+        ) : filteredMatters.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+            No court matters found. Rebuild to link registry petitions, case analyses and gazette notices by cause number.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Cause
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Company
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Stage
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Petition Filed
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Last Activity
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {filteredMatters.map((matter) => {
+                  const expanded = expandedId === matter.id;
+                  const matterEvents = events[matter.id];
+                  const liquidators = Array.isArray(matter.liquidators) ? (matter.liquidators as string[]) : [];
+
+                  return (
+                    <Fragment key={matter.id}>
+                      <tr
+                        onClick={() => toggleMatter(matter.id)}
+                        className="hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer"
+                      >
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <div className="flex items-center gap-2">
+                            {expanded ? <ChevronDown size={16} className="text-gray-400" /> : <ChevronRight size={16} className="text-gray-400" />}
+                            <span className="font-medium text-gray-900 dark:text-white">{matter.display_cause_number}</span>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900 dark:text-white">
+                          {matter.company_id ? (
+                            <Link
+                              to={`/companies/${matter.company_id}`}
+                              onClick={(e) => e.stopPropagation()}
+                              className="text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                              {matter.company_name || 'View company'}
+                            </Link>
+                          ) : (
+                            matter.company_name || <span className="text-gray-500 dark:text-gray-400">Unknown</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STAGE_STYLES[matter.stage]}`}>
+                            {STAGE_LABELS[matter.stage]}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {formatDate(matter.petition_filed_on)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {formatDate(matter.last_event_on)}
+                        </td>
+                      </tr>
+                      {expanded && (
+                        <tr className="bg-gray-50 dark:bg-gray-900/40">
+                          <td colSpan={5} className="px-6 py-4">
+                            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                              <div className="lg:col-span-2">
+                                <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Timeline</h3>
+                                {!matterEvents ? (
+                                  <p className="text-sm text-gray-500 dark:text-gray-400">Loading events...</p>
+                                ) : matterEvents.length === 0 ? (
+                                  <p className="text-sm text-gray-500 dark:text-gray-400">No events recorded</p>
+                                ) : (
+                                  <ol className="space-y-2">
+                                    {matterEvents.map((event) => (
+                                      <li key={event.id} className="flex gap-4 text-sm">
+                                        <span className="w-28 shrink-0 text-gray-600 dark:text-gray-400">
+                                          {event.event_date ? formatDate(event.event_date) : 'Undated'}
+                                        </span>
+                                        <div>
+                                          <span className="font-medium text-gray-900 dark:text-white">
+                                            {EVENT_LABELS[event.event_type]}
+                                          </span>
+                                          {event.description && event.description !== EVENT_LABELS[event.event_type] && (
+                                            <span className="text-gray-600 dark:text-gray-400"> · {event.description}</span>
+                                          )}
+                                          <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                                            {SOURCE_LABELS[event.source_type]}
+                                            {event.raw_cause_number && event.raw_cause_number !== matter.display_cause_number
+                                              ? ` as “${event.raw_cause_number}”`
+                                              : ''}
+                                          </span>
+                                        </div>
+                                      </li>
+                                    ))}
+                                  </ol>
+                                )}
+                              </div>
+
+                              <div className="space-y-4 text-sm">
+                                <div>
+                                  <h3 className="font-semibold text-gray-900 dark:text-white mb-2">Key Dates</h3>
+                                  <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-gray-700 dark:text-gray-300">
+                                    <dt className="text-gray-500 dark:text-gray-400">Next hearing</dt>
+                                    <dd>{formatDate(matter.next_hearing_on)}</dd>
+                                    <dt className="text-gray-500 dark:text-gray-400">Last hearing</dt>
+                                    <dd>{formatDate(matter.last_hearing_on)}</dd>
+                                    <dt className="text-gray-500 dark:text-gray-400">Winding-up order</dt>
+                                    <dd>{formatDate(matter.winding_up_order_on)}</dd>
+                                    <dt className="text-gray-500 dark:text-gray-400">Liquidators appointed</dt>
+                                    <dd>{formatDate(matter.liquidator_appointed_on)}</dd>
+                                    <dt className="text-gray-500 dark:text-gray-400">Dissolved</dt>
+                                    <dd>{formatDate(matter.dissolved_on)}</dd>
+                                  </dl>
+                                </div>
+                                {liquidators.length > 0 && (
+                                  <div>
+                                    <h3 className="font-semibold text-gray-900 dark:text-white mb-2">Liquidators</h3>
+                                    <p className="text-gray-700 dark:text-gray-300">{liquidators.join(', ')}</p>
+                                  </div>
+                                )}
+                                {matter.judge_initials && (
+                                  <p className="text-gray-500 dark:text-gray-400">Judge: {matter.judge_initials}</p>
+                                )}
+                              </div>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Showing {filteredMatters.length} of {matters.length} matters
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { FileText, BookOpen, AlertTriangle, PlayCircle, Bell, X } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { supabase, accessToken } from '../lib/supabase';
 import type { Notification } from '../lib/database.types';
 
 export function Dashboard() {
@@ -166,7 +166,7 @@ export function Dashboard() {
       const response = await fetch(apiUrl, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await accessToken()}`,
           'Content-Type': 'application/json',
         },
       });
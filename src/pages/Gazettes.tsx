@@ -1,9 +1,11 @@
 import { useEffect, useState } from 'react';
 import { Download, Eye } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { openPdf } from '../lib/pdfStorage';
 import type { GazetteIssue } from '../lib/database.types';
 import { GazetteAnalyzerPanel } from '../components/GazetteAnalyzerPanel';
 import { AnalyzedGazettesSection } from '../components/AnalyzedGazettesSection';
+import { GazetteBackfillPanel } from '../components/GazetteBackfillPanel';
 
 export function Gazettes() {
   const [tab, setTab] = useState<'regular' | 'extraordinary'>('regular');
@@ -44,6 +46,19 @@ export function Gazettes() {
     return <span className="px-2 py-1 text-xs font-medium rounded-full bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300">{score.toFixed(1)}%</span>;
   }
 
+  async function handleDownload(issue: GazetteIssue) {
+    try {
+      if (issue.pdf_object_id) {
+        await openPdf(issue.pdf_object_id);
+      } else if (issue.pdf_url) {
+        window.open(issue.pdf_url, '_blank', 'noopener');
+      }
+    } catch (error) {
+      console.error('Error opening gazette PDF:', error);
+      alert('Failed to open gazette PDF');
+    }
+  }
+
   function formatDate(dateString: string | null) {
     if (!dateString) return 'N/A';
     const date = new Date(dateString);
@@ -61,6 +76,8 @@ export function Gazettes() {
 
       <AnalyzedGazettesSection />
 
+      <GazetteBackfillPanel />
+
       <div className="flex gap-2 border-b border-gray-200 dark:border-gray-700">
         <button
           onClick={() => setTab('regular')}
@@ -151,7 +168,12 @@ export function Gazettes() {
                           <button className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded transition-colors" title="View report">
                             <Eye size={16} />
                           </button>
-                          <button className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 rounded transition-colors" title="Download PDF">
+                          <button
+                            onClick={() => handleDownload(issue)}
+                            disabled={!issue.pdf_object_id && !issue.pdf_url}
+                            className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 rounded transition-colors disabled:opacity-40"
+                            title="Download PDF"
+                          >
                             <Download size={16} />
                           </button>
                         </div>
@@ -0,0 +1,491 @@
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { RefreshCw, RotateCcw, Play, ChevronDown, ChevronRight } from 'lucide-react';
+import { supabase, accessToken } from '../lib/supabase';
+import type { Job, JobAttempt } from '../lib/database.types';
+
+const JOB_KINDS = [
+  { value: 'scrape_registry', label: 'Registry scrape' },
+  { value: 'capture_pdf', label: 'Capture PDF' },
+  { value: 'extract_pdf_text', label: 'Extract PDF text' },
+  { value: 'analyze_case', label: 'Analyze case' },
+  { value: 'scrape_gazette', label: 'Gazette scrape' },
+  { value: 'parse_gazette', label: 'Parse gazette' },
+  { value: 'ingest_monitor', label: 'News ingestion' },
+  { value: 'fetch_article_content', label: 'Fetch article text' },
+  { value: 'classify_articles', label: 'Classify articles' },
+  { value: 'extract_entities', label: 'Extract entities' },
+  { value: 'cluster_stories', label: 'Cluster stories' },
+];
+
+const PIPELINES = [
+  { value: 'registry', label: 'Registry scrape → capture → extract → analyze' },
+  { value: 'gazette_regular', label: 'Regular gazette scrape → parse' },
+  { value: 'gazette_extraordinary', label: 'Extraordinary gazette scrape → parse' },
+  { value: 'monitor', label: 'News ingestion → fetch text → classify → extract entities → cluster stories' },
+];
+
+const STATUSES: Array<{ value: Job['status']; label: string }> = [
+  { value: 'running', label: 'Running' },
+  { value: 'pending', label: 'Waiting' },
+  { value: 'failed', label: 'Retrying' },
+  { value: 'blocked', label: 'Blocked' },
+  { value: 'dead', label: 'Dead letter' },
+  { value: 'succeeded', label: 'Succeeded' },
+];
+
+const STATUS_STYLES: Record<string, string> = {
+  succeeded: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+  running: 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-800 dark:text-indigo-300',
+  pending: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300',
+  failed: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300',
+  blocked: 'bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300',
+  dead: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+};
+
+const KIND_LABELS = new Map(JOB_KINDS.map((kind) => [kind.value, kind.label]));
+
+// Jobs that stuck jobs are waiting on
+const STUCK_STATUSES: Job['status'][] = ['failed', 'blocked', 'dead'];
+
+type Blocker = Pick<Job, 'id' | 'kind' | 'last_error'>;
+
+interface JobDetails {
+  attempts: JobAttempt[];
+  dependencies: Pick<Job, 'id' | 'kind' | 'status'>[];
+}
+
+async function callProcessJobs(body: Record<string, unknown>) {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/process-jobs`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await accessToken()}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json();
+  if (!result.success) throw new Error(result.error || 'Job request failed');
+  return result;
+}
+
+export function Jobs() {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [details, setDetails] = useState<Record<string, JobDetails>>({});
+  const [blockers, setBlockers] = useState<Record<string, Blocker>>({});
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<Job['status'] | 'failed_or_dead' | ''>('failed_or_dead');
+  const [kindFilter, setKindFilter] = useState('');
+  const [pipeline, setPipeline] = useState(PIPELINES[0].value);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      let jobsQuery = supabase
+        .from('jobs')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (statusFilter === 'failed_or_dead') {
+        jobsQuery = jobsQuery.in('status', STUCK_STATUSES);
+      } else if (statusFilter) {
+        jobsQuery = jobsQuery.eq('status', statusFilter);
+      }
+      if (kindFilter) jobsQuery = jobsQuery.eq('kind', kindFilter);
+
+      const [jobsResult, ...countResults] = await Promise.all([
+        jobsQuery,
+        ...STATUSES.map((status) =>
+          supabase.from('jobs').select('id', { count: 'exact', head: true }).eq('status', status.value)
+        ),
+      ]);
+
+      if (jobsResult.error) throw jobsResult.error;
+
+      const loadedJobs: Job[] = jobsResult.data || [];
+
+      // The dead jobs holding up blocked ones, to say why they are stuck
+      const blockerIds = Array.from(
+        new Set(loadedJobs.map((job) => job.blocked_by_job_id).filter((id): id is string => !!id))
+      );
+      const blockersResult = blockerIds.length > 0
+        ? await supabase.from('jobs').select('id, kind, last_error').in('id', blockerIds)
+        : { data: [] as Blocker[], error: null };
+      if (blockersResult.error) throw blockersResult.error;
+
+      setJobs(loadedJobs);
+      setBlockers(Object.fromEntries((blockersResult.data || []).map((blocker) => [blocker.id, blocker])));
+      setCounts(Object.fromEntries(STATUSES.map((status, i) => [status.value, countResults[i].count || 0])));
+      setSelected(new Set());
+    } catch (error) {
+      console.error('Error loading jobs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, kindFilter]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  async function runDueJobs() {
+    try {
+      setRunning(true);
+      const result = await callProcessJobs({});
+      alert(
+        `Job run completed.\n\nAttempted: ${result.attempted}\nSucceeded: ${result.succeeded}\nWill retry: ${result.failed}\nDead-lettered: ${result.dead}`
+      );
+      setDetails({});
+      await loadData();
+    } catch (error) {
+      console.error('Error running jobs:', error);
+      alert('Failed to run jobs. Please check the console for details.');
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  async function requeue(jobIds: string[]) {
+    // A blocked job runs again once the dead job holding it up is requeued
+    const ids = Array.from(
+      new Set(
+        jobIds.map((id) => {
+          const job = jobs.find((candidate) => candidate.id === id);
+          return job?.status === 'blocked' && job.blocked_by_job_id ? job.blocked_by_job_id : id;
+        })
+      )
+    );
+
+    try {
+      setRunning(true);
+      const result = await callProcessJobs({ action: 'requeue', job_ids: ids });
+      const unblocked = result.unblocked ? ` ${result.unblocked} blocked job${result.unblocked === 1 ? '' : 's'} will follow.` : '';
+      alert(
+        `Requeued ${result.requeued} job${result.requeued === 1 ? '' : 's'}. They will run on the next job run.${unblocked}`
+      );
+      await loadData();
+    } catch (error) {
+      console.error('Error requeueing jobs:', error);
+      alert('Failed to requeue jobs');
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  async function queuePipeline() {
+    try {
+      setRunning(true);
+      const result = await callProcessJobs({ action: 'enqueue', pipeline });
+      alert(`Queued ${result.job_ids.length} job${result.job_ids.length === 1 ? '' : 's'}.`);
+      await loadData();
+    } catch (error) {
+      console.error('Error queueing pipeline:', error);
+      alert('Failed to queue pipeline');
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  async function toggleExpanded(job: Job) {
+    if (expandedId === job.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(job.id);
+
+    if (!details[job.id]) {
+      const [attemptsResult, dependenciesResult] = await Promise.all([
+        supabase
+          .from('job_attempts')
+          .select('*')
+          .eq('job_id', job.id)
+          .order('attempted_at', { ascending: false }),
+        supabase
+          .from('job_dependencies')
+          .select('jobs!job_dependencies_depends_on_job_id_fkey(id, kind, status)')
+          .eq('job_id', job.id),
+      ]);
+
+      if (attemptsResult.error || dependenciesResult.error) {
+        console.error('Error loading job details:', attemptsResult.error || dependenciesResult.error);
+        return;
+      }
+
+      const dependencies = ((dependenciesResult.data || []) as unknown as { jobs: JobDetails['dependencies'][number] }[])
+        .map((row) => row.jobs)
+        .filter(Boolean);
+      setDetails((current) => ({ ...current, [job.id]: { attempts: attemptsResult.data || [], dependencies } }));
+    }
+  }
+
+  function toggleSelected(id: string) {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  function blockedReason(job: Job) {
+    const blocker = job.blocked_by_job_id ? blockers[job.blocked_by_job_id] : undefined;
+    if (!blocker) return 'Waiting on a dead job';
+    const reason = `Waiting on dead ${KIND_LABELS.get(blocker.kind) || blocker.kind} job`;
+    return blocker.last_error ? `${reason}: ${blocker.last_error}` : reason;
+  }
+
+  function formatDate(dateString: string | null) {
+    if (!dateString) return '—';
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Jobs</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Scraping, capture, extraction and analysis pipelines, with retries and a dead-letter queue
+          </p>
+        </div>
+        <button
+          onClick={runDueJobs}
+          disabled={running}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-60"
+        >
+          <RefreshCw size={16} className={running ? 'animate-spin' : ''} />
+          {running ? 'Working…' : 'Run Due Jobs Now'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+        {STATUSES.map((status) => (
+          <button
+            key={status.value}
+            onClick={() => setStatusFilter(status.value)}
+            className={`text-left bg-white dark:bg-gray-800 rounded-lg border p-4 transition-colors ${
+              statusFilter === status.value
+                ? 'border-blue-500 dark:border-blue-400'
+                : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+            }`}
+          >
+            <div className="text-sm text-gray-600 dark:text-gray-400">{status.label}</div>
+            <div className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{counts[status.value] ?? '—'}</div>
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 flex flex-wrap items-center gap-3">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white mr-auto">Start a Pipeline</h2>
+        <select
+          value={pipeline}
+          onChange={(e) => setPipeline(e.target.value)}
+          className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        >
+          {PIPELINES.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={queuePipeline}
+          disabled={running}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          <Play size={14} />
+          Queue
+        </button>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+        <div className="flex flex-wrap items-center gap-3 p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mr-auto">Job Log</h2>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+            className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value="failed_or_dead">Retrying, blocked &amp; dead</option>
+            <option value="">All statuses</option>
+            {STATUSES.map((status) => (
+              <option key={status.value} value={status.value}>{status.label}</option>
+            ))}
+          </select>
+          <select
+            value={kindFilter}
+            onChange={(e) => setKindFilter(e.target.value)}
+            className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value="">All kinds</option>
+            {JOB_KINDS.map((kind) => (
+              <option key={kind.value} value={kind.value}>{kind.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => requeue(Array.from(selected))}
+            disabled={running || selected.size === 0}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            <RotateCcw size={14} />
+            Requeue selected ({selected.size})
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+            Loading jobs...
+          </div>
+        ) : jobs.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+            No jobs match these filters.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600">
+                <tr>
+                  <th className="px-4 py-3 w-8" />
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Kind</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Attempts</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Last Error</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Next Attempt</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Created</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {jobs.map((job) => (
+                  <Fragment key={job.id}>
+                    <tr
+                      onClick={() => toggleExpanded(job)}
+                      className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700"
+                    >
+                      <td className="px-4 py-3" onClick={(e) => e.stopPropagation()}>
+                        <input
+                          type="checkbox"
+                          checked={selected.has(job.id)}
+                          onChange={() => toggleSelected(job.id)}
+                          disabled={job.status === 'running'}
+                          className="rounded border-gray-300 dark:border-gray-600"
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-white whitespace-nowrap">
+                        <span className="inline-flex items-center gap-1">
+                          {expandedId === job.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                          {KIND_LABELS.get(job.kind) || job.kind}
+                        </span>
+                        {job.idempotency_key && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400 ml-5">{job.idempotency_key}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[job.status]}`}>
+                          {job.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-white whitespace-nowrap">
+                        {job.attempt_count} / {job.max_attempts}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 max-w-xs truncate">
+                        {job.status === 'blocked' ? blockedReason(job) : job.last_error || '—'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                        {job.status === 'pending' || job.status === 'failed' ? formatDate(job.next_attempt_at) : '—'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                        {formatDate(job.created_at)}
+                      </td>
+                      <td className="px-4 py-3 text-right" onClick={(e) => e.stopPropagation()}>
+                        {job.status !== 'running' && (
+                          <button
+                            onClick={() => requeue([job.id])}
+                            disabled={running}
+                            title={job.status === 'blocked' ? 'Requeue the dead job it is waiting on' : 'Requeue'}
+                            className="p-1.5 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 disabled:opacity-50"
+                          >
+                            <RotateCcw size={16} />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {expandedId === job.id && (
+                      <tr>
+                        <td colSpan={8} className="px-4 py-4 bg-gray-50 dark:bg-gray-900/40">
+                          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                            <div className="space-y-4">
+                              <div>
+                                <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Payload</h3>
+                                <pre className="text-xs bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded p-3 overflow-auto max-h-48 text-gray-800 dark:text-gray-200">
+                                  {JSON.stringify(job.payload, null, 2)}
+                                </pre>
+                              </div>
+                              {job.result && (
+                                <div>
+                                  <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Last Response</h3>
+                                  <pre className="text-xs bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded p-3 overflow-auto max-h-48 text-gray-800 dark:text-gray-200">
+                                    {JSON.stringify(job.result, null, 2)}
+                                  </pre>
+                                </div>
+                              )}
+                            </div>
+                            <div className="space-y-4">
+                              <div>
+                                <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Depends On</h3>
+                                {(details[job.id]?.dependencies || []).length === 0 ? (
+                                  <p className="text-sm text-gray-500 dark:text-gray-400">Nothing — runs as soon as it is due.</p>
+                                ) : (
+                                  <div className="flex flex-wrap gap-2">
+                                    {details[job.id].dependencies.map((dependency) => (
+                                      <span key={dependency.id} className="inline-flex items-center gap-2 text-xs border border-gray-200 dark:border-gray-700 rounded px-2 py-1 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300">
+                                        {KIND_LABELS.get(dependency.kind) || dependency.kind}
+                                        <span className={`px-1.5 py-0.5 rounded-full capitalize ${STATUS_STYLES[dependency.status]}`}>
+                                          {dependency.status}
+                                        </span>
+                                      </span>
+                                    ))}
+                                  </div>
+                                )}
+                              </div>
+                              <div>
+                                <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Attempts</h3>
+                                {(details[job.id]?.attempts || []).length === 0 ? (
+                                  <p className="text-sm text-gray-500 dark:text-gray-400">No attempts yet.</p>
+                                ) : (
+                                  <div className="space-y-2">
+                                    {details[job.id].attempts.map((attempt) => (
+                                      <div key={attempt.id} className="text-xs border border-gray-200 dark:border-gray-700 rounded p-2 bg-white dark:bg-gray-800">
+                                        <div className="flex items-center gap-3 text-gray-700 dark:text-gray-300">
+                                          <span>#{attempt.attempt_number}</span>
+                                          <span>{formatDate(attempt.attempted_at)}</span>
+                                          <span className={attempt.error ? 'text-red-700 dark:text-red-400' : 'text-green-700 dark:text-green-400'}>
+                                            {attempt.status_code ?? 'no response'}
+                                          </span>
+                                          {attempt.duration_ms !== null && <span>{attempt.duration_ms} ms</span>}
+                                        </div>
+                                        {attempt.error && <div className="mt-1 text-red-700 dark:text-red-400">{attempt.error}</div>}
+                                      </div>
+                                    ))}
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
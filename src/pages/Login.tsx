@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { LogIn } from 'lucide-react';
+import { useAuth } from '../contexts/useAuth';
+
+export function Login() {
+  const { signIn, signUp } = useAuth();
+  const [mode, setMode] = useState<'sign_in' | 'sign_up'>('sign_in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSubmitting(true);
+    setMessage(null);
+
+    const error = mode === 'sign_in' ? await signIn(email, password) : await signUp(email, password);
+    if (error) {
+      setMessage({ type: 'error', text: error });
+    } else if (mode === 'sign_up') {
+      setMessage({
+        type: 'success',
+        text: 'Account created. Confirm your email if asked, then sign in. New accounts start as viewers until an admin changes their role.',
+      });
+      setMode('sign_in');
+    }
+    setSubmitting(false);
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center p-4">
+      <div className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-8">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">CAYMAN MY.ASS</h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-6">
+          {mode === 'sign_in' ? 'Sign in to continue' : 'Create an account'}
+        </p>
+
+        {message && (
+          <div className={`p-3 mb-4 rounded-lg text-sm ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}>
+            {message.text}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Email</label>
+            <input
+              type="email"
+              required
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Password</label>
+            <input
+              type="password"
+              required
+              minLength={6}
+              autoComplete={mode === 'sign_in' ? 'current-password' : 'new-password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+          >
+            <LogIn size={18} />
+            {submitting ? 'Please wait...' : mode === 'sign_in' ? 'Sign In' : 'Create Account'}
+          </button>
+        </form>
+
+        <button
+          onClick={() => {
+            setMode(mode === 'sign_in' ? 'sign_up' : 'sign_in');
+            setMessage(null);
+          }}
+          className="mt-4 w-full text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {mode === 'sign_in' ? 'Need an account? Create one' : 'Already have an account? Sign in'}
+        </button>
+      </div>
+    </div>
+  );
+}
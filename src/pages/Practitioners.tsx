@@ -0,0 +1,439 @@
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import { Search, RefreshCw, ChevronDown, ChevronRight, Mail } from 'lucide-react';
+import { supabase, accessToken } from '../lib/supabase';
+import type { Practitioner, PractitionerAppointment, PractitionerFirm } from '../lib/database.types';
+
+type PractitionerWithFirm = Practitioner & { practitioner_firms: { name: string } | null };
+
+type Period = '12m' | 'all';
+
+const APPOINTMENT_TYPE_STYLES: Record<string, string> = {
+  'Voluntary': 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300',
+  'Court-Ordered': 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+  'Receivership': 'bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300',
+  'Dividend Distribution': 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+};
+
+const DEFAULT_TYPE_STYLE = 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-300';
+
+function lastTwelveMonths(): string[] {
+  const months: string[] = [];
+  const now = new Date();
+  for (let i = 11; i >= 0; i--) {
+    const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
+    months.push(`${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`);
+  }
+  return months;
+}
+
+export function Practitioners() {
+  const [practitioners, setPractitioners] = useState<PractitionerWithFirm[]>([]);
+  const [firms, setFirms] = useState<PractitionerFirm[]>([]);
+  const [appointments, setAppointments] = useState<PractitionerAppointment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [rebuilding, setRebuilding] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [firmFilter, setFirmFilter] = useState('all');
+  const [period, setPeriod] = useState<Period>('12m');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDirectory();
+  }, []);
+
+  async function loadDirectory() {
+    try {
+      setLoading(true);
+      const [practitionersResult, firmsResult, appointmentsResult] = await Promise.all([
+        supabase
+          .from('practitioners')
+          .select('*, practitioner_firms(name)')
+          .order('appointment_count', { ascending: false })
+          .limit(500),
+        supabase.from('practitioner_firms').select('*').order('name'),
+        supabase
+          .from('practitioner_appointments')
+          .select('*')
+          .order('appointed_on', { ascending: false })
+          .limit(5000),
+      ]);
+
+      if (practitionersResult.error) throw practitionersResult.error;
+      if (firmsResult.error) throw firmsResult.error;
+      if (appointmentsResult.error) throw appointmentsResult.error;
+
+      setPractitioners((practitionersResult.data || []) as PractitionerWithFirm[]);
+      setFirms(firmsResult.data || []);
+      setAppointments(appointmentsResult.data || []);
+    } catch (error) {
+      console.error('Error loading practitioner directory:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function rebuildDirectory() {
+    try {
+      setRebuilding(true);
+      const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/build-practitioner-directory`;
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${await accessToken()}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) throw new Error('Failed to rebuild practitioner directory');
+
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Practitioner directory rebuild failed');
+
+      alert(`Practitioner directory rebuilt.\n\nNew practitioners: ${result.practitioners_created}\nNew firms: ${result.firms_created}\nAppointments: ${result.appointments}`);
+      await loadDirectory();
+    } catch (error) {
+      console.error('Error rebuilding practitioner directory:', error);
+      alert('Failed to rebuild the practitioner directory. Please check the console for details.');
+    } finally {
+      setRebuilding(false);
+    }
+  }
+
+  const months = useMemo(() => lastTwelveMonths(), []);
+
+  const periodAppointments = useMemo(() => {
+    if (period === 'all') return appointments;
+    return appointments.filter((appointment) => (appointment.appointed_on || '').slice(0, 7) >= months[0]);
+  }, [appointments, period, months]);
+
+  const appointmentsByPractitioner = useMemo(() => {
+    const grouped = new Map<string, PractitionerAppointment[]>();
+    for (const appointment of periodAppointments) {
+      const list = grouped.get(appointment.practitioner_id) || [];
+      list.push(appointment);
+      grouped.set(appointment.practitioner_id, list);
+    }
+    return grouped;
+  }, [periodAppointments]);
+
+  const activeByPractitioner = useMemo(() => {
+    const grouped = new Map<string, PractitionerAppointment[]>();
+    for (const appointment of appointments) {
+      if (!appointment.is_active) continue;
+      const list = grouped.get(appointment.practitioner_id) || [];
+      list.push(appointment);
+      grouped.set(appointment.practitioner_id, list);
+    }
+    return grouped;
+  }, [appointments]);
+
+  const firmLeaderboard = useMemo(() => {
+    return firms
+      .map((firm) => ({
+        firm,
+        practitioners: practitioners.filter((p) => p.firm_id === firm.id).length,
+        appointments: periodAppointments.filter((a) => a.firm_id === firm.id).length,
+        active: appointments.filter((a) => a.firm_id === firm.id && a.is_active).length,
+      }))
+      .filter((row) => row.appointments > 0 || row.active > 0)
+      .sort((a, b) => b.appointments - a.appointments)
+      .slice(0, 10);
+  }, [firms, practitioners, periodAppointments, appointments]);
+
+  const filteredPractitioners = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return practitioners
+      .filter((p) => firmFilter === 'all' || p.firm_id === firmFilter)
+      .filter((p) => {
+        if (!term) return true;
+        const aliases = Array.isArray(p.aliases) ? (p.aliases as string[]) : [];
+        return [p.full_name, p.practitioner_firms?.name || '', ...aliases].some((value) =>
+          value.toLowerCase().includes(term)
+        );
+      })
+      .sort(
+        (a, b) =>
+          (appointmentsByPractitioner.get(b.id)?.length || 0) - (appointmentsByPractitioner.get(a.id)?.length || 0)
+      );
+  }, [practitioners, firmFilter, searchTerm, appointmentsByPractitioner]);
+
+  function countByType(list: PractitionerAppointment[]): Array<[string, number]> {
+    const counts = new Map<string, number>();
+    for (const appointment of list) {
+      counts.set(appointment.appointment_type, (counts.get(appointment.appointment_type) || 0) + 1);
+    }
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }
+
+  function countByMonth(practitionerId: string): number[] {
+    const list = appointments.filter((a) => a.practitioner_id === practitionerId);
+    return months.map((month) => list.filter((a) => (a.appointed_on || '').startsWith(month)).length);
+  }
+
+  function formatDate(dateString: string | null) {
+    if (!dateString) return 'N/A';
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+  }
+
+  function formatMonth(month: string) {
+    const [year, m] = month.split('-').map(Number);
+    return new Date(year, m - 1, 1).toLocaleDateString('en-US', { month: 'short' });
+  }
+
+  const totalActive = appointments.filter((a) => a.is_active).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Practitioners</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Liquidators, receivers and their firms, built from gazette notices and case analyses
+          </p>
+        </div>
+        <button
+          onClick={rebuildDirectory}
+          disabled={rebuilding}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-60"
+        >
+          <RefreshCw size={16} className={rebuilding ? 'animate-spin' : ''} />
+          {rebuilding ? 'Rebuilding…' : 'Rebuild Directory'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Practitioners', value: practitioners.length },
+          { label: 'Firms', value: firms.length },
+          { label: period === '12m' ? 'Appointments (12 months)' : 'Appointments (all time)', value: periodAppointments.length },
+          { label: 'Active Mandates', value: totalActive },
+        ].map((stat) => (
+          <div
+            key={stat.label}
+            className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4"
+          >
+            <p className="text-sm text-gray-600 dark:text-gray-400">{stat.label}</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+        <div className="flex flex-col md:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 dark:text-gray-500" size={20} />
+            <input
+              type="text"
+              placeholder="Search by practitioner or firm..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
+            />
+          </div>
+          <select
+            value={firmFilter}
+            onChange={(e) => setFirmFilter(e.target.value)}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value="all">All firms</option>
+            {firms.map((firm) => (
+              <option key={firm.id} value={firm.id}>{firm.name}</option>
+            ))}
+          </select>
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as Period)}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value="12m">Last 12 months</option>
+            <option value="all">All time</option>
+          </select>
+        </div>
+      </div>
+
+      {firmLeaderboard.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Firms by Appointments</h2>
+          <div className="space-y-3">
+            {firmLeaderboard.map((row) => (
+              <div key={row.firm.id} className="flex items-center gap-4">
+                <div className="w-48 text-sm font-medium text-gray-900 dark:text-white truncate">{row.firm.name}</div>
+                <div className="flex-1 bg-gray-100 dark:bg-gray-700 rounded-full h-3">
+                  <div
+                    className="bg-blue-600 h-3 rounded-full"
+                    style={{ width: `${(row.appointments / Math.max(firmLeaderboard[0].appointments, 1)) * 100}%` }}
+                  />
+                </div>
+                <div className="w-56 text-sm text-gray-600 dark:text-gray-400 text-right">
+                  {row.appointments} appointments · {row.active} active · {row.practitioners} practitioners
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+        {loading ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+            Loading practitioners...
+          </div>
+        ) : filteredPractitioners.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+            No practitioners found. Rebuild the directory to extract them from gazette notices and cases.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Practitioner
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Appointments
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    By Type
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Active
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Last Appointed
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {filteredPractitioners.map((practitioner) => {
+                  const list = appointmentsByPractitioner.get(practitioner.id) || [];
+                  const active = activeByPractitioner.get(practitioner.id) || [];
+                  const expanded = expandedId === practitioner.id;
+                  const emails = Array.isArray(practitioner.emails) ? (practitioner.emails as string[]) : [];
+                  const monthly = expanded ? countByMonth(practitioner.id) : [];
+                  const maxMonthly = Math.max(...monthly, 1);
+
+                  return (
+                    <Fragment key={practitioner.id}>
+                      <tr
+                        onClick={() => setExpandedId(expanded ? null : practitioner.id)}
+                        className="hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer"
+                      >
+                        <td className="px-6 py-4 text-sm">
+                          <div className="flex items-center gap-2">
+                            {expanded ? <ChevronDown size={16} className="text-gray-400" /> : <ChevronRight size={16} className="text-gray-400" />}
+                            <div>
+                              <div className="font-medium text-gray-900 dark:text-white">{practitioner.full_name}</div>
+                              <div className="text-gray-600 dark:text-gray-400">
+                                {practitioner.practitioner_firms?.name || 'Firm unknown'}
+                              </div>
+                            </div>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                          {list.length}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          <div className="flex flex-wrap gap-1">
+                            {countByType(list).map(([type, count]) => (
+                              <span
+                                key={type}
+                                className={`px-2 py-0.5 rounded-full text-xs font-medium ${APPOINTMENT_TYPE_STYLES[type] || DEFAULT_TYPE_STYLE}`}
+                              >
+                                {type}: {count}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                          {active.length}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {formatDate(practitioner.last_appointed_on)}
+                        </td>
+                      </tr>
+                      {expanded && (
+                        <tr className="bg-gray-50 dark:bg-gray-900/40">
+                          <td colSpan={5} className="px-6 py-4">
+                            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                              <div>
+                                <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Appointments by Month</h3>
+                                <div className="flex items-end gap-1 h-24">
+                                  {monthly.map((count, i) => (
+                                    <div key={months[i]} className="flex-1 flex flex-col items-center justify-end h-full">
+                                      <div
+                                        className="w-full bg-blue-500 rounded-t"
+                                        style={{ height: `${(count / maxMonthly) * 100}%` }}
+                                        title={`${months[i]}: ${count}`}
+                                      />
+                                      <span className="text-[10px] text-gray-500 dark:text-gray-400 mt-1">{formatMonth(months[i])}</span>
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+
+                              <div>
+                                <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">
+                                  Active Mandates ({active.length})
+                                </h3>
+                                {active.length === 0 ? (
+                                  <p className="text-sm text-gray-500 dark:text-gray-400">No active mandates</p>
+                                ) : (
+                                  <ul className="space-y-1 max-h-48 overflow-y-auto">
+                                    {active.map((appointment) => (
+                                      <li key={appointment.id} className="text-sm text-gray-700 dark:text-gray-300">
+                                        <span className="font-medium">{appointment.company_name}</span>
+                                        <span className="text-gray-500 dark:text-gray-400">
+                                          {' '}· {appointment.appointment_type} · {formatDate(appointment.appointed_on)}
+                                        </span>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </div>
+
+                              <div>
+                                <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Contact</h3>
+                                {emails.length === 0 ? (
+                                  <p className="text-sm text-gray-500 dark:text-gray-400">No emails on record</p>
+                                ) : (
+                                  <ul className="space-y-1">
+                                    {emails.map((email) => (
+                                      <li key={email} className="flex items-center gap-2 text-sm">
+                                        <Mail size={14} className="text-gray-400" />
+                                        <a href={`mailto:${email}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                                          {email}
+                                        </a>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                                {Array.isArray(practitioner.aliases) && practitioner.aliases.length > 0 && (
+                                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                                    Also appears as: {(practitioner.aliases as string[]).join(', ')}
+                                  </p>
+                                )}
+                              </div>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Showing {filteredPractitioners.length} practitioners
+        </p>
+      </div>
+    </div>
+  );
+}
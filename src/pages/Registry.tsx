@@ -3,6 +3,7 @@ import { Search, Eye, Upload } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import type { RegistryRow } from '../lib/database.types';
 import { CaseSummaryRenderer } from '../components/CaseSummaryRenderer';
+import { isCaseAnalysis } from '../lib/caseAnalysis';
 import { RegistryAnalyzerPanel } from '../components/RegistryAnalyzerPanel';
 import { AnalyzedPdfsSection } from '../components/AnalyzedPdfsSection';
 
@@ -326,9 +327,12 @@ export function Registry() {
               </button>
             </div>
             <div className="p-6 overflow-y-auto">
-              {selectedCase.dashboard_summary ? (
+              {isCaseAnalysis(selectedCase.parsed_json) || selectedCase.dashboard_summary ? (
                 <div className="mb-6">
-                  <CaseSummaryRenderer summary={selectedCase.dashboard_summary} />
+                  <CaseSummaryRenderer
+                    analysis={isCaseAnalysis(selectedCase.parsed_json) ? selectedCase.parsed_json : null}
+                    fallbackSummary={selectedCase.dashboard_summary}
+                  />
                 </div>
               ) : selectedCase.analysis_md ? (
                 <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
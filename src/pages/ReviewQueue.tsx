@@ -1,13 +1,61 @@
 import { useEffect, useState } from 'react';
-import { Eye, CheckCircle } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-import type { ReviewQueueItem } from '../lib/database.types';
+import { Eye, CheckCircle, Hand, Download } from 'lucide-react';
+import { supabase, accessToken } from '../lib/supabase';
+import { openPdf } from '../lib/pdfStorage';
+import { useAuth } from '../contexts/useAuth';
+import type { FinalMeetingCandidate, ReviewFieldState, ReviewQueueItem } from '../lib/database.types';
+
+async function callReviewQueue(body: Record<string, unknown>) {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/review-queue`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await accessToken()}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json();
+  if (!result.success) throw new Error(result.error || 'Review request failed');
+  return result;
+}
+
+// Edit box contents for a field: lists are edited one entry per line
+function toEditValue(field: ReviewFieldState): string | boolean {
+  if (field.kind === 'boolean') return field.value === true;
+  if (field.kind === 'list') return Array.isArray(field.value) ? field.value.join('\n') : '';
+  return typeof field.value === 'string' ? field.value : '';
+}
+
+function fromEditValue(field: ReviewFieldState, edit: string | boolean): ReviewFieldState['value'] {
+  if (field.kind === 'boolean') return edit === true;
+  if (field.kind === 'list') return String(edit).split('\n').map((line) => line.trim()).filter(Boolean);
+  return String(edit).trim() || null;
+}
+
+// Candidates stored on a final_meeting_match item by reconcile-final-meetings
+function finalMeetingCandidates(notes: string | null): FinalMeetingCandidate[] {
+  try {
+    const parsed = JSON.parse(notes || '{}');
+    return Array.isArray(parsed.candidates) ? parsed.candidates : [];
+  } catch {
+    return [];
+  }
+}
 
 export function ReviewQueue() {
   const [items, setItems] = useState<ReviewQueueItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [showReviewed, setShowReviewed] = useState(false);
   const [selectedItem, setSelectedItem] = useState<any>(null);
+  const { session } = useAuth();
+  // review-queue records signed-in reviewers by email whatever we send
+  const reviewer = session?.user.email || '';
+  const [fields, setFields] = useState<ReviewFieldState[]>([]);
+  const [edits, setEdits] = useState<Record<string, string | boolean>>({});
+  const [decisionReason, setDecisionReason] = useState('');
+  const [chosenNoticeIds, setChosenNoticeIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
 
   useEffect(() => {
     loadItems();
@@ -36,20 +84,130 @@ export function ReviewQueue() {
     }
   }
 
-  async function markAsReviewed(itemId: string) {
+  function requireReviewer(): string | null {
+    const name = reviewer.trim();
+    if (!name) {
+      alert('Your account has no email to review as');
+      return null;
+    }
+    return name;
+  }
+
+  // Item state after a workflow action, so an open detail view stays current
+  function applyItemUpdate(itemId: string, update: Partial<ReviewQueueItem>) {
+    setItems((current) => current.map((item) => (item.id === itemId ? { ...item, ...update } : item)));
+    setSelectedItem((current: typeof selectedItem) => (current?.id === itemId ? { ...current, ...update } : current));
+  }
+
+  async function claimItem(itemId: string) {
+    const name = requireReviewer();
+    if (!name) return;
+
     try {
-      const { error } = await supabase
-        .from('review_queue')
-        .update({
-          reviewed: true,
-          reviewed_at: new Date().toISOString(),
-        } as any)
-        .eq('id', itemId);
+      await callReviewQueue({ action: 'claim', item_id: itemId, reviewer: name });
+      applyItemUpdate(itemId, { status: 'claimed', assigned_to: name, claimed_at: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error claiming item:', error);
+      alert(`Failed to claim item: ${error instanceof Error ? error.message : error}`);
+    }
+  }
 
-      if (error) throw error;
+  async function releaseItem(itemId: string) {
+    try {
+      await callReviewQueue({ action: 'release', item_id: itemId, reviewer: reviewer.trim() });
+      applyItemUpdate(itemId, { status: 'open', assigned_to: null, claimed_at: null });
+    } catch (error) {
+      console.error('Error releasing item:', error);
+      alert(`Failed to release item: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  async function decideItem(itemId: string, decision: 'approved' | 'rejected', reason: string) {
+    if (decision === 'rejected' && !reason.trim()) {
+      alert('Enter a reason for rejecting this item');
+      return;
+    }
+
+    const item = items.find((candidate) => candidate.id === itemId);
+    const linkedNoticeIds = item?.item_type === 'final_meeting_match' && decision === 'approved' ? chosenNoticeIds : undefined;
+    if (linkedNoticeIds && linkedNoticeIds.length === 0) {
+      alert('Choose the liquidation notices this final meeting closes');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await callReviewQueue({
+        action: 'decide',
+        item_id: itemId,
+        reviewer: reviewer.trim(),
+        decision,
+        reason,
+        linked_notice_ids: linkedNoticeIds,
+      });
+      if (selectedItem?.id === itemId) setSelectedItem(null);
       loadItems();
     } catch (error) {
-      console.error('Error marking as reviewed:', error);
+      console.error('Error recording decision:', error);
+      alert(`Failed to record decision: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function saveCorrections() {
+    const values: Record<string, ReviewFieldState['value']> = {};
+    for (const field of fields) {
+      const value = fromEditValue(field, edits[field.key]);
+      if (JSON.stringify(value) !== JSON.stringify(fromEditValue(field, toEditValue(field)))) {
+        values[field.key] = value;
+      }
+    }
+
+    if (Object.keys(values).length === 0) {
+      alert('No fields have been changed');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const result = await callReviewQueue({
+        action: 'correct',
+        item_id: selectedItem.id,
+        reviewer: reviewer.trim(),
+        values,
+      });
+      setFields((current) =>
+        current.map((field) => (field.key in values ? { ...field, value: values[field.key] } : field))
+      );
+      alert(`Saved ${result.corrected} correction${result.corrected === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error saving corrections:', error);
+      alert(`Failed to save corrections: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function exportExamples() {
+    try {
+      const result = await callReviewQueue({ action: 'export' });
+      if (result.count === 0) {
+        alert('No corrections have been made yet');
+        return;
+      }
+
+      const jsonl = result.examples.map((example: unknown) => JSON.stringify(example)).join('\n');
+      const blob = new Blob([jsonl + '\n'], { type: 'application/x-ndjson' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `labelled-examples-${Date.now()}.jsonl`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting examples:', error);
+      alert('Failed to export labelled examples');
     }
   }
 
@@ -72,6 +230,9 @@ export function ReviewQueue() {
       case: 'bg-blue-100 text-blue-800',
       gazette_notice: 'bg-green-100 text-green-800',
       gazette_issue: 'bg-purple-100 text-purple-800',
+      final_meeting_match: 'bg-amber-100 text-amber-800',
+      ocr_page: 'bg-orange-100 text-orange-800',
+      article: 'bg-teal-100 text-teal-800',
     };
 
     return (
@@ -87,6 +248,10 @@ export function ReviewQueue() {
   }
 
   async function viewItem(item: ReviewQueueItem) {
+    setFields([]);
+    setEdits({});
+    setChosenNoticeIds([]);
+
     try {
       let itemData = null;
 
@@ -115,6 +280,33 @@ export function ReviewQueue() {
           .eq('id', item.item_id)
           .single();
 
+        if (error) throw error;
+        itemData = data;
+      } else if (item.item_type === 'article') {
+        const { data, error } = await supabase
+          .from('articles')
+          .select('id, url, source, title, excerpt, published_at, cayman_flag, signals, reasons, confidence')
+          .eq('id', item.item_id)
+          .single();
+
+        if (error) throw error;
+        itemData = data;
+      } else if (item.item_type === 'final_meeting_match') {
+        const { data, error } = await supabase
+          .from('gazette_liquidation_notices')
+          .select('id, company_name, registration_no, final_meeting_date, raw_notice_text, final_meeting_match_status')
+          .eq('id', item.item_id)
+          .single();
+
+        if (error) throw error;
+        itemData = data;
+      } else if (item.item_type === 'ocr_page') {
+        const { data, error } = await supabase
+          .from('ocr_pages')
+          .select('*, pdf_objects(original_filename, source_url)')
+          .eq('id', item.item_id)
+          .single();
+
         if (error) throw error;
         itemData = data;
       }
@@ -123,23 +315,75 @@ export function ReviewQueue() {
         ...item,
         details: itemData,
       });
+      setDecisionReason('');
     } catch (error) {
       console.error('Error loading item details:', error);
       alert('Failed to load item details');
+      return;
+    }
+
+    try {
+      const { fields: itemFields } = await callReviewQueue({ action: 'fields', item_id: item.id });
+      setFields(itemFields);
+      setEdits(Object.fromEntries(itemFields.map((field: ReviewFieldState) => [field.key, toEditValue(field)])));
+    } catch (error) {
+      console.error('Error loading editable fields:', error);
+    }
+  }
+
+  async function handleOpenPdf(pdfObjectId: string) {
+    try {
+      await openPdf(pdfObjectId);
+    } catch (error) {
+      console.error('Error opening PDF:', error);
+      alert('Failed to open PDF');
     }
   }
 
+  function getStatusBadge(item: ReviewQueueItem) {
+    if (item.status === 'approved' || (item.reviewed && item.status !== 'rejected')) {
+      return (
+        <span className="flex items-center gap-1 text-green-600 text-sm">
+          <CheckCircle size={16} />
+          Approved
+        </span>
+      );
+    }
+    if (item.status === 'rejected') return <span className="text-red-600 text-sm">Rejected</span>;
+    if (item.status === 'claimed') {
+      return (
+        <span className="text-blue-600 text-sm">
+          {item.assigned_to === reviewer.trim() ? 'Claimed by you' : `Claimed by ${item.assigned_to}`}
+        </span>
+      );
+    }
+    return <span className="text-amber-600 text-sm">Pending</span>;
+  }
+
   const unreviewed = items.filter(item => !item.reviewed).length;
+  const claimedByMe = (item: ReviewQueueItem) =>
+    item.status === 'claimed' && !!reviewer.trim() && item.assigned_to === reviewer.trim();
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Review Queue</h1>
-          <p className="text-gray-600 mt-2">Items flagged for manual review</p>
+          <p className="text-gray-600 mt-2">Claim flagged items, correct what was extracted and approve or reject</p>
         </div>
 
         <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-700">
+            Reviewing as <strong>{reviewer}</strong>
+          </span>
+          <button
+            onClick={exportExamples}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm bg-gray-100 text-gray-800 rounded-lg hover:bg-gray-200 transition-colors"
+            title="Download corrections as labelled examples (JSONL)"
+          >
+            <Download size={16} />
+            Export corrections
+          </button>
           <input
             type="checkbox"
             id="showReviewed"
@@ -153,7 +397,7 @@ export function ReviewQueue() {
         </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <div className="bg-white rounded-lg border border-gray-200 p-4">
           <p className="text-sm text-gray-600">Total in Queue</p>
           <p className="text-2xl font-bold text-gray-900 mt-1">{unreviewed}</p>
@@ -164,6 +408,12 @@ export function ReviewQueue() {
             {items.filter(item => !item.reviewed && item.priority === 'high').length}
           </p>
         </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-4">
+          <p className="text-sm text-gray-600">Claimed by You</p>
+          <p className="text-2xl font-bold text-blue-600 mt-1">
+            {items.filter(claimedByMe).length}
+          </p>
+        </div>
         <div className="bg-white rounded-lg border border-gray-200 p-4">
           <p className="text-sm text-gray-600">Reviewed</p>
           <p className="text-2xl font-bold text-green-600 mt-1">
@@ -222,14 +472,7 @@ export function ReviewQueue() {
                       {formatDate(item.created_at)}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      {item.reviewed ? (
-                        <span className="flex items-center gap-1 text-green-600 text-sm">
-                          <CheckCircle size={16} />
-                          Reviewed
-                        </span>
-                      ) : (
-                        <span className="text-amber-600 text-sm">Pending</span>
-                      )}
+                      {getStatusBadge(item)}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm">
                       <div className="flex gap-2">
@@ -240,11 +483,21 @@ export function ReviewQueue() {
                         >
                           <Eye size={16} />
                         </button>
-                        {!item.reviewed && (
+                        {!item.reviewed && item.status !== 'claimed' && (
                           <button
-                            onClick={() => markAsReviewed(item.id)}
-                            className="p-2 text-green-600 hover:bg-green-50 rounded transition-colors"
-                            title="Mark as reviewed"
+                            onClick={() => claimItem(item.id)}
+                            className="p-2 text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                            title="Claim item"
+                          >
+                            <Hand size={16} />
+                          </button>
+                        )}
+                        {claimedByMe(item) && (
+                          <button
+                            onClick={() => decideItem(item.id, 'approved', '')}
+                            disabled={saving}
+                            className="p-2 text-green-600 hover:bg-green-50 rounded transition-colors disabled:opacity-50"
+                            title="Approve"
                           >
                             <CheckCircle size={16} />
                           </button>
@@ -286,6 +539,127 @@ export function ReviewQueue() {
                   {getPriorityBadge(selectedItem.priority)}
                 </div>
 
+                {fields.length > 0 && (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="font-bold text-gray-900">Extracted Fields</h3>
+                      {!claimedByMe(selectedItem) && !selectedItem.reviewed && (
+                        <span className="text-sm text-gray-500">Claim this item to correct its fields</span>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {fields.map((field) => (
+                        <div key={field.key} className={field.kind === 'list' ? 'md:col-span-2' : ''}>
+                          {field.kind === 'boolean' ? (
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                              <input
+                                type="checkbox"
+                                checked={edits[field.key] === true}
+                                disabled={!claimedByMe(selectedItem)}
+                                onChange={(e) => setEdits({ ...edits, [field.key]: e.target.checked })}
+                                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                              />
+                              {field.label}
+                            </label>
+                          ) : (
+                            <>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">
+                                {field.label}
+                                {field.kind === 'list' && <span className="font-normal text-gray-500"> (one per line)</span>}
+                              </label>
+                              {field.kind === 'list' ? (
+                                <textarea
+                                  rows={3}
+                                  value={String(edits[field.key] ?? '')}
+                                  disabled={!claimedByMe(selectedItem)}
+                                  onChange={(e) => setEdits({ ...edits, [field.key]: e.target.value })}
+                                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
+                                />
+                              ) : (
+                                <input
+                                  type="text"
+                                  value={String(edits[field.key] ?? '')}
+                                  disabled={!claimedByMe(selectedItem)}
+                                  onChange={(e) => setEdits({ ...edits, [field.key]: e.target.value })}
+                                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
+                                />
+                              )}
+                            </>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                    {claimedByMe(selectedItem) && (
+                      <button
+                        onClick={saveCorrections}
+                        disabled={saving}
+                        className="mt-3 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                      >
+                        Save Corrections
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {selectedItem.item_type === 'final_meeting_match' && (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="font-bold text-gray-900">Liquidation Notices This Meeting Closes</h3>
+                      {!claimedByMe(selectedItem) && !selectedItem.reviewed && (
+                        <span className="text-sm text-gray-500">Claim this item to choose</span>
+                      )}
+                    </div>
+                    <div className="space-y-2">
+                      {finalMeetingCandidates(selectedItem.notes).map((candidate) => (
+                        <label key={candidate.id} className="flex items-center gap-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={chosenNoticeIds.includes(candidate.id)}
+                            disabled={!claimedByMe(selectedItem)}
+                            onChange={(e) =>
+                              setChosenNoticeIds((current) =>
+                                e.target.checked ? [...current, candidate.id] : current.filter((id) => id !== candidate.id)
+                              )
+                            }
+                            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                          />
+                          <span>
+                            {candidate.company_name}
+                            {candidate.registration_no && ` (${candidate.registration_no})`}
+                            {candidate.gazette && ` · Gazette ${candidate.gazette}`}
+                            <span className="text-gray-500"> · {Math.round(candidate.similarity * 100)}% similar</span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                    {claimedByMe(selectedItem) && (
+                      <p className="text-sm text-gray-500 mt-2">Approve to link the ticked notices; reject if none of them match.</p>
+                    )}
+                  </div>
+                )}
+
+                {claimedByMe(selectedItem) && (
+                  <div>
+                    <h3 className="font-bold text-gray-900 mb-2">Decision Reason</h3>
+                    <textarea
+                      rows={2}
+                      value={decisionReason}
+                      onChange={(e) => setDecisionReason(e.target.value)}
+                      placeholder="Required when rejecting"
+                      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
+
+                {selectedItem.decision_reason && (
+                  <div>
+                    <h3 className="font-bold text-gray-900 mb-2">
+                      {selectedItem.status === 'rejected' ? 'Rejected' : 'Approved'} by {selectedItem.reviewed_by}
+                    </h3>
+                    <p className="text-gray-700">{selectedItem.decision_reason}</p>
+                  </div>
+                )}
+
                 <div>
                   <h3 className="font-bold text-gray-900 mb-2">Item Details</h3>
                   <div className="bg-gray-50 p-4 rounded-lg">
@@ -304,15 +678,44 @@ export function ReviewQueue() {
               </div>
             </div>
             <div className="p-6 border-t border-gray-200 flex gap-3">
-              {!selectedItem.reviewed && (
+              {!selectedItem.reviewed && selectedItem.status !== 'claimed' && (
+                <button
+                  onClick={() => claimItem(selectedItem.id)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Claim
+                </button>
+              )}
+              {claimedByMe(selectedItem) && (
+                <>
+                  <button
+                    onClick={() => decideItem(selectedItem.id, 'approved', decisionReason)}
+                    disabled={saving}
+                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => decideItem(selectedItem.id, 'rejected', decisionReason)}
+                    disabled={saving}
+                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                  <button
+                    onClick={() => releaseItem(selectedItem.id)}
+                    className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors"
+                  >
+                    Release
+                  </button>
+                </>
+              )}
+              {selectedItem.item_type === 'ocr_page' && selectedItem.details?.pdf_object_id && (
                 <button
-                  onClick={() => {
-                    markAsReviewed(selectedItem.id);
-                    setSelectedItem(null);
-                  }}
-                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                  onClick={() => handleOpenPdf(selectedItem.details.pdf_object_id)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
                 >
-                  Mark as Reviewed
+                  Open PDF (page {selectedItem.details.page_number})
                 </button>
               )}
               <button
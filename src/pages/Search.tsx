@@ -0,0 +1,322 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ExternalLink, Search as SearchIcon } from 'lucide-react';
+import type { GlobalSearchResult, SearchFacetCount, SearchSource } from '../lib/database.types';
+import { accessToken } from '../lib/supabase';
+
+const PAGE_SIZE = 20;
+
+const SOURCE_LABELS: Record<SearchSource, string> = {
+  registry_row: 'Registry',
+  case: 'Case documents',
+  gazette_notice: 'Gazette notices',
+  company: 'Companies',
+  practitioner: 'Practitioners',
+  article: 'News articles',
+};
+
+const SOURCE_COLORS: Record<SearchSource, string> = {
+  registry_row: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300',
+  case: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/40 dark:text-indigo-300',
+  gazette_notice: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+  company: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  practitioner: 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300',
+  article: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+};
+
+interface SearchResponse {
+  success: boolean;
+  error?: string;
+  total: number;
+  results: GlobalSearchResult[];
+  facets: { sources: SearchFacetCount[]; months: SearchFacetCount[] };
+}
+
+function internalLink(result: GlobalSearchResult): string | null {
+  switch (result.source) {
+    case 'registry_row':
+    case 'case':
+      return '/registry';
+    case 'gazette_notice':
+      return '/notices';
+    case 'company':
+      return `/companies/${result.record_id}`;
+    case 'practitioner':
+      return '/practitioners';
+    default:
+      return null;
+  }
+}
+
+function monthRange(month: string): { from: string; to: string } {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return { from: `${month}-01`, to: `${month}-${String(lastDay).padStart(2, '0')}` };
+}
+
+function formatMonth(month: string) {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+function formatDate(dateString: string | null) {
+  if (!dateString) return null;
+  return new Date(dateString).toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+// Snippets come from ts_headline with matches wrapped in ⟦ ⟧
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/⟦(.*?)⟧/g);
+  return (
+    <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-gray-900 dark:text-white rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+export function Search() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [response, setResponse] = useState<SearchResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = searchParams.get('q')?.trim() || '';
+  const sourcesParam = searchParams.get('sources') || '';
+  const selectedSources = useMemo(
+    () => sourcesParam.split(',').filter(Boolean) as SearchSource[],
+    [sourcesParam]
+  );
+  const selectedMonth = searchParams.get('month');
+  const page = Math.max(0, parseInt(searchParams.get('page') || '0'));
+
+  const runSearch = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const range = selectedMonth ? monthRange(selectedMonth) : null;
+      const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/search`;
+      const res = await fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${await accessToken()}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          q: query,
+          sources: selectedSources.length > 0 ? selectedSources : undefined,
+          from: range?.from,
+          to: range?.to,
+          limit: PAGE_SIZE,
+          offset: page * PAGE_SIZE,
+        }),
+      });
+
+      const result: SearchResponse = await res.json();
+      if (!result.success) throw new Error(result.error || 'Search failed');
+      setResponse(result);
+    } catch (err) {
+      console.error('Search error:', err);
+      setError(err instanceof Error ? err.message : 'Search failed');
+      setResponse(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [query, selectedSources, selectedMonth, page]);
+
+  useEffect(() => {
+    if (query.length < 2) {
+      setResponse(null);
+      return;
+    }
+    runSearch();
+  }, [query, runSearch]);
+
+  function updateParams(changes: Record<string, string | null>) {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    }
+    if (!('page' in changes)) next.delete('page');
+    setSearchParams(next);
+  }
+
+  function toggleSource(source: SearchSource) {
+    const next = selectedSources.includes(source)
+      ? selectedSources.filter((value) => value !== source)
+      : [...selectedSources, source];
+    updateParams({ sources: next.join(',') || null });
+  }
+
+  const total = response?.total ?? 0;
+  const pageCount = Math.ceil(total / PAGE_SIZE);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Search</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          {query
+            ? `${loading ? 'Searching' : `${total.toLocaleString()} results`} for “${query}”`
+            : 'Search registry cases, case documents, gazette notices, companies, liquidators and news from the bar above'}
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {query.length >= 2 && (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <aside className="space-y-6">
+            <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Source</h2>
+              <div className="space-y-2">
+                {(response?.facets.sources || []).map((facet) => (
+                  <label key={facet.value} className="flex items-center justify-between gap-2 text-sm cursor-pointer">
+                    <span className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={selectedSources.includes(facet.value as SearchSource)}
+                        onChange={() => toggleSource(facet.value as SearchSource)}
+                        className="rounded border-gray-300 dark:border-gray-600"
+                      />
+                      {SOURCE_LABELS[facet.value as SearchSource] || facet.value}
+                    </span>
+                    <span className="text-gray-500 dark:text-gray-400">{facet.count}</span>
+                  </label>
+                ))}
+                {response && response.facets.sources.length === 0 && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No matches</p>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Date</h2>
+                {selectedMonth && (
+                  <button
+                    onClick={() => updateParams({ month: null })}
+                    className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Any time
+                  </button>
+                )}
+              </div>
+              <div className="space-y-1 max-h-72 overflow-y-auto">
+                {(response?.facets.months || []).map((facet) => (
+                  <button
+                    key={facet.value}
+                    onClick={() => updateParams({ month: selectedMonth === facet.value ? null : facet.value })}
+                    className={`w-full flex items-center justify-between px-2 py-1 rounded text-sm ${
+                      selectedMonth === facet.value
+                        ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 font-medium'
+                        : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    <span>{formatMonth(facet.value)}</span>
+                    <span className="text-gray-500 dark:text-gray-400">{facet.count}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          </aside>
+
+          <div className="lg:col-span-3 space-y-3">
+            {loading && !response ? (
+              <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-8 text-center text-gray-500 dark:text-gray-400">
+                Searching...
+              </div>
+            ) : response && response.results.length === 0 ? (
+              <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-8 text-center text-gray-500 dark:text-gray-400">
+                <SearchIcon className="mx-auto mb-2 text-gray-400" size={32} />
+                No results. Try fewer words or check the spelling of names.
+              </div>
+            ) : (
+              response?.results.map((result) => {
+                const link = internalLink(result);
+                return (
+                  <div
+                    key={`${result.source}-${result.record_id}`}
+                    className={`bg-white dark:bg-gray-800 rounded-lg border p-4 ${
+                      result.exact_match ? 'border-blue-400 dark:border-blue-500' : 'border-gray-200 dark:border-gray-700'
+                    }`}
+                  >
+                    <div className="flex items-center gap-2 flex-wrap text-xs">
+                      <span className={`px-2 py-0.5 rounded-full font-medium ${SOURCE_COLORS[result.source]}`}>
+                        {SOURCE_LABELS[result.source]}
+                      </span>
+                      {result.exact_match && (
+                        <span className="px-2 py-0.5 rounded-full font-medium bg-blue-600 text-white">Exact match</span>
+                      )}
+                      {result.record_date && (
+                        <span className="text-gray-500 dark:text-gray-400">{formatDate(result.record_date)}</span>
+                      )}
+                    </div>
+                    <div className="mt-2">
+                      {link ? (
+                        <Link to={link} className="text-base font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+                          {result.title}
+                        </Link>
+                      ) : result.url ? (
+                        <a
+                          href={result.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-base font-semibold text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {result.title}
+                          <ExternalLink size={14} />
+                        </a>
+                      ) : (
+                        <span className="text-base font-semibold text-gray-900 dark:text-white">{result.title}</span>
+                      )}
+                      {result.subtitle && (
+                        <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">{result.subtitle}</span>
+                      )}
+                    </div>
+                    {result.snippet && <Snippet text={result.snippet} />}
+                  </div>
+                );
+              })
+            )}
+
+            {pageCount > 1 && (
+              <div className="flex items-center justify-between pt-2">
+                <button
+                  onClick={() => updateParams({ page: page > 1 ? String(page - 1) : null })}
+                  disabled={page === 0 || loading}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  Page {page + 1} of {pageCount}
+                </span>
+                <button
+                  onClick={() => updateParams({ page: String(page + 1) })}
+                  disabled={page + 1 >= pageCount || loading}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
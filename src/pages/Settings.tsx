@@ -1,14 +1,39 @@
 import { useEffect, useState } from 'react';
-import { Save, Eye, EyeOff } from 'lucide-react';
+import { Save } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import type { AppSettings } from '../lib/database.types';
 import { ScraperTestPanel } from '../components/ScraperTestPanel';
+import { NotificationRoutingPanel } from '../components/NotificationRoutingPanel';
+import { LLMSpendPanel } from '../components/LLMSpendPanel';
+import { ApiKeysPanel } from '../components/ApiKeysPanel';
+import { UserRolesPanel } from '../components/UserRolesPanel';
+
+// Mirrors DEFAULT_TASK_MODELS in supabase/functions/shared/llm/client.ts
+const LLM_TASKS = [
+  { task: 'article_classification', label: 'Article classification', defaultModel: 'gpt-4o-mini' },
+  { task: 'entity_extraction', label: 'Entity extraction', defaultModel: 'gpt-4o-mini' },
+  { task: 'case_chunk_summary', label: 'Case chunk summaries', defaultModel: 'gpt-4o-mini' },
+  { task: 'case_consolidation', label: 'Case consolidation', defaultModel: 'claude-sonnet-4-20250514' },
+  { task: 'pdf_summary', label: 'PDF summary', defaultModel: 'claude-sonnet-4-5-20250929' },
+  { task: 'gazette_extraction', label: 'Gazette extraction', defaultModel: 'claude-sonnet-4-20250514' },
+];
+
+// Models with known pricing (supabase/functions/shared/llm/pricing.ts); others are costed at provider list rates
+const KNOWN_MODELS = [
+  'gpt-4o-mini',
+  'gpt-4o',
+  'gpt-4.1-mini',
+  'gpt-4.1',
+  'claude-3-5-haiku-20241022',
+  'claude-3-5-sonnet-20241022',
+  'claude-sonnet-4-20250514',
+  'claude-sonnet-4-5-20250929',
+  'claude-opus-4-1-20250805',
+];
 
 export function Settings() {
   const [settings, setSettings] = useState<Partial<AppSettings>>({
-    ocr_provider: 'pdfrest',
-    ocr_api_key: '',
-    firecrawl_api_key: '',
+    ocr_provider: 'tesseract',
     firecrawl_enabled: false,
     automation_enabled: true,
     alert_email: '',
@@ -20,11 +45,11 @@ export function Settings() {
     timezone: 'America/Cayman',
     notification_enabled: true,
     lookback_days: 7,
-    openai_api_key: '',
-    anthropic_api_key: '',
+    llm_provider: 'auto',
+    llm_models: {},
+    llm_daily_budget: null,
+    llm_monthly_budget: null,
   });
-  const [showOpenAIKey, setShowOpenAIKey] = useState(false);
-  const [showAnthropicKey, setShowAnthropicKey] = useState(false);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
@@ -73,6 +98,16 @@ export function Settings() {
     }
   }
 
+  function setTaskModel(task: string, model: string) {
+    const models = { ...((settings.llm_models || {}) as Record<string, string>) };
+    if (model.trim()) {
+      models[task] = model.trim();
+    } else {
+      delete models[task];
+    }
+    setSettings({ ...settings, llm_models: models });
+  }
+
   if (loading) {
     return (
       <div className="p-8 text-center text-gray-500">
@@ -144,7 +179,7 @@ export function Settings() {
           <div className="space-y-4">
             <div className="bg-blue-50 border-l-4 border-blue-500 p-4 mb-4">
               <p className="text-sm text-blue-800">
-                Enable Firecrawl to automatically scrape the judicial.ky website for new cases. Get your API key from{' '}
+                Enable Firecrawl to automatically scrape the judicial.ky website for new cases. Set its key under API Keys; get one from{' '}
                 <a
                   href="https://www.firecrawl.dev"
                   target="_blank"
@@ -156,22 +191,6 @@ export function Settings() {
               </p>
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Firecrawl API Key
-              </label>
-              <input
-                type="password"
-                value={settings.firecrawl_api_key || ''}
-                onChange={(e) => setSettings({ ...settings, firecrawl_api_key: e.target.value })}
-                placeholder="fc-your-api-key"
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
-              <p className="text-xs text-gray-500 mt-1">
-                API key is securely stored in the database
-              </p>
-            </div>
-
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Lookback Period (Days)
@@ -208,6 +227,7 @@ export function Settings() {
           </div>
         </div>
 
+
         <hr className="border-gray-200" />
 
         <div>
@@ -216,76 +236,92 @@ export function Settings() {
           <div className="space-y-4">
             <div className="bg-blue-50 border-l-4 border-blue-500 p-4 mb-4">
               <p className="text-sm text-blue-800">
-                Configure AI providers for dashboard-ready case analysis. The system uses OpenAI for chunking and Anthropic Claude for final consolidation.
+                Configure AI providers for case analysis, gazette extraction and news classification. Each task uses the model below; if its provider has no key the other provider is used instead. PDF reading requires an Anthropic key.
               </p>
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                OpenAI API Key
+                Provider
               </label>
-              <div className="relative">
-                <input
-                  type={showOpenAIKey ? 'text' : 'password'}
-                  value={settings.openai_api_key || ''}
-                  onChange={(e) => setSettings({ ...settings, openai_api_key: e.target.value })}
-                  placeholder="sk-..."
-                  className="w-full px-4 py-2 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowOpenAIKey(!showOpenAIKey)}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
-                >
-                  {showOpenAIKey ? <EyeOff size={20} /> : <Eye size={20} />}
-                </button>
-              </div>
+              <select
+                value={settings.llm_provider || 'auto'}
+                onChange={(e) => setSettings({ ...settings, llm_provider: e.target.value })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="auto">Automatic (per-task model)</option>
+                <option value="openai">OpenAI only</option>
+                <option value="anthropic">Anthropic only</option>
+                <option value="mock">Mock (offline, no API calls)</option>
+              </select>
               <p className="text-xs text-gray-500 mt-1">
-                Get your API key from{' '}
-                <a
-                  href="https://platform.openai.com/api-keys"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="underline hover:text-gray-700"
-                >
-                  platform.openai.com/api-keys
-                </a>
+                Mock returns canned responses so pipelines can be run and tested without API keys.
               </p>
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Anthropic API Key
+                Models per Task
               </label>
-              <div className="relative">
-                <input
-                  type={showAnthropicKey ? 'text' : 'password'}
-                  value={settings.anthropic_api_key || ''}
-                  onChange={(e) => setSettings({ ...settings, anthropic_api_key: e.target.value })}
-                  placeholder="sk-ant-..."
-                  className="w-full px-4 py-2 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowAnthropicKey(!showAnthropicKey)}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
-                >
-                  {showAnthropicKey ? <EyeOff size={20} /> : <Eye size={20} />}
-                </button>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {LLM_TASKS.map(({ task, label, defaultModel }) => (
+                  <div key={task}>
+                    <span className="block text-xs text-gray-600 mb-1">{label}</span>
+                    <input
+                      type="text"
+                      list="llm-models"
+                      value={((settings.llm_models || {}) as Record<string, string>)[task] || ''}
+                      onChange={(e) => setTaskModel(task, e.target.value)}
+                      placeholder={defaultModel}
+                      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                ))}
               </div>
+              <datalist id="llm-models">
+                {KNOWN_MODELS.map((model) => (
+                  <option key={model} value={model} />
+                ))}
+              </datalist>
               <p className="text-xs text-gray-500 mt-1">
-                Get your API key from{' '}
-                <a
-                  href="https://console.anthropic.com/settings/keys"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="underline hover:text-gray-700"
-                >
-                  console.anthropic.com/settings/keys
-                </a>
+                Leave blank to use the default shown.
               </p>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Daily Budget (USD)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={settings.llm_daily_budget ?? ''}
+                  onChange={(e) => setSettings({ ...settings, llm_daily_budget: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                  placeholder="No limit"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Monthly Budget (USD)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={settings.llm_monthly_budget ?? ''}
+                  onChange={(e) => setSettings({ ...settings, llm_monthly_budget: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                  placeholder="No limit"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 -mt-2">
+              Once a budget is spent, classifiers fall back to keyword heuristics, gazette analysis uses the rule-based parser and case analysis is refused until the budget resets (UTC).
+            </p>
+
             <div className="bg-amber-50 border-l-4 border-amber-500 p-4">
               <p className="text-xs text-amber-800">
                 <strong>Cost Estimate:</strong> Processing a typical 10-page PDF costs approximately $0.05-$0.15 depending on content density. Token usage is tracked per case.
@@ -309,24 +345,14 @@ export function Settings() {
                 onChange={(e) => setSettings({ ...settings, ocr_provider: e.target.value })}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
+                <option value="tesseract">Local OCR (Tesseract, no API key)</option>
                 <option value="pdfrest">pdfRest OCR</option>
                 <option value="convertapi">ConvertAPI OCR</option>
               </select>
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                OCR API Key
-              </label>
-              <input
-                type="password"
-                value={settings.ocr_api_key || ''}
-                onChange={(e) => setSettings({ ...settings, ocr_api_key: e.target.value })}
-                placeholder="Enter your OCR API key"
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
               <p className="text-xs text-gray-500 mt-1">
-                API key is encrypted before storage
+                {settings.ocr_provider === 'tesseract'
+                  ? "Scanned PDFs are OCR'd inside the extraction functions"
+                  : 'Uses the OCR key set under API Keys'}
               </p>
             </div>
           </div>
@@ -441,6 +467,23 @@ export function Settings() {
         </div>
       </div>
 
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">API Keys</h2>
+        <ApiKeysPanel />
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">Users and Roles</h2>
+        <UserRolesPanel />
+      </div>
+
+      <LLMSpendPanel
+        dailyBudget={settings.llm_daily_budget ?? null}
+        monthlyBudget={settings.llm_monthly_budget ?? null}
+      />
+
+      <NotificationRoutingPanel />
+
       <ScraperTestPanel />
     </div>
   );
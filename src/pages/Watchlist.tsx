@@ -0,0 +1,408 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2, RefreshCw, ExternalLink, Power } from 'lucide-react';
+import { supabase, accessToken } from '../lib/supabase';
+import type { Database, Watchlist as WatchlistEntry, WatchlistHit } from '../lib/database.types';
+
+type WatchlistInsert = Database['public']['Tables']['watchlists']['Insert'];
+
+type EntryType = 'company_name' | 'registration_no' | 'person_name' | 'ro_provider';
+
+const ENTRY_TYPES: Array<{ value: EntryType; label: string; placeholder: string }> = [
+  { value: 'company_name', label: 'Company name', placeholder: 'e.g. Blue Heron Holdings Limited' },
+  { value: 'registration_no', label: 'Registration no.', placeholder: 'e.g. IC-323061' },
+  { value: 'person_name', label: 'Person', placeholder: 'e.g. Kris Beighton' },
+  { value: 'ro_provider', label: 'RO provider', placeholder: 'e.g. Maples Corporate Services Limited' },
+];
+
+const SOURCE_LABELS: Record<string, string> = {
+  registry_row: 'Registry',
+  gazette_notice: 'Gazette notice',
+  article: 'News',
+};
+
+const PRIORITY_STYLES: Record<string, string> = {
+  critical: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+  high: 'bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300',
+  medium: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300',
+  low: 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-300',
+};
+
+const CHANNELS = ['dashboard', 'email', 'slack', 'webhook'];
+
+const EMPTY_FORM = {
+  entry_type: 'company_name' as EntryType,
+  value: '',
+  label: '',
+  priority: 'medium',
+  channels: ['dashboard'],
+};
+
+export function Watchlist() {
+  const [entries, setEntries] = useState<WatchlistEntry[]>([]);
+  const [hits, setHits] = useState<WatchlistHit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  async function loadData() {
+    try {
+      setLoading(true);
+      const [entriesResult, hitsResult] = await Promise.all([
+        supabase.from('watchlists').select('*').order('created_at', { ascending: false }),
+        supabase.from('watchlist_hits').select('*').order('created_at', { ascending: false }).limit(200),
+      ]);
+
+      if (entriesResult.error) throw entriesResult.error;
+      if (hitsResult.error) throw hitsResult.error;
+
+      setEntries(entriesResult.data || []);
+      setHits(hitsResult.data || []);
+    } catch (error) {
+      console.error('Error loading watchlists:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function addEntry(e: React.FormEvent) {
+    e.preventDefault();
+    if (!form.value.trim()) return;
+
+    try {
+      setSaving(true);
+      const newEntry: WatchlistInsert = {
+        entry_type: form.entry_type,
+        value: form.value.trim(),
+        label: form.label.trim() || null,
+        priority: form.priority,
+        channels: form.channels,
+      };
+      const { error } = await supabase.from('watchlists').insert(newEntry);
+
+      if (error) {
+        if (error.code === '23505') {
+          alert('This value is already on the watchlist.');
+          return;
+        }
+        throw error;
+      }
+
+      setForm(EMPTY_FORM);
+      await loadData();
+    } catch (error) {
+      console.error('Error adding watchlist entry:', error);
+      alert('Failed to add watchlist entry');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function toggleActive(entry: WatchlistEntry) {
+    const { error } = await supabase
+      .from('watchlists')
+      .update({ is_active: !entry.is_active })
+      .eq('id', entry.id);
+
+    if (error) {
+      console.error('Error updating watchlist entry:', error);
+      alert('Failed to update watchlist entry');
+      return;
+    }
+    setEntries((current) => current.map((e) => (e.id === entry.id ? { ...e, is_active: !e.is_active } : e)));
+  }
+
+  async function deleteEntry(entry: WatchlistEntry) {
+    if (!confirm(`Remove "${entry.label || entry.value}" from the watchlist? Its hit history will be deleted too.`)) return;
+
+    const { error } = await supabase.from('watchlists').delete().eq('id', entry.id);
+    if (error) {
+      console.error('Error deleting watchlist entry:', error);
+      alert('Failed to delete watchlist entry');
+      return;
+    }
+    if (selectedId === entry.id) setSelectedId(null);
+    await loadData();
+  }
+
+  async function runScan() {
+    try {
+      setScanning(true);
+      const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/match-watchlists`;
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${await accessToken()}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) throw new Error('Failed to run watchlist scan');
+
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Watchlist scan failed');
+
+      alert(`Watchlist scan completed.\n\nRecords scanned: ${result.records_scanned}\nNew hits: ${result.hits}`);
+      await loadData();
+    } catch (error) {
+      console.error('Error running watchlist scan:', error);
+      alert('Failed to run watchlist scan. Please check the console for details.');
+    } finally {
+      setScanning(false);
+    }
+  }
+
+  function toggleChannel(channel: string) {
+    setForm((current) => ({
+      ...current,
+      channels: current.channels.includes(channel)
+        ? current.channels.filter((c) => c !== channel)
+        : [...current.channels, channel],
+    }));
+  }
+
+  function formatDate(dateString: string | null) {
+    if (!dateString) return 'Never';
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+  }
+
+  const entriesById = new Map(entries.map((entry) => [entry.id, entry]));
+  const visibleHits = selectedId ? hits.filter((hit) => hit.watchlist_id === selectedId) : hits;
+  const placeholder = ENTRY_TYPES.find((t) => t.value === form.entry_type)?.placeholder;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Watchlist</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Get notified when a company, person or RO provider appears in the registry, gazette or news
+          </p>
+        </div>
+        <button
+          onClick={runScan}
+          disabled={scanning}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-60"
+        >
+          <RefreshCw size={16} className={scanning ? 'animate-spin' : ''} />
+          {scanning ? 'Scanning…' : 'Scan Now'}
+        </button>
+      </div>
+
+      <form
+        onSubmit={addEntry}
+        className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 space-y-4"
+      >
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Add to Watchlist</h2>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <select
+            value={form.entry_type}
+            onChange={(e) => setForm({ ...form, entry_type: e.target.value as EntryType })}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            {ENTRY_TYPES.map((type) => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={form.value}
+            onChange={(e) => setForm({ ...form, value: e.target.value })}
+            placeholder={placeholder}
+            className="md:col-span-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
+          />
+          <input
+            type="text"
+            value={form.label}
+            onChange={(e) => setForm({ ...form, label: e.target.value })}
+            placeholder="Label (optional)"
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-6">
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            Priority
+            <select
+              value={form.priority}
+              onChange={(e) => setForm({ ...form, priority: e.target.value })}
+              className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="low">Low</option>
+              <option value="medium">Medium</option>
+              <option value="high">High</option>
+              <option value="critical">Critical</option>
+            </select>
+          </label>
+          <div className="flex items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+            Notify via
+            {CHANNELS.map((channel) => (
+              <label key={channel} className="flex items-center gap-1.5 capitalize">
+                <input
+                  type="checkbox"
+                  checked={form.channels.includes(channel)}
+                  onChange={() => toggleChannel(channel)}
+                  className="rounded border-gray-300 dark:border-gray-600"
+                />
+                {channel}
+              </label>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={saving || !form.value.trim()}
+            className="ml-auto flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-60"
+          >
+            <Plus size={16} />
+            {saving ? 'Adding…' : 'Add'}
+          </button>
+        </div>
+      </form>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+        {loading ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+            Loading watchlist...
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+            Nothing on the watchlist yet.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Watching
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Type
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Priority
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Hits
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Last Hit
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {entries.map((entry) => (
+                  <tr
+                    key={entry.id}
+                    onClick={() => setSelectedId(selectedId === entry.id ? null : entry.id)}
+                    className={`cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 ${
+                      selectedId === entry.id ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+                    } ${entry.is_active ? '' : 'opacity-50'}`}
+                  >
+                    <td className="px-6 py-4 text-sm">
+                      <div className="font-medium text-gray-900 dark:text-white">{entry.label || entry.value}</div>
+                      {entry.label && <div className="text-gray-600 dark:text-gray-400">{entry.value}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                      {ENTRY_TYPES.find((t) => t.value === entry.entry_type)?.label || entry.entry_type}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${PRIORITY_STYLES[entry.priority] || PRIORITY_STYLES.low}`}>
+                        {entry.priority}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                      {entry.hit_count}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                      {formatDate(entry.last_hit_at)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <div className="flex items-center justify-end gap-2" onClick={(e) => e.stopPropagation()}>
+                        <button
+                          onClick={() => toggleActive(entry)}
+                          title={entry.is_active ? 'Pause' : 'Resume'}
+                          className="p-1.5 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                        >
+                          <Power size={16} />
+                        </button>
+                        <button
+                          onClick={() => deleteEntry(entry)}
+                          title="Remove"
+                          className="p-1.5 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Hit History{selectedId && entriesById.get(selectedId) ? ` — ${entriesById.get(selectedId)!.label || entriesById.get(selectedId)!.value}` : ''}
+          </h2>
+          {selectedId && (
+            <button onClick={() => setSelectedId(null)} className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+              Show all
+            </button>
+          )}
+        </div>
+
+        {visibleHits.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No hits yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {visibleHits.map((hit) => {
+              const entry = entriesById.get(hit.watchlist_id);
+              return (
+                <div key={hit.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                        <span className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                          {SOURCE_LABELS[hit.source_type] || hit.source_type}
+                        </span>
+                        <span>{formatDate(hit.created_at)}</span>
+                        {entry && <span>· {entry.label || entry.value}</span>}
+                      </div>
+                      <div className="mt-1 text-sm font-medium text-gray-900 dark:text-white">
+                        {hit.url ? (
+                          <a href={hit.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 hover:underline">
+                            {hit.title}
+                            <ExternalLink size={12} />
+                          </a>
+                        ) : (
+                          hit.title
+                        )}
+                      </div>
+                      <div className="text-sm text-blue-700 dark:text-blue-300 mt-1">{hit.match_reason}</div>
+                    </div>
+                  </div>
+                  {hit.snippet && (
+                    <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">{hit.snippet}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
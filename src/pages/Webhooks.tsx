@@ -0,0 +1,527 @@
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { Plus, Trash2, Power, RefreshCw, RotateCcw, KeyRound, ChevronDown, ChevronRight } from 'lucide-react';
+import { supabase, accessToken } from '../lib/supabase';
+import type {
+  Database,
+  WebhookEndpoint,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+} from '../lib/database.types';
+
+type EndpointInsert = Database['public']['Tables']['webhook_endpoints']['Insert'];
+
+const EVENT_TYPES = [
+  { value: 'registry.case_created', label: 'New registry case' },
+  { value: 'gazette.notice_extracted', label: 'Gazette notice extracted' },
+  { value: 'monitor.article_flagged', label: 'News article flagged' },
+  { value: 'notification.created', label: 'Notification (webhook channel)' },
+];
+
+const STATUS_STYLES: Record<string, string> = {
+  succeeded: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+  pending: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300',
+  sending: 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-800 dark:text-indigo-300',
+  failed: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300',
+  dead: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+};
+
+// Columns readable by the browser; the signing secret is write-only
+const ENDPOINT_COLUMNS = 'id, name, url, event_types, is_active, created_at, updated_at';
+
+const EMPTY_FORM = { name: '', url: '', event_types: [] as string[] };
+
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `whsec_${Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+export function Webhooks() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [attempts, setAttempts] = useState<Record<string, WebhookDeliveryAttempt[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [newSecret, setNewSecret] = useState<{ endpoint: string; secret: string } | null>(null);
+  const [statusFilter, setStatusFilter] = useState<WebhookDelivery['status'] | 'failed_or_dead' | ''>('failed_or_dead');
+  const [endpointFilter, setEndpointFilter] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      let deliveriesQuery = supabase
+        .from('webhook_deliveries')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (statusFilter === 'failed_or_dead') {
+        deliveriesQuery = deliveriesQuery.in('status', ['failed', 'dead']);
+      } else if (statusFilter) {
+        deliveriesQuery = deliveriesQuery.eq('status', statusFilter);
+      }
+      if (endpointFilter) deliveriesQuery = deliveriesQuery.eq('endpoint_id', endpointFilter);
+
+      const [endpointsResult, deliveriesResult] = await Promise.all([
+        supabase.from('webhook_endpoints').select(ENDPOINT_COLUMNS).order('created_at', { ascending: true }),
+        deliveriesQuery,
+      ]);
+
+      if (endpointsResult.error) throw endpointsResult.error;
+      if (deliveriesResult.error) throw deliveriesResult.error;
+
+      setEndpoints((endpointsResult.data || []) as WebhookEndpoint[]);
+      setDeliveries(deliveriesResult.data || []);
+      setSelected(new Set());
+    } catch (error) {
+      console.error('Error loading webhooks:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, endpointFilter]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  async function addEndpoint(e: React.FormEvent) {
+    e.preventDefault();
+    if (!form.url.trim().startsWith('https://')) {
+      alert('Webhook URLs must use https://');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const secret = generateSecret();
+      const endpoint: EndpointInsert = {
+        name: form.name.trim() || new URL(form.url.trim()).hostname,
+        url: form.url.trim(),
+        secret,
+        event_types: form.event_types,
+      };
+      const { error } = await supabase.from('webhook_endpoints').insert(endpoint);
+      if (error) throw error;
+
+      setNewSecret({ endpoint: endpoint.name, secret });
+      setForm(EMPTY_FORM);
+      await loadData();
+    } catch (error) {
+      console.error('Error adding webhook endpoint:', error);
+      alert('Failed to add webhook endpoint');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function rotateSecret(endpoint: WebhookEndpoint) {
+    if (!confirm(`Generate a new signing secret for "${endpoint.name}"? The old secret stops working immediately.`)) return;
+
+    const secret = generateSecret();
+    const { error } = await supabase
+      .from('webhook_endpoints')
+      .update({ secret })
+      .eq('id', endpoint.id);
+
+    if (error) {
+      console.error('Error rotating webhook secret:', error);
+      alert('Failed to rotate secret');
+      return;
+    }
+    setNewSecret({ endpoint: endpoint.name, secret });
+  }
+
+  async function toggleActive(endpoint: WebhookEndpoint) {
+    const { error } = await supabase
+      .from('webhook_endpoints')
+      .update({ is_active: !endpoint.is_active })
+      .eq('id', endpoint.id);
+
+    if (error) {
+      console.error('Error updating webhook endpoint:', error);
+      alert('Failed to update webhook endpoint');
+      return;
+    }
+    setEndpoints((current) => current.map((e) => (e.id === endpoint.id ? { ...e, is_active: !e.is_active } : e)));
+  }
+
+  async function deleteEndpoint(endpoint: WebhookEndpoint) {
+    if (!confirm(`Delete "${endpoint.name}"? Its delivery log will be deleted too.`)) return;
+
+    const { error } = await supabase.from('webhook_endpoints').delete().eq('id', endpoint.id);
+    if (error) {
+      console.error('Error deleting webhook endpoint:', error);
+      alert('Failed to delete webhook endpoint');
+      return;
+    }
+    if (endpointFilter === endpoint.id) setEndpointFilter('');
+    await loadData();
+  }
+
+  async function runDeliveries(deliveryIds?: string[]) {
+    try {
+      setRunning(true);
+      const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/deliver-webhooks`;
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${await accessToken()}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(deliveryIds ? { delivery_ids: deliveryIds } : {}),
+      });
+
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Webhook delivery failed');
+
+      alert(
+        `${deliveryIds ? 'Replay' : 'Delivery run'} completed.\n\nAttempted: ${result.attempted}\nSucceeded: ${result.succeeded}\nWill retry: ${result.failed}\nGave up: ${result.dead}`
+      );
+      setAttempts({});
+      await loadData();
+    } catch (error) {
+      console.error('Error delivering webhooks:', error);
+      alert('Failed to deliver webhooks. Please check the console for details.');
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  async function toggleExpanded(delivery: WebhookDelivery) {
+    if (expandedId === delivery.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(delivery.id);
+
+    if (!attempts[delivery.id]) {
+      const { data, error } = await supabase
+        .from('webhook_delivery_attempts')
+        .select('*')
+        .eq('delivery_id', delivery.id)
+        .order('attempted_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading delivery attempts:', error);
+        return;
+      }
+      setAttempts((current) => ({ ...current, [delivery.id]: data || [] }));
+    }
+  }
+
+  function toggleSelected(id: string) {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  function toggleEventType(type: string) {
+    setForm((current) => ({
+      ...current,
+      event_types: current.event_types.includes(type)
+        ? current.event_types.filter((t) => t !== type)
+        : [...current.event_types, type],
+    }));
+  }
+
+  function formatDate(dateString: string | null) {
+    if (!dateString) return '—';
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+  }
+
+  const endpointsById = new Map(endpoints.map((endpoint) => [endpoint.id, endpoint]));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Webhooks</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Push signed registry, gazette and news events to external systems
+          </p>
+        </div>
+        <button
+          onClick={() => runDeliveries()}
+          disabled={running}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-60"
+        >
+          <RefreshCw size={16} className={running ? 'animate-spin' : ''} />
+          {running ? 'Delivering…' : 'Deliver Due Now'}
+        </button>
+      </div>
+
+      {newSecret && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-4">
+          <div className="flex items-start justify-between gap-4">
+            <div className="text-sm text-amber-900 dark:text-amber-200">
+              <p className="font-semibold">Signing secret for {newSecret.endpoint}</p>
+              <p className="mt-1">Copy it now — it cannot be shown again.</p>
+              <code className="block mt-2 px-3 py-2 bg-white dark:bg-gray-900 rounded border border-amber-200 dark:border-amber-800 break-all">
+                {newSecret.secret}
+              </code>
+              <p className="mt-2 text-xs">
+                Verify each request by computing HMAC-SHA256 of <code>{'<timestamp>.<raw body>'}</code> with this secret
+                and comparing it with <code>v1</code> in the <code>X-Webhook-Signature</code> header.
+              </p>
+            </div>
+            <button
+              onClick={() => setNewSecret(null)}
+              className="text-sm text-amber-800 dark:text-amber-300 hover:underline shrink-0"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <form
+        onSubmit={addEndpoint}
+        className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 space-y-4"
+      >
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Add Endpoint</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Name (e.g. CRM)"
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
+          />
+          <input
+            type="url"
+            value={form.url}
+            onChange={(e) => setForm({ ...form, url: e.target.value })}
+            placeholder="https://crm.example.com/hooks/cayman"
+            className="md:col-span-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+          Events
+          {EVENT_TYPES.map((type) => (
+            <label key={type.value} className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={form.event_types.includes(type.value)}
+                onChange={() => toggleEventType(type.value)}
+                className="rounded border-gray-300 dark:border-gray-600"
+              />
+              {type.label}
+            </label>
+          ))}
+          <span className="text-xs text-gray-500 dark:text-gray-400">None selected = all events</span>
+          <button
+            type="submit"
+            disabled={saving || !form.url.trim()}
+            className="ml-auto flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-60"
+          >
+            <Plus size={16} />
+            {saving ? 'Adding…' : 'Add'}
+          </button>
+        </div>
+      </form>
+
+      {endpoints.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+          {endpoints.map((endpoint) => (
+            <div key={endpoint.id} className={`flex items-center justify-between gap-4 p-4 ${endpoint.is_active ? '' : 'opacity-50'}`}>
+              <div className="min-w-0">
+                <div className="font-medium text-gray-900 dark:text-white">{endpoint.name}</div>
+                <div className="text-sm text-gray-600 dark:text-gray-400 truncate">{endpoint.url}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {endpoint.event_types.length === 0 ? 'All events' : endpoint.event_types.join(', ')}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  onClick={() => rotateSecret(endpoint)}
+                  title="Rotate secret"
+                  className="p-1.5 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                >
+                  <KeyRound size={16} />
+                </button>
+                <button
+                  onClick={() => toggleActive(endpoint)}
+                  title={endpoint.is_active ? 'Pause' : 'Resume'}
+                  className="p-1.5 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                >
+                  <Power size={16} />
+                </button>
+                <button
+                  onClick={() => deleteEndpoint(endpoint)}
+                  title="Delete"
+                  className="p-1.5 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+        <div className="flex flex-wrap items-center gap-3 p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mr-auto">Delivery Log</h2>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+            className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value="failed_or_dead">Failed &amp; dead</option>
+            <option value="">All statuses</option>
+            <option value="pending">Pending</option>
+            <option value="sending">Sending</option>
+            <option value="failed">Failed (retrying)</option>
+            <option value="dead">Dead</option>
+            <option value="succeeded">Succeeded</option>
+          </select>
+          <select
+            value={endpointFilter}
+            onChange={(e) => setEndpointFilter(e.target.value)}
+            className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value="">All endpoints</option>
+            {endpoints.map((endpoint) => (
+              <option key={endpoint.id} value={endpoint.id}>{endpoint.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => runDeliveries(Array.from(selected))}
+            disabled={running || selected.size === 0}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            <RotateCcw size={14} />
+            Replay selected ({selected.size})
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+            Loading deliveries...
+          </div>
+        ) : deliveries.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+            No deliveries match these filters.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600">
+                <tr>
+                  <th className="px-4 py-3 w-8" />
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Event</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Endpoint</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Attempts</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Last Error</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Next Attempt</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Created</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {deliveries.map((delivery) => (
+                  <Fragment key={delivery.id}>
+                    <tr
+                      onClick={() => toggleExpanded(delivery)}
+                      className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700"
+                    >
+                      <td className="px-4 py-3" onClick={(e) => e.stopPropagation()}>
+                        <input
+                          type="checkbox"
+                          checked={selected.has(delivery.id)}
+                          onChange={() => toggleSelected(delivery.id)}
+                          className="rounded border-gray-300 dark:border-gray-600"
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-white whitespace-nowrap">
+                        <span className="inline-flex items-center gap-1">
+                          {expandedId === delivery.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                          {delivery.event_type}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                        {endpointsById.get(delivery.endpoint_id)?.name || '—'}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[delivery.status]}`}>
+                          {delivery.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">{delivery.attempt_count}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 max-w-xs truncate">
+                        {delivery.last_error || '—'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                        {delivery.status === 'pending' || delivery.status === 'failed' ? formatDate(delivery.next_attempt_at) : '—'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                        {formatDate(delivery.created_at)}
+                      </td>
+                      <td className="px-4 py-3 text-right" onClick={(e) => e.stopPropagation()}>
+                        <button
+                          onClick={() => runDeliveries([delivery.id])}
+                          disabled={running}
+                          title="Replay"
+                          className="p-1.5 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 disabled:opacity-50"
+                        >
+                          <RotateCcw size={16} />
+                        </button>
+                      </td>
+                    </tr>
+                    {expandedId === delivery.id && (
+                      <tr>
+                        <td colSpan={9} className="px-4 py-4 bg-gray-50 dark:bg-gray-900/40">
+                          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                            <div>
+                              <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Payload</h3>
+                              <pre className="text-xs bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded p-3 overflow-auto max-h-80 text-gray-800 dark:text-gray-200">
+                                {JSON.stringify(delivery.payload, null, 2)}
+                              </pre>
+                            </div>
+                            <div>
+                              <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Attempts</h3>
+                              {(attempts[delivery.id] || []).length === 0 ? (
+                                <p className="text-sm text-gray-500 dark:text-gray-400">No attempts yet.</p>
+                              ) : (
+                                <div className="space-y-2">
+                                  {attempts[delivery.id].map((attempt) => (
+                                    <div key={attempt.id} className="text-xs border border-gray-200 dark:border-gray-700 rounded p-2 bg-white dark:bg-gray-800">
+                                      <div className="flex items-center gap-3 text-gray-700 dark:text-gray-300">
+                                        <span>#{attempt.attempt_number}</span>
+                                        <span>{formatDate(attempt.attempted_at)}</span>
+                                        <span className={attempt.status_code && attempt.status_code < 300 ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'}>
+                                          {attempt.status_code ?? 'no response'}
+                                        </span>
+                                        {attempt.duration_ms !== null && <span>{attempt.duration_ms} ms</span>}
+                                      </div>
+                                      {attempt.error && <div className="mt-1 text-red-700 dark:text-red-400">{attempt.error}</div>}
+                                      {attempt.response_body && (
+                                        <pre className="mt-1 whitespace-pre-wrap break-all text-gray-600 dark:text-gray-400">{attempt.response_body}</pre>
+                                      )}
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { MonitorArticleList } from '../../components/MonitorArticleList';
 import { MonitorArticleDetail } from '../../components/MonitorArticleDetail';
 import { MonitorStatsWidget } from '../../components/MonitorStatsWidget';
 import type { MonitorArticle, MonitorSignal } from '../../components/monitor/types';
+import { accessToken } from '../../lib/supabase';
 
 const PAGE_SIZE = 25;
 
@@ -77,7 +78,7 @@ export function MonitorPage() {
         const requestUrl = `${supabaseUrl}/functions/v1/monitor_api/articles?${params.toString()}`;
         const response = await fetch(requestUrl, {
           headers: {
-            Authorization: `Bearer ${supabaseKey}`,
+            Authorization: `Bearer ${await accessToken()}`,
             'Content-Type': 'application/json',
           },
         });
@@ -90,7 +91,12 @@ export function MonitorPage() {
         console.log('Monitor articles response', data);
 
         const items = data.items ?? [];
-        setArticles((prev) => (append ? [...prev, ...items] : items));
+        setArticles((prev) => {
+          if (!append) return items;
+          // A story whose copies span two pages is already on screen
+          const shownStories = new Set(prev.map((article) => article.story?.id).filter(Boolean));
+          return [...prev, ...items.filter((item) => !item.story || !shownStories.has(item.story.id))];
+        });
         setNextCursor(data.next_cursor ?? null);
       } catch (err) {
         console.error('Failed to load monitor articles', err);
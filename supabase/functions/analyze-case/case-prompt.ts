@@ -0,0 +1,124 @@
+/**
+ * Case petition prompt and the chunk -> consolidate pipeline analyze-case runs
+ *
+ * Used by analyze-case and by the extraction eval harness (supabase/functions/eval),
+ * so prompt edits can be measured before deploying.
+ */
+
+import { type CaseAnalysis, CASE_ANALYSIS_JSON_INSTRUCTIONS, completeCaseAnalysis } from '../shared/case-analysis.ts';
+import type { LLMClient } from '../shared/llm/index.ts';
+
+const CHUNK_SIZE = 6000;
+
+export const DASHBOARD_PROMPT = `Extract the following information from the attached Cayman Islands court petition document and present it in a CONCISE, DASHBOARD-READY format. Keep all sections brief and scannable.
+
+**OUTPUT FORMAT: Condensed report suitable for dashboard display**
+
+---
+
+**1. COMPANY OVERVIEW**
+Present as a compact summary block:
+- Company name (include Chinese characters if present)
+- Registration No. [number] | Incorporated: [date]
+- Former names (if any): [list with dates]
+- Registered Office: [provider name and location]
+- Principal Business: [one-line description]
+- Stock Listing: [exchange name, code, listing date] OR "Not listed"
+
+**2. LEGAL DETAILS**
+- Court: [court name and division]
+- Cause No.: [number] | Filed: [date]
+- Filing Law Firm: [firm name]
+- Petition Type: [capital reduction/winding-up/other] under [Act sections]
+
+**3. KEY TIMELINE**
+Present as a condensed table (max 8-10 critical dates):
+| Date | Event |
+|------|-------|
+[Include only: incorporation, major resolutions, EGM dates, filing date, hearing date]
+
+**4. FINANCIAL SUMMARY**
+Present as bullet points:
+- Current authorised capital: [amount and structure]
+- Current issued capital: [amount and number of shares]
+- Proposed changes: [brief description - e.g., "Par value HK$0.25→HK$0.01"]
+- Purpose: [one sentence - e.g., "Offset accumulated losses and HKSE compliance"]
+- Solvency status: [solvent/insolvent + brief note]
+
+**5. INSOLVENCY PRACTITIONERS**
+- If appointed: [Names and firms]
+- If not appointed: "None - this is a [petition type], not a winding-up"
+
+---
+
+**CRITICAL REQUIREMENTS:**
+✓ Keep total output under 500 words
+✓ Use bullet points, not paragraphs
+✓ Include only essential dates in timeline (not every corporate event)
+✓ Preserve exact figures for share capital and monetary amounts
+✓ Use "→" arrows to show before/after changes
+✓ State "N/A" or "Not specified" for missing information
+✓ No explanatory text or elaboration beyond core facts
+✓ Format for easy scanning on a dashboard interface
+
+**WHAT TO EXCLUDE:**
+✗ Detailed descriptions of legal procedures
+✗ Full text of resolutions
+✗ Voting percentages unless material
+✗ Minor name changes or administrative events
+✗ Lengthy addresses (keep to city/jurisdiction)
+✗ Article/section citations unless critical`;
+
+export function chunkText(text: string, chunkSize: number): string[] {
+  const cleanedText = text.replace(/\s+\n/g, '\n').trim();
+  const chunks: string[] = [];
+
+  for (let i = 0; i < cleanedText.length; i += chunkSize) {
+    chunks.push(cleanedText.slice(i, i + chunkSize));
+  }
+
+  return chunks;
+}
+
+/**
+ * Summarise each chunk of the petition text with DASHBOARD_PROMPT, then consolidate
+ * the summaries into a structured case analysis
+ */
+export async function analyzeCaseText(
+  llm: LLMClient,
+  text: string
+): Promise<{ analysis: CaseAnalysis; chunkCount: number }> {
+  const chunks = chunkText(text, CHUNK_SIZE);
+  console.log(`Split into ${chunks.length} chunks`);
+
+  const chunkSummaries: string[] = [];
+
+  for (let i = 0; i < chunks.length; i++) {
+    console.log(`Processing chunk ${i + 1}/${chunks.length}`);
+    const chunkResult = await llm.complete({
+      task: 'case_chunk_summary',
+      system: DASHBOARD_PROMPT,
+      messages: [{ role: 'user', content: `Analyze this document chunk:\n\n${chunks[i]}` }],
+      temperature: 0.2,
+      maxTokens: 2000,
+    });
+    chunkSummaries.push(chunkResult.text);
+  }
+
+  console.log(`Consolidating ${chunkSummaries.length} chunk summaries`);
+  const consolidationPrompt = `Combine the following chunk summaries of one Cayman Islands court petition into a single structured case analysis.
+Merge lists and remove duplicates. If a field is missing in all chunks, use null.
+
+${CASE_ANALYSIS_JSON_INSTRUCTIONS}
+
+CHUNK SUMMARIES:
+${chunkSummaries.join('\n\n---\n\n')}`;
+
+  const analysis = await completeCaseAnalysis(llm, {
+    task: 'case_consolidation',
+    messages: [{ role: 'user', content: consolidationPrompt }],
+    maxTokens: 3000,
+  });
+
+  return { analysis, chunkCount: chunks.length };
+}
@@ -0,0 +1,336 @@
+/**
+ * Gazette extraction prompt and response parsing
+ *
+ * Used by analyze-gazette-with-claude and by the extraction eval harness
+ * (supabase/functions/eval), so prompt edits can be measured before deploying.
+ */
+
+import type { LiquidationNotice } from "./notice-parser.ts";
+
+export const GAZETTE_PROMPT = `You are a specialized legal document extraction system for Cayman Islands Gazettes and Extraordinary Gazettes. Your task is to extract ALL liquidation-related information from the COMMERCIAL section, covering voluntary liquidations, court-ordered liquidations, partnerships, bankruptcies, receiverships, and final meetings, then output structured JSON data.
+
+SCOPE OF EXTRACTION
+Extract from these COMMERCIAL subsections ONLY (in this exact order):
+
+✅ Section 1: "Liquidation Notices, Notices of Winding Up, Appointment of Voluntary Liquidators and Notices to Creditors"
+✅ Section 2: "Notices of Final Meeting of Shareholders"
+✅ Section 3: "Partnership Notices"
+✅ Section 4: "Bankruptcy Notices"
+✅ Section 5: "Receivership Notices"
+✅ Section 6: "Dividend Notices"
+✅ Section 7: "Grand Court Notices" (ONLY liquidation-related notices)
+
+⛔ STOP EXTRACTION AFTER "Grand Court Notices" - DO NOT process sections beyond this point.
+
+❌ DO NOT extract from: Dormant Accounts Notices, Notice of Special Strike, Reduction of Capital, Certificate of Merger Notices, Transfer of Companies, Struck-off Lists, Demand Notices, Regulatory Agency Notices, General Commercial Notices, or GOVERNMENT sections
+
+🔍 CRITICAL: Gazettes have two parts:
+1. CONTENTS PAGE (front pages) - Shows table of contents with page numbers where each section starts
+2. ACTUAL CONTENT (numbered pages like Pg.1387) - Contains the full text of liquidation notices
+
+You MUST read the ACTUAL CONTENT pages, not just the CONTENTS page. When the contents shows "Liquidation Notices...Pg.1387", you must navigate to page 1387 in the document and extract from there.
+
+EXAMPLE: If CONTENTS shows:
+- "Liquidation Notices...Pg.1387" → Go to page 1387, extract all liquidation notices
+- "Partnership Notices...Pg.1415" → Go to page 1415, extract all partnership notices
+- "Grand Court Notices...None" → Skip this section entirely, no content to extract
+
+DO NOT return status "no_data" unless ALL target sections show "None" or are absent. Even if only ONE section has content, you must extract it and return status "success".
+
+STEP 1: DOCUMENT VALIDATION
+Before extraction, perform these validation checks:
+
+- Identify the gazette type: Gazette or Extraordinary Gazette
+- Extract gazette metadata: Issue number (e.g., "22/2025", "Ex84/2025"), Publication date (e.g., "Monday, 27 October 2025")
+- Locate the CONTENTS page (if present) - this is just an INDEX showing where sections are located
+- For each target section: Check if it has a page number (e.g., "Pg.1387") OR shows "None"
+  - If page number exists → PROCEED to that page number and extract content
+  - If it shows "None" → SKIP only that specific subsection (other subsections may still have content)
+- IMPORTANT: The CONTENTS page is separate from the actual content. You must navigate to the page numbers listed to find the actual liquidation notices.
+- Special validation for Grand Court Notices: Extract ONLY notices containing terms like "liquidation", "winding up", "liquidator appointed", "cause no.", or "FSD"
+
+STEP 2: SECTION BOUNDARY IDENTIFICATION
+For EACH target section that has a page number in the CONTENTS:
+- Navigate to that page number in the document
+- Look for the section heading (e.g., "Liquidation Notices, Notices of Winding Up, Appointment of Voluntary Liquidators and Notices to Creditors")
+- Identify clear start and end boundaries by section headings
+- Extract ALL notices between the section start and the next section heading
+
+STEP 3: EXTRACTION RULES BY SECTION
+
+A. VOLUNTARY LIQUIDATION NOTICES (Section 1)
+Identify liquidation type:
+- "Voluntary": Look for "voluntary liquidation", "voluntary winding up", "Voluntary Liquidator appointed"
+- "Court-Ordered": Look for "Official Liquidator", "Official Liquidation", "FSD Cause No.", court references
+
+For EACH notice, extract:
+- entityName: Full legal name exactly as written
+- entityType: "Company" (default for this section)
+- registrationNo: Include prefixes (CR-, IC-, MC-, etc.); use null if not stated
+- liquidationType: "Voluntary" OR "Court-Ordered"
+- liquidators: Array of full name(s) of individuals or firm names
+- contactEmails: Array of email addresses; empty array if not provided
+- courtCauseNo: Only if mentioned (e.g., "FSD 123 of 2025"); use null if not applicable
+- liquidationDate: Date liquidation commenced in ISO format YYYY-MM-DD
+- finalMeetingDate: Initially null (will populate in Step 4 cross-reference)
+- notes: String with additional context
+
+B. FINAL MEETING NOTICES (Section 2)
+For EACH notice, extract: Company/Partnership name, Registration number (if stated), Final meeting date, Final meeting location/time (for Notes field). DO NOT create separate JSON entries yet - these will be cross-referenced in Step 4.
+
+C. PARTNERSHIP NOTICES (Section 3)
+FILTER FIRST: Only extract partnerships with liquidation language ("voluntary liquidation", "winding up", "liquidator", "dissolution"). IGNORE: Partnership formations, amendments, general notices.
+
+For EACH liquidation notice, extract:
+- entityName, entityType: "Partnership"
+- registrationNo, liquidationType: "Voluntary"
+- liquidators: Array with General Partner or named liquidator(s)
+- contactEmails, courtCauseNo: null
+- liquidationDate, finalMeetingDate: Initially null
+- notes: Include partnership type, General Partner details
+
+D. BANKRUPTCY NOTICES (Section 4)
+FILTER FIRST: Only extract bankruptcy orders related to individuals or entities. IGNORE: General notices unrelated to insolvency.
+
+For EACH bankruptcy notice, extract:
+- entityName: Full name of bankrupt individual or entity
+- entityType: "Individual" OR "Company" (based on context)
+- registrationNo: Use null if not stated
+- liquidationType: "Bankruptcy"
+- liquidators: Array with Trustee in Bankruptcy name(s) or ["Court-Appointed Trustee"] if unnamed
+- contactEmails: Array of email addresses; empty array if not provided
+- courtCauseNo: Bankruptcy case number if mentioned
+- liquidationDate: Bankruptcy order date in ISO format YYYY-MM-DD
+- finalMeetingDate: Initially null
+- notes: Include bankruptcy order details, creditor meeting info if mentioned
+
+E. RECEIVERSHIP NOTICES (Section 5)
+FILTER FIRST: Only extract notices of receiver appointments for companies or assets. IGNORE: General commercial notices.
+
+For EACH receivership notice, extract:
+- entityName: Full name of company under receivership
+- entityType: "Company"
+- registrationNo: Include prefixes (CR-, IC-, MC-, etc.); use null if not stated
+- liquidationType: "Receivership"
+- liquidators: Array with Receiver name(s)
+- contactEmails: Array of email addresses; empty array if not provided
+- courtCauseNo: Use null unless court-appointed receivership with cause number
+- liquidationDate: Date receiver appointed in ISO format YYYY-MM-DD
+- finalMeetingDate: Initially null
+- notes: Include appointing party (e.g., secured creditor), assets covered
+
+F. DIVIDEND NOTICES (Section 6)
+FILTER FIRST: Only extract notices related to dividend distributions in liquidation proceedings. IGNORE: Regular corporate dividend declarations.
+
+For EACH liquidation dividend notice, extract:
+- entityName: Full name of company in liquidation
+- entityType: "Company"
+- registrationNo: Include prefixes; use null if not stated
+- liquidationType: "Dividend Distribution" (indicates company already in liquidation)
+- liquidators: Array with Liquidator name(s) distributing dividend
+- contactEmails: Array of contact emails for dividend claims
+- courtCauseNo: Use null unless court-supervised liquidation
+- liquidationDate: Use null (liquidation date not in this notice type)
+- finalMeetingDate: Initially null
+- notes: Include dividend payment date, claim deadline, distribution details
+
+G. GRAND COURT NOTICES (Section 7)
+FILTER FIRST: Only extract liquidation-related notices (must contain: "liquidation", "winding up", "liquidator", "FSD", "Cause No."). IGNORE: Other court proceedings.
+
+For EACH liquidation notice, extract:
+- entityName, entityType: "Company" (or "Partnership" if stated)
+- registrationNo: Use null if not stated
+- liquidationType: "Court-Ordered"
+- liquidators: Array with Official Liquidator name(s)
+- contactEmails, courtCauseNo: Extract cause number
+- liquidationDate: Order date or petition date in ISO format
+- finalMeetingDate: Initially null
+- notes: Include petitioner, grounds for winding up
+
+STEP 4: CROSS-REFERENCING FINAL MEETINGS
+After extracting all liquidations (Sections 1, 3, 4, 5, 6, 7):
+- Compare Final Meeting Notices (Section 2) against all extracted entities
+- Match by: Exact entity name match (case-insensitive), OR Registration number match, OR Close name match
+- If match found: Populate finalMeetingDate field and update notes field
+- If no match found (entity in Final Meeting section but NOT in liquidation sections): Create NEW entry with entityType determined from name/context, liquidationType: "Unknown", liquidationDate: null, notes: "Final meeting notice only; liquidation commenced in prior gazette"
+
+STEP 5: INTERNAL VALIDATION & SELF-CORRECTION
+Before outputting, verify:
+1. Section Isolation: Confirm EVERY extracted entity came from correct target sections (stopped after Grand Court Notices)
+2. Liquidation Type Accuracy: "Voluntary" vs "Court-Ordered" vs "Bankruptcy" vs "Receivership" vs "Dividend Distribution" vs "Unknown"
+3. Entity Type Accuracy: "Company" vs "Partnership" vs "Individual" (for bankruptcies)
+4. Name Accuracy: Complete name, exact capitalization, punctuation
+5. Date Format & Logic: ISO format YYYY-MM-DD, liquidation date ≤ gazette publication date
+6. Array Fields: liquidators always array (never empty), contactEmails always array (can be empty)
+7. Cross-Reference Verification: Check name variations, verify registration numbers match
+8. Duplicate Check: Same entity should NOT appear twice UNLESS different segregated portfolios
+9. Null vs Empty: Use null for registrationNo, courtCauseNo, liquidationDate, finalMeetingDate when not applicable; Use empty array [] for contactEmails when no emails; NEVER use null for liquidators array
+
+STEP 6: JSON OUTPUT FORMAT
+
+If ANY liquidations found:
+{
+  "status": "success",
+  "gazette": {
+    "type": "Gazette",
+    "issueNumber": "22/2025",
+    "publicationDate": "2025-10-27"
+  },
+  "summary": {
+    "totalEntities": 37,
+    "companiesVoluntary": 33,
+    "companiesCourtOrdered": 2,
+    "partnershipsVoluntary": 2,
+    "entitiesWithFinalMeetings": 5
+  },
+  "liquidations": [
+    {
+      "entityName": "AGIC BLUE RIDGE (CAYMAN) LIMITED",
+      "entityType": "Company",
+      "registrationNo": "IC-323061",
+      "liquidationType": "Voluntary",
+      "liquidators": ["Shu Xu"],
+      "contactEmails": ["shu.xu@agic-group.com"],
+      "courtCauseNo": null,
+      "liquidationDate": "2025-10-17",
+      "finalMeetingDate": null,
+      "notes": "Voluntary liquidation from 17 October 2025"
+    }
+  ]
+}
+
+Array Sorting: Primary: entityType (Company first, then Partnership); Secondary: liquidationType (Voluntary, Court-Ordered, Unknown); Tertiary: entityName (alphabetical, case-insensitive)
+
+If NO liquidations found:
+{
+  "status": "no_data",
+  "gazette": {...},
+  "summary": {...all zeros...},
+  "message": "This gazette does not contain any liquidation notices for companies or partnerships in the covered period.",
+  "sectionsReviewed": {...},
+  "liquidations": []
+}
+
+STEP 7: FINAL QUALITY CHECKS
+Verify: Valid JSON, all seven sections reviewed, correct liquidationType/entityType (including Bankruptcy, Receivership, Dividend Distribution), final meetings cross-referenced, courtCauseNo captured, stopped after Grand Court Notices, complete entity names, ISO dates, liquidators array has entries, contactEmails is array, no hallucinated info, summary stats match array counts, array properly sorted.
+
+OUTPUT INSTRUCTIONS
+CRITICAL: Output ONLY the raw JSON object. Do NOT wrap it in markdown code blocks (no \`\`\`json). Do NOT add any explanatory text before or after the JSON. Start your response with { and end with }. Ensure proper escaping of special characters. Use consistent indentation (2 spaces).`;
+
+/**
+ * GAZETTE_PROMPT narrowed to the COMMERCIAL subsections sent in one batch
+ */
+export function buildBatchPrompt(sectionNames: string[]): string {
+  return GAZETTE_PROMPT.replace(
+    /Extract from these COMMERCIAL subsections ONLY.*?(?=STEP 1)/s,
+    `Extract from the following COMMERCIAL subsections in this batch:\n${sectionNames.map((name, idx) => `✅ Section ${idx + 1}: "${name}"`).join('\n')}\n\n`
+  );
+}
+
+export interface GazetteResponse {
+  status: string;
+  gazette: {
+    type: string;
+    issueNumber: string;
+    publicationDate: string;
+  };
+  summary: {
+    totalEntities: number;
+    companiesVoluntary: number;
+    companiesCourtOrdered: number;
+    partnershipsVoluntary: number;
+    entitiesWithFinalMeetings: number;
+  };
+  message?: string;
+  liquidations: LiquidationNotice[];
+}
+
+export function parseClaudeResponse(text: string): GazetteResponse {
+  const cleanedText = text.trim();
+
+  const strategies = [
+    () => {
+      if (cleanedText.startsWith('{') && cleanedText.endsWith('}')) {
+        return JSON.parse(cleanedText);
+      }
+      return null;
+    },
+    () => {
+      const startIdx = cleanedText.indexOf('{');
+      const endIdx = cleanedText.lastIndexOf('}');
+
+      if (startIdx !== -1 && endIdx !== -1 && endIdx > startIdx) {
+        const jsonStr = cleanedText.substring(startIdx, endIdx + 1);
+        return JSON.parse(jsonStr);
+      }
+      return null;
+    },
+    () => {
+      const jsonMatch = cleanedText.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+      if (jsonMatch) {
+        return JSON.parse(jsonMatch[1].trim());
+      }
+      return null;
+    },
+    () => {
+      const jsonMatch = cleanedText.match(/\{[\s\S]*\}/);
+      if (jsonMatch) {
+        return JSON.parse(jsonMatch[0]);
+      }
+      return null;
+    },
+    () => {
+      const lines = cleanedText.split('\n');
+      let braceCount = 0;
+      let startLine = -1;
+      let endLine = -1;
+
+      for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        for (const char of line) {
+          if (char === '{') {
+            if (braceCount === 0) startLine = i;
+            braceCount++;
+          } else if (char === '}') {
+            braceCount--;
+            if (braceCount === 0) {
+              endLine = i;
+              break;
+            }
+          }
+        }
+        if (endLine !== -1) break;
+      }
+
+      if (startLine !== -1 && endLine !== -1) {
+        const jsonStr = lines.slice(startLine, endLine + 1).join('\n');
+        return JSON.parse(jsonStr);
+      }
+      return null;
+    }
+  ];
+
+  let lastError: Error | null = null;
+
+  for (let i = 0; i < strategies.length; i++) {
+    try {
+      const result = strategies[i]();
+      if (result !== null) {
+        console.log(`Successfully parsed JSON using strategy ${i + 1}`);
+        return result as GazetteResponse;
+      }
+    } catch (error) {
+      lastError = error;
+      console.log(`Strategy ${i + 1} failed:`, error.message);
+      continue;
+    }
+  }
+
+  console.error("All parsing strategies failed.");
+  console.error("Text length:", cleanedText.length);
+  console.error("First 1000 chars:", cleanedText.substring(0, 1000));
+  console.error("Last 500 chars:", cleanedText.substring(Math.max(0, cleanedText.length - 500)));
+  console.error("Last error:", lastError?.message);
+
+  throw new Error(`All parsing strategies failed. Last error: ${lastError?.message || 'Unknown'}. Text length: ${cleanedText.length}`);
+}
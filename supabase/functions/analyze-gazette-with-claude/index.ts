@@ -10,7 +10,21 @@ import {
   type CommercialSectionAnalysis,
   type SectionInfo,
 } from "./pdf-section-splitter.ts";
+import {
+  confidenceLevel,
+  crossCheckNotices,
+  parseGazetteMetadata,
+  parseGazetteNotices,
+  type CrossCheckResult,
+  type LiquidationNotice,
+  type ParsedNotice,
+} from "./notice-parser.ts";
+import { buildBatchPrompt, GAZETTE_PROMPT, parseClaudeResponse, type GazetteResponse } from "./gazette-prompt.ts";
 import { PDFExtract } from "npm:pdf.js-extract@0.2.1";
+import { LLMError, loadLLMClient, type LLMClient, type LLMResponse } from "../shared/llm/index.ts";
+import { enqueueWebhookEvents } from "../shared/webhook-events.ts";
+import { base64ToBytes, bytesToBase64, loadPdf, storePdf } from "../shared/pdf-storage.ts";
+import { actorName, requireRole } from "../shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -18,342 +32,17 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-const GAZETTE_PROMPT = `You are a specialized legal document extraction system for Cayman Islands Gazettes and Extraordinary Gazettes. Your task is to extract ALL liquidation-related information from the COMMERCIAL section, covering voluntary liquidations, court-ordered liquidations, partnerships, bankruptcies, receiverships, and final meetings, then output structured JSON data.
-
-SCOPE OF EXTRACTION
-Extract from these COMMERCIAL subsections ONLY (in this exact order):
-
-✅ Section 1: "Liquidation Notices, Notices of Winding Up, Appointment of Voluntary Liquidators and Notices to Creditors"
-✅ Section 2: "Notices of Final Meeting of Shareholders"
-✅ Section 3: "Partnership Notices"
-✅ Section 4: "Bankruptcy Notices"
-✅ Section 5: "Receivership Notices"
-✅ Section 6: "Dividend Notices"
-✅ Section 7: "Grand Court Notices" (ONLY liquidation-related notices)
-
-⛔ STOP EXTRACTION AFTER "Grand Court Notices" - DO NOT process sections beyond this point.
-
-❌ DO NOT extract from: Dormant Accounts Notices, Notice of Special Strike, Reduction of Capital, Certificate of Merger Notices, Transfer of Companies, Struck-off Lists, Demand Notices, Regulatory Agency Notices, General Commercial Notices, or GOVERNMENT sections
-
-🔍 CRITICAL: Gazettes have two parts:
-1. CONTENTS PAGE (front pages) - Shows table of contents with page numbers where each section starts
-2. ACTUAL CONTENT (numbered pages like Pg.1387) - Contains the full text of liquidation notices
-
-You MUST read the ACTUAL CONTENT pages, not just the CONTENTS page. When the contents shows "Liquidation Notices...Pg.1387", you must navigate to page 1387 in the document and extract from there.
-
-EXAMPLE: If CONTENTS shows:
-- "Liquidation Notices...Pg.1387" → Go to page 1387, extract all liquidation notices
-- "Partnership Notices...Pg.1415" → Go to page 1415, extract all partnership notices
-- "Grand Court Notices...None" → Skip this section entirely, no content to extract
-
-DO NOT return status "no_data" unless ALL target sections show "None" or are absent. Even if only ONE section has content, you must extract it and return status "success".
-
-STEP 1: DOCUMENT VALIDATION
-Before extraction, perform these validation checks:
-
-- Identify the gazette type: Gazette or Extraordinary Gazette
-- Extract gazette metadata: Issue number (e.g., "22/2025", "Ex84/2025"), Publication date (e.g., "Monday, 27 October 2025")
-- Locate the CONTENTS page (if present) - this is just an INDEX showing where sections are located
-- For each target section: Check if it has a page number (e.g., "Pg.1387") OR shows "None"
-  - If page number exists → PROCEED to that page number and extract content
-  - If it shows "None" → SKIP only that specific subsection (other subsections may still have content)
-- IMPORTANT: The CONTENTS page is separate from the actual content. You must navigate to the page numbers listed to find the actual liquidation notices.
-- Special validation for Grand Court Notices: Extract ONLY notices containing terms like "liquidation", "winding up", "liquidator appointed", "cause no.", or "FSD"
-
-STEP 2: SECTION BOUNDARY IDENTIFICATION
-For EACH target section that has a page number in the CONTENTS:
-- Navigate to that page number in the document
-- Look for the section heading (e.g., "Liquidation Notices, Notices of Winding Up, Appointment of Voluntary Liquidators and Notices to Creditors")
-- Identify clear start and end boundaries by section headings
-- Extract ALL notices between the section start and the next section heading
-
-STEP 3: EXTRACTION RULES BY SECTION
-
-A. VOLUNTARY LIQUIDATION NOTICES (Section 1)
-Identify liquidation type:
-- "Voluntary": Look for "voluntary liquidation", "voluntary winding up", "Voluntary Liquidator appointed"
-- "Court-Ordered": Look for "Official Liquidator", "Official Liquidation", "FSD Cause No.", court references
-
-For EACH notice, extract:
-- entityName: Full legal name exactly as written
-- entityType: "Company" (default for this section)
-- registrationNo: Include prefixes (CR-, IC-, MC-, etc.); use null if not stated
-- liquidationType: "Voluntary" OR "Court-Ordered"
-- liquidators: Array of full name(s) of individuals or firm names
-- contactEmails: Array of email addresses; empty array if not provided
-- courtCauseNo: Only if mentioned (e.g., "FSD 123 of 2025"); use null if not applicable
-- liquidationDate: Date liquidation commenced in ISO format YYYY-MM-DD
-- finalMeetingDate: Initially null (will populate in Step 4 cross-reference)
-- notes: String with additional context
-
-B. FINAL MEETING NOTICES (Section 2)
-For EACH notice, extract: Company/Partnership name, Registration number (if stated), Final meeting date, Final meeting location/time (for Notes field). DO NOT create separate JSON entries yet - these will be cross-referenced in Step 4.
-
-C. PARTNERSHIP NOTICES (Section 3)
-FILTER FIRST: Only extract partnerships with liquidation language ("voluntary liquidation", "winding up", "liquidator", "dissolution"). IGNORE: Partnership formations, amendments, general notices.
-
-For EACH liquidation notice, extract:
-- entityName, entityType: "Partnership"
-- registrationNo, liquidationType: "Voluntary"
-- liquidators: Array with General Partner or named liquidator(s)
-- contactEmails, courtCauseNo: null
-- liquidationDate, finalMeetingDate: Initially null
-- notes: Include partnership type, General Partner details
-
-D. BANKRUPTCY NOTICES (Section 4)
-FILTER FIRST: Only extract bankruptcy orders related to individuals or entities. IGNORE: General notices unrelated to insolvency.
-
-For EACH bankruptcy notice, extract:
-- entityName: Full name of bankrupt individual or entity
-- entityType: "Individual" OR "Company" (based on context)
-- registrationNo: Use null if not stated
-- liquidationType: "Bankruptcy"
-- liquidators: Array with Trustee in Bankruptcy name(s) or ["Court-Appointed Trustee"] if unnamed
-- contactEmails: Array of email addresses; empty array if not provided
-- courtCauseNo: Bankruptcy case number if mentioned
-- liquidationDate: Bankruptcy order date in ISO format YYYY-MM-DD
-- finalMeetingDate: Initially null
-- notes: Include bankruptcy order details, creditor meeting info if mentioned
-
-E. RECEIVERSHIP NOTICES (Section 5)
-FILTER FIRST: Only extract notices of receiver appointments for companies or assets. IGNORE: General commercial notices.
-
-For EACH receivership notice, extract:
-- entityName: Full name of company under receivership
-- entityType: "Company"
-- registrationNo: Include prefixes (CR-, IC-, MC-, etc.); use null if not stated
-- liquidationType: "Receivership"
-- liquidators: Array with Receiver name(s)
-- contactEmails: Array of email addresses; empty array if not provided
-- courtCauseNo: Use null unless court-appointed receivership with cause number
-- liquidationDate: Date receiver appointed in ISO format YYYY-MM-DD
-- finalMeetingDate: Initially null
-- notes: Include appointing party (e.g., secured creditor), assets covered
-
-F. DIVIDEND NOTICES (Section 6)
-FILTER FIRST: Only extract notices related to dividend distributions in liquidation proceedings. IGNORE: Regular corporate dividend declarations.
-
-For EACH liquidation dividend notice, extract:
-- entityName: Full name of company in liquidation
-- entityType: "Company"
-- registrationNo: Include prefixes; use null if not stated
-- liquidationType: "Dividend Distribution" (indicates company already in liquidation)
-- liquidators: Array with Liquidator name(s) distributing dividend
-- contactEmails: Array of contact emails for dividend claims
-- courtCauseNo: Use null unless court-supervised liquidation
-- liquidationDate: Use null (liquidation date not in this notice type)
-- finalMeetingDate: Initially null
-- notes: Include dividend payment date, claim deadline, distribution details
-
-G. GRAND COURT NOTICES (Section 7)
-FILTER FIRST: Only extract liquidation-related notices (must contain: "liquidation", "winding up", "liquidator", "FSD", "Cause No."). IGNORE: Other court proceedings.
-
-For EACH liquidation notice, extract:
-- entityName, entityType: "Company" (or "Partnership" if stated)
-- registrationNo: Use null if not stated
-- liquidationType: "Court-Ordered"
-- liquidators: Array with Official Liquidator name(s)
-- contactEmails, courtCauseNo: Extract cause number
-- liquidationDate: Order date or petition date in ISO format
-- finalMeetingDate: Initially null
-- notes: Include petitioner, grounds for winding up
-
-STEP 4: CROSS-REFERENCING FINAL MEETINGS
-After extracting all liquidations (Sections 1, 3, 4, 5, 6, 7):
-- Compare Final Meeting Notices (Section 2) against all extracted entities
-- Match by: Exact entity name match (case-insensitive), OR Registration number match, OR Close name match
-- If match found: Populate finalMeetingDate field and update notes field
-- If no match found (entity in Final Meeting section but NOT in liquidation sections): Create NEW entry with entityType determined from name/context, liquidationType: "Unknown", liquidationDate: null, notes: "Final meeting notice only; liquidation commenced in prior gazette"
-
-STEP 5: INTERNAL VALIDATION & SELF-CORRECTION
-Before outputting, verify:
-1. Section Isolation: Confirm EVERY extracted entity came from correct target sections (stopped after Grand Court Notices)
-2. Liquidation Type Accuracy: "Voluntary" vs "Court-Ordered" vs "Bankruptcy" vs "Receivership" vs "Dividend Distribution" vs "Unknown"
-3. Entity Type Accuracy: "Company" vs "Partnership" vs "Individual" (for bankruptcies)
-4. Name Accuracy: Complete name, exact capitalization, punctuation
-5. Date Format & Logic: ISO format YYYY-MM-DD, liquidation date ≤ gazette publication date
-6. Array Fields: liquidators always array (never empty), contactEmails always array (can be empty)
-7. Cross-Reference Verification: Check name variations, verify registration numbers match
-8. Duplicate Check: Same entity should NOT appear twice UNLESS different segregated portfolios
-9. Null vs Empty: Use null for registrationNo, courtCauseNo, liquidationDate, finalMeetingDate when not applicable; Use empty array [] for contactEmails when no emails; NEVER use null for liquidators array
-
-STEP 6: JSON OUTPUT FORMAT
-
-If ANY liquidations found:
-{
-  "status": "success",
-  "gazette": {
-    "type": "Gazette",
-    "issueNumber": "22/2025",
-    "publicationDate": "2025-10-27"
-  },
-  "summary": {
-    "totalEntities": 37,
-    "companiesVoluntary": 33,
-    "companiesCourtOrdered": 2,
-    "partnershipsVoluntary": 2,
-    "entitiesWithFinalMeetings": 5
-  },
-  "liquidations": [
-    {
-      "entityName": "AGIC BLUE RIDGE (CAYMAN) LIMITED",
-      "entityType": "Company",
-      "registrationNo": "IC-323061",
-      "liquidationType": "Voluntary",
-      "liquidators": ["Shu Xu"],
-      "contactEmails": ["shu.xu@agic-group.com"],
-      "courtCauseNo": null,
-      "liquidationDate": "2025-10-17",
-      "finalMeetingDate": null,
-      "notes": "Voluntary liquidation from 17 October 2025"
-    }
-  ]
-}
-
-Array Sorting: Primary: entityType (Company first, then Partnership); Secondary: liquidationType (Voluntary, Court-Ordered, Unknown); Tertiary: entityName (alphabetical, case-insensitive)
-
-If NO liquidations found:
-{
-  "status": "no_data",
-  "gazette": {...},
-  "summary": {...all zeros...},
-  "message": "This gazette does not contain any liquidation notices for companies or partnerships in the covered period.",
-  "sectionsReviewed": {...},
-  "liquidations": []
-}
-
-STEP 7: FINAL QUALITY CHECKS
-Verify: Valid JSON, all seven sections reviewed, correct liquidationType/entityType (including Bankruptcy, Receivership, Dividend Distribution), final meetings cross-referenced, courtCauseNo captured, stopped after Grand Court Notices, complete entity names, ISO dates, liquidators array has entries, contactEmails is array, no hallucinated info, summary stats match array counts, array properly sorted.
-
-OUTPUT INSTRUCTIONS
-CRITICAL: Output ONLY the raw JSON object. Do NOT wrap it in markdown code blocks (no \`\`\`json). Do NOT add any explanatory text before or after the JSON. Start your response with { and end with }. Ensure proper escaping of special characters. Use consistent indentation (2 spaces).`;
-
 interface AnalysisRequest {
-  pdf_base64: string;
+  /** A PDF already in storage (from pdf-storage or process-gazette-queue)... */
+  pdf_object_id?: string;
+  /** ...or the PDF itself, which is stored before analysis */
+  pdf_base64?: string;
+  filename?: string;
   gazette_type: string;
   issue_number?: string;
   issue_date?: string;
-}
-
-interface GazetteResponse {
-  status: string;
-  gazette: {
-    type: string;
-    issueNumber: string;
-    publicationDate: string;
-  };
-  summary: {
-    totalEntities: number;
-    companiesVoluntary: number;
-    companiesCourtOrdered: number;
-    partnershipsVoluntary: number;
-    entitiesWithFinalMeetings: number;
-  };
-  message?: string;
-  liquidations: LiquidationNotice[];
-}
-
-interface LiquidationNotice {
-  entityName: string;
-  entityType: string;
-  registrationNo: string | null;
-  liquidationType: string;
-  liquidators: string[];
-  contactEmails: string[];
-  courtCauseNo: string | null;
-  liquidationDate: string | null;
-  finalMeetingDate: string | null;
-  notes: string;
-}
-
-function parseClaudeResponse(text: string): GazetteResponse {
-  let cleanedText = text.trim();
-
-  const strategies = [
-    () => {
-      if (cleanedText.startsWith('{') && cleanedText.endsWith('}')) {
-        return JSON.parse(cleanedText);
-      }
-      return null;
-    },
-    () => {
-      const startIdx = cleanedText.indexOf('{');
-      const endIdx = cleanedText.lastIndexOf('}');
-
-      if (startIdx !== -1 && endIdx !== -1 && endIdx > startIdx) {
-        const jsonStr = cleanedText.substring(startIdx, endIdx + 1);
-        return JSON.parse(jsonStr);
-      }
-      return null;
-    },
-    () => {
-      const jsonMatch = cleanedText.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[1].trim());
-      }
-      return null;
-    },
-    () => {
-      const jsonMatch = cleanedText.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-      return null;
-    },
-    () => {
-      const lines = cleanedText.split('\n');
-      let braceCount = 0;
-      let startLine = -1;
-      let endLine = -1;
-
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        for (const char of line) {
-          if (char === '{') {
-            if (braceCount === 0) startLine = i;
-            braceCount++;
-          } else if (char === '}') {
-            braceCount--;
-            if (braceCount === 0) {
-              endLine = i;
-              break;
-            }
-          }
-        }
-        if (endLine !== -1) break;
-      }
-
-      if (startLine !== -1 && endLine !== -1) {
-        const jsonStr = lines.slice(startLine, endLine + 1).join('\n');
-        return JSON.parse(jsonStr);
-      }
-      return null;
-    }
-  ];
-
-  let lastError: Error | null = null;
-
-  for (let i = 0; i < strategies.length; i++) {
-    try {
-      const result = strategies[i]();
-      if (result !== null) {
-        console.log(`Successfully parsed JSON using strategy ${i + 1}`);
-        return result as GazetteResponse;
-      }
-    } catch (error) {
-      lastError = error;
-      console.log(`Strategy ${i + 1} failed:`, error.message);
-      continue;
-    }
-  }
-
-  console.error("All parsing strategies failed.");
-  console.error("Text length:", cleanedText.length);
-  console.error("First 1000 chars:", cleanedText.substring(0, 1000));
-  console.error("Last 500 chars:", cleanedText.substring(Math.max(0, cleanedText.length - 500)));
-  console.error("Last error:", lastError?.message);
-
-  throw new Error(`All parsing strategies failed. Last error: ${lastError?.message || 'Unknown'}. Text length: ${cleanedText.length}`);
+  /** "user" for uploads from the Gazettes page, "backfill" from process-gazette-queue */
+  uploaded_by?: string;
 }
 
 async function extractPdfText(pdf_base64: string): Promise<string> {
@@ -392,77 +81,65 @@ async function extractPdfText(pdf_base64: string): Promise<string> {
 async function analyzeWithClaude(
   content: string,
   prompt: string,
-  anthropicApiKey: string,
+  llm: LLMClient,
   maxTokens: number,
   isPdfDocument = false,
   pdf_base64?: string
-): Promise<{ text: string; tokensUsed: any; stopReason: string }> {
-  const messages: any[] = [
-    {
-      role: "user",
-      content: isPdfDocument
-        ? [
-            {
-              type: "document",
-              source: {
-                type: "base64",
-                media_type: "application/pdf",
-                data: pdf_base64,
-              },
-            },
-            {
-              type: "text",
-              text: prompt,
-            },
-          ]
-        : [
-            {
-              type: "text",
-              text: `${content}\n\n${prompt}`,
-            },
-          ],
-    },
-  ];
-
-  const response = await fetch("https://api.anthropic.com/v1/messages", {
-    method: "POST",
-    headers: {
-      "x-api-key": anthropicApiKey,
-      "anthropic-version": "2023-06-01",
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: maxTokens,
-      messages,
-    }),
+): Promise<LLMResponse> {
+  return await llm.complete({
+    task: "gazette_extraction",
+    maxTokens,
+    messages: [
+      {
+        role: "user",
+        content: isPdfDocument && pdf_base64
+          ? [
+              { type: "document", mediaType: "application/pdf", data: pdf_base64 },
+              { type: "text", text: prompt },
+            ]
+          : [{ type: "text", text: `${content}\n\n${prompt}` }],
+      },
+    ],
   });
+}
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Claude API error: ${response.status} - ${error}`);
-  }
-
-  const result = await response.json();
+function summarizeLiquidations(liquidations: LiquidationNotice[]): GazetteResponse["summary"] {
+  return {
+    totalEntities: liquidations.length,
+    companiesVoluntary: liquidations.filter(l => l.entityType === 'Company' && l.liquidationType === 'Voluntary').length,
+    companiesCourtOrdered: liquidations.filter(l => l.liquidationType === 'Court-Ordered').length,
+    partnershipsVoluntary: liquidations.filter(l => l.entityType === 'Partnership').length,
+    entitiesWithFinalMeetings: liquidations.filter(l => l.finalMeetingDate !== null).length,
+  };
+}
 
-  if (!result.content || !result.content[0] || !result.content[0].text) {
-    throw new Error("Invalid response from Claude API");
-  }
+/**
+ * Build a GazetteResponse from the rule-based parser (used when no LLM key is configured)
+ */
+function buildRuleBasedResponse(
+  pdfText: string,
+  ruleNotices: ParsedNotice[],
+  gazette_type: string
+): GazetteResponse {
+  const liquidations = ruleNotices.map((parsed) => parsed.notice);
+  const metadata = parseGazetteMetadata(pdfText, gazette_type);
 
   return {
-    text: result.content[0].text,
-    tokensUsed: {
-      input_tokens: result.usage?.input_tokens || 0,
-      output_tokens: result.usage?.output_tokens || 0,
-      total_tokens: (result.usage?.input_tokens || 0) + (result.usage?.output_tokens || 0),
+    status: liquidations.length > 0 ? 'success' : 'no_data',
+    gazette: {
+      type: metadata.type,
+      issueNumber: metadata.issueNumber || "Unknown",
+      publicationDate: metadata.publicationDate || new Date().toISOString().split('T')[0],
     },
-    stopReason: result.stop_reason,
+    summary: summarizeLiquidations(liquidations),
+    message: liquidations.length === 0 ? "Rule-based parser found no liquidation notices in the COMMERCIAL section." : undefined,
+    liquidations,
   };
 }
 
 async function processSectionBatches(
   subsections: SectionInfo[],
-  anthropicApiKey: string,
+  llm: LLMClient,
   gazette_type: string
 ): Promise<{ mergedResponse: GazetteResponse; totalTokens: number }> {
   console.log(`Processing ${subsections.length} subsections in batch mode...`);
@@ -484,21 +161,18 @@ async function processSectionBatches(
     const maxTokens = calculateMaxTokens(batchTokens);
     console.log(`Batch ${i + 1} text preview (first 400 chars): ${batchContent.substring(0, 400).replace(/\s+/g, ' ')}`);
     
-    const batchPrompt = GAZETTE_PROMPT.replace(
-      /Extract from these COMMERCIAL subsections ONLY.*?(?=STEP 1)/s,
-      `Extract from the following COMMERCIAL subsections in this batch:\n${batch.map((s, idx) => `✅ Section ${idx + 1}: "${s.sectionName}"`).join('\n')}\n\n`
-    );
+    const batchPrompt = buildBatchPrompt(batch.map(s => s.sectionName));
     
     try {
-      const { text, tokensUsed, stopReason } = await analyzeWithClaude(
+      const { text, usage, stopReason } = await analyzeWithClaude(
         batchContent,
         batchPrompt,
-        anthropicApiKey,
+        llm,
         maxTokens,
         false
       );
       
-      totalTokens += tokensUsed.total_tokens;
+      totalTokens += usage.total_tokens;
       
       if (stopReason === 'max_tokens') {
         console.warn(`Batch ${i + 1} hit max_tokens limit - response may be truncated`);
@@ -523,13 +197,7 @@ async function processSectionBatches(
     }
   }
   
-  const summary = {
-    totalEntities: allLiquidations.length,
-    companiesVoluntary: allLiquidations.filter(l => l.entityType === 'Company' && l.liquidationType === 'Voluntary').length,
-    companiesCourtOrdered: allLiquidations.filter(l => l.liquidationType === 'Court-Ordered').length,
-    partnershipsVoluntary: allLiquidations.filter(l => l.entityType === 'Partnership').length,
-    entitiesWithFinalMeetings: allLiquidations.filter(l => l.finalMeetingDate !== null).length,
-  };
+  const summary = summarizeLiquidations(allLiquidations);
   
   const mergedResponse: GazetteResponse = {
     status: allLiquidations.length > 0 ? 'success' : 'no_data',
@@ -556,28 +224,44 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const anthropicApiKey = Deno.env.get("ANTHROPIC_API_KEY");
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 
-    if (!anthropicApiKey) {
-      throw new Error("ANTHROPIC_API_KEY not configured");
-    }
-
     if (!supabaseUrl || !supabaseServiceKey) {
       throw new Error("Supabase configuration missing");
     }
 
-    const { pdf_base64, gazette_type, issue_number, issue_date }: AnalysisRequest = await req.json();
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const user = await requireRole(req, supabase, "analyst", corsHeaders);
+    if (user instanceof Response) return user;
 
-    if (!pdf_base64 || !gazette_type) {
+    const llm = await loadLLMClient(supabase, "analyze-gazette-with-claude");
+    // An exhausted budget degrades to the rule-based parser rather than failing the upload
+    const budgetStatus = llm.budget?.status();
+    const llmModel = budgetStatus?.exhausted ? null : llm.resolve("gazette_extraction", { documents: true });
+
+    const request: AnalysisRequest = await req.json();
+    const { gazette_type, issue_number, issue_date, uploaded_by } = request;
+
+    if ((!request.pdf_object_id && !request.pdf_base64) || !gazette_type) {
       return new Response(
-        JSON.stringify({ error: "Missing required fields: pdf_base64 and gazette_type" }),
+        JSON.stringify({ error: "Missing required fields: pdf_object_id or pdf_base64, and gazette_type" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    console.log(`Analyzing ${gazette_type} gazette PDF with Claude...`);
+    let pdfObjectId = request.pdf_object_id;
+    let pdf_base64: string;
+    if (pdfObjectId) {
+      pdf_base64 = bytesToBase64(await loadPdf(supabase, pdfObjectId));
+    } else {
+      pdf_base64 = request.pdf_base64!;
+      const stored = await storePdf(supabase, base64ToBytes(pdf_base64), { filename: request.filename });
+      pdfObjectId = stored.object.id;
+    }
+
+    console.log(`Analyzing ${gazette_type} gazette PDF${llmModel ? ` with ${llmModel.model}` : ""}...`);
 
     const estimatedPdfTokens = Math.ceil((pdf_base64.length / 1.33) / 2.5);
     const promptTokens = estimateTokens(GAZETTE_PROMPT);
@@ -587,14 +271,30 @@ Deno.serve(async (req: Request) => {
     
     let gazetteResponse: GazetteResponse;
     let tokensUsed: any;
-    let processingMode: 'single-pass' | 'batch' = 'single-pass';
+    let processingMode: 'single-pass' | 'batch' | 'rule-based' = 'single-pass';
+    let pdfText: string | null = null;
+    let ruleNotices: ParsedNotice[] = [];
     
-    if (totalEstimatedInputTokens > 180000) {
+    if (!llmModel) {
+      console.log(`⚠️  ${budgetStatus?.exhausted ? budgetStatus.reason : "No LLM provider configured"} - using RULE-BASED parser`);
+      processingMode = 'rule-based';
+
+      pdfText = await extractPdfText(pdf_base64);
+      ruleNotices = parseGazetteNotices(extractCommercialSection(pdfText));
+      gazetteResponse = buildRuleBasedResponse(pdfText, ruleNotices, gazette_type);
+      tokensUsed = {
+        input_tokens: 0,
+        output_tokens: 0,
+        total_tokens: 0,
+      };
+
+      console.log(`✅ Rule-based parsing complete: ${ruleNotices.length} notices`);
+    } else if (totalEstimatedInputTokens > 180000) {
       console.log("⚠️  Estimated tokens exceed 180k - switching to BATCH PROCESSING mode");
       processingMode = 'batch';
       
       try {
-        const pdfText = await extractPdfText(pdf_base64);
+        pdfText = await extractPdfText(pdf_base64);
         const analysis = analyzeCommercialSection(pdfText, 180000);
         
         if (analysis.subsections.length === 0) {
@@ -603,16 +303,12 @@ Deno.serve(async (req: Request) => {
         
         const { mergedResponse, totalTokens } = await processSectionBatches(
           analysis.subsections,
-          anthropicApiKey,
+          llm,
           gazette_type
         );
         
         gazetteResponse = mergedResponse;
-        tokensUsed = {
-          input_tokens: 0,
-          output_tokens: 0,
-          total_tokens: totalTokens,
-        };
+        tokensUsed = { ...llm.usage.summary(), total_tokens: totalTokens };
         
         console.log(`✅ Batch processing complete: ${gazetteResponse.liquidations.length} notices from ${analysis.subsections.length} subsections`);
       } catch (batchError) {
@@ -625,69 +321,28 @@ Deno.serve(async (req: Request) => {
       
       const maxTokens = calculateMaxTokens(totalEstimatedInputTokens);
       
-      const response = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "x-api-key": anthropicApiKey,
-          "anthropic-version": "2023-06-01",
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "claude-sonnet-4-20250514",
-          max_tokens: maxTokens,
-          messages: [
-            {
-              role: "user",
-              content: [
-                {
-                  type: "document",
-                  source: {
-                    type: "base64",
-                    media_type: "application/pdf",
-                    data: pdf_base64,
-                  },
-                },
-                {
-                  type: "text",
-                  text: GAZETTE_PROMPT,
-                },
-              ],
-            },
-          ],
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        console.error("Claude API error:", error);
-        
-        if (error.includes('context') || error.includes('token')) {
+      let response: LLMResponse;
+      try {
+        response = await analyzeWithClaude("", GAZETTE_PROMPT, llm, maxTokens, true, pdf_base64);
+      } catch (llmError) {
+        console.error("Claude API error:", llmError);
+
+        if (llmError instanceof LLMError && (llmError.message.includes('context') || llmError.message.includes('token'))) {
           throw new Error("The PDF is too large for single-pass processing. Please try again - the system will use batch processing mode.");
         }
-        
-        throw new Error(`Claude API error: ${response.status} - ${error}`);
-      }
 
-      const result = await response.json();
-
-      if (!result.content || !result.content[0] || !result.content[0].text) {
-        console.error("Invalid Claude API response structure:", JSON.stringify(result));
-        throw new Error("Invalid response from Claude API");
+        throw llmError;
       }
 
-      const analysisText = result.content[0].text;
-      tokensUsed = {
-        input_tokens: result.usage?.input_tokens || 0,
-        output_tokens: result.usage?.output_tokens || 0,
-        total_tokens: (result.usage?.input_tokens || 0) + (result.usage?.output_tokens || 0),
-      };
+      const analysisText = response.text;
+      tokensUsed = llm.usage.summary();
 
       console.log(`Analysis complete. Tokens used: ${tokensUsed.total_tokens.toLocaleString()} (input: ${tokensUsed.input_tokens.toLocaleString()}, output: ${tokensUsed.output_tokens.toLocaleString()})`);
       console.log(`Response length: ${analysisText.length} characters`);
       console.log("Raw Claude response (first 500 chars):", analysisText.substring(0, 500));
       console.log("Raw Claude response (last 200 chars):", analysisText.substring(Math.max(0, analysisText.length - 200)));
 
-      if (result.stop_reason === 'max_tokens') {
+      if (response.stopReason === 'max_tokens') {
         console.warn("WARNING: Response was truncated due to max_tokens limit!");
         throw new Error("The gazette contains too many liquidation notices. Response was truncated. The system will use batch processing on retry.");
       }
@@ -751,7 +406,38 @@ Deno.serve(async (req: Request) => {
       }
     }
 
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    // Cross-check the LLM output against the rule-based parser, field by field
+    let crossCheck: CrossCheckResult | null = null;
+    if (processingMode !== 'rule-based') {
+      try {
+        pdfText ??= await extractPdfText(pdf_base64);
+        ruleNotices = parseGazetteNotices(extractCommercialSection(pdfText));
+        crossCheck = crossCheckNotices(notices, ruleNotices);
+
+        const matched = crossCheck.checks.filter((check) => check.matchedBy !== null).length;
+        const conflicting = crossCheck.checks.filter((check) => check.confidence === 'low').length;
+        console.log(`Rule-based cross-check: ${ruleNotices.length} parsed, ${matched}/${notices.length} matched, ${conflicting} with conflicting fields, ${crossCheck.missedByLlm.length} found only by the parser`);
+      } catch (crossCheckError) {
+        console.warn("Rule-based cross-check skipped:", crossCheckError);
+      }
+    }
+
+    const crossCheckSummary = crossCheck
+      ? {
+          rule_notices: ruleNotices.length,
+          matched: crossCheck.checks.filter((check) => check.matchedBy !== null).length,
+          disagreements: crossCheck.checks
+            .filter((check) => check.disagreements.length > 0)
+            .map((check) => ({ entity: check.entityName, fields: check.disagreements })),
+          missed_by_llm: crossCheck.missedByLlm.map((parsed) => parsed.notice.entityName),
+        }
+      : null;
+
+    const noticeConfidence = (index: number): string => {
+      if (processingMode === 'rule-based') return confidenceLevel(ruleNotices[index].confidence);
+      if (crossCheck) return crossCheck.checks[index].confidence;
+      return "high";
+    };
 
     // Helper to convert "Unknown" strings to null for database
     const cleanValue = (val: any) => (val === "Unknown" || val === "" || val === undefined) ? null : val;
@@ -769,15 +455,18 @@ Deno.serve(async (req: Request) => {
       notices_count: notices.length,
       summary_stats: summaryStats,
       extraction_metadata: {
-        claude_model: "claude-sonnet-4-20250514",
+        claude_model: processingMode === 'rule-based' ? null : llmModel?.model ?? null,
         gazette_type: gazetteResponse.gazette?.type || gazette_type,
         status: gazetteResponse.status,
         processing_mode: processingMode,
+        llm_budget_exhausted: budgetStatus?.exhausted ?? false,
         estimated_input_tokens: totalEstimatedInputTokens,
         summary_stats: summaryStats,
+        rule_cross_check: crossCheckSummary,
       },
       llm_tokens_used: tokensUsed,
-      uploaded_by: "user",
+      uploaded_by: actorName(user, uploaded_by || "system"),
+      pdf_object_id: pdfObjectId,
     };
 
     console.log("Attempting to insert gazette record...");
@@ -804,7 +493,7 @@ Deno.serve(async (req: Request) => {
     console.log("✅ Successfully saved gazette record with ID:", gazetteRecord.id);
 
     if (notices.length > 0) {
-      const noticeRecords = notices.map((notice) => ({
+      const noticeRecords = notices.map((notice, index) => ({
         analyzed_gazette_id: gazetteRecord.id,
         company_name: notice.entityName,
         entity_type: notice.entityType,
@@ -821,12 +510,13 @@ Deno.serve(async (req: Request) => {
         liquidator_name: notice.liquidators?.length > 0 ? notice.liquidators[0] : null,
         liquidator_contact: notice.contactEmails?.length > 0 ? notice.contactEmails.join(", ") : null,
         raw_notice_text: notice.notes,
-        extraction_confidence: "high",
+        extraction_confidence: noticeConfidence(index),
       }));
 
-      const { error: noticesError } = await supabase
+      const { data: savedNotices, error: noticesError } = await supabase
         .from("gazette_liquidation_notices")
-        .insert(noticeRecords);
+        .insert(noticeRecords)
+        .select("id, company_name, registration_no, liquidation_type, liquidators, contact_emails, court_cause_no, liquidation_date, final_meeting_date, extraction_confidence");
 
       if (noticesError) {
         console.error("Error saving notices to database:");
@@ -838,17 +528,42 @@ Deno.serve(async (req: Request) => {
       }
 
       console.log(`✅ Successfully saved ${notices.length} liquidation notices`);
+
+      try {
+        await enqueueWebhookEvents(
+          supabase,
+          "gazette.notice_extracted",
+          (savedNotices || []).map((notice) => ({
+            notice_id: notice.id,
+            gazette_id: gazetteRecord.id,
+            company_name: notice.company_name,
+            registration_no: notice.registration_no,
+            liquidation_type: notice.liquidation_type,
+            liquidators: notice.liquidators || [],
+            contact_emails: notice.contact_emails || [],
+            court_cause_no: notice.court_cause_no,
+            liquidation_date: notice.liquidation_date,
+            final_meeting_date: notice.final_meeting_date,
+            extraction_confidence: notice.extraction_confidence,
+          }))
+        );
+      } catch (webhookError) {
+        console.error("Failed to queue notice webhooks:", webhookError);
+      }
     }
 
     return new Response(
       JSON.stringify({
         success: true,
         gazette_id: gazetteRecord.id,
+        pdf_object_id: pdfObjectId,
         notices_count: notices.length,
         summary: summaryStats,
         gazette_metadata: gazetteResponse.gazette,
         notices: notices,
         tokens_used: tokensUsed,
+        processing_mode: processingMode,
+        cross_check: crossCheckSummary,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
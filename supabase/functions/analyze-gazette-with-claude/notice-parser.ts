@@ -0,0 +1,655 @@
+/**
+ * Rule-Based Gazette Notice Parser
+ *
+ * Deterministic parser for the COMMERCIAL subsections of a gazette. It emits the
+ * same LiquidationNotice shape as the Claude prompt, plus a confidence score for
+ * every field, so it can:
+ * 1. Stand in for the LLM when no API key is configured
+ * 2. Cross-check LLM output field by field
+ */
+
+import {
+  normalizeCompanyName,
+  normalizeRegistrationNo,
+} from "../shared/entity-resolution.ts";
+import { formatCauseNumber, parseCauseNumber } from "../shared/court-matters.ts";
+import { dateNear, findDates } from "../shared/text-dates.ts";
+
+export interface LiquidationNotice {
+  entityName: string;
+  entityType: string;
+  registrationNo: string | null;
+  liquidationType: string;
+  liquidators: string[];
+  contactEmails: string[];
+  courtCauseNo: string | null;
+  liquidationDate: string | null;
+  finalMeetingDate: string | null;
+  notes: string;
+}
+
+export type NoticeField = keyof LiquidationNotice;
+
+/**
+ * Confidence (0-1) that the parser extracted each field correctly.
+ * A null field with high confidence means "confidently absent".
+ */
+export type NoticeFieldConfidence = Record<NoticeField, number>;
+
+export type CommercialSubsection =
+  | "liquidation"
+  | "final_meeting"
+  | "partnership"
+  | "bankruptcy"
+  | "receivership"
+  | "dividend"
+  | "grand_court"
+  | "unknown";
+
+export interface ParsedNotice {
+  notice: LiquidationNotice;
+  confidence: NoticeFieldConfidence;
+  subsection: CommercialSubsection;
+  rawText: string;
+}
+
+export interface GazetteMetadata {
+  type: string;
+  issueNumber: string | null;
+  publicationDate: string | null;
+}
+
+export type ConfidenceLevel = "high" | "medium" | "low";
+
+export type FieldCheckStatus = "agree" | "disagree" | "llm_only" | "rule_only" | "empty";
+
+export interface NoticeCrossCheck {
+  entityName: string;
+  matchedBy: "registration_no" | "name" | null;
+  fields: Partial<Record<NoticeField, FieldCheckStatus>>;
+  disagreements: NoticeField[];
+  confidence: ConfidenceLevel;
+}
+
+export interface CrossCheckResult {
+  checks: NoticeCrossCheck[];
+  missedByLlm: ParsedNotice[];
+}
+
+/**
+ * Subsection headings as printed in the gazette body. Unlike the splitter these
+ * are matched anywhere in the text, not only at the start of a line.
+ */
+const SUBSECTION_HEADINGS: Array<{ subsection: CommercialSubsection; pattern: RegExp }> = [
+  {
+    subsection: "liquidation",
+    pattern: /Liquidation Notices,?\s+Notices of Winding Up(?:,?\s+Appointment of Voluntary Liquidators)?(?:\s+and\s+Notices to Creditors)?/g,
+  },
+  { subsection: "final_meeting", pattern: /Notices? of Final Meeting(?:s)?(?: of Shareholders)?/g },
+  { subsection: "partnership", pattern: /(?:Limited )?Partnership Notices/g },
+  { subsection: "bankruptcy", pattern: /Bankruptcy Notices/g },
+  { subsection: "receivership", pattern: /Receivership Notices/g },
+  { subsection: "dividend", pattern: /Dividend Notices?/g },
+  { subsection: "grand_court", pattern: /Grand Court Notices/g },
+];
+
+const SUBSECTION_LABELS: Record<CommercialSubsection, string> = {
+  liquidation: "Liquidation Notices",
+  final_meeting: "Notices of Final Meeting of Shareholders",
+  partnership: "Partnership Notices",
+  bankruptcy: "Bankruptcy Notices",
+  receivership: "Receivership Notices",
+  dividend: "Dividend Notices",
+  grand_court: "Grand Court Notices",
+  unknown: "COMMERCIAL section",
+};
+
+/**
+ * Status qualifier that follows the entity name in almost every notice,
+ * e.g. "ALDER CREEK FUND LTD (In Voluntary Liquidation)"
+ */
+const STATUS_QUALIFIER = /\(\s*in\s+(voluntary\s+|official\s+|provisional\s+)?(liquidation|wind(?:ing)?[\s-]*(?:down|up)|receivership|bankruptcy)\s*\)/gi;
+
+/**
+ * Run of upper-case words ending right before a status qualifier
+ */
+const UPPERCASE_NAME_BEFORE = /([A-Z][A-Z0-9&.,'’/-]*(?:\s+[A-Z0-9&(][A-Z0-9&.,'’()/-]*)*)\s*$/;
+
+/**
+ * Title-case fallback for notices that do not print the name in capitals
+ */
+const TITLECASE_NAME_BEFORE = /([A-Z][\w&.,'’-]*(?:\s+(?:[A-Z0-9&(][\w&.,'’()-]*|of|and|the))*\s+(?:Limited|Ltd\.?|Inc\.?|L\.?P\.?|SPC|Fund|Corporation|Company))\s*$/;
+
+const BANKRUPTCY_ANCHOR = /\b(?:in the matter of the bankruptcy of|bankruptcy order (?:was )?(?:made )?against)\s+([A-Z][A-Za-z.'’-]+(?:\s+[A-Z][A-Za-z.'’-]+){1,4})/gi;
+
+/**
+ * Role words that mark the end of the previous notice's signature block
+ */
+const SIGNATURE_ROLE_WORDS = /^.*\b(?:LIQUIDATORS?|RECEIVERS?|TRUSTEES?|GENERAL PARTNER|NOTICE|DATED)\b\s*/;
+
+const COMPANY_SUFFIX = /\b(?:LIMITED|LTD\.?|INC\.?|INCORPORATED|CORP\.?|CORPORATION|SPC|LLC|COMPANY|L\.?P\.?|PARTNERSHIP|FUND|TRUST)\s*$/i;
+
+const PARTNERSHIP_SUFFIX = /\b(?:L\.?P\.?|LIMITED PARTNERSHIP|PARTNERSHIP)\s*$/i;
+
+const PERSON_NAME = "(?:[A-Z][A-Za-z'’-]+|[A-Z]\\.)(?:\\s+(?:[A-Z][A-Za-z'’-]+|[A-Z]\\.)){1,3}";
+
+const APPOINTED_PATTERN = new RegExp(
+  `(${PERSON_NAME}(?:\\s*(?:,|\\band\\b|&)\\s*${PERSON_NAME})*)\\s+(?:of\\s+[^;]{2,120}?\\s+)?(?:has|have|was|were)\\s+(?:been\\s+)?appointed`
+);
+
+const ROLE_LABEL_PATTERN = new RegExp(
+  `\\b(?:Joint\\s+)?(?:Voluntary\\s+|Official\\s+)?(?:Liquidator|Receiver|Trustee)s?\\s*:\\s*(${PERSON_NAME}(?:\\s*(?:,|\\band\\b|&)\\s*${PERSON_NAME})*)`
+);
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+const REGISTRATION_PATTERN = /Registration\s+No\.?\s*:?\s*((?:[A-Z]{2}\s*-?\s*)?\d{3,7})\b/i;
+
+function isContentsEntry(text: string, end: number): boolean {
+  return /^\s*(?:\.{3,}|Pg\.|None\b|\d+\s*[-–]\s*\d+\b)/i.test(text.slice(end, end + 40));
+}
+
+/**
+ * Split the COMMERCIAL section into subsections using the headings printed in the body
+ */
+export function segmentCommercialSection(
+  text: string
+): Array<{ subsection: CommercialSubsection; content: string }> {
+  const headings: Array<{ subsection: CommercialSubsection; start: number; end: number }> = [];
+
+  for (const { subsection, pattern } of SUBSECTION_HEADINGS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (isContentsEntry(text, end)) continue;
+      headings.push({ subsection, start, end });
+    }
+  }
+
+  headings.sort((a, b) => a.start - b.start);
+
+  if (headings.length === 0) {
+    return [{ subsection: "unknown", content: text }];
+  }
+
+  const segments: Array<{ subsection: CommercialSubsection; content: string }> = [];
+  const preamble = text.slice(0, headings[0].start);
+  if (new RegExp(STATUS_QUALIFIER.source, "i").test(preamble)) {
+    segments.push({ subsection: "unknown", content: preamble });
+  }
+
+  headings.forEach((heading, idx) => {
+    const next = headings[idx + 1];
+    segments.push({
+      subsection: heading.subsection,
+      content: text.slice(heading.end, next ? next.start : text.length),
+    });
+  });
+
+  return segments;
+}
+
+interface NoticeAnchor {
+  blockStart: number;
+  name: string;
+  nameConfidence: number;
+  qualifier: string | null;
+}
+
+/**
+ * Trim a run of capitals down to the entity name: drop the previous notice's
+ * signature block and any "IN THE MATTER OF" court title wrapped around it
+ */
+function cleanEntityName(run: string): string {
+  let name = run.trim();
+
+  const matterParts = name.split(/\bIN THE MATTER OF\b/);
+  if (matterParts.length > 1) {
+    name = matterParts[matterParts.length - 1].trim();
+  }
+
+  name = name.replace(SIGNATURE_ROLE_WORDS, "").trim();
+  name = name.replace(/^(?:AND|THE COMPANIES ACT[^A-Z]*|COMMERCIAL)\s+/, "").trim();
+  return name.replace(/[,;:]+$/, "").trim();
+}
+
+function findAnchors(text: string): NoticeAnchor[] {
+  const anchors: NoticeAnchor[] = [];
+
+  for (const match of text.matchAll(STATUS_QUALIFIER)) {
+    const qualifierStart = match.index ?? 0;
+    const before = text.slice(Math.max(0, qualifierStart - 400), qualifierStart);
+    const offset = qualifierStart - before.length;
+
+    const upper = before.match(UPPERCASE_NAME_BEFORE);
+    if (upper && upper.index !== undefined) {
+      const name = cleanEntityName(upper[1]);
+      if (name.length >= 3) {
+        anchors.push({
+          blockStart: offset + upper.index,
+          name,
+          nameConfidence: COMPANY_SUFFIX.test(name) ? 0.9 : 0.7,
+          qualifier: match[0],
+        });
+        continue;
+      }
+    }
+
+    const titled = before.match(TITLECASE_NAME_BEFORE);
+    if (titled && titled.index !== undefined) {
+      anchors.push({
+        blockStart: offset + titled.index,
+        name: titled[1].trim(),
+        nameConfidence: 0.6,
+        qualifier: match[0],
+      });
+    }
+  }
+
+  for (const match of text.matchAll(BANKRUPTCY_ANCHOR)) {
+    const start = match.index ?? 0;
+    if (anchors.some((a) => Math.abs(a.blockStart - start) < 200)) continue;
+    anchors.push({
+      blockStart: start,
+      name: match[1].trim(),
+      nameConfidence: 0.7,
+      qualifier: "(In Bankruptcy)",
+    });
+  }
+
+  return anchors.sort((a, b) => a.blockStart - b.blockStart);
+}
+
+function splitNames(value: string): string[] {
+  return value
+    .split(/\s*(?:,|\band\b|&)\s*/)
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+}
+
+function extractLiquidators(text: string): { value: string[]; confidence: number } {
+  const appointed = text.match(APPOINTED_PATTERN);
+  if (appointed) {
+    return { value: splitNames(appointed[1]), confidence: 0.85 };
+  }
+
+  const labelled = text.match(ROLE_LABEL_PATTERN);
+  if (labelled) {
+    return { value: splitNames(labelled[1]), confidence: 0.75 };
+  }
+
+  return { value: [], confidence: 0.2 };
+}
+
+function extractCauseNo(text: string): string | null {
+  const cause = parseCauseNumber(text);
+  return cause ? formatCauseNumber(cause) : null;
+}
+
+function extractRegistrationNo(text: string): string | null {
+  const match = text.match(REGISTRATION_PATTERN);
+  if (!match) return null;
+  return normalizeRegistrationNo(match[1]) ?? match[1].replace(/\s+/g, "");
+}
+
+function classifyLiquidationType(
+  subsection: CommercialSubsection,
+  qualifier: string | null,
+  text: string
+): { value: string; confidence: number } {
+  const q = (qualifier || "").toLowerCase();
+
+  if (q.includes("receivership") || subsection === "receivership") {
+    return { value: "Receivership", confidence: 0.9 };
+  }
+  if (q.includes("bankruptcy") || subsection === "bankruptcy") {
+    return { value: "Bankruptcy", confidence: 0.9 };
+  }
+  if (subsection === "dividend") {
+    return { value: "Dividend Distribution", confidence: 0.9 };
+  }
+  if (subsection === "final_meeting") {
+    return { value: "Unknown", confidence: 0.6 };
+  }
+  if (subsection === "grand_court" || q.includes("official") || q.includes("provisional")) {
+    return { value: "Court-Ordered", confidence: 0.9 };
+  }
+  if (q.includes("voluntary")) {
+    return { value: "Voluntary", confidence: 0.9 };
+  }
+  if (/\bofficial liquidators?\b|\bwinding[- ]up order\b|\bCause No\b|\bFSD\s*\d/i.test(text)) {
+    return { value: "Court-Ordered", confidence: 0.7 };
+  }
+  if (/\bvoluntary (?:liquidat|winding up|wind down)/i.test(text) || subsection === "partnership") {
+    return { value: "Voluntary", confidence: 0.7 };
+  }
+
+  return { value: "Unknown", confidence: 0.3 };
+}
+
+function classifyEntityType(
+  subsection: CommercialSubsection,
+  name: string
+): { value: string; confidence: number } {
+  if (subsection === "partnership" || PARTNERSHIP_SUFFIX.test(name)) {
+    return { value: "Partnership", confidence: 0.9 };
+  }
+  if (COMPANY_SUFFIX.test(name)) {
+    return { value: "Company", confidence: 0.9 };
+  }
+  if (subsection === "bankruptcy") {
+    return { value: "Individual", confidence: 0.7 };
+  }
+  return { value: "Company", confidence: 0.6 };
+}
+
+function extractLiquidationDate(
+  liquidationType: string,
+  text: string
+): { value: string | null; confidence: number } {
+  if (liquidationType === "Dividend Distribution" || liquidationType === "Unknown") {
+    return { value: null, confidence: 0.8 };
+  }
+
+  const keywords: Record<string, RegExp> = {
+    Voluntary: /put into (?:voluntary )?liquidation|went into (?:voluntary )?liquidation|liquidation commenced|commencement of (?:the )?(?:voluntary )?(?:liquidation|winding up)|resolution (?:was )?passed/i,
+    "Court-Ordered": /order (?:of the Grand Court )?(?:was made )?(?:dated|made on|on)|ordered to be wound up|winding[- ]up order/i,
+    Receivership: /appointed (?:as )?receivers?|was appointed|were appointed/i,
+    Bankruptcy: /bankruptcy order|adjudged bankrupt|declared bankrupt/i,
+  };
+
+  const keyword = keywords[liquidationType];
+  const anchored = keyword ? dateNear(text, keyword) : null;
+  if (anchored) {
+    return { value: anchored, confidence: 0.85 };
+  }
+
+  // Skip signature dates and claim deadlines
+  const fallback = findDates(text).find(
+    (d) => !/(?:Dated\s+this|on or before|\bby|\bbefore)\s*$/i.test(text.slice(Math.max(0, d.index - 20), d.index))
+  );
+  return fallback ? { value: fallback.iso, confidence: 0.4 } : { value: null, confidence: 0.3 };
+}
+
+function extractFinalMeetingDate(text: string): { value: string | null; confidence: number } {
+  const anchored = dateNear(text, /final (?:general )?meeting|will be held|to be held/i, 160, 0);
+  return anchored ? { value: anchored, confidence: 0.85 } : { value: null, confidence: 0.3 };
+}
+
+function buildNotes(subsection: CommercialSubsection, text: string): string {
+  const parts = [`Rule-based extraction from ${SUBSECTION_LABELS[subsection]}`];
+
+  const claimsBy = dateNear(text, /creditors[^.]{0,160}?(?:on or before|by)/i, 20, 0);
+  if (claimsBy) parts.push(`creditor claims due ${claimsBy}`);
+
+  const meetingTime = text.match(/\bat\s+(\d{1,2}[:.]\d{2}\s*(?:a\.?m\.?|p\.?m\.?))/i);
+  if (subsection === "final_meeting" && meetingTime) parts.push(`meeting at ${meetingTime[1]}`);
+
+  return parts.join("; ");
+}
+
+function isRelevant(subsection: CommercialSubsection, text: string): boolean {
+  switch (subsection) {
+    case "grand_court":
+      return /liquidat|winding up|wound up/i.test(text);
+    case "partnership":
+      return /liquidat|wind(?:ing)?[\s-]*(?:up|down)|dissolution/i.test(text);
+    case "dividend":
+      return /liquidat/i.test(text);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Parse one subsection's text into notices
+ */
+export function parseSubsection(subsection: CommercialSubsection, text: string): ParsedNotice[] {
+  const anchors = findAnchors(text);
+  const notices: ParsedNotice[] = [];
+
+  anchors.forEach((anchor, idx) => {
+    const next = anchors[idx + 1];
+    const rawText = text.slice(anchor.blockStart, next ? next.blockStart : text.length).trim();
+
+    if (!isRelevant(subsection, rawText)) return;
+
+    const entityType = classifyEntityType(subsection, anchor.name);
+    const liquidationType = classifyLiquidationType(subsection, anchor.qualifier, rawText);
+    const registrationNo = extractRegistrationNo(rawText);
+    const liquidators = extractLiquidators(rawText);
+    const contactEmails = Array.from(
+      new Set((rawText.match(EMAIL_PATTERN) || []).map((email) => email.toLowerCase()))
+    );
+    const courtCauseNo = extractCauseNo(rawText);
+    const liquidationDate = extractLiquidationDate(liquidationType.value, rawText);
+    const finalMeetingDate = subsection === "final_meeting"
+      ? extractFinalMeetingDate(rawText)
+      : { value: null, confidence: 0.8 };
+
+    notices.push({
+      notice: {
+        entityName: anchor.name,
+        entityType: entityType.value,
+        registrationNo,
+        liquidationType: liquidationType.value,
+        liquidators: liquidators.value,
+        contactEmails,
+        courtCauseNo,
+        liquidationDate: liquidationDate.value,
+        finalMeetingDate: finalMeetingDate.value,
+        notes: buildNotes(subsection, rawText),
+      },
+      confidence: {
+        entityName: anchor.nameConfidence,
+        entityType: entityType.confidence,
+        registrationNo: registrationNo ? 0.95 : 0.7,
+        liquidationType: liquidationType.confidence,
+        liquidators: liquidators.confidence,
+        contactEmails: contactEmails.length > 0 ? 0.95 : 0.8,
+        courtCauseNo: courtCauseNo ? 0.95 : 0.7,
+        liquidationDate: liquidationDate.confidence,
+        finalMeetingDate: finalMeetingDate.confidence,
+        notes: 0.5,
+      },
+      subsection,
+      rawText,
+    });
+  });
+
+  return notices;
+}
+
+function sameEntity(a: LiquidationNotice, b: LiquidationNotice): "registration_no" | "name" | null {
+  const regA = normalizeRegistrationNo(a.registrationNo) ?? a.registrationNo;
+  const regB = normalizeRegistrationNo(b.registrationNo) ?? b.registrationNo;
+  if (regA && regB) {
+    return regA === regB ? "registration_no" : null;
+  }
+  const nameA = normalizeCompanyName(a.entityName);
+  return nameA && nameA === normalizeCompanyName(b.entityName) ? "name" : null;
+}
+
+/**
+ * Fold final meeting notices into the matching liquidation notice (same gazette).
+ * Unmatched final meetings stay as their own entry, as the prompt's Step 4 requires.
+ */
+function crossReferenceFinalMeetings(parsed: ParsedNotice[]): ParsedNotice[] {
+  const meetings = parsed.filter((p) => p.subsection === "final_meeting");
+  const others = parsed.filter((p) => p.subsection !== "final_meeting");
+
+  for (const meeting of meetings) {
+    const target = others.find((p) => sameEntity(p.notice, meeting.notice) !== null);
+
+    if (target) {
+      target.notice.finalMeetingDate = meeting.notice.finalMeetingDate;
+      target.confidence.finalMeetingDate = meeting.confidence.finalMeetingDate;
+      target.notice.notes = `${target.notice.notes}; final meeting ${meeting.notice.finalMeetingDate ?? "date not stated"}`;
+      continue;
+    }
+
+    meeting.notice.notes = `Final meeting notice only; liquidation commenced in prior gazette. ${meeting.notice.notes}`;
+    others.push(meeting);
+  }
+
+  return others;
+}
+
+/**
+ * Parse every notice in the COMMERCIAL section text
+ */
+export function parseGazetteNotices(commercialText: string): ParsedNotice[] {
+  const parsed: ParsedNotice[] = [];
+
+  for (const segment of segmentCommercialSection(commercialText)) {
+    parsed.push(...parseSubsection(segment.subsection, segment.content));
+  }
+
+  return crossReferenceFinalMeetings(parsed);
+}
+
+/**
+ * Read the issue number and publication date from the gazette masthead
+ */
+export function parseGazetteMetadata(pdfText: string, fallbackType: string): GazetteMetadata {
+  const head = pdfText.slice(0, 600);
+  const extraordinary = /\bEXTRAORDINARY\b|\bExtraordinary\s+No\b|\bEx\s*\d+\/\d{4}\b/.test(head);
+  const issue = head.match(/\b(?:Extraordinary\s+No\.?|Issue\s+No\.?)\s*((?:Ex\s*)?\d+\/\d{4})/i);
+  const dates = findDates(head);
+
+  return {
+    type: extraordinary ? "Extraordinary Gazette" : fallbackType === "extraordinary" ? "Extraordinary Gazette" : "Gazette",
+    issueNumber: issue ? `${extraordinary && !/^Ex/i.test(issue[1]) ? "Ex" : ""}${issue[1].replace(/\s+/g, "")}` : null,
+    publicationDate: dates[0]?.iso ?? null,
+  };
+}
+
+const KEY_FIELDS: NoticeField[] = ["entityName", "liquidationType", "liquidators"];
+
+/**
+ * Collapse per-field confidence into the extraction_confidence levels stored on notices
+ */
+export function confidenceLevel(confidence: NoticeFieldConfidence): ConfidenceLevel {
+  const average = KEY_FIELDS.reduce((sum, field) => sum + confidence[field], 0) / KEY_FIELDS.length;
+  if (average >= 0.8) return "high";
+  if (average >= 0.6) return "medium";
+  return "low";
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === "" || value === "Unknown" ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+function fieldsAgree(field: NoticeField, llm: LiquidationNotice, rule: LiquidationNotice): boolean {
+  switch (field) {
+    case "entityName":
+      return normalizeCompanyName(llm.entityName) === normalizeCompanyName(rule.entityName);
+    case "registrationNo":
+      return (normalizeRegistrationNo(llm.registrationNo) ?? llm.registrationNo?.replace(/\D/g, "")) ===
+        (normalizeRegistrationNo(rule.registrationNo) ?? rule.registrationNo?.replace(/\D/g, ""));
+    case "courtCauseNo": {
+      const key = (value: string | null) => parseCauseNumber(value)?.key ?? (value || "").toUpperCase().trim();
+      return key(llm.courtCauseNo) === key(rule.courtCauseNo);
+    }
+    case "liquidators": {
+      const llmNames = llm.liquidators.map((name) => name.toLowerCase());
+      return rule.liquidators.every((name) =>
+        llmNames.some((llmName) => llmName.includes(name.toLowerCase()) || name.toLowerCase().includes(llmName))
+      );
+    }
+    case "contactEmails": {
+      const llmEmails = new Set(llm.contactEmails.map((email) => email.toLowerCase()));
+      return rule.contactEmails.every((email) => llmEmails.has(email));
+    }
+    default:
+      return String(llm[field]) === String(rule[field]);
+  }
+}
+
+const CHECKED_FIELDS: NoticeField[] = [
+  "entityName",
+  "entityType",
+  "registrationNo",
+  "liquidationType",
+  "liquidators",
+  "contactEmails",
+  "courtCauseNo",
+  "liquidationDate",
+  "finalMeetingDate",
+];
+
+/**
+ * Fields where a confident disagreement should pull the notice into review
+ */
+const CRITICAL_FIELDS: NoticeField[] = [
+  "registrationNo",
+  "liquidationType",
+  "courtCauseNo",
+  "liquidationDate",
+  "finalMeetingDate",
+];
+
+/**
+ * Compare LLM-extracted notices with the rule-based parse, field by field
+ */
+export function crossCheckNotices(llmNotices: LiquidationNotice[], parsed: ParsedNotice[]): CrossCheckResult {
+  const used = new Set<ParsedNotice>();
+
+  const checks = llmNotices.map((llm): NoticeCrossCheck => {
+    let matchedBy: NoticeCrossCheck["matchedBy"] = null;
+    let rule: ParsedNotice | undefined;
+    for (const candidate of parsed) {
+      if (used.has(candidate)) continue;
+      matchedBy = sameEntity(llm, candidate.notice);
+      if (matchedBy) {
+        rule = candidate;
+        break;
+      }
+    }
+
+    if (!rule) {
+      return { entityName: llm.entityName, matchedBy: null, fields: {}, disagreements: [], confidence: "medium" };
+    }
+
+    used.add(rule);
+
+    const fields: NoticeCrossCheck["fields"] = {};
+    const disagreements: NoticeField[] = [];
+
+    for (const field of CHECKED_FIELDS) {
+      const llmEmpty = isEmpty(llm[field]);
+      const ruleEmpty = isEmpty(rule.notice[field]);
+
+      if (llmEmpty && ruleEmpty) {
+        fields[field] = "empty";
+      } else if (ruleEmpty) {
+        fields[field] = "llm_only";
+      } else if (llmEmpty) {
+        fields[field] = "rule_only";
+      } else if (fieldsAgree(field, llm, rule.notice)) {
+        fields[field] = "agree";
+      } else {
+        fields[field] = "disagree";
+        disagreements.push(field);
+      }
+    }
+
+    const confidentConflict = disagreements.some(
+      (field) => CRITICAL_FIELDS.includes(field) && rule.confidence[field] >= 0.8
+    );
+
+    return {
+      entityName: llm.entityName,
+      matchedBy,
+      fields,
+      disagreements,
+      confidence: confidentConflict ? "low" : "high",
+    };
+  });
+
+  return {
+    checks,
+    missedByLlm: parsed.filter((p) => !used.has(p)),
+  };
+}
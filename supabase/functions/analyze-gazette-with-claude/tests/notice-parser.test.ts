@@ -0,0 +1,126 @@
+/**
+ * Tests for the rule-based notice parser
+ *
+ * Run with:
+ *   deno test --allow-read supabase/functions/analyze-gazette-with-claude/tests/
+ */
+
+import { assertEquals, assertObjectMatch } from "jsr:@std/assert@1";
+import { extractCommercialSection } from "../pdf-section-splitter.ts";
+import {
+  confidenceLevel,
+  crossCheckNotices,
+  parseGazetteMetadata,
+  parseGazetteNotices,
+  type ParsedNotice,
+} from "../notice-parser.ts";
+
+async function parseFixture(name: string): Promise<{ text: string; parsed: ParsedNotice[] }> {
+  const text = await Deno.readTextFile(new URL(`./fixtures/${name}.txt`, import.meta.url));
+  return { text, parsed: parseGazetteNotices(extractCommercialSection(text)) };
+}
+
+function byName(parsed: ParsedNotice[], name: string): ParsedNotice {
+  const found = parsed.find((p) => p.notice.entityName === name);
+  if (!found) throw new Error(`Notice not parsed: ${name}`);
+  return found;
+}
+
+Deno.test("parses every subsection of a regular gazette", async () => {
+  const { text, parsed } = await parseFixture("section-start-pages");
+
+  assertEquals(parsed.map((p) => p.notice.entityName).sort(), [
+    "ALDER CREEK FUND LTD",
+    "BLUE HERON HOLDINGS LIMITED",
+    "CORAL REEF SPC",
+    "DRIFTWOOD CAPITAL LTD",
+    "EGRET OPPORTUNITIES FUND LTD",
+    "FLAMINGO GROWTH PARTNERS LP",
+    "GROUPER MARINE LTD",
+  ]);
+
+  assertObjectMatch(byName(parsed, "ALDER CREEK FUND LTD").notice, {
+    entityType: "Company",
+    registrationNo: "345678",
+    liquidationType: "Voluntary",
+    liquidators: ["Jane Smith"],
+    contactEmails: ["jane.smith@example.ky"],
+    liquidationDate: "2025-10-01",
+  });
+
+  assertObjectMatch(byName(parsed, "CORAL REEF SPC").notice, {
+    liquidationType: "Court-Ordered",
+    liquidators: ["Peter Jones", "Maria Lopez"],
+    courtCauseNo: "FSD 123 of 2025 (NSJ)",
+    liquidationDate: "2025-09-30",
+  });
+
+  assertObjectMatch(byName(parsed, "FLAMINGO GROWTH PARTNERS LP").notice, {
+    entityType: "Partnership",
+    liquidationType: "Voluntary",
+  });
+
+  assertObjectMatch(byName(parsed, "GROUPER MARINE LTD").notice, {
+    liquidationType: "Dividend Distribution",
+    liquidationDate: null,
+  });
+
+  assertObjectMatch(byName(parsed, "DRIFTWOOD CAPITAL LTD").notice, {
+    liquidationType: "Unknown",
+    finalMeetingDate: "2025-11-20",
+  });
+
+  assertEquals(parseGazetteMetadata(text, "regular"), {
+    type: "Gazette",
+    issueNumber: "21/2025",
+    publicationDate: "2025-10-13",
+  });
+});
+
+Deno.test("finds headings that are not at the start of a line", async () => {
+  const { parsed } = await parseFixture("running-page-headers");
+
+  assertEquals(byName(parsed, "LANTANA HOTEL HOLDINGS LTD").notice.liquidationType, "Receivership");
+  assertEquals(byName(parsed, "KESTREL MACRO FUND LTD").notice.finalMeetingDate, "2025-12-01");
+  assertEquals(byName(parsed, "IBIS STRATEGIC FUND LTD").notice.registrationNo, "IC-401122");
+});
+
+Deno.test("folds a final meeting into the liquidation notice for the same company", () => {
+  const parsed = parseGazetteNotices(
+    "Liquidation Notices, Notices of Winding Up, Appointment of Voluntary Liquidators and Notices to Creditors " +
+      "SEAGRAPE LTD (In Voluntary Liquidation) Registration No: CR-100200 TAKE NOTICE that the above-named company " +
+      "was put into liquidation on 2 October 2025. Ann Lee has been appointed voluntary liquidator. " +
+      "Notices of Final Meeting of Shareholders SEAGRAPE LIMITED (In Voluntary Liquidation) TAKE NOTICE that the " +
+      "final general meeting will be held on 30 October 2025. Liquidator: Ann Lee."
+  );
+
+  assertEquals(parsed.length, 1);
+  assertObjectMatch(parsed[0].notice, {
+    entityName: "SEAGRAPE LTD",
+    liquidationDate: "2025-10-02",
+    finalMeetingDate: "2025-10-30",
+  });
+  assertEquals(confidenceLevel(parsed[0].confidence), "high");
+});
+
+Deno.test("cross-check flags conflicting fields and notices the LLM missed", async () => {
+  const { parsed } = await parseFixture("section-start-pages");
+  const alder = byName(parsed, "ALDER CREEK FUND LTD").notice;
+
+  const result = crossCheckNotices(
+    [
+      { ...alder, entityName: "Alder Creek Fund Limited", registrationNo: null, liquidationDate: "2025-10-02" },
+      { ...byName(parsed, "CORAL REEF SPC").notice, courtCauseNo: "FSD 123 of 2025" },
+    ],
+    parsed
+  );
+
+  assertEquals(result.checks[0].matchedBy, "name");
+  assertEquals(result.checks[0].disagreements, ["liquidationDate"]);
+  assertEquals(result.checks[0].confidence, "low");
+
+  assertEquals(result.checks[1].disagreements, []);
+  assertEquals(result.checks[1].confidence, "high");
+
+  assertEquals(result.missedByLlm.length, parsed.length - 2);
+});
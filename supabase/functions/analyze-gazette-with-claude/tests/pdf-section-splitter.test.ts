@@ -0,0 +1,75 @@
+/**
+ * Regression tests for pdf-section-splitter
+ *
+ * Run with:
+ *   deno test --allow-read supabase/functions/analyze-gazette-with-claude/tests/
+ *
+ * Each fixture's knownIssues records the deviations we currently accept. A
+ * heuristic change that loses a notice fails the test; so does one that fixes
+ * a known issue, so the fixture can be tightened in the same change.
+ */
+
+import { assert, assertEquals } from "jsr:@std/assert@1";
+import { createSubsectionBatches, type SectionInfo } from "../pdf-section-splitter.ts";
+import { evaluateFixture, formatReport, loadFixtures } from "./splitter-harness.ts";
+
+const fixtures = await loadFixtures();
+
+function sorted(values: string[] | undefined): string[] {
+  return [...(values ?? [])].sort();
+}
+
+for (const fixture of fixtures) {
+  Deno.test(`splitter fixture: ${fixture.name}`, () => {
+    const report = evaluateFixture(fixture);
+    const known = fixture.expected.knownIssues ?? {};
+    const summary = formatReport(report);
+
+    assert(report.commercialStartOk, `COMMERCIAL section starts in the wrong place\n${summary}`);
+    assertEquals(report.headingMismatches, [], summary);
+    assert(report.batchesCoverAllSubsections, `Batches drop or reorder subsections\n${summary}`);
+
+    assertEquals(sorted(report.missedSubsections), sorted(known.missedSubsections), summary);
+    assertEquals(sorted(report.unexpectedSubsections), sorted(known.unexpectedSubsections), summary);
+    assertEquals(sorted(report.missedNotices), sorted(known.missedNotices), summary);
+    assertEquals(sorted(report.misplacedNotices), sorted(known.misplacedNotices), summary);
+    assertEquals(sorted(report.overCaptured), sorted(known.overCaptured), summary);
+  });
+
+  Deno.test(`splitter fixture: ${fixture.name} (small batches)`, () => {
+    const report = evaluateFixture(fixture, 200);
+    assert(report.batchesCoverAllSubsections, formatReport(report));
+  });
+}
+
+function section(name: string, estimatedTokens: number): SectionInfo {
+  return { sectionName: name, startIndex: 0, endIndex: 0, content: "", estimatedTokens };
+}
+
+Deno.test("createSubsectionBatches groups subsections up to the limit", () => {
+  const batches = createSubsectionBatches(
+    [section("a", 400), section("b", 500), section("c", 300), section("d", 200)],
+    1000
+  );
+
+  assertEquals(
+    batches.map((batch) => batch.map((s) => s.sectionName)),
+    [["a", "b"], ["c", "d"]]
+  );
+});
+
+Deno.test("createSubsectionBatches gives an oversized subsection its own batch", () => {
+  const batches = createSubsectionBatches(
+    [section("a", 300), section("huge", 5000), section("b", 300)],
+    1000
+  );
+
+  assertEquals(
+    batches.map((batch) => batch.map((s) => s.sectionName)),
+    [["a"], ["huge"], ["b"]]
+  );
+});
+
+Deno.test("createSubsectionBatches returns no batches for no subsections", () => {
+  assertEquals(createSubsectionBatches([], 1000), []);
+});
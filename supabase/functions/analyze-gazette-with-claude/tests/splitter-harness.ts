@@ -0,0 +1,248 @@
+/**
+ * Fixture harness for pdf-section-splitter
+ *
+ * Runs the section splitter offline against stored gazette texts and compares
+ * the result with the expected section boundaries and notices for each fixture.
+ *
+ * Fixture format (tests/fixtures):
+ * - <name>.txt  - gazette text in the same shape extractPdfText() produces
+ *                 ("--- PAGE n ---" markers, page items joined with spaces)
+ * - <name>.json - expectations (see GazetteFixtureExpectation)
+ *
+ * Run as a report:
+ *   deno run --allow-read supabase/functions/analyze-gazette-with-claude/tests/splitter-harness.ts [fixtures-dir]
+ */
+
+import {
+  createSubsectionBatches,
+  extractCommercialSection,
+  identifySubsections,
+  type SectionInfo,
+} from "../pdf-section-splitter.ts";
+
+export interface ExpectedSubsection {
+  /** Subsection name as reported by identifySubsections() */
+  name: string;
+  /** Text the detected subsection content must start with */
+  heading: string;
+  /** A distinctive string (usually the entity name) for every notice in the subsection */
+  notices: string[];
+}
+
+export interface KnownIssues {
+  missedSubsections?: string[];
+  unexpectedSubsections?: string[];
+  missedNotices?: string[];
+  misplacedNotices?: string[];
+  overCaptured?: string[];
+}
+
+export interface GazetteFixtureExpectation {
+  description: string;
+  commercial: {
+    /** Text the extracted COMMERCIAL section must start with */
+    startsWith: string;
+  };
+  subsections: ExpectedSubsection[];
+  /** Text from non-target sections that must not end up in any subsection */
+  excluded: string[];
+  /** Current, accepted deviations. The test fails if the report differs in either direction. */
+  knownIssues?: KnownIssues;
+}
+
+export interface GazetteFixture {
+  name: string;
+  text: string;
+  expected: GazetteFixtureExpectation;
+}
+
+export interface NoticePlacement {
+  notice: string;
+  expectedSection: string;
+  foundIn: string[];
+}
+
+export interface SplitterReport {
+  fixture: string;
+  commercialStartOk: boolean;
+  commercialLength: number;
+  detectedSubsections: string[];
+  missedSubsections: string[];
+  unexpectedSubsections: string[];
+  headingMismatches: string[];
+  expectedNotices: number;
+  capturedNotices: number;
+  missedNotices: string[];
+  misplacedNotices: string[];
+  overCaptured: string[];
+  batchCount: number;
+  batchesCoverAllSubsections: boolean;
+  placements: NoticePlacement[];
+}
+
+const DEFAULT_FIXTURES_DIR = new URL("./fixtures/", import.meta.url);
+
+/**
+ * Load every <name>.json / <name>.txt pair from the fixtures directory
+ */
+export async function loadFixtures(dir: URL = DEFAULT_FIXTURES_DIR): Promise<GazetteFixture[]> {
+  const fixtures: GazetteFixture[] = [];
+
+  for await (const entry of Deno.readDir(dir)) {
+    if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+
+    const name = entry.name.replace(/\.json$/, "");
+    const expected = JSON.parse(
+      await Deno.readTextFile(new URL(entry.name, dir))
+    ) as GazetteFixtureExpectation;
+    const text = await Deno.readTextFile(new URL(`${name}.txt`, dir));
+
+    fixtures.push({ name, text, expected });
+  }
+
+  return fixtures.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * The splitter logs every step; keep the harness output readable
+ */
+function quietly<T>(fn: () => T): T {
+  const { log, warn } = console;
+  console.log = () => {};
+  console.warn = () => {};
+  try {
+    return fn();
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+}
+
+/**
+ * Run the splitter over a fixture and compare against its expectations
+ */
+export function evaluateFixture(fixture: GazetteFixture, maxTokensPerBatch = 180000): SplitterReport {
+  const { expected } = fixture;
+
+  const { commercial, subsections, batches } = quietly(() => {
+    const commercial = extractCommercialSection(fixture.text);
+    const subsections = identifySubsections(commercial);
+    const batches = createSubsectionBatches(subsections, maxTokensPerBatch);
+    return { commercial, subsections, batches };
+  });
+
+  const detectedByName = new Map<string, SectionInfo>();
+  for (const section of subsections) {
+    detectedByName.set(section.sectionName, section);
+  }
+
+  const expectedNames = new Set(expected.subsections.map((s) => s.name));
+  const missedSubsections = expected.subsections
+    .filter((s) => !detectedByName.has(s.name))
+    .map((s) => s.name);
+  const unexpectedSubsections = subsections
+    .map((s) => s.sectionName)
+    .filter((name) => !expectedNames.has(name));
+
+  const headingMismatches: string[] = [];
+  for (const section of expected.subsections) {
+    const detected = detectedByName.get(section.name);
+    if (detected && !detected.content.startsWith(section.heading)) {
+      headingMismatches.push(section.name);
+    }
+  }
+
+  const placements: NoticePlacement[] = [];
+  const missedNotices: string[] = [];
+  const misplacedNotices: string[] = [];
+
+  for (const section of expected.subsections) {
+    for (const notice of section.notices) {
+      const foundIn = subsections
+        .filter((s) => s.content.includes(notice))
+        .map((s) => s.sectionName);
+
+      placements.push({ notice, expectedSection: section.name, foundIn });
+
+      if (foundIn.length === 0) {
+        missedNotices.push(notice);
+      } else if (!foundIn.includes(section.name)) {
+        misplacedNotices.push(notice);
+      }
+    }
+  }
+
+  const overCaptured = expected.excluded.filter((text) =>
+    subsections.some((s) => s.content.includes(text))
+  );
+
+  const batched = batches.flat();
+  const batchesCoverAllSubsections =
+    batched.length === subsections.length &&
+    subsections.every((section, idx) => batched[idx] === section);
+
+  const expectedNotices = placements.length;
+
+  return {
+    fixture: fixture.name,
+    commercialStartOk: commercial.startsWith(expected.commercial.startsWith),
+    commercialLength: commercial.length,
+    detectedSubsections: subsections.map((s) => s.sectionName),
+    missedSubsections,
+    unexpectedSubsections,
+    headingMismatches,
+    expectedNotices,
+    capturedNotices: expectedNotices - missedNotices.length,
+    missedNotices,
+    misplacedNotices,
+    overCaptured,
+    batchCount: batches.length,
+    batchesCoverAllSubsections,
+    placements,
+  };
+}
+
+/**
+ * Human-readable summary of a report
+ */
+export function formatReport(report: SplitterReport): string {
+  const lines = [
+    `Fixture: ${report.fixture}`,
+    `  COMMERCIAL start: ${report.commercialStartOk ? "ok" : "WRONG"} (${report.commercialLength.toLocaleString()} chars)`,
+    `  Subsections detected: ${report.detectedSubsections.length}`,
+    `  Notices captured: ${report.capturedNotices}/${report.expectedNotices}`,
+    `  Batches: ${report.batchCount}${report.batchesCoverAllSubsections ? "" : " (DO NOT COVER ALL SUBSECTIONS)"}`,
+  ];
+
+  const lists: Array<[string, string[]]> = [
+    ["Missed subsections", report.missedSubsections],
+    ["Unexpected subsections", report.unexpectedSubsections],
+    ["Heading mismatches", report.headingMismatches],
+    ["Missed notices", report.missedNotices],
+    ["Misplaced notices", report.misplacedNotices],
+    ["Over-captured text", report.overCaptured],
+  ];
+
+  for (const [label, items] of lists) {
+    if (items.length === 0) continue;
+    lines.push(`  ${label}:`);
+    for (const item of items) {
+      lines.push(`    - ${item}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+if (import.meta.main) {
+  const dirArg = Deno.args[0];
+  const dir = dirArg
+    ? new URL(dirArg.endsWith("/") ? dirArg : `${dirArg}/`, `file://${Deno.cwd()}/`)
+    : DEFAULT_FIXTURES_DIR;
+
+  const fixtures = await loadFixtures(dir);
+  for (const fixture of fixtures) {
+    console.log(formatReport(evaluateFixture(fixture)));
+    console.log("");
+  }
+}
@@ -1,4 +1,14 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { LLMBudgetExceededError, loadLLMClient } from "../shared/llm/index.ts";
+import {
+  CASE_ANALYSIS_JSON_INSTRUCTIONS,
+  caseAnalysisQuality,
+  completeCaseAnalysis,
+  renderCaseAnalysisMarkdown,
+} from "../shared/case-analysis.ts";
+import { base64ToBytes, bytesToBase64, loadPdf, storePdf } from "../shared/pdf-storage.ts";
+import { requireRole } from "../shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -39,45 +49,18 @@ After validation, if you found errors in your initial extraction, CORRECT them b
 
 # FINAL OUTPUT FORMAT (THIS IS WHAT THE USER SEES)
 
-Present the following information in a CONCISE, DASHBOARD-READY format. Keep all sections brief and scannable.
-
-## Company Overview
-• **[Full Legal Name including all non-English characters]**
-• Registration No. [number] | Incorporated: [DD Month YYYY]
-• Former names: [Complete chronological list with exact date transitions - e.g., "Name A (23 Oct 2017 to 20 Nov 2017) → Name B (21 Nov 2017 to 17 Dec 2017) → Name C (18 Dec 2017 to present)"]
-• Registered Office: [provider name], [location]
-• Principal Business: [1-2 line description]
-• Stock Listing: [exchange name, board type, stock code, listing date] OR [State "Not listed" if not applicable]
-
-## Legal Details
-• Court: [Full official court name]
-• Cause No.: [number] | Filed: [DD Month YYYY]
-• Filing Law Firm: [firm name and full address]
-• Law Firm Reference: [reference number if provided]
-• Petition Type: [Be specific - e.g., "Capital Reduction under Companies Act (2025 Revision) sections 14-16" OR "Compulsory Winding-Up" OR "Voluntary Winding-Up"]
-
-## Key Timeline
-| Date | Event |
-|------|-------|
-| [DD Mon YYYY] | [Event description] |
-
-[List chronologically - minimum 5 key dates including incorporation, capital changes, meetings, resolutions, filing, hearing if scheduled]
-
-## Financial Summary
-• Current authorised capital: [amount and currency] ([structure description])
-• Current issued capital: [amount and currency] ([number of shares])
-• Proposed changes: [Brief description OR "Not applicable - this is a winding-up petition"]
-• Final structure: [Post-change structure OR "Not applicable"]
-• Purpose: [Why company is taking this action - offset losses / comply with listing rules / financial restructuring / company is insolvent / etc.]
-• Solvency status: [Quote directly: "Balance sheet solvent and able to pay debts as they fall due" OR "Insolvent" OR "Not mentioned"]
-
-## Insolvency Practitioners
-• [If appointed: List full names and firm names]
-• [If not applicable: "None appointed - this is a [capital reduction/restructuring/other] petition, not a winding-up proceeding"]
-
-## Creditor Information (if applicable)
-• [List major creditors mentioned, amounts owed]
-• [If not applicable: "Not mentioned - not a winding-up petition"]
+${CASE_ANALYSIS_JSON_INSTRUCTIONS}
+
+Field guidance:
+- company_overview.name: full legal name; put any non-English name (e.g. Chinese characters) in name_chinese
+- company_overview.former_names: complete chronological list, with changed_on set to the date the name stopped being used
+- company_overview.stock_listing: exchange name, board type, stock code and listing date, or "Not listed"
+- legal_details.filing_law_firm: firm name and address; put the law firm reference in legal_details.notes
+- legal_details.petition_type: be specific, e.g. "Capital Reduction", "Compulsory Winding-Up", "Voluntary Winding-Up"; put the statutes cited in statutory_basis
+- timeline: chronological, minimum 5 key dates including incorporation, capital changes, meetings, resolutions, filing, hearing if scheduled
+- capital_structure: include currency and share counts; put the post-change structure in notes; quote the solvency statement directly
+- practitioners: appointed is false for capital reduction/restructuring petitions, with a note such as "None appointed - this is a capital reduction petition"
+- Creditor information (major creditors and amounts owed), if any, goes in capital_structure.notes
 
 ---
 
@@ -95,11 +78,9 @@ Present the following information in a CONCISE, DASHBOARD-READY format. Keep all
 # HANDLING MISSING INFORMATION
 
 If required information is not in the document:
-- State "Not mentioned in document" for that field
-- For insolvency practitioners in non-winding-up cases: State "None appointed - this is a [type] petition"
-- For stock listings when not applicable: State "Not listed"
-- For law firm references when not provided: State "Not provided"
-- Never leave fields blank without explanation
+- Use null for that field (never invent a value)
+- For insolvency practitioners in non-winding-up cases: set appointed to false and explain in practitioners.note
+- For stock listings when not applicable: "Not listed"
 
 # DOCUMENT ADAPTABILITY
 
@@ -126,17 +107,18 @@ Adapt output based on petition type:
 
 # OUTPUT REQUIREMENTS
 
-- Maximum 500 words total
-- Use bullet points for lists
-- Use tables ONLY for timeline
-- Bold company name and key monetary amounts
-- Keep descriptions to 1-2 lines maximum
-- Professional, scannable format suitable for dashboard popup display
+- Output the JSON object only, with no markdown fences or commentary
+- Keep each string to 1-2 lines maximum
+- Professional, scannable wording suitable for dashboard popup display
 
-Now process the attached PDF document and provide the final validated dashboard report.`;
+Now process the attached PDF document and provide the final validated JSON analysis.`;
 
 interface AnalysisRequest {
-  pdf_base64: string;
+  /** A PDF already in storage (see pdf-storage)... */
+  pdf_object_id?: string;
+  /** ...or the PDF itself, which is stored before analysis */
+  pdf_base64?: string;
+  filename?: string;
 }
 
 Deno.serve(async (req: Request) => {
@@ -148,82 +130,70 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const anthropicApiKey = Deno.env.get("ANTHROPIC_API_KEY");
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const user = await requireRole(req, supabase, "analyst", corsHeaders);
+    if (user instanceof Response) return user;
 
-    if (!anthropicApiKey) {
+    const llm = await loadLLMClient(supabase, "analyze-pdf-with-claude");
+
+    if (!llm.isAvailable("pdf_summary", { documents: true })) {
       throw new Error("ANTHROPIC_API_KEY not configured");
     }
 
-    const { pdf_base64 }: AnalysisRequest = await req.json();
+    const request: AnalysisRequest = await req.json();
 
-    if (!pdf_base64) {
+    if (!request.pdf_object_id && !request.pdf_base64) {
       return new Response(
-        JSON.stringify({ error: "Missing required field: pdf_base64" }),
+        JSON.stringify({ error: "Missing required field: pdf_object_id or pdf_base64" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
+    let pdfObjectId = request.pdf_object_id;
+    let pdf_base64: string;
+    if (pdfObjectId) {
+      pdf_base64 = bytesToBase64(await loadPdf(supabase, pdfObjectId));
+    } else {
+      pdf_base64 = request.pdf_base64!;
+      const stored = await storePdf(supabase, base64ToBytes(pdf_base64), { filename: request.filename });
+      pdfObjectId = stored.object.id;
+    }
+
     console.log("Analyzing PDF with Claude...");
 
-    const response = await fetch("https://api.anthropic.com/v1/messages", {
-      method: "POST",
-      headers: {
-        "x-api-key": anthropicApiKey,
-        "anthropic-version": "2023-06-01",
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "claude-sonnet-4-5-20250929",
-        max_tokens: 4000,
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "document",
-                source: {
-                  type: "base64",
-                  media_type: "application/pdf",
-                  data: pdf_base64,
-                },
-              },
-              {
-                type: "text",
-                text: DASHBOARD_PROMPT,
-              },
-            ],
-          },
-        ],
-      }),
+    const analysis = await completeCaseAnalysis(llm, {
+      task: "pdf_summary",
+      maxTokens: 4000,
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "document", mediaType: "application/pdf", data: pdf_base64 },
+            { type: "text", text: DASHBOARD_PROMPT },
+          ],
+        },
+      ],
     });
 
-    if (!response.ok) {
-      const error = await response.text();
-      console.error("Claude API error:", error);
-      throw new Error(`Claude API error: ${response.status} - ${error}`);
-    }
-
-    const result = await response.json();
-    const dashboardSummary = result.content[0].text;
-    const tokensUsed = {
-      input_tokens: result.usage?.input_tokens || 0,
-      output_tokens: result.usage?.output_tokens || 0,
-      total_tokens: (result.usage?.input_tokens || 0) + (result.usage?.output_tokens || 0),
-    };
+    const dashboardSummary = renderCaseAnalysisMarkdown(analysis);
+    const tokensUsed = llm.usage.summary();
 
     console.log(`Analysis complete. Tokens used: ${tokensUsed.total_tokens}`);
 
-    let causeNumber = "Unknown";
-    const causeMatch = dashboardSummary.match(/Cause\s+No\.?:\s*([^\||\n]+)/i);
-    if (causeMatch) {
-      causeNumber = causeMatch[1].trim();
-    }
+    const causeNumber = analysis.legal_details.cause_number || "Unknown";
 
     return new Response(
       JSON.stringify({
         success: true,
+        analysis,
         dashboard_summary: dashboardSummary,
         cause_number: causeNumber,
+        pdf_object_id: pdfObjectId,
+        quality_score: caseAnalysisQuality(analysis).score,
         tokens_used: tokensUsed,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -231,13 +201,16 @@ Deno.serve(async (req: Request) => {
   } catch (error) {
     console.error("PDF analysis error:", error);
 
+    const budgetExhausted = error instanceof LLMBudgetExceededError;
+
     return new Response(
       JSON.stringify({
         success: false,
         error: error.message,
+        budget_exhausted: budgetExhausted,
       }),
       {
-        status: 500,
+        status: budgetExhausted ? 429 : 500,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       }
     );
@@ -0,0 +1,421 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { readCaseAnalysis } from '../shared/case-analysis.ts';
+import {
+  type CauseNumber,
+  type CourtMatterEvent,
+  type CourtMatterEventType,
+  courtEventFromTimelineEntry,
+  courtEventsFromText,
+  formatCauseNumber,
+  parseCauseNumber,
+  summarizeCourtMatter,
+} from '../shared/court-matters.ts';
+import { extractCompanyNamesFromTitle } from '../shared/entity-resolution.ts';
+import { formatError } from '../shared/monitor-utils.ts';
+import { findDates } from '../shared/text-dates.ts';
+import { requireRole } from '../shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+type MatterSourceType = 'registry_row' | 'case' | 'gazette_notice';
+
+interface RegistryRow {
+  id: string;
+  cause_number: string;
+  filing_date: string | null;
+  title: string | null;
+  subject: string | null;
+  created_at: string;
+}
+
+interface CaseRow {
+  id: string;
+  parsed_json: Record<string, unknown> | null;
+  created_at: string;
+  registry_rows: { cause_number: string; title: string | null; filing_date: string | null } | null;
+}
+
+interface NoticeRow {
+  id: string;
+  company_name: string;
+  liquidation_type: string;
+  liquidators: unknown;
+  court_cause_no: string | null;
+  liquidation_date: string | null;
+  appointment_date: string | null;
+  raw_notice_text: string | null;
+  notes: string | null;
+  created_at: string;
+  analyzed_gazette_pdfs: { issue_number: string | null; issue_date: string | null } | null;
+}
+
+interface EventRow {
+  event_type: CourtMatterEventType;
+  event_date: string | null;
+  source_type: MatterSourceType;
+  source_id: string;
+  description: string | null;
+  raw_cause_number: string;
+}
+
+interface MatterDraft {
+  cause: CauseNumber;
+  // Registry title first, then case analysis, then gazette notice
+  companyNames: Array<{ name: string; priority: number }>;
+  liquidators: Set<string>;
+  sources: Set<string>;
+  events: EventRow[];
+}
+
+const PAGE_SIZE = 1000;
+const WRITE_CHUNK = 500;
+
+const EVENT_LABELS: Record<CourtMatterEventType, string> = {
+  petition_filed: 'Petition filed',
+  hearing: 'Hearing',
+  winding_up_order: 'Winding-up order',
+  liquidator_appointed: 'Liquidators appointed',
+  dissolved: 'Dissolved',
+  dismissed: 'Petition dismissed',
+};
+
+/**
+ * Liquidator entries have been stored both as plain strings and as { name, firm } objects
+ */
+function liquidatorNames(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((entry) => {
+      if (typeof entry === 'string') return entry.trim();
+      const { name } = (entry || {}) as { name?: unknown };
+      return typeof name === 'string' ? name.trim() : '';
+    })
+    .filter(Boolean);
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+    if (user instanceof Response) return user;
+
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const dryRun = body.dry_run === true;
+    const today = new Date().toISOString().slice(0, 10);
+
+    const matters = new Map<string, MatterDraft>();
+    const unparsed: Array<{ source_type: MatterSourceType; source_id: string; cause_number: string }> = [];
+    const stats = { registry_rows: 0, cases: 0, gazette_notices: 0 };
+
+    function matterFor(cause: CauseNumber): MatterDraft {
+      let matter = matters.get(cause.key);
+      if (!matter) {
+        matter = { cause, companyNames: [], liquidators: new Set(), sources: new Set(), events: [] };
+        matters.set(cause.key, matter);
+      }
+      // Judge initials are not always printed; keep the first source that has them
+      if (!matter.cause.judge && cause.judge) matter.cause = { ...matter.cause, judge: cause.judge };
+      return matter;
+    }
+
+    function addEvents(
+      matter: MatterDraft,
+      events: CourtMatterEvent[],
+      source: { type: MatterSourceType; id: string; rawCause: string; describe: (event: CourtMatterEvent) => string | null }
+    ) {
+      matter.sources.add(`${source.type}:${source.id}`);
+      for (const event of events) {
+        const duplicate = matter.events.some(
+          (existing) =>
+            existing.event_type === event.type &&
+            existing.event_date === event.date &&
+            existing.source_type === source.type &&
+            existing.source_id === source.id
+        );
+        if (duplicate) continue;
+
+        matter.events.push({
+          event_type: event.type,
+          event_date: event.date,
+          source_type: source.type,
+          source_id: source.id,
+          description: source.describe(event),
+          raw_cause_number: source.rawCause,
+        });
+      }
+    }
+
+    // 1. Registry rows: each is a petition filed under its cause number
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: page, error } = await supabase
+        .from('registry_rows')
+        .select('id, cause_number, filing_date, title, subject, created_at')
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw new Error(`Failed to load registry rows: ${error.message}`);
+
+      for (const row of (page || []) as RegistryRow[]) {
+        const cause = parseCauseNumber(row.cause_number);
+        if (!cause) {
+          unparsed.push({ source_type: 'registry_row', source_id: row.id, cause_number: row.cause_number });
+          continue;
+        }
+
+        const matter = matterFor(cause);
+        const companyName = extractCompanyNamesFromTitle(row.title)[0] ?? row.title;
+        if (companyName) matter.companyNames.push({ name: companyName, priority: 0 });
+
+        const events = courtEventsFromText([row.title, row.subject].filter(Boolean).join('\n'), row.filing_date);
+        if (!events.some((event) => event.type === 'petition_filed')) {
+          events.push({ type: 'petition_filed', date: row.filing_date });
+        }
+
+        addEvents(matter, events, {
+          type: 'registry_row',
+          id: row.id,
+          rawCause: row.cause_number,
+          describe: (event) => (event.type === 'petition_filed' && row.subject ? row.subject : EVENT_LABELS[event.type]),
+        });
+        stats.registry_rows++;
+      }
+
+      if (!page || page.length < PAGE_SIZE) break;
+    }
+
+    // 2. Case analyses: cause number, filing date and the dated timeline of the petition
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: page, error } = await supabase
+        .from('cases')
+        .select('id, parsed_json, created_at, registry_rows(cause_number, title, filing_date)')
+        .not('parsed_json', 'is', null)
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw new Error(`Failed to load cases: ${error.message}`);
+
+      for (const caseRow of (page || []) as CaseRow[]) {
+        const analysis = readCaseAnalysis(caseRow.parsed_json);
+        const rawCause = analysis?.legal_details.cause_number || caseRow.registry_rows?.cause_number;
+        const cause = parseCauseNumber(rawCause) ?? parseCauseNumber(caseRow.registry_rows?.cause_number);
+        if (!analysis || !rawCause || !cause) continue;
+
+        const matter = matterFor(cause);
+        if (analysis.company_overview.name) matter.companyNames.push({ name: analysis.company_overview.name, priority: 1 });
+        for (const appointment of analysis.practitioners.appointments) matter.liquidators.add(appointment.name);
+
+        const events = analysis.timeline
+          .map((entry) => {
+            const event = courtEventFromTimelineEntry(entry.date, entry.event);
+            return event ? { event, description: entry.event } : null;
+          })
+          .filter((entry): entry is { event: CourtMatterEvent; description: string } => entry !== null);
+
+        const filedOn = findDates(analysis.legal_details.filing_date || '', true)[0]?.iso;
+        if (filedOn && !events.some(({ event }) => event.type === 'petition_filed')) {
+          events.push({
+            event: { type: 'petition_filed', date: filedOn },
+            description: analysis.legal_details.petition_type || EVENT_LABELS.petition_filed,
+          });
+        }
+
+        for (const { event, description } of events) {
+          addEvents(matter, [event], { type: 'case', id: caseRow.id, rawCause, describe: () => description });
+        }
+        stats.cases++;
+      }
+
+      if (!page || page.length < PAGE_SIZE) break;
+    }
+
+    // 3. Gazette notices: Grand Court notices and liquidation notices citing a cause number
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: page, error } = await supabase
+        .from('gazette_liquidation_notices')
+        .select('id, company_name, liquidation_type, liquidators, court_cause_no, liquidation_date, appointment_date, raw_notice_text, notes, created_at, analyzed_gazette_pdfs(issue_number, issue_date)')
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw new Error(`Failed to load gazette notices: ${error.message}`);
+
+      for (const notice of (page || []) as NoticeRow[]) {
+        const cause = parseCauseNumber(notice.court_cause_no) ?? parseCauseNumber(notice.raw_notice_text);
+        if (!cause) {
+          if (notice.court_cause_no) {
+            unparsed.push({ source_type: 'gazette_notice', source_id: notice.id, cause_number: notice.court_cause_no });
+          }
+          continue;
+        }
+
+        const matter = matterFor(cause);
+        matter.companyNames.push({ name: notice.company_name, priority: 2 });
+        const liquidators = liquidatorNames(notice.liquidators);
+        for (const name of liquidators) matter.liquidators.add(name);
+
+        const gazette = notice.analyzed_gazette_pdfs;
+        const publishedOn = gazette?.issue_date || notice.created_at.slice(0, 10);
+        const events = courtEventsFromText(notice.raw_notice_text || notice.notes, publishedOn);
+
+        // Structured fields fill in what the notice wording did not make explicit
+        if (notice.liquidation_type === 'Court-Ordered' && !events.some((event) => event.type === 'winding_up_order')) {
+          events.push({ type: 'winding_up_order', date: notice.liquidation_date || publishedOn });
+        }
+        if (liquidators.length > 0 && !events.some((event) => event.type === 'liquidator_appointed')) {
+          events.push({ type: 'liquidator_appointed', date: notice.appointment_date || notice.liquidation_date || publishedOn });
+        }
+
+        const gazetteLabel = gazette?.issue_number ? `Gazette ${gazette.issue_number}` : 'Gazette';
+        addEvents(matter, events, {
+          type: 'gazette_notice',
+          id: notice.id,
+          rawCause: notice.court_cause_no || formatCauseNumber(cause),
+          describe: (event) =>
+            event.type === 'liquidator_appointed' && liquidators.length > 0
+              ? `${liquidators.join(', ')} appointed (${gazetteLabel})`
+              : `${EVENT_LABELS[event.type]} (${gazetteLabel})`,
+        });
+        stats.gazette_notices++;
+      }
+
+      if (!page || page.length < PAGE_SIZE) break;
+    }
+
+    // Company links made by resolve-companies for any of the matter's sources
+    const companyBySource = new Map<string, string>();
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: page, error } = await supabase
+        .from('company_source_links')
+        .select('company_id, source_type, source_id')
+        .in('source_type', ['registry_row', 'case', 'gazette_notice'])
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw new Error(`Failed to load company links: ${error.message}`);
+
+      for (const link of page || []) {
+        companyBySource.set(`${link.source_type}:${link.source_id}`, link.company_id);
+      }
+
+      if (!page || page.length < PAGE_SIZE) break;
+    }
+
+    const matterRows = Array.from(matters.values()).map((matter) => {
+      const summary = summarizeCourtMatter(
+        matter.events.map((event) => ({ type: event.event_type, date: event.event_date })),
+        today
+      );
+
+      const companyVotes = new Map<string, number>();
+      for (const source of matter.sources) {
+        const companyId = companyBySource.get(source);
+        if (companyId) companyVotes.set(companyId, (companyVotes.get(companyId) || 0) + 1);
+      }
+      const companyId = Array.from(companyVotes.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+      const companyName = [...matter.companyNames].sort((a, b) => a.priority - b.priority)[0]?.name ?? null;
+
+      return {
+        cause_key: matter.cause.key,
+        division: matter.cause.division,
+        cause_number: matter.cause.number,
+        cause_year: matter.cause.year,
+        judge_initials: matter.cause.judge,
+        display_cause_number: formatCauseNumber(matter.cause),
+        company_name: companyName,
+        company_id: companyId,
+        ...summary,
+        liquidators: Array.from(matter.liquidators).slice(0, 20),
+        source_count: matter.sources.size,
+      };
+    });
+
+    const stageCounts: Record<string, number> = {};
+    for (const row of matterRows) stageCounts[row.stage] = (stageCounts[row.stage] || 0) + 1;
+    const eventCount = Array.from(matters.values()).reduce((sum, matter) => sum + matter.events.length, 0);
+
+    if (dryRun) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          dry_run: true,
+          matters: matterRows.length,
+          events: eventCount,
+          stages: stageCounts,
+          ...stats,
+          unparsed_cause_numbers: unparsed.length,
+          unparsed_samples: unparsed.slice(0, 20),
+          samples: matterRows.slice(0, 5),
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Persist matters, then replace each matter's events with this (full) rebuild's
+    for (let i = 0; i < matterRows.length; i += WRITE_CHUNK) {
+      const chunk = matterRows.slice(i, i + WRITE_CHUNK);
+      const { data: saved, error } = await supabase
+        .from('court_matters')
+        .upsert(chunk, { onConflict: 'cause_key' })
+        .select('id, cause_key');
+
+      if (error) throw new Error(`Failed to save court matters: ${error.message}`);
+
+      const ids = new Map((saved || []).map((row: { id: string; cause_key: string }) => [row.cause_key, row.id]));
+      const { error: deleteError } = await supabase
+        .from('court_matter_events')
+        .delete()
+        .in('matter_id', Array.from(ids.values()));
+      if (deleteError) throw new Error(`Failed to clear court matter events: ${deleteError.message}`);
+
+      const eventRows = chunk.flatMap((row) =>
+        matters.get(row.cause_key)!.events.map((event) => ({ ...event, matter_id: ids.get(row.cause_key) }))
+      );
+      for (let j = 0; j < eventRows.length; j += WRITE_CHUNK) {
+        const { error: insertError } = await supabase
+          .from('court_matter_events')
+          .insert(eventRows.slice(j, j + WRITE_CHUNK));
+        if (insertError) throw new Error(`Failed to save court matter events: ${insertError.message}`);
+      }
+    }
+
+    console.log(`Court matters rebuilt: ${matterRows.length} matters with ${eventCount} events`);
+    if (unparsed.length > 0) {
+      console.warn(`${unparsed.length} cause numbers could not be parsed, e.g. ${unparsed.slice(0, 5).map((u) => u.cause_number).join('; ')}`);
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        matters: matterRows.length,
+        events: eventCount,
+        stages: stageCounts,
+        ...stats,
+        unparsed_cause_numbers: unparsed.length,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Court matters error:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: formatError(error),
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,432 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { readCaseAnalysis } from '../shared/case-analysis.ts';
+import { extractCompanyNamesFromTitle, normalizeCompanyName } from '../shared/entity-resolution.ts';
+import { formatError } from '../shared/monitor-utils.ts';
+import {
+  PractitionerIndex,
+  canonicalFirmName,
+  findKnownFirm,
+  firmKey,
+  parsePractitionerMentions,
+  practitionerKey,
+  splitPersonName,
+  type PractitionerMention,
+  type PractitionerRecord,
+} from '../shared/practitioner-resolution.ts';
+import { requireRole } from '../shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+interface FirmRow {
+  id: string;
+  name: string;
+  normalized_name: string;
+  email_domains: string[];
+}
+
+interface NoticeRow {
+  id: string;
+  company_name: string;
+  liquidation_type: string;
+  liquidators: unknown;
+  contact_emails: unknown;
+  liquidator_name: string | null;
+  liquidator_contact: string | null;
+  appointment_date: string | null;
+  liquidation_date: string | null;
+  final_meeting_date: string | null;
+  created_at: string;
+}
+
+interface CaseRow {
+  id: string;
+  parsed_json: Record<string, unknown> | null;
+  created_at: string;
+  registry_rows: { title: string | null; filing_date: string | null } | null;
+}
+
+interface AppointmentRow {
+  practitioner_id: string;
+  firm_id: string | null;
+  source_type: 'gazette_notice' | 'case';
+  source_id: string;
+  company_name: string;
+  appointment_type: string;
+  appointed_on: string | null;
+  closed_on: string | null;
+  is_active: boolean;
+  matched_name: string;
+}
+
+const PAGE_SIZE = 1000;
+const UPSERT_CHUNK = 500;
+
+const PRACTITIONER_COLUMNS =
+  'id, full_name, surname, first_initial, normalized_key, firm_id, emails, aliases, practitioner_firms(normalized_name)';
+
+const EMAIL_REGEX = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+interface PractitionerRow extends Omit<PractitionerRecord, 'firm_key' | 'emails' | 'aliases'> {
+  emails: string[] | null;
+  aliases: string[] | null;
+  practitioner_firms: { normalized_name: string } | null;
+}
+
+function toRecord(row: PractitionerRow): PractitionerRecord {
+  return {
+    id: row.id,
+    full_name: row.full_name,
+    surname: row.surname,
+    first_initial: row.first_initial,
+    normalized_key: row.normalized_key,
+    firm_id: row.firm_id,
+    firm_key: row.practitioner_firms?.normalized_name ?? null,
+    emails: row.emails || [],
+    aliases: row.aliases || [],
+  };
+}
+
+/**
+ * Liquidator entries have been stored both as plain strings and as { name, firm } objects
+ */
+function liquidatorStrings(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((entry) => {
+      if (typeof entry === 'string') return entry;
+      const { name, firm } = (entry || {}) as { name?: unknown; firm?: unknown };
+      if (typeof name === 'string') {
+        return typeof firm === 'string' && firm ? `${name} of ${firm}` : name;
+      }
+      return '';
+    })
+    .filter(Boolean);
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+/**
+ * Registry cases are court petitions; the analysis only says who was (or will be) appointed
+ */
+function caseAppointmentType(text: string): string {
+  if (/\breceiver/i.test(text)) return 'Receivership';
+  return 'Court-Ordered';
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+    if (user instanceof Response) return user;
+
+    const { data: firmRows, error: firmsError } = await supabase
+      .from('practitioner_firms')
+      .select('id, name, normalized_name, email_domains');
+    if (firmsError) throw new Error(`Failed to load practitioner firms: ${firmsError.message}`);
+
+    const firms = new Map<string, FirmRow>();
+    const firmKeysById = new Map<string, string>();
+    for (const firm of (firmRows || []) as FirmRow[]) {
+      firms.set(firm.normalized_name, firm);
+      firmKeysById.set(firm.id, firm.normalized_name);
+    }
+
+    const { data: practitionerRows, error: practitionersError } = await supabase
+      .from('practitioners')
+      .select(PRACTITIONER_COLUMNS);
+    if (practitionersError) throw new Error(`Failed to load practitioners: ${practitionersError.message}`);
+
+    const index = new PractitionerIndex(((practitionerRows || []) as PractitionerRow[]).map(toRecord));
+    const appointments: AppointmentRow[] = [];
+    const seenCompanies = new Set<string>();
+    const stats = { firms_created: 0, practitioners_created: 0, gazette_appointments: 0, case_appointments: 0 };
+
+    async function ensureFirm(name: string | null, emails: string[]): Promise<FirmRow | null> {
+      const key = firmKey(name);
+      if (!name || !key) return null;
+
+      const domains = emails.map((email) => email.split('@')[1]?.toLowerCase()).filter(Boolean) as string[];
+      let firm = firms.get(key);
+
+      if (!firm) {
+        const { data: created, error } = await supabase
+          .from('practitioner_firms')
+          .insert({ name: canonicalFirmName(name), normalized_name: key, email_domains: Array.from(new Set(domains)) })
+          .select('id, name, normalized_name, email_domains')
+          .single();
+
+        if (error || !created) {
+          console.error(`Failed to create firm "${name}":`, error?.message);
+          return null;
+        }
+        firm = created as FirmRow;
+        firms.set(key, firm);
+        firmKeysById.set(firm.id, key);
+        stats.firms_created++;
+        return firm;
+      }
+
+      const newDomains = domains.filter((domain) => !firm!.email_domains.includes(domain));
+      if (newDomains.length > 0) {
+        firm.email_domains = Array.from(new Set([...firm.email_domains, ...newDomains])).slice(0, 10);
+        await supabase.from('practitioner_firms').update({ email_domains: firm.email_domains }).eq('id', firm.id);
+      }
+      return firm;
+    }
+
+    // Find or create the practitioner for a mention, folding in any new name form, firm or email
+    async function resolvePractitioner(mention: PractitionerMention): Promise<PractitionerRecord | null> {
+      const firm = await ensureFirm(mention.firm, mention.emails);
+      const existing = index.match(mention);
+
+      if (!existing) {
+        const { surname, firstInitial } = splitPersonName(mention.name);
+        const { data: created, error } = await supabase
+          .from('practitioners')
+          .insert({
+            full_name: mention.name,
+            surname,
+            first_initial: firstInitial,
+            normalized_key: practitionerKey(mention.name, firm?.name ?? null),
+            firm_id: firm?.id ?? null,
+            emails: mention.emails,
+            aliases: [],
+          })
+          .select(PRACTITIONER_COLUMNS)
+          .single();
+
+        if (error || !created) {
+          console.error(`Failed to create practitioner "${mention.name}":`, error?.message);
+          return null;
+        }
+        const record = toRecord(created as PractitionerRow);
+        record.firm_key = firm ? firmKeysById.get(firm.id) ?? null : null;
+        index.add(record);
+        stats.practitioners_created++;
+        return record;
+      }
+
+      const updates: Record<string, unknown> = {};
+      const mentionFirst = splitPersonName(mention.name).tokens[0] || '';
+      const currentFirst = splitPersonName(existing.full_name).tokens[0] || '';
+
+      if (mention.name !== existing.full_name) {
+        const aliasName = mentionFirst.replace('.', '').length > currentFirst.replace('.', '').length
+          ? existing.full_name
+          : mention.name;
+        if (aliasName === existing.full_name) {
+          existing.full_name = mention.name;
+          updates.full_name = mention.name;
+        }
+        if (!existing.aliases.some((alias) => alias.toLowerCase() === aliasName.toLowerCase())) {
+          existing.aliases = [...existing.aliases, aliasName].slice(0, 25);
+          updates.aliases = existing.aliases;
+        }
+      }
+
+      if (firm && !existing.firm_id) {
+        existing.firm_id = firm.id;
+        existing.firm_key = firmKeysById.get(firm.id) ?? null;
+        existing.normalized_key = practitionerKey(existing.full_name, firm.name);
+        updates.firm_id = firm.id;
+        updates.normalized_key = existing.normalized_key;
+      }
+
+      const newEmails = mention.emails.filter((email) => !existing.emails.includes(email));
+      if (newEmails.length > 0) {
+        existing.emails = [...existing.emails, ...newEmails].slice(0, 10);
+        updates.emails = existing.emails;
+      }
+
+      if (Object.keys(updates).length > 0) {
+        const { error } = await supabase.from('practitioners').update(updates).eq('id', existing.id);
+        if (error) console.error(`Failed to update practitioner ${existing.id}:`, error.message);
+        index.add(existing);
+      }
+      return existing;
+    }
+
+    // 1. Gazette liquidation notices
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: page, error } = await supabase
+        .from('gazette_liquidation_notices')
+        .select('id, company_name, liquidation_type, liquidators, contact_emails, liquidator_name, liquidator_contact, appointment_date, liquidation_date, final_meeting_date, created_at')
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw new Error(`Failed to load gazette notices: ${error.message}`);
+
+      for (const notice of (page || []) as NoticeRow[]) {
+        // Standalone final meeting notices close an earlier appointment rather than record a new one
+        if (notice.liquidation_type === 'Unknown' && notice.final_meeting_date) continue;
+
+        const entries = liquidatorStrings(notice.liquidators);
+        if (entries.length === 0 && notice.liquidator_name) entries.push(notice.liquidator_name);
+
+        const contactEmails = Array.from(new Set([
+          ...stringArray(notice.contact_emails),
+          ...(notice.liquidator_contact?.match(EMAIL_REGEX) || []),
+        ].map((email) => email.toLowerCase())));
+        const contactFirm = findKnownFirm(notice.liquidator_contact) ?? findKnownFirm(contactEmails.join(' '));
+
+        const mentions = parsePractitionerMentions([...entries, contactEmails.join(' ')].join('\n'));
+        for (const mention of mentions) {
+          mention.firm ??= contactFirm;
+        }
+        // With a single liquidator named, every contact email on the notice is theirs
+        if (mentions.length === 1) {
+          mentions[0].emails = Array.from(new Set([...mentions[0].emails, ...contactEmails]));
+        }
+
+        for (const mention of mentions) {
+          const practitioner = await resolvePractitioner(mention);
+          if (!practitioner) continue;
+
+          seenCompanies.add(`${practitioner.id}|${normalizeCompanyName(notice.company_name)}`);
+          appointments.push({
+            practitioner_id: practitioner.id,
+            firm_id: practitioner.firm_id,
+            source_type: 'gazette_notice',
+            source_id: notice.id,
+            company_name: notice.company_name,
+            appointment_type: notice.liquidation_type || 'Unknown',
+            appointed_on: notice.appointment_date || notice.liquidation_date || notice.created_at.slice(0, 10),
+            closed_on: notice.final_meeting_date,
+            is_active: !notice.final_meeting_date,
+            matched_name: mention.name,
+          });
+          stats.gazette_appointments++;
+        }
+      }
+
+      if (!page || page.length < PAGE_SIZE) break;
+    }
+
+    // 2. Case analyses (practitioners section of parsed_json)
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: page, error } = await supabase
+        .from('cases')
+        .select('id, parsed_json, created_at, registry_rows(title, filing_date)')
+        .not('parsed_json', 'is', null)
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw new Error(`Failed to load cases: ${error.message}`);
+
+      for (const caseRow of (page || []) as CaseRow[]) {
+        const analysis = readCaseAnalysis(caseRow.parsed_json);
+        if (!analysis || analysis.practitioners.appointments.length === 0) continue;
+
+        const title = caseRow.registry_rows?.title ?? null;
+        const companyName = extractCompanyNamesFromTitle(title)[0] ?? title ?? analysis.company_overview.name;
+        if (!companyName) continue;
+
+        const roleText = [
+          ...analysis.practitioners.appointments.map((appointment) => appointment.role),
+          analysis.practitioners.note,
+        ]
+          .filter(Boolean)
+          .join(' ');
+
+        for (const appointment of analysis.practitioners.appointments) {
+          const mention: PractitionerMention = { name: appointment.name, firm: appointment.firm, emails: [] };
+          const practitioner = await resolvePractitioner(mention);
+          if (!practitioner) continue;
+
+          // The gazette notice for the same mandate is the better record
+          const companyKey = `${practitioner.id}|${normalizeCompanyName(companyName)}`;
+          if (seenCompanies.has(companyKey)) continue;
+          seenCompanies.add(companyKey);
+
+          appointments.push({
+            practitioner_id: practitioner.id,
+            firm_id: practitioner.firm_id,
+            source_type: 'case',
+            source_id: caseRow.id,
+            company_name: companyName,
+            appointment_type: caseAppointmentType(roleText),
+            appointed_on: caseRow.registry_rows?.filing_date || caseRow.created_at.slice(0, 10),
+            closed_on: null,
+            is_active: true,
+            matched_name: mention.name,
+          });
+          stats.case_appointments++;
+        }
+      }
+
+      if (!page || page.length < PAGE_SIZE) break;
+    }
+
+    // Persist appointments; closed_on / is_active change once a final meeting is reconciled
+    for (let i = 0; i < appointments.length; i += UPSERT_CHUNK) {
+      const { error } = await supabase
+        .from('practitioner_appointments')
+        .upsert(appointments.slice(i, i + UPSERT_CHUNK), { onConflict: 'practitioner_id,source_type,source_id' });
+
+      if (error) throw new Error(`Failed to save practitioner appointments: ${error.message}`);
+    }
+
+    // Refresh per-practitioner totals from this (full) rebuild
+    const totals = new Map<string, { count: number; active: number; first: string | null; last: string | null }>();
+    for (const appointment of appointments) {
+      const total = totals.get(appointment.practitioner_id) || { count: 0, active: 0, first: null, last: null };
+      total.count++;
+      if (appointment.is_active) total.active++;
+      if (appointment.appointed_on) {
+        if (!total.first || appointment.appointed_on < total.first) total.first = appointment.appointed_on;
+        if (!total.last || appointment.appointed_on > total.last) total.last = appointment.appointed_on;
+      }
+      totals.set(appointment.practitioner_id, total);
+    }
+
+    for (const [practitionerId, total] of totals) {
+      await supabase
+        .from('practitioners')
+        .update({
+          appointment_count: total.count,
+          active_mandate_count: total.active,
+          first_appointed_on: total.first,
+          last_appointed_on: total.last,
+        })
+        .eq('id', practitionerId);
+    }
+
+    console.log(`Practitioner directory rebuilt: ${totals.size} practitioners with ${appointments.length} appointments`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        practitioners_with_appointments: totals.size,
+        appointments: appointments.length,
+        ...stats,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Practitioner directory error:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: formatError(error),
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
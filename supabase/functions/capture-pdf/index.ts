@@ -1,4 +1,7 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { formatError } from '../shared/monitor-utils.ts';
+import { storePdf } from '../shared/pdf-storage.ts';
+import { requireRole } from '../shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -24,6 +27,9 @@ Deno.serve(async (req: Request) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+    if (user instanceof Response) return user;
+
     const { registry_row_id, box_cdn_url }: CaptureRequest = await req.json();
 
     if (!registry_row_id || !box_cdn_url) {
@@ -65,7 +71,9 @@ Deno.serve(async (req: Request) => {
     const pdfBuffer = await pdfResponse.arrayBuffer();
     const pdfBytes = new Uint8Array(pdfBuffer);
 
-    console.log(`PDF captured: ${pdfBytes.length} bytes`);
+    const { object: pdfObject, deduplicated } = await storePdf(supabase, pdfBytes, { sourceUrl: box_cdn_url });
+
+    console.log(`PDF captured: ${pdfBytes.length} bytes${deduplicated ? ' (already stored)' : ''}`);
 
     const { data: existingCase } = await supabase
       .from('cases')
@@ -78,7 +86,8 @@ Deno.serve(async (req: Request) => {
         .from('cases')
         .update({
           pdf_url: box_cdn_url,
-          pdf_bytes: pdfBytes,
+          pdf_object_id: pdfObject.id,
+          pdf_bytes: null,
           status: 'pdf_captured',
           updated_at: new Date().toISOString(),
         })
@@ -99,6 +108,7 @@ Deno.serve(async (req: Request) => {
         JSON.stringify({
           success: true,
           case_id: existingCase.id,
+          pdf_object_id: pdfObject.id,
           pdf_size: pdfBytes.length,
           message: 'PDF captured and case updated',
         }),
@@ -110,7 +120,7 @@ Deno.serve(async (req: Request) => {
         .insert({
           registry_row_id,
           pdf_url: box_cdn_url,
-          pdf_bytes: pdfBytes,
+          pdf_object_id: pdfObject.id,
           status: 'pdf_captured',
           ocr_used: false,
           extraction_confidence: 'pending',
@@ -134,6 +144,7 @@ Deno.serve(async (req: Request) => {
         JSON.stringify({
           success: true,
           case_id: newCase.id,
+          pdf_object_id: pdfObject.id,
           pdf_size: pdfBytes.length,
           message: 'PDF captured and new case created',
         }),
@@ -146,7 +157,7 @@ Deno.serve(async (req: Request) => {
     return new Response(
       JSON.stringify({
         success: false,
-        error: error.message,
+        error: formatError(error),
       }),
       {
         status: 500,
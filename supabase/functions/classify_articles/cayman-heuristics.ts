@@ -2,6 +2,9 @@
  * Cayman Islands heuristics for pre-filtering articles
  */
 
+import type { MonitorSignal } from '../shared/monitor-types.ts';
+import { DEFAULT_SIGNAL_TAXONOMY, type SignalTaxonomy } from '../shared/signal-taxonomy.ts';
+
 // Cayman-specific keywords
 export const CAYMAN_KEYWORDS = [
   'Cayman Islands',
@@ -100,6 +103,17 @@ export function shouldClassify(
   };
 }
 
+/**
+ * Quick signal detection using each active signal's keywords
+ * Used by the eval harness as the no-LLM baseline
+ */
+export function detectSignalsHeuristic(
+  text: string,
+  taxonomy: SignalTaxonomy = DEFAULT_SIGNAL_TAXONOMY
+): MonitorSignal[] {
+  return taxonomy.matchKeywords(text);
+}
+
 /**
  * Simple hash function for deterministic exploration sampling
  */
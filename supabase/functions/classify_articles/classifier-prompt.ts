@@ -2,19 +2,22 @@
  * LLM prompt for classifying articles for Cayman relevance and risk signals
  */
 
-export const SYSTEM_PROMPT = `You are a compliance news triager specializing in Cayman Islands financial entities and offshore structures. Output valid, compact JSON only.
+import { activeSignals, signalFlags, type SignalFlags } from '../shared/monitor-types.ts';
+import { DEFAULT_SIGNAL_TAXONOMY, type SignalTaxonomy } from '../shared/signal-taxonomy.ts';
+
+/**
+ * System prompt listing the taxonomy's active signals
+ */
+export function buildSystemPrompt(taxonomy: SignalTaxonomy = DEFAULT_SIGNAL_TAXONOMY): string {
+  return `You are a compliance news triager specializing in Cayman Islands financial entities and offshore structures. Output valid, compact JSON only.
 
 Your task: Determine if a news article relates to Cayman Islands entities or activities, and identify specific risk signals.
 
 Risk signals to detect:
-1. financial_decline: Financial distress, losses, declining performance, liquidity issues
-2. fraud: Allegations or evidence of fraud, misrepresentation, deception
-3. misstated_financials: Accounting irregularities, restatements, audit issues
-4. shareholder_issues: Shareholder disputes, oppression, conflicts, activism
-5. director_duties: Breaches of director duties, governance failures, conflicts of interest
-6. enforcement: Regulatory investigation, enforcement action, sanctions, penalties
+${taxonomy.active.map((signal, i) => `${i + 1}. ${signal.name}: ${signal.description}`).join('\n')}
 
 Return ONLY valid JSON. No markdown, no code blocks, no explanations.`;
+}
 
 export interface ArticlePayload {
   id: string;
@@ -26,14 +29,7 @@ export interface ArticlePayload {
 
 export interface ClassificationResult {
   is_cayman_related: boolean;
-  signals: {
-    financial_decline: boolean;
-    fraud: boolean;
-    misstated_financials: boolean;
-    shareholder_issues: boolean;
-    director_duties: boolean;
-    enforcement: boolean;
-  };
+  signals: SignalFlags;
   reasons: string[];
   confidence: number; // 0.0 to 1.0
   entities: {
@@ -58,7 +54,12 @@ export function buildUserPrompt(article: ArticlePayload): string {
 /**
  * Build batch prompt for multiple articles
  */
-export function buildBatchPrompt(articles: ArticlePayload[]): string {
+export function buildBatchPrompt(
+  articles: ArticlePayload[],
+  taxonomy: SignalTaxonomy = DEFAULT_SIGNAL_TAXONOMY
+): string {
+  const signalTemplate = taxonomy.active.map((signal) => `      "${signal.name}": bool`).join(',\n');
+
   return `Classify each of these ${articles.length} articles. Return a JSON array with one result per article, in the same order.
 
 Articles:
@@ -74,12 +75,7 @@ Return format:
   {
     "is_cayman_related": true|false,
     "signals": {
-      "financial_decline": bool,
-      "fraud": bool,
-      "misstated_financials": bool,
-      "shareholder_issues": bool,
-      "director_duties": bool,
-      "enforcement": bool
+${signalTemplate}
     },
     "reasons": ["short phrase", "another phrase"],
     "confidence": 0.0-1.0,
@@ -96,7 +92,8 @@ Return format:
  * Parse LLM response and validate
  */
 export function parseClassificationResult(
-  response: string
+  response: string,
+  taxonomy: SignalTaxonomy = DEFAULT_SIGNAL_TAXONOMY
 ): ClassificationResult | ClassificationResult[] {
   try {
     // Remove markdown code blocks if present
@@ -111,27 +108,21 @@ export function parseClassificationResult(
 
     // Validate structure
     if (Array.isArray(parsed)) {
-      return parsed.map(validateSingleResult);
+      return parsed.map((result) => validateSingleResult(result, taxonomy));
     } else {
-      return validateSingleResult(parsed);
+      return validateSingleResult(parsed, taxonomy);
     }
   } catch (error) {
     throw new Error(`Failed to parse classification result: ${error.message}`);
   }
 }
 
-function validateSingleResult(result: any): ClassificationResult {
+function validateSingleResult(result: any, taxonomy: SignalTaxonomy): ClassificationResult {
   // Ensure all required fields exist with defaults
   return {
     is_cayman_related: result.is_cayman_related ?? false,
-    signals: {
-      financial_decline: result.signals?.financial_decline ?? false,
-      fraud: result.signals?.fraud ?? false,
-      misstated_financials: result.signals?.misstated_financials ?? false,
-      shareholder_issues: result.signals?.shareholder_issues ?? false,
-      director_duties: result.signals?.director_duties ?? false,
-      enforcement: result.signals?.enforcement ?? false,
-    },
+    // Aliases the model may still use are folded into the canonical names
+    signals: signalFlags(activeSignals(result.signals, taxonomy), taxonomy),
     reasons: Array.isArray(result.reasons) ? result.reasons : [],
     confidence: typeof result.confidence === 'number' ? result.confidence : 0.5,
     entities: {
@@ -1,14 +1,20 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
-import type { ArticleRow } from '../shared/monitor-types-simplified.ts';
-import { checkCaymanHeuristics, shouldClassify } from './cayman-heuristics.ts';
+import { activeSignals, type ArticleRow } from '../shared/monitor-types.ts';
+import { shouldClassify } from './cayman-heuristics.ts';
 import {
-  SYSTEM_PROMPT,
   buildBatchPrompt,
+  buildSystemPrompt,
   parseClassificationResult,
   prepareArticleText,
   type ArticlePayload,
   type ClassificationResult,
 } from './classifier-prompt.ts';
+import { LLMBudgetExceededError, loadLLMClient, type LLMClient } from '../shared/llm/index.ts';
+import { formatError } from '../shared/monitor-utils.ts';
+import { loadSecret } from '../shared/secrets.ts';
+import { loadSignalTaxonomy, type SignalTaxonomy } from '../shared/signal-taxonomy.ts';
+import { enqueueWebhookEvents, type MonitorArticleFlaggedData } from '../shared/webhook-events.ts';
+import { requireRole } from '../shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -16,8 +22,11 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
+const MONITOR_SETTINGS_ID = '00000000-0000-0000-0000-000000000002';
 const DEFAULT_BATCH_SIZE = 12; // Middle of 8-16 range
 const MAX_BATCH_SIZE = 16;
+// Cayman-related classifications below this confidence go to review_queue
+const REVIEW_CONFIDENCE_THRESHOLD = 0.6;
 
 interface ClassifyRequest {
   limit?: number;
@@ -25,108 +34,26 @@ interface ClassifyRequest {
 }
 
 /**
- * Call OpenAI API for classification
+ * Classify a batch of articles with the configured model
  */
-async function callOpenAI(
+async function classifyBatch(
+  llm: LLMClient,
   articles: ArticlePayload[],
-  apiKey: string
+  taxonomy: SignalTaxonomy
 ): Promise<ClassificationResult[]> {
-  const userPrompt = buildBatchPrompt(articles);
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: userPrompt },
-      ],
-      temperature: 0.3,
-      response_format: { type: 'json_object' },
-    }),
+  const response = await llm.complete({
+    task: 'article_classification',
+    system: buildSystemPrompt(taxonomy),
+    messages: [{ role: 'user', content: buildBatchPrompt(articles, taxonomy) }],
+    temperature: 0.3,
+    maxTokens: 4096,
+    json: true,
   });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} - ${error}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices[0]?.message?.content;
-
-  if (!content) {
-    throw new Error('No content in OpenAI response');
-  }
-
-  const parsed = parseClassificationResult(content);
+  const parsed = parseClassificationResult(response.text, taxonomy);
   const results = Array.isArray(parsed) ? parsed : [parsed];
 
-  // Track token usage
-  const usage = {
-    prompt_tokens: data.usage?.prompt_tokens || 0,
-    completion_tokens: data.usage?.completion_tokens || 0,
-    total_tokens: data.usage?.total_tokens || 0,
-  };
-
-  console.log(`OpenAI usage: ${usage.total_tokens} tokens (${usage.prompt_tokens} prompt + ${usage.completion_tokens} completion)`);
-
-  return results;
-}
-
-/**
- * Call Anthropic API for classification
- */
-async function callAnthropic(
-  articles: ArticlePayload[],
-  apiKey: string
-): Promise<ClassificationResult[]> {
-  const userPrompt = buildBatchPrompt(articles);
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'claude-3-5-sonnet-20241022',
-      max_tokens: 4096,
-      temperature: 0.3,
-      system: SYSTEM_PROMPT,
-      messages: [
-        { role: 'user', content: userPrompt },
-      ],
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Anthropic API error: ${response.status} - ${error}`);
-  }
-
-  const data = await response.json();
-  const content = data.content[0]?.text;
-
-  if (!content) {
-    throw new Error('No content in Anthropic response');
-  }
-
-  const parsed = parseClassificationResult(content);
-  const results = Array.isArray(parsed) ? parsed : [parsed];
-
-  // Track token usage
-  const usage = {
-    input_tokens: data.usage?.input_tokens || 0,
-    output_tokens: data.usage?.output_tokens || 0,
-    total_tokens: (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0),
-  };
-
-  console.log(`Anthropic usage: ${usage.total_tokens} tokens (${usage.input_tokens} input + ${usage.output_tokens} output)`);
+  console.log(`${response.model} usage: ${response.usage.total_tokens} tokens (${response.usage.input_tokens} input + ${response.usage.output_tokens} output)`);
 
   return results;
 }
@@ -141,12 +68,16 @@ Deno.serve(async (req) => {
     Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
   );
 
+  const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+  if (user instanceof Response) return user;
+
   try {
-    // Check for API keys
-    const openaiKey = Deno.env.get('OPENAI_API_KEY');
-    const anthropicKey = Deno.env.get('ANTHROPIC_API_KEY');
+    // The monitor can have its own OpenAI key; the app keys and llm_models still apply
+    const llm = await loadLLMClient(supabase, 'classify_articles', {
+      keys: { openai: await loadSecret(supabase, 'monitor_openai_api_key') },
+    });
 
-    if (!openaiKey && !anthropicKey) {
+    if (!llm.isAvailable('article_classification')) {
       throw new Error('No LLM API keys configured. Set OPENAI_API_KEY or ANTHROPIC_API_KEY');
     }
 
@@ -157,12 +88,25 @@ Deno.serve(async (req) => {
 
     console.log(`Starting classification: limit=${limit}, batch_size=${batchSize}`);
 
+    const { data: settings } = await supabase
+      .from('monitor_settings')
+      .select('content_fetch_enabled')
+      .eq('id', MONITOR_SETTINGS_ID)
+      .maybeSingle();
+
     // Fetch unclassified articles
-    // Articles where signals is empty object {} or null
-    const { data: articles, error: fetchError } = await supabase
+    let articlesQuery = supabase
       .from('articles')
-      .select('id, url, source, title, excerpt, body, published_at, created_at')
-      .or('signals.eq.{},signals.is.null')
+      .select('id, url, source, source_name, title, excerpt, body, published_at, meta, created_at')
+      .eq('status', 'pending');
+
+    // Articles waiting for their full text are classified once, when it arrives
+    // (or the fetch gives up), rather than on the headline and then again
+    if (settings?.content_fetch_enabled !== false) {
+      articlesQuery = articlesQuery.or('content_fetch_status.is.null,content_fetch_status.neq.pending');
+    }
+
+    const { data: articles, error: fetchError } = await articlesQuery
       .order('published_at', { ascending: false })
       .limit(limit);
 
@@ -209,6 +153,9 @@ Deno.serve(async (req) => {
             signals: {},
             reasons: [],
             confidence: 0.0,
+            status: 'classified',
+            classified_at: new Date().toISOString(),
+            requires_review: false,
           })
           .eq('id', article.id);
       }
@@ -232,9 +179,14 @@ Deno.serve(async (req) => {
       );
     }
 
+    const taxonomy = await loadSignalTaxonomy(supabase);
+
     // Process in batches
     let totalUpdated = 0;
     let totalSkipped = heuristicSkipped;
+    let budgetExhausted: string | null = null;
+    // Relevant articles with at least one risk signal are pushed to webhook subscribers
+    const flagged: MonitorArticleFlaggedData[] = [];
 
     for (let i = 0; i < candidates.length; i += batchSize) {
       const batch = candidates.slice(i, i + batchSize);
@@ -250,15 +202,17 @@ Deno.serve(async (req) => {
         published_at: article.published_at,
       }));
 
-      // Call LLM (prefer OpenAI, fallback to Anthropic)
       let results: ClassificationResult[];
       try {
-        if (openaiKey) {
-          results = await callOpenAI(payloads, openaiKey);
-        } else {
-          results = await callAnthropic(payloads, anthropicKey!);
-        }
+        results = await classifyBatch(llm, payloads, taxonomy);
       } catch (error) {
+        if (error instanceof LLMBudgetExceededError) {
+          // Leave the rest unclassified so they are picked up once the budget resets
+          budgetExhausted = error.status.reason;
+          console.warn(`${error.message}; stopping with ${candidates.length - i} articles unclassified`);
+          totalSkipped += candidates.length - i;
+          break;
+        }
         console.error(`LLM API error for batch: ${error.message}`);
         totalSkipped += batch.length;
         continue;
@@ -275,6 +229,11 @@ Deno.serve(async (req) => {
       for (let j = 0; j < batch.length; j++) {
         const article = batch[j];
         const result = results[j];
+        const signals = activeSignals(result.signals, taxonomy);
+        const lowConfidence = result.confidence < REVIEW_CONFIDENCE_THRESHOLD;
+        // High severity signals always need a second look
+        const requiresReview = result.is_cayman_related &&
+          (lowConfidence || signals.some((signal) => taxonomy.get(signal)?.severity === 'high'));
 
         try {
           const { error: updateError } = await supabase
@@ -284,10 +243,12 @@ Deno.serve(async (req) => {
               signals: result.signals,
               reasons: result.reasons,
               confidence: result.confidence,
+              status: 'classified',
+              classified_at: new Date().toISOString(),
+              requires_review: requiresReview,
               meta: {
                 ...((article.meta as any) || {}),
                 raw_classifier: result,
-                classified_at: new Date().toISOString(),
               },
             })
             .eq('id', article.id);
@@ -298,6 +259,29 @@ Deno.serve(async (req) => {
           } else {
             totalUpdated++;
             console.log(`✓ Updated ${article.id}: cayman=${result.is_cayman_related}, confidence=${result.confidence}`);
+
+            if (result.is_cayman_related && signals.length > 0) {
+              flagged.push({
+                article_id: article.id,
+                title: article.title || article.url,
+                url: article.url,
+                source: article.source_name || article.source,
+                published_at: article.published_at,
+                cayman_confidence: result.confidence,
+                signals,
+                cayman_entities: result.entities.orgs.map((name) => ({ name, type: 'ORG' })),
+                summary: result.reasons.join(' ') || null,
+              });
+            }
+
+            if (result.is_cayman_related && lowConfidence) {
+              await supabase.from('review_queue').insert({
+                item_type: 'article',
+                item_id: article.id,
+                reason: `Low classifier confidence (${result.confidence.toFixed(2)}) for Cayman-related article`,
+                priority: 'low',
+              });
+            }
           }
         } catch (error) {
           console.error(`Error updating article ${article.id}:`, error);
@@ -311,6 +295,12 @@ Deno.serve(async (req) => {
       }
     }
 
+    try {
+      await enqueueWebhookEvents(supabase, 'monitor.article_flagged', flagged);
+    } catch (webhookError) {
+      console.error(`Failed to queue article webhooks: ${formatError(webhookError)}`);
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
@@ -319,6 +309,9 @@ Deno.serve(async (req) => {
         skipped: totalSkipped,
         candidates: candidates.length,
         heuristic_filtered: heuristicSkipped,
+        flagged: flagged.length,
+        budget_exhausted: budgetExhausted,
+        tokens_used: llm.usage.summary(),
       }),
       {
         status: 200,
@@ -0,0 +1,234 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  DEFAULT_STORY_THRESHOLDS,
+  bestStoryMatch,
+  createLocalEmbeddingProvider,
+  createOpenAIEmbeddingProvider,
+  embeddingText,
+  type EmbeddingProvider,
+  type EmbeddingResult,
+  type StoryCandidate,
+} from '../shared/embeddings.ts';
+import { LLMBudgetExceededError, LLMError, loadBudgetGuard, recordLLMUsage } from '../shared/llm/index.ts';
+import { formatError } from '../shared/monitor-utils.ts';
+import { loadSecrets } from '../shared/secrets.ts';
+import { requireRole } from '../shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const FUNCTION_NAME = 'cluster_stories';
+const MONITOR_SETTINGS_ID = '00000000-0000-0000-0000-000000000002';
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+const DEFAULT_WINDOW_HOURS = 72;
+// Candidates compared per article; the best one decides
+const MATCH_CANDIDATES = 5;
+
+interface ClusterRequest {
+  limit?: number;
+  article_ids?: string[];
+}
+
+interface UnclusteredArticle {
+  id: string;
+  title: string | null;
+  excerpt: string | null;
+  body: string | null;
+  published_at: string | null;
+  created_at: string;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+    if (user instanceof Response) return user;
+
+    const body: ClusterRequest = await req.json().catch(() => ({}));
+    const limit = Math.min(body.limit || DEFAULT_LIMIT, MAX_LIMIT);
+
+    const { data: settings } = await supabase
+      .from('monitor_settings')
+      .select('enable_embeddings, enable_deduplication, story_similarity_threshold, story_window_hours')
+      .eq('id', MONITOR_SETTINGS_ID)
+      .maybeSingle();
+
+    if (settings?.enable_deduplication === false) {
+      return new Response(
+        JSON.stringify({ success: true, message: 'Story clustering is disabled', processed: 0 }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // OpenAI when enabled and a key is set (the monitor key first, as for
+    // classification); the local model otherwise. OpenAI spend goes in the
+    // llm_usage ledger and counts against the monitor budget.
+    let provider: EmbeddingProvider = createLocalEmbeddingProvider();
+    let fallbackReason: string | undefined;
+    if (settings?.enable_embeddings) {
+      const secrets = await loadSecrets(supabase, ['monitor_openai_api_key', 'openai_api_key']);
+      const apiKey = secrets.monitor_openai_api_key || secrets.openai_api_key;
+      if (apiKey) {
+        const { data: appSettings } = await supabase
+          .from('app_settings')
+          .select('llm_daily_budget, llm_monthly_budget')
+          .maybeSingle();
+        const budget = await loadBudgetGuard(supabase, FUNCTION_NAME, appSettings);
+
+        provider = createOpenAIEmbeddingProvider(apiKey, undefined, fetch, {
+          budget,
+          onUsage: (response) => recordLLMUsage(supabase, FUNCTION_NAME, 'article_embedding', response),
+        });
+      } else {
+        fallbackReason = 'enable_embeddings is on but no OpenAI key is configured; using the local model';
+        console.warn(fallbackReason);
+      }
+    }
+
+    const windowMs = (settings?.story_window_hours || DEFAULT_WINDOW_HOURS) * 60 * 60 * 1000;
+
+    // Oldest first, so the first copy of a story starts it and reprints join it
+    let query = supabase
+      .from('articles')
+      .select('id, title, excerpt, body, published_at, created_at')
+      .eq('cayman_flag', true)
+      .eq('status', 'classified')
+      .is('clustered_at', null)
+      .order('published_at', { ascending: true })
+      .limit(limit);
+
+    if (body.article_ids && body.article_ids.length > 0) {
+      query = query.in('id', body.article_ids);
+    }
+
+    const { data: articles, error: fetchError } = await query;
+
+    if (fetchError) {
+      throw new Error(`Failed to load unclustered articles: ${fetchError.message}`);
+    }
+
+    if (!articles || articles.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, message: 'No articles awaiting clustering', processed: 0 }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const texts = (articles as UnclusteredArticle[]).map((article) => embeddingText(article));
+
+    let embedded: EmbeddingResult;
+    try {
+      embedded = await provider.embed(texts);
+    } catch (error) {
+      // A spent budget or an OpenAI outage should not stop clustering
+      if (!(error instanceof LLMError || error instanceof LLMBudgetExceededError)) throw error;
+      fallbackReason = `OpenAI embeddings unavailable (${formatError(error)}); using the local model`;
+      console.warn(fallbackReason);
+      provider = createLocalEmbeddingProvider();
+      embedded = await provider.embed(texts);
+    }
+    const { vectors, tokens } = embedded;
+
+    const threshold = Number(settings?.story_similarity_threshold) || DEFAULT_STORY_THRESHOLDS[provider.name];
+    console.log(`Clustering ${articles.length} articles with ${provider.model} (threshold ${threshold})`);
+
+    const counts = { joined: 0, new_stories: 0, failed: 0 };
+
+    // One at a time: each article is matchable by the ones after it
+    for (const [index, article] of (articles as UnclusteredArticle[]).entries()) {
+      const embedding = vectors[index];
+      const publishedAt = new Date(article.published_at || article.created_at).getTime();
+
+      try {
+        const { data: candidates, error: matchError } = await supabase.rpc('match_story_articles', {
+          p_embedding: embedding,
+          p_embedding_model: provider.model,
+          p_from: new Date(publishedAt - windowMs).toISOString(),
+          p_to: new Date(publishedAt + windowMs).toISOString(),
+          p_exclude_article_id: article.id,
+          p_limit: MATCH_CANDIDATES,
+        });
+
+        if (matchError) {
+          throw new Error(`Story match failed: ${matchError.message}`);
+        }
+
+        const match = bestStoryMatch((candidates || []) as StoryCandidate[], threshold);
+        let storyId = match?.story_id;
+
+        if (!storyId) {
+          const { data: story, error: storyError } = await supabase
+            .from('stories')
+            .insert({ title: article.title, embedding_model: provider.model })
+            .select('id')
+            .single();
+
+          if (storyError) {
+            throw new Error(`Failed to create story: ${storyError.message}`);
+          }
+          storyId = story.id;
+        }
+
+        const { error: updateError } = await supabase
+          .from('articles')
+          .update({
+            embedding,
+            embedding_model: provider.model,
+            story_id: storyId,
+            similarity_score: match ? Number(match.similarity.toFixed(4)) : null,
+            clustered_at: new Date().toISOString(),
+          })
+          .eq('id', article.id);
+
+        if (updateError) {
+          throw new Error(`Failed to update article: ${updateError.message}`);
+        }
+
+        if (match) {
+          counts.joined++;
+        } else {
+          counts.new_stories++;
+        }
+      } catch (error) {
+        counts.failed++;
+        console.error(`Clustering failed for article ${article.id}: ${formatError(error)}`);
+      }
+    }
+
+    console.log(
+      `Clustering complete: ${counts.joined} joined existing stories, ${counts.new_stories} new stories, ${counts.failed} failed`
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        processed: articles.length,
+        ...counts,
+        provider: provider.name,
+        model: provider.model,
+        threshold,
+        tokens,
+        warning: fallbackReason,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Story clustering failed:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: formatError(error) }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,229 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  sortTimeline,
+  type CompanySourceType,
+  type CompanyTimelineEvent,
+} from '../shared/entity-resolution.ts';
+import { activeSignals } from '../shared/monitor-types.ts';
+import { loadSignalTaxonomy } from '../shared/signal-taxonomy.ts';
+import { createSnippet, formatError } from '../shared/monitor-utils.ts';
+import { requireRole } from '../shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+function idsFor(links: Array<{ source_type: string; source_id: string }>, type: CompanySourceType): string[] {
+  return links.filter((link) => link.source_type === type).map((link) => link.source_id);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    );
+
+    const user = await requireRole(req, supabase, 'viewer', corsHeaders);
+    if (user instanceof Response) return user;
+
+    const url = new URL(req.url);
+    const id = url.searchParams.get('id');
+
+    if (!id) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Company id parameter is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: company, error: companyError } = await supabase
+      .from('companies')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (companyError) throw companyError;
+
+    if (!company) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Company not found: ${id}` }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: links, error: linksError } = await supabase
+      .from('company_source_links')
+      .select('source_type, source_id, match_method, match_confidence')
+      .eq('company_id', id);
+
+    if (linksError) throw linksError;
+
+    const sourceLinks = links || [];
+    const events: CompanyTimelineEvent[] = [];
+
+    // Registry petitions
+    const registryIds = idsFor(sourceLinks, 'registry_row');
+    if (registryIds.length > 0) {
+      const { data: rows, error } = await supabase
+        .from('registry_rows')
+        .select('id, cause_number, filing_date, title, subject, scraped_at')
+        .in('id', registryIds);
+      if (error) throw error;
+
+      for (const row of rows || []) {
+        events.push({
+          id: `registry_row:${row.id}`,
+          kind: 'petition',
+          date: row.filing_date || row.scraped_at,
+          title: row.subject || 'Registry filing',
+          description: `Cause ${row.cause_number}${row.title ? ` — ${row.title}` : ''}`,
+          source_type: 'registry_row',
+          source_id: row.id,
+          url: null,
+          metadata: { cause_number: row.cause_number },
+        });
+      }
+    }
+
+    // Analyzed cases
+    const caseIds = idsFor(sourceLinks, 'case');
+    if (caseIds.length > 0) {
+      const { data: cases, error } = await supabase
+        .from('cases')
+        .select('id, processed_at, created_at, dashboard_summary, extraction_quality_score, registry_rows(cause_number)')
+        .in('id', caseIds);
+      if (error) throw error;
+
+      for (const caseRow of cases || []) {
+        events.push({
+          id: `case:${caseRow.id}`,
+          kind: 'case_analysis',
+          date: caseRow.processed_at || caseRow.created_at,
+          title: 'Petition analysed',
+          description: caseRow.dashboard_summary ? createSnippet(caseRow.dashboard_summary, 300) : null,
+          source_type: 'case',
+          source_id: caseRow.id,
+          url: null,
+          metadata: {
+            cause_number: caseRow.registry_rows?.cause_number ?? null,
+            quality_score: caseRow.extraction_quality_score,
+          },
+        });
+      }
+    }
+
+    // Gazette liquidation notices and final meetings
+    const noticeIds = idsFor(sourceLinks, 'gazette_notice');
+    if (noticeIds.length > 0) {
+      const { data: notices, error } = await supabase
+        .from('gazette_liquidation_notices')
+        .select('id, company_name, liquidation_type, liquidators, liquidation_date, final_meeting_date, final_meeting_notice_id, court_cause_no, notes, created_at, analyzed_gazette_pdfs(gazette_type, issue_number, issue_date)')
+        .in('id', noticeIds);
+      if (error) throw error;
+
+      for (const notice of notices || []) {
+        const gazette = notice.analyzed_gazette_pdfs;
+        const gazetteLabel = gazette?.issue_number ? `Gazette ${gazette.issue_number}` : 'Gazette';
+        const liquidators = Array.isArray(notice.liquidators) ? notice.liquidators : [];
+
+        events.push({
+          id: `gazette_notice:${notice.id}`,
+          kind: 'liquidation_notice',
+          date: notice.liquidation_date || gazette?.issue_date || notice.created_at,
+          title: `${notice.liquidation_type} liquidation notice`,
+          description: notice.notes,
+          source_type: 'gazette_notice',
+          source_id: notice.id,
+          url: null,
+          metadata: {
+            gazette: gazetteLabel,
+            gazette_type: gazette?.gazette_type ?? null,
+            liquidators,
+            court_cause_no: notice.court_cause_no,
+          },
+        });
+
+        // A final meeting reconciled from a later gazette is shown once, from its own notice
+        const reconciledElsewhere = notice.final_meeting_notice_id && noticeIds.includes(notice.final_meeting_notice_id);
+
+        if (notice.final_meeting_date && !reconciledElsewhere) {
+          events.push({
+            id: `final_meeting:${notice.id}`,
+            kind: 'final_meeting',
+            date: notice.final_meeting_date,
+            title: 'Final meeting of shareholders',
+            description: `Announced in ${gazetteLabel}`,
+            source_type: 'gazette_notice',
+            source_id: notice.id,
+            url: null,
+            metadata: { liquidators },
+          });
+        }
+      }
+    }
+
+    // Adverse news from the monitor
+    const articleIds = idsFor(sourceLinks, 'article');
+    if (articleIds.length > 0) {
+      const { data: articles, error } = await supabase
+        .from('articles')
+        .select('id, title, url, published_at, source, source_name, excerpt, signals, created_at')
+        .in('id', articleIds);
+      if (error) throw error;
+
+      const taxonomy = await loadSignalTaxonomy(supabase);
+      for (const article of articles || []) {
+        const signals = activeSignals(article.signals, taxonomy);
+        if (signals.length === 0) continue;
+        events.push({
+          id: `article:${article.id}`,
+          kind: 'adverse_news',
+          date: article.published_at || article.created_at,
+          title: article.title || article.url,
+          description: article.excerpt,
+          source_type: 'article',
+          source_id: article.id,
+          url: article.url,
+          metadata: { source: article.source_name || article.source, signals },
+        });
+      }
+    }
+
+    const sourceCounts = sourceLinks.reduce<Record<string, number>>((acc, link) => {
+      acc[link.source_type] = (acc[link.source_type] || 0) + 1;
+      return acc;
+    }, {});
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        company,
+        source_counts: sourceCounts,
+        events: sortTimeline(events.filter((event) => Boolean(event.date))),
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error building company timeline:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: formatError(error),
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
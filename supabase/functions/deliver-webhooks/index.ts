@@ -0,0 +1,197 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { formatError } from '../shared/monitor-utils.ts';
+import { MAX_DELIVERY_ATTEMPTS, nextRetryAt, webhookHeaders, type WebhookEvent } from '../shared/webhook-events.ts';
+import { requireRole } from '../shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+interface DeliverRequest {
+  // Replay these deliveries now, whatever their status (used by the Webhooks page)
+  delivery_ids?: string[];
+  limit?: number;
+}
+
+interface DeliveryRow {
+  id: string;
+  endpoint_id: string;
+  event_type: string;
+  payload: WebhookEvent;
+  attempt_count: number;
+}
+
+interface EndpointRow {
+  id: string;
+  url: string;
+  secret: string;
+}
+
+interface AttemptOutcome {
+  ok: boolean;
+  statusCode: number | null;
+  error: string | null;
+  responseBody: string | null;
+  durationMs: number;
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const REQUEST_TIMEOUT_MS = 10000;
+// A run that died mid-send leaves its deliveries `sending`; claim them again after this
+const STALE_AFTER = '15 minutes';
+
+async function attemptDelivery(delivery: DeliveryRow, endpoint: EndpointRow): Promise<AttemptOutcome> {
+  const body = JSON.stringify(delivery.payload);
+  const started = Date.now();
+
+  try {
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: await webhookHeaders(endpoint.secret, delivery.payload, body),
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const responseBody = (await response.text().catch(() => '')).slice(0, 2048);
+
+    return {
+      ok: response.ok,
+      statusCode: response.status,
+      error: response.ok ? null : `HTTP ${response.status}`,
+      responseBody: responseBody || null,
+      durationMs: Date.now() - started,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      statusCode: null,
+      error: formatError(error),
+      responseBody: null,
+      durationMs: Date.now() - started,
+    };
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const user = await requireRole(req, supabase, 'admin', corsHeaders);
+    if (user instanceof Response) return user;
+
+    const body: DeliverRequest = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const limit = Math.min(body.limit || DEFAULT_LIMIT, MAX_LIMIT);
+    const replay = Array.isArray(body.delivery_ids) && body.delivery_ids.length > 0;
+
+    if (replay) {
+      // A replay starts a fresh retry cycle; earlier attempts stay in the attempt log.
+      // Deliveries another run is sending are left to it
+      const { error: resetError } = await supabase
+        .from('webhook_deliveries')
+        .update({ status: 'pending', attempt_count: 0, next_attempt_at: new Date().toISOString() })
+        .in('id', body.delivery_ids!)
+        .neq('status', 'sending');
+      if (resetError) throw resetError;
+    }
+
+    // Claimed rows are marked `sending`, so overlapping runs never send the same delivery twice
+    const { data, error } = await supabase.rpc('claim_webhook_deliveries', {
+      p_limit: limit,
+      p_delivery_ids: replay ? body.delivery_ids : null,
+      p_stale_after: STALE_AFTER,
+    });
+    if (error) throw error;
+
+    const deliveries = (data || []) as DeliveryRow[];
+    const summary = { attempted: 0, succeeded: 0, failed: 0, dead: 0 };
+
+    const endpointIds = Array.from(new Set(deliveries.map((delivery) => delivery.endpoint_id)));
+    const endpoints = new Map<string, EndpointRow>();
+    if (endpointIds.length > 0) {
+      const { data: endpointRows, error: endpointsError } = await supabase
+        .from('webhook_endpoints')
+        .select('id, url, secret')
+        .in('id', endpointIds);
+      if (endpointsError) throw endpointsError;
+      for (const endpoint of (endpointRows || []) as EndpointRow[]) endpoints.set(endpoint.id, endpoint);
+    }
+
+    for (const delivery of deliveries) {
+      const endpoint = endpoints.get(delivery.endpoint_id);
+      if (!endpoint) continue;
+
+      const outcome = await attemptDelivery(delivery, endpoint);
+      const attempts = delivery.attempt_count + 1;
+      const now = new Date();
+      const retryAt = outcome.ok ? null : nextRetryAt(attempts, now);
+      const status = outcome.ok ? 'succeeded' : retryAt ? 'failed' : 'dead';
+
+      await supabase.from('webhook_delivery_attempts').insert({
+        delivery_id: delivery.id,
+        attempt_number: attempts,
+        status_code: outcome.statusCode,
+        error: outcome.error,
+        response_body: outcome.responseBody,
+        duration_ms: outcome.durationMs,
+      });
+
+      const { error: updateError } = await supabase
+        .from('webhook_deliveries')
+        .update({
+          status,
+          attempt_count: attempts,
+          next_attempt_at: retryAt ? retryAt.toISOString() : null,
+          last_status_code: outcome.statusCode,
+          last_error: outcome.error,
+          last_attempt_at: now.toISOString(),
+          delivered_at: outcome.ok ? now.toISOString() : null,
+          locked_at: null,
+        })
+        .eq('id', delivery.id);
+
+      if (updateError) {
+        console.error(`Failed to record delivery ${delivery.id}: ${updateError.message}`);
+      }
+
+      summary.attempted++;
+      summary[status === 'succeeded' ? 'succeeded' : status === 'failed' ? 'failed' : 'dead']++;
+
+      if (status === 'dead') {
+        console.warn(
+          `Webhook delivery ${delivery.id} (${delivery.event_type}) gave up after ${MAX_DELIVERY_ATTEMPTS} attempts: ${outcome.error}`
+        );
+      }
+    }
+
+    console.log(
+      `Webhook deliveries: ${summary.attempted} attempted, ${summary.succeeded} succeeded, ${summary.failed} will retry, ${summary.dead} dead`
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        replay,
+        ...summary,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Webhook delivery error:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: formatError(error),
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
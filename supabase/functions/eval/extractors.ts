@@ -0,0 +1,213 @@
+// Extractors under evaluation
+//
+// Each extractor reads a golden document's text and returns notices, fields or
+// signals in the golden format. Rule-based extractors call the production
+// parsers directly. LLM extractors run the production prompt and response
+// parsing through the LLMClient the harness passes in: a mock that replays
+// recorded responses, or a live client while recording (see recordings.ts).
+
+import { consolidateExtractionResults, extractTargetedFields } from '../shared/extraction-patterns.ts';
+import { type CaseAnalysis, CASE_ANALYSIS_JSON_INSTRUCTIONS } from '../shared/case-analysis.ts';
+import type { LLMClient } from '../shared/llm/index.ts';
+import { signalFlags } from '../shared/monitor-types.ts';
+import { analyzeCaseText, DASHBOARD_PROMPT } from '../analyze-case/case-prompt.ts';
+import { buildBatchPrompt, GAZETTE_PROMPT, parseClaudeResponse } from '../analyze-gazette-with-claude/gazette-prompt.ts';
+import { parseGazetteNotices, type LiquidationNotice } from '../analyze-gazette-with-claude/notice-parser.ts';
+import {
+  createSubsectionBatches,
+  extractCommercialSection,
+  identifySubsections,
+} from '../analyze-gazette-with-claude/pdf-section-splitter.ts';
+import { checkCaymanHeuristics, detectSignalsHeuristic } from '../classify_articles/cayman-heuristics.ts';
+import {
+  buildBatchPrompt as buildClassifierPrompt,
+  buildSystemPrompt as buildClassifierSystemPrompt,
+  parseClassificationResult,
+  prepareArticleText,
+} from '../classify_articles/classifier-prompt.ts';
+import type { FieldValue, GoldenDocument, GoldenKind } from './golden.ts';
+import type { PredictedNotice } from './metrics.ts';
+
+// Evaluated against the default taxonomy (the monitor_signals seed rows)
+const CLASSIFIER_SYSTEM_PROMPT = buildClassifierSystemPrompt();
+
+export interface Extraction {
+  notices?: PredictedNotice[];
+  fields?: Record<string, FieldValue>;
+  signals?: Record<string, boolean>;
+}
+
+export interface Extractor {
+  name: string;
+  kind: GoldenKind;
+  description: string;
+  /** The prompt an LLM extractor sends; its hash is stored with recordings and reported */
+  prompt?: string;
+  extract(document: GoldenDocument, llm: LLMClient | null): Promise<Extraction>;
+}
+
+// Batch size analyze-gazette-with-claude uses for subsection batches
+const GAZETTE_BATCH_TOKENS = 180000;
+
+// extractTargetedFields fields that correspond to case analysis fields
+const TARGETED_CASE_FIELDS: Record<string, string> = {
+  filing_date: 'legal_details.filing_date',
+  law_firm: 'legal_details.filing_law_firm',
+  liquidators: 'practitioners.appointments',
+};
+
+function requireLLM(llm: LLMClient | null, extractor: string): LLMClient {
+  if (!llm) throw new Error(`${extractor} needs an LLM client (recorded responses or --record)`);
+  return llm;
+}
+
+function noticeFromLiquidation(notice: LiquidationNotice, section?: string): PredictedNotice {
+  return {
+    entity_name: notice.entityName,
+    section,
+    liquidators: notice.liquidators ?? [],
+    registration_no: notice.registrationNo,
+    liquidation_date: notice.liquidationDate,
+    final_meeting_date: notice.finalMeetingDate,
+  };
+}
+
+/**
+ * Case analysis as golden case fields: the text fields of each section and
+ * the appointed practitioners' names
+ */
+export function caseAnalysisFields(analysis: CaseAnalysis): Record<string, FieldValue> {
+  const fields: Record<string, FieldValue> = {};
+
+  for (const section of ['company_overview', 'legal_details', 'capital_structure'] as const) {
+    for (const [key, value] of Object.entries(analysis[section])) {
+      if (typeof value === 'string' || value === null) fields[`${section}.${key}`] = value;
+    }
+  }
+  fields['practitioners.appointed'] = analysis.practitioners.appointed ?? null;
+  fields['practitioners.appointments'] = analysis.practitioners.appointments.map((appointment) => appointment.name);
+  return fields;
+}
+
+function articleParts(text: string): { title: string; body: string } {
+  const [title, ...rest] = text.split('\n');
+  return { title: title.trim(), body: rest.join('\n').trim() };
+}
+
+export const EXTRACTORS: Record<string, Extractor> = {
+  'targeted-regex': {
+    name: 'targeted-regex',
+    kind: 'case',
+    description: 'extractTargetedFields (extract-pdf-text)',
+    extract(document) {
+      const { data } = consolidateExtractionResults(
+        extractTargetedFields(document.text, Object.keys(TARGETED_CASE_FIELDS))
+      );
+      const fields: Record<string, FieldValue> = {};
+      for (const [field, key] of Object.entries(TARGETED_CASE_FIELDS)) {
+        const value = data[field];
+        if (value === undefined) continue;
+        // Date fields come back as every date found; the first is the one used
+        fields[key] = key === 'practitioners.appointments' ? value : Array.isArray(value) ? value[0] ?? null : value;
+      }
+      return Promise.resolve({ fields });
+    },
+  },
+
+  'notice-parser': {
+    name: 'notice-parser',
+    kind: 'gazette',
+    description: 'Rule-based gazette notice parser (analyze-gazette-with-claude/notice-parser.ts)',
+    extract(document) {
+      const notices = parseGazetteNotices(extractCommercialSection(document.text)).map((parsed) =>
+        noticeFromLiquidation(parsed.notice, parsed.subsection)
+      );
+      return Promise.resolve({ notices });
+    },
+  },
+
+  'gazette-prompt': {
+    name: 'gazette-prompt',
+    kind: 'gazette',
+    description: 'GAZETTE_PROMPT over COMMERCIAL subsection batches (analyze-gazette-with-claude)',
+    prompt: GAZETTE_PROMPT,
+    async extract(document, llm) {
+      const client = requireLLM(llm, 'gazette-prompt');
+      const commercial = extractCommercialSection(document.text);
+      const subsections = identifySubsections(commercial);
+      const batches = subsections.length > 0
+        ? createSubsectionBatches(subsections, GAZETTE_BATCH_TOKENS).map((batch) => ({
+          content: batch.map((section) => section.content).join('\n\n'),
+          prompt: buildBatchPrompt(batch.map((section) => section.sectionName)),
+        }))
+        : [{ content: commercial, prompt: GAZETTE_PROMPT }];
+
+      const notices: PredictedNotice[] = [];
+      for (const batch of batches) {
+        const { text } = await client.complete({
+          task: 'gazette_extraction',
+          maxTokens: 16000,
+          messages: [{ role: 'user', content: [{ type: 'text', text: `${batch.content}\n\n${batch.prompt}` }] }],
+        });
+        const response = parseClaudeResponse(text);
+        notices.push(...(response.liquidations || []).map((notice) => noticeFromLiquidation(notice)));
+      }
+      return { notices };
+    },
+  },
+
+  'case-prompt': {
+    name: 'case-prompt',
+    kind: 'case',
+    description: 'DASHBOARD_PROMPT chunk summaries consolidated into a case analysis (analyze-case)',
+    prompt: `${DASHBOARD_PROMPT}\n\n${CASE_ANALYSIS_JSON_INSTRUCTIONS}`,
+    async extract(document, llm) {
+      const { analysis } = await analyzeCaseText(requireLLM(llm, 'case-prompt'), document.text);
+      return { fields: caseAnalysisFields(analysis) };
+    },
+  },
+
+  'cayman-heuristics': {
+    name: 'cayman-heuristics',
+    kind: 'article',
+    description: 'Keyword heuristics (classify_articles pre-filter and signal keywords)',
+    extract(document) {
+      return Promise.resolve({
+        signals: {
+          cayman_related: checkCaymanHeuristics(document.text).isCandidate,
+          ...signalFlags(detectSignalsHeuristic(document.text)),
+        },
+      });
+    },
+  },
+
+  'article-classifier': {
+    name: 'article-classifier',
+    kind: 'article',
+    description: 'classify_articles classifier prompt',
+    prompt: `${CLASSIFIER_SYSTEM_PROMPT}\n\n${buildClassifierPrompt([])}`,
+    async extract(document, llm) {
+      const { title, body } = articleParts(document.text);
+      const { text } = await requireLLM(llm, 'article-classifier').complete({
+        task: 'article_classification',
+        system: CLASSIFIER_SYSTEM_PROMPT,
+        messages: [
+          {
+            role: 'user',
+            content: buildClassifierPrompt([
+              { id: document.id, title, lead: prepareArticleText(body, null, 1000), source: 'eval', published_at: null },
+            ]),
+          },
+        ],
+        temperature: 0.3,
+        maxTokens: 4096,
+        json: true,
+      });
+
+      const parsed = parseClassificationResult(text);
+      const result = Array.isArray(parsed) ? parsed[0] : parsed;
+      if (!result) throw new Error('Classifier returned no result');
+      return { signals: { cayman_related: result.is_cayman_related, ...result.signals } };
+    },
+  },
+};
@@ -0,0 +1,140 @@
+// Golden datasets
+//
+// A golden dataset is a JSONL file with one document per line: the text an
+// extractor reads and what a correct extraction contains. Expectations may be
+// partial; only what is listed is scored.
+//
+//   {"id": "gazette-2025-14", "kind": "gazette", "text": "...",
+//    "expected": {"notices": [{"section": "liquidation", "entity_name": "Acme Ltd", "liquidators": ["Jane Doe"]}]}}
+//   {"id": "case-fsd-12-2025", "kind": "case", "text": "...",
+//    "expected": {"fields": {"legal_details.cause_number": "FSD 12 of 2025", "practitioners.appointments": ["Jane Doe"]}}}
+//   {"id": "article-1", "kind": "article", "text": "...",
+//    "expected": {"signals": {"cayman_related": true, "fraud": true, "enforcement": false}}}
+//
+// Case fields are paths into the case analysis (shared/case-analysis.ts); list
+// fields hold names. Notice sections are the COMMERCIAL subsections of the
+// rule-based notice parser (liquidation, final_meeting, partnership, ...).
+// Signals are the article signal flags plus cayman_related; an article's first
+// line is its title.
+//
+// Labelled examples exported from the Review Queue (review-queue "export") can
+// be used directly as datasets; see goldenFromLabelledExample.
+
+import type { LabelledExample } from '../shared/review-corrections.ts';
+
+export type GoldenKind = 'gazette' | 'case' | 'article';
+
+export type FieldValue = string | string[] | boolean | null;
+
+export interface ExpectedNotice {
+  /** COMMERCIAL subsection; notices without one are reported as "unspecified" */
+  section?: string;
+  entity_name: string;
+  /** Optional notice fields, scored as notices.<field> when the notice is found */
+  liquidators?: string[];
+  registration_no?: string | null;
+  liquidation_date?: string | null;
+  final_meeting_date?: string | null;
+}
+
+export interface GoldenExpectation {
+  notices?: ExpectedNotice[];
+  fields?: Record<string, FieldValue>;
+  signals?: Record<string, boolean>;
+}
+
+export interface GoldenDocument {
+  id: string;
+  kind: GoldenKind;
+  text: string;
+  /** Where the expectation came from, e.g. "review:case:<uuid>" */
+  source?: string;
+  expected: GoldenExpectation;
+}
+
+const GOLDEN_KINDS: GoldenKind[] = ['gazette', 'case', 'article'];
+
+function isLabelledExample(value: Record<string, unknown>): boolean {
+  return typeof value.target === 'string' && typeof value.record_id === 'string' && 'expected' in value;
+}
+
+/**
+ * Golden document for a Review Queue correction. Case and article field keys
+ * lose their column prefix (parsed_json., signals.); a corrected gazette notice
+ * becomes a one-notice gazette document.
+ */
+export function goldenFromLabelledExample(example: LabelledExample): GoldenDocument | null {
+  const source = `review:${example.target}:${example.record_id}`;
+
+  if (example.target === 'case') {
+    const fields: Record<string, FieldValue> = {};
+    for (const [key, value] of Object.entries(example.expected)) {
+      fields[key.replace(/^parsed_json\./, '')] = value as FieldValue;
+    }
+    return { id: example.id, kind: 'case', text: example.text, source, expected: { fields } };
+  }
+
+  if (example.target === 'article') {
+    const signals: Record<string, boolean> = {};
+    for (const [key, value] of Object.entries(example.expected)) {
+      signals[key === 'cayman_flag' ? 'cayman_related' : key.replace(/^signals\./, '')] = value === true;
+    }
+    return { id: example.id, kind: 'article', text: example.text, source, expected: { signals } };
+  }
+
+  if (example.target === 'gazette_notice') {
+    const value = (field: string) => (field in example.expected ? example.expected[field] : example.extracted[field]);
+    const entityName = value('company_name');
+    if (typeof entityName !== 'string' || !entityName) return null;
+
+    const notice: ExpectedNotice = { entity_name: entityName };
+    if ('liquidators' in example.expected) notice.liquidators = example.expected.liquidators as string[];
+    if ('appointment_date' in example.expected) {
+      notice.liquidation_date = example.expected.appointment_date as string | null;
+    }
+    return { id: example.id, kind: 'gazette', text: example.text, source, expected: { notices: [notice] } };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a golden dataset (JSONL). Lines that are Review Queue labelled examples
+ * are converted; blank lines and lines starting with // are skipped.
+ */
+export function parseGoldenDataset(jsonl: string): GoldenDocument[] {
+  const documents: GoldenDocument[] = [];
+  const ids = new Set<string>();
+
+  jsonl.split('\n').forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('//')) return;
+
+    let value: Record<string, unknown>;
+    try {
+      value = JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error(`Line ${index + 1}: invalid JSON (${(error as Error).message})`);
+    }
+
+    const document = isLabelledExample(value)
+      ? goldenFromLabelledExample(value as unknown as LabelledExample)
+      : (value as unknown as GoldenDocument);
+    if (!document) return;
+
+    if (typeof document.id !== 'string' || !document.id) throw new Error(`Line ${index + 1}: missing id`);
+    if (!GOLDEN_KINDS.includes(document.kind)) {
+      throw new Error(`Line ${index + 1}: kind must be one of ${GOLDEN_KINDS.join(', ')}`);
+    }
+    if (typeof document.text !== 'string') throw new Error(`Line ${index + 1}: missing text`);
+    if (!document.expected || typeof document.expected !== 'object') {
+      throw new Error(`Line ${index + 1}: missing expected`);
+    }
+    if (ids.has(document.id)) throw new Error(`Line ${index + 1}: duplicate id ${document.id}`);
+
+    ids.add(document.id);
+    documents.push(document);
+  });
+
+  return documents;
+}
@@ -0,0 +1,213 @@
+// Evaluation runner
+//
+// Runs one extractor over every golden document of its kind and scores the
+// output: field-level precision and recall, notice recall per COMMERCIAL
+// section, and signal F1. Documents the extractor fails on are listed in the
+// report and count as extracting nothing.
+
+import type { LLMClient } from '../shared/llm/index.ts';
+import type { Extraction, Extractor } from './extractors.ts';
+import type { FieldValue, GoldenDocument } from './golden.ts';
+import {
+  addCounts,
+  compareField,
+  compareSignal,
+  type Counts,
+  emptyCounts,
+  matchNotices,
+  type PredictedNotice,
+  score,
+  type Score,
+} from './metrics.ts';
+import { promptHash } from './recordings.ts';
+
+export interface SectionRecall {
+  expected: number;
+  found: number;
+  recall: number | null;
+}
+
+export interface DocumentDiscrepancies {
+  id: string;
+  error?: string;
+  missed_notices?: string[];
+  extra_notices?: string[];
+  /** Notices found under a different section than expected: "name (expected -> found)" */
+  misfiled_notices?: string[];
+  wrong_fields?: { field: string; expected: FieldValue; extracted: FieldValue | null }[];
+  wrong_signals?: { signal: string; expected: boolean; extracted: boolean }[];
+}
+
+export interface EvalReport {
+  dataset: string;
+  extractor: string;
+  description: string;
+  /** Hash of the extractor's current prompt (LLM extractors) */
+  prompt_hash: string | null;
+  /** Hash of the prompt the replayed responses were recorded with */
+  recorded_prompt_hash: string | null;
+  documents: number;
+  failed_documents: number;
+  fields: { overall: Score; by_field: Record<string, Score> } | null;
+  notices: { overall: Score; by_section: Record<string, SectionRecall> } | null;
+  signals: { micro: Score; macro_f1: number | null; by_signal: Record<string, Score> } | null;
+  discrepancies: DocumentDiscrepancies[];
+}
+
+export interface EvalOptions {
+  dataset: string;
+  /** LLM client for a document: replaying recorded responses, or live while recording */
+  llmFor?: (document: GoldenDocument) => LLMClient | null;
+  recordedPromptHash?: string | null;
+}
+
+const NOTICE_FIELDS = ['liquidators', 'registration_no', 'liquidation_date', 'final_meeting_date'] as const;
+
+function sortedRecord<T>(entries: Map<string, T>): Record<string, T> {
+  return Object.fromEntries([...entries.entries()].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function addTo(map: Map<string, Counts>, key: string, counts: Counts) {
+  map.set(key, addCounts(map.get(key) ?? emptyCounts(), counts));
+}
+
+function isWrong(counts: Counts): boolean {
+  return counts.fp > 0 || counts.fn > 0;
+}
+
+export async function runEval(documents: GoldenDocument[], extractor: Extractor, options: EvalOptions): Promise<EvalReport> {
+  const selected = documents.filter((document) => document.kind === extractor.kind);
+
+  const fieldCounts = new Map<string, Counts>();
+  const signalCounts = new Map<string, Counts>();
+  const sectionCounts = new Map<string, { expected: number; found: number }>();
+  const noticeCounts = emptyCounts();
+  let hasNotices = false;
+  let failed = 0;
+  const discrepancies: DocumentDiscrepancies[] = [];
+
+  for (const document of selected) {
+    const result: DocumentDiscrepancies = { id: document.id };
+    let extraction: Extraction;
+    try {
+      extraction = await extractor.extract(document, options.llmFor?.(document) ?? null);
+    } catch (error) {
+      failed++;
+      result.error = (error as Error).message ?? String(error);
+      extraction = {};
+    }
+
+    const expected = document.expected;
+
+    if (expected.fields) {
+      for (const [field, value] of Object.entries(expected.fields)) {
+        const extracted = extraction.fields?.[field];
+        const counts = compareField(value, extracted);
+        addTo(fieldCounts, field, counts);
+        if (isWrong(counts)) {
+          (result.wrong_fields ??= []).push({ field, expected: value, extracted: extracted ?? null });
+        }
+      }
+    }
+
+    if (expected.signals) {
+      for (const [signal, value] of Object.entries(expected.signals)) {
+        const extracted = extraction.signals?.[signal] === true;
+        const counts = compareSignal(value, extracted);
+        addTo(signalCounts, signal, counts);
+        if (isWrong(counts)) (result.wrong_signals ??= []).push({ signal, expected: value, extracted });
+      }
+    }
+
+    if (expected.notices) {
+      hasNotices = true;
+      const predicted: PredictedNotice[] = extraction.notices ?? [];
+      const { matches, unmatched } = matchNotices(expected.notices, predicted);
+
+      for (const { expected: notice, predicted: found } of matches) {
+        const section = notice.section || 'unspecified';
+        const recall = sectionCounts.get(section) ?? { expected: 0, found: 0 };
+        recall.expected++;
+        if (found) recall.found++;
+        sectionCounts.set(section, recall);
+
+        if (!found) {
+          (result.missed_notices ??= []).push(notice.entity_name);
+          continue;
+        }
+        if (notice.section && found.section && notice.section !== found.section) {
+          (result.misfiled_notices ??= []).push(`${notice.entity_name} (${notice.section} -> ${found.section})`);
+        }
+
+        // Notice fields are only scored when the golden notice lists them
+        for (const field of NOTICE_FIELDS) {
+          if (!(field in notice)) continue;
+          const counts = compareField(notice[field] ?? null, found[field]);
+          addTo(fieldCounts, `notices.${field}`, counts);
+          if (isWrong(counts)) {
+            (result.wrong_fields ??= []).push({
+              field: `${notice.entity_name}: ${field}`,
+              expected: notice[field] ?? null,
+              extracted: found[field] ?? null,
+            });
+          }
+        }
+      }
+
+      addCounts(noticeCounts, {
+        tp: matches.filter((match) => match.predicted).length,
+        fp: unmatched.length,
+        fn: matches.filter((match) => !match.predicted).length,
+      });
+      if (unmatched.length > 0) result.extra_notices = unmatched.map((notice) => notice.entity_name);
+    }
+
+    if (Object.keys(result).length > 1) discrepancies.push(result);
+  }
+
+  const fieldScores = new Map([...fieldCounts].map(([field, counts]) => [field, score(counts)]));
+  const signalScores = new Map([...signalCounts].map(([signal, counts]) => [signal, score(counts)]));
+  const signalF1s = [...signalScores.values()].map((s) => s.f1).filter((f1): f1 is number => f1 !== null);
+
+  return {
+    dataset: options.dataset,
+    extractor: extractor.name,
+    description: extractor.description,
+    prompt_hash: await promptHash(extractor.prompt),
+    recorded_prompt_hash: options.recordedPromptHash ?? null,
+    documents: selected.length,
+    failed_documents: failed,
+    fields:
+      fieldCounts.size > 0
+        ? {
+          overall: score([...fieldCounts.values()].reduce(addCounts, emptyCounts())),
+          by_field: sortedRecord(fieldScores),
+        }
+        : null,
+    notices: hasNotices
+      ? {
+        overall: score(noticeCounts),
+        by_section: sortedRecord(
+          new Map(
+            [...sectionCounts].map(([section, { expected, found }]) => [
+              section,
+              { expected, found, recall: expected > 0 ? Math.round((found / expected) * 1000) / 1000 : null },
+            ])
+          )
+        ),
+      }
+      : null,
+    signals:
+      signalCounts.size > 0
+        ? {
+          micro: score([...signalCounts.values()].reduce(addCounts, emptyCounts())),
+          macro_f1:
+            signalF1s.length > 0
+              ? Math.round((signalF1s.reduce((sum, f1) => sum + f1, 0) / signalF1s.length) * 1000) / 1000
+              : null,
+          by_signal: sortedRecord(signalScores),
+        }
+        : null,
+    discrepancies,
+  };
+}
@@ -0,0 +1,133 @@
+// Scoring
+//
+// Everything is counted as true positives, false positives and false negatives
+// so results from many documents can be summed before computing precision,
+// recall and F1:
+// - scalar field: right value = TP; wrong value = FP + FN; missing = FN; a value
+//   where none was expected = FP
+// - list field: each entry is matched on its own (names found, extra, missed)
+// - signal: expected and predicted flags per label
+// - notices: matched one to one on normalised entity name
+
+import { normalizeCompanyName } from '../shared/entity-resolution.ts';
+import { findDates } from '../shared/text-dates.ts';
+import type { ExpectedNotice, FieldValue } from './golden.ts';
+
+export interface Counts {
+  tp: number;
+  fp: number;
+  fn: number;
+}
+
+export interface Score extends Counts {
+  /** null when there was nothing to divide by */
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface PredictedNotice {
+  entity_name: string;
+  section?: string;
+  liquidators?: string[];
+  registration_no?: string | null;
+  liquidation_date?: string | null;
+  final_meeting_date?: string | null;
+}
+
+export const emptyCounts = (): Counts => ({ tp: 0, fp: 0, fn: 0 });
+
+export function addCounts(total: Counts, counts: Counts): Counts {
+  total.tp += counts.tp;
+  total.fp += counts.fp;
+  total.fn += counts.fn;
+  return total;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export function score(counts: Counts): Score {
+  const precision = counts.tp + counts.fp > 0 ? counts.tp / (counts.tp + counts.fp) : null;
+  const recall = counts.tp + counts.fn > 0 ? counts.tp / (counts.tp + counts.fn) : null;
+  const f1 =
+    precision !== null && recall !== null
+      ? precision + recall > 0
+        ? (2 * precision * recall) / (precision + recall)
+        : 0
+      : null;
+
+  return {
+    ...counts,
+    precision: precision === null ? null : round(precision),
+    recall: recall === null ? null : round(recall),
+    f1: f1 === null ? null : round(f1),
+  };
+}
+
+/**
+ * Comparable form of an extracted value: dates as ISO, text lowercased with
+ * punctuation and extra whitespace removed
+ */
+export function normalizeValue(value: string): string {
+  const dates = findDates(value, true);
+  if (dates.length === 1 && value.trim().length <= 30) return dates[0].iso;
+
+  return value
+    .toLowerCase()
+    .replace(/[.,;:'"()]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function isEmpty(value: FieldValue | undefined): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+export function compareField(expected: FieldValue, predicted: FieldValue | undefined): Counts {
+  if (Array.isArray(expected) || Array.isArray(predicted)) {
+    const expectedSet = new Set((Array.isArray(expected) ? expected : expected ? [String(expected)] : []).map(normalizeValue));
+    const predictedSet = new Set(
+      (Array.isArray(predicted) ? predicted : isEmpty(predicted) ? [] : [String(predicted)]).map(normalizeValue)
+    );
+    const tp = [...expectedSet].filter((value) => predictedSet.has(value)).length;
+    return { tp, fp: predictedSet.size - tp, fn: expectedSet.size - tp };
+  }
+
+  if (typeof expected === 'boolean') return compareSignal(expected, predicted === true);
+
+  if (isEmpty(expected)) return { tp: 0, fp: isEmpty(predicted) ? 0 : 1, fn: 0 };
+  if (isEmpty(predicted)) return { tp: 0, fp: 0, fn: 1 };
+  return normalizeValue(String(expected)) === normalizeValue(String(predicted)) ? { tp: 1, fp: 0, fn: 0 } : { tp: 0, fp: 1, fn: 1 };
+}
+
+export function compareSignal(expected: boolean, predicted: boolean): Counts {
+  return {
+    tp: expected && predicted ? 1 : 0,
+    fp: !expected && predicted ? 1 : 0,
+    fn: expected && !predicted ? 1 : 0,
+  };
+}
+
+export interface NoticeMatch {
+  expected: ExpectedNotice;
+  predicted: PredictedNotice | null;
+}
+
+/**
+ * Pair each expected notice with the predicted notice for the same entity.
+ * Predicted notices left over are false positives.
+ */
+export function matchNotices(
+  expected: ExpectedNotice[],
+  predicted: PredictedNotice[]
+): { matches: NoticeMatch[]; unmatched: PredictedNotice[] } {
+  const remaining = [...predicted];
+
+  const matches = expected.map((notice) => {
+    const name = normalizeCompanyName(notice.entity_name);
+    const index = remaining.findIndex((candidate) => normalizeCompanyName(candidate.entity_name) === name);
+    return { expected: notice, predicted: index === -1 ? null : remaining.splice(index, 1)[0] };
+  });
+
+  return { matches, unmatched: remaining };
+}
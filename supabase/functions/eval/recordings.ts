@@ -0,0 +1,64 @@
+// Recorded LLM responses
+//
+// LLM extractors are evaluated offline by replaying responses recorded from a
+// live model. A recording holds every response per golden document and task,
+// in call order, plus a hash of the extractor's prompt. When the prompt has
+// changed since recording, the report says so: re-record with the edited
+// prompt to measure it, then diff the two reports.
+
+import {
+  createLLMClient,
+  DEFAULT_MOCK_RESPONSES,
+  type LLMClient,
+  type LLMConfig,
+  type LLMTask,
+  type MockResponse,
+} from '../shared/llm/index.ts';
+
+export interface Recording {
+  extractor: string;
+  prompt_hash: string | null;
+  recorded_at: string;
+  /** Responses by golden document id, then by task, in the order they were made */
+  responses: Record<string, Partial<Record<LLMTask, string[]>>>;
+}
+
+export async function promptHash(prompt: string | undefined): Promise<string | null> {
+  if (!prompt) return null;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(prompt));
+  return Array.from(new Uint8Array(digest).slice(0, 6), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Mock client that answers with a document's recorded responses, in order.
+ * A call with no recorded response left fails rather than falling back to the
+ * mock provider's canned replies.
+ */
+export function replayClient(recording: Recording, documentId: string): LLMClient {
+  const recorded = recording.responses[documentId] ?? {};
+  const queues = new Map(Object.entries(recorded).map(([task, responses]) => [task, [...(responses ?? [])]]));
+
+  const mockResponses: Partial<Record<LLMTask, MockResponse>> = {};
+  for (const task of Object.keys(DEFAULT_MOCK_RESPONSES) as LLMTask[]) {
+    mockResponses[task] = () => {
+      const next = queues.get(task)?.shift();
+      if (next === undefined) throw new Error(`No recorded ${task} response left for ${documentId}`);
+      return next;
+    };
+  }
+
+  return createLLMClient({ mode: 'mock', mockResponses, maxRetries: 0 });
+}
+
+/**
+ * Live client that adds every response it receives to the recording
+ */
+export function recordingClient(recording: Recording, documentId: string, config: Partial<LLMConfig>): LLMClient {
+  return createLLMClient(config, {
+    onResponse: (request, response) => {
+      const byTask = (recording.responses[documentId] ??= {});
+      (byTask[request.task] ??= []).push(response.text);
+      return Promise.resolve();
+    },
+  });
+}
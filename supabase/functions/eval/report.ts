@@ -0,0 +1,97 @@
+// Markdown evaluation report
+//
+// Deterministic output (sorted keys, fixed decimals, no timestamps) so reports
+// from two runs - a prompt change, a parser change - can be diffed directly.
+
+import type { EvalReport } from './harness.ts';
+import type { FieldValue } from './golden.ts';
+import type { Score } from './metrics.ts';
+
+function formatRatio(value: number | null): string {
+  return value === null ? '-' : value.toFixed(3);
+}
+
+function formatValue(value: FieldValue | null): string {
+  if (value === null || value === '') return '(none)';
+  if (Array.isArray(value)) return value.length > 0 ? value.join('; ') : '(none)';
+  return String(value).replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+}
+
+function scoreTable(label: string, rows: [string, Score][]): string[] {
+  return [
+    `| ${label} | TP | FP | FN | Precision | Recall | F1 |`,
+    '|---|---:|---:|---:|---:|---:|---:|',
+    ...rows.map(
+      ([name, s]) =>
+        `| ${name} | ${s.tp} | ${s.fp} | ${s.fn} | ${formatRatio(s.precision)} | ${formatRatio(s.recall)} | ${formatRatio(s.f1)} |`
+    ),
+  ];
+}
+
+export function renderMarkdownReport(report: EvalReport): string {
+  const lines: string[] = [
+    `# Extraction eval: ${report.extractor}`,
+    '',
+    `- Dataset: ${report.dataset}`,
+    `- Extractor: ${report.extractor} - ${report.description}`,
+    `- Documents: ${report.documents} (${report.failed_documents} failed)`,
+  ];
+
+  if (report.prompt_hash) lines.push(`- Prompt hash: ${report.prompt_hash}`);
+  if (report.recorded_prompt_hash) lines.push(`- Recorded with prompt: ${report.recorded_prompt_hash}`);
+  if (report.prompt_hash && report.recorded_prompt_hash && report.prompt_hash !== report.recorded_prompt_hash) {
+    lines.push(
+      '',
+      '> **Warning:** the prompt has changed since these responses were recorded. Scores reflect the old prompt; re-record with --record to measure the current one.'
+    );
+  }
+
+  if (report.fields) {
+    lines.push('', '## Fields', '', ...scoreTable('Field', [['**overall**', report.fields.overall], ...Object.entries(report.fields.by_field)]));
+  }
+
+  if (report.notices) {
+    lines.push(
+      '',
+      '## Notices',
+      '',
+      ...scoreTable('Notices', [['**overall**', report.notices.overall]]),
+      '',
+      '| Section | Expected | Found | Recall |',
+      '|---|---:|---:|---:|',
+      ...Object.entries(report.notices.by_section).map(
+        ([section, recall]) => `| ${section} | ${recall.expected} | ${recall.found} | ${formatRatio(recall.recall)} |`
+      )
+    );
+  }
+
+  if (report.signals) {
+    lines.push(
+      '',
+      '## Signals',
+      '',
+      `Macro F1: ${formatRatio(report.signals.macro_f1)}`,
+      '',
+      ...scoreTable('Signal', [['**micro**', report.signals.micro], ...Object.entries(report.signals.by_signal)])
+    );
+  }
+
+  if (report.discrepancies.length > 0) {
+    lines.push('', '## Discrepancies');
+    for (const document of [...report.discrepancies].sort((a, b) => a.id.localeCompare(b.id))) {
+      lines.push('', `### ${document.id}`, '');
+      if (document.error) lines.push(`- Error: ${document.error}`);
+      for (const name of document.missed_notices ?? []) lines.push(`- Missed notice: ${name}`);
+      for (const name of document.extra_notices ?? []) lines.push(`- Extra notice: ${name}`);
+      for (const name of document.misfiled_notices ?? []) lines.push(`- Misfiled notice: ${name}`);
+      for (const field of document.wrong_fields ?? []) {
+        lines.push(`- ${field.field}: expected ${formatValue(field.expected)}, got ${formatValue(field.extracted)}`);
+      }
+      for (const signal of document.wrong_signals ?? []) {
+        lines.push(`- ${signal.signal}: expected ${signal.expected}, got ${signal.extracted}`);
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,93 @@
+/**
+ * Extraction eval CLI
+ *
+ *   deno run --allow-read --allow-write --allow-env --allow-net supabase/functions/eval/run.ts \
+ *     --dataset golden.jsonl --extractor notice-parser [--recordings recording.json] [--record] [--out report]
+ *
+ * Writes <out>.json and <out>.md (default eval-<extractor>) and prints the
+ * markdown. LLM extractors replay --recordings; with --record they call the
+ * live model (OPENAI_API_KEY / ANTHROPIC_API_KEY, LLM_PROVIDER) and save the
+ * responses to the --recordings file instead.
+ */
+
+import { EXTRACTORS } from './extractors.ts';
+import { parseGoldenDataset } from './golden.ts';
+import { runEval } from './harness.ts';
+import { promptHash, type Recording, recordingClient, replayClient } from './recordings.ts';
+import { renderMarkdownReport } from './report.ts';
+
+function parseArgs(args: string[]): Record<string, string | true> {
+  const options: Record<string, string | true> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) throw new Error(`Unexpected argument: ${args[i]}`);
+    const key = args[i].slice(2);
+    const next = args[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      options[key] = next;
+      i++;
+    } else {
+      options[key] = true;
+    }
+  }
+  return options;
+}
+
+if (import.meta.main) {
+  const options = parseArgs(Deno.args);
+  const dataset = options.dataset;
+  const extractor = typeof options.extractor === 'string' ? EXTRACTORS[options.extractor] : undefined;
+  const recordingsPath = typeof options.recordings === 'string' ? options.recordings : null;
+
+  if (typeof dataset !== 'string' || !extractor) {
+    console.error(`Usage: run.ts --dataset <file.jsonl> --extractor <${Object.keys(EXTRACTORS).join('|')}>`);
+    console.error('         [--recordings <file.json>] [--record] [--out <path>]');
+    Deno.exit(1);
+  }
+  if (options.record && !recordingsPath) {
+    console.error('--record needs --recordings <file.json> to write the responses to');
+    Deno.exit(1);
+  }
+
+  const documents = parseGoldenDataset(await Deno.readTextFile(dataset));
+  let recording: Recording | null = null;
+
+  if (options.record) {
+    recording = {
+      extractor: extractor.name,
+      prompt_hash: await promptHash(extractor.prompt),
+      recorded_at: new Date().toISOString(),
+      responses: {},
+    };
+  } else if (recordingsPath) {
+    recording = JSON.parse(await Deno.readTextFile(recordingsPath)) as Recording;
+    if (recording.extractor !== extractor.name) {
+      console.error(`${recordingsPath} was recorded for ${recording.extractor}, not ${extractor.name}`);
+      Deno.exit(1);
+    }
+  }
+
+  const liveConfig = {
+    mode: Deno.env.get('LLM_PROVIDER') === 'mock' ? ('mock' as const) : ('auto' as const),
+    keys: { openai: Deno.env.get('OPENAI_API_KEY') ?? null, anthropic: Deno.env.get('ANTHROPIC_API_KEY') ?? null },
+  };
+
+  const report = await runEval(documents, extractor, {
+    dataset,
+    llmFor: recording
+      ? (document) =>
+        options.record ? recordingClient(recording!, document.id, liveConfig) : replayClient(recording!, document.id)
+      : undefined,
+    recordedPromptHash: options.record ? null : recording?.prompt_hash ?? null,
+  });
+
+  if (options.record && recordingsPath) {
+    await Deno.writeTextFile(recordingsPath, JSON.stringify(recording, null, 2) + '\n');
+    console.error(`Recorded responses for ${Object.keys(recording!.responses).length} documents to ${recordingsPath}`);
+  }
+
+  const out = typeof options.out === 'string' ? options.out : `eval-${extractor.name}`;
+  const markdown = renderMarkdownReport(report);
+  await Deno.writeTextFile(`${out}.json`, JSON.stringify(report, null, 2) + '\n');
+  await Deno.writeTextFile(`${out}.md`, markdown);
+  console.log(markdown);
+}
@@ -0,0 +1,137 @@
+/**
+ * Tests for the extraction eval harness
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/eval/tests/
+ */
+
+import { assert, assertEquals, assertRejects, assertStringIncludes, assertThrows } from "jsr:@std/assert@1";
+import { EXTRACTORS } from "../extractors.ts";
+import { type GoldenDocument, parseGoldenDataset } from "../golden.ts";
+import { runEval } from "../harness.ts";
+import { compareField, score } from "../metrics.ts";
+import { promptHash, type Recording, replayClient } from "../recordings.ts";
+import { renderMarkdownReport } from "../report.ts";
+
+async function loadDataset(): Promise<GoldenDocument[]> {
+  return parseGoldenDataset(await Deno.readTextFile(new URL("./fixtures/golden.jsonl", import.meta.url)));
+}
+
+async function loadRecording(): Promise<Recording> {
+  return JSON.parse(
+    await Deno.readTextFile(new URL("./fixtures/article-classifier.recording.json", import.meta.url))
+  );
+}
+
+Deno.test("compares dates, text and list fields", () => {
+  assertEquals(compareField("2025-03-03", "3rd March 2025"), { tp: 1, fp: 0, fn: 0 });
+  assertEquals(compareField("Walkers (Cayman) LLP", "walkers cayman llp"), { tp: 1, fp: 0, fn: 0 });
+  assertEquals(compareField("FSD 45 of 2025", "FSD 54 of 2025"), { tp: 0, fp: 1, fn: 1 });
+  assertEquals(compareField("FSD 45 of 2025", null), { tp: 0, fp: 0, fn: 1 });
+  assertEquals(compareField(null, "FSD 45 of 2025"), { tp: 0, fp: 1, fn: 0 });
+  assertEquals(compareField(["John Smith", "Jane Doe"], ["John Smith", "Peter Jones"]), { tp: 1, fp: 1, fn: 1 });
+
+  assertEquals(score({ tp: 3, fp: 1, fn: 0 }), { tp: 3, fp: 1, fn: 0, precision: 0.75, recall: 1, f1: 0.857 });
+  assertEquals(score({ tp: 0, fp: 0, fn: 0 }).f1, null);
+});
+
+Deno.test("parses golden datasets and converts labelled examples", async () => {
+  const documents = await loadDataset();
+
+  assertEquals(documents.map((d) => d.id), ["article-fraud", "article-unrelated", "case-petition", "ex-1"]);
+  assertEquals(documents[3].kind, "article");
+  assertEquals(documents[3].source, "review:article:a-1");
+  assertEquals(documents[3].expected, { signals: { cayman_related: true, misstated_financials: true } });
+
+  assertThrows(
+    () => parseGoldenDataset('{"id": "x", "kind": "pdf", "text": "", "expected": {}}'),
+    Error,
+    "Line 1: kind must be one of"
+  );
+});
+
+Deno.test("scores keyword heuristics against article signals", async () => {
+  const report = await runEval(await loadDataset(), EXTRACTORS["cayman-heuristics"], { dataset: "golden.jsonl" });
+
+  assertEquals(report.documents, 3);
+  assertEquals(report.fields, null);
+  assertEquals(report.notices, null);
+  assertEquals(report.signals?.micro, { tp: 5, fp: 0, fn: 0, precision: 1, recall: 1, f1: 1 });
+  assertEquals(report.discrepancies, []);
+});
+
+Deno.test("scores notice recall per section with the rule-based parser", async () => {
+  const text = await Deno.readTextFile(
+    new URL("../../analyze-gazette-with-claude/tests/fixtures/section-start-pages.txt", import.meta.url)
+  );
+  const gazette: GoldenDocument = {
+    id: "gazette-21-2025",
+    kind: "gazette",
+    text,
+    expected: {
+      notices: [
+        { section: "liquidation", entity_name: "Alder Creek Fund Ltd", liquidators: ["Jane Smith"], liquidation_date: "1 October 2025" },
+        { section: "liquidation", entity_name: "CORAL REEF SPC", registration_no: "999999" },
+        { section: "liquidation", entity_name: "MISSING HOLDINGS LTD" },
+        { section: "final_meeting", entity_name: "DRIFTWOOD CAPITAL LTD", final_meeting_date: "2025-11-20" },
+      ],
+    },
+  };
+
+  const report = await runEval([gazette], EXTRACTORS["notice-parser"], { dataset: "inline" });
+
+  assertEquals(report.notices?.by_section, {
+    final_meeting: { expected: 1, found: 1, recall: 1 },
+    liquidation: { expected: 3, found: 2, recall: 0.667 },
+  });
+  assertEquals(report.notices?.overall.fp, 4);
+  assertEquals(report.fields?.by_field["notices.liquidators"].tp, 1);
+  assertEquals(report.fields?.by_field["notices.liquidation_date"].tp, 1);
+  assertEquals(report.fields?.by_field["notices.registration_no"].fn, 1);
+
+  const [discrepancy] = report.discrepancies;
+  assertEquals(discrepancy.missed_notices, ["MISSING HOLDINGS LTD"]);
+  assertEquals(discrepancy.wrong_fields?.map((f) => f.field), ["CORAL REEF SPC: registration_no"]);
+});
+
+Deno.test("replays recorded responses for the article classifier", async () => {
+  const recording = await loadRecording();
+  const report = await runEval(await loadDataset(), EXTRACTORS["article-classifier"], {
+    dataset: "golden.jsonl",
+    llmFor: (document) => replayClient(recording, document.id),
+    recordedPromptHash: recording.prompt_hash,
+  });
+
+  assertEquals(report.failed_documents, 0);
+  assertEquals(report.signals?.micro, { tp: 4, fp: 0, fn: 1, precision: 1, recall: 0.8, f1: 0.889 });
+  assertEquals(report.signals?.by_signal.enforcement.recall, 0);
+  assertEquals(report.discrepancies, [
+    { id: "article-fraud", wrong_signals: [{ signal: "enforcement", expected: true, extracted: false }] },
+  ]);
+  assertEquals(report.prompt_hash, await promptHash(EXTRACTORS["article-classifier"].prompt));
+
+  const markdown = renderMarkdownReport(report);
+  assertStringIncludes(markdown, "the prompt has changed since these responses were recorded");
+  assertStringIncludes(markdown, "| enforcement | 0 | 0 | 1 | - | 0.000 | - |");
+  assertStringIncludes(markdown, "- enforcement: expected true, got false");
+  assertEquals(renderMarkdownReport(report), markdown);
+});
+
+Deno.test("fails a document when its recorded responses run out", async () => {
+  const recording = await loadRecording();
+  const client = replayClient(recording, "missing-document");
+
+  await assertRejects(
+    () => client.complete({ task: "article_classification", messages: [{ role: "user", content: "x" }] }),
+    Error,
+    "No recorded article_classification response left for missing-document"
+  );
+
+  const [article] = await loadDataset();
+  const report = await runEval([{ ...article, id: "missing-document" }], EXTRACTORS["article-classifier"], {
+    dataset: "inline",
+    llmFor: (document) => replayClient(recording, document.id),
+  });
+  assertEquals(report.failed_documents, 1);
+  assert(report.discrepancies[0].error);
+});
@@ -1,6 +1,24 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
 import { PDFExtract } from 'npm:pdf.js-extract@0.2.1';
-import { shouldTriggerOCR, identifyRelevantPages } from './extraction-patterns.ts';
+import {
+  calculateExtractionQuality,
+  consolidateExtractionResults,
+  extractTargetedFields,
+  identifyMissingFields,
+  shouldTriggerOCR,
+} from '../shared/extraction-patterns.ts';
+import { formatError } from '../shared/monitor-utils.ts';
+import { loadRowPdf, storePdf } from '../shared/pdf-storage.ts';
+import {
+  lowConfidenceReviewItems,
+  mergeOcrText,
+  saveOcrPages,
+  selectOcrPages,
+  type OcrRunResult,
+} from '../shared/ocr.ts';
+import { LOCAL_OCR_PROVIDERS, runLocalOcr } from '../shared/ocr-engines.ts';
+import { loadSecret } from '../shared/secrets.ts';
+import { requireRole } from '../shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -25,6 +43,9 @@ Deno.serve(async (req: Request) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+    if (user instanceof Response) return user;
+
     const { case_id }: ExtractionRequest = await req.json();
 
     if (!case_id) {
@@ -38,7 +59,7 @@ Deno.serve(async (req: Request) => {
 
     const { data: caseData, error: caseError } = await supabase
       .from('cases')
-      .select('pdf_bytes, pdf_url')
+      .select('pdf_object_id, pdf_bytes, pdf_url, extraction_metadata')
       .eq('id', case_id)
       .single();
 
@@ -46,17 +67,18 @@ Deno.serve(async (req: Request) => {
       throw new Error(`Case not found: ${case_id}`);
     }
 
-    if (!caseData.pdf_bytes) {
+    const pdfBytes = await loadRowPdf(supabase, caseData);
+    if (!pdfBytes) {
       throw new Error('No PDF data available for this case');
     }
 
-    const pdfBytes = new Uint8Array(caseData.pdf_bytes);
     console.log(`Processing PDF: ${pdfBytes.length} bytes`);
 
     let extractedText = '';
     let ocrUsed = false;
     let extractionConfidence = 'high';
-    let relevantPagesOnly = false;
+    let ocrRun: OcrRunResult | null = null;
+    let pdfObjectId: string | null = caseData.pdf_object_id;
 
     try {
       const pdfExtractor = new PDFExtract();
@@ -80,21 +102,37 @@ Deno.serve(async (req: Request) => {
 
         const { data: settings } = await supabase
           .from('app_settings')
-          .select('ocr_provider, ocr_api_key')
+          .select('ocr_provider')
           .maybeSingle();
+        const ocrApiKey = await loadSecret(supabase, 'ocr_api_key');
 
-        if (settings?.ocr_api_key) {
-          console.log(`Attempting selective OCR with ${settings.ocr_provider}...`);
+        const provider = settings?.ocr_provider || 'tesseract';
 
-          const relevantPages = identifyRelevantPages(extractedText);
-          console.log(`Identified ${relevantPages.length} relevant pages for OCR: ${relevantPages.join(', ')}`);
+        if (LOCAL_OCR_PROVIDERS.includes(provider) || !ocrApiKey) {
+          const pages = selectOcrPages(extractedText, data.pages.length);
+          console.log(`Running local OCR on ${pages.length} of ${data.pages.length} pages: ${pages.join(', ')}`);
 
-          if (relevantPages.length > 0 && relevantPages.length < data.pages.length) {
-            relevantPagesOnly = true;
-            console.log('Processing only relevant pages to save time and costs');
+          // OCR pages are keyed by the stored PDF, so move legacy bytea cases into storage first
+          if (!pdfObjectId) {
+            const { object } = await storePdf(supabase, pdfBytes, { sourceUrl: caseData.pdf_url });
+            pdfObjectId = object.id;
           }
 
-          const ocrResult = await performOCR(pdfBytes, settings.ocr_provider, settings.ocr_api_key);
+          ocrRun = await runLocalOcr(pdfBytes, pages);
+          const merged = mergeOcrText(extractedText, ocrRun.pages, data.pages.length);
+
+          if (merged.replaced_pages.length > 0) {
+            extractedText = merged.text;
+            ocrUsed = true;
+            extractionConfidence = ocrRun.low_confidence_pages.length === 0 ? 'medium' : 'low';
+          }
+          console.log(
+            `Local OCR replaced ${merged.replaced_pages.length} pages, mean confidence ${ocrRun.mean_confidence ?? 'n/a'}`
+          );
+        } else {
+          console.log(`Attempting OCR with ${provider}...`);
+
+          const ocrResult = await performOCR(pdfBytes, provider, ocrApiKey);
 
           if (ocrResult.success && ocrResult.text) {
             extractedText = ocrResult.text;
@@ -102,8 +140,6 @@ Deno.serve(async (req: Request) => {
             extractionConfidence = 'medium';
             console.log(`OCR successful: ${ocrResult.text.split(/\s+/).length} words`);
           }
-        } else {
-          console.log('OCR not configured, using low-confidence extraction');
         }
       }
     } catch (error) {
@@ -112,20 +148,47 @@ Deno.serve(async (req: Request) => {
       throw error;
     }
 
+    const update: Record<string, unknown> = {
+      pdf_text: extractedText,
+      pdf_object_id: pdfObjectId,
+      ocr_used: ocrUsed,
+      extraction_confidence: extractionConfidence,
+      status: 'text_extracted',
+      updated_at: new Date().toISOString(),
+    };
+
+    const ocrPageIds = ocrRun ? await saveOcrPages(supabase, pdfObjectId!, ocrRun) : new Map<number, string>();
+
+    if (ocrUsed || ocrRun) {
+      update.extraction_metadata = {
+        ...(caseData.extraction_metadata || {}),
+        // Fields the text layer could not give us may now be readable in the OCR text
+        ...(ocrUsed && { targeted_extraction: runTargetedExtraction(extractedText) }),
+        ...(ocrRun && {
+          ocr: {
+            engine: ocrRun.engine,
+            dpi: ocrRun.dpi,
+            pages: ocrRun.pages.map(({ page, confidence, word_count, error }) => ({ page, confidence, word_count, error })),
+            mean_confidence: ocrRun.mean_confidence,
+            low_confidence_pages: ocrRun.low_confidence_pages,
+          },
+        }),
+      };
+    }
+
     const { error: updateError } = await supabase
       .from('cases')
-      .update({
-        pdf_text: extractedText,
-        ocr_used: ocrUsed,
-        extraction_confidence: extractionConfidence,
-        status: 'text_extracted',
-        updated_at: new Date().toISOString(),
-      })
+      .update(update)
       .eq('id', case_id);
 
     if (updateError) throw updateError;
 
-    if (extractionConfidence === 'low' || extractionConfidence === 'failed') {
+    const ocrReviewItems = ocrRun ? lowConfidenceReviewItems(ocrRun, ocrPageIds, { case_id }) : [];
+
+    if (ocrReviewItems.length > 0) {
+      const { error: queueError } = await supabase.from('review_queue').insert(ocrReviewItems);
+      if (queueError) console.error('Failed to queue low-confidence OCR pages:', queueError);
+    } else if (extractionConfidence === 'low' || extractionConfidence === 'failed') {
       await supabase.from('review_queue').insert({
         item_type: 'case',
         item_id: case_id,
@@ -141,6 +204,8 @@ Deno.serve(async (req: Request) => {
         text_length: extractedText.length,
         word_count: extractedText.split(/\s+/).filter(w => w.length > 0).length,
         ocr_used: ocrUsed,
+        ocr_mean_confidence: ocrRun?.mean_confidence ?? null,
+        ocr_low_confidence_pages: ocrRun?.low_confidence_pages ?? [],
         confidence: extractionConfidence,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -151,7 +216,7 @@ Deno.serve(async (req: Request) => {
     return new Response(
       JSON.stringify({
         success: false,
-        error: error.message,
+        error: formatError(error),
       }),
       {
         status: 500,
@@ -161,6 +226,22 @@ Deno.serve(async (req: Request) => {
   }
 });
 
+function runTargetedExtraction(text: string) {
+  const results = extractTargetedFields(text).map((result) => ({ ...result, method: 'ocr' as const }));
+  const { data: fields, metadata } = consolidateExtractionResults(results);
+  const extracted = Object.keys(fields);
+  const extractedAt = new Date().toISOString();
+
+  return {
+    fields,
+    metadata: Object.fromEntries(
+      Object.entries(metadata).map(([field, meta]) => [field, { ...meta, extracted_at: extractedAt }])
+    ),
+    missing: identifyMissingFields(extracted),
+    quality_score: calculateExtractionQuality(extracted),
+  };
+}
+
 async function performOCR(
   pdfBytes: Uint8Array,
   provider: string,
@@ -214,6 +295,6 @@ async function performOCR(
 
     return { success: false, error: `Unknown OCR provider: ${provider}` };
   } catch (error) {
-    return { success: false, error: error.message };
+    return { success: false, error: formatError(error) };
   }
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
-import type { ArticleRow, EntityRow } from '../shared/monitor-types-simplified.ts';
+import type { ArticleRow, EntityRow } from '../shared/monitor-types.ts';
+import { loadLLMClient, type LLMClient } from '../shared/llm/index.ts';
+import { requireRole } from '../shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -23,6 +25,18 @@ interface ExtractedEntity {
 function extractEntitiesFromMeta(meta: any): ExtractedEntity[] {
   const entities: ExtractedEntity[] = [];
 
+  // Articles merged from the first monitor carry its classifier's entities
+  if (Array.isArray(meta?.cayman_entities)) {
+    for (const entity of meta.cayman_entities) {
+      if (entity?.name && typeof entity.name === 'string') {
+        entities.push({
+          name: entity.name.trim(),
+          type: entity.type || 'ORG',
+        });
+      }
+    }
+  }
+
   if (!meta?.raw_classifier?.entities) {
     return entities;
   }
@@ -73,7 +87,7 @@ function extractEntitiesFromMeta(meta: any): ExtractedEntity[] {
  */
 async function extractEntitiesWithLLM(
   article: ArticleRow,
-  openaiKey: string
+  llm: LLMClient
 ): Promise<ExtractedEntity[]> {
   const text = article.title || '';
   const excerpt = article.excerpt || '';
@@ -84,49 +98,15 @@ async function extractEntitiesWithLLM(
   }
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'Extract entities from text. Return JSON: {"orgs": [], "people": [], "locations": []}',
-          },
-          {
-            role: 'user',
-            content: combinedText,
-          },
-        ],
-        temperature: 0.3,
-        max_tokens: 200,
-      }),
+    const { data: parsed } = await llm.completeJSON<{ orgs?: string[]; people?: string[]; locations?: string[] }>({
+      task: 'entity_extraction',
+      system: 'Extract entities from text. Return JSON: {"orgs": [], "people": [], "locations": []}',
+      messages: [{ role: 'user', content: combinedText }],
+      temperature: 0.3,
+      maxTokens: 200,
+      json: true,
     });
 
-    if (!response.ok) {
-      console.error(`LLM API error: ${response.status}`);
-      return [];
-    }
-
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content;
-
-    if (!content) {
-      return [];
-    }
-
-    // Parse response
-    let parsed;
-    try {
-      parsed = JSON.parse(content);
-    } catch {
-      return [];
-    }
-
     const entities: ExtractedEntity[] = [];
 
     if (Array.isArray(parsed.orgs)) {
@@ -255,6 +235,9 @@ Deno.serve(async (req) => {
     Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
   );
 
+  const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+  if (user instanceof Response) return user;
+
   try {
     // Parse request
     const body: ExtractRequest = await req.json().catch(() => ({}));
@@ -273,7 +256,7 @@ Deno.serve(async (req) => {
         body,
         meta
       `)
-      .not('cayman_flag', 'is', null)
+      .eq('status', 'classified')
       .order('published_at', { ascending: false })
       .limit(limit);
 
@@ -335,8 +318,9 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Get OpenAI key for fallback extraction
-    const openaiKey = Deno.env.get('OPENAI_API_KEY');
+    // LLM for fallback extraction
+    const llm = await loadLLMClient(supabase, 'extract_entities');
+    const llmAvailable = llm.isAvailable('entity_extraction');
 
     let processed = 0;
     let totalLinked = 0;
@@ -347,9 +331,10 @@ Deno.serve(async (req) => {
         // Extract entities from metadata or use LLM fallback
         let entities = extractEntitiesFromMeta(article.meta);
 
-        if (entities.length === 0 && openaiKey) {
+        // Once the budget is spent, only classifier metadata is used
+        if (entities.length === 0 && llmAvailable && !llm.budget?.status().exhausted) {
           console.log(`No entities in meta for ${article.id}, using LLM fallback`);
-          entities = await extractEntitiesWithLLM(article, openaiKey);
+          entities = await extractEntitiesWithLLM(article, llm);
         }
 
         if (entities.length === 0) {
@@ -404,6 +389,8 @@ Deno.serve(async (req) => {
         processed,
         linked: totalLinked,
         candidates: articlesNeedingLinks.length,
+        budget_exhausted: llm.budget?.status().reason ?? null,
+        tokens_used: llm.usage.summary(),
       }),
       {
         status: 200,
@@ -0,0 +1,286 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  fetchArticleContent,
+  fetchRobotsTxt,
+  isAllowedByRobots,
+  parseRobotsTxt,
+  type RobotsRules,
+} from '../shared/article-content.ts';
+import { formatError } from '../shared/monitor-utils.ts';
+import { requireRole } from '../shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const MONITOR_SETTINGS_ID = '00000000-0000-0000-0000-000000000002';
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+// Transient failures (timeouts, 429s, 5xx) are retried this many times, an hour apart per attempt
+const MAX_FETCH_ATTEMPTS = 3;
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+// Stop starting new fetches after this long so the run finishes inside the edge function limit
+const RUN_BUDGET_MS = 100_000;
+
+interface FetchRequest {
+  limit?: number;
+  article_ids?: string[];
+}
+
+interface DomainState {
+  domain: string;
+  robots_txt: string | null;
+  robots_fetched_at: string | null;
+  crawl_delay_seconds: number | null;
+  last_fetched_at: string | null;
+}
+
+interface PendingArticle {
+  id: string;
+  url: string;
+  title: string | null;
+  excerpt: string | null;
+  meta: Record<string, unknown> | null;
+  content_fetch_attempts: number | null;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+    if (user instanceof Response) return user;
+
+    const body: FetchRequest = await req.json().catch(() => ({}));
+    const limit = Math.min(body.limit || DEFAULT_LIMIT, MAX_LIMIT);
+
+    const { data: settings } = await supabase
+      .from('monitor_settings')
+      .select('content_fetch_enabled, content_fetch_delay_seconds')
+      .eq('id', MONITOR_SETTINGS_ID)
+      .maybeSingle();
+
+    if (settings?.content_fetch_enabled === false) {
+      return new Response(
+        JSON.stringify({ success: true, message: 'Content fetching is disabled', processed: 0 }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const minDelaySeconds = settings?.content_fetch_delay_seconds ?? 10;
+    const now = new Date().toISOString();
+
+    let query = supabase
+      .from('articles')
+      .select('id, url, title, excerpt, meta, content_fetch_attempts')
+      .eq('content_fetch_status', 'pending')
+      .or(`content_fetch_retry_at.is.null,content_fetch_retry_at.lte.${now}`)
+      .order('published_at', { ascending: false })
+      .limit(limit);
+
+    if (body.article_ids && body.article_ids.length > 0) {
+      query = query.in('id', body.article_ids);
+    }
+
+    const { data: articles, error: fetchError } = await query;
+
+    if (fetchError) {
+      throw new Error(`Failed to load articles awaiting content: ${fetchError.message}`);
+    }
+
+    if (!articles || articles.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, message: 'No articles awaiting content', processed: 0 }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Fetching content for ${articles.length} articles`);
+
+    const startedAt = Date.now();
+    const domains = new Map<string, DomainState>();
+    const robots = new Map<string, RobotsRules>();
+    const counts = { fetched: 0, paywalled: 0, blocked: 0, failed: 0, retrying: 0, deferred: 0 };
+
+    async function domainState(hostname: string): Promise<DomainState> {
+      const cached = domains.get(hostname);
+      if (cached) return cached;
+
+      const { data } = await supabase
+        .from('article_fetch_domains')
+        .select('domain, robots_txt, robots_fetched_at, crawl_delay_seconds, last_fetched_at')
+        .eq('domain', hostname)
+        .maybeSingle();
+
+      const state: DomainState = data ?? {
+        domain: hostname,
+        robots_txt: null,
+        robots_fetched_at: null,
+        crawl_delay_seconds: null,
+        last_fetched_at: null,
+      };
+      domains.set(hostname, state);
+      return state;
+    }
+
+    async function saveDomainState(state: DomainState): Promise<void> {
+      const { error } = await supabase
+        .from('article_fetch_domains')
+        .upsert({ ...state, updated_at: new Date().toISOString() }, { onConflict: 'domain' });
+      if (error) console.error(`Failed to save fetch state for ${state.domain}:`, error);
+    }
+
+    async function record(article: PendingArticle, update: Record<string, unknown>): Promise<void> {
+      const { error } = await supabase.from('articles').update(update).eq('id', article.id);
+      if (error) console.error(`Failed to update article ${article.id}:`, error);
+    }
+
+    for (const article of articles as PendingArticle[]) {
+      if (Date.now() - startedAt > RUN_BUDGET_MS) {
+        counts.deferred++;
+        continue;
+      }
+
+      const attempts = (article.content_fetch_attempts ?? 0) + 1;
+
+      let target: URL;
+      try {
+        target = new URL(article.url);
+      } catch {
+        counts.failed++;
+        await record(article, {
+          content_fetch_status: 'failed',
+          content_fetch_error: 'Invalid URL',
+          content_fetch_attempts: attempts,
+          content_fetched_at: new Date().toISOString(),
+        });
+        continue;
+      }
+
+      const state = await domainState(target.hostname);
+
+      // robots.txt, refreshed daily; an unreachable one puts the site off until later
+      let rules = robots.get(target.hostname);
+      if (!rules) {
+        const stale = !state.robots_fetched_at || Date.now() - new Date(state.robots_fetched_at).getTime() > ROBOTS_TTL_MS;
+        if (stale) {
+          try {
+            state.robots_txt = await fetchRobotsTxt(target.origin);
+            state.robots_fetched_at = new Date().toISOString();
+          } catch (error) {
+            // Counts as an attempt, so a site whose robots.txt never answers is given up on
+            const giveUp = attempts >= MAX_FETCH_ATTEMPTS;
+            console.log(`robots.txt unavailable for ${target.hostname}: ${formatError(error)}`);
+            if (giveUp) {
+              counts.failed++;
+            } else {
+              counts.retrying++;
+            }
+            await record(article, {
+              content_fetch_status: giveUp ? 'failed' : 'pending',
+              content_fetch_error: `robots.txt unavailable: ${formatError(error)}`,
+              content_fetch_attempts: attempts,
+              content_fetched_at: new Date().toISOString(),
+              content_fetch_retry_at: giveUp ? null : new Date(Date.now() + attempts * 60 * 60 * 1000).toISOString(),
+            });
+            continue;
+          }
+        }
+        rules = parseRobotsTxt(state.robots_txt || '');
+        state.crawl_delay_seconds = rules.crawlDelaySeconds;
+        robots.set(target.hostname, rules);
+        if (stale) await saveDomainState(state);
+      }
+
+      if (!isAllowedByRobots(rules, `${target.pathname}${target.search}`)) {
+        counts.blocked++;
+        await record(article, {
+          content_fetch_status: 'blocked',
+          content_fetch_error: 'Disallowed by robots.txt',
+          content_fetch_attempts: attempts,
+          content_fetched_at: new Date().toISOString(),
+        });
+        continue;
+      }
+
+      // One request per site per delay window; the rest wait for a later run
+      const delayMs = Math.max(minDelaySeconds, state.crawl_delay_seconds ?? 0) * 1000;
+      if (state.last_fetched_at && Date.now() - new Date(state.last_fetched_at).getTime() < delayMs) {
+        counts.deferred++;
+        continue;
+      }
+
+      const result = await fetchArticleContent(article.url);
+      state.last_fetched_at = new Date().toISOString();
+      await saveDomainState(state);
+
+      if (result.status === 'fetched') {
+        counts.fetched++;
+        // New text means a new classification
+        await record(article, {
+          body: result.article.text,
+          excerpt: result.article.excerpt || article.excerpt,
+          title: article.title || result.article.title,
+          content_fetch_status: 'fetched',
+          content_fetch_error: null,
+          content_fetch_attempts: attempts,
+          content_fetched_at: state.last_fetched_at,
+          content_fetch_retry_at: null,
+          status: 'pending',
+          meta: {
+            ...(article.meta || {}),
+            content_fetch: { final_url: result.final_url, word_count: result.article.word_count },
+          },
+        });
+        continue;
+      }
+
+      const giveUp = !result.retryable || attempts >= MAX_FETCH_ATTEMPTS;
+      if (giveUp) {
+        counts[result.status]++;
+      } else {
+        counts.retrying++;
+      }
+
+      console.log(`Content fetch ${giveUp ? result.status : 'retrying'} for ${article.url}: ${result.error}`);
+
+      await record(article, {
+        content_fetch_status: giveUp ? result.status : 'pending',
+        content_fetch_error: result.error,
+        content_fetch_attempts: attempts,
+        content_fetched_at: state.last_fetched_at,
+        content_fetch_retry_at: giveUp ? null : new Date(Date.now() + attempts * 60 * 60 * 1000).toISOString(),
+      });
+    }
+
+    console.log(
+      `Content fetch complete: ${counts.fetched} fetched, ${counts.paywalled} paywalled, ${counts.blocked} blocked, ` +
+        `${counts.failed} failed, ${counts.retrying} to retry, ${counts.deferred} deferred`
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        processed: articles.length - counts.deferred,
+        ...counts,
+        requeued: counts.fetched,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Content fetch failed:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: formatError(error) }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
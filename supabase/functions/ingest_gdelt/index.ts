@@ -1,4 +1,7 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import type { GDELTResponse } from '../shared/monitor-types.ts';
+import { containsCaymanKeywords } from '../shared/monitor-utils.ts';
+import { requireRole } from '../shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,21 +20,6 @@ const CAYMAN_SEED_TERMS = [
   '"Exempted Company"',
 ];
 
-interface GDELTArticle {
-  url: string;
-  url_mobile?: string;
-  title: string;
-  seendate: string; // Format: YYYYMMDDTHHMMSSZ
-  socialimage?: string;
-  domain: string;
-  language: string;
-  sourcecountry?: string;
-}
-
-interface GDELTResponse {
-  articles?: GDELTArticle[];
-}
-
 /**
  * Extract domain from URL
  */
@@ -101,6 +89,9 @@ Deno.serve(async (req) => {
     Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
   );
 
+  const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+  if (user instanceof Response) return user;
+
   let runId: string | null = null;
 
   try {
@@ -109,17 +100,29 @@ Deno.serve(async (req) => {
     const requestedSince = body.since;
     const customQuery = body.q;
 
-    // Default since: 24 hours ago
-    const since = requestedSince || new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    // Default since: 24 hours ago (lookback_hours is what the monitor-* shims send)
+    const lookbackHours = Number(body.lookback_hours) || 24;
+    const since = requestedSince || new Date(Date.now() - lookbackHours * 60 * 60 * 1000).toISOString();
     
     console.log(`Starting GDELT ingestion. Since: ${since}`);
 
+    // Keywords recorded on each article for reviewers; relevance is still
+    // decided by classify_articles
+    const { data: settings } = await supabase
+      .from('monitor_settings')
+      .select('cayman_keywords, content_fetch_enabled')
+      .eq('id', '00000000-0000-0000-0000-000000000002')
+      .maybeSingle();
+    const caymanKeywords: string[] = settings?.cayman_keywords || [];
+
     // Create ingest_runs record
     const { data: run, error: runError } = await supabase
       .from('ingest_runs')
       .insert({
         source: 'gdelt',
         status: 'started',
+        triggered_by: body.triggered_by || 'manual',
+        meta: { since, query: customQuery || null },
       })
       .select()
       .single();
@@ -168,9 +171,10 @@ Deno.serve(async (req) => {
 
     console.log(`After English filter: ${englishArticles.length} articles`);
 
-    let fetched = englishArticles.length;
+    const fetched = englishArticles.length;
     let stored = 0;
     let skipped = 0;
+    let keywordMatches = 0;
 
     // Process each article
     for (const article of englishArticles) {
@@ -192,14 +196,21 @@ Deno.serve(async (req) => {
         // Parse published date
         const published_at = parseGDELTDate(article.seendate);
 
+        const matchedKeywords = containsCaymanKeywords(article.title || '', caymanKeywords);
+
         // Prepare article record
         const articleData = {
           url: canonical_url,
           url_hash,
           source: source_domain,
+          source_api: 'gdelt',
+          source_name: article.domain || source_domain,
+          language: 'en',
+          status: 'pending',
           title: article.title || null,
           excerpt: article.title || null, // GDELT doesn't provide excerpt in artlist mode
-          body: null, // Not fetching full body for MVP
+          body: null, // Filled in by fetch_article_content
+          content_fetch_status: settings?.content_fetch_enabled === false ? null : 'pending',
           published_at,
           cayman_flag: false, // Will be set by classifier
           signals: {},
@@ -211,16 +222,19 @@ Deno.serve(async (req) => {
             gdelt_seendate: article.seendate,
             social_image: article.socialimage,
             source_country: article.sourcecountry,
+            cayman_keywords: matchedKeywords,
           },
         };
 
-        // Upsert into articles table (by url unique constraint)
-        const { error: upsertError } = await supabase
+        // Upsert into articles table (by url unique constraint); an existing
+        // url comes back as no rows
+        const { data: inserted, error: upsertError } = await supabase
           .from('articles')
           .upsert(articleData, {
             onConflict: 'url',
             ignoreDuplicates: true,
-          });
+          })
+          .select('id');
 
         if (upsertError) {
           // Check if it's a duplicate (should be caught by ignoreDuplicates)
@@ -230,8 +244,11 @@ Deno.serve(async (req) => {
             console.error(`Error upserting article ${canonical_url}:`, upsertError);
             skipped++;
           }
+        } else if (!inserted || inserted.length === 0) {
+          skipped++;
         } else {
           stored++;
+          if (matchedKeywords.length > 0) keywordMatches++;
         }
       } catch (articleError) {
         console.error('Error processing article:', articleError);
@@ -247,6 +264,7 @@ Deno.serve(async (req) => {
         fetched,
         stored,
         skipped,
+        meta: { since, query: customQuery || null, keyword_matches: keywordMatches },
         finished_at: new Date().toISOString(),
       })
       .eq('id', runId);
@@ -260,6 +278,7 @@ Deno.serve(async (req) => {
         fetched,
         stored,
         skipped,
+        keyword_matches: keywordMatches,
         since,
         timespan,
       }),
@@ -1,4 +1,8 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import type { NewsAPIResponse } from '../shared/monitor-types.ts';
+import { containsCaymanKeywords } from '../shared/monitor-utils.ts';
+import { loadSecret } from '../shared/secrets.ts';
+import { requireRole } from '../shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,25 +16,7 @@ const NEWSAPI_BASE_URL = 'https://newsapi.org/v2/everything';
 // Default Cayman query terms
 const CAYMAN_QUERY = 'Cayman Islands OR "Grand Cayman" OR "Cayman-registered" OR "Cayman-domiciled" OR CIMA';
 
-interface NewsAPIArticle {
-  source: {
-    id: string | null;
-    name: string;
-  };
-  author: string | null;
-  title: string;
-  description: string | null;
-  url: string;
-  urlToImage: string | null;
-  publishedAt: string; // ISO 8601
-  content: string | null;
-}
-
-interface NewsAPIResponse {
-  status: string;
-  totalResults: number;
-  articles: NewsAPIArticle[];
-}
+const MONITOR_SETTINGS_ID = '00000000-0000-0000-0000-000000000002';
 
 /**
  * Extract domain from URL
@@ -101,13 +87,16 @@ Deno.serve(async (req) => {
     Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
   );
 
+  const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+  if (user instanceof Response) return user;
+
   let runId: string | null = null;
 
   try {
     // Check for API key
-    const newsapiKey = Deno.env.get('NEWSAPI_KEY');
+    const newsapiKey = await loadSecret(supabase, 'newsapi_key');
     if (!newsapiKey) {
-      throw new Error('NEWSAPI_KEY not configured in environment');
+      throw new Error('NewsAPI key not configured (Settings or NEWSAPI_KEY)');
     }
 
     // Parse request body
@@ -116,8 +105,30 @@ Deno.serve(async (req) => {
     const customQuery = body.q;
     const pageSize = body.pageSize || 50;
 
-    // Default since: 24 hours ago
-    const since = requestedSince || new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    // Default since: 24 hours ago (lookback_hours is what the monitor-* shims send)
+    const lookbackHours = Number(body.lookback_hours) || 24;
+    const since = requestedSince || new Date(Date.now() - lookbackHours * 60 * 60 * 1000).toISOString();
+
+    // The free NewsAPI plan has a daily request quota, counted in monitor_settings
+    const { data: settings } = await supabase
+      .from('monitor_settings')
+      .select('cayman_keywords, newsapi_requests_today, newsapi_daily_limit')
+      .eq('id', MONITOR_SETTINGS_ID)
+      .maybeSingle();
+    const caymanKeywords: string[] = settings?.cayman_keywords || [];
+    const requestsToday = settings?.newsapi_requests_today || 0;
+    const dailyLimit = settings?.newsapi_daily_limit || 100;
+
+    if (requestsToday >= dailyLimit) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `NewsAPI daily limit reached (${dailyLimit} requests)`,
+          requests_today: requestsToday,
+        }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
     
     // Parse allow sources filter
     const allowedSources = parseAllowSources(Deno.env.get('ALLOW_SOURCES'));
@@ -133,6 +144,8 @@ Deno.serve(async (req) => {
       .insert({
         source: 'newsapi',
         status: 'started',
+        triggered_by: body.triggered_by || 'manual',
+        meta: { since, query: customQuery || null, requests_today: requestsToday },
       })
       .select()
       .single();
@@ -160,6 +173,11 @@ Deno.serve(async (req) => {
     // Fetch from NewsAPI
     const newsApiResponse = await fetch(newsApiUrl.toString());
 
+    await supabase
+      .from('monitor_settings')
+      .update({ newsapi_requests_today: requestsToday + 1 })
+      .eq('id', MONITOR_SETTINGS_ID);
+
     if (!newsApiResponse.ok) {
       const errorText = await newsApiResponse.text();
       throw new Error(`NewsAPI error: ${newsApiResponse.status} ${newsApiResponse.statusText} - ${errorText}`);
@@ -175,10 +193,11 @@ Deno.serve(async (req) => {
 
     console.log(`NewsAPI returned ${articles.length} articles (total available: ${newsApiData.totalResults})`);
 
-    let fetched = articles.length;
+    const fetched = articles.length;
     let stored = 0;
     let skipped = 0;
     let filtered = 0;
+    let keywordMatches = 0;
 
     // Process each article
     for (const article of articles) {
@@ -206,11 +225,21 @@ Deno.serve(async (req) => {
         // Parse published date (already in ISO format from NewsAPI)
         const published_at = article.publishedAt;
 
+        const matchedKeywords = containsCaymanKeywords(
+          `${article.title || ''} ${article.description || ''}`,
+          caymanKeywords
+        );
+
         // Prepare article record
         const articleData = {
           url: article.url,
           url_hash,
           source: source_domain,
+          source_api: 'newsapi',
+          source_name: article.source.name || source_domain,
+          author: article.author,
+          language: 'en',
+          status: 'pending',
           title: article.title || null,
           excerpt: article.description || article.title || null,
           body: null, // Not storing full content for MVP
@@ -226,16 +255,19 @@ Deno.serve(async (req) => {
             author: article.author,
             url_to_image: article.urlToImage,
             content_preview: article.content, // NewsAPI provides partial content
+            cayman_keywords: matchedKeywords,
           },
         };
 
-        // Upsert into articles table (by url unique constraint)
-        const { error: upsertError } = await supabase
+        // Upsert into articles table (by url unique constraint); an existing
+        // url comes back as no rows
+        const { data: inserted, error: upsertError } = await supabase
           .from('articles')
           .upsert(articleData, {
             onConflict: 'url',
             ignoreDuplicates: true,
-          });
+          })
+          .select('id');
 
         if (upsertError) {
           // Check if it's a duplicate (should be caught by ignoreDuplicates)
@@ -245,8 +277,11 @@ Deno.serve(async (req) => {
             console.error(`Error upserting article ${article.url}:`, upsertError);
             skipped++;
           }
+        } else if (!inserted || inserted.length === 0) {
+          skipped++;
         } else {
           stored++;
+          if (matchedKeywords.length > 0) keywordMatches++;
         }
       } catch (articleError) {
         console.error('Error processing article:', articleError);
@@ -262,6 +297,7 @@ Deno.serve(async (req) => {
         fetched,
         stored,
         skipped: skipped + filtered,
+        meta: { since, query: customQuery || null, requests_today: requestsToday + 1, keyword_matches: keywordMatches },
         finished_at: new Date().toISOString(),
       })
       .eq('id', runId);
@@ -276,6 +312,7 @@ Deno.serve(async (req) => {
         stored,
         skipped,
         filtered,
+        keyword_matches: keywordMatches,
         total_results: newsApiData.totalResults,
         since,
         page_size: pageSize,
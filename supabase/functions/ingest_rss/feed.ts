@@ -0,0 +1,254 @@
+/**
+ * RSS 2.0, RSS 1.0 (RDF) and Atom feed reading for ingest_rss
+ */
+
+import { decodeEntities } from '../shared/article-content.ts';
+import type { RSSFeedConfig } from '../shared/monitor-types.ts';
+
+export const FEED_USER_AGENT = 'CaymanWatch-FeedReader/1';
+const FEED_TIMEOUT_MS = 15_000;
+
+export interface FeedItem {
+  url: string;
+  guid: string | null;
+  title: string | null;
+  summary: string | null;
+  content: string | null;
+  author: string | null;
+  published_at: string | null;
+}
+
+export interface ParsedFeed {
+  format: 'rss' | 'atom' | 'rdf';
+  title: string | null;
+  language: string | null;
+  items: FeedItem[];
+}
+
+export interface FeedCacheState {
+  etag: string | null;
+  last_modified: string | null;
+}
+
+export type FeedFetchResult =
+  | { status: 'not_modified' }
+  | { status: 'ok'; feed: ParsedFeed; etag: string | null; last_modified: string | null };
+
+function unwrapCdata(value: string): string {
+  return value.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+}
+
+/**
+ * Inner XML of the first element named `tag` (namespace prefix included, e.g. content:encoded)
+ */
+function element(xml: string, tag: string): string | null {
+  const escaped = tag.replace(/[.:-]/g, (c) => `\\${c}`);
+  const match = xml.match(new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}\\s*>`, 'i'));
+  return match ? match[1] : null;
+}
+
+function text(xml: string, ...tags: string[]): string | null {
+  for (const tag of tags) {
+    const inner = element(xml, tag);
+    if (inner === null) continue;
+    // Entity-encoded markup decodes to tags, which are then dropped; Atom's
+    // type="html" text escapes its entities a second time
+    const value = decodeEntities(decodeEntities(unwrapCdata(inner)).replace(/<[^>]+>/g, ' '))
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (value) return value;
+  }
+  return null;
+}
+
+/**
+ * Readable text from an HTML fragment (description, content:encoded)
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    unwrapCdata(html)
+      .replace(/<(script|style)\b[\s\S]*?<\/\1\s*>/gi, ' ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6]|blockquote|tr)>/gi, '\n\n')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function html(xml: string, ...tags: string[]): string | null {
+  for (const tag of tags) {
+    const inner = element(xml, tag);
+    if (inner === null) continue;
+    // Markup comes either in CDATA or entity-escaped (&lt;p&gt;)
+    const raw = unwrapCdata(inner);
+    const value = htmlToText(raw.includes('<') ? raw : decodeEntities(raw));
+    if (value) return value;
+  }
+  return null;
+}
+
+function attribute(attrs: string, name: string): string | null {
+  const match = attrs.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2]) : null;
+}
+
+function resolveUrl(href: string, base: string): string | null {
+  try {
+    const url = new URL(href.trim(), base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function toIsoDate(value: string | null): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function atomLink(entry: string): string | null {
+  let fallback: string | null = null;
+  for (const match of entry.matchAll(/<link\b([^>]*?)\/?>/gi)) {
+    const href = attribute(match[1], 'href');
+    if (!href) continue;
+    const rel = attribute(match[1], 'rel');
+    if (!rel || rel === 'alternate') return href;
+    fallback ??= href;
+  }
+  return fallback;
+}
+
+function rssItem(item: string, feedUrl: string): FeedItem | null {
+  const guid = text(item, 'guid', 'dc:identifier');
+  const isPermaLink = !/<guid\b[^>]*isPermaLink\s*=\s*["']false["']/i.test(item);
+  const link = text(item, 'link') ?? item.match(/<item\b[^>]*rdf:about\s*=\s*["']([^"']+)["']/i)?.[1] ?? null;
+  const href = link ?? (guid && isPermaLink ? guid : null);
+  const url = href ? resolveUrl(href, feedUrl) : null;
+  if (!url) return null;
+
+  return {
+    url,
+    guid,
+    title: text(item, 'title'),
+    summary: html(item, 'description', 'dc:description'),
+    content: html(item, 'content:encoded'),
+    author: text(item, 'dc:creator', 'author'),
+    published_at: toIsoDate(text(item, 'pubDate', 'dc:date')),
+  };
+}
+
+function atomEntry(entry: string, feedUrl: string): FeedItem | null {
+  const href = atomLink(entry);
+  const url = href ? resolveUrl(href, feedUrl) : null;
+  if (!url) return null;
+
+  const author = element(entry, 'author');
+
+  return {
+    url,
+    guid: text(entry, 'id'),
+    title: text(entry, 'title'),
+    summary: html(entry, 'summary'),
+    content: html(entry, 'content'),
+    author: author ? text(author, 'name') : null,
+    published_at: toIsoDate(text(entry, 'published', 'updated')),
+  };
+}
+
+/**
+ * Items of an RSS or Atom document. Items without a usable link are dropped.
+ */
+export function parseFeed(xml: string, feedUrl: string): ParsedFeed {
+  const isAtom = /<feed\b[^>]*>/i.test(xml) && !/<rss\b/i.test(xml);
+  const isRdf = /<rdf:RDF\b/i.test(xml);
+
+  if (!isAtom && !isRdf && !/<rss\b/i.test(xml) && !/<channel\b/i.test(xml)) {
+    throw new Error('Not an RSS or Atom feed');
+  }
+
+  const blocks = isAtom
+    ? Array.from(xml.matchAll(/<entry\b[^>]*>([\s\S]*?)<\/entry>/gi), (match) => match[1])
+    : Array.from(xml.matchAll(/<item\b[^>]*>[\s\S]*?<\/item>/gi), (match) => match[0]);
+
+  // Channel-level fields come before the first item
+  const head = xml.split(/<item\b|<entry\b/i)[0];
+  const items = blocks
+    .map((block) => (isAtom ? atomEntry(block, feedUrl) : rssItem(block, feedUrl)))
+    .filter((item): item is FeedItem => item !== null);
+
+  return {
+    format: isAtom ? 'atom' : isRdf ? 'rdf' : 'rss',
+    title: text(head, 'title'),
+    language: text(head, 'language', 'dc:language') ?? head.match(/<feed\b[^>]*xml:lang\s*=\s*["']([^"']+)["']/i)?.[1] ?? null,
+    items,
+  };
+}
+
+/**
+ * Fetch a feed with a conditional GET. Throws on network and HTTP errors.
+ */
+export async function fetchFeed(
+  url: string,
+  cache: FeedCacheState | null,
+  fetchFn: typeof fetch = fetch
+): Promise<FeedFetchResult> {
+  const headers: Record<string, string> = {
+    'User-Agent': FEED_USER_AGENT,
+    'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.9, */*;q=0.1',
+  };
+  if (cache?.etag) headers['If-None-Match'] = cache.etag;
+  if (cache?.last_modified) headers['If-Modified-Since'] = cache.last_modified;
+
+  const response = await fetchFn(url, { headers, signal: AbortSignal.timeout(FEED_TIMEOUT_MS) });
+
+  if (response.status === 304) {
+    await response.body?.cancel();
+    return { status: 'not_modified' };
+  }
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`Feed returned ${response.status}`);
+  }
+
+  return {
+    status: 'ok',
+    feed: parseFeed(await response.text(), response.url || url),
+    etag: response.headers.get('etag'),
+    last_modified: response.headers.get('last-modified'),
+  };
+}
+
+/**
+ * Keywords from a feed's filter found in an item. A feed without keywords
+ * takes every item, so this returns null rather than [] to tell them apart.
+ */
+export function matchFeedKeywords(item: FeedItem, keywords: string[] | undefined): string[] | null {
+  if (!keywords || keywords.length === 0) return null;
+  const haystack = `${item.title || ''} ${item.summary || ''} ${item.content || ''}`.toLowerCase();
+  return keywords.filter((keyword) => haystack.includes(keyword.toLowerCase()));
+}
+
+/**
+ * Feed list from monitor_settings.rss_feeds, skipping malformed and disabled entries
+ */
+export function enabledFeeds(value: unknown): RSSFeedConfig[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object') return [];
+    const feed = entry as Partial<RSSFeedConfig>;
+    if (typeof feed.url !== 'string' || !resolveUrl(feed.url, feed.url) || feed.enabled === false) return [];
+
+    return [{
+      name: typeof feed.name === 'string' && feed.name.trim() ? feed.name.trim() : new URL(feed.url).hostname,
+      url: feed.url,
+      keywords: Array.isArray(feed.keywords) ? feed.keywords.filter((k): k is string => typeof k === 'string' && k.trim() !== '') : [],
+      language: typeof feed.language === 'string' ? feed.language : undefined,
+      enabled: true,
+    }];
+  });
+}
@@ -0,0 +1,283 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { MIN_ARTICLE_CHARS } from '../shared/article-content.ts';
+import { containsCaymanKeywords, createSnippet, extractDomain, formatError, generateUrlHash } from '../shared/monitor-utils.ts';
+import { enabledFeeds, fetchFeed, matchFeedKeywords, type FeedCacheState } from './feed.ts';
+import { requireRole } from '../shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const MONITOR_SETTINGS_ID = '00000000-0000-0000-0000-000000000002';
+
+interface FeedRunResult {
+  name: string;
+  url: string;
+  status: 'ok' | 'not_modified' | 'error';
+  items?: number;
+  stored?: number;
+  error?: string;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+  if (user instanceof Response) return user;
+
+  let runId: string | null = null;
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    // Items older than the lookback are left out, as with the other sources
+    const lookbackHours = Number(body.lookback_hours) || 24;
+    const since = body.since || new Date(Date.now() - lookbackHours * 60 * 60 * 1000).toISOString();
+
+    const { data: settings } = await supabase
+      .from('monitor_settings')
+      .select('rss_enabled, rss_feeds, cayman_keywords, content_fetch_enabled')
+      .eq('id', MONITOR_SETTINGS_ID)
+      .maybeSingle();
+
+    let feeds = enabledFeeds(settings?.rss_feeds);
+    // A caller can run a subset of the configured feeds by URL
+    if (Array.isArray(body.feeds) && body.feeds.length > 0) {
+      feeds = feeds.filter((feed) => body.feeds.includes(feed.url));
+    }
+
+    if (settings?.rss_enabled === false || feeds.length === 0) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: settings?.rss_enabled === false ? 'RSS ingestion is disabled' : 'No RSS feeds configured',
+          fetched: 0,
+          stored: 0,
+          skipped: 0,
+        }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const caymanKeywords: string[] = settings?.cayman_keywords || [];
+
+    const { data: run, error: runError } = await supabase
+      .from('ingest_runs')
+      .insert({
+        source: 'rss',
+        status: 'started',
+        triggered_by: body.triggered_by || 'manual',
+        meta: { since, feeds: feeds.map((feed) => feed.url) },
+      })
+      .select()
+      .single();
+
+    if (runError) {
+      throw new Error(`Failed to create ingest_run: ${runError.message}`);
+    }
+
+    runId = run.id;
+
+    console.log(`Starting RSS ingestion for ${feeds.length} feeds. Since: ${since}`);
+
+    const { data: cacheRows } = await supabase
+      .from('rss_feed_state')
+      .select('feed_url, etag, last_modified')
+      .in('feed_url', feeds.map((feed) => feed.url));
+    const cache = new Map<string, FeedCacheState>(
+      (cacheRows || []).map((row: { feed_url: string } & FeedCacheState) => [row.feed_url, row])
+    );
+
+    let fetched = 0;
+    let stored = 0;
+    let skipped = 0;
+    let filtered = 0;
+    let keywordMatches = 0;
+    const feedResults: FeedRunResult[] = [];
+    const errors: string[] = [];
+
+    for (const feed of feeds) {
+      const checkedAt = new Date().toISOString();
+
+      try {
+        const result = await fetchFeed(feed.url, cache.get(feed.url) ?? null);
+
+        if (result.status === 'not_modified') {
+          feedResults.push({ name: feed.name, url: feed.url, status: 'not_modified' });
+          await supabase
+            .from('rss_feed_state')
+            .upsert({ feed_url: feed.url, last_checked_at: checkedAt, last_status: 'not_modified', last_error: null }, { onConflict: 'feed_url' });
+          continue;
+        }
+
+        const recent = result.feed.items.filter((item) => !item.published_at || item.published_at >= since);
+        fetched += recent.length;
+        let feedStored = 0;
+
+        for (const item of recent) {
+          const feedKeywords = matchFeedKeywords(item, feed.keywords);
+          if (feedKeywords && feedKeywords.length === 0) {
+            filtered++;
+            continue;
+          }
+
+          try {
+            const text = item.content || item.summary || '';
+            const matchedKeywords = containsCaymanKeywords(`${item.title || ''} ${text}`, caymanKeywords);
+            // Summary-only items get their text from the article page
+            const hasBody = Boolean(item.content && item.content.length >= MIN_ARTICLE_CHARS);
+            const source = extractDomain(item.url);
+
+            const articleData = {
+              url: item.url,
+              url_hash: await generateUrlHash(item.url),
+              source,
+              source_api: 'rss',
+              source_name: feed.name,
+              author: item.author,
+              language: feed.language || result.feed.language?.slice(0, 2).toLowerCase() || 'en',
+              status: 'pending',
+              title: item.title,
+              excerpt: item.summary ? createSnippet(item.summary, 300) : null,
+              body: hasBody ? item.content : null,
+              content_fetch_status: hasBody || settings?.content_fetch_enabled === false ? null : 'pending',
+              published_at: item.published_at || checkedAt,
+              cayman_flag: false,
+              signals: {},
+              reasons: [],
+              confidence: null,
+              embedding: null,
+              meta: {
+                feed_url: feed.url,
+                feed_name: feed.name,
+                guid: item.guid,
+                feed_keywords: feedKeywords ?? undefined,
+                cayman_keywords: matchedKeywords,
+              },
+            };
+
+            const { data: inserted, error: upsertError } = await supabase
+              .from('articles')
+              .upsert(articleData, { onConflict: 'url', ignoreDuplicates: true })
+              .select('id');
+
+            if (upsertError) {
+              if (upsertError.code !== '23505') console.error(`Error upserting article ${item.url}:`, upsertError);
+              skipped++;
+            } else if (!inserted || inserted.length === 0) {
+              skipped++;
+            } else {
+              stored++;
+              feedStored++;
+              if (matchedKeywords.length > 0) keywordMatches++;
+            }
+          } catch (itemError) {
+            console.error(`Error processing item ${item.url}:`, itemError);
+            skipped++;
+          }
+        }
+
+        feedResults.push({ name: feed.name, url: feed.url, status: 'ok', items: recent.length, stored: feedStored });
+
+        await supabase
+          .from('rss_feed_state')
+          .upsert({
+            feed_url: feed.url,
+            etag: result.etag,
+            last_modified: result.last_modified,
+            last_checked_at: checkedAt,
+            last_status: 'ok',
+            last_error: null,
+            last_item_count: result.feed.items.length,
+          }, { onConflict: 'feed_url' });
+      } catch (feedError) {
+        const message = formatError(feedError);
+        console.error(`Feed ${feed.name} failed: ${message}`);
+        errors.push(`${feed.name}: ${message}`);
+        feedResults.push({ name: feed.name, url: feed.url, status: 'error', error: message });
+
+        await supabase
+          .from('rss_feed_state')
+          .upsert({ feed_url: feed.url, last_checked_at: checkedAt, last_status: 'error', last_error: message }, { onConflict: 'feed_url' });
+      }
+    }
+
+    // One broken feed does not fail the run; every feed failing does
+    const allFailed = errors.length === feeds.length;
+
+    await supabase
+      .from('ingest_runs')
+      .update({
+        status: allFailed ? 'failed' : 'completed',
+        fetched,
+        stored,
+        skipped,
+        error: errors.length > 0 ? errors.join('; ') : null,
+        meta: {
+          since,
+          feeds: feeds.map((feed) => feed.url),
+          keyword_matches: keywordMatches,
+          filtered,
+          not_modified: feedResults.filter((feed) => feed.status === 'not_modified').length,
+        },
+        finished_at: new Date().toISOString(),
+      })
+      .eq('id', runId);
+
+    console.log(`RSS ingestion completed: ${stored} stored, ${skipped} skipped, ${filtered} filtered`);
+
+    return new Response(
+      JSON.stringify({
+        success: !allFailed,
+        run_id: runId,
+        fetched,
+        stored,
+        skipped,
+        filtered,
+        keyword_matches: keywordMatches,
+        since,
+        feeds: feedResults,
+        error: allFailed ? errors.join('; ') : undefined,
+        errors: errors.length > 0 ? errors : undefined,
+      }),
+      {
+        status: allFailed ? 502 : 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('RSS ingestion failed:', error);
+
+    if (runId) {
+      await supabase
+        .from('ingest_runs')
+        .update({
+          status: 'failed',
+          error: String(error),
+          finished_at: new Date().toISOString(),
+        })
+        .eq('id', runId);
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: String(error),
+        run_id: runId,
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
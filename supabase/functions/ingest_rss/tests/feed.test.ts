@@ -0,0 +1,130 @@
+/**
+ * Tests for RSS/Atom parsing, conditional GET and feed keyword filters
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/ingest_rss/tests/
+ */
+
+import { assertEquals, assertRejects, assertStringIncludes, assertThrows } from "jsr:@std/assert@1";
+import { enabledFeeds, fetchFeed, matchFeedKeywords, parseFeed } from "../feed.ts";
+
+const fixture = (name: string) => Deno.readTextFile(new URL(`./fixtures/${name}`, import.meta.url));
+
+Deno.test("reads RSS 2.0 items with content:encoded, CDATA and escaped markup", async () => {
+  const feed = parseFeed(await fixture("local-news.rss.xml"), "https://news.example.ky/feed/");
+
+  assertEquals(feed.format, "rss");
+  assertEquals(feed.title, "Island Business News");
+  assertEquals(feed.language, "en-US");
+  assertEquals(feed.items.length, 3);
+
+  const [winding, fireworks, fine] = feed.items;
+  assertEquals(winding.url, "https://news.example.ky/2025/11/20/grand-court-winds-up-harbour-point-fund/");
+  assertEquals(winding.guid, "https://news.example.ky/?p=10231");
+  assertEquals(winding.author, "Court Reporter");
+  assertEquals(winding.published_at, "2025-11-20T14:05:00.000Z");
+  assertEquals(winding.summary, "Joint official liquidators have been appointed to Harbour Point Opportunities Fund SPC.");
+  assertStringIncludes(winding.content!, "the fund’s books and records");
+  assertEquals(winding.content!.split("\n\n").length, 3);
+
+  assertEquals(fireworks.title, "Pirates Week & fireworks draw record crowds");
+  assertEquals(fireworks.summary, "Thousands lined the waterfront for the closing fireworks.");
+  assertEquals(fireworks.content, null);
+
+  // Relative links resolve against the feed URL
+  assertEquals(fine.url, "https://news.example.ky/2025/11/18/cima-fines-fund-administrator/");
+});
+
+Deno.test("reads Atom entries, preferring the alternate link", async () => {
+  const feed = parseFeed(await fixture("client-alerts.atom.xml"), "https://briefings.example.com/atom.xml");
+
+  assertEquals(feed.format, "atom");
+  assertEquals(feed.language, "en");
+  assertEquals(feed.items.map((item) => item.url), [
+    "https://briefings.example.com/2025/privy-council-creditor-duty",
+    "https://briefings.example.com/2025/singapore-office",
+  ]);
+
+  const [ruling, news] = feed.items;
+  assertEquals(ruling.title, "Privy Council clarifies directors’ duties to creditors");
+  assertEquals(ruling.author, "Litigation Team");
+  assertEquals(ruling.guid, "tag:briefings.example.com,2025:1187");
+  assertEquals(ruling.published_at, "2025-11-21T07:45:00.000Z");
+  // No <published>: falls back to <updated>
+  assertEquals(news.published_at, "2025-11-20T12:00:00.000Z");
+  assertEquals(news.summary, "We are delighted to announce our new office .");
+});
+
+Deno.test("rejects documents that are not feeds", () => {
+  assertThrows(() => parseFeed("<html><body>Not found</body></html>", "https://example.com/feed"), Error, "Not an RSS or Atom feed");
+});
+
+Deno.test("conditional GET sends the cached validators and honours 304", async () => {
+  const xml = await fixture("local-news.rss.xml");
+  const seen: Headers[] = [];
+  const server: typeof fetch = (_input, init) => {
+    const headers = new Headers(init?.headers);
+    seen.push(headers);
+    if (headers.get("If-None-Match") === '"v1"') {
+      return Promise.resolve(new Response(null, { status: 304 }));
+    }
+    return Promise.resolve(
+      new Response(xml, {
+        headers: {
+          "Content-Type": "application/rss+xml",
+          "ETag": '"v1"',
+          "Last-Modified": "Thu, 20 Nov 2025 14:05:00 GMT",
+        },
+      }),
+    );
+  };
+
+  const first = await fetchFeed("https://news.example.ky/feed/", null, server);
+  assertEquals(first.status, "ok");
+  assertEquals(seen[0].get("If-None-Match"), null);
+  if (first.status !== "ok") return;
+  assertEquals(first.feed.items.length, 3);
+  assertEquals(first.etag, '"v1"');
+
+  const second = await fetchFeed(
+    "https://news.example.ky/feed/",
+    { etag: first.etag, last_modified: first.last_modified },
+    server,
+  );
+  assertEquals(second.status, "not_modified");
+  assertEquals(seen[1].get("If-Modified-Since"), "Thu, 20 Nov 2025 14:05:00 GMT");
+
+  await assertRejects(
+    () => fetchFeed("https://news.example.ky/feed/", null, () => Promise.resolve(new Response("gone", { status: 410 }))),
+    Error,
+    "Feed returned 410",
+  );
+});
+
+Deno.test("feed keywords filter items; feeds without keywords take everything", async () => {
+  const [winding, fireworks, fine] = parseFeed(await fixture("local-news.rss.xml"), "https://news.example.ky/feed/").items;
+  const keywords = ["liquidat", "CIMA", "winding-up"];
+
+  assertEquals(matchFeedKeywords(winding, keywords), ["liquidat", "winding-up"]);
+  assertEquals(matchFeedKeywords(fireworks, keywords), []);
+  assertEquals(matchFeedKeywords(fine, keywords), ["CIMA"]);
+  assertEquals(matchFeedKeywords(fireworks, []), null);
+  assertEquals(matchFeedKeywords(fireworks, undefined), null);
+});
+
+Deno.test("feed settings skip disabled and malformed entries", () => {
+  assertEquals(
+    enabledFeeds([
+      { name: "Island Business News", url: "https://news.example.ky/feed/", keywords: ["court", 7, ""] },
+      { url: "https://briefings.example.com/atom.xml" },
+      { name: "Paused", url: "https://paused.example.com/feed", enabled: false },
+      { name: "Broken", url: "not a url" },
+      "https://string.example.com/feed",
+    ]),
+    [
+      { name: "Island Business News", url: "https://news.example.ky/feed/", keywords: ["court"], language: undefined, enabled: true },
+      { name: "briefings.example.com", url: "https://briefings.example.com/atom.xml", keywords: [], language: undefined, enabled: true },
+    ],
+  );
+  assertEquals(enabledFeeds(null), []);
+});
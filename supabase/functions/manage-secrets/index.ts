@@ -0,0 +1,105 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { formatError } from '../shared/monitor-utils.ts';
+import { actorName, requireRole } from '../shared/auth.ts';
+import { isSecretName, SECRET_ENV_VARS, SECRET_NAMES, type SecretName } from '../shared/secrets.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+type SecretsRequest =
+  | { action?: 'status' }
+  | { action: 'set'; name: SecretName; value: string }
+  | { action: 'clear'; name: SecretName };
+
+interface SecretStatus {
+  name: SecretName;
+  set: boolean;
+  // Where the key comes from: stored in Settings, or the function environment
+  source: 'settings' | 'environment' | null;
+  updated_by: string | null;
+  updated_at: string | null;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * API keys for the Settings page. Admins can set and clear keys; no action
+ * ever returns a stored value, only whether each key is set and by whom.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const user = await requireRole(req, supabase, 'admin', corsHeaders);
+    if (user instanceof Response) return user;
+
+    const request: SecretsRequest = await req.json().catch(() => ({}));
+    const updatedBy = actorName(user, 'system');
+
+    if (request.action === 'set' || request.action === 'clear') {
+      if (!isSecretName(request.name)) {
+        return json({ success: false, error: `Unknown secret: must be one of ${SECRET_NAMES.join(', ')}` }, 400);
+      }
+
+      if (request.action === 'set') {
+        const value = typeof request.value === 'string' ? request.value.trim() : '';
+        if (!value) return json({ success: false, error: 'Missing required field: value' }, 400);
+
+        const { error } = await supabase
+          .from('app_secrets')
+          .upsert({ name: request.name, value, updated_by: updatedBy, updated_at: new Date().toISOString() });
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('app_secrets').delete().eq('name', request.name);
+        if (error) throw error;
+      }
+
+      const { error: auditError } = await supabase.from('audit_log').insert({
+        table_name: 'app_secrets',
+        action: request.action === 'set' ? 'secret_set' : 'secret_cleared',
+        new_values: { name: request.name },
+        user_id: updatedBy,
+      });
+      if (auditError) console.error(`Failed to write audit_log: ${auditError.message}`);
+
+      return json({ success: true });
+    }
+
+    if (request.action && request.action !== 'status') {
+      return json({ success: false, error: 'Invalid action: must be status, set or clear' }, 400);
+    }
+
+    const { data, error } = await supabase.from('app_secrets').select('name, updated_by, updated_at');
+    if (error) throw error;
+
+    const stored = new Map((data || []).map((row) => [row.name, row]));
+    const secrets: SecretStatus[] = SECRET_NAMES.map((name) => {
+      const row = stored.get(name);
+      const inEnvironment = !!Deno.env.get(SECRET_ENV_VARS[name]);
+      return {
+        name,
+        set: !!row || inEnvironment,
+        source: row ? 'settings' : inEnvironment ? 'environment' : null,
+        updated_by: row?.updated_by ?? null,
+        updated_at: row?.updated_at ?? null,
+      };
+    });
+
+    return json({ success: true, secrets });
+  } catch (error) {
+    console.error('Manage secrets error:', error);
+    return json({ success: false, error: formatError(error) }, 500);
+  }
+});
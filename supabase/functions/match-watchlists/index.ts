@@ -0,0 +1,354 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { extractCompanyNamesFromTitle } from '../shared/entity-resolution.ts';
+import { afterKeyset, formatError } from '../shared/monitor-utils.ts';
+import {
+  flattenText,
+  matchWatchlistEntry,
+  type WatchedRecord,
+  type WatchedSourceType,
+  type WatchlistEntry,
+} from '../shared/watchlist-matching.ts';
+import { requireRole } from '../shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+interface MatchRequest {
+  // Scan a single record straight after it was written, instead of the cursor
+  source_type?: WatchedSourceType;
+  source_id?: string;
+  // Only scan these watchlist entries (e.g. backfilling a newly added entry)
+  watchlist_ids?: string[];
+  since?: string;
+  limit?: number;
+  dry_run?: boolean;
+}
+
+interface ScanCursor {
+  last_scanned_at: string;
+  last_source_id: string | null;
+}
+
+interface SourceBatch {
+  records: WatchedRecord[];
+  // Cursor value and id of the last record in the batch
+  cursor: ScanCursor | null;
+}
+
+type SourceRow = Record<string, unknown>;
+
+interface SourceConfig {
+  table: string;
+  columns: string;
+  cursorColumn: string;
+  caymanRelevantOnly?: boolean;
+  toRecord: (row: SourceRow) => WatchedRecord;
+}
+
+const MAX_LIMIT = 1000;
+
+function str(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+function asStrings(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((entry) => (typeof entry === 'string' ? entry : typeof entry?.name === 'string' ? entry.name : ''))
+    .filter(Boolean);
+}
+
+// Entities linked by extract_entities, plus those the first monitor's
+// classifier stored on articles merged from it
+function articleEntities(row: SourceRow): unknown[] {
+  const links = Array.isArray(row.article_entities) ? row.article_entities : [];
+  const meta = row.meta as { cayman_entities?: unknown } | null;
+  return [
+    ...links.map((link) => link?.entities).filter(Boolean),
+    ...(Array.isArray(meta?.cayman_entities) ? meta.cayman_entities : []),
+  ];
+}
+
+function entitiesOfType(value: unknown, ...types: string[]): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((entity) => entity && types.includes(entity.type) && typeof entity.name === 'string')
+    .map((entity) => entity.name);
+}
+
+const SOURCES: Record<WatchedSourceType, SourceConfig> = {
+  registry_row: {
+    table: 'registry_rows',
+    columns: 'id, cause_number, title, subject, created_at',
+    cursorColumn: 'created_at',
+    toRecord: (row) => ({
+      sourceType: 'registry_row',
+      sourceId: String(row.id),
+      title: str(row.title) || String(row.cause_number),
+      url: null,
+      companyNames: extractCompanyNamesFromTitle(str(row.title)),
+      registrationNos: [],
+      people: [],
+      text: flattenText(str(row.cause_number), str(row.title), str(row.subject)),
+    }),
+  },
+  gazette_notice: {
+    table: 'gazette_liquidation_notices',
+    columns: 'id, company_name, registration_no, liquidators, liquidator_name, liquidator_contact, raw_notice_text, created_at',
+    cursorColumn: 'created_at',
+    toRecord: (row) => {
+      const companyName = String(row.company_name);
+      const registrationNo = str(row.registration_no);
+      const liquidatorName = str(row.liquidator_name);
+      const people = asStrings(row.liquidators);
+      if (liquidatorName && !people.includes(liquidatorName)) people.push(liquidatorName);
+
+      return {
+        sourceType: 'gazette_notice',
+        sourceId: String(row.id),
+        title: companyName,
+        url: null,
+        companyNames: [companyName],
+        registrationNos: registrationNo ? [registrationNo] : [],
+        people,
+        text: flattenText(
+          companyName,
+          registrationNo,
+          people.join(', '),
+          str(row.liquidator_contact),
+          str(row.raw_notice_text)
+        ),
+      };
+    },
+  },
+  article: {
+    table: 'articles',
+    columns: 'id, title, url, excerpt, body, meta, classified_at, article_entities(entities(name, type))',
+    cursorColumn: 'classified_at',
+    caymanRelevantOnly: true,
+    toRecord: (row) => {
+      const entities = articleEntities(row);
+      return {
+        sourceType: 'article',
+        sourceId: String(row.id),
+        title: str(row.title) || String(row.url),
+        url: str(row.url),
+        companyNames: entitiesOfType(entities, 'ORG'),
+        registrationNos: [],
+        people: entitiesOfType(entities, 'PERSON'),
+        text: flattenText(
+          str(row.title),
+          entitiesOfType(entities, 'RO_PROVIDER').join(', '),
+          str(row.body) || str(row.excerpt)
+        ),
+      };
+    },
+  },
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+    if (user instanceof Response) return user;
+
+    const body: MatchRequest = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const limit = Math.min(body.limit ?? 500, MAX_LIMIT);
+    const dryRun = body.dry_run === true;
+
+    let watchlistQuery = supabase
+      .from('watchlists')
+      .select('id, entry_type, value, label, priority, channels, hit_count')
+      .eq('is_active', true);
+    if (body.watchlist_ids?.length) watchlistQuery = watchlistQuery.in('id', body.watchlist_ids);
+
+    const { data: watchlists, error: watchlistsError } = await watchlistQuery;
+    if (watchlistsError) throw new Error(`Failed to load watchlists: ${watchlistsError.message}`);
+
+    const entries = (watchlists || []) as Array<WatchlistEntry & { hit_count: number }>;
+    const stats = { records_scanned: 0, hits: 0, notifications_sent: 0, by_source: {} as Record<string, number> };
+    const hits: Array<Record<string, unknown>> = [];
+
+    // Load the records to scan for one source: a single record, an explicit window, or everything past the cursor
+    async function loadBatch(sourceType: WatchedSourceType): Promise<SourceBatch> {
+      const config = SOURCES[sourceType];
+      let query = supabase.from(config.table).select(config.columns);
+      if (config.caymanRelevantOnly) query = query.eq('cayman_flag', true);
+
+      if (body.source_id) {
+        const { data, error } = await query.eq('id', body.source_id).maybeSingle();
+        if (error) throw new Error(`Failed to load ${config.table} ${body.source_id}: ${error.message}`);
+        return { records: data ? [config.toRecord(data as unknown as SourceRow)] : [], cursor: null };
+      }
+
+      let cursor: ScanCursor = { last_scanned_at: new Date(body.since ?? 0).toISOString(), last_source_id: null };
+      if (!body.since) {
+        const { data: state } = await supabase
+          .from('watchlist_scan_state')
+          .select('last_scanned_at, last_source_id')
+          .eq('source_type', sourceType)
+          .maybeSingle();
+        if (state) cursor = state as ScanCursor;
+      }
+
+      const { data, error } = await afterKeyset(query, config.cursorColumn, cursor.last_scanned_at, cursor.last_source_id)
+        .order(config.cursorColumn, { ascending: true })
+        .order('id', { ascending: true })
+        .limit(limit);
+      if (error) throw new Error(`Failed to load ${config.table}: ${error.message}`);
+
+      const rows = (data || []) as unknown as SourceRow[];
+      const last = rows[rows.length - 1];
+      const lastScannedAt = last ? str(last[config.cursorColumn]) : null;
+      return {
+        records: rows.map(config.toRecord),
+        cursor: lastScannedAt ? { last_scanned_at: lastScannedAt, last_source_id: String(last.id) } : null,
+      };
+    }
+
+    async function notify(entry: WatchlistEntry, record: WatchedRecord, reason: string, snippet: string) {
+      const response = await fetch(`${supabaseUrl}/functions/v1/send-notification`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${supabaseKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          type: 'watchlist_hit',
+          title: `Watchlist: ${entry.label || entry.value}`,
+          message: `${reason}\n${record.title}${snippet ? `\n\n${snippet}` : ''}`,
+          priority: entry.priority,
+          channels: entry.channels?.length ? entry.channels : ['dashboard'],
+          data: {
+            watchlist_id: entry.id,
+            entry_type: entry.entry_type,
+            value: entry.value,
+            match_reason: reason,
+            source_type: record.sourceType,
+            source_id: record.sourceId,
+            record: { title: record.title, url: record.url },
+          },
+        }),
+      });
+
+      const result = await response.json().catch(() => null);
+      if (!response.ok || !result?.success) {
+        throw new Error(result?.error || `send-notification returned ${response.status}`);
+      }
+      return result.notification_id as string;
+    }
+
+    const sourceTypes = body.source_type ? [body.source_type] : (Object.keys(SOURCES) as WatchedSourceType[]);
+    if (body.source_id && !body.source_type) {
+      throw new Error('source_type is required when source_id is given');
+    }
+
+    for (const sourceType of sourceTypes) {
+      const batch = await loadBatch(sourceType);
+      stats.records_scanned += batch.records.length;
+      stats.by_source[sourceType] = 0;
+
+      for (const record of batch.records) {
+        for (const entry of entries) {
+          const match = matchWatchlistEntry(entry, record);
+          if (!match) continue;
+
+          hits.push({
+            watchlist_id: entry.id,
+            value: entry.value,
+            source_type: sourceType,
+            source_id: record.sourceId,
+            title: record.title,
+            match_reason: match.reason,
+          });
+          if (dryRun) continue;
+
+          // Skip records that already produced a hit for this entry
+          const { data: inserted, error: hitError } = await supabase
+            .from('watchlist_hits')
+            .upsert(
+              {
+                watchlist_id: entry.id,
+                source_type: sourceType,
+                source_id: record.sourceId,
+                title: record.title,
+                url: record.url,
+                match_reason: match.reason,
+                matched_text: match.matchedText,
+                snippet: match.snippet,
+              },
+              { onConflict: 'watchlist_id,source_type,source_id', ignoreDuplicates: true }
+            )
+            .select('id');
+
+          if (hitError) {
+            console.error(`Failed to record watchlist hit for ${entry.id}:`, hitError.message);
+            continue;
+          }
+          if (!inserted || inserted.length === 0) continue;
+
+          stats.hits++;
+          stats.by_source[sourceType]++;
+
+          try {
+            const notificationId = await notify(entry, record, match.reason, match.snippet);
+            await supabase.from('watchlist_hits').update({ notification_id: notificationId }).eq('id', inserted[0].id);
+            stats.notifications_sent++;
+          } catch (error) {
+            console.error(`Failed to send watchlist notification for ${entry.id}:`, formatError(error));
+          }
+
+          const entryWithCount = entry as WatchlistEntry & { hit_count: number };
+          entryWithCount.hit_count = (entryWithCount.hit_count || 0) + 1;
+          await supabase
+            .from('watchlists')
+            .update({ hit_count: entryWithCount.hit_count, last_hit_at: new Date().toISOString() })
+            .eq('id', entry.id);
+        }
+      }
+
+      // Advance the cursor only on scheduled scans over every entry
+      if (!dryRun && batch.cursor && !body.since && !body.watchlist_ids?.length) {
+        await supabase
+          .from('watchlist_scan_state')
+          .upsert({ source_type: sourceType, ...batch.cursor, updated_at: new Date().toISOString() });
+      }
+    }
+
+    console.log(`Watchlist scan complete: ${stats.records_scanned} records, ${stats.hits} new hits against ${entries.length} entries`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        dry_run: dryRun,
+        watchlists_checked: entries.length,
+        ...stats,
+        results: hits,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Watchlist matching error:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: formatError(error),
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
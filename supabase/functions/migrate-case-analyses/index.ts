@@ -0,0 +1,158 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { caseAnalysisFromMarkdown, caseAnalysisQuality, type CaseAnalysis } from '../shared/case-analysis.ts';
+import { formatError } from '../shared/monitor-utils.ts';
+import { requireRole } from '../shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+interface MigrateRequest {
+  limit?: number;
+  dry_run?: boolean;
+}
+
+interface LegacyRow {
+  id: string;
+  dashboard_summary: string | null;
+  parsed_json: Record<string, unknown> | null;
+}
+
+interface MigrationStats {
+  scanned: number;
+  converted: number;
+  skipped: number;
+  failed: number;
+}
+
+const PAGE_SIZE = 200;
+
+function legacyMarkdown(row: LegacyRow): string | null {
+  const fullSummary = row.parsed_json?.full_summary;
+  if (typeof fullSummary === 'string' && fullSummary.trim()) return fullSummary;
+  return row.dashboard_summary?.trim() ? row.dashboard_summary : null;
+}
+
+async function migrateTable(
+  supabase: SupabaseClient,
+  table: 'cases' | 'analyzed_registry_pdfs',
+  limit: number,
+  dryRun: boolean,
+  samples: Array<{ table: string; id: string; analysis: CaseAnalysis }>
+): Promise<MigrationStats> {
+  const stats: MigrationStats = { scanned: 0, converted: 0, skipped: 0, failed: 0 };
+  let lastId: string | null = null;
+
+  // Keyset pagination by id so dry runs and skipped rows don't repeat
+  while (stats.scanned < limit) {
+    let query = supabase
+      .from(table)
+      .select('id, dashboard_summary, parsed_json')
+      .not('dashboard_summary', 'is', null)
+      .or('parsed_json.is.null,parsed_json->schema_version.is.null')
+      .order('id', { ascending: true })
+      .limit(Math.min(PAGE_SIZE, limit - stats.scanned));
+    if (lastId) query = query.gt('id', lastId);
+
+    const { data: page, error } = await query;
+    if (error) throw new Error(`Failed to load ${table}: ${error.message}`);
+    if (!page || page.length === 0) break;
+
+    for (const row of page as LegacyRow[]) {
+      stats.scanned++;
+      lastId = row.id;
+
+      const markdown = legacyMarkdown(row);
+      if (!markdown) {
+        stats.skipped++;
+        continue;
+      }
+
+      const analysis = caseAnalysisFromMarkdown(markdown);
+      if (samples.length < 5) samples.push({ table, id: row.id, analysis });
+
+      if (dryRun) {
+        stats.converted++;
+        continue;
+      }
+
+      const update: Record<string, unknown> = { parsed_json: analysis };
+      if (table === 'cases') {
+        const quality = caseAnalysisQuality(analysis);
+        update.fields_extracted = quality.extracted;
+        update.fields_missing = quality.missing;
+      }
+
+      const { error: updateError } = await supabase.from(table).update(update).eq('id', row.id);
+      if (updateError) {
+        console.error(`Failed to update ${table} ${row.id}: ${updateError.message}`);
+        stats.failed++;
+      } else {
+        stats.converted++;
+      }
+    }
+
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  return stats;
+}
+
+/**
+ * One-off conversion of markdown case analyses (written before schema_version 1)
+ * into the structured parsed_json format. Safe to re-run: rows that already have
+ * a schema_version are skipped.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const user = await requireRole(req, supabase, 'admin', corsHeaders);
+    if (user instanceof Response) return user;
+
+    const body: MigrateRequest = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const limit = Math.min(body.limit ?? 1000, 5000);
+    const dryRun = body.dry_run === true;
+
+    const samples: Array<{ table: string; id: string; analysis: CaseAnalysis }> = [];
+    const cases = await migrateTable(supabase, 'cases', limit, dryRun, samples);
+    const analyzedPdfs = await migrateTable(supabase, 'analyzed_registry_pdfs', limit, dryRun, samples);
+
+    console.log(
+      `Case analysis migration complete: ${cases.converted} cases and ${analyzedPdfs.converted} analyzed PDFs converted`
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        dry_run: dryRun,
+        cases,
+        analyzed_registry_pdfs: analyzedPdfs,
+        // Converted objects to spot-check before running without dry_run
+        samples: dryRun ? samples : undefined,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Case analysis migration error:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: formatError(error),
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
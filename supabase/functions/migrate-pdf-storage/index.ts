@@ -0,0 +1,164 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { formatError } from '../shared/monitor-utils.ts';
+import { byteaToBytes, storePdf } from '../shared/pdf-storage.ts';
+import { requireRole } from '../shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+interface MigrateRequest {
+  limit?: number;
+  dry_run?: boolean;
+}
+
+interface LegacyRow {
+  id: string;
+  pdf_url: string | null;
+  pdf_bytes: unknown;
+}
+
+interface MigrationStats {
+  scanned: number;
+  moved: number;
+  deduplicated: number;
+  bytes: number;
+  failed: number;
+  remaining: number;
+}
+
+// PDFs are loaded one page at a time, so keep pages small
+const PAGE_SIZE = 10;
+
+async function countRemaining(supabase: SupabaseClient, table: 'cases' | 'gazette_issues'): Promise<number> {
+  const { count, error } = await supabase
+    .from(table)
+    .select('id', { count: 'exact', head: true })
+    .not('pdf_bytes', 'is', null)
+    .is('pdf_object_id', null);
+
+  if (error) throw new Error(`Failed to count ${table}: ${error.message}`);
+  return count ?? 0;
+}
+
+async function migrateTable(
+  supabase: SupabaseClient,
+  table: 'cases' | 'gazette_issues',
+  limit: number,
+  dryRun: boolean
+): Promise<MigrationStats> {
+  const stats: MigrationStats = { scanned: 0, moved: 0, deduplicated: 0, bytes: 0, failed: 0, remaining: 0 };
+
+  if (dryRun) {
+    stats.remaining = await countRemaining(supabase, table);
+    return stats;
+  }
+
+  let lastId: string | null = null;
+
+  // Keyset pagination by id so rows that fail are not retried within one run
+  while (stats.scanned < limit) {
+    let query = supabase
+      .from(table)
+      .select('id, pdf_url, pdf_bytes')
+      .not('pdf_bytes', 'is', null)
+      .is('pdf_object_id', null)
+      .order('id', { ascending: true })
+      .limit(Math.min(PAGE_SIZE, limit - stats.scanned));
+    if (lastId) query = query.gt('id', lastId);
+
+    const { data: page, error } = await query;
+    if (error) throw new Error(`Failed to load ${table}: ${error.message}`);
+    if (!page || page.length === 0) break;
+
+    for (const row of page as LegacyRow[]) {
+      stats.scanned++;
+      lastId = row.id;
+
+      try {
+        const bytes = byteaToBytes(row.pdf_bytes);
+        if (!bytes) throw new Error('unreadable pdf_bytes');
+
+        const { object, deduplicated } = await storePdf(supabase, bytes, {
+          filename: row.pdf_url ? decodeURIComponent(row.pdf_url.split('/').pop() || '') || null : null,
+          sourceUrl: row.pdf_url,
+        });
+
+        // The bytea is only cleared once the row points at the stored copy
+        const { error: updateError } = await supabase
+          .from(table)
+          .update({ pdf_object_id: object.id, pdf_bytes: null })
+          .eq('id', row.id);
+        if (updateError) throw updateError;
+
+        stats.moved++;
+        stats.bytes += bytes.length;
+        if (deduplicated) stats.deduplicated++;
+      } catch (error) {
+        console.error(`Failed to move PDF for ${table} ${row.id}: ${formatError(error)}`);
+        stats.failed++;
+      }
+    }
+
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  stats.remaining = await countRemaining(supabase, table);
+  return stats;
+}
+
+/**
+ * One-off move of bytea PDFs in cases.pdf_bytes and gazette_issues.pdf_bytes
+ * into the pdfs Storage bucket. Safe to re-run: rows that already point at a
+ * pdf_objects row are skipped.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const user = await requireRole(req, supabase, 'admin', corsHeaders);
+    if (user instanceof Response) return user;
+
+    const body: MigrateRequest = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const limit = Math.min(body.limit ?? 50, 500);
+    const dryRun = body.dry_run === true;
+
+    const cases = await migrateTable(supabase, 'cases', limit, dryRun);
+    const gazetteIssues = await migrateTable(supabase, 'gazette_issues', limit, dryRun);
+
+    console.log(
+      `PDF storage migration: ${cases.moved} case PDFs and ${gazetteIssues.moved} gazette PDFs moved`
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        dry_run: dryRun,
+        cases,
+        gazette_issues: gazetteIssues,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('PDF storage migration error:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: formatError(error),
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -1,4 +1,6 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { legacySignalName } from '../shared/monitor-compat.ts';
+import { canonicalSignal } from '../shared/monitor-types.ts';
 import { formatError } from '../shared/monitor-utils.ts';
 
 const corsHeaders = {
@@ -14,10 +16,11 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
-    );
+    // Reads the compatibility views as the caller so their role's RLS applies
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', anonKey, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? `Bearer ${anonKey}` } },
+    });
 
     const url = new URL(req.url);
     const signal = url.searchParams.get('signal');
@@ -39,8 +42,9 @@ Deno.serve(async (req) => {
 
     // Apply filters
     if (signal) {
-      // Filter by specific signal
-      const signalColumn = `signal_${signal}`;
+      // Filter by specific signal; the view keeps the old column names
+      const canonical = canonicalSignal(signal);
+      const signalColumn = `signal_${canonical ? legacySignalName(canonical) : signal}`;
       query = query.eq(signalColumn, true);
     }
 
@@ -79,7 +83,7 @@ Deno.serve(async (req) => {
       query = query.or(`title.ilike.%${q}%,content_snippet.ilike.%${q}%`);
     }
 
-    if (source && (source === 'gdelt' || source === 'newsapi')) {
+    if (source && (source === 'gdelt' || source === 'newsapi' || source === 'rss')) {
       query = query.eq('source_api', source);
     }
 
@@ -14,10 +14,11 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
-    );
+    // Reads the compatibility views as the caller so their role's RLS applies
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', anonKey, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? `Bearer ${anonKey}` } },
+    });
 
     console.log('Fetching monitor statistics...');
 
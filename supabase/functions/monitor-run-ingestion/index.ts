@@ -1,5 +1,7 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { invokeMonitorFunction, toIngestionRunResponse } from '../shared/monitor-compat.ts';
 import { formatError } from '../shared/monitor-utils.ts';
+import { requireRole } from '../shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -19,36 +21,32 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
+    const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+    if (user instanceof Response) return user;
+
     const body = await req.json().catch(() => ({}));
-    const source = body.source || 'all'; // 'all', 'gdelt', or 'newsapi'
-    const lookback_hours = body.lookback_hours;
+    const source = body.source || 'all'; // 'all', 'gdelt', 'newsapi' or 'rss'
+    const triggered_by = body.triggered_by || 'manual';
+
+    // Sources switched off in monitor_settings are skipped
+    const { data: settings } = await supabase
+      .from('monitor_settings')
+      .select('gdelt_enabled, newsapi_enabled, rss_enabled, lookback_hours')
+      .eq('id', '00000000-0000-0000-0000-000000000002')
+      .maybeSingle();
+    const lookback_hours = body.lookback_hours || settings?.lookback_hours;
 
     console.log(`Triggering ingestion: source=${source}, lookback=${lookback_hours || 'default'}`);
 
     const results: any[] = [];
     const errors: string[] = [];
 
-    // Get Supabase URL and service role key for calling edge functions
-    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
-    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
-
     // Trigger GDELT ingestion
-    if (source === 'all' || source === 'gdelt') {
+    if ((source === 'all' || source === 'gdelt') && settings?.gdelt_enabled !== false) {
       try {
         console.log('Triggering GDELT ingestion...');
-        const response = await fetch(`${supabaseUrl}/functions/v1/monitor-ingest-gdelt`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${serviceRoleKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            lookback_hours,
-            triggered_by: 'manual',
-          }),
-        });
-
-        const result = await response.json();
+        const { result: canonical } = await invokeMonitorFunction('ingest_gdelt', { lookback_hours, triggered_by });
+        const result = toIngestionRunResponse(canonical);
         results.push({ source: 'gdelt', ...result });
 
         if (!result.success) {
@@ -62,22 +60,11 @@ Deno.serve(async (req) => {
     }
 
     // Trigger NewsAPI ingestion
-    if (source === 'all' || source === 'newsapi') {
+    if ((source === 'all' || source === 'newsapi') && settings?.newsapi_enabled !== false) {
       try {
         console.log('Triggering NewsAPI ingestion...');
-        const response = await fetch(`${supabaseUrl}/functions/v1/monitor-ingest-newsapi`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${serviceRoleKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            lookback_hours,
-            triggered_by: 'manual',
-          }),
-        });
-
-        const result = await response.json();
+        const { result: canonical } = await invokeMonitorFunction('ingest_newsapi', { lookback_hours, triggered_by });
+        const result = toIngestionRunResponse(canonical);
         results.push({ source: 'newsapi', ...result });
 
         if (!result.success) {
@@ -90,6 +77,24 @@ Deno.serve(async (req) => {
       }
     }
 
+    // Trigger RSS/Atom feed ingestion
+    if ((source === 'all' || source === 'rss') && settings?.rss_enabled !== false) {
+      try {
+        console.log('Triggering RSS ingestion...');
+        const { result: canonical } = await invokeMonitorFunction('ingest_rss', { lookback_hours, triggered_by });
+        const result = toIngestionRunResponse(canonical);
+        results.push({ source: 'rss', ...result });
+
+        if (!result.success) {
+          errors.push(`RSS: ${result.error}`);
+        }
+      } catch (error) {
+        const errorMsg = formatError(error);
+        errors.push(`RSS: ${errorMsg}`);
+        results.push({ source: 'rss', success: false, error: errorMsg });
+      }
+    }
+
     // Calculate estimated completion time (assume 5 minutes max)
     const estimatedCompletion = new Date(Date.now() + 5 * 60 * 1000).toISOString();
 
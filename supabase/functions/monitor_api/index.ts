@@ -1,7 +1,8 @@
-import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
 import { z } from 'npm:zod@3';
-import type { ArticleDTO, ListArticlesResponse } from '../shared/monitor-types-simplified.ts';
-import { articleRowToDTO } from '../shared/monitor-types-simplified.ts';
+import type { ArticleDTO, ArticleRow, ListArticlesResponse, MonitorSignal, StoryArticlesResponse, StoryRow } from '../shared/monitor-types.ts';
+import { MONITOR_SOURCE_APIS, activeSignals, articleRowToDTO, storyRowToDTO } from '../shared/monitor-types.ts';
+import { loadSignalTaxonomy } from '../shared/signal-taxonomy.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,15 +11,23 @@ const corsHeaders = {
 };
 
 const ListArticlesSchema = z.object({
-  signal: z.enum(['financial_decline', 'fraud', 'misstated_financials', 'shareholder_issues', 'director_duties', 'enforcement']).optional(),
+  // A name or alias from monitor_signals, checked against the taxonomy
+  signal: z.string().regex(/^[a-z][a-z0-9_]*$/).optional(),
   from: z.string().datetime().optional(),
   to: z.string().datetime().optional(),
   q: z.string().optional(),
   source: z.string().optional(),
   limit: z.number().int().min(1).max(100).default(25),
   cursor: z.string().optional(),
+  group: z.enum(['story', 'none']).default('story'),
 });
 
+// Everything the list needs; leaves out body and the 1536-float embedding
+const ARTICLE_LIST_COLUMNS =
+  'id, url, source, title, excerpt, published_at, cayman_flag, signals, reasons, confidence, story_id';
+
+const STORY_COLUMNS = 'id, title, lead_article_id, article_count, source_count, embedding_model, first_published_at, last_published_at';
+
 function parseCursor(cursor: string): { timestamp: string; id: string } | null {
   try {
     const [timestamp, id] = cursor.split('|');
@@ -44,19 +53,30 @@ async function handleListArticles(req: Request, supabase: any): Promise<Response
       source: url.searchParams.get('source') || undefined,
       limit: parseInt(url.searchParams.get('limit') || '25'),
       cursor: url.searchParams.get('cursor') || undefined,
+      group: url.searchParams.get('group') || undefined,
     };
 
     const validated = ListArticlesSchema.parse(params);
+    const taxonomy = await loadSignalTaxonomy(supabase);
+
+    let signal: MonitorSignal | null = null;
+    if (validated.signal) {
+      signal = taxonomy.canonical(validated.signal);
+      if (!signal) {
+        throw new Error(`Unknown signal: ${validated.signal}`);
+      }
+    }
 
     let query = supabase
       .from('articles')
-      .select('*')
+      .select(ARTICLE_LIST_COLUMNS)
       .eq('cayman_flag', true)
       .order('published_at', { ascending: false })
       .order('id', { ascending: false });
 
-    if (validated.signal) {
-      query = query.eq(`signals->${validated.signal}`, true);
+    // Containment uses the GIN index on signals
+    if (signal) {
+      query = query.contains('signals', { [signal]: true });
     }
 
     if (validated.from) {
@@ -66,12 +86,17 @@ async function handleListArticles(req: Request, supabase: any): Promise<Response
       query = query.lte('published_at', validated.to);
     }
 
+    // An ingestion API (gdelt, newsapi, rss) or a publishing domain
     if (validated.source) {
-      query = query.eq('source', validated.source);
+      query = (MONITOR_SOURCE_APIS as readonly string[]).includes(validated.source)
+        ? query.eq('source_api', validated.source)
+        : query.eq('source', validated.source);
     }
 
+    // Full-text search over title, excerpt and body (articles.search_vector);
+    // the search function covers every other source
     if (validated.q) {
-      query = query.or(`title.ilike.%${validated.q}%,excerpt.ilike.%${validated.q}%`);
+      query = query.textSearch('search_vector', validated.q, { type: 'websearch', config: 'english' });
     }
 
     if (validated.cursor) {
@@ -100,7 +125,40 @@ async function handleListArticles(req: Request, supabase: any): Promise<Response
       nextCursor = generateCursor(lastItem.published_at, lastItem.id);
     }
 
-    const dtos: ArticleDTO[] = items.map(articleRowToDTO);
+    let dtos: ArticleDTO[];
+
+    if (validated.group === 'story') {
+      // One card per story: the first copy on the page stands for the others.
+      // A story whose copies straddle two pages can appear on both; the client
+      // drops the repeat.
+      const storyIds = [...new Set(items.map((item: ArticleRow) => item.story_id).filter(Boolean))];
+      const stories = new Map<string, StoryRow>();
+
+      if (storyIds.length > 0) {
+        const { data: storyRows, error: storyError } = await supabase
+          .from('stories')
+          .select(STORY_COLUMNS)
+          .in('id', storyIds);
+
+        if (storyError) {
+          throw new Error(`Story query failed: ${storyError.message}`);
+        }
+        for (const story of storyRows || []) stories.set(story.id, story);
+      }
+
+      const seen = new Set<string>();
+      dtos = [];
+      for (const item of items as ArticleRow[]) {
+        if (item.story_id) {
+          if (seen.has(item.story_id)) continue;
+          seen.add(item.story_id);
+        }
+        const story = item.story_id ? stories.get(item.story_id) : undefined;
+        dtos.push({ ...articleRowToDTO(item, taxonomy), story: story ? storyRowToDTO(story) : null });
+      }
+    } else {
+      dtos = items.map((item: ArticleRow) => articleRowToDTO(item, taxonomy));
+    }
 
     const response: ListArticlesResponse = {
       items: dtos,
@@ -123,6 +181,58 @@ async function handleListArticles(req: Request, supabase: any): Promise<Response
   }
 }
 
+async function handleStoryArticles(storyId: string, supabase: SupabaseClient): Promise<Response> {
+  try {
+    z.string().uuid().parse(storyId);
+
+    const { data: story, error: storyError } = await supabase
+      .from('stories')
+      .select(STORY_COLUMNS)
+      .eq('id', storyId)
+      .maybeSingle();
+
+    if (storyError) {
+      throw new Error(`Query failed: ${storyError.message}`);
+    }
+
+    if (!story) {
+      return new Response(
+        JSON.stringify({ error: 'Story not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: articles, error } = await supabase
+      .from('articles')
+      .select('id, url, source, source_name, title, published_at, similarity_score')
+      .eq('story_id', storyId)
+      .order('published_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Query failed: ${error.message}`);
+    }
+
+    const response: StoryArticlesResponse = {
+      story: storyRowToDTO(story),
+      articles: articles || [],
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in handleStoryArticles:', error);
+    return new Response(
+      JSON.stringify({ error: String(error) }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
 async function handleStats(req: Request, supabase: any): Promise<Response> {
   try {
     const thirtyDaysAgo = new Date();
@@ -138,17 +248,12 @@ async function handleStats(req: Request, supabase: any): Promise<Response> {
       throw new Error(`Stats query failed: ${error.message}`);
     }
 
+    const taxonomy = await loadSignalTaxonomy(supabase);
+
     const stats = {
       total_articles: articles?.length || 0,
       cayman_relevant: articles?.length || 0,
-      by_signal: {
-        financial_decline: 0,
-        fraud: 0,
-        misstated_financials: 0,
-        shareholder_issues: 0,
-        director_duties: 0,
-        enforcement: 0,
-      },
+      by_signal: Object.fromEntries(taxonomy.names.map((signal) => [signal, 0])) as Record<MonitorSignal, number>,
       by_source: {} as Record<string, number>,
       recent_24h: {
         total: 0,
@@ -161,13 +266,8 @@ async function handleStats(req: Request, supabase: any): Promise<Response> {
     twentyFourHoursAgo.setDate(twentyFourHoursAgo.getDate() - 1);
 
     for (const article of articles || []) {
-      if (article.signals) {
-        if (article.signals.financial_decline) stats.by_signal.financial_decline++;
-        if (article.signals.fraud) stats.by_signal.fraud++;
-        if (article.signals.misstated_financials) stats.by_signal.misstated_financials++;
-        if (article.signals.shareholder_issues) stats.by_signal.shareholder_issues++;
-        if (article.signals.director_duties) stats.by_signal.director_duties++;
-        if (article.signals.enforcement) stats.by_signal.enforcement++;
+      for (const signal of activeSignals(article.signals, taxonomy)) {
+        stats.by_signal[signal]++;
       }
 
       const source = article.source || 'unknown';
@@ -237,6 +337,13 @@ async function handleStats(req: Request, supabase: any): Promise<Response> {
   }
 }
 
+// Queries run as the caller so their role's RLS policies apply
+function userClient(req: Request, supabaseUrl: string, anonKey: string) {
+  return createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? `Bearer ${anonKey}` } },
+  });
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
@@ -252,16 +359,18 @@ Deno.serve(async (req) => {
 
   try {
     if (path.includes('/articles') && req.method === 'GET') {
-      const authHeader = req.headers.get('Authorization');
-      const token = authHeader?.replace('Bearer ', '') || anonKey;
-      const supabase = createClient(supabaseUrl, token);
+      const supabase = userClient(req, supabaseUrl, anonKey);
       return await handleListArticles(req, supabase);
     }
 
+    const storyMatch = path.match(/\/stories\/([^/]+)$/);
+    if (storyMatch && req.method === 'GET') {
+      const supabase = userClient(req, supabaseUrl, anonKey);
+      return await handleStoryArticles(storyMatch[1], supabase);
+    }
+
     if (path.includes('/stats') && req.method === 'GET') {
-      const authHeader = req.headers.get('Authorization');
-      const token = authHeader?.replace('Bearer ', '') || anonKey;
-      const supabase = createClient(supabaseUrl, token);
+      const supabase = userClient(req, supabaseUrl, anonKey);
       return await handleStats(req, supabase);
     }
 
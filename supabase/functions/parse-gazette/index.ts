@@ -1,5 +1,11 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
 import { PDFExtract } from 'npm:pdf.js-extract@0.2.1';
+import { shouldTriggerOCR, splitPdfTextPages } from '../shared/extraction-patterns.ts';
+import { formatError } from '../shared/monitor-utils.ts';
+import { loadRowPdf, storePdf } from '../shared/pdf-storage.ts';
+import { lowConfidenceReviewItems, mergeOcrText, saveOcrPages, selectOcrPages } from '../shared/ocr.ts';
+import { runLocalOcr } from '../shared/ocr-engines.ts';
+import { requireRole } from '../shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -24,6 +30,9 @@ Deno.serve(async (req: Request) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+    if (user instanceof Response) return user;
+
     const { issue_id }: ParseRequest = await req.json();
 
     if (!issue_id) {
@@ -37,35 +46,67 @@ Deno.serve(async (req: Request) => {
 
     const { data: issueData, error: issueError } = await supabase
       .from('gazette_issues')
-      .select('pdf_bytes, kind')
+      .select('pdf_object_id, pdf_bytes, pdf_url, kind')
       .eq('id', issue_id)
       .single();
 
-    if (issueError || !issueData || !issueData.pdf_bytes) {
+    if (issueError || !issueData) {
       throw new Error('Issue not found or missing PDF data');
     }
 
-    const pdfBytes = new Uint8Array(issueData.pdf_bytes);
+    const pdfBytes = await loadRowPdf(supabase, issueData);
+    if (!pdfBytes) {
+      throw new Error('Issue not found or missing PDF data');
+    }
     console.log(`Extracting text from PDF: ${pdfBytes.length} bytes`);
 
     const pdfExtractor = new PDFExtract();
     const data = await pdfExtractor.extractBuffer(pdfBytes);
 
-    const fullText = data.pages
-      .map((page: any) => {
-        return page.content
-          .map((item: any) => item.str)
-          .join(' ');
-      })
-      .join('\n\n');
+    let pageTexts: string[] = data.pages.map((page: any) => {
+      return page.content
+        .map((item: any) => item.str)
+        .join(' ');
+    });
+
+    let ocrUsed = false;
+    let ocrReviewItems: ReturnType<typeof lowConfidenceReviewItems> = [];
+
+    // Scanned issues have little or no text layer; OCR the pages that came back empty
+    const markedText = pageTexts.map((text, index) => `--- PAGE ${index + 1} ---\n${text}`).join('\n\n');
+    if (shouldTriggerOCR(markedText, 50 * pageTexts.length)) {
+      const pages = selectOcrPages(markedText, pageTexts.length);
+      console.log(`Little text found, running OCR on pages: ${pages.join(', ')}`);
+
+      const pdfObjectId = issueData.pdf_object_id
+        ?? (await storePdf(supabase, pdfBytes, { sourceUrl: issueData.pdf_url })).object.id;
+
+      const run = await runLocalOcr(pdfBytes, pages);
+      const merged = mergeOcrText(markedText, run.pages, pageTexts.length);
+      if (merged.replaced_pages.length > 0) {
+        pageTexts = splitPdfTextPages(merged.text).map((page) => page.text);
+        ocrUsed = true;
+      }
+
+      const pageIds = await saveOcrPages(supabase, pdfObjectId, run);
+      ocrReviewItems = lowConfidenceReviewItems(run, pageIds, { issue_id });
+      console.log(`OCR replaced ${merged.replaced_pages.length} pages, mean confidence ${run.mean_confidence ?? 'n/a'}`);
+    }
+
+    const fullText = pageTexts.join('\n\n');
 
     console.log(`Extracted ${fullText.length} characters`);
 
     await supabase
       .from('gazette_issues')
-      .update({ pdf_text: fullText })
+      .update({ pdf_text: fullText, ocr_used: ocrUsed })
       .eq('id', issue_id);
 
+    if (ocrReviewItems.length > 0) {
+      const { error: queueError } = await supabase.from('review_queue').insert(ocrReviewItems);
+      if (queueError) console.error('Failed to queue low-confidence OCR pages:', queueError);
+    }
+
     const notices = parseNotices(fullText);
     console.log(`Found ${notices.length} notices`);
 
@@ -145,7 +186,7 @@ Deno.serve(async (req: Request) => {
     return new Response(
       JSON.stringify({
         success: false,
-        error: error.message,
+        error: formatError(error),
       }),
       {
         status: 500,
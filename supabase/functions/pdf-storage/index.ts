@@ -0,0 +1,77 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { formatError } from '../shared/monitor-utils.ts';
+import { base64ToBytes, isPdf, signedPdfUrl, storePdf } from '../shared/pdf-storage.ts';
+import { requireRole } from '../shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+// Matches the upload panels' own limit
+const MAX_UPLOAD_BYTES = 30 * 1024 * 1024;
+
+type StorageRequest =
+  | { action: 'upload'; pdf_base64: string; filename?: string }
+  | { action: 'signed_url'; pdf_object_id: string };
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * The bucket is private: the UI uploads PDFs and gets short-lived download
+ * links through here rather than talking to Storage directly.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const request: StorageRequest = await req.json();
+
+    // Anyone signed in can download; uploading needs analyst
+    const user = await requireRole(req, supabase, request.action === 'upload' ? 'analyst' : 'viewer', corsHeaders);
+    if (user instanceof Response) return user;
+
+    if (request.action === 'upload') {
+      if (!request.pdf_base64) {
+        return json({ success: false, error: 'Missing required field: pdf_base64' }, 400);
+      }
+
+      const bytes = base64ToBytes(request.pdf_base64);
+      if (bytes.length > MAX_UPLOAD_BYTES) {
+        return json({ success: false, error: 'PDF file is too large. Maximum size is 30MB.' }, 413);
+      }
+      if (!isPdf(bytes)) {
+        return json({ success: false, error: 'Please upload a PDF file only.' }, 400);
+      }
+
+      const { object, deduplicated } = await storePdf(supabase, bytes, { filename: request.filename });
+      return json({ success: true, pdf_object: object, deduplicated });
+    }
+
+    if (request.action === 'signed_url') {
+      if (!request.pdf_object_id) {
+        return json({ success: false, error: 'Missing required field: pdf_object_id' }, 400);
+      }
+
+      const signed = await signedPdfUrl(supabase, request.pdf_object_id);
+      return json({ success: true, url: signed.url, expires_at: signed.expires_at });
+    }
+
+    return json({ success: false, error: 'Invalid action: must be "upload" or "signed_url"' }, 400);
+  } catch (error) {
+    console.error('PDF storage error:', error);
+    return json({ success: false, error: formatError(error) }, 500);
+  }
+});
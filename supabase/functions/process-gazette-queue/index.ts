@@ -0,0 +1,308 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { formatError } from '../shared/monitor-utils.ts';
+import { downloadGazettePdf, type GazetteArchiveEntry } from '../shared/gazette-archive.ts';
+import { storePdf } from '../shared/pdf-storage.ts';
+import { requireRole } from '../shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+interface QueueRequest {
+  limit?: number;
+  /** Minimum gap between analyzer calls */
+  min_interval_ms?: number;
+  /** Only work on PDFs queued by this gazette_backfill job */
+  backfill_id?: string;
+}
+
+interface QueuedJob {
+  id: string;
+  status: string;
+  attempts: number;
+  parent_job_id: string | null;
+  payload: GazetteArchiveEntry;
+}
+
+const DEFAULT_LIMIT = 3;
+const MAX_LIMIT = 20;
+const DEFAULT_MIN_INTERVAL_MS = 5000;
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 5 * 60 * 1000;
+// A job still "running" after this long belongs to an invocation that died
+const STALE_RUNNING_MS = 15 * 60 * 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function nextAttemptAt(attempts: number): string {
+  return new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString();
+}
+
+/**
+ * Move a job to running, unless another invocation got there first
+ */
+async function claimJob(supabase: SupabaseClient, job: QueuedJob): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('scrape_jobs')
+    .update({
+      status: 'running',
+      started_at: new Date().toISOString(),
+      attempts: (job.attempts ?? 0) + 1,
+      error_log: null,
+    })
+    .eq('id', job.id)
+    .eq('status', job.status)
+    .select('id');
+
+  if (error) throw error;
+  return (data?.length ?? 0) > 0;
+}
+
+async function alreadyAnalyzed(supabase: SupabaseClient, entry: GazetteArchiveEntry): Promise<string | null> {
+  if (!entry.issue_number) return null;
+
+  const { data, error } = await supabase
+    .from('analyzed_gazette_pdfs')
+    .select('id')
+    .eq('gazette_type', entry.kind)
+    .eq('issue_number', entry.issue_number)
+    .limit(1);
+
+  if (error) throw error;
+  return data?.[0]?.id ?? null;
+}
+
+async function countChildren(
+  supabase: SupabaseClient,
+  parentId: string,
+  status: string,
+  retryingOnly = false
+): Promise<number> {
+  let query = supabase
+    .from('scrape_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('parent_job_id', parentId)
+    .eq('status', status);
+
+  if (retryingOnly) {
+    query = query.lt('attempts', MAX_ATTEMPTS);
+  }
+
+  const { count, error } = await query;
+  if (error) throw error;
+  return count ?? 0;
+}
+
+/**
+ * Recount a backfill's PDFs into its progress and close it once nothing is outstanding
+ */
+async function refreshBackfillProgress(supabase: SupabaseClient, parentId: string): Promise<void> {
+  const { data: parent, error } = await supabase
+    .from('scrape_jobs')
+    .select('id, status, progress')
+    .eq('id', parentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!parent) return;
+
+  const counts = {
+    pending: await countChildren(supabase, parentId, 'pending'),
+    running: await countChildren(supabase, parentId, 'running'),
+    success: await countChildren(supabase, parentId, 'success'),
+    skipped: await countChildren(supabase, parentId, 'skipped'),
+    failed: await countChildren(supabase, parentId, 'failed'),
+    retrying: await countChildren(supabase, parentId, 'failed', true),
+  };
+
+  const outstanding = counts.pending + counts.running + counts.retrying;
+  const update: Record<string, unknown> = {
+    progress: { ...(parent.progress ?? {}), ...counts },
+  };
+
+  if (outstanding === 0 && parent.status === 'running') {
+    update.status = counts.failed > 0 ? 'partial_success' : 'success';
+    update.completed_at = new Date().toISOString();
+    update.summary_report =
+      `${counts.success} analyzed, ${counts.skipped} already analyzed, ${counts.failed} failed`;
+  }
+
+  await supabase.from('scrape_jobs').update(update).eq('id', parentId);
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+    if (user instanceof Response) return user;
+
+    const request: QueueRequest = await req.json().catch(() => ({}));
+    const limit = Math.min(Math.max(request.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const minIntervalMs = Math.max(request.min_interval_ms ?? DEFAULT_MIN_INTERVAL_MS, 0);
+
+    const now = new Date().toISOString();
+    const staleBefore = new Date(Date.now() - STALE_RUNNING_MS).toISOString();
+
+    let query = supabase
+      .from('scrape_jobs')
+      .select('id, status, attempts, parent_job_id, payload')
+      .eq('job_type', 'gazette_pdf')
+      .or(
+        [
+          'status.eq.pending',
+          `and(status.eq.failed,attempts.lt.${MAX_ATTEMPTS},next_attempt_at.lte.${now})`,
+          `and(status.eq.running,started_at.lt.${staleBefore})`,
+        ].join(',')
+      )
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (request.backfill_id) {
+      query = query.eq('parent_job_id', request.backfill_id);
+    }
+
+    const { data: jobs, error: jobsError } = await query;
+    if (jobsError) throw jobsError;
+
+    console.log(`Gazette queue: ${jobs?.length ?? 0} jobs to process`);
+
+    const results = [];
+    const parents = new Set<string>();
+    let lastAnalyzerCall = 0;
+
+    for (const job of (jobs ?? []) as QueuedJob[]) {
+      if (!(await claimJob(supabase, job))) continue;
+      if (job.parent_job_id) parents.add(job.parent_job_id);
+
+      const entry = job.payload;
+      const attempts = (job.attempts ?? 0) + 1;
+
+      try {
+        const existingId = await alreadyAnalyzed(supabase, entry);
+        if (existingId) {
+          await supabase
+            .from('scrape_jobs')
+            .update({
+              status: 'skipped',
+              completed_at: new Date().toISOString(),
+              quality_metrics: { gazette_id: existingId },
+              summary_report: `${entry.issue_number} was already analyzed`,
+            })
+            .eq('id', job.id);
+          results.push({ job_id: job.id, pdf_url: entry.pdf_url, status: 'skipped', gazette_id: existingId });
+          continue;
+        }
+
+        const wait = lastAnalyzerCall + minIntervalMs - Date.now();
+        if (wait > 0) await sleep(wait);
+        lastAnalyzerCall = Date.now();
+
+        console.log(`Analyzing ${entry.pdf_url}`);
+        const pdfBytes = await downloadGazettePdf(entry.pdf_url);
+        const { object: pdfObject } = await storePdf(supabase, pdfBytes, {
+          filename: decodeURIComponent(entry.pdf_url.split('/').pop() || ''),
+          sourceUrl: entry.pdf_url,
+        });
+
+        const response = await fetch(`${supabaseUrl}/functions/v1/analyze-gazette-with-claude`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            pdf_object_id: pdfObject.id,
+            gazette_type: entry.kind,
+            issue_number: entry.issue_number ?? undefined,
+            issue_date: entry.issue_date ?? undefined,
+            uploaded_by: 'backfill',
+          }),
+        });
+
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || `Analyzer returned ${response.status}`);
+        }
+
+        await supabase
+          .from('scrape_jobs')
+          .update({
+            status: 'success',
+            completed_at: new Date().toISOString(),
+            items_found: result.notices_count ?? 0,
+            new_items: result.notices_count ?? 0,
+            quality_metrics: {
+              gazette_id: result.gazette_id,
+              notices_count: result.notices_count ?? 0,
+              pdf_object_id: pdfObject.id,
+              pdf_size: pdfBytes.length,
+            },
+          })
+          .eq('id', job.id);
+
+        results.push({
+          job_id: job.id,
+          pdf_url: entry.pdf_url,
+          status: 'success',
+          gazette_id: result.gazette_id,
+          notices_count: result.notices_count ?? 0,
+        });
+      } catch (error) {
+        const message = formatError(error);
+        console.error(`Gazette job ${job.id} failed (attempt ${attempts}):`, message);
+
+        await supabase
+          .from('scrape_jobs')
+          .update({
+            status: 'failed',
+            completed_at: new Date().toISOString(),
+            error_log: message,
+            next_attempt_at: attempts < MAX_ATTEMPTS ? nextAttemptAt(attempts) : null,
+          })
+          .eq('id', job.id);
+
+        results.push({ job_id: job.id, pdf_url: entry.pdf_url, status: 'failed', attempts, error: message });
+      }
+    }
+
+    for (const parentId of parents) {
+      await refreshBackfillProgress(supabase, parentId);
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        processed: results.length,
+        results,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Gazette queue error:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: formatError(error),
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
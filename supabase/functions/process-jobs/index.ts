@@ -0,0 +1,302 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { formatError } from '../shared/monitor-utils.ts';
+import {
+  enqueueChain,
+  isJobKind,
+  isRetryableStatus,
+  JOB_DEFINITIONS,
+  JOB_PIPELINES,
+  nextJobAttemptAt,
+  type DependencyResults,
+  type JobKind,
+  type JobRow,
+} from '../shared/jobs.ts';
+import { actorName, requireRole } from '../shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+type ProcessJobsRequest =
+  | { action?: 'run'; limit?: number; kinds?: JobKind[] }
+  | { action: 'requeue'; job_ids: string[] }
+  | { action: 'enqueue'; pipeline: string; payload?: Record<string, unknown>; triggered_by?: string };
+
+interface AttemptOutcome {
+  ok: boolean;
+  statusCode: number | null;
+  error: string | null;
+  result: Record<string, unknown> | null;
+  durationMs: number;
+}
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 25;
+// Edge functions are stopped after ~150s; leave room to record the last job
+const RUN_BUDGET_MS = 110000;
+const JOB_TIMEOUT_MS = 100000;
+// Jobs left running this long were cut off mid-run and are claimed again
+const STALE_AFTER = '15 minutes';
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function dependencyResults(supabase: SupabaseClient, jobId: string): Promise<DependencyResults> {
+  const { data, error } = await supabase
+    .from('job_dependencies')
+    .select('jobs!job_dependencies_depends_on_job_id_fkey(kind, result)')
+    .eq('job_id', jobId);
+
+  if (error) throw new Error(`Failed to load job dependencies: ${error.message}`);
+
+  const results: DependencyResults = {};
+  for (const row of (data || []) as unknown as { jobs: { kind: string; result: Record<string, unknown> | null } }[]) {
+    if (row.jobs && isJobKind(row.jobs.kind)) results[row.jobs.kind] = row.jobs.result ?? {};
+  }
+  return results;
+}
+
+async function attemptJob(
+  supabaseUrl: string,
+  supabaseKey: string,
+  functionName: string,
+  input: Record<string, unknown>
+): Promise<AttemptOutcome> {
+  const started = Date.now();
+
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/${functionName}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${supabaseKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(input),
+      signal: AbortSignal.timeout(JOB_TIMEOUT_MS),
+    });
+    const result = await response.json().catch(() => null);
+    const ok = response.ok && result?.success !== false;
+
+    return {
+      ok,
+      statusCode: response.status,
+      error: ok ? null : result?.error || `HTTP ${response.status}`,
+      result,
+      durationMs: Date.now() - started,
+    };
+  } catch (error) {
+    return { ok: false, statusCode: null, error: formatError(error), result: null, durationMs: Date.now() - started };
+  }
+}
+
+/**
+ * Mark the jobs waiting on a dead job as blocked by it; claim_jobs would never run them
+ */
+async function blockDependents(supabase: SupabaseClient, job: JobRow): Promise<void> {
+  const { data, error } = await supabase.rpc('block_job_dependents', { p_job_id: job.id });
+  if (error) {
+    console.error(`Failed to block the dependents of job ${job.id}: ${error.message}`);
+  } else if (data) {
+    console.warn(`Job ${job.id} (${job.kind}) is dead; blocked ${data} dependent jobs`);
+  }
+}
+
+/**
+ * Run one claimed job and record the outcome. Returns the job's new status.
+ */
+async function runJob(
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  supabaseKey: string,
+  job: JobRow
+): Promise<'succeeded' | 'failed' | 'dead'> {
+  const now = () => new Date().toISOString();
+
+  if (!isJobKind(job.kind)) {
+    await supabase
+      .from('jobs')
+      .update({ status: 'dead', last_error: `Unknown job kind: ${job.kind}`, finished_at: now(), locked_at: null })
+      .eq('id', job.id);
+    await blockDependents(supabase, job);
+    return 'dead';
+  }
+
+  const definition = JOB_DEFINITIONS[job.kind];
+  let outcome: AttemptOutcome;
+  try {
+    const input = definition.input(job.payload || {}, await dependencyResults(supabase, job.id));
+    outcome = await attemptJob(supabaseUrl, supabaseKey, definition.functionName, input);
+  } catch (error) {
+    outcome = { ok: false, statusCode: null, error: formatError(error), result: null, durationMs: 0 };
+  }
+
+  await supabase.from('job_attempts').insert({
+    job_id: job.id,
+    attempt_number: job.attempt_count,
+    status_code: outcome.statusCode,
+    error: outcome.error,
+    duration_ms: outcome.durationMs,
+  });
+
+  if (outcome.ok) {
+    const { error: updateError } = await supabase
+      .from('jobs')
+      .update({
+        status: 'succeeded',
+        result: outcome.result,
+        last_error: null,
+        next_attempt_at: null,
+        locked_at: null,
+        finished_at: now(),
+      })
+      .eq('id', job.id);
+    if (updateError) console.error(`Failed to record job ${job.id}: ${updateError.message}`);
+
+    if (definition.followUps) {
+      try {
+        const chains = await definition.followUps(outcome.result || {}, supabase);
+        for (const chain of chains) {
+          await enqueueChain(supabase, chain, { parentJobId: job.id });
+        }
+        if (chains.length > 0) console.log(`Job ${job.id} (${job.kind}) queued ${chains.length} follow-up chains`);
+      } catch (error) {
+        console.error(`Failed to queue follow-ups for job ${job.id}:`, error);
+      }
+    }
+    return 'succeeded';
+  }
+
+  const retryAt = isRetryableStatus(outcome.statusCode)
+    ? nextJobAttemptAt(job.attempt_count, job.max_attempts, definition.retry)
+    : null;
+  const status = retryAt ? 'failed' : 'dead';
+
+  const { error: updateError } = await supabase
+    .from('jobs')
+    .update({
+      status,
+      result: outcome.result,
+      last_error: outcome.error,
+      next_attempt_at: retryAt ? retryAt.toISOString() : null,
+      locked_at: null,
+      finished_at: status === 'dead' ? now() : null,
+    })
+    .eq('id', job.id);
+  if (updateError) console.error(`Failed to record job ${job.id}: ${updateError.message}`);
+
+  if (status === 'dead') {
+    console.warn(`Job ${job.id} (${job.kind}) dead-lettered after ${job.attempt_count} attempts: ${outcome.error}`);
+    await blockDependents(supabase, job);
+  }
+  return status;
+}
+
+/**
+ * Works through due jobs in `jobs` (see shared/jobs.ts). Also requeues jobs and
+ * starts pipelines for the Jobs page and cron.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+    if (user instanceof Response) return user;
+
+    const request: ProcessJobsRequest = await req.json().catch(() => ({}));
+
+    if (request.action === 'requeue') {
+      if (!Array.isArray(request.job_ids) || request.job_ids.length === 0) {
+        return json({ success: false, error: 'Missing required field: job_ids' }, 400);
+      }
+
+      // A requeue starts a fresh retry cycle; earlier attempts stay in job_attempts.
+      // Blocked jobs wait for their dead dependency to be requeued instead
+      const { data, error } = await supabase
+        .from('jobs')
+        .update({
+          status: 'pending',
+          attempt_count: 0,
+          next_attempt_at: new Date().toISOString(),
+          finished_at: null,
+          locked_at: null,
+        })
+        .in('id', request.job_ids)
+        .not('status', 'in', '(running,blocked)')
+        .select('id');
+      if (error) throw error;
+
+      const requeued = (data || []).map((job: { id: string }) => job.id);
+      let unblocked = 0;
+      if (requeued.length > 0) {
+        const { data: count, error: unblockError } = await supabase.rpc('unblock_job_dependents', {
+          p_job_ids: requeued,
+        });
+        if (unblockError) throw unblockError;
+        unblocked = count ?? 0;
+      }
+
+      return json({ success: true, requeued: requeued.length, unblocked });
+    }
+
+    if (request.action === 'enqueue') {
+      const pipeline = JOB_PIPELINES[request.pipeline];
+      if (!pipeline) {
+        return json(
+          { success: false, error: `Unknown pipeline: must be one of ${Object.keys(JOB_PIPELINES).join(', ')}` },
+          400
+        );
+      }
+
+      const specs = pipeline();
+      if (request.payload) specs[0] = { ...specs[0], payload: { ...specs[0].payload, ...request.payload } };
+      const jobIds = await enqueueChain(supabase, specs, { triggeredBy: actorName(user, request.triggered_by || 'manual') });
+
+      return json({ success: true, job_ids: jobIds });
+    }
+
+    const limit = Math.min(request.limit || DEFAULT_LIMIT, MAX_LIMIT);
+    const kinds = request.kinds?.filter(isJobKind);
+    const started = Date.now();
+    const summary = { attempted: 0, succeeded: 0, failed: 0, dead: 0 };
+
+    // Claim one at a time so jobs not reached before the time budget stay pending
+    while (summary.attempted < limit && Date.now() - started < RUN_BUDGET_MS) {
+      const { data, error } = await supabase.rpc('claim_jobs', {
+        p_limit: 1,
+        p_kinds: kinds && kinds.length > 0 ? kinds : null,
+        p_stale_after: STALE_AFTER,
+      });
+      if (error) throw error;
+
+      const job = ((data || []) as JobRow[])[0];
+      if (!job) break;
+
+      console.log(`Running job ${job.id} (${job.kind}), attempt ${job.attempt_count} of ${job.max_attempts}`);
+      const status = await runJob(supabase, supabaseUrl, supabaseKey, job);
+
+      summary.attempted++;
+      summary[status]++;
+    }
+
+    console.log(
+      `Jobs: ${summary.attempted} attempted, ${summary.succeeded} succeeded, ${summary.failed} will retry, ${summary.dead} dead`
+    );
+
+    return json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Job processing error:', error);
+    return json({ success: false, error: formatError(error) }, 500);
+  }
+});
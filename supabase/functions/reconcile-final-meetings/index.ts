@@ -0,0 +1,189 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  finalMeetingReviewNotes,
+  linkFinalMeeting,
+  matchFinalMeeting,
+  type FinalMeetingNotice,
+} from '../shared/final-meeting-matching.ts';
+import { formatError } from '../shared/monitor-utils.ts';
+import { requireRole } from '../shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+interface ReconcileRequest {
+  limit?: number;
+  dry_run?: boolean;
+}
+
+const NOTICE_COLUMNS =
+  'id, company_name, registration_no, liquidation_type, final_meeting_date, final_meeting_notice_id, final_meeting_match_status, created_at, analyzed_gazette_pdfs(issue_number, issue_date)';
+
+const PAGE_SIZE = 1000;
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+    if (user instanceof Response) return user;
+
+    const body: ReconcileRequest = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const limit = Math.min(body.limit ?? 500, 2000);
+    const dryRun = body.dry_run === true;
+
+    // Final meeting notices that have not been matched or queued yet: new ones
+    // first, then those looked at longest ago, so a backlog of unmatched
+    // notices cannot keep newer ones from being reached
+    const { data: meetings, error: meetingsError } = await supabase
+      .from('gazette_liquidation_notices')
+      .select(NOTICE_COLUMNS)
+      .eq('liquidation_type', 'Unknown')
+      .not('final_meeting_date', 'is', null)
+      .or('final_meeting_match_status.is.null,final_meeting_match_status.eq.unmatched')
+      .order('final_meeting_reconciled_at', { ascending: true, nullsFirst: true })
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (meetingsError) {
+      throw new Error(`Failed to load final meeting notices: ${meetingsError.message}`);
+    }
+
+    if (!meetings || meetings.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, processed: 0, matched: 0, ambiguous: 0, unmatched: 0, notices_updated: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Liquidation notices still missing a final meeting, across every analyzed gazette
+    const liquidations: FinalMeetingNotice[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: page, error } = await supabase
+        .from('gazette_liquidation_notices')
+        .select(NOTICE_COLUMNS)
+        .neq('liquidation_type', 'Unknown')
+        .is('final_meeting_notice_id', null)
+        .is('final_meeting_date', null)
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw new Error(`Failed to load liquidation notices: ${error.message}`);
+      liquidations.push(...((page || []) as FinalMeetingNotice[]));
+      if (!page || page.length < PAGE_SIZE) break;
+    }
+
+    console.log(`Reconciling ${meetings.length} final meeting notices against ${liquidations.length} liquidation notices${dryRun ? ' (dry run)' : ''}`);
+
+    const claimed = new Set<string>();
+    const results: Array<Record<string, unknown>> = [];
+    const stats = { processed: 0, matched: 0, ambiguous: 0, unmatched: 0, notices_updated: 0 };
+    const reconciledAt = new Date().toISOString();
+
+    for (const meeting of meetings as FinalMeetingNotice[]) {
+      stats.processed++;
+      const outcome = matchFinalMeeting(
+        meeting,
+        liquidations.filter((notice) => !claimed.has(notice.id))
+      );
+
+      if (outcome.status === 'matched') {
+        stats.matched++;
+        const linkedIds = outcome.notices.map((notice) => notice.id);
+        linkedIds.forEach((id) => claimed.add(id));
+        results.push({
+          final_meeting_notice_id: meeting.id,
+          company_name: meeting.company_name,
+          status: 'matched',
+          method: outcome.method,
+          confidence: outcome.confidence,
+          linked_notice_ids: linkedIds,
+        });
+
+        if (dryRun) continue;
+
+        try {
+          await linkFinalMeeting(supabase, meeting, linkedIds, {
+            method: outcome.method,
+            confidence: outcome.confidence,
+            reconciledAt,
+          });
+          stats.notices_updated += linkedIds.length;
+        } catch (error) {
+          console.error(formatError(error));
+        }
+        continue;
+      }
+
+      if (outcome.status === 'ambiguous') {
+        stats.ambiguous++;
+        const notes = finalMeetingReviewNotes(outcome.groups);
+        const { candidates } = notes;
+        results.push({
+          final_meeting_notice_id: meeting.id,
+          company_name: meeting.company_name,
+          status: 'ambiguous',
+          candidates,
+        });
+
+        if (dryRun) continue;
+
+        await supabase.from('review_queue').insert({
+          item_type: 'final_meeting_match',
+          item_id: meeting.id,
+          reason: `Final meeting for "${meeting.company_name}" (${meeting.final_meeting_date}) has ${candidates.length} possible earlier liquidation notices`,
+          priority: 'medium',
+          notes: JSON.stringify(notes),
+        });
+
+        await supabase
+          .from('gazette_liquidation_notices')
+          .update({ final_meeting_match_status: 'ambiguous', final_meeting_reconciled_at: reconciledAt })
+          .eq('id', meeting.id);
+        continue;
+      }
+
+      stats.unmatched++;
+      if (!dryRun) {
+        await supabase
+          .from('gazette_liquidation_notices')
+          .update({ final_meeting_match_status: 'unmatched', final_meeting_reconciled_at: reconciledAt })
+          .eq('id', meeting.id);
+      }
+    }
+
+    console.log(`Reconciliation complete: ${stats.matched} matched, ${stats.ambiguous} sent to review, ${stats.unmatched} unmatched`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        dry_run: dryRun,
+        ...stats,
+        results,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Final meeting reconciliation error:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: formatError(error),
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
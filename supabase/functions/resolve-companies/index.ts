@@ -0,0 +1,380 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { readCaseAnalysis } from '../shared/case-analysis.ts';
+import {
+  CompanyIndex,
+  extractCompanyNamesFromTitle,
+  extractRegistrationNumbers,
+  normalizeCompanyName,
+  normalizeRegistrationNo,
+  type CompanyCandidate,
+  type CompanyRecord,
+  type CompanySourceType,
+} from '../shared/entity-resolution.ts';
+import { afterKeyset, formatError } from '../shared/monitor-utils.ts';
+import { requireRole } from '../shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+interface ResolveRequest {
+  since?: string;
+  limit?: number;
+}
+
+interface SourceLink {
+  company_id: string;
+  source_type: CompanySourceType;
+  source_id: string;
+  match_method: string;
+  match_confidence: number;
+  matched_name: string;
+}
+
+// Position of the last record resolved from a source
+interface ResolutionCursor {
+  last_resolved_at: string;
+  last_source_id: string;
+}
+
+interface ResolveStats {
+  companies_created: number;
+  links_created: number;
+  by_source: Record<CompanySourceType, number>;
+}
+
+const MAX_LIMIT = 2000;
+
+// Entities are extracted after an article is classified; leave recent articles until that has run
+const ARTICLE_SETTLE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Restrict a query to records after the cursor, ordered by (column, id)
+ */
+function afterCursor<Q extends { or(filters: string): Q }>(
+  query: Q,
+  column: string,
+  cursor: ResolutionCursor | undefined
+): Q {
+  return cursor ? afterKeyset(query, column, cursor.last_resolved_at, cursor.last_source_id) : query;
+}
+
+/**
+ * Cursor for the last of a batch of rows, or null when the batch is empty
+ */
+function lastCursor(rows: Array<{ id: string }>, column: string): ResolutionCursor | null {
+  const last = rows[rows.length - 1] as (Record<string, unknown> & { id: string }) | undefined;
+  if (!last) return null;
+  return { last_resolved_at: String(last[column]), last_source_id: last.id };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+    if (user instanceof Response) return user;
+
+    const body: ResolveRequest = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const since = body.since ? new Date(body.since).toISOString() : null;
+    const limit = Math.min(body.limit ?? 500, MAX_LIMIT);
+
+    console.log(`Resolving companies (since: ${since ?? 'beginning'}, limit per source: ${limit})`);
+
+    const { data: existing, error: existingError } = await supabase
+      .from('companies')
+      .select('id, canonical_name, normalized_name, registration_no, aliases');
+
+    if (existingError) {
+      throw new Error(`Failed to load companies: ${existingError.message}`);
+    }
+
+    // Scheduled runs carry on from each source's cursor; an explicit window leaves it alone
+    const cursors = new Map<CompanySourceType, ResolutionCursor>();
+    if (!since) {
+      const { data: state, error: stateError } = await supabase
+        .from('company_resolution_state')
+        .select('source_type, last_resolved_at, last_source_id');
+      if (stateError) throw new Error(`Failed to load resolution cursors: ${stateError.message}`);
+      for (const row of state || []) {
+        cursors.set(row.source_type as CompanySourceType, row as ResolutionCursor);
+      }
+    }
+    const advanced = new Map<CompanySourceType, ResolutionCursor>();
+
+    const index = new CompanyIndex((existing || []) as CompanyRecord[]);
+    const links: SourceLink[] = [];
+    const touched = new Set<string>();
+    const stats: ResolveStats = {
+      companies_created: 0,
+      links_created: 0,
+      by_source: { registry_row: 0, case: 0, gazette_notice: 0, article: 0 },
+    };
+
+    // Resolve a candidate, optionally creating the company when the source is authoritative
+    async function resolve(
+      candidate: CompanyCandidate,
+      sourceType: CompanySourceType,
+      sourceId: string,
+      createIfMissing: boolean
+    ): Promise<CompanyRecord | null> {
+      const match = index.match(candidate);
+
+      if (match) {
+        const company = match.company;
+        const registrationNo = normalizeRegistrationNo(candidate.registrationNo);
+
+        if (registrationNo && !company.registration_no) {
+          company.registration_no = registrationNo;
+          await supabase.from('companies').update({ registration_no: registrationNo }).eq('id', company.id);
+          index.add(company);
+        }
+
+        if (match.method !== 'registration_no' || normalizeCompanyName(candidate.name) !== company.normalized_name) {
+          await addAlias(company, candidate.name);
+        }
+
+        pushLink(company, sourceType, sourceId, match.method, match.confidence, candidate.name);
+        return company;
+      }
+
+      if (!createIfMissing) return null;
+
+      const normalizedName = normalizeCompanyName(candidate.name);
+      if (!normalizedName) return null;
+
+      const { data: created, error } = await supabase
+        .from('companies')
+        .insert({
+          canonical_name: candidate.name.trim(),
+          normalized_name: normalizedName,
+          registration_no: normalizeRegistrationNo(candidate.registrationNo),
+          aliases: [],
+        })
+        .select('id, canonical_name, normalized_name, registration_no, aliases')
+        .single();
+
+      if (error || !created) {
+        console.error(`Failed to create company "${candidate.name}":`, error?.message);
+        return null;
+      }
+
+      const company = created as CompanyRecord;
+      index.add(company);
+      stats.companies_created++;
+
+      const method = company.registration_no ? 'registration_no' : 'normalized_name';
+      pushLink(company, sourceType, sourceId, method, 1.0, candidate.name);
+      return company;
+    }
+
+    async function addAlias(company: CompanyRecord, name: string) {
+      const trimmed = name.trim();
+      if (!trimmed || trimmed === company.canonical_name) return;
+      const aliases = company.aliases || [];
+      if (aliases.some((alias) => alias.toLowerCase() === trimmed.toLowerCase())) return;
+
+      company.aliases = [...aliases, trimmed].slice(0, 25);
+      await supabase.from('companies').update({ aliases: company.aliases }).eq('id', company.id);
+      index.add(company);
+    }
+
+    function pushLink(
+      company: CompanyRecord,
+      sourceType: CompanySourceType,
+      sourceId: string,
+      method: string,
+      confidence: number,
+      matchedName: string
+    ) {
+      links.push({
+        company_id: company.id,
+        source_type: sourceType,
+        source_id: sourceId,
+        match_method: method,
+        match_confidence: confidence,
+        matched_name: matchedName,
+      });
+      touched.add(company.id);
+      stats.by_source[sourceType]++;
+    }
+
+    // 1. Gazette liquidation notices (authoritative: carry registration numbers)
+    let noticesQuery = supabase
+      .from('gazette_liquidation_notices')
+      .select('id, company_name, registration_no, created_at')
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit);
+    noticesQuery = since
+      ? noticesQuery.gte('created_at', since)
+      : afterCursor(noticesQuery, 'created_at', cursors.get('gazette_notice'));
+
+    const { data: notices, error: noticesError } = await noticesQuery;
+    if (noticesError) throw new Error(`Failed to load gazette notices: ${noticesError.message}`);
+
+    for (const notice of notices || []) {
+      await resolve(
+        { name: notice.company_name, registrationNo: notice.registration_no },
+        'gazette_notice',
+        notice.id,
+        true
+      );
+    }
+    const noticesCursor = lastCursor(notices || [], 'created_at');
+    if (noticesCursor) advanced.set('gazette_notice', noticesCursor);
+
+    // 2. Registry rows (authoritative: petition titles name the company)
+    let rowsQuery = supabase
+      .from('registry_rows')
+      .select('id, title, created_at')
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit);
+    rowsQuery = since
+      ? rowsQuery.gte('created_at', since)
+      : afterCursor(rowsQuery, 'created_at', cursors.get('registry_row'));
+
+    const { data: rows, error: rowsError } = await rowsQuery;
+    if (rowsError) throw new Error(`Failed to load registry rows: ${rowsError.message}`);
+
+    const companiesByRow = new Map<string, CompanyRecord[]>();
+    for (const row of rows || []) {
+      const resolved: CompanyRecord[] = [];
+      for (const name of extractCompanyNamesFromTitle(row.title)) {
+        const company = await resolve({ name, registrationNo: null }, 'registry_row', row.id, true);
+        if (company) resolved.push(company);
+      }
+      companiesByRow.set(row.id, resolved);
+    }
+    const rowsCursor = lastCursor(rows || [], 'created_at');
+    if (rowsCursor) advanced.set('registry_row', rowsCursor);
+
+    // 3. Cases inherit their registry row's companies; the analysis may add a registration number.
+    // Read by updated_at so a case is seen again once it has been analysed
+    let casesQuery = supabase
+      .from('cases')
+      .select('id, registry_row_id, parsed_json, updated_at, registry_rows(title)')
+      .not('registry_row_id', 'is', null)
+      .order('updated_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit);
+    casesQuery = since
+      ? casesQuery.gte('updated_at', since)
+      : afterCursor(casesQuery, 'updated_at', cursors.get('case'));
+
+    const { data: cases, error: casesError } = await casesQuery;
+    if (casesError) throw new Error(`Failed to load cases: ${casesError.message}`);
+
+    for (const caseRow of cases || []) {
+      const overview = readCaseAnalysis(caseRow.parsed_json)?.company_overview;
+      const registrationNo = extractRegistrationNumbers(overview?.registration_number)[0] ?? null;
+      const titleNames = extractCompanyNamesFromTitle(caseRow.registry_rows?.title);
+      const names = titleNames.length > 0 ? titleNames : overview?.name ? [overview.name] : [];
+
+      for (const name of names) {
+        await resolve({ name, registrationNo }, 'case', caseRow.id, !companiesByRow.has(caseRow.registry_row_id));
+      }
+    }
+    const casesCursor = lastCursor(cases || [], 'updated_at');
+    if (casesCursor) advanced.set('case', casesCursor);
+
+    // 4. News articles via their extracted ORG entities: only link to companies we already know about
+    let articlesQuery = supabase
+      .from('articles')
+      .select('id, created_at, article_entities(entities(name, type))')
+      .eq('cayman_flag', true)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit);
+    articlesQuery = since
+      ? articlesQuery.gte('created_at', since)
+      : afterCursor(articlesQuery, 'created_at', cursors.get('article')).lt(
+          'created_at',
+          new Date(Date.now() - ARTICLE_SETTLE_MS).toISOString()
+        );
+
+    const { data: articles, error: articlesError } = await articlesQuery;
+    if (articlesError) {
+      console.warn(`Skipping articles: ${articlesError.message}`);
+    }
+
+    for (const article of articles || []) {
+      for (const link of article.article_entities || []) {
+        const entity = link.entities as unknown as { name: string | null; type: string } | null;
+        if (entity?.type !== 'ORG' || !entity.name) continue;
+        await resolve({ name: entity.name, registrationNo: null }, 'article', article.id, false);
+      }
+    }
+    const articlesCursor = lastCursor(articles || [], 'created_at');
+    if (articlesCursor) advanced.set('article', articlesCursor);
+
+    // Persist links
+    if (links.length > 0) {
+      const { error: linkError, count } = await supabase
+        .from('company_source_links')
+        .upsert(links, { onConflict: 'company_id,source_type,source_id', ignoreDuplicates: true, count: 'exact' });
+
+      if (linkError) {
+        throw new Error(`Failed to save company links: ${linkError.message}`);
+      }
+      stats.links_created = count ?? links.length;
+    }
+
+    // Move the cursors only once the links are saved, so a failed run is read again
+    if (!since && advanced.size > 0) {
+      const now = new Date().toISOString();
+      const { error: cursorError } = await supabase.from('company_resolution_state').upsert(
+        Array.from(advanced, ([sourceType, cursor]) => ({ source_type: sourceType, ...cursor, updated_at: now }))
+      );
+      if (cursorError) {
+        console.error('Failed to save resolution cursors:', cursorError.message);
+      }
+    }
+
+    // Refresh link counts on every company touched in this run
+    for (const companyId of touched) {
+      const { count } = await supabase
+        .from('company_source_links')
+        .select('id', { count: 'exact', head: true })
+        .eq('company_id', companyId);
+
+      await supabase
+        .from('companies')
+        .update({ source_count: count ?? 0, last_seen_at: new Date().toISOString() })
+        .eq('id', companyId);
+    }
+
+    console.log(`Resolution complete: ${stats.companies_created} companies created, ${stats.links_created} links`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        companies_touched: touched.size,
+        ...stats,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Company resolution error:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: formatError(error),
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,404 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { formatError } from '../shared/monitor-utils.ts';
+import { readCaseAnalysis, renderCaseAnalysisMarkdown } from '../shared/case-analysis.ts';
+import {
+  applyReviewCorrections,
+  buildLabelledExamples,
+  readReviewFields,
+  replayTargetedExtraction,
+  REVIEW_TARGETS,
+  reviewFields,
+  reviewTargetFor,
+  type ExtractionExampleRow,
+  type ReviewTarget,
+} from '../shared/review-corrections.ts';
+import { actorName, type RequestUser, requireRole } from '../shared/auth.ts';
+import { linkFinalMeeting, readCandidateIds } from '../shared/final-meeting-matching.ts';
+import { DEFAULT_SIGNAL_TAXONOMY, loadSignalTaxonomy, type SignalTaxonomy } from '../shared/signal-taxonomy.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+type ReviewQueueRequest =
+  | { action: 'fields'; item_id: string }
+  | { action: 'claim' | 'release'; item_id: string; reviewer?: string }
+  | { action: 'correct'; item_id: string; reviewer?: string; values: Record<string, unknown> }
+  | {
+      action: 'decide';
+      item_id: string;
+      reviewer?: string;
+      decision: 'approved' | 'rejected';
+      reason?: string;
+      // final_meeting_match items: the candidate liquidation notices the final meeting closes
+      linked_notice_ids?: string[];
+    }
+  | { action: 'export' | 'replay'; target?: ReviewTarget; since?: string };
+
+interface ReviewItemRow {
+  id: string;
+  item_type: string;
+  item_id: string;
+  notes: string | null;
+  status: string;
+  assigned_to: string | null;
+}
+
+class ReviewRequestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+const EXPORT_LIMIT = 5000;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function loadItem(supabase: SupabaseClient, itemId: string): Promise<ReviewItemRow> {
+  if (!itemId) throw new ReviewRequestError('Missing required field: item_id');
+
+  const { data, error } = await supabase
+    .from('review_queue')
+    .select('id, item_type, item_id, notes, status, assigned_to')
+    .eq('id', itemId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load review item: ${error.message}`);
+  if (!data) throw new ReviewRequestError('Review item not found', 404);
+  return data as ReviewItemRow;
+}
+
+/** Corrections and decisions can only be made by the reviewer who claimed the item */
+function requireClaim(item: ReviewItemRow, reviewer: string) {
+  if (item.status !== 'claimed') throw new ReviewRequestError('Claim the item before reviewing it', 409);
+  if (item.assigned_to !== reviewer) {
+    throw new ReviewRequestError(`Item is claimed by ${item.assigned_to}`, 409);
+  }
+}
+
+/** Signed-in users review as themselves; service role callers name the reviewer */
+function requireReviewer(user: RequestUser | null, reviewer: string | undefined): string {
+  if (user) return actorName(user, '');
+  const name = reviewer?.trim();
+  if (!name) throw new ReviewRequestError('Missing required field: reviewer');
+  return name;
+}
+
+async function loadRecord(supabase: SupabaseClient, target: ReviewTarget, recordId: string) {
+  const definition = REVIEW_TARGETS[target];
+  const { data, error } = await supabase.from(definition.table).select(definition.select).eq('id', recordId).maybeSingle();
+
+  if (error) throw new Error(`Failed to load ${definition.table} record: ${error.message}`);
+  if (!data) throw new ReviewRequestError(`${definition.table} record ${recordId} not found`, 404);
+  return data as unknown as Record<string, unknown>;
+}
+
+// Article fields include one per signal; other targets do not need the taxonomy
+function taxonomyFor(supabase: SupabaseClient, target: ReviewTarget): Promise<SignalTaxonomy> {
+  return target === 'article' ? loadSignalTaxonomy(supabase) : Promise.resolve(DEFAULT_SIGNAL_TAXONOMY);
+}
+
+async function audit(
+  supabase: SupabaseClient,
+  entry: { table_name: string; record_id: string; action: string; old_values?: unknown; new_values?: unknown; user_id: string }
+) {
+  const { error } = await supabase.from('audit_log').insert(entry);
+  if (error) console.error(`Failed to write audit_log (${entry.action}): ${error.message}`);
+}
+
+async function correctItem(supabase: SupabaseClient, item: ReviewItemRow, reviewer: string, values: Record<string, unknown>) {
+  const ref = reviewTargetFor(item);
+  if (!ref) throw new ReviewRequestError(`${item.item_type} items have no fields to correct`);
+
+  const definition = REVIEW_TARGETS[ref.target];
+  const record = await loadRecord(supabase, ref.target, ref.recordId);
+  const taxonomy = await taxonomyFor(supabase, ref.target);
+  const { update, corrections } = applyReviewCorrections(ref.target, record, values || {}, taxonomy);
+
+  if (corrections.length === 0) return { target: ref.target, record_id: ref.recordId, corrected: 0 };
+
+  // Keep the rendered dashboard in step with a corrected case analysis
+  if (ref.target === 'case' && update.parsed_json) {
+    const analysis = readCaseAnalysis(update.parsed_json);
+    if (analysis) update.dashboard_summary = renderCaseAnalysisMarkdown(analysis);
+  }
+
+  const { error: updateError } = await supabase.from(definition.table).update(update).eq('id', ref.recordId);
+  if (updateError) throw new Error(`Failed to save corrections: ${updateError.message}`);
+
+  await audit(supabase, {
+    table_name: definition.table,
+    record_id: ref.recordId,
+    action: 'review_correction',
+    old_values: Object.fromEntries(corrections.map((c) => [c.field.key, c.original])),
+    new_values: Object.fromEntries(corrections.map((c) => [c.field.key, c.corrected])),
+    user_id: reviewer,
+  });
+
+  const { error: exampleError } = await supabase.from('extraction_examples').insert(
+    corrections.map((c) => ({
+      target: ref.target,
+      record_id: ref.recordId,
+      field: c.field.key,
+      extractor_field: c.field.extractorField ?? null,
+      original_value: c.original,
+      corrected_value: c.corrected,
+      review_item_id: item.id,
+      corrected_by: reviewer,
+    }))
+  );
+  if (exampleError) console.error(`Failed to store extraction examples: ${exampleError.message}`);
+
+  return { target: ref.target, record_id: ref.recordId, corrected: corrections.length };
+}
+
+/** Approving confirms the record's values; the records' own review flags are cleared */
+async function markRecordVerified(supabase: SupabaseClient, item: ReviewItemRow) {
+  const ref = reviewTargetFor(item);
+  if (!ref) return;
+
+  if (ref.target === 'case') {
+    await supabase.from('cases').update({ requires_review: false }).eq('id', ref.recordId);
+  } else if (ref.target === 'gazette_notice') {
+    await supabase.from('gazette_notices').update({ manually_verified: true }).eq('id', ref.recordId);
+  }
+}
+
+/** Approving a final meeting match links the candidates the reviewer picked */
+async function linkChosenCandidates(
+  supabase: SupabaseClient,
+  item: ReviewItemRow,
+  noticeIds: string[] | undefined,
+  now: string
+): Promise<string[]> {
+  const chosen = [...new Set(noticeIds || [])];
+  if (chosen.length === 0) {
+    throw new ReviewRequestError('Choose the liquidation notices this final meeting closes');
+  }
+  const candidateIds = readCandidateIds(item.notes);
+  const unknown = chosen.filter((id) => !candidateIds.includes(id));
+  if (unknown.length > 0) {
+    throw new ReviewRequestError(`Not a candidate for this final meeting: ${unknown.join(', ')}`);
+  }
+
+  const { data: meeting, error } = await supabase
+    .from('gazette_liquidation_notices')
+    .select('id, final_meeting_date')
+    .eq('id', item.item_id)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load final meeting notice: ${error.message}`);
+  if (!meeting) throw new ReviewRequestError(`Final meeting notice ${item.item_id} not found`, 404);
+
+  await linkFinalMeeting(supabase, meeting, chosen, { method: 'manual', confidence: 1, reconciledAt: now });
+  return chosen;
+}
+
+async function loadExamples(supabase: SupabaseClient, target?: ReviewTarget, since?: string) {
+  let query = supabase
+    .from('extraction_examples')
+    .select('target, record_id, field, extractor_field, original_value, corrected_value, corrected_by, created_at')
+    .order('created_at', { ascending: true })
+    .limit(EXPORT_LIMIT);
+  if (target) query = query.eq('target', target);
+  if (since) query = query.gte('created_at', since);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load extraction examples: ${error.message}`);
+  const rows = (data || []) as ExtractionExampleRow[];
+
+  const texts = new Map<string, string>();
+  for (const key of Object.keys(REVIEW_TARGETS) as ReviewTarget[]) {
+    const ids = [...new Set(rows.filter((row) => row.target === key).map((row) => row.record_id))];
+    if (ids.length === 0) continue;
+
+    const definition = REVIEW_TARGETS[key];
+    const { data: records, error: recordsError } = await supabase
+      .from(definition.table)
+      .select(definition.select)
+      .in('id', ids);
+    if (recordsError) throw new Error(`Failed to load ${definition.table} text: ${recordsError.message}`);
+
+    for (const record of (records || []) as unknown as Record<string, unknown>[]) {
+      texts.set(`${key}:${record.id}`, definition.text(record));
+    }
+  }
+
+  return buildLabelledExamples(rows, texts);
+}
+
+/**
+ * Review workflow for the Review Queue page: claim and release items, correct the
+ * fields of the record an item concerns, approve or reject it, and export the
+ * corrections as labelled examples (see shared/review-corrections.ts).
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+    if (user instanceof Response) return user;
+
+    const request: ReviewQueueRequest = await req.json();
+    const now = new Date().toISOString();
+
+    switch (request.action) {
+      case 'fields': {
+        const item = await loadItem(supabase, request.item_id);
+        const ref = reviewTargetFor(item);
+        if (!ref) return json({ success: true, target: null, fields: [] });
+
+        const taxonomy = await taxonomyFor(supabase, ref.target);
+        const values = readReviewFields(ref.target, await loadRecord(supabase, ref.target, ref.recordId), taxonomy);
+        return json({
+          success: true,
+          target: ref.target,
+          record_id: ref.recordId,
+          fields: reviewFields(ref.target, taxonomy).map((field) => ({
+            key: field.key,
+            label: field.label,
+            kind: field.kind,
+            value: values[field.key],
+          })),
+        });
+      }
+
+      case 'claim': {
+        const reviewer = requireReviewer(user, request.reviewer);
+        const item = await loadItem(supabase, request.item_id);
+        if (item.status === 'claimed' && item.assigned_to !== reviewer) {
+          throw new ReviewRequestError(`Item is already claimed by ${item.assigned_to}`, 409);
+        }
+        if (item.status === 'approved' || item.status === 'rejected') {
+          throw new ReviewRequestError(`Item has already been ${item.status}`, 409);
+        }
+
+        // Only claim if nobody else got there first
+        let claim = supabase
+          .from('review_queue')
+          .update({ status: 'claimed', assigned_to: reviewer, claimed_at: now })
+          .eq('id', item.id)
+          .eq('status', item.status);
+        claim = item.assigned_to ? claim.eq('assigned_to', item.assigned_to) : claim.is('assigned_to', null);
+
+        const { data, error } = await claim.select('id');
+        if (error) throw error;
+        if (!data || data.length === 0) throw new ReviewRequestError('Item was claimed by another reviewer', 409);
+
+        await audit(supabase, {
+          table_name: 'review_queue',
+          record_id: item.id,
+          action: 'review_claimed',
+          new_values: { assigned_to: reviewer },
+          user_id: reviewer,
+        });
+        return json({ success: true });
+      }
+
+      case 'release': {
+        const reviewer = requireReviewer(user, request.reviewer);
+        const item = await loadItem(supabase, request.item_id);
+        requireClaim(item, reviewer);
+
+        const { error } = await supabase
+          .from('review_queue')
+          .update({ status: 'open', assigned_to: null, claimed_at: null })
+          .eq('id', item.id);
+        if (error) throw error;
+
+        await audit(supabase, {
+          table_name: 'review_queue',
+          record_id: item.id,
+          action: 'review_released',
+          old_values: { assigned_to: reviewer },
+          user_id: reviewer,
+        });
+        return json({ success: true });
+      }
+
+      case 'correct': {
+        const reviewer = requireReviewer(user, request.reviewer);
+        const item = await loadItem(supabase, request.item_id);
+        requireClaim(item, reviewer);
+
+        const result = await correctItem(supabase, item, reviewer, request.values);
+        return json({ success: true, ...result });
+      }
+
+      case 'decide': {
+        const reviewer = requireReviewer(user, request.reviewer);
+        if (request.decision !== 'approved' && request.decision !== 'rejected') {
+          throw new ReviewRequestError('Invalid decision: must be approved or rejected');
+        }
+        const reason = request.reason?.trim() || null;
+        if (request.decision === 'rejected' && !reason) {
+          throw new ReviewRequestError('A reason is required to reject an item');
+        }
+
+        const item = await loadItem(supabase, request.item_id);
+        requireClaim(item, reviewer);
+
+        const linkedNoticeIds =
+          item.item_type === 'final_meeting_match' && request.decision === 'approved'
+            ? await linkChosenCandidates(supabase, item, request.linked_notice_ids, now)
+            : undefined;
+
+        const { error } = await supabase
+          .from('review_queue')
+          .update({
+            status: request.decision,
+            decision_reason: reason,
+            decided_at: now,
+            reviewed: true,
+            reviewed_by: reviewer,
+            reviewed_at: now,
+          })
+          .eq('id', item.id);
+        if (error) throw error;
+
+        if (request.decision === 'approved') await markRecordVerified(supabase, item);
+
+        await audit(supabase, {
+          table_name: 'review_queue',
+          record_id: item.id,
+          action: `review_${request.decision}`,
+          old_values: { status: item.status },
+          new_values: { status: request.decision, reason, linked_notice_ids: linkedNoticeIds },
+          user_id: reviewer,
+        });
+        return json({ success: true });
+      }
+
+      case 'export': {
+        const examples = await loadExamples(supabase, request.target, request.since);
+        return json({ success: true, count: examples.length, examples });
+      }
+
+      case 'replay': {
+        const examples = await loadExamples(supabase, request.target, request.since);
+        return json({ success: true, examples: examples.length, fields: replayTargetedExtraction(examples) });
+      }
+
+      default:
+        throw new ReviewRequestError(
+          'Invalid action: must be fields, claim, release, correct, decide, export or replay'
+        );
+    }
+  } catch (error) {
+    if (error instanceof ReviewRequestError) {
+      return json({ success: false, error: error.message }, error.status);
+    }
+    console.error('Review queue error:', error);
+    return json({ success: false, error: formatError(error) }, 500);
+  }
+});
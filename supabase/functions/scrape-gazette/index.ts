@@ -1,4 +1,15 @@
-import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { formatError } from '../shared/monitor-utils.ts';
+import { storePdf } from '../shared/pdf-storage.ts';
+import {
+  DEFAULT_GAZETTE_BASE_URL,
+  GAZETTE_ARCHIVE_PATHS,
+  crawlGazetteArchive,
+  downloadGazettePdf,
+  parseGazetteListing,
+  type GazetteKind,
+} from '../shared/gazette-archive.ts';
+import { actorName, requireRole } from '../shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -7,9 +18,22 @@ const corsHeaders = {
 };
 
 interface ScrapeRequest {
-  kind: 'regular' | 'extraordinary';
+  kind?: GazetteKind;
+  mode?: 'latest' | 'backfill';
+  /** Backfill only: gazette kinds to crawl (defaults to kind, or both) */
+  kinds?: GazetteKind[];
+  /** Backfill only: a calendar year, or an inclusive from/to date range */
+  year?: number;
+  from?: string;
+  to?: string;
+  dry_run?: boolean;
 }
 
+const GAZETTE_KINDS: GazetteKind[] = ['regular', 'extraordinary'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const LISTING_PAGE_DELAY_MS = 1000;
+const QUEUE_INSERT_BATCH = 200;
+
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, {
@@ -23,7 +47,16 @@ Deno.serve(async (req: Request) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    const { kind }: ScrapeRequest = await req.json();
+    const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+    if (user instanceof Response) return user;
+
+    const request: ScrapeRequest = await req.json().catch(() => ({}));
+    const { kind } = request;
+    const gazetteBaseUrl = Deno.env.get('GAZETTE_BASE_URL') || DEFAULT_GAZETTE_BASE_URL;
+
+    if (request.mode === 'backfill') {
+      return await startBackfill(supabase, request, gazetteBaseUrl, actorName(user, 'manual'));
+    }
 
     if (!kind || !['regular', 'extraordinary'].includes(kind)) {
       return new Response(
@@ -34,36 +67,27 @@ Deno.serve(async (req: Request) => {
 
     console.log(`Starting ${kind} gazette scrape...`);
 
-    const baseUrl = kind === 'regular'
-      ? 'https://www.gov.ky/government-gazettes/'
-      : 'https://www.gov.ky/extraordinary-gazettes/';
+    const listingUrl = `${gazetteBaseUrl.replace(/\/+$/, '')}${GAZETTE_ARCHIVE_PATHS[kind]}`;
 
-    const response = await fetch(baseUrl);
+    const response = await fetch(listingUrl);
     if (!response.ok) {
       throw new Error(`Failed to fetch gazette page: ${response.status}`);
     }
 
     const html = await response.text();
+    const entries = parseGazetteListing(html, listingUrl, kind).entries.slice(0, 3);
 
-    const pdfLinkRegex = /href="([^"]*\.pdf)"/gi;
-    const matches = [...html.matchAll(pdfLinkRegex)];
-
-    const pdfUrls = matches
-      .map(m => m[1])
-      .filter(url => url.includes('gazette'))
-      .map(url => url.startsWith('http') ? url : `https://www.gov.ky${url}`)
-      .slice(0, 3);
-
-    console.log(`Found ${pdfUrls.length} gazette PDFs`);
+    console.log(`Found ${entries.length} gazette PDFs`);
 
     const results = [];
 
-    for (const pdfUrl of pdfUrls) {
+    for (const entry of entries) {
+      const pdfUrl = entry.pdf_url;
       try {
         console.log(`Processing: ${pdfUrl}`);
 
-        const issueNumber = extractIssueNumber(pdfUrl);
-        const issueDate = extractIssueDate(pdfUrl);
+        const issueNumber = entry.issue_number;
+        const issueDate = entry.issue_date;
         const fingerprint = btoa(`${kind}|${issueNumber}|${issueDate}`).substring(0, 32);
 
         const { data: existing } = await supabase
@@ -77,14 +101,11 @@ Deno.serve(async (req: Request) => {
           continue;
         }
 
-        const pdfResponse = await fetch(pdfUrl);
-        if (!pdfResponse.ok) {
-          console.error(`Failed to download PDF: ${pdfUrl}`);
-          continue;
-        }
-
-        const pdfBuffer = await pdfResponse.arrayBuffer();
-        const pdfBytes = new Uint8Array(pdfBuffer);
+        const pdfBytes = await downloadGazettePdf(pdfUrl);
+        const { object: pdfObject } = await storePdf(supabase, pdfBytes, {
+          filename: decodeURIComponent(pdfUrl.split('/').pop() || ''),
+          sourceUrl: pdfUrl,
+        });
 
         const { data: newIssue, error: insertError } = await supabase
           .from('gazette_issues')
@@ -93,7 +114,7 @@ Deno.serve(async (req: Request) => {
             issue_number: issueNumber,
             issue_date: issueDate,
             pdf_url: pdfUrl,
-            pdf_bytes: pdfBytes,
+            pdf_object_id: pdfObject.id,
             ocr_used: false,
             parsed_count: 0,
             quality_score: null,
@@ -135,7 +156,7 @@ Deno.serve(async (req: Request) => {
       JSON.stringify({
         success: true,
         kind,
-        total_found: pdfUrls.length,
+        total_found: entries.length,
         processed: results.length,
         results,
       }),
@@ -147,7 +168,7 @@ Deno.serve(async (req: Request) => {
     return new Response(
       JSON.stringify({
         success: false,
-        error: error.message,
+        error: formatError(error),
       }),
       {
         status: 500,
@@ -157,15 +178,151 @@ Deno.serve(async (req: Request) => {
   }
 });
 
-function extractIssueNumber(url: string): string | null {
-  const match = url.match(/(?:No\.?|Number)[\s-]?(\d+)/i);
-  return match ? match[1] : null;
+function backfillRange(request: ScrapeRequest): { from: string | null; to: string | null } {
+  if (request.year) {
+    const year = Number(request.year);
+    if (!Number.isInteger(year) || year < 1900 || year > 2100) {
+      throw new Error(`Invalid year: ${request.year}`);
+    }
+    return { from: `${year}-01-01`, to: `${year}-12-31` };
+  }
+
+  for (const value of [request.from, request.to]) {
+    if (value && !ISO_DATE.test(value)) {
+      throw new Error(`Invalid date: ${value} (expected YYYY-MM-DD)`);
+    }
+  }
+  if (!request.from && !request.to) {
+    throw new Error('Backfill needs a year or a from/to date range');
+  }
+  if (request.from && request.to && request.from > request.to) {
+    throw new Error('Backfill range is reversed: from is after to');
+  }
+  return { from: request.from || null, to: request.to || null };
 }
 
-function extractIssueDate(url: string): string | null {
-  const match = url.match(/(\d{4})[-_](\d{2})[-_](\d{2})/i);
-  if (match) {
-    return `${match[1]}-${match[2]}-${match[3]}`;
+/**
+ * Crawl the archive listings for a date range and queue each PDF as a
+ * gazette_pdf job under one gazette_backfill job. process-gazette-queue does
+ * the downloading and analysis, so a long backfill can be stopped and resumed.
+ */
+async function startBackfill(
+  supabase: SupabaseClient,
+  request: ScrapeRequest,
+  gazetteBaseUrl: string,
+  triggeredBy: string
+): Promise<Response> {
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+  let range: { from: string | null; to: string | null };
+  try {
+    range = backfillRange(request);
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ success: false, error: formatError(error) }),
+      { status: 400, headers: jsonHeaders }
+    );
+  }
+
+  const kinds = request.kinds?.length ? request.kinds : request.kind ? [request.kind] : GAZETTE_KINDS;
+  if (kinds.some((kind) => !GAZETTE_KINDS.includes(kind))) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Invalid kinds: must be "regular" and/or "extraordinary"' }),
+      { status: 400, headers: jsonHeaders }
+    );
+  }
+
+  console.log(`Starting gazette backfill ${range.from ?? '…'} to ${range.to ?? '…'} for ${kinds.join(', ')}`);
+
+  const crawls = [];
+  for (const kind of kinds) {
+    const crawl = await crawlGazetteArchive({
+      kind,
+      from: range.from,
+      to: range.to,
+      baseUrl: gazetteBaseUrl,
+      pageDelayMs: LISTING_PAGE_DELAY_MS,
+    });
+    console.log(`${kind}: ${crawl.entries.length} PDFs in range over ${crawl.pages_crawled} listing pages`);
+    crawls.push({ kind, ...crawl });
+  }
+
+  const entries = crawls.flatMap((crawl) => crawl.entries);
+  const progress = {
+    range,
+    kinds,
+    pages_crawled: crawls.reduce((sum, crawl) => sum + crawl.pages_crawled, 0),
+    found: entries.length,
+    undated_skipped: crawls.reduce((sum, crawl) => sum + crawl.undated_skipped, 0),
+  };
+
+  if (request.dry_run) {
+    return new Response(
+      JSON.stringify({ success: true, dry_run: true, progress, entries }),
+      { headers: jsonHeaders }
+    );
   }
-  return null;
+
+  const { data: parentJob, error: parentError } = await supabase
+    .from('scrape_jobs')
+    .insert({
+      job_type: 'gazette_backfill',
+      status: 'running',
+      started_at: new Date().toISOString(),
+      triggered_by: triggeredBy,
+      items_found: entries.length,
+      payload: { range, kinds },
+      progress,
+    })
+    .select('id')
+    .single();
+
+  if (parentError) throw parentError;
+
+  // PDFs already queued by an earlier backfill keep their original job
+  let queued = 0;
+  for (let i = 0; i < entries.length; i += QUEUE_INSERT_BATCH) {
+    const batch = entries.slice(i, i + QUEUE_INSERT_BATCH).map((entry) => ({
+      job_type: 'gazette_pdf',
+      status: 'pending',
+      triggered_by: 'backfill',
+      parent_job_id: parentJob.id,
+      dedupe_key: `gazette_pdf:${entry.pdf_url}`,
+      payload: entry,
+    }));
+
+    const { data: inserted, error: queueError } = await supabase
+      .from('scrape_jobs')
+      .upsert(batch, { onConflict: 'dedupe_key', ignoreDuplicates: true })
+      .select('id');
+
+    if (queueError) throw queueError;
+    queued += inserted?.length ?? 0;
+  }
+
+  const finalProgress = {
+    ...progress,
+    queued,
+    already_queued: entries.length - queued,
+    pending: queued,
+    running: 0,
+    success: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  await supabase
+    .from('scrape_jobs')
+    .update({
+      new_items: queued,
+      progress: finalProgress,
+      // Nothing new to process: the backfill is already complete
+      ...(queued === 0 ? { status: 'success', completed_at: new Date().toISOString() } : {}),
+    })
+    .eq('id', parentJob.id);
+
+  return new Response(
+    JSON.stringify({ success: true, job_id: parentJob.id, progress: finalProgress }),
+    { headers: jsonHeaders }
+  );
 }
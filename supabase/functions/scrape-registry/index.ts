@@ -1,5 +1,8 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
 import Firecrawl from 'npm:@mendable/firecrawl-js@1';
+import { loadSecret } from '../shared/secrets.ts';
+import { enqueueWebhookEvents } from '../shared/webhook-events.ts';
+import { actorName, requireRole } from '../shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -214,6 +217,9 @@ Deno.serve(async (req: Request) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+    if (user instanceof Response) return user;
+
     const jobStartTime = new Date().toISOString();
 
     const { data: jobRecord, error: jobError } = await supabase
@@ -222,7 +228,7 @@ Deno.serve(async (req: Request) => {
         job_type: 'registry_daily',
         started_at: jobStartTime,
         status: 'running',
-        triggered_by: 'manual',
+        triggered_by: actorName(user, 'cron'),
       })
       .select()
       .single();
@@ -235,11 +241,11 @@ Deno.serve(async (req: Request) => {
 
     const { data: settings } = await supabase
       .from('app_settings')
-      .select('firecrawl_api_key, firecrawl_enabled, lookback_days')
+      .select('firecrawl_enabled, lookback_days')
       .maybeSingle();
 
     const firecrawlEnabled = settings?.firecrawl_enabled || false;
-    const firecrawlApiKey = settings?.firecrawl_api_key || null;
+    const firecrawlApiKey = await loadSecret(supabase, 'firecrawl_api_key');
     const lookbackDays = (settings?.lookback_days as number) || 7;
 
     if (!firecrawlEnabled || !firecrawlApiKey) {
@@ -404,14 +410,15 @@ Deno.serve(async (req: Request) => {
     }
 
     if (newEntries.length > 0) {
-      const { error: insertError } = await supabase
+      const { data: insertedRows, error: insertError } = await supabase
         .from('registry_rows')
         .insert(newEntries.map(entry => ({
           ...entry,
           register_bucket: 'Financial Services',
           status: 'awaiting_pdf',
           scraped_at: jobStartTime,
-        })));
+        })))
+        .select('id, cause_number, title, subject, filing_date, register_bucket');
 
       if (insertError) {
         console.error('Error inserting new entries:', insertError);
@@ -419,6 +426,23 @@ Deno.serve(async (req: Request) => {
       }
 
       console.log(`Inserted ${newEntries.length} new registry entries`);
+
+      try {
+        await enqueueWebhookEvents(
+          supabase,
+          'registry.case_created',
+          (insertedRows || []).map(row => ({
+            registry_row_id: row.id,
+            cause_number: row.cause_number,
+            title: row.title,
+            subject: row.subject,
+            filing_date: row.filing_date,
+            register_bucket: row.register_bucket,
+          }))
+        );
+      } catch (webhookError) {
+        console.error('Failed to queue registry webhooks:', webhookError);
+      }
     }
 
     const completedAt = new Date().toISOString();
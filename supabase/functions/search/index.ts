@@ -0,0 +1,150 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { z } from 'npm:zod@3';
+import { formatError } from '../shared/monitor-utils.ts';
+import { requireRole } from '../shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+// Must match the source values returned by global_search_matches()
+const SEARCH_SOURCES = [
+  'registry_row',
+  'case',
+  'gazette_notice',
+  'company',
+  'practitioner',
+  'article',
+] as const;
+
+const SearchSchema = z.object({
+  q: z.string().trim().min(2, 'Query must be at least 2 characters').max(200),
+  sources: z.array(z.enum(SEARCH_SOURCES)).optional(),
+  from: z.string().date().optional(),
+  to: z.string().date().optional(),
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0),
+});
+
+type SearchParams = z.infer<typeof SearchSchema>;
+
+interface SearchResultRow {
+  source: (typeof SEARCH_SOURCES)[number];
+  record_id: string;
+  title: string;
+  subtitle: string | null;
+  url: string | null;
+  record_date: string | null;
+  rank: number;
+  exact_match: boolean;
+  snippet: string | null;
+}
+
+interface FacetRow {
+  facet: 'source' | 'month';
+  value: string;
+  count: number;
+}
+
+function listParam(value: string | null): string[] | undefined {
+  const items = value?.split(',').map((item) => item.trim()).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+async function readParams(req: Request): Promise<SearchParams> {
+  if (req.method === 'POST') {
+    return SearchSchema.parse(await req.json());
+  }
+
+  const url = new URL(req.url);
+  return SearchSchema.parse({
+    q: url.searchParams.get('q') ?? '',
+    sources: listParam(url.searchParams.get('sources')),
+    from: url.searchParams.get('from') || undefined,
+    to: url.searchParams.get('to') || undefined,
+    limit: parseInt(url.searchParams.get('limit') || '20'),
+    offset: parseInt(url.searchParams.get('offset') || '0'),
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const user = await requireRole(req, supabase, 'viewer', corsHeaders);
+    if (user instanceof Response) return user;
+
+    let params: SearchParams;
+    try {
+      params = await readParams(req);
+    } catch (error) {
+      const message = error instanceof z.ZodError ? error.issues.map((issue) => issue.message).join('; ') : formatError(error);
+      return new Response(
+        JSON.stringify({ success: false, error: message }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const filters = {
+      p_query: params.q,
+      p_sources: params.sources ?? null,
+      p_from: params.from ?? null,
+      p_to: params.to ?? null,
+    };
+
+    const [results, facets] = await Promise.all([
+      supabase.rpc('global_search', { ...filters, p_limit: params.limit, p_offset: params.offset }),
+      supabase.rpc('global_search_facets', filters),
+    ]);
+
+    if (results.error) throw new Error(`Search failed: ${results.error.message}`);
+    if (facets.error) throw new Error(`Search facets failed: ${facets.error.message}`);
+
+    const facetRows = (facets.data || []) as FacetRow[];
+    const sourceFacets = facetRows
+      .filter((row) => row.facet === 'source')
+      .map((row) => ({ value: row.value, count: Number(row.count) }))
+      .sort((a, b) => b.count - a.count);
+    const monthFacets = facetRows
+      .filter((row) => row.facet === 'month')
+      .map((row) => ({ value: row.value, count: Number(row.count) }))
+      .sort((a, b) => b.value.localeCompare(a.value));
+
+    // Source counts ignore the source filter, so total only the selected ones
+    const total = sourceFacets
+      .filter((facet) => !params.sources || params.sources.includes(facet.value as SearchResultRow['source']))
+      .reduce((sum, facet) => sum + facet.count, 0);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        query: params.q,
+        total,
+        results: (results.data || []) as SearchResultRow[],
+        facets: { sources: sourceFacets, months: monthFacets },
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Search error:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: formatError(error),
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,202 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  digestSubject,
+  renderDigestHtml,
+  renderDigestSlack,
+  type Digest,
+  type DigestItem,
+} from '../shared/digest-renderer.ts';
+import { formatError } from '../shared/monitor-utils.ts';
+import { sendEmail, sendSlackMessage, type ChannelResult } from '../shared/notification-channels.ts';
+import type { RoutingRule } from '../shared/notification-routing.ts';
+import { requireRole } from '../shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+interface DigestRequest {
+  rule_id?: string;
+  // Render the pending digest (including items not yet due) without sending or marking anything
+  preview?: boolean;
+}
+
+interface QueueRow {
+  id: string;
+  rule_id: string;
+  reason: 'digest' | 'quiet_hours';
+  deliver_after: string;
+  created_at: string;
+  notifications: DigestItem | null;
+}
+
+interface DigestResult {
+  rule_id: string;
+  rule_name: string;
+  reason: 'digest' | 'quiet_hours';
+  item_count: number;
+  subject: string;
+  html?: string;
+  channels_sent?: Record<string, ChannelResult | ChannelResult[]>;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const user = await requireRole(req, supabase, 'admin', corsHeaders);
+    if (user instanceof Response) return user;
+
+    const body: DigestRequest = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const now = new Date();
+
+    let query = supabase
+      .from('notification_queue')
+      .select(
+        'id, rule_id, reason, deliver_after, created_at, notifications(id, notification_type, title, message, priority, sent_at, data)'
+      )
+      .is('sent_at', null)
+      .order('created_at', { ascending: true })
+      .limit(1000);
+
+    if (!body.preview) query = query.lte('deliver_after', now.toISOString());
+    if (body.rule_id) query = query.eq('rule_id', body.rule_id);
+
+    const { data: queued, error: queueError } = await query;
+    if (queueError) throw queueError;
+
+    const rows = (queued || []) as unknown as QueueRow[];
+    const ruleIds = Array.from(new Set(rows.map((row) => row.rule_id)));
+
+    if (body.preview && body.rule_id && !ruleIds.includes(body.rule_id)) {
+      ruleIds.push(body.rule_id);
+    }
+
+    const rules = new Map<string, RoutingRule>();
+    if (ruleIds.length > 0) {
+      const { data: ruleRows, error: rulesError } = await supabase
+        .from('notification_routing_rules')
+        .select('*')
+        .in('id', ruleIds);
+      if (rulesError) throw rulesError;
+      for (const rule of (ruleRows || []) as RoutingRule[]) rules.set(rule.id, rule);
+    }
+
+    // One digest per rule and reason: quiet-hours holds are sent separately from scheduled digests
+    const groups = new Map<string, QueueRow[]>();
+    for (const row of rows) {
+      if (!row.notifications) continue;
+      const key = `${row.rule_id}|${row.reason}`;
+      const list = groups.get(key) || [];
+      list.push(row);
+      groups.set(key, list);
+    }
+
+    if (body.preview && body.rule_id && groups.size === 0) {
+      groups.set(`${body.rule_id}|digest`, []);
+    }
+
+    const { data: settings } = await supabase
+      .from('app_settings')
+      .select('alert_email, slack_webhook, notification_enabled')
+      .maybeSingle();
+
+    const results: DigestResult[] = [];
+
+    for (const [key, items] of groups) {
+      const [ruleId, reason] = key.split('|') as [string, 'digest' | 'quiet_hours'];
+      const rule = rules.get(ruleId);
+      if (!rule) continue;
+
+      const digest: Digest = {
+        ruleName: rule.name,
+        reason,
+        periodStart: items[0]?.created_at ?? now.toISOString(),
+        periodEnd: now.toISOString(),
+        timezone: rule.timezone,
+        items: items.map((row) => row.notifications!),
+      };
+      const subject = digestSubject(digest);
+
+      if (body.preview) {
+        results.push({
+          rule_id: ruleId,
+          rule_name: rule.name,
+          reason,
+          item_count: items.length,
+          subject,
+          html: renderDigestHtml(digest),
+        });
+        continue;
+      }
+
+      const channelsSent: Record<string, ChannelResult | ChannelResult[]> = {};
+
+      if (rule.channels.includes('email')) {
+        const recipients = rule.email_recipients.length > 0
+          ? rule.email_recipients
+          : settings?.alert_email ? [settings.alert_email] : [];
+
+        if (settings?.notification_enabled && recipients.length > 0) {
+          const html = renderDigestHtml(digest);
+          const sent: ChannelResult[] = [];
+          for (const recipient of recipients) {
+            sent.push(await sendEmail(recipient, subject, `${items.length} notifications`, html));
+          }
+          channelsSent.email = sent;
+        } else {
+          channelsSent.email = { success: false, reason: 'Email not configured or disabled' };
+        }
+      }
+
+      if (rule.channels.includes('slack')) {
+        const webhook = rule.slack_webhook || settings?.slack_webhook;
+        channelsSent.slack = settings?.notification_enabled && webhook
+          ? await sendSlackMessage(webhook, renderDigestSlack(digest))
+          : { success: false, reason: 'Slack not configured or disabled' };
+      }
+
+      const { error: markError } = await supabase
+        .from('notification_queue')
+        .update({ sent_at: now.toISOString() })
+        .in('id', items.map((row) => row.id));
+      if (markError) throw markError;
+
+      results.push({
+        rule_id: ruleId,
+        rule_name: rule.name,
+        reason,
+        item_count: items.length,
+        subject,
+        channels_sent: channelsSent,
+      });
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        preview: !!body.preview,
+        digests: results,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Digest error:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: formatError(error),
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
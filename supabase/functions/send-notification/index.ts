@@ -1,4 +1,18 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  buildSlackMessage,
+  sendEmail,
+  sendSlackMessage,
+  type ChannelResult,
+} from '../shared/notification-channels.ts';
+import {
+  findRoutingRule,
+  planDelivery,
+  type NotificationPriority,
+  type RoutingRule,
+} from '../shared/notification-routing.ts';
+import { enqueueWebhookEvents } from '../shared/webhook-events.ts';
+import { requireRole } from '../shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,7 +25,7 @@ interface NotificationRequest {
   title: string;
   message: string;
   data?: Record<string, any>;
-  priority?: 'low' | 'medium' | 'high' | 'critical';
+  priority?: NotificationPriority;
   channels?: string[];
 }
 
@@ -28,6 +42,9 @@ Deno.serve(async (req: Request) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    const user = await requireRole(req, supabase, 'analyst', corsHeaders);
+    if (user instanceof Response) return user;
+
     const notification: NotificationRequest = await req.json();
 
     if (!notification.type || !notification.title || !notification.message) {
@@ -37,10 +54,18 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const channels = notification.channels || ['dashboard'];
     const priority = notification.priority || 'medium';
     const data = notification.data || {};
 
+    const { data: rules } = await supabase
+      .from('notification_routing_rules')
+      .select('*')
+      .eq('is_active', true);
+
+    // Without a matching rule, fall back to the caller's channels and the app_settings recipients
+    const rule = findRoutingRule((rules || []) as RoutingRule[], notification.type, priority);
+    const channels = rule ? rule.channels : notification.channels || ['dashboard'];
+
     const { data: notificationRecord, error: insertError } = await supabase
       .from('notifications')
       .insert({
@@ -59,27 +84,78 @@ Deno.serve(async (req: Request) => {
       throw new Error(`Failed to create notification: ${insertError.message}`);
     }
 
-    const results: Record<string, any> = {
+    const results: Record<string, ChannelResult | ChannelResult[]> = {
       dashboard: { success: true },
     };
 
-    if (channels.includes('email')) {
-      const { data: settings } = await supabase
-        .from('app_settings')
-        .select('alert_email, notification_enabled')
-        .maybeSingle();
+    // Webhook consumers are systems, not people: they get the event straight away even when
+    // email/Slack delivery is held for a digest or quiet hours
+    if (channels.includes('webhook')) {
+      try {
+        const queued = await enqueueWebhookEvents(supabase, 'notification.created', [
+          {
+            notification_id: notificationRecord.id,
+            notification_type: notification.type,
+            title: notification.title,
+            message: notification.message,
+            priority,
+            data,
+          },
+        ]);
+        results.webhook = queued > 0 ? { success: true } : { success: false, reason: 'No active webhook endpoints' };
+      } catch (error) {
+        console.error('Webhook queueing failed:', error);
+        results.webhook = { success: false, error: error.message };
+      }
+    }
 
-      if (settings?.notification_enabled && settings?.alert_email) {
-        try {
-          results.email = await sendEmail(
-            settings.alert_email,
-            notification.title,
-            notification.message,
-            data
-          );
-        } catch (error) {
-          console.error('Email sending failed:', error);
-          results.email = { success: false, error: error.message };
+    const plan = rule ? planDelivery(rule, priority, new Date()) : { action: 'send' as const };
+
+    if (rule && plan.action === 'queue') {
+      const { error: queueError } = await supabase.from('notification_queue').insert({
+        notification_id: notificationRecord.id,
+        rule_id: rule.id,
+        reason: plan.reason,
+        deliver_after: plan.deliverAfter.toISOString(),
+      });
+
+      if (queueError) {
+        throw new Error(`Failed to queue notification: ${queueError.message}`);
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          notification_id: notificationRecord.id,
+          rule_id: rule.id,
+          queued: true,
+          queue_reason: plan.reason,
+          deliver_after: plan.deliverAfter.toISOString(),
+          channels_sent: results,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: settings } = await supabase
+      .from('app_settings')
+      .select('alert_email, slack_webhook, notification_enabled')
+      .maybeSingle();
+
+    if (channels.includes('email')) {
+      const recipients = rule?.email_recipients?.length
+        ? rule.email_recipients
+        : settings?.alert_email ? [settings.alert_email] : [];
+
+      if (settings?.notification_enabled && recipients.length > 0) {
+        results.email = [];
+        for (const recipient of recipients) {
+          try {
+            results.email.push(await sendEmail(recipient, notification.title, notification.message));
+          } catch (error) {
+            console.error('Email sending failed:', error);
+            results.email.push({ success: false, error: error.message });
+          }
         }
       } else {
         results.email = { success: false, reason: 'Email not configured or disabled' };
@@ -87,18 +163,13 @@ Deno.serve(async (req: Request) => {
     }
 
     if (channels.includes('slack')) {
-      const { data: settings } = await supabase
-        .from('app_settings')
-        .select('slack_webhook, notification_enabled')
-        .maybeSingle();
+      const webhook = rule?.slack_webhook || settings?.slack_webhook;
 
-      if (settings?.notification_enabled && settings?.slack_webhook) {
+      if (settings?.notification_enabled && webhook) {
         try {
           results.slack = await sendSlackMessage(
-            settings.slack_webhook,
-            notification.title,
-            notification.message,
-            data
+            webhook,
+            buildSlackMessage(notification.title, notification.message, data)
           );
         } catch (error) {
           console.error('Slack sending failed:', error);
@@ -113,6 +184,8 @@ Deno.serve(async (req: Request) => {
       JSON.stringify({
         success: true,
         notification_id: notificationRecord.id,
+        rule_id: rule?.id ?? null,
+        queued: false,
         channels_sent: results,
       }),
       {
@@ -140,65 +213,3 @@ Deno.serve(async (req: Request) => {
     );
   }
 });
-
-async function sendEmail(
-  to: string,
-  subject: string,
-  message: string,
-  data: Record<string, any>
-): Promise<{ success: boolean; error?: string }> {
-  console.log(`Would send email to ${to}: ${subject}`);
-  return { success: true };
-}
-
-async function sendSlackMessage(
-  webhookUrl: string,
-  title: string,
-  message: string,
-  data: Record<string, any>
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    const response = await fetch(webhookUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        text: `*${title}*`,
-        blocks: [
-          {
-            type: 'header',
-            text: {
-              type: 'plain_text',
-              text: title,
-            },
-          },
-          {
-            type: 'section',
-            text: {
-              type: 'mrkdwn',
-              text: message,
-            },
-          },
-          {
-            type: 'context',
-            elements: [
-              {
-                type: 'mrkdwn',
-                text: `Data: \`${JSON.stringify(data)}\``,
-              },
-            ],
-          },
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Slack API error: ${response.status}`);
-    }
-
-    return { success: true };
-  } catch (error) {
-    return { success: false, error: error.message };
-  }
-}
@@ -0,0 +1,615 @@
+// News article content fetching
+//
+// GDELT gives us a URL and a headline, nothing more, so the classifier only
+// ever saw titles. These helpers fetch the article page the way a polite
+// crawler would (robots.txt, an identifying User-Agent, a timeout), pull the
+// main text out with a Readability-style scorer and recognise paywalls.
+// Spacing requests to the same site across invocations is up to the caller;
+// fetch_article_content keeps it in article_fetch_domains.
+
+export const ARTICLE_FETCH_USER_AGENT = 'CaymanWatch-ArticleFetcher/1';
+// Product token matched against robots.txt User-agent lines
+export const ROBOTS_AGENT = 'CaymanWatch';
+
+export const DEFAULT_FETCH_TIMEOUT_MS = 15_000;
+// Less than this after extraction is a teaser, a cookie wall or a script-rendered page
+export const MIN_ARTICLE_CHARS = 400;
+const MAX_HTML_CHARS = 2_000_000;
+const EXCERPT_CHARS = 300;
+
+// ============================================================================
+// robots.txt
+// ============================================================================
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelaySeconds: number | null;
+}
+
+/**
+ * Rules from a robots.txt for one crawler: the group naming it, else the `*` group
+ */
+export function parseRobotsTxt(text: string, agent: string = ROBOTS_AGENT): RobotsRules {
+  const groups: { agents: string[]; rules: RobotsRules }[] = [];
+  let current: { agents: string[]; rules: RobotsRules } | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: { allow: [], disallow: [], crawlDelaySeconds: null } };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === 'allow' && value) {
+      current.rules.allow.push(value);
+    } else if (field === 'disallow' && value) {
+      current.rules.disallow.push(value);
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (Number.isFinite(delay) && delay >= 0) current.rules.crawlDelaySeconds = delay;
+    }
+  }
+
+  const name = agent.toLowerCase();
+  const named = groups.find((group) => group.agents.some((ua) => ua !== '*' && name.includes(ua)));
+  const wildcard = groups.find((group) => group.agents.includes('*'));
+  return (named ?? wildcard)?.rules ?? { allow: [], disallow: [], crawlDelaySeconds: null };
+}
+
+function robotsPatternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Whether a path (with query string) may be fetched. The longest matching
+ * rule wins and Allow wins a tie, as in RFC 9309.
+ */
+export function isAllowedByRobots(rules: RobotsRules, path: string): boolean {
+  let allowed = true;
+  let matchedLength = -1;
+
+  for (const pattern of rules.disallow) {
+    if (pattern.length > matchedLength && robotsPatternMatches(pattern, path)) {
+      allowed = false;
+      matchedLength = pattern.length;
+    }
+  }
+  for (const pattern of rules.allow) {
+    if (pattern.length >= matchedLength && robotsPatternMatches(pattern, path)) {
+      allowed = true;
+      matchedLength = pattern.length;
+    }
+  }
+  return allowed;
+}
+
+/**
+ * robots.txt for a site. A missing file (any 4xx) allows everything; a server
+ * error or timeout throws, so the caller can try the site again later rather
+ * than crawl it without knowing the rules.
+ */
+export async function fetchRobotsTxt(
+  origin: string,
+  options: { fetchFn?: typeof fetch; timeoutMs?: number } = {}
+): Promise<string> {
+  const fetchFn = options.fetchFn ?? fetch;
+  const response = await fetchFn(`${origin}/robots.txt`, {
+    headers: { 'User-Agent': ARTICLE_FETCH_USER_AGENT },
+    signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS),
+  });
+
+  if (response.status >= 500) {
+    await response.body?.cancel();
+    throw new Error(`robots.txt returned ${response.status}`);
+  }
+  if (!response.ok) {
+    await response.body?.cancel();
+    return '';
+  }
+  return await response.text();
+}
+
+// ============================================================================
+// HTML parsing
+// ============================================================================
+
+interface HtmlNode {
+  tag: string;
+  attrs: string;
+  parent: HtmlNode | null;
+  children: (HtmlNode | string)[];
+}
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+
+// Opening one of these closes an open <p>
+const CLOSES_PARAGRAPH = new Set([
+  'address', 'article', 'aside', 'blockquote', 'div', 'dl', 'fieldset', 'figure', 'footer', 'form',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul',
+]);
+
+const BLOCK_TAGS = new Set([
+  ...CLOSES_PARAGRAPH, 'li', 'td', 'th', 'tr', 'dd', 'dt', 'figcaption', 'body', 'html',
+]);
+
+// Never part of an article's text
+const REMOVED_TAGS = new Set(['nav', 'header', 'footer', 'aside', 'form', 'button', 'select', 'figure', 'menu', 'dialog']);
+
+// From Mozilla Readability: likely page furniture, unless the name also suggests content
+const UNLIKELY_CANDIDATES =
+  /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|cookie|cover-wrap|disqus|extra|gdpr|legends|menu|modal|newsletter|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|ad-break|agegate|pagination|pager|popup|promo|yom-remote/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE_NAMES = /article|body|content|entry|hentry|h-entry|main|page|post|story|text|blog/i;
+const NEGATIVE_NAMES =
+  /-ad-|hidden|^hid$| hid$| hid |^hid |banner|byline|combx|comment|contact|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|widget/i;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', rsquo: '’', lsquo: '‘',
+  rdquo: '”', ldquo: '“', mdash: '—', ndash: '–', hellip: '…', pound: '£', euro: '€',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function attribute(attrs: string, name: string): string | null {
+  const match = attrs.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : null;
+}
+
+function isHidden(attrs: string): boolean {
+  return /(?:^|\s)hidden(?:\s|=|$)/i.test(attrs)
+    || attribute(attrs, 'aria-hidden') === 'true'
+    || /display\s*:\s*none|visibility\s*:\s*hidden/i.test(attribute(attrs, 'style') || '');
+}
+
+const TOKEN_REGEX = /<!--[\s\S]*?-->|<![^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</g;
+
+function parseHtml(html: string): HtmlNode {
+  const root: HtmlNode = { tag: '#root', attrs: '', parent: null, children: [] };
+  let current = root;
+
+  const cleaned = html
+    .slice(0, MAX_HTML_CHARS)
+    .replace(/<(script|style|noscript|template|svg|iframe|canvas|object)\b[\s\S]*?<\/\1\s*>/gi, ' ');
+
+  for (const match of cleaned.matchAll(TOKEN_REGEX)) {
+    const [token, closing, rawTag, attrs] = match;
+
+    if (!rawTag) {
+      if (token.startsWith('<!') || token.startsWith('<?')) continue;
+      current.children.push(decodeEntities(token));
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+
+    if (closing) {
+      let node: HtmlNode | null = current;
+      while (node && node.tag !== tag) node = node.parent;
+      if (node?.parent) current = node.parent;
+      continue;
+    }
+
+    if (current.tag === 'p' && CLOSES_PARAGRAPH.has(tag)) current = current.parent ?? root;
+    if (tag === 'li' && current.tag === 'li') current = current.parent ?? root;
+
+    const node: HtmlNode = { tag, attrs: attrs || '', parent: current, children: [] };
+    current.children.push(node);
+
+    if (tag === 'br') {
+      node.children.push('\n');
+    } else if (!VOID_TAGS.has(tag) && !attrs?.trimEnd().endsWith('/')) {
+      current = node;
+    }
+  }
+
+  return root;
+}
+
+function className(node: HtmlNode): string {
+  return `${attribute(node.attrs, 'class') || ''} ${attribute(node.attrs, 'id') || ''}`.trim();
+}
+
+/**
+ * Drop navigation, page furniture and hidden elements before scoring
+ */
+function removeClutter(node: HtmlNode): void {
+  node.children = node.children.filter((child) => {
+    if (typeof child === 'string') return true;
+    if (REMOVED_TAGS.has(child.tag) || isHidden(child.attrs)) return false;
+
+    const names = className(child);
+    const structural = child.tag === 'body' || child.tag === 'html' || child.tag === 'article' || child.tag === 'main';
+    if (!structural && names && UNLIKELY_CANDIDATES.test(names) && !MAYBE_CANDIDATE.test(names)) return false;
+
+    removeClutter(child);
+    return true;
+  });
+}
+
+function textOf(node: HtmlNode | string): string {
+  if (typeof node === 'string') return node;
+  return node.children.map(textOf).join(BLOCK_TAGS.has(node.tag) ? ' ' : '');
+}
+
+function normalizedText(node: HtmlNode | string): string {
+  return textOf(node).replace(/\s+/g, ' ').trim();
+}
+
+function linkDensity(node: HtmlNode): number {
+  const total = normalizedText(node).length;
+  if (total === 0) return 0;
+
+  let linked = 0;
+  const walk = (current: HtmlNode) => {
+    for (const child of current.children) {
+      if (typeof child === 'string') continue;
+      if (child.tag === 'a') linked += normalizedText(child).length;
+      else walk(child);
+    }
+  };
+  walk(node);
+  return linked / total;
+}
+
+function findAll(node: HtmlNode, predicate: (node: HtmlNode) => boolean, found: HtmlNode[] = []): HtmlNode[] {
+  for (const child of node.children) {
+    if (typeof child === 'string') continue;
+    if (predicate(child)) found.push(child);
+    findAll(child, predicate, found);
+  }
+  return found;
+}
+
+function hasBlockChildren(node: HtmlNode): boolean {
+  return node.children.some((child) => typeof child !== 'string' && BLOCK_TAGS.has(child.tag));
+}
+
+/**
+ * Paragraphs of text under a node, one per block element
+ */
+function paragraphs(node: HtmlNode): string[] {
+  const result: string[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    const text = buffer.replace(/[ \t\f\v\u00a0]+/g, ' ').replace(/ *\n */g, '\n').trim();
+    if (text) result.push(text);
+    buffer = '';
+  };
+
+  const walk = (current: HtmlNode) => {
+    for (const child of current.children) {
+      if (typeof child === 'string') {
+        buffer += child.replace(/[\r\n]+/g, ' ');
+      } else if (child.tag === 'br') {
+        buffer += '\n';
+      } else if (BLOCK_TAGS.has(child.tag)) {
+        flush();
+        walk(child);
+        flush();
+      } else {
+        walk(child);
+      }
+    }
+  };
+
+  walk(node);
+  flush();
+  return result;
+}
+
+// ============================================================================
+// Readability
+// ============================================================================
+
+function classWeight(node: HtmlNode): number {
+  let weight = 0;
+  for (const name of [attribute(node.attrs, 'class'), attribute(node.attrs, 'id')]) {
+    if (!name) continue;
+    if (NEGATIVE_NAMES.test(name)) weight -= 25;
+    if (POSITIVE_NAMES.test(name)) weight += 25;
+  }
+  return weight;
+}
+
+function initialScore(node: HtmlNode): number {
+  let score = 0;
+  switch (node.tag) {
+    case 'div':
+    case 'article':
+    case 'main':
+      score = 5;
+      break;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      score = 3;
+      break;
+    case 'address':
+    case 'ol':
+    case 'ul':
+    case 'dl':
+    case 'dd':
+    case 'dt':
+    case 'li':
+      score = -3;
+      break;
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+    case 'th':
+      score = -5;
+      break;
+  }
+  return score + classWeight(node);
+}
+
+/**
+ * The element holding the article: paragraphs score their parent and
+ * grandparent by length and commas, scores are discounted by link density,
+ * and the best candidate is joined by siblings that look like more of it.
+ */
+function articleNodes(root: HtmlNode): HtmlNode[] {
+  // Publishers that mark up the body with schema.org save us the guesswork
+  const marked = findAll(root, (node) => attribute(node.attrs, 'itemprop') === 'articleBody');
+  if (marked.length > 0 && normalizedText(marked[0]).length >= MIN_ARTICLE_CHARS) return [marked[0]];
+
+  const scores = new Map<HtmlNode, number>();
+  const scorable = findAll(root, (node) =>
+    node.tag === 'p' || node.tag === 'pre' || node.tag === 'td' || (node.tag === 'div' && !hasBlockChildren(node))
+  );
+
+  for (const node of scorable) {
+    const text = normalizedText(node);
+    if (text.length < 25) continue;
+
+    const contentScore = 1 + (text.match(/[,，]/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3);
+
+    let ancestor = node.parent;
+    for (let level = 0; ancestor && ancestor.tag !== '#root' && level < 3; level++) {
+      if (!scores.has(ancestor)) scores.set(ancestor, initialScore(ancestor));
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, scores.get(ancestor)! + contentScore / divider);
+      ancestor = ancestor.parent;
+    }
+  }
+
+  let top: HtmlNode | null = null;
+  let topScore = 0;
+  for (const [node, score] of scores) {
+    const finalScore = score * (1 - linkDensity(node));
+    scores.set(node, finalScore);
+    if (!top || finalScore > topScore) {
+      top = node;
+      topScore = finalScore;
+    }
+  }
+
+  if (!top) {
+    const body = findAll(root, (node) => node.tag === 'body')[0];
+    return [body ?? root];
+  }
+  if (!top.parent) return [top];
+
+  const threshold = Math.max(10, topScore * 0.2);
+  return top.parent.children.filter((sibling): sibling is HtmlNode => {
+    if (typeof sibling === 'string') return false;
+    if (sibling === top) return true;
+    if ((scores.get(sibling) ?? -Infinity) >= threshold) return true;
+    if (sibling.tag !== 'p') return false;
+
+    const text = normalizedText(sibling);
+    const density = linkDensity(sibling);
+    return (text.length > 80 && density < 0.25) || (text.length > 0 && density === 0 && /\.( |$)/.test(text));
+  });
+}
+
+function metaContent(html: string, names: string[]): string | null {
+  for (const match of html.matchAll(/<meta\b([^>]*)>/gi)) {
+    const key = (attribute(match[1], 'property') || attribute(match[1], 'name') || '').toLowerCase();
+    if (names.includes(key)) {
+      const content = attribute(match[1], 'content');
+      if (content?.trim()) return content.trim();
+    }
+  }
+  return null;
+}
+
+export interface ExtractedArticle {
+  title: string | null;
+  text: string;
+  excerpt: string;
+  word_count: number;
+}
+
+/**
+ * Main text of an article page, as paragraphs separated by blank lines
+ */
+export function extractArticleText(html: string): ExtractedArticle {
+  const root = parseHtml(html);
+  removeClutter(root);
+
+  const nodes = articleNodes(root);
+  const text = nodes
+    .flatMap(paragraphs)
+    .filter((paragraph) => paragraph.length > 1)
+    .join('\n\n');
+
+  const titleTag = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const title = metaContent(html, ['og:title', 'twitter:title'])
+    ?? (titleTag ? decodeEntities(titleTag).replace(/\s+/g, ' ').trim() || null : null);
+
+  const description = metaContent(html, ['description', 'og:description', 'twitter:description']);
+  const lead = description ?? text.split('\n\n')[0] ?? '';
+  const excerpt = lead.length > EXCERPT_CHARS ? `${lead.slice(0, EXCERPT_CHARS).replace(/\s+\S*$/, '')}…` : lead;
+
+  return {
+    title,
+    text,
+    excerpt,
+    word_count: text ? text.split(/\s+/).length : 0,
+  };
+}
+
+const PAYWALL_PHRASES = [
+  /subscribe (?:now )?to (?:continue|keep) reading/i,
+  /to (?:continue|keep) reading,? (?:please )?(?:subscribe|sign in|log in|register)/i,
+  /already (?:a subscriber|have an account)\??\s*(?:sign|log) in/i,
+  /this (?:article|story|content) is (?:only )?(?:available|reserved) (?:to|for) (?:paying )?(?:subscribers|members)/i,
+  /subscribers? only/i,
+  /you(?:'ve| have) (?:reached|used) (?:your|all your) (?:free|monthly) (?:article|story) limit/i,
+];
+
+/**
+ * Whether a page held back its article: schema.org says it is not free, or a
+ * subscription prompt sits where the text should be. Only meaningful when
+ * extraction came back short; a page that marks itself paid but serves the
+ * full text is still usable.
+ */
+export function detectPaywall(html: string): boolean {
+  if (/"isAccessibleForFree"\s*:\s*(?:false|"false")/i.test(html)) return true;
+  if (/<meta\b[^>]*(?:content_tier|article:content_tier)[^>]*content\s*=\s*["'](?:locked|metered)["']/i.test(html)) return true;
+
+  const visible = html
+    .replace(/<(script|style)\b[\s\S]*?<\/\1\s*>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ');
+  return PAYWALL_PHRASES.some((phrase) => phrase.test(visible));
+}
+
+// ============================================================================
+// Fetching
+// ============================================================================
+
+export type ArticleFetchResult =
+  | {
+      status: 'fetched';
+      final_url: string;
+      http_status: number;
+      article: ExtractedArticle;
+    }
+  | {
+      status: 'paywalled' | 'blocked' | 'failed';
+      error: string;
+      http_status: number | null;
+      /** Worth trying again later (timeouts, rate limits, server errors) */
+      retryable: boolean;
+    };
+
+/**
+ * Fetch an article page and extract its text. Never throws: every outcome,
+ * including timeouts and network errors, comes back as a result.
+ */
+export async function fetchArticleContent(
+  url: string,
+  options: { fetchFn?: typeof fetch; timeoutMs?: number } = {}
+): Promise<ArticleFetchResult> {
+  const fetchFn = options.fetchFn ?? fetch;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS;
+
+  let response: Response;
+  try {
+    response = await fetchFn(url, {
+      headers: {
+        'User-Agent': ARTICLE_FETCH_USER_AGENT,
+        'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.1',
+        'Accept-Language': 'en',
+      },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    const timedOut = error instanceof DOMException && (error.name === 'TimeoutError' || error.name === 'AbortError');
+    return {
+      status: 'failed',
+      error: timedOut ? `Timed out after ${timeoutMs}ms` : `Fetch failed: ${error instanceof Error ? error.message : String(error)}`,
+      http_status: null,
+      retryable: true,
+    };
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    const status = response.status;
+    if (status === 402) {
+      return { status: 'paywalled', error: 'Payment required (402)', http_status: status, retryable: false };
+    }
+    if (status === 401 || status === 403 || status === 451) {
+      return { status: 'blocked', error: `Access denied (${status})`, http_status: status, retryable: false };
+    }
+    return {
+      status: 'failed',
+      error: `HTTP ${status}`,
+      http_status: status,
+      retryable: status === 408 || status === 429 || status >= 500,
+    };
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType && !/html|xml/i.test(contentType)) {
+    await response.body?.cancel();
+    return { status: 'failed', error: `Not an HTML page (${contentType})`, http_status: response.status, retryable: false };
+  }
+
+  let html: string;
+  try {
+    html = await response.text();
+  } catch (error) {
+    return {
+      status: 'failed',
+      error: `Failed to read page: ${error instanceof Error ? error.message : String(error)}`,
+      http_status: response.status,
+      retryable: true,
+    };
+  }
+
+  const article = extractArticleText(html);
+  if (article.text.length < MIN_ARTICLE_CHARS) {
+    if (detectPaywall(html)) {
+      return { status: 'paywalled', error: 'Article text is behind a paywall', http_status: response.status, retryable: false };
+    }
+    return {
+      status: 'failed',
+      error: `No article text found (${article.text.length} characters)`,
+      http_status: response.status,
+      retryable: false,
+    };
+  }
+
+  return { status: 'fetched', final_url: response.url || url, http_status: response.status, article };
+}
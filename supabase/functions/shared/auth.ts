@@ -0,0 +1,95 @@
+// Caller identity and roles
+//
+// Browser requests carry the signed-in user's access token; cron jobs and
+// function-to-function calls carry the service role key. Handlers check the
+// caller's role (user_profiles.role: viewer < analyst < admin, the same order
+// as has_role() in SQL) before doing anything with their service role client,
+// and record the user's email wherever a row says who triggered or uploaded it.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export const USER_ROLES = ['viewer', 'analyst', 'admin'] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export interface RequestUser {
+  id: string;
+  email: string | null;
+  role: UserRole;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, readonly status: 401 | 403) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export function hasRole(role: UserRole | null | undefined, required: UserRole): boolean {
+  if (!role) return false;
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+function bearerToken(req: Request): string | null {
+  const header = req.headers.get('Authorization') || '';
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() || null : null;
+}
+
+/**
+ * The user behind a request. Returns null for service role calls; throws
+ * AuthError for anon or expired tokens and users below the required role.
+ */
+export async function authenticate(
+  req: Request,
+  supabase: SupabaseClient,
+  required: UserRole
+): Promise<RequestUser | null> {
+  const token = bearerToken(req);
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (token && serviceRoleKey && token === serviceRoleKey) return null;
+  if (!token) throw new AuthError('Sign in required', 401);
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) throw new AuthError('Sign in required', 401);
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', data.user.id)
+    .maybeSingle();
+
+  const role = (profile?.role as UserRole | undefined) ?? null;
+  if (!hasRole(role, required)) {
+    throw new AuthError(`This action needs the ${required} role`, 403);
+  }
+
+  return { id: data.user.id, email: data.user.email ?? null, role: role! };
+}
+
+/**
+ * authenticate() for a handler: the caller, or the 401/403 response to return
+ */
+export async function requireRole(
+  req: Request,
+  supabase: SupabaseClient,
+  required: UserRole,
+  headers: Record<string, string>
+): Promise<RequestUser | null | Response> {
+  try {
+    return await authenticate(req, supabase, required);
+  } catch (error) {
+    if (!(error instanceof AuthError)) throw error;
+    return new Response(JSON.stringify({ success: false, error: error.message }), {
+      status: error.status,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+/**
+ * Who to record as having done something: the user's email, or `fallback`
+ * (cron, backfill, system) for service role calls
+ */
+export function actorName(user: RequestUser | null, fallback: string): string {
+  return user ? user.email || user.id : fallback;
+}
@@ -0,0 +1,459 @@
+/**
+ * Typed case analysis stored in cases.parsed_json (and analyzed_registry_pdfs.parsed_json)
+ *
+ * analyze-case and analyze-pdf-with-claude ask the model for this JSON and validate it
+ * with zod. dashboard_summary is rendered from it for copy/export. Analyses written
+ * before schema_version 1 were markdown reports; caseAnalysisFromMarkdown converts them
+ * (see migrate-case-analyses).
+ */
+
+import { z } from 'npm:zod@3';
+import { type LLMClient, type LLMRequest, parseJSONResponse } from './llm/index.ts';
+import { parsePractitionerMentions } from './practitioner-resolution.ts';
+
+export const CASE_ANALYSIS_SCHEMA_VERSION = 1;
+
+const NOT_SPECIFIED = /^(?:n\/?a|not specified|not stated|not available|none|unknown|-+|—)?$/i;
+
+// Free-text field; "N/A"-style placeholders become null
+const optionalText = z
+  .preprocess(
+    (value) => (typeof value === 'string' && NOT_SPECIFIED.test(value.trim()) ? null : value),
+    z.string().trim().nullable()
+  )
+  .optional()
+  .transform((value) => value ?? null);
+
+const notes = z.array(z.string()).default([]);
+
+export const CaseAnalysisSchema = z.object({
+  schema_version: z.literal(CASE_ANALYSIS_SCHEMA_VERSION),
+  // legacy_markdown: converted from a pre-v1 markdown report, so fields are best effort
+  source: z.enum(['llm', 'legacy_markdown']).default('llm'),
+  company_overview: z
+    .object({
+      name: optionalText,
+      name_chinese: optionalText,
+      registration_number: optionalText,
+      incorporation_date: optionalText,
+      former_names: z.array(z.object({ name: z.string(), changed_on: optionalText })).default([]),
+      registered_office: optionalText,
+      principal_business: optionalText,
+      stock_listing: optionalText,
+      notes,
+    })
+    .default({}),
+  legal_details: z
+    .object({
+      court: optionalText,
+      cause_number: optionalText,
+      filing_date: optionalText,
+      filing_law_firm: optionalText,
+      petition_type: optionalText,
+      statutory_basis: optionalText,
+      notes,
+    })
+    .default({}),
+  timeline: z.array(z.object({ date: z.string(), event: z.string() })).default([]),
+  capital_structure: z
+    .object({
+      authorised_capital: optionalText,
+      issued_capital: optionalText,
+      proposed_changes: optionalText,
+      purpose: optionalText,
+      solvency_status: optionalText,
+      notes,
+    })
+    .default({}),
+  practitioners: z
+    .object({
+      // null when the document does not say
+      appointed: z.boolean().nullable().default(null),
+      appointments: z
+        .array(z.object({ name: z.string(), firm: optionalText, role: optionalText }))
+        .default([]),
+      note: optionalText,
+    })
+    .default({}),
+});
+
+export type CaseAnalysis = z.infer<typeof CaseAnalysisSchema>;
+
+export type CaseAnalysisValidation =
+  | { success: true; analysis: CaseAnalysis }
+  | { success: false; issues: string[] };
+
+/**
+ * Prompt fragment describing the JSON the model must return
+ */
+export const CASE_ANALYSIS_JSON_INSTRUCTIONS = `Return ONLY a JSON object with exactly this structure (schema_version ${CASE_ANALYSIS_SCHEMA_VERSION}):
+{
+  "schema_version": ${CASE_ANALYSIS_SCHEMA_VERSION},
+  "company_overview": {
+    "name": string, "name_chinese": string|null, "registration_number": string|null,
+    "incorporation_date": "YYYY-MM-DD"|string|null,
+    "former_names": [{ "name": string, "changed_on": "YYYY-MM-DD"|string|null }],
+    "registered_office": string|null, "principal_business": string|null,
+    "stock_listing": string|null, "notes": [string]
+  },
+  "legal_details": {
+    "court": string|null, "cause_number": string|null, "filing_date": "YYYY-MM-DD"|string|null,
+    "filing_law_firm": string|null, "petition_type": string|null, "statutory_basis": string|null,
+    "notes": [string]
+  },
+  "timeline": [{ "date": "YYYY-MM-DD"|string, "event": string }],
+  "capital_structure": {
+    "authorised_capital": string|null, "issued_capital": string|null,
+    "proposed_changes": string|null, "purpose": string|null, "solvency_status": string|null,
+    "notes": [string]
+  },
+  "practitioners": {
+    "appointed": boolean|null,
+    "appointments": [{ "name": string, "firm": string|null, "role": string|null }],
+    "note": string|null
+  }
+}
+Use null for anything the document does not state. Keep the timeline to the 8-10 most important dates in
+chronological order. Preserve exact figures for share capital and monetary amounts. Put any other essential
+facts in the relevant section's "notes" as short one-line strings.`;
+
+export function validateCaseAnalysis(raw: unknown): CaseAnalysisValidation {
+  const result = CaseAnalysisSchema.safeParse(raw);
+  if (result.success) return { success: true, analysis: result.data };
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+  };
+}
+
+function parseCaseAnalysis(text: string): CaseAnalysisValidation {
+  try {
+    return validateCaseAnalysis(parseJSONResponse(text));
+  } catch (error) {
+    return { success: false, issues: [error instanceof Error ? error.message : String(error)] };
+  }
+}
+
+/**
+ * Run a request whose reply should be a case analysis. Invalid JSON gets one repair
+ * round (previous reply plus the validation issues, without the source document).
+ */
+export async function completeCaseAnalysis(llm: LLMClient, request: LLMRequest): Promise<CaseAnalysis> {
+  const response = await llm.complete({ ...request, json: true });
+  const first = parseCaseAnalysis(response.text);
+  if (first.success) return first.analysis;
+
+  console.warn(`Case analysis failed validation, requesting repair: ${first.issues.join('; ')}`);
+  const repair = await llm.complete({
+    task: request.task,
+    messages: [
+      {
+        role: 'user',
+        content: `This case analysis JSON does not match the required schema.
+
+ISSUES:
+${first.issues.map((issue) => `- ${issue}`).join('\n')}
+
+JSON:
+${response.text}
+
+${CASE_ANALYSIS_JSON_INSTRUCTIONS}`,
+      },
+    ],
+    maxTokens: request.maxTokens,
+    json: true,
+  });
+
+  const second = parseCaseAnalysis(repair.text);
+  if (second.success) return second.analysis;
+  throw new Error(`Case analysis did not match schema v${CASE_ANALYSIS_SCHEMA_VERSION}: ${second.issues.slice(0, 5).join('; ')}`);
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+function line(label: string, value: string | null): string | null {
+  return value ? `- ${label}: ${value}` : null;
+}
+
+function section(title: string, lines: Array<string | null>): string {
+  const body = lines.filter(Boolean);
+  return `**${title}**\n${body.length > 0 ? body.join('\n') : '- Not specified'}`;
+}
+
+/**
+ * Dashboard-style markdown for dashboard_summary (copy/export and older readers)
+ */
+export function renderCaseAnalysisMarkdown(analysis: CaseAnalysis): string {
+  const { company_overview: overview, legal_details: legal, capital_structure: capital, practitioners } = analysis;
+
+  const timeline =
+    analysis.timeline.length > 0
+      ? ['| Date | Event |', '|------|-------|', ...analysis.timeline.map((entry) => `| ${entry.date} | ${entry.event} |`)]
+      : ['- Not specified'];
+
+  const appointments = practitioners.appointments.map(
+    (appointment) =>
+      `- ${appointment.name}${appointment.firm ? ` (${appointment.firm})` : ''}${appointment.role ? ` - ${appointment.role}` : ''}`
+  );
+
+  return [
+    section('1. COMPANY OVERVIEW', [
+      line('Company name', [overview.name, overview.name_chinese].filter(Boolean).join(' ') || null),
+      line('Registration No.', overview.registration_number),
+      line('Incorporated', overview.incorporation_date),
+      overview.former_names.length > 0
+        ? `- Former names: ${overview.former_names.map((former) => (former.changed_on ? `${former.name} (until ${former.changed_on})` : former.name)).join('; ')}`
+        : null,
+      line('Registered Office', overview.registered_office),
+      line('Principal Business', overview.principal_business),
+      line('Stock Listing', overview.stock_listing),
+      ...overview.notes.map((note) => `- ${note}`),
+    ]),
+    section('2. LEGAL DETAILS', [
+      line('Court', legal.court),
+      line('Cause No.', legal.cause_number),
+      line('Filed', legal.filing_date),
+      line('Filing Law Firm', legal.filing_law_firm),
+      line('Petition Type', [legal.petition_type, legal.statutory_basis && `under ${legal.statutory_basis}`].filter(Boolean).join(' ') || null),
+      ...legal.notes.map((note) => `- ${note}`),
+    ]),
+    `**3. KEY TIMELINE**\n${timeline.join('\n')}`,
+    section('4. FINANCIAL SUMMARY', [
+      line('Current authorised capital', capital.authorised_capital),
+      line('Current issued capital', capital.issued_capital),
+      line('Proposed changes', capital.proposed_changes),
+      line('Purpose', capital.purpose),
+      line('Solvency status', capital.solvency_status),
+      ...capital.notes.map((note) => `- ${note}`),
+    ]),
+    section('5. INSOLVENCY PRACTITIONERS', [
+      ...appointments,
+      practitioners.note ? `- ${practitioners.note}` : null,
+      appointments.length === 0 && !practitioners.note && practitioners.appointed === false ? '- None appointed' : null,
+    ]),
+    '---',
+  ].join('\n\n');
+}
+
+/**
+ * Sections with at least one extracted value, for fields_extracted / quality scoring
+ */
+export function caseAnalysisQuality(analysis: CaseAnalysis): { extracted: string[]; missing: string[]; score: number } {
+  const hasValue = (record: Record<string, unknown>) =>
+    Object.values(record).some((value) => (Array.isArray(value) ? value.length > 0 : value !== null && value !== undefined));
+
+  const sections: Record<string, boolean> = {
+    company_overview: hasValue(analysis.company_overview),
+    legal_details: hasValue(analysis.legal_details),
+    timeline: analysis.timeline.length > 0,
+    capital_structure: hasValue(analysis.capital_structure),
+    practitioners:
+      analysis.practitioners.appointed !== null ||
+      analysis.practitioners.appointments.length > 0 ||
+      analysis.practitioners.note !== null,
+  };
+
+  const extracted = Object.keys(sections).filter((key) => sections[key]);
+  const missing = Object.keys(sections).filter((key) => !sections[key]);
+  return { extracted, missing, score: Math.round((extracted.length / 5) * 100) };
+}
+
+// ============================================================================
+// Legacy markdown conversion
+// ============================================================================
+
+const SECTION_HEADINGS: Array<{ key: string; pattern: RegExp }> = [
+  { key: 'company_overview', pattern: /(?:\*\*|##\s*)?(?:1\.\s*)?COMPANY OVERVIEW(?:\*\*)?/i },
+  { key: 'legal_details', pattern: /(?:\*\*|##\s*)?(?:2\.\s*)?LEGAL DETAILS(?:\*\*)?/i },
+  { key: 'timeline', pattern: /(?:\*\*|##\s*)?(?:3\.\s*)?KEY TIMELINE(?:\*\*)?/i },
+  { key: 'capital_structure', pattern: /(?:\*\*|##\s*)?(?:4\.\s*)?FINANCIAL SUMMARY(?:\*\*)?/i },
+  { key: 'practitioners', pattern: /(?:\*\*|##\s*)?(?:5\.\s*)?INSOLVENCY PRACTITIONERS(?:\*\*)?/i },
+  { key: 'creditors', pattern: /(?:\*\*|##\s*)?(?:6\.\s*)?CREDITOR INFORMATION(?:\*\*)?/i },
+];
+
+const SECTION_END = /^\s*(?:---|\*\*CRITICAL REQUIREMENTS|# CRITICAL EXTRACTION)/m;
+
+function splitLegacySections(markdown: string): Record<string, string> {
+  const found = SECTION_HEADINGS.map(({ key, pattern }) => {
+    const match = markdown.match(pattern);
+    return match && match.index !== undefined ? { key, start: match.index, bodyStart: match.index + match[0].length } : null;
+  })
+    .filter((entry): entry is { key: string; start: number; bodyStart: number } => entry !== null)
+    .sort((a, b) => a.start - b.start);
+
+  const sections: Record<string, string> = {};
+  found.forEach((entry, index) => {
+    let body = markdown.slice(entry.bodyStart, found[index + 1]?.start ?? markdown.length);
+    const end = body.match(SECTION_END);
+    if (end?.index !== undefined) body = body.slice(0, end.index);
+    sections[entry.key] = body.trim();
+  });
+  return sections;
+}
+
+function cleanMarkdown(text: string): string {
+  return text.replace(/\*\*/g, '').replace(/^\s*(?:[-•*]|\d+\.)\s+/, '').trim();
+}
+
+function bulletLines(body: string | undefined): string[] {
+  if (!body) return [];
+  return body
+    .split('\n')
+    .map(cleanMarkdown)
+    .filter((text) => text && !text.startsWith('|'));
+}
+
+/**
+ * "Label: value | Other label: value" -> [[label, value], ...]; unlabelled parts have an empty label
+ */
+function labelledParts(text: string): Array<[string, string]> {
+  return text.split(/\s+\|\s+/).map((part) => {
+    const match = part.match(/^([^:]{2,40}):\s*(.*)$/);
+    if (match) return [match[1].trim(), match[2].trim()];
+    const numbered = part.match(/^(Registration No\.?|Cause No\.?)\s*(.+)$/i);
+    if (numbered) return [numbered[1], numbered[2].trim()];
+    return ['', part.trim()];
+  });
+}
+
+type FieldMap = Array<[RegExp, string]>;
+
+function assignFields(lines: string[], fieldMap: FieldMap, target: Record<string, unknown>, noteList: string[]): void {
+  for (const text of lines) {
+    for (const [label, value] of labelledParts(text)) {
+      const field = label ? fieldMap.find(([pattern]) => pattern.test(label))?.[1] : undefined;
+      if (field && target[field] === undefined) {
+        target[field] = value;
+      } else {
+        noteList.push(label ? `${label}: ${value}` : value);
+      }
+    }
+  }
+}
+
+const OVERVIEW_FIELDS: FieldMap = [
+  [/company name|^name$/i, 'name'],
+  [/registration/i, 'registration_number'],
+  [/incorporat/i, 'incorporation_date'],
+  [/registered office/i, 'registered_office'],
+  [/principal business|business/i, 'principal_business'],
+  [/listing|listed/i, 'stock_listing'],
+];
+
+const LEGAL_FIELDS: FieldMap = [
+  [/court/i, 'court'],
+  [/cause/i, 'cause_number'],
+  [/filed|filing date/i, 'filing_date'],
+  [/law firm|attorneys?/i, 'filing_law_firm'],
+  [/petition type|type/i, 'petition_type'],
+];
+
+const CAPITAL_FIELDS: FieldMap = [
+  [/authori[sz]ed/i, 'authorised_capital'],
+  [/issued/i, 'issued_capital'],
+  [/proposed/i, 'proposed_changes'],
+  [/purpose/i, 'purpose'],
+  [/solven/i, 'solvency_status'],
+];
+
+function legacyTimeline(body: string | undefined): CaseAnalysis['timeline'] {
+  if (!body) return [];
+  const rows = body
+    .split('\n')
+    .map((text) => text.trim())
+    .filter((text) => text.includes('|') && !/^\|?\s*-{3,}/.test(text) && !/^\|?\s*date\s*\|/i.test(text))
+    .map((text) => text.split('|').map((cell) => cleanMarkdown(cell)).filter(Boolean))
+    .filter((cells) => cells.length >= 2)
+    .map(([date, event]) => ({ date, event }));
+
+  if (rows.length > 0) return rows;
+
+  return bulletLines(body)
+    .map((text) => text.match(/^(.{4,30}?)\s*[:–-]\s+(.+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => ({ date: match[1].trim(), event: match[2].trim() }));
+}
+
+/**
+ * Best-effort conversion of a pre-v1 markdown dashboard report
+ */
+export function caseAnalysisFromMarkdown(markdown: string): CaseAnalysis {
+  const sections = splitLegacySections(markdown);
+
+  const overview: Record<string, unknown> = {};
+  const overviewNotes: string[] = [];
+  const formerNames: Array<{ name: string; changed_on: string | null }> = [];
+  for (const text of bulletLines(sections.company_overview)) {
+    const former = text.match(/^former names?[^:]*:\s*(.+)$/i);
+    if (former) {
+      formerNames.push(...former[1].split(/;\s*/).map((name) => ({ name: name.trim(), changed_on: null })));
+    } else {
+      assignFields([text], OVERVIEW_FIELDS, overview, overviewNotes);
+    }
+  }
+
+  // "Name Limited 中文名" -> separate Chinese name
+  const cjk = typeof overview.name === 'string' ? overview.name.match(/[\u3400-\u9fff][\u3400-\u9fff\s（）()]*$/) : null;
+  if (cjk && typeof overview.name === 'string') {
+    overview.name_chinese = cjk[0].trim();
+    overview.name = overview.name.slice(0, cjk.index).trim();
+  }
+
+  const legal: Record<string, unknown> = {};
+  const legalNotes: string[] = [];
+  assignFields(bulletLines(sections.legal_details), LEGAL_FIELDS, legal, legalNotes);
+  if (typeof legal.petition_type === 'string') {
+    const under = legal.petition_type.match(/^(.*?)\s+under\s+(.+)$/i);
+    if (under) {
+      legal.petition_type = under[1];
+      legal.statutory_basis = under[2];
+    }
+  }
+
+  const capital: Record<string, unknown> = {};
+  const capitalNotes: string[] = [];
+  assignFields(bulletLines(sections.capital_structure), CAPITAL_FIELDS, capital, capitalNotes);
+  capitalNotes.push(...bulletLines(sections.creditors).map((text) => `Creditors: ${text}`));
+
+  const practitionerText = bulletLines(sections.practitioners).join('\n');
+  const appointments = parsePractitionerMentions(practitionerText.replace(/^if appointed:\s*/gim, '')).map((mention) => ({
+    name: mention.name,
+    firm: mention.firm,
+    role: null,
+  }));
+  const noneAppointed = /\bnone\b|not appointed|no (?:insolvency )?practitioners?/i.test(practitionerText);
+
+  return CaseAnalysisSchema.parse({
+    schema_version: CASE_ANALYSIS_SCHEMA_VERSION,
+    source: 'legacy_markdown',
+    company_overview: { ...overview, former_names: formerNames, notes: overviewNotes },
+    legal_details: { ...legal, notes: legalNotes },
+    timeline: legacyTimeline(sections.timeline),
+    capital_structure: { ...capital, notes: capitalNotes },
+    practitioners: {
+      appointed: appointments.length > 0 ? true : noneAppointed ? false : null,
+      appointments,
+      note: appointments.length === 0 && practitionerText ? practitionerText.split('\n')[0] : null,
+    },
+  });
+}
+
+/**
+ * Typed analysis from a parsed_json value: v1 objects are validated, older
+ * { full_summary, ...sections } objects are converted from their markdown
+ */
+export function readCaseAnalysis(parsedJson: unknown): CaseAnalysis | null {
+  if (!parsedJson || typeof parsedJson !== 'object') return null;
+  const record = parsedJson as Record<string, unknown>;
+
+  if (record.schema_version !== undefined) {
+    const validation = validateCaseAnalysis(record);
+    return validation.success ? validation.analysis : null;
+  }
+
+  return typeof record.full_summary === 'string' && record.full_summary.trim()
+    ? caseAnalysisFromMarkdown(record.full_summary)
+    : null;
+}
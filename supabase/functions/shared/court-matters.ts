@@ -0,0 +1,226 @@
+// Grand Court cause numbers and matter lifecycle
+//
+// The same cause ("FSD 123 of 2025 (IKJ)") is written several ways across the
+// registry, petitions and gazette notices. parseCauseNumber reduces each form to
+// division, number, year and judge initials with a stable key, and the event
+// helpers turn notice text into lifecycle events for the court_matters table.
+
+import { dateNear, findDates } from './text-dates.ts';
+
+/**
+ * Grand Court divisions seen in cause numbers
+ * FSD = Financial Services Division, G = General (civil) list
+ */
+export const COURT_DIVISIONS: Record<string, string> = {
+  FSD: 'Financial Services Division',
+  G: 'General Civil',
+  CIV: 'Civil',
+  FAM: 'Family',
+  FCR: 'Financial Crimes',
+};
+
+export interface CauseNumber {
+  division: string;
+  number: number;
+  year: number;
+  judge: string | null;
+  /** Comparison key without judge initials, e.g. "FSD-123-2025" */
+  key: string;
+}
+
+export type CourtMatterEventType =
+  | 'petition_filed'
+  | 'hearing'
+  | 'winding_up_order'
+  | 'liquidator_appointed'
+  | 'dissolved'
+  | 'dismissed';
+
+export type CourtMatterStage =
+  | 'petition'
+  | 'hearing'
+  | 'wound_up'
+  | 'in_liquidation'
+  | 'dissolved'
+  | 'dismissed';
+
+export interface CourtMatterEvent {
+  type: CourtMatterEventType;
+  date: string | null;
+}
+
+export interface CourtMatterSummary {
+  stage: CourtMatterStage;
+  petition_filed_on: string | null;
+  next_hearing_on: string | null;
+  last_hearing_on: string | null;
+  winding_up_order_on: string | null;
+  liquidator_appointed_on: string | null;
+  dissolved_on: string | null;
+  last_event_on: string | null;
+}
+
+// "FSD 123 of 2025 (IKJ)", "Cause No. FSD 123/2025", "FSD2025-0123", "G 45 of 2019"
+const CAUSE_NUMBER_REGEX = new RegExp(
+  `\\b(${Object.keys(COURT_DIVISIONS).join('|')})\\s*(?:Cause\\s*)?(?:No\\.?\\s*)?` +
+    '(?:(\\d{1,5})\\s*(?:of|\\/)\\s*((?:19|20)\\d{2})|((?:19|20)\\d{2})\\s*-\\s*(\\d{1,5}))\\b' +
+    '(?:\\s*\\(\\s*([A-Za-z]{2,5})\\s*\\))?',
+  'gi'
+);
+
+function toCauseNumber(match: RegExpMatchArray): CauseNumber {
+  const division = match[1].toUpperCase();
+  const number = parseInt(match[2] ?? match[5], 10);
+  const year = parseInt(match[3] ?? match[4], 10);
+  // Judge initials are always printed in capitals; "(the Company)" style asides are not judges
+  const judge = match[6] && match[6] === match[6].toUpperCase() ? match[6] : null;
+  return { division, number, year, judge, key: `${division}-${number}-${year}` };
+}
+
+/**
+ * Parse the first cause number in a string
+ */
+export function parseCauseNumber(raw: string | null | undefined): CauseNumber | null {
+  if (!raw) return null;
+  const [match] = raw.matchAll(CAUSE_NUMBER_REGEX);
+  return match ? toCauseNumber(match) : null;
+}
+
+/**
+ * Every distinct cause number in a block of text (by key, first occurrence wins)
+ */
+export function extractCauseNumbers(text: string | null | undefined): CauseNumber[] {
+  if (!text) return [];
+  const found = new Map<string, CauseNumber>();
+  for (const match of text.matchAll(CAUSE_NUMBER_REGEX)) {
+    const cause = toCauseNumber(match);
+    if (!found.has(cause.key)) found.set(cause.key, cause);
+  }
+  return Array.from(found.values());
+}
+
+/**
+ * Display form used across the app: "FSD 123 of 2025 (IKJ)"
+ */
+export function formatCauseNumber(cause: CauseNumber): string {
+  const judge = cause.judge ? ` (${cause.judge})` : '';
+  return `${cause.division} ${cause.number} of ${cause.year}${judge}`;
+}
+
+/**
+ * Wording for each lifecycle step in court notices, petitions and case timelines
+ */
+const EVENT_PATTERNS: Array<{ type: CourtMatterEventType; pattern: RegExp; windowAfter: number }> = [
+  {
+    type: 'petition_filed',
+    pattern: /petition\s+(?:was\s+|has\s+been\s+)?(?:presented|filed)|(?:presented|filed)\s+(?:a|the)\s+(?:winding[- ]up\s+)?petition/i,
+    windowAfter: 80,
+  },
+  {
+    type: 'hearing',
+    pattern: /(?:will|shall|is\s+to|to)\s+be\s+heard|hearing\s+(?:of\s+the\s+petition\s+)?(?:is\s+|has\s+been\s+)?(?:listed|fixed|scheduled|set\s+down|adjourned)|\bhearing\s+(?:on|date)\b/i,
+    windowAfter: 200,
+  },
+  {
+    type: 'winding_up_order',
+    pattern: /ordered\s+(?:that\s+[^.]{0,80}?)?(?:to\s+)?be\s+wound\s+up|winding[- ]up\s+order|order\s+(?:of\s+the\s+Grand\s+Court\s+)?(?:was\s+made\s+)?(?:dated|made\s+on)/i,
+    windowAfter: 100,
+  },
+  {
+    type: 'liquidator_appointed',
+    pattern: /appointed\s+(?:as\s+)?(?:the\s+)?(?:joint\s+)?(?:official\s+|provisional\s+)?liquidators?|(?:official|provisional)\s+liquidators?\s+(?:was|were|have\s+been|has\s+been)\s+appointed/i,
+    windowAfter: 100,
+  },
+  {
+    type: 'dissolved',
+    pattern: /(?:was|be|is|been)\s+dissolved|(?:order|date)\s+of\s+dissolution|dissolution\s+order/i,
+    windowAfter: 100,
+  },
+  {
+    type: 'dismissed',
+    pattern: /petition\s+(?:was\s+|has\s+been\s+|is\s+)?(?:dismissed|withdrawn|struck\s+out)/i,
+    windowAfter: 100,
+  },
+];
+
+/**
+ * Lifecycle events described in a notice or document
+ * The date is the one printed next to the wording; fallbackDate (usually the
+ * publication date) is used when none is, except for hearings where an
+ * undated mention says nothing useful
+ */
+export function courtEventsFromText(text: string | null | undefined, fallbackDate: string | null = null): CourtMatterEvent[] {
+  if (!text) return [];
+  const events: CourtMatterEvent[] = [];
+
+  for (const { type, pattern, windowAfter } of EVENT_PATTERNS) {
+    if (!pattern.test(text)) continue;
+    const date = dateNear(text, pattern, windowAfter, 40);
+    if (!date && type === 'hearing') continue;
+    events.push({ type, date: date ?? fallbackDate });
+  }
+
+  return events;
+}
+
+/**
+ * Classify a single dated timeline entry (e.g. from a case analysis)
+ */
+export function courtEventFromTimelineEntry(date: string, event: string): CourtMatterEvent | null {
+  const iso = findDates(date, true)[0]?.iso ?? null;
+  for (const { type, pattern } of EVENT_PATTERNS) {
+    if (pattern.test(event)) return { type, date: iso };
+  }
+  // Timeline entries are terse ("Petition filed", "Hearing")
+  if (/\bhearing\b/i.test(event)) return iso ? { type: 'hearing', date: iso } : null;
+  if (/\bpetition\b/i.test(event)) return { type: 'petition_filed', date: iso };
+  return null;
+}
+
+const STAGE_ORDER: Array<[CourtMatterEventType, CourtMatterStage]> = [
+  ['petition_filed', 'petition'],
+  ['hearing', 'hearing'],
+  ['winding_up_order', 'wound_up'],
+  ['liquidator_appointed', 'in_liquidation'],
+  ['dissolved', 'dissolved'],
+];
+
+function earliest(dates: Array<string | null>): string | null {
+  return dates.filter((d): d is string => !!d).sort()[0] ?? null;
+}
+
+function latest(dates: Array<string | null>): string | null {
+  return dates.filter((d): d is string => !!d).sort().pop() ?? null;
+}
+
+/**
+ * Roll a matter's events up into its current stage and key dates
+ * A dismissal only ends a matter that never reached a winding-up order, and
+ * only if nothing (e.g. a re-listed hearing) is dated after it
+ */
+export function summarizeCourtMatter(events: CourtMatterEvent[], today: string): CourtMatterSummary {
+  const datesFor = (type: CourtMatterEventType) => events.filter((e) => e.type === type).map((e) => e.date);
+  const hearings = datesFor('hearing').filter((d): d is string => !!d);
+
+  let stage: CourtMatterStage = 'petition';
+  for (const [type, candidate] of STAGE_ORDER) {
+    if (events.some((e) => e.type === type)) stage = candidate;
+  }
+
+  const dismissedOn = latest(datesFor('dismissed'));
+  if (events.some((e) => e.type === 'dismissed') && (stage === 'petition' || stage === 'hearing')) {
+    const later = events.some((e) => e.type !== 'dismissed' && e.date && dismissedOn && e.date > dismissedOn);
+    if (!later) stage = 'dismissed';
+  }
+
+  return {
+    stage,
+    petition_filed_on: earliest(datesFor('petition_filed')),
+    next_hearing_on: hearings.filter((d) => d >= today).sort()[0] ?? null,
+    last_hearing_on: hearings.filter((d) => d < today).sort().pop() ?? null,
+    winding_up_order_on: earliest(datesFor('winding_up_order')),
+    liquidator_appointed_on: earliest(datesFor('liquidator_appointed')),
+    dissolved_on: latest(datesFor('dissolved')),
+    last_event_on: latest(events.map((e) => e.date)),
+  };
+}
@@ -0,0 +1,213 @@
+// Notification digest rendering
+//
+// Builds the email (HTML) and Slack (Block Kit) versions of a digest from the
+// queued notifications. Rendering is pure so a digest can be previewed without
+// sending anything; run this file directly to write one to stdout:
+//
+//   deno run --allow-read supabase/functions/shared/digest-renderer.ts [digest.json] > digest.html
+//
+// Without an argument a built-in sample digest is rendered.
+
+export interface DigestItem {
+  id: string;
+  notification_type: string;
+  title: string;
+  message: string;
+  priority: string;
+  sent_at: string;
+  data?: Record<string, unknown>;
+}
+
+export interface Digest {
+  ruleName: string;
+  // digest: scheduled daily/weekly batch; quiet_hours: held overnight
+  reason: 'digest' | 'quiet_hours';
+  periodStart: string;
+  periodEnd: string;
+  timezone: string;
+  items: DigestItem[];
+}
+
+const PRIORITY_COLORS: Record<string, string> = {
+  critical: '#b91c1c',
+  high: '#c2410c',
+  medium: '#a16207',
+  low: '#4b5563',
+};
+
+const PRIORITY_ORDER = ['critical', 'high', 'medium', 'low'];
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatTimestamp(value: string, timeZone: string): string {
+  return new Date(value).toLocaleString('en-US', {
+    timeZone,
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function humanizeType(type: string): string {
+  return type.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+/**
+ * Group items by notification type, busiest type first
+ */
+function groupByType(items: DigestItem[]): Array<[string, DigestItem[]]> {
+  const groups = new Map<string, DigestItem[]>();
+  for (const item of items) {
+    const list = groups.get(item.notification_type) || [];
+    list.push(item);
+    groups.set(item.notification_type, list);
+  }
+
+  for (const list of groups.values()) {
+    list.sort(
+      (a, b) =>
+        PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority) ||
+        b.sent_at.localeCompare(a.sent_at)
+    );
+  }
+  return Array.from(groups.entries()).sort((a, b) => b[1].length - a[1].length);
+}
+
+export function digestSubject(digest: Digest): string {
+  const count = digest.items.length;
+  const noun = count === 1 ? 'notification' : 'notifications';
+  return digest.reason === 'quiet_hours'
+    ? `Cayman Watch: ${count} ${noun} held during quiet hours`
+    : `Cayman Watch digest (${digest.ruleName}): ${count} ${noun}`;
+}
+
+export function renderDigestHtml(digest: Digest): string {
+  const subject = digestSubject(digest);
+  const period = `${formatTimestamp(digest.periodStart, digest.timezone)} – ${formatTimestamp(digest.periodEnd, digest.timezone)}`;
+
+  const sections = groupByType(digest.items)
+    .map(([type, items]) => {
+      const rows = items
+        .map((item) => {
+          const color = PRIORITY_COLORS[item.priority] || PRIORITY_COLORS.low;
+          const message = escapeHtml(item.message).replace(/\n/g, '<br>');
+          return `
+          <tr>
+            <td style="padding:12px 0;border-bottom:1px solid #e5e7eb;">
+              <div style="font-size:12px;color:#6b7280;">
+                <span style="color:${color};font-weight:600;text-transform:uppercase;">${escapeHtml(item.priority)}</span>
+                &middot; ${escapeHtml(formatTimestamp(item.sent_at, digest.timezone))}
+              </div>
+              <div style="font-size:15px;font-weight:600;color:#111827;margin-top:4px;">${escapeHtml(item.title)}</div>
+              <div style="font-size:14px;color:#374151;margin-top:4px;">${message}</div>
+            </td>
+          </tr>`;
+        })
+        .join('');
+
+      return `
+      <h2 style="font-size:16px;color:#111827;margin:24px 0 4px;">${escapeHtml(humanizeType(type))} (${items.length})</h2>
+      <table role="presentation" width="100%" cellspacing="0" cellpadding="0">${rows}
+      </table>`;
+    })
+    .join('');
+
+  const empty = digest.items.length === 0
+    ? '<p style="font-size:14px;color:#6b7280;">No notifications in this period.</p>'
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin:0;padding:24px;background:#f9fafb;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;">
+  <div style="max-width:640px;margin:0 auto;background:#ffffff;border:1px solid #e5e7eb;border-radius:8px;padding:24px;">
+    <h1 style="font-size:20px;color:#111827;margin:0;">${escapeHtml(subject)}</h1>
+    <p style="font-size:13px;color:#6b7280;margin:4px 0 0;">${escapeHtml(period)} (${escapeHtml(digest.timezone)})</p>
+    ${empty}${sections}
+  </div>
+</body>
+</html>
+`;
+}
+
+export function renderDigestSlack(digest: Digest): { text: string; blocks: unknown[] } {
+  const subject = digestSubject(digest);
+  const blocks: unknown[] = [
+    { type: 'header', text: { type: 'plain_text', text: subject.slice(0, 150) } },
+    {
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: `${formatTimestamp(digest.periodStart, digest.timezone)} – ${formatTimestamp(digest.periodEnd, digest.timezone)}`,
+        },
+      ],
+    },
+  ];
+
+  for (const [type, items] of groupByType(digest.items)) {
+    // Slack caps a message at 50 blocks; keep each type to one section
+    const lines = items
+      .slice(0, 10)
+      .map((item) => `• *${item.title}* _(${item.priority})_`)
+      .join('\n');
+    const more = items.length > 10 ? `\n…and ${items.length - 10} more` : '';
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text: `*${humanizeType(type)}* (${items.length})\n${lines}${more}`.slice(0, 3000) },
+    });
+  }
+
+  return { text: subject, blocks: blocks.slice(0, 50) };
+}
+
+const SAMPLE_DIGEST: Digest = {
+  ruleName: 'Low priority daily',
+  reason: 'digest',
+  periodStart: '2025-11-12T12:00:00Z',
+  periodEnd: '2025-11-13T12:00:00Z',
+  timezone: 'America/Cayman',
+  items: [
+    {
+      id: 'sample-1',
+      notification_type: 'watchlist_hit',
+      title: 'Watchlist: Blue Heron Holdings',
+      message: 'Company name matches "Blue Heron Holdings Limited"\nBLUE HERON HOLDINGS LTD',
+      priority: 'medium',
+      sent_at: '2025-11-12T15:04:00Z',
+    },
+    {
+      id: 'sample-2',
+      notification_type: 'watchlist_hit',
+      title: 'Watchlist: Maples Corporate Services',
+      message: 'Registered office provider "Maples Corporate Services Limited" is mentioned\nCORAL REEF SPC',
+      priority: 'low',
+      sent_at: '2025-11-12T18:30:00Z',
+    },
+    {
+      id: 'sample-3',
+      notification_type: 'registry_new_cases',
+      title: 'Registry scrape finished',
+      message: '3 new petitions found',
+      priority: 'low',
+      sent_at: '2025-11-13T07:00:00Z',
+    },
+  ],
+};
+
+if (import.meta.main) {
+  const path = Deno.args[0];
+  const digest: Digest = path ? JSON.parse(await Deno.readTextFile(path)) : SAMPLE_DIGEST;
+  console.log(renderDigestHtml(digest));
+}
@@ -0,0 +1,236 @@
+// Article embeddings for story clustering
+//
+// Syndicated copies of one story (the same wire piece on twenty sites) are
+// grouped by comparing embeddings of their headline and opening text. Vectors
+// come from OpenAI when monitor_settings.enable_embeddings is on and a key is
+// configured, and otherwise from a local feature-hashing model, so clustering
+// works without an API key. Each article records the model that embedded it and
+// vectors from different models are never compared. OpenAI calls are checked
+// against the LLM budgets and written to llm_usage like completions.
+
+import type { BudgetGuard } from './llm/budget.ts';
+import { estimateCost } from './llm/pricing.ts';
+import { errorFromResponse } from './llm/providers/http.ts';
+import { LLMError, type LLMResponse } from './llm/types.ts';
+
+/** Width of articles.embedding */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+export const LOCAL_EMBEDDING_MODEL = 'local-hashing-v1';
+
+// Headline plus the opening of the article: enough to tell copies of a story
+// apart from other stories about the same company
+const EMBEDDING_TEXT_CHARS = 1000;
+
+const OPENAI_EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings';
+const OPENAI_MAX_BATCH = 256;
+
+export type EmbeddingProviderName = 'openai' | 'local';
+
+/**
+ * Similarity at or above which two articles are the same story. OpenAI vectors
+ * of different stories on one topic still score around 0.6-0.8, while hashed
+ * vectors only overlap on shared words, so a reprint under a new headline
+ * scores lower there and each model needs its own cut-off.
+ */
+export const DEFAULT_STORY_THRESHOLDS: Record<EmbeddingProviderName, number> = {
+  openai: 0.9,
+  local: 0.6,
+};
+
+export interface EmbeddingResult {
+  vectors: number[][];
+  // Billed tokens; 0 for the local model
+  tokens: number;
+}
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  // Stored in articles.embedding_model
+  model: string;
+  embed(texts: string[]): Promise<EmbeddingResult>;
+}
+
+export interface EmbeddingHooks {
+  // Checked before every request; throws LLMBudgetExceededError once spent
+  budget?: BudgetGuard;
+  // Called after every request, e.g. to write the llm_usage ledger
+  onUsage?: (response: Pick<LLMResponse, 'provider' | 'model' | 'usage'>) => Promise<void>;
+}
+
+export interface StoryCandidate {
+  article_id: string;
+  story_id: string;
+  similarity: number;
+}
+
+/**
+ * Text embedded for an article: the title and the start of the body (or the excerpt)
+ */
+export function embeddingText(article: { title: string | null; excerpt: string | null; body: string | null }): string {
+  const lead = (article.body || article.excerpt || '').replace(/\s+/g, ' ').trim();
+  return [article.title?.trim(), lead].filter(Boolean).join('\n\n').slice(0, EMBEDDING_TEXT_CHARS);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Vector lengths differ (${a.length} and ${b.length})`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * The story of the most similar candidate, if it clears the threshold
+ */
+export function bestStoryMatch(candidates: StoryCandidate[], threshold: number): StoryCandidate | null {
+  let best: StoryCandidate | null = null;
+  for (const candidate of candidates) {
+    if (candidate.similarity < threshold) continue;
+    if (!best || candidate.similarity > best.similarity) best = candidate;
+  }
+  return best;
+}
+
+// ============================================================================
+// Local model: signed feature hashing of words and word pairs
+// ============================================================================
+
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by',
+  'can', 'could', 'did', 'do', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'his', 'i', 'if', 'in',
+  'into', 'is', 'it', 'its', 'last', 'more', 'new', 'no', 'not', 'of', 'on', 'one', 'or', 'our', 'over',
+  'said', 'says', 'she', 'so', 'than', 'that', 'the', 'their', 'them', 'there', 'they', 'this', 'to', 'two',
+  'up', 'was', 'we', 'were', 'which', 'while', 'who', 'will', 'with', 'would', 'year', 'you',
+]);
+
+// FNV-1a
+function hash32(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function terms(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    // Plural and possessive forms count as one term
+    .map((word) => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+/**
+ * Unit vector of the text's words and adjacent word pairs, hashed into
+ * EMBEDDING_DIMENSIONS buckets with a hash-derived sign so collisions cancel
+ * out rather than add up. Counts are damped (1 + ln tf) so a repeated company
+ * name does not outweigh the rest of the story.
+ */
+export function hashedEmbedding(text: string, dimensions = EMBEDDING_DIMENSIONS): number[] {
+  const words = terms(text);
+  const counts = new Map<string, number>();
+  for (let i = 0; i < words.length; i++) {
+    counts.set(words[i], (counts.get(words[i]) ?? 0) + 1);
+    if (i > 0) {
+      const pair = `${words[i - 1]} ${words[i]}`;
+      counts.set(pair, (counts.get(pair) ?? 0) + 1);
+    }
+  }
+
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const [term, count] of counts) {
+    const hash = hash32(term);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % dimensions] += sign * (1 + Math.log(count));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+export function createLocalEmbeddingProvider(): EmbeddingProvider {
+  return {
+    name: 'local',
+    model: LOCAL_EMBEDDING_MODEL,
+    embed(texts) {
+      return Promise.resolve({ vectors: texts.map((text) => hashedEmbedding(text)), tokens: 0 });
+    },
+  };
+}
+
+// ============================================================================
+// OpenAI
+// ============================================================================
+
+export function createOpenAIEmbeddingProvider(
+  apiKey: string,
+  model = OPENAI_EMBEDDING_MODEL,
+  fetchFn: typeof fetch = fetch,
+  hooks: EmbeddingHooks = {}
+): EmbeddingProvider {
+  return {
+    name: 'openai',
+    model,
+    async embed(texts) {
+      const vectors: number[][] = [];
+      let tokens = 0;
+
+      for (let start = 0; start < texts.length; start += OPENAI_MAX_BATCH) {
+        const batch = texts.slice(start, start + OPENAI_MAX_BATCH).map((text) => text || ' ');
+        hooks.budget?.assertAvailable();
+
+        let response: Response;
+        try {
+          response = await fetchFn(OPENAI_EMBEDDINGS_URL, {
+            method: 'POST',
+            headers: {
+              'Authorization': `Bearer ${apiKey}`,
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ model, input: batch, dimensions: EMBEDDING_DIMENSIONS }),
+          });
+        } catch (error) {
+          throw new LLMError(`OpenAI request failed: ${error instanceof Error ? error.message : String(error)}`, 'openai', null, true);
+        }
+
+        if (!response.ok) {
+          throw await errorFromResponse('openai', 'OpenAI embeddings error', response);
+        }
+
+        const data = await response.json();
+        const items: Array<{ index: number; embedding: number[] }> = Array.isArray(data.data) ? data.data : [];
+        if (items.length !== batch.length) {
+          throw new LLMError(`OpenAI returned ${items.length} embeddings for ${batch.length} inputs`, 'openai');
+        }
+
+        // Results carry their input index; do not rely on response order
+        for (const item of [...items].sort((a, b) => a.index - b.index)) {
+          vectors.push(item.embedding);
+        }
+
+        const batchTokens = data.usage?.total_tokens || 0;
+        const cost = estimateCost('openai', model, batchTokens, 0);
+        tokens += batchTokens;
+        hooks.budget?.add(cost);
+        await hooks.onUsage?.({
+          provider: 'openai',
+          model,
+          usage: { input_tokens: batchTokens, output_tokens: 0, total_tokens: batchTokens, cost },
+        });
+      }
+
+      return { vectors, tokens };
+    },
+  };
+}
@@ -0,0 +1,252 @@
+// Cross-source entity resolution for Cayman companies
+//
+// Registry cases, gazette notices and news articles all refer to the same
+// companies with slightly different spellings. These helpers reduce names and
+// registration numbers to comparable keys so records can be linked together.
+
+import { calculateTitleSimilarity } from './monitor-utils.ts';
+
+export type CompanySourceType =
+  | 'registry_row'
+  | 'case'
+  | 'gazette_notice'
+  | 'article';
+
+export type CompanyMatchMethod = 'registration_no' | 'normalized_name' | 'alias';
+
+export interface CompanyRecord {
+  id: string;
+  canonical_name: string;
+  normalized_name: string;
+  registration_no: string | null;
+  aliases: string[];
+}
+
+export interface CompanyCandidate {
+  name: string;
+  registrationNo: string | null;
+}
+
+export interface CompanyMatch {
+  company: CompanyRecord;
+  method: CompanyMatchMethod;
+  confidence: number;
+}
+
+export type CompanyTimelineEventKind =
+  | 'petition'
+  | 'case_analysis'
+  | 'liquidation_notice'
+  | 'final_meeting'
+  | 'adverse_news';
+
+export interface CompanyTimelineEvent {
+  id: string;
+  kind: CompanyTimelineEventKind;
+  date: string;
+  title: string;
+  description: string | null;
+  source_type: CompanySourceType;
+  source_id: string;
+  url: string | null;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Registration number prefixes used by the Cayman General Registry
+ * CR = ordinary company, IC = exempted company, MC = foreign company
+ */
+const REGISTRATION_PREFIXES = ['CR', 'IC', 'MC'];
+
+const REGISTRATION_REGEX = new RegExp(
+  `\\b(${REGISTRATION_PREFIXES.join('|')})\\s*[-–‑]?\\s*(\\d{3,7})\\b`,
+  'gi'
+);
+
+/**
+ * Legal suffixes collapsed to a single token so "Limited" and "Ltd." compare equal
+ */
+const SUFFIX_ALIASES: Array<[RegExp, string]> = [
+  [/\blimited partnership\b/g, 'lp'],
+  [/\bsegregated portfolio company\b/g, 'spc'],
+  [/\blimited\b/g, 'ltd'],
+  [/\bincorporated\b/g, 'inc'],
+  [/\bcorporation\b/g, 'corp'],
+  [/\bcompany\b/g, 'co'],
+  [/\bl\s?p\b/g, 'lp'],
+  [/\bholdings?\b/g, 'holdings'],
+];
+
+/**
+ * Status qualifiers that gazettes and court titles append to company names
+ */
+const STATUS_QUALIFIERS = [
+  /\(?\s*in\s+(?:voluntary\s+|official\s+|provisional\s+)?liquidation\s*\)?/gi,
+  /\(?\s*in\s+receivership\s*\)?/gi,
+  /\(?\s*under\s+administration\s*\)?/gi,
+  /\(?\s*formerly\s+known\s+as[^)]*\)?/gi,
+  /\(?\s*the\s+["“]?company["”]?\s*\)?/gi,
+];
+
+/**
+ * Normalize a Cayman registration number to PREFIX-NUMBER form (e.g. "IC-323061")
+ * Returns null when no recognised prefix is present
+ */
+export function normalizeRegistrationNo(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  REGISTRATION_REGEX.lastIndex = 0;
+  const match = REGISTRATION_REGEX.exec(raw);
+  REGISTRATION_REGEX.lastIndex = 0;
+  if (!match) return null;
+  return `${match[1].toUpperCase()}-${match[2]}`;
+}
+
+/**
+ * Find every registration number mentioned in a block of text
+ */
+export function extractRegistrationNumbers(text: string | null | undefined): string[] {
+  if (!text) return [];
+  const found = new Set<string>();
+  for (const match of text.matchAll(REGISTRATION_REGEX)) {
+    found.add(`${match[1].toUpperCase()}-${match[2]}`);
+  }
+  return Array.from(found);
+}
+
+/**
+ * Reduce a company name to a comparison key
+ * Strips status qualifiers, punctuation and leading articles, and collapses legal suffixes
+ */
+export function normalizeCompanyName(name: string | null | undefined): string {
+  if (!name) return '';
+
+  let value = name;
+  for (const qualifier of STATUS_QUALIFIERS) {
+    value = value.replace(qualifier, ' ');
+  }
+
+  value = value
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[.,'"“”‘’()[\]]/g, ' ')
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .replace(/-/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  for (const [pattern, replacement] of SUFFIX_ALIASES) {
+    value = value.replace(pattern, replacement);
+  }
+
+  return value.replace(/^the\s+/, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Similarity (0-1) of two company names after normalization
+ * Uses edit distance, so it tolerates typos and OCR noise but not reordered words
+ */
+export function companyNameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const nameA = normalizeCompanyName(a);
+  const nameB = normalizeCompanyName(b);
+  if (!nameA || !nameB) return 0;
+  return calculateTitleSimilarity(nameA, nameB);
+}
+
+/**
+ * Pull company names out of a court cause title
+ * e.g. "IN THE MATTER OF ABC FUND LTD (IN OFFICIAL LIQUIDATION)" -> ["ABC FUND LTD"]
+ */
+export function extractCompanyNamesFromTitle(title: string | null | undefined): string[] {
+  if (!title) return [];
+
+  const cleaned = title
+    .replace(/\b(?:AND )?IN THE MATTER OF\b/gi, '|')
+    .replace(/\s(?:v\.?|vs\.?|versus)\s/gi, '|')
+    .replace(/^\s*Re:?\s+/i, '');
+
+  const names = cleaned
+    .split(/[|;]/)
+    .map((part) => part.trim())
+    .filter((part) => !/^(?:THE\s+)?(?:COMPANIES|EXEMPTED LIMITED PARTNERSHIP|BANKRUPTCY)\s+(?:ACT|LAW)\b/i.test(part))
+    .map((part) => part.replace(/\([^)]*\)/g, ' ').replace(/\s+/g, ' ').trim())
+    .map((part) => {
+      const match = part.match(
+        /^(.+\b(?:LIMITED|LTD\.?|INC\.?|CORP(?:ORATION)?|L\.?P\.?|SPC|COMPANY|FUND|PARTNERSHIP))\b/i
+      );
+      return match ? match[1].trim() : '';
+    })
+    .filter((part) => part.length > 3);
+
+  return Array.from(new Set(names));
+}
+
+/**
+ * In-memory lookup over the companies table used during a resolution run
+ */
+export class CompanyIndex {
+  private byRegistration = new Map<string, CompanyRecord>();
+  private byName = new Map<string, CompanyRecord>();
+  private byAlias = new Map<string, CompanyRecord>();
+
+  constructor(companies: CompanyRecord[] = []) {
+    companies.forEach((company) => this.add(company));
+  }
+
+  add(company: CompanyRecord): void {
+    if (company.registration_no) {
+      this.byRegistration.set(company.registration_no, company);
+    }
+    if (company.normalized_name && !this.byName.has(company.normalized_name)) {
+      this.byName.set(company.normalized_name, company);
+    }
+    for (const alias of company.aliases || []) {
+      const key = normalizeCompanyName(alias);
+      if (key && !this.byAlias.has(key)) {
+        this.byAlias.set(key, company);
+      }
+    }
+  }
+
+  /**
+   * Match a candidate, preferring registration number over name
+   */
+  match(candidate: CompanyCandidate): CompanyMatch | null {
+    const registrationNo = normalizeRegistrationNo(candidate.registrationNo);
+    if (registrationNo) {
+      const company = this.byRegistration.get(registrationNo);
+      if (company) {
+        return { company, method: 'registration_no', confidence: 1.0 };
+      }
+    }
+
+    const key = normalizeCompanyName(candidate.name);
+    if (!key) return null;
+
+    const byName = this.byName.get(key);
+    if (byName) {
+      // A conflicting registration number means two different companies share a name
+      if (registrationNo && byName.registration_no && byName.registration_no !== registrationNo) {
+        return null;
+      }
+      return { company: byName, method: 'normalized_name', confidence: 0.9 };
+    }
+
+    const byAlias = this.byAlias.get(key);
+    if (byAlias) {
+      return { company: byAlias, method: 'alias', confidence: 0.8 };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Sort timeline events chronologically, oldest first
+ */
+export function sortTimeline(events: CompanyTimelineEvent[]): CompanyTimelineEvent[] {
+  return [...events].sort((a, b) => {
+    const diff = new Date(a.date).getTime() - new Date(b.date).getTime();
+    if (diff !== 0) return diff;
+    return a.kind.localeCompare(b.kind);
+  });
+}
@@ -260,27 +260,50 @@ export function calculateExtractionQuality(extractedFields: string[], totalField
 }
 
 export function shouldTriggerOCR(text: string, wordCountThreshold: number = 50): boolean {
-  const words = text.split(/\s+/).filter(w => w.length > 0);
-  return words.length < wordCountThreshold;
+  return countWords(text) < wordCountThreshold;
 }
 
-export function identifyRelevantPages(text: string): number[] {
-  const pages = text.split(/\n--- PAGE \d+ ---\n/i);
-  const relevantPages: number[] = [];
+export interface PdfTextPage {
+  page: number;
+  text: string;
+}
+
+/**
+ * Pages of text in the "--- PAGE n ---" format extract-pdf-text writes to pdf_text
+ */
+export function splitPdfTextPages(text: string): PdfTextPage[] {
+  const pages: PdfTextPage[] = [];
+  const markers = [...text.matchAll(/--- PAGE (\d+) ---\n?/gi)];
+
+  markers.forEach((marker, i) => {
+    const start = marker.index! + marker[0].length;
+    const end = i + 1 < markers.length ? markers[i + 1].index! : text.length;
+    pages.push({ page: Number(marker[1]), text: text.slice(start, end).trim() });
+  });
+
+  // Text without markers is a single page
+  if (pages.length === 0 && text.trim()) pages.push({ page: 1, text: text.trim() });
+  return pages;
+}
+
+export function joinPdfTextPages(pages: PdfTextPage[]): string {
+  return pages.map(({ page, text }) => `\n--- PAGE ${page} ---\n${text}`).join('\n\n');
+}
 
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(w => w.length > 0).length;
+}
+
+export function identifyRelevantPages(text: string): number[] {
   const relevantKeywords = [
     'petition', 'winding up', 'liquidator', 'debt', 'creditor',
     'order', 'respondent', 'petitioner', 'registered office'
   ];
 
-  pages.forEach((page, index) => {
-    const pageLower = page.toLowerCase();
-    const keywordMatches = relevantKeywords.filter(kw => pageLower.includes(kw)).length;
-
-    if (keywordMatches >= 2) {
-      relevantPages.push(index + 1);
-    }
-  });
-
-  return relevantPages;
+  return splitPdfTextPages(text)
+    .filter(({ text: pageText }) => {
+      const pageLower = pageText.toLowerCase();
+      return relevantKeywords.filter(kw => pageLower.includes(kw)).length >= 2;
+    })
+    .map(({ page }) => page);
 }
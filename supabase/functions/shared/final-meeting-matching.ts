@@ -0,0 +1,184 @@
+// Final meeting matching
+//
+// Final meeting notices are often published in a later gazette than the
+// liquidation notice they close out, and are stored as separate "Unknown"
+// notices. reconcile-final-meetings matches each one to the earlier liquidation
+// notices for the same company: by registration number, else by name. Close
+// names and ties go to review_queue as `final_meeting_match` items, where the
+// reviewer picks the right candidate (review-queue `decide` with
+// linked_notice_ids).
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import {
+  companyNameSimilarity,
+  normalizeCompanyName,
+  normalizeRegistrationNo,
+} from './entity-resolution.ts';
+
+export interface FinalMeetingNotice {
+  id: string;
+  company_name: string;
+  registration_no: string | null;
+  liquidation_type: string;
+  final_meeting_date: string | null;
+  final_meeting_notice_id: string | null;
+  final_meeting_match_status: string | null;
+  created_at: string;
+  analyzed_gazette_pdfs: { issue_number: string | null; issue_date: string | null } | null;
+}
+
+export type FinalMeetingMatchMethod = 'registration_no' | 'normalized_name' | 'fuzzy_name' | 'manual';
+
+export interface CandidateGroup {
+  normalizedName: string;
+  score: number;
+  notices: FinalMeetingNotice[];
+}
+
+export type FinalMeetingMatch =
+  | { status: 'matched'; method: FinalMeetingMatchMethod; confidence: number; notices: FinalMeetingNotice[] }
+  | { status: 'ambiguous'; groups: CandidateGroup[] }
+  | { status: 'unmatched' };
+
+/** A liquidation notice offered to the reviewer, stored in the review item's notes */
+export interface FinalMeetingCandidate {
+  id: string;
+  company_name: string;
+  registration_no: string | null;
+  gazette: string | null;
+  similarity: number;
+}
+
+export interface FinalMeetingReviewNotes {
+  candidate_ids: string[];
+  candidates: FinalMeetingCandidate[];
+}
+
+// Names at or above this similarity are linked automatically...
+export const AUTO_MATCH_SIMILARITY = 0.92;
+// ...and anything between this and the auto-match threshold goes to review_queue
+export const REVIEW_SIMILARITY = 0.8;
+
+// Company groups offered to the reviewer
+const MAX_CANDIDATE_GROUPS = 5;
+
+function publishedOn(notice: FinalMeetingNotice): string {
+  return notice.analyzed_gazette_pdfs?.issue_date || notice.created_at.slice(0, 10);
+}
+
+/**
+ * Match a final meeting notice against liquidation notices published on or before it
+ */
+export function matchFinalMeeting(meeting: FinalMeetingNotice, liquidations: FinalMeetingNotice[]): FinalMeetingMatch {
+  const meetingDate = publishedOn(meeting);
+  const meetingReg = normalizeRegistrationNo(meeting.registration_no);
+
+  const earlier = liquidations.filter(
+    (notice) => notice.id !== meeting.id && publishedOn(notice) <= meetingDate
+  );
+
+  if (meetingReg) {
+    const byRegistration = earlier.filter(
+      (notice) => normalizeRegistrationNo(notice.registration_no) === meetingReg
+    );
+    if (byRegistration.length > 0) {
+      return { status: 'matched', method: 'registration_no', confidence: 1, notices: byRegistration };
+    }
+  }
+
+  // Group name candidates by normalized name so repeat notices for one company count once
+  const groups = new Map<string, CandidateGroup>();
+  for (const notice of earlier) {
+    const noticeReg = normalizeRegistrationNo(notice.registration_no);
+    if (meetingReg && noticeReg && noticeReg !== meetingReg) continue;
+
+    const score = companyNameSimilarity(meeting.company_name, notice.company_name);
+    if (score < REVIEW_SIMILARITY) continue;
+
+    const key = normalizeCompanyName(notice.company_name);
+    const group = groups.get(key) || { normalizedName: key, score, notices: [] };
+    group.notices.push(notice);
+    groups.set(key, group);
+  }
+
+  const ranked = Array.from(groups.values()).sort((a, b) => b.score - a.score);
+  if (ranked.length === 0) {
+    return { status: 'unmatched' };
+  }
+
+  const [best, runnerUp] = ranked;
+  if (best.score >= AUTO_MATCH_SIMILARITY && !runnerUp) {
+    return {
+      status: 'matched',
+      method: best.score === 1 ? 'normalized_name' : 'fuzzy_name',
+      confidence: Math.round(best.score * 100) / 100,
+      notices: best.notices,
+    };
+  }
+
+  return { status: 'ambiguous', groups: ranked.slice(0, MAX_CANDIDATE_GROUPS) };
+}
+
+/**
+ * Review item notes for an ambiguous match: every candidate notice, best first
+ */
+export function finalMeetingReviewNotes(groups: CandidateGroup[]): FinalMeetingReviewNotes {
+  const candidates = groups.flatMap((group) =>
+    group.notices.map((notice) => ({
+      id: notice.id,
+      company_name: notice.company_name,
+      registration_no: notice.registration_no,
+      gazette: notice.analyzed_gazette_pdfs?.issue_number ?? null,
+      similarity: Math.round(group.score * 100) / 100,
+    }))
+  );
+  return { candidate_ids: candidates.map((candidate) => candidate.id), candidates };
+}
+
+/**
+ * Candidate ids stored on a final_meeting_match review item
+ */
+export function readCandidateIds(notes: string | null): string[] {
+  try {
+    const parsed = JSON.parse(notes || '{}');
+    if (Array.isArray(parsed.candidate_ids)) return parsed.candidate_ids.map(String);
+    // Items queued before candidate_ids was stored
+    return Array.isArray(parsed.candidates) ? parsed.candidates.map((candidate: { id: unknown }) => String(candidate.id)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Link a final meeting to the liquidation notices it closes and record how it was matched
+ */
+export async function linkFinalMeeting(
+  supabase: SupabaseClient,
+  meeting: { id: string; final_meeting_date: string | null },
+  noticeIds: string[],
+  match: { method: FinalMeetingMatchMethod; confidence: number; reconciledAt: string }
+): Promise<void> {
+  const { error: linkError } = await supabase
+    .from('gazette_liquidation_notices')
+    .update({ final_meeting_date: meeting.final_meeting_date, final_meeting_notice_id: meeting.id })
+    .in('id', noticeIds);
+
+  if (linkError) {
+    throw new Error(`Failed to link final meeting ${meeting.id}: ${linkError.message}`);
+  }
+
+  const { error: meetingError } = await supabase
+    .from('gazette_liquidation_notices')
+    .update({
+      linked_notice_ids: noticeIds,
+      final_meeting_match_status: 'matched',
+      final_meeting_match_method: match.method,
+      final_meeting_match_confidence: match.confidence,
+      final_meeting_reconciled_at: match.reconciledAt,
+    })
+    .eq('id', meeting.id);
+
+  if (meetingError) {
+    throw new Error(`Failed to record final meeting match ${meeting.id}: ${meetingError.message}`);
+  }
+}
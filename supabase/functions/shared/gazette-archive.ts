@@ -0,0 +1,231 @@
+// gov.ky gazette archive crawling
+//
+// The regular and extraordinary gazette listings on gov.ky are paginated,
+// newest first. These helpers read a listing page into PDF entries, follow the
+// "next" links back through the archive for a date range and download PDFs.
+// The base URL is configurable (GAZETTE_BASE_URL) so tests can point the
+// crawler at a local fixture server instead of gov.ky.
+
+import { isPdf } from './pdf-storage.ts';
+import { findDates } from './text-dates.ts';
+
+export type GazetteKind = 'regular' | 'extraordinary';
+
+export const DEFAULT_GAZETTE_BASE_URL = 'https://www.gov.ky';
+
+export const GAZETTE_ARCHIVE_PATHS: Record<GazetteKind, string> = {
+  regular: '/government-gazettes/',
+  extraordinary: '/extraordinary-gazettes/',
+};
+
+export interface GazetteArchiveEntry {
+  kind: GazetteKind;
+  pdf_url: string;
+  title: string;
+  issue_number: string | null;
+  issue_date: string | null;
+}
+
+export interface GazetteListingPage {
+  entries: GazetteArchiveEntry[];
+  next_page_url: string | null;
+}
+
+export interface CrawlOptions {
+  kind: GazetteKind;
+  from?: string | null;
+  to?: string | null;
+  baseUrl?: string;
+  fetchFn?: typeof fetch;
+  maxPages?: number;
+  /** Pause between listing pages so a long backfill does not hammer gov.ky */
+  pageDelayMs?: number;
+}
+
+export interface CrawlResult {
+  entries: GazetteArchiveEntry[];
+  pages_crawled: number;
+  undated_skipped: number;
+}
+
+const ANCHOR_REGEX = /<a\b([^>]*)>([\s\S]*?)<\/a>/gi;
+const LINK_TAG_REGEX = /<link\b([^>]*)>/gi;
+const NEXT_LINK_TEXT = /^(?:next(?:\s+page)?|older(?:\s+entries)?|›|»|next\s*[›»])$/i;
+
+function attribute(attrs: string, name: string): string | null {
+  const match = attrs.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? (match[1] ?? match[2]) : null;
+}
+
+function linkText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#8211;|&ndash;/g, '–')
+    .replace(/&raquo;/g, '»')
+    .replace(/&rsaquo;/g, '›')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function resolveUrl(href: string, pageUrl: string): string | null {
+  try {
+    return new URL(href.replace(/&amp;/g, '&'), pageUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Issue number from a link title or file name, e.g. "Gazette No. 5 of 2025" or "Ex63-2024.pdf"
+ */
+export function extractIssueNumber(text: string): string | null {
+  const extraordinary = text.match(/\bEx(?:traordinary)?[\s._-]*(?:Gazette[\s._-]*)?(?:No\.?|Number)?[\s._-]*(\d{1,3})[\s._/-]+(?:of[\s._-]+)?(\d{4})\b/i);
+  if (extraordinary) return `Ex${extraordinary[1]}/${extraordinary[2]}`;
+
+  const compact = text.match(/\bGa[\s._-]*(\d{1,3})[\s._/-]+(\d{4})\b/i);
+  if (compact) return `Ga${compact[1].padStart(2, '0')}/${compact[2]}`;
+
+  const regular = text.match(/\b(?:Ga|Gazette)?[\s._-]*(?:No\.?|Number|Issue)[\s._-]*(\d{1,3})(?:[\s._/-]+(?:of[\s._-]+)?(\d{4}))?\b/i);
+  if (!regular) return null;
+  return regular[2] ? `Ga${regular[1].padStart(2, '0')}/${regular[2]}` : regular[1];
+}
+
+/**
+ * Publication date from a file name (2025-03-12, 2025_03_12) or a written-out date in the title
+ */
+export function extractIssueDate(text: string): string | null {
+  const numeric = text.match(/(\d{4})[-_](\d{2})[-_](\d{2})/);
+  if (numeric) return `${numeric[1]}-${numeric[2]}-${numeric[3]}`;
+  return findDates(text)[0]?.iso ?? null;
+}
+
+/**
+ * Read one listing page into gazette PDF entries and the link to the next (older) page
+ */
+export function parseGazetteListing(html: string, pageUrl: string, kind: GazetteKind): GazetteListingPage {
+  const entries: GazetteArchiveEntry[] = [];
+  const seen = new Set<string>();
+  let nextPageUrl: string | null = null;
+
+  for (const match of html.matchAll(ANCHOR_REGEX)) {
+    const attrs = match[1];
+    const href = attribute(attrs, 'href');
+    if (!href) continue;
+
+    const text = linkText(match[2]);
+    const url = resolveUrl(href, pageUrl);
+    if (!url) continue;
+
+    if (/\.pdf(?:[?#]|$)/i.test(url)) {
+      const fileName = decodeURIComponent(url.split('/').pop() || '');
+      if (!/gazette/i.test(`${url} ${text}`) || seen.has(url)) continue;
+      seen.add(url);
+
+      const title = text || fileName;
+      entries.push({
+        kind,
+        pdf_url: url,
+        title,
+        issue_number: extractIssueNumber(title) ?? extractIssueNumber(fileName),
+        issue_date: extractIssueDate(fileName) ?? extractIssueDate(title),
+      });
+      continue;
+    }
+
+    // rel="next", WordPress's class="next page-numbers", or just the link text
+    const relAndClass = `${attribute(attrs, 'rel') || ''} ${attribute(attrs, 'class') || ''}`;
+    if (!nextPageUrl && (/\bnext\b/i.test(relAndClass) || NEXT_LINK_TEXT.test(text))) {
+      nextPageUrl = url;
+    }
+  }
+
+  if (!nextPageUrl) {
+    for (const match of html.matchAll(LINK_TAG_REGEX)) {
+      const href = attribute(match[1], 'href');
+      if (href && /\bnext\b/i.test(attribute(match[1], 'rel') || '')) {
+        nextPageUrl = resolveUrl(href, pageUrl);
+        break;
+      }
+    }
+  }
+
+  return { entries, next_page_url: nextPageUrl };
+}
+
+function inRange(date: string, from: string | null | undefined, to: string | null | undefined): boolean {
+  return (!from || date >= from) && (!to || date <= to);
+}
+
+/**
+ * Walk the archive listing for one kind of gazette, newest first, collecting
+ * PDFs published between from and to (inclusive). Stops once a whole page is
+ * older than from, when there is no next page, or after maxPages.
+ */
+export async function crawlGazetteArchive(options: CrawlOptions): Promise<CrawlResult> {
+  const fetchFn = options.fetchFn ?? fetch;
+  const baseUrl = (options.baseUrl || DEFAULT_GAZETTE_BASE_URL).replace(/\/+$/, '');
+  const maxPages = options.maxPages ?? 200;
+  const hasRange = Boolean(options.from || options.to);
+
+  const entries: GazetteArchiveEntry[] = [];
+  const seenPdfs = new Set<string>();
+  const visited = new Set<string>();
+  let undatedSkipped = 0;
+  let pageUrl: string | null = `${baseUrl}${GAZETTE_ARCHIVE_PATHS[options.kind]}`;
+
+  while (pageUrl && !visited.has(pageUrl) && visited.size < maxPages) {
+    if (visited.size > 0 && options.pageDelayMs) {
+      await new Promise((resolve) => setTimeout(resolve, options.pageDelayMs));
+    }
+    visited.add(pageUrl);
+
+    const response = await fetchFn(pageUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch gazette listing ${pageUrl}: ${response.status}`);
+    }
+
+    const page = parseGazetteListing(await response.text(), pageUrl, options.kind);
+
+    for (const entry of page.entries) {
+      if (seenPdfs.has(entry.pdf_url)) continue;
+      seenPdfs.add(entry.pdf_url);
+
+      if (!entry.issue_date) {
+        // Without a date there is no telling whether it belongs to the range
+        if (hasRange) {
+          undatedSkipped++;
+          continue;
+        }
+      } else if (!inRange(entry.issue_date, options.from, options.to)) {
+        continue;
+      }
+      entries.push(entry);
+    }
+
+    const dated = page.entries.filter((entry) => entry.issue_date);
+    const pageIsOlder = options.from && dated.length > 0 && dated.every((entry) => entry.issue_date! < options.from!);
+    if (pageIsOlder) break;
+
+    pageUrl = page.next_page_url;
+  }
+
+  return { entries, pages_crawled: visited.size, undated_skipped: undatedSkipped };
+}
+
+/**
+ * Download a gazette PDF, rejecting HTML error pages served with a 200
+ */
+export async function downloadGazettePdf(url: string, fetchFn: typeof fetch = fetch): Promise<Uint8Array> {
+  const response = await fetchFn(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: ${response.status}`);
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (!isPdf(bytes)) {
+    throw new Error(`Not a PDF: ${url}`);
+  }
+  return bytes;
+}
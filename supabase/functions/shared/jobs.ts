@@ -0,0 +1,313 @@
+// Job orchestration
+//
+// Pipeline steps (scrape -> capture -> extract -> analyze, ingest -> fetch content
+// -> classify -> extract entities) run as rows in `jobs`, worked by process-jobs. Each job
+// kind maps to the edge function that does the work and a retry policy. A job
+// only runs once every job it depends on (job_dependencies) has succeeded, and
+// receives their results as input. Failures are retried with backoff; a job
+// that runs out of attempts, or fails in a way retrying cannot fix, is parked
+// as `dead` until someone requeues it from the Jobs page. Jobs waiting on a dead
+// job are `blocked` by it and go back to `pending` when it is requeued.
+//
+// idempotency_key is unique, so enqueueing the same work twice (a re-scrape
+// finding the same registry row, a cron firing twice) returns the existing job.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export const JOB_KINDS = [
+  'scrape_registry',
+  'capture_pdf',
+  'extract_pdf_text',
+  'analyze_case',
+  'scrape_gazette',
+  'parse_gazette',
+  'ingest_monitor',
+  'fetch_article_content',
+  'classify_articles',
+  'extract_entities',
+  'cluster_stories',
+] as const;
+
+export type JobKind = (typeof JOB_KINDS)[number];
+
+export type JobStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'dead' | 'blocked';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+}
+
+export interface JobSpec {
+  kind: JobKind;
+  payload?: Record<string, unknown>;
+  idempotency_key?: string;
+}
+
+export interface JobRow {
+  id: string;
+  kind: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  idempotency_key: string | null;
+  parent_job_id: string | null;
+  attempt_count: number;
+  max_attempts: number;
+}
+
+type JobResult = Record<string, unknown>;
+
+/** Results of a job's succeeded dependencies, by kind */
+export type DependencyResults = Partial<Record<JobKind, JobResult>>;
+
+interface JobKindDefinition {
+  /** Edge function that performs the job */
+  functionName: string;
+  retry: RetryPolicy;
+  /** Request body for the function */
+  input(payload: Record<string, unknown>, dependencies: DependencyResults): Record<string, unknown>;
+  /** Chains of jobs to queue once this one has succeeded */
+  followUps?(result: JobResult, supabase: SupabaseClient): Promise<JobSpec[][]>;
+}
+
+const DEFAULT_RETRY: RetryPolicy = { maxAttempts: 5, baseDelaySeconds: 60, maxDelaySeconds: 60 * 60 };
+// LLM calls fail on rate limits and overload, which clear up given time
+const LLM_RETRY: RetryPolicy = { maxAttempts: 4, baseDelaySeconds: 5 * 60, maxDelaySeconds: 6 * 60 * 60 };
+// Scrapers run on a schedule; the next run picks up anything a failed one missed
+const SCRAPE_RETRY: RetryPolicy = { maxAttempts: 3, baseDelaySeconds: 10 * 60, maxDelaySeconds: 60 * 60 };
+
+function caseId(payload: Record<string, unknown>, dependencies: DependencyResults): Record<string, unknown> {
+  return {
+    case_id: payload.case_id ?? dependencies.capture_pdf?.case_id ?? dependencies.extract_pdf_text?.case_id,
+  };
+}
+
+/**
+ * capture-pdf -> extract-pdf-text -> analyze-case for one registry row. The case id
+ * is only known once the PDF is captured, so later steps take it from their dependency.
+ */
+export function casePipeline(registryRowId: string, boxCdnUrl: string): JobSpec[] {
+  return [
+    {
+      kind: 'capture_pdf',
+      payload: { registry_row_id: registryRowId, box_cdn_url: boxCdnUrl },
+      idempotency_key: `capture_pdf:${registryRowId}`,
+    },
+    { kind: 'extract_pdf_text', idempotency_key: `extract_pdf_text:${registryRowId}` },
+    { kind: 'analyze_case', idempotency_key: `analyze_case:${registryRowId}` },
+  ];
+}
+
+export const JOB_DEFINITIONS: Record<JobKind, JobKindDefinition> = {
+  scrape_registry: {
+    functionName: 'scrape-registry',
+    retry: SCRAPE_RETRY,
+    input: (payload) => payload,
+    // Rows whose Box link has been filled in can go straight through capture and analysis
+    async followUps(_result, supabase) {
+      const { data, error } = await supabase
+        .from('registry_rows')
+        .select('id, box_cdn_url')
+        .eq('status', 'awaiting_pdf')
+        .not('box_cdn_url', 'is', null)
+        .limit(100);
+
+      if (error) throw new Error(`Failed to load registry rows awaiting PDFs: ${error.message}`);
+      return (data || []).map((row: { id: string; box_cdn_url: string }) => casePipeline(row.id, row.box_cdn_url));
+    },
+  },
+  capture_pdf: {
+    functionName: 'capture-pdf',
+    retry: DEFAULT_RETRY,
+    input: (payload) => ({ registry_row_id: payload.registry_row_id, box_cdn_url: payload.box_cdn_url }),
+  },
+  extract_pdf_text: {
+    functionName: 'extract-pdf-text',
+    retry: DEFAULT_RETRY,
+    input: caseId,
+  },
+  analyze_case: {
+    functionName: 'analyze-case',
+    retry: LLM_RETRY,
+    input: caseId,
+  },
+  scrape_gazette: {
+    functionName: 'scrape-gazette',
+    retry: SCRAPE_RETRY,
+    input: (payload) => ({ kind: payload.kind ?? 'regular' }),
+    followUps: (result) => {
+      const issues = Array.isArray(result.results) ? (result.results as { id?: string }[]) : [];
+      return Promise.resolve(
+        issues
+          .filter((issue) => issue.id)
+          .map((issue) => [
+            { kind: 'parse_gazette', payload: { issue_id: issue.id }, idempotency_key: `parse_gazette:${issue.id}` },
+          ])
+      );
+    },
+  },
+  parse_gazette: {
+    functionName: 'parse-gazette',
+    retry: DEFAULT_RETRY,
+    input: (payload) => ({ issue_id: payload.issue_id }),
+  },
+  ingest_monitor: {
+    functionName: 'monitor-run-ingestion',
+    retry: SCRAPE_RETRY,
+    input: (payload) => payload,
+  },
+  fetch_article_content: {
+    functionName: 'fetch_article_content',
+    retry: SCRAPE_RETRY,
+    input: (payload) => payload,
+  },
+  classify_articles: {
+    functionName: 'classify_articles',
+    retry: LLM_RETRY,
+    input: (payload) => payload,
+  },
+  extract_entities: {
+    functionName: 'extract_entities',
+    retry: DEFAULT_RETRY,
+    input: (payload) => payload,
+  },
+  cluster_stories: {
+    functionName: 'cluster_stories',
+    retry: DEFAULT_RETRY,
+    input: (payload) => payload,
+  },
+};
+
+/** Chains that can be started on demand (Jobs page) or from cron */
+export const JOB_PIPELINES: Record<string, () => JobSpec[]> = {
+  registry: () => [{ kind: 'scrape_registry' }],
+  gazette_regular: () => [{ kind: 'scrape_gazette', payload: { kind: 'regular' } }],
+  gazette_extraordinary: () => [{ kind: 'scrape_gazette', payload: { kind: 'extraordinary' } }],
+  monitor: () => [
+    { kind: 'ingest_monitor' },
+    { kind: 'fetch_article_content' },
+    { kind: 'classify_articles' },
+    { kind: 'extract_entities' },
+    { kind: 'cluster_stories' },
+  ],
+};
+
+export function isJobKind(kind: string): kind is JobKind {
+  return (JOB_KINDS as readonly string[]).includes(kind);
+}
+
+/**
+ * When to retry after `attempts` failed attempts, or null once the job should be dead-lettered
+ */
+export function nextJobAttemptAt(
+  attempts: number,
+  maxAttempts: number,
+  policy: RetryPolicy,
+  now: Date = new Date()
+): Date | null {
+  if (attempts >= maxAttempts) return null;
+  const delay = Math.min(policy.baseDelaySeconds * 2 ** Math.max(attempts - 1, 0), policy.maxDelaySeconds);
+  return new Date(now.getTime() + delay * 1000);
+}
+
+/**
+ * Timeouts, rate limits and server errors may succeed on retry; other client
+ * errors (a missing case, a malformed payload) will fail the same way every time
+ */
+export function isRetryableStatus(status: number | null): boolean {
+  if (status === null) return true;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Queue one job that runs after `dependsOn`. Returns the job id, which is the
+ * existing job's id if one with the same idempotency key is already queued.
+ */
+export async function enqueueJob(
+  supabase: SupabaseClient,
+  spec: JobSpec,
+  options: { dependsOn?: string[]; parentJobId?: string | null; triggeredBy?: string } = {}
+): Promise<string> {
+  const row = {
+    kind: spec.kind,
+    payload: spec.payload ?? {},
+    idempotency_key: spec.idempotency_key ?? null,
+    parent_job_id: options.parentJobId ?? null,
+    max_attempts: JOB_DEFINITIONS[spec.kind].retry.maxAttempts,
+    triggered_by: options.triggeredBy ?? 'system',
+  };
+
+  let jobId: string;
+  if (spec.idempotency_key) {
+    const { data, error } = await supabase
+      .from('jobs')
+      .upsert(row, { onConflict: 'idempotency_key', ignoreDuplicates: true })
+      .select('id');
+    if (error) throw new Error(`Failed to queue ${spec.kind} job: ${error.message}`);
+
+    if (data && data.length > 0) {
+      jobId = data[0].id;
+    } else {
+      const { data: existing, error: existingError } = await supabase
+        .from('jobs')
+        .select('id')
+        .eq('idempotency_key', spec.idempotency_key)
+        .single();
+      if (existingError) throw new Error(`Failed to load existing ${spec.kind} job: ${existingError.message}`);
+      return existing.id;
+    }
+  } else {
+    const { data, error } = await supabase.from('jobs').insert(row).select('id').single();
+    if (error) throw new Error(`Failed to queue ${spec.kind} job: ${error.message}`);
+    jobId = data.id;
+  }
+
+  if (options.dependsOn && options.dependsOn.length > 0) {
+    const { error } = await supabase
+      .from('job_dependencies')
+      .insert(options.dependsOn.map((dependsOnJobId) => ({ job_id: jobId, depends_on_job_id: dependsOnJobId })));
+    if (error) throw new Error(`Failed to record dependencies for ${spec.kind} job: ${error.message}`);
+
+    // Depending on a dead job (or one blocked by it) blocks this job until it is requeued
+    const { data: stuck, error: stuckError } = await supabase
+      .from('jobs')
+      .select('id, status, blocked_by_job_id')
+      .in('id', options.dependsOn)
+      .in('status', ['dead', 'blocked'])
+      .limit(1);
+    if (stuckError) throw new Error(`Failed to check dependencies for ${spec.kind} job: ${stuckError.message}`);
+
+    const dependency = stuck?.[0] as { id: string; status: JobStatus; blocked_by_job_id: string | null } | undefined;
+    if (dependency) {
+      await supabase
+        .from('jobs')
+        .update({
+          status: 'blocked',
+          blocked_by_job_id: dependency.status === 'dead' ? dependency.id : dependency.blocked_by_job_id,
+          next_attempt_at: null,
+        })
+        .eq('id', jobId);
+    }
+  }
+
+  return jobId;
+}
+
+/**
+ * Queue a chain where each job depends on the one before it. Returns the job ids in order.
+ */
+export async function enqueueChain(
+  supabase: SupabaseClient,
+  specs: JobSpec[],
+  options: { dependsOn?: string[]; parentJobId?: string | null; triggeredBy?: string } = {}
+): Promise<string[]> {
+  const ids: string[] = [];
+  let dependsOn = options.dependsOn ?? [];
+
+  for (const spec of specs) {
+    const id = await enqueueJob(supabase, spec, { ...options, dependsOn });
+    ids.push(id);
+    dependsOn = [id];
+  }
+  return ids;
+}
@@ -0,0 +1,173 @@
+// Spend ledger and budget enforcement
+//
+// Every call is written to llm_usage. Budgets (USD, NULL = unlimited) come from
+// app_settings for all functions and from monitor_settings for the news monitor
+// functions. Spend is loaded once when the client is created and then tracked in
+// process, so a long batch stops as soon as it crosses a limit.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import type { LLMResponse, LLMUsageTask } from './types.ts';
+
+// Functions whose spend counts against the monitor_settings budgets
+// (monitor-batch-classify now forwards to classify_articles; its rows stay in the ledger)
+export const MONITOR_LLM_FUNCTIONS = [
+  'monitor-batch-classify',
+  'classify_articles',
+  'extract_entities',
+  'cluster_stories',
+];
+
+export interface LLMBudgetLimits {
+  daily: number | null;
+  monthly: number | null;
+}
+
+export interface LLMBudgetScope {
+  name: 'global' | 'monitor';
+  limits: LLMBudgetLimits;
+  spentToday: number;
+  spentThisMonth: number;
+}
+
+export interface LLMBudgetStatus {
+  exhausted: boolean;
+  // e.g. "global daily budget of $5.00 reached ($5.02 spent)"
+  reason: string | null;
+  scopes: LLMBudgetScope[];
+}
+
+export class LLMBudgetExceededError extends Error {
+  constructor(readonly status: LLMBudgetStatus) {
+    super(`LLM budget exhausted: ${status.reason}`);
+    this.name = 'LLMBudgetExceededError';
+  }
+}
+
+function formatUSD(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+export class BudgetGuard {
+  constructor(private readonly scopes: LLMBudgetScope[]) {}
+
+  add(cost: number): void {
+    for (const scope of this.scopes) {
+      scope.spentToday += cost;
+      scope.spentThisMonth += cost;
+    }
+  }
+
+  status(): LLMBudgetStatus {
+    for (const scope of this.scopes) {
+      const { daily, monthly } = scope.limits;
+      if (daily !== null && scope.spentToday >= daily) {
+        return {
+          exhausted: true,
+          reason: `${scope.name} daily budget of ${formatUSD(daily)} reached (${formatUSD(scope.spentToday)} spent)`,
+          scopes: this.scopes,
+        };
+      }
+      if (monthly !== null && scope.spentThisMonth >= monthly) {
+        return {
+          exhausted: true,
+          reason: `${scope.name} monthly budget of ${formatUSD(monthly)} reached (${formatUSD(scope.spentThisMonth)} spent)`,
+          scopes: this.scopes,
+        };
+      }
+    }
+    return { exhausted: false, reason: null, scopes: this.scopes };
+  }
+
+  assertAvailable(): void {
+    const status = this.status();
+    if (status.exhausted) throw new LLMBudgetExceededError(status);
+  }
+}
+
+function toLimit(value: unknown): number | null {
+  const amount = value === null || value === undefined || value === '' ? NaN : Number(value);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+async function loadScope(
+  supabase: SupabaseClient,
+  name: LLMBudgetScope['name'],
+  limits: LLMBudgetLimits,
+  functionNames: string[] | null
+): Promise<LLMBudgetScope> {
+  const scope: LLMBudgetScope = { name, limits, spentToday: 0, spentThisMonth: 0 };
+  if (limits.daily === null && limits.monthly === null) return scope;
+
+  const { data, error } = await supabase.rpc('llm_spend_totals', { p_function_names: functionNames });
+  if (error) {
+    // Budgets are a safety net; don't take pipelines down if the ledger is unavailable
+    console.error(`Failed to load ${name} LLM spend: ${error.message}`);
+    return scope;
+  }
+
+  const totals = Array.isArray(data) ? data[0] : data;
+  scope.spentToday = Number(totals?.spent_today) || 0;
+  scope.spentThisMonth = Number(totals?.spent_this_month) || 0;
+  return scope;
+}
+
+/**
+ * Build the budget guard for a function from app_settings (and monitor_settings
+ * for monitor functions) budget columns
+ */
+export async function loadBudgetGuard(
+  supabase: SupabaseClient,
+  functionName: string,
+  appSettings: { llm_daily_budget?: unknown; llm_monthly_budget?: unknown } | null
+): Promise<BudgetGuard> {
+  const scopes = [
+    await loadScope(
+      supabase,
+      'global',
+      { daily: toLimit(appSettings?.llm_daily_budget), monthly: toLimit(appSettings?.llm_monthly_budget) },
+      null
+    ),
+  ];
+
+  if (MONITOR_LLM_FUNCTIONS.includes(functionName)) {
+    const { data: monitorSettings } = await supabase
+      .from('monitor_settings')
+      .select('llm_daily_budget, llm_monthly_budget')
+      .maybeSingle();
+
+    scopes.push(
+      await loadScope(
+        supabase,
+        'monitor',
+        { daily: toLimit(monitorSettings?.llm_daily_budget), monthly: toLimit(monitorSettings?.llm_monthly_budget) },
+        MONITOR_LLM_FUNCTIONS
+      )
+    );
+  }
+
+  return new BudgetGuard(scopes);
+}
+
+/**
+ * Append one call to the llm_usage ledger
+ */
+export async function recordLLMUsage(
+  supabase: SupabaseClient,
+  functionName: string,
+  task: LLMUsageTask,
+  response: Pick<LLMResponse, 'provider' | 'model' | 'usage'>
+): Promise<void> {
+  const { error } = await supabase.from('llm_usage').insert({
+    function_name: functionName,
+    task,
+    provider: response.provider,
+    model: response.model,
+    input_tokens: response.usage.input_tokens,
+    output_tokens: response.usage.output_tokens,
+    cost: response.usage.cost,
+  });
+
+  if (error) {
+    console.error(`Failed to record LLM usage: ${error.message}`);
+  }
+}
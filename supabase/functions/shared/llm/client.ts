@@ -0,0 +1,267 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { loadSecrets } from '../secrets.ts';
+import { type BudgetGuard, loadBudgetGuard, recordLLMUsage } from './budget.ts';
+import { parseJSONResponse } from './json.ts';
+import { AnthropicProvider } from './providers/anthropic.ts';
+import { MockProvider, type MockResponse } from './providers/mock.ts';
+import { OpenAIProvider } from './providers/openai.ts';
+import {
+  LLMConfigError,
+  LLMError,
+  type LLMProvider,
+  type LLMProviderName,
+  type LLMRequest,
+  type LLMResponse,
+  type LLMTask,
+  type LLMTokensUsed,
+} from './types.ts';
+
+// 'auto' picks the provider from each task's model name
+export type LLMProviderMode = 'auto' | LLMProviderName;
+
+export const DEFAULT_TASK_MODELS: Record<LLMTask, string> = {
+  article_classification: 'gpt-4o-mini',
+  entity_extraction: 'gpt-4o-mini',
+  case_chunk_summary: 'gpt-4o-mini',
+  case_consolidation: 'claude-sonnet-4-20250514',
+  pdf_summary: 'claude-sonnet-4-5-20250929',
+  gazette_extraction: 'claude-sonnet-4-20250514',
+};
+
+// Used when a task's model belongs to a provider without a key, or a provider is forced
+const PROVIDER_DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-sonnet-4-20250514',
+  mock: 'mock',
+};
+
+export interface LLMConfig {
+  mode: LLMProviderMode;
+  // Per-task overrides of DEFAULT_TASK_MODELS
+  models: Partial<Record<LLMTask, string>>;
+  keys: Partial<Record<'openai' | 'anthropic', string | null>>;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  // Only used by the mock provider (tests)
+  mockResponses?: Partial<Record<LLMTask, MockResponse>>;
+}
+
+export interface LLMClientHooks {
+  // Checked before every call; throws LLMBudgetExceededError once spent
+  budget?: BudgetGuard;
+  // Called after every successful call, e.g. to write the llm_usage ledger
+  onResponse?: (request: LLMRequest, response: LLMResponse) => Promise<void>;
+}
+
+export interface ResolvedModel {
+  provider: LLMProviderName;
+  model: string;
+}
+
+export function providerForModel(model: string): LLMProviderName {
+  if (model === 'mock' || model.startsWith('mock-')) return 'mock';
+  if (model.startsWith('claude')) return 'anthropic';
+  return 'openai';
+}
+
+function hasDocuments(request: LLMRequest): boolean {
+  return request.messages.some(
+    (message) => typeof message.content !== 'string' && message.content.some((part) => part.type === 'document')
+  );
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Accumulates usage across calls and produces the llm_tokens_used summary
+ */
+export class UsageTracker {
+  private readonly byModel: LLMTokensUsed['by_model'] = {};
+  private last: ResolvedModel | null = null;
+
+  record(response: LLMResponse): void {
+    const entry = (this.byModel[response.model] ??= {
+      provider: response.provider,
+      input_tokens: 0,
+      output_tokens: 0,
+      calls: 0,
+      cost: 0,
+    });
+    entry.input_tokens += response.usage.input_tokens;
+    entry.output_tokens += response.usage.output_tokens;
+    entry.cost += response.usage.cost;
+    entry.calls++;
+    this.last = { provider: response.provider, model: response.model };
+  }
+
+  summary(): LLMTokensUsed {
+    const entries = Object.values(this.byModel);
+    const input = entries.reduce((sum, entry) => sum + entry.input_tokens, 0);
+    const output = entries.reduce((sum, entry) => sum + entry.output_tokens, 0);
+
+    return {
+      provider: this.last?.provider ?? null,
+      model: this.last?.model ?? null,
+      input_tokens: input,
+      output_tokens: output,
+      total_tokens: input + output,
+      total_cost: Number(entries.reduce((sum, entry) => sum + entry.cost, 0).toFixed(6)),
+      calls: entries.reduce((sum, entry) => sum + entry.calls, 0),
+      by_model: this.byModel,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+export class LLMClient {
+  readonly usage = new UsageTracker();
+  private readonly providers = new Map<LLMProviderName, LLMProvider>();
+
+  readonly budget: BudgetGuard | null;
+
+  constructor(readonly config: LLMConfig, private readonly hooks: LLMClientHooks = {}) {
+    this.budget = hooks.budget ?? null;
+  }
+
+  /**
+   * Provider and model a task will use, or null when no provider is usable
+   */
+  resolve(task: LLMTask, options: { documents?: boolean } = {}): ResolvedModel | null {
+    if (this.config.mode === 'mock') return { provider: 'mock', model: 'mock' };
+
+    const configured = this.config.models[task] || DEFAULT_TASK_MODELS[task];
+    const configuredProvider = providerForModel(configured);
+
+    const candidates: ResolvedModel[] =
+      this.config.mode === 'auto' || this.config.mode === configuredProvider
+        ? [
+            { provider: configuredProvider, model: configured },
+            // Fall back to the other provider when the configured one has no key
+            ...(['openai', 'anthropic'] as const)
+              .filter((provider) => provider !== configuredProvider)
+              .map((provider) => ({ provider, model: PROVIDER_DEFAULT_MODELS[provider] })),
+          ]
+        : [{ provider: this.config.mode, model: PROVIDER_DEFAULT_MODELS[this.config.mode] }];
+
+    return (
+      candidates.find(
+        (candidate) =>
+          (candidate.provider === 'mock' || !!this.config.keys[candidate.provider]) &&
+          // Only Anthropic models read PDFs
+          (!options.documents || candidate.provider !== 'openai')
+      ) ?? null
+    );
+  }
+
+  isAvailable(task: LLMTask, options: { documents?: boolean } = {}): boolean {
+    return this.resolve(task, options) !== null;
+  }
+
+  private provider(name: LLMProviderName): LLMProvider {
+    let provider = this.providers.get(name);
+    if (!provider) {
+      provider =
+        name === 'mock'
+          ? new MockProvider(this.config.mockResponses)
+          : name === 'openai'
+            ? new OpenAIProvider(this.config.keys.openai!)
+            : new AnthropicProvider(this.config.keys.anthropic!);
+      this.providers.set(name, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Run a completion, retrying rate limits and server errors with exponential backoff.
+   * Throws LLMBudgetExceededError without calling the provider once the budget is spent.
+   */
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const resolved = this.resolve(request.task, { documents: hasDocuments(request) });
+    if (!resolved) {
+      throw new LLMConfigError(
+        `No LLM provider available for ${request.task}. Add an OpenAI or Anthropic API key in Settings.`
+      );
+    }
+
+    this.budget?.assertAvailable();
+    const provider = this.provider(resolved.provider);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await provider.complete(request, resolved.model);
+        this.usage.record(response);
+        this.budget?.add(response.usage.cost);
+        await this.hooks.onResponse?.(request, response);
+        return response;
+      } catch (error) {
+        if (!(error instanceof LLMError) || !error.retryable || attempt > this.config.maxRetries) {
+          throw error;
+        }
+        const delay = error.retryAfterMs ?? this.config.retryBaseDelayMs * 2 ** (attempt - 1);
+        console.log(`${resolved.model} ${error.status ?? 'network error'}; retry ${attempt}/${this.config.maxRetries} after ${delay}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * complete() and parse the reply as JSON
+   */
+  async completeJSON<T = unknown>(request: LLMRequest): Promise<{ data: T; response: LLMResponse }> {
+    const response = await this.complete(request);
+    return { data: parseJSONResponse<T>(response.text), response };
+  }
+}
+
+export function createLLMClient(config: Partial<LLMConfig> = {}, hooks: LLMClientHooks = {}): LLMClient {
+  return new LLMClient(
+    {
+    mode: 'auto',
+    models: {},
+    keys: {},
+    maxRetries: 3,
+      retryBaseDelayMs: 2000,
+      ...config,
+    },
+    hooks
+  );
+}
+
+/**
+ * Build a client from app_settings (llm_provider, llm_models) and the app_secrets API keys,
+ * falling back to OPENAI_API_KEY / ANTHROPIC_API_KEY. LLM_PROVIDER=mock in the environment forces the
+ * offline provider regardless of settings. Calls are recorded in llm_usage under
+ * functionName and checked against the configured budgets.
+ */
+export async function loadLLMClient(
+  supabase: SupabaseClient,
+  functionName: string,
+  overrides: Partial<LLMConfig> = {}
+): Promise<LLMClient> {
+  const { data: settings } = await supabase
+    .from('app_settings')
+    .select('llm_provider, llm_models, llm_daily_budget, llm_monthly_budget')
+    .maybeSingle();
+  const secrets = await loadSecrets(supabase, ['openai_api_key', 'anthropic_api_key']);
+
+  const envMode = Deno.env.get('LLM_PROVIDER') as LLMProviderMode | undefined;
+  const { keys: keyOverrides, ...rest } = overrides;
+
+  return createLLMClient(
+    {
+      mode: envMode || settings?.llm_provider || 'auto',
+      models: settings?.llm_models || {},
+      ...rest,
+      keys: {
+        openai: keyOverrides?.openai || secrets.openai_api_key,
+        anthropic: keyOverrides?.anthropic || secrets.anthropic_api_key,
+      },
+    },
+    {
+      budget: await loadBudgetGuard(supabase, functionName, settings),
+      onResponse: (request, response) => recordLLMUsage(supabase, functionName, request.task, response),
+    }
+  );
+}
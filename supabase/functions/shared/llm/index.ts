@@ -0,0 +1,49 @@
+// Shared LLM access for edge functions
+//
+//   const llm = await loadLLMClient(supabase, 'classify_articles');
+//   const { data } = await llm.completeJSON<Result[]>({ task: 'article_classification', system, messages, json: true });
+//   await supabase.from('x').update({ llm_tokens_used: llm.usage.summary() });
+//
+// Models are chosen per task from app_settings.llm_models (see DEFAULT_TASK_MODELS).
+// Set LLM_PROVIDER=mock to run any pipeline offline. Every call is written to the
+// llm_usage ledger and refused with LLMBudgetExceededError once a budget is spent.
+
+export {
+  BudgetGuard,
+  LLMBudgetExceededError,
+  loadBudgetGuard,
+  MONITOR_LLM_FUNCTIONS,
+  recordLLMUsage,
+  type LLMBudgetLimits,
+  type LLMBudgetScope,
+  type LLMBudgetStatus,
+} from './budget.ts';
+export {
+  createLLMClient,
+  DEFAULT_TASK_MODELS,
+  LLMClient,
+  loadLLMClient,
+  type LLMClientHooks,
+  providerForModel,
+  UsageTracker,
+  type LLMConfig,
+  type LLMProviderMode,
+  type ResolvedModel,
+} from './client.ts';
+export { extractBalancedJSON, parseJSONResponse } from './json.ts';
+export { estimateCost, KNOWN_MODELS } from './pricing.ts';
+export { DEFAULT_MOCK_RESPONSES, MockProvider, type MockResponse } from './providers/mock.ts';
+export {
+  LLMConfigError,
+  LLMError,
+  type LLMContentPart,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMProviderName,
+  type LLMRequest,
+  type LLMResponse,
+  type LLMTask,
+  type LLMTokensUsed,
+  type LLMUsage,
+  type LLMUsageTask,
+} from './types.ts';
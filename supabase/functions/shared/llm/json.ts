@@ -0,0 +1,53 @@
+// Parsing JSON out of model replies
+
+/**
+ * Parse a model reply as JSON. Accepts bare JSON, JSON wrapped in ``` fences,
+ * and JSON surrounded by prose (the first balanced object or array is used).
+ */
+export function parseJSONResponse<T = unknown>(text: string): T {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  const candidate = fenced ? fenced[1] : trimmed;
+
+  try {
+    return JSON.parse(candidate) as T;
+  } catch {
+    const extracted = extractBalancedJSON(candidate);
+    if (extracted === null) {
+      throw new Error(`Response is not JSON: ${trimmed.slice(0, 200)}`);
+    }
+    return JSON.parse(extracted) as T;
+  }
+}
+
+/**
+ * First balanced {...} or [...] in the text, ignoring brackets inside strings
+ */
+export function extractBalancedJSON(text: string): string | null {
+  const start = text.search(/[[{]/);
+  if (start === -1) return null;
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') stack.push(char === '{' ? '}' : ']');
+    else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return null;
+      if (stack.length === 0) return text.slice(start, i + 1);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,41 @@
+// Per-model prices in USD per million tokens, used for cost accounting.
+// Unknown models are costed at the most expensive rate for their provider so
+// spend is over- rather than under-reported.
+
+import type { LLMProviderName } from './types.ts';
+
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+  'claude-sonnet-4-5-20250929': { input: 3, output: 15 },
+  'claude-opus-4-1-20250805': { input: 15, output: 75 },
+};
+
+const PROVIDER_FALLBACK_PRICES: Record<LLMProviderName, ModelPrice> = {
+  openai: { input: 2.5, output: 10 },
+  anthropic: { input: 15, output: 75 },
+  mock: { input: 0, output: 0 },
+};
+
+export function modelPrice(provider: LLMProviderName, model: string): ModelPrice {
+  return MODEL_PRICES[model] ?? PROVIDER_FALLBACK_PRICES[provider];
+}
+
+export function estimateCost(provider: LLMProviderName, model: string, inputTokens: number, outputTokens: number): number {
+  const price = modelPrice(provider, model);
+  return (inputTokens / 1_000_000) * price.input + (outputTokens / 1_000_000) * price.output;
+}
+
+export const KNOWN_MODELS = Object.keys(MODEL_PRICES);
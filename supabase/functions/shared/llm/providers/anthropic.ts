@@ -0,0 +1,79 @@
+import { estimateCost } from '../pricing.ts';
+import { LLMError, type LLMContentPart, type LLMProvider, type LLMRequest, type LLMResponse } from '../types.ts';
+import { errorFromResponse } from './http.ts';
+
+const API_URL = 'https://api.anthropic.com/v1/messages';
+const API_VERSION = '2023-06-01';
+// Anthropic requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 4096;
+
+function toAnthropicContent(content: string | LLMContentPart[]) {
+  if (typeof content === 'string') return content;
+  return content.map((part) =>
+    part.type === 'document'
+      ? { type: 'document', source: { type: 'base64', media_type: part.mediaType, data: part.data } }
+      : { type: 'text', text: part.text }
+  );
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+
+  constructor(private readonly apiKey: string) {}
+
+  async complete(request: LLMRequest, model: string): Promise<LLMResponse> {
+    let response: Response;
+    try {
+      response = await fetch(API_URL, {
+        method: 'POST',
+        headers: {
+          'x-api-key': this.apiKey,
+          'anthropic-version': API_VERSION,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          temperature: request.temperature,
+          system: request.system,
+          messages: request.messages.map((message) => ({
+            role: message.role,
+            content: toAnthropicContent(message.content),
+          })),
+        }),
+      });
+    } catch (error) {
+      throw new LLMError(`Anthropic request failed: ${error instanceof Error ? error.message : String(error)}`, 'anthropic', null, true);
+    }
+
+    if (!response.ok) {
+      throw await errorFromResponse('anthropic', 'Anthropic API error', response);
+    }
+
+    const data = await response.json();
+    const text = (data.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('');
+
+    if (!text) {
+      throw new LLMError('No content in Anthropic response', 'anthropic');
+    }
+
+    const inputTokens = data.usage?.input_tokens || 0;
+    const outputTokens = data.usage?.output_tokens || 0;
+
+    return {
+      text,
+      provider: 'anthropic',
+      model,
+      usage: {
+        input_tokens: inputTokens,
+        output_tokens: outputTokens,
+        total_tokens: inputTokens + outputTokens,
+        cost: estimateCost('anthropic', model, inputTokens, outputTokens),
+      },
+      stopReason: data.stop_reason === 'end_turn' ? 'end' : data.stop_reason,
+    };
+  }
+}
@@ -0,0 +1,26 @@
+import { LLMError, type LLMContentPart, type LLMProviderName } from '../types.ts';
+
+export function toText(content: string | LLMContentPart[]): string {
+  if (typeof content === 'string') return content;
+  return content
+    .filter((part): part is Extract<LLMContentPart, { type: 'text' }> => part.type === 'text')
+    .map((part) => part.text)
+    .join('\n\n');
+}
+
+/**
+ * LLMError for a non-2xx response; 408, 409, 429 and 5xx (including Anthropic's 529 overloaded) are retryable
+ */
+export async function errorFromResponse(provider: LLMProviderName, label: string, response: Response): Promise<LLMError> {
+  const body = await response.text().catch(() => '');
+  const retryable = [408, 409, 429].includes(response.status) || response.status >= 500;
+  const retryAfter = Number(response.headers.get('retry-after'));
+
+  return new LLMError(
+    `${label}: ${response.status} - ${body}`,
+    provider,
+    response.status,
+    retryable,
+    Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : null
+  );
+}
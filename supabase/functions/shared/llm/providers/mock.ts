@@ -0,0 +1,138 @@
+// Offline provider
+//
+// Returns canned, deterministic replies so every pipeline can run without API
+// keys or network access. A reply is chosen from, in order:
+//   1. responses passed to the constructor (tests)
+//   2. <LLM_MOCK_FIXTURES_DIR>/<task>.json or .txt, when that env var is set
+//   3. the built-in DEFAULT_MOCK_RESPONSES for the task
+// Token counts are estimated (~4 characters per token) and cost nothing.
+
+import { type LLMProvider, type LLMRequest, type LLMResponse, type LLMTask } from '../types.ts';
+import { toText } from './http.ts';
+
+export type MockResponse = string | ((request: LLMRequest) => string);
+
+const MOCK_DASHBOARD_SUMMARY = `**1. COMPANY OVERVIEW**
+- Company name: Mock Company Limited
+- Registration No. Not specified | Incorporated: Not specified
+
+**2. LEGAL DETAILS**
+- Court: Grand Court of the Cayman Islands, Financial Services Division
+- Cause No.: Not specified | Filed: Not specified
+
+**3. KEY TIMELINE**
+| Date | Event |
+|------|-------|
+| N/A | Generated by the mock LLM provider |
+
+**4. FINANCIAL SUMMARY**
+- Not specified
+
+**5. INSOLVENCY PRACTITIONERS**
+- Not specified
+
+---`;
+
+// Structured case analysis (shared/case-analysis.ts, schema_version 1)
+const MOCK_CASE_ANALYSIS = JSON.stringify({
+  schema_version: 1,
+  company_overview: { name: 'Mock Company Limited', notes: [] },
+  legal_details: { court: 'Grand Court of the Cayman Islands, Financial Services Division', notes: [] },
+  timeline: [{ date: 'N/A', event: 'Generated by the mock LLM provider' }],
+  capital_structure: { notes: [] },
+  practitioners: { appointed: null, appointments: [], note: null },
+});
+
+function promptText(request: LLMRequest): string {
+  return request.messages.map((message) => toText(message.content)).join('\n\n');
+}
+
+function mentionsCayman(text: string): boolean {
+  return /cayman/i.test(text);
+}
+
+export const DEFAULT_MOCK_RESPONSES: Record<LLMTask, MockResponse> = {
+  // classify_articles: numbered JSON lines, one per article
+  article_classification: (request) => {
+    const articles = promptText(request).match(/^\d+\. \{.*\}$/gm) || [];
+    return JSON.stringify(
+      articles.map((line) => ({
+        is_cayman_related: mentionsCayman(line),
+        signals: {
+          financial_decline: /liquidat|insolven|bankrupt/i.test(line),
+          fraud: /fraud/i.test(line),
+          misstated_financials: false,
+          shareholder_issues: false,
+          director_duties: false,
+          enforcement: false,
+        },
+        reasons: mentionsCayman(line) ? ['mentions Cayman (mock)'] : [],
+        confidence: mentionsCayman(line) ? 0.6 : 0.1,
+        entities: { orgs: [], people: [], locations: mentionsCayman(line) ? ['Cayman Islands'] : [] },
+      }))
+    );
+  },
+
+  entity_extraction: (request) => {
+    const orgs = promptText(request).match(/\b(?:[A-Z][\w&'-]*\s+){1,5}(?:Limited|Ltd\.?|Inc\.?|LP|L\.P\.|SPC)/g) || [];
+    return JSON.stringify({ orgs: Array.from(new Set(orgs.map((org) => org.trim()))), people: [], locations: [] });
+  },
+
+  case_chunk_summary: MOCK_DASHBOARD_SUMMARY,
+  case_consolidation: MOCK_CASE_ANALYSIS,
+  pdf_summary: MOCK_CASE_ANALYSIS,
+
+  gazette_extraction: JSON.stringify({
+    status: 'success',
+    gazette: { type: 'regular', issueNumber: 'Mock', publicationDate: '1970-01-01' },
+    summary: {
+      totalEntities: 0,
+      companiesVoluntary: 0,
+      companiesCourtOrdered: 0,
+      partnershipsVoluntary: 0,
+      entitiesWithFinalMeetings: 0,
+    },
+    message: 'Generated by the mock LLM provider',
+    liquidations: [],
+  }),
+};
+
+async function readFixture(task: LLMTask): Promise<string | null> {
+  const dir = Deno.env.get('LLM_MOCK_FIXTURES_DIR');
+  if (!dir) return null;
+
+  for (const extension of ['json', 'txt']) {
+    try {
+      return await Deno.readTextFile(`${dir}/${task}.${extension}`);
+    } catch {
+      // try the next extension
+    }
+  }
+  return null;
+}
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  // Requests seen, so tests can assert on prompts
+  readonly requests: LLMRequest[] = [];
+
+  constructor(private readonly responses: Partial<Record<LLMTask, MockResponse>> = {}) {}
+
+  async complete(request: LLMRequest, model: string): Promise<LLMResponse> {
+    this.requests.push(request);
+
+    const configured = this.responses[request.task] ?? (await readFixture(request.task)) ?? DEFAULT_MOCK_RESPONSES[request.task];
+    const text = typeof configured === 'function' ? configured(request) : configured;
+
+    const inputTokens = Math.ceil(((request.system?.length || 0) + promptText(request).length) / 4);
+    const outputTokens = Math.ceil(text.length / 4);
+
+    return {
+      text,
+      provider: 'mock',
+      model,
+      usage: { input_tokens: inputTokens, output_tokens: outputTokens, total_tokens: inputTokens + outputTokens, cost: 0 },
+      stopReason: 'end',
+    };
+  }
+}
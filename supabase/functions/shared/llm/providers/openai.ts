@@ -0,0 +1,68 @@
+import { estimateCost } from '../pricing.ts';
+import { LLMConfigError, LLMError, type LLMProvider, type LLMRequest, type LLMResponse } from '../types.ts';
+import { errorFromResponse, toText } from './http.ts';
+
+const API_URL = 'https://api.openai.com/v1/chat/completions';
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(private readonly apiKey: string) {}
+
+  async complete(request: LLMRequest, model: string): Promise<LLMResponse> {
+    const messages = request.messages.map((message) => {
+      if (typeof message.content !== 'string' && message.content.some((part) => part.type === 'document')) {
+        throw new LLMConfigError(`${model} cannot read PDF documents; choose an Anthropic model for ${request.task}`);
+      }
+      return { role: message.role, content: toText(message.content) };
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(API_URL, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          messages: request.system ? [{ role: 'system', content: request.system }, ...messages] : messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+        }),
+      });
+    } catch (error) {
+      throw new LLMError(`OpenAI request failed: ${error instanceof Error ? error.message : String(error)}`, 'openai', null, true);
+    }
+
+    if (!response.ok) {
+      throw await errorFromResponse('openai', 'OpenAI API error', response);
+    }
+
+    const data = await response.json();
+    const choice = data.choices?.[0];
+    const text = choice?.message?.content;
+
+    if (typeof text !== 'string') {
+      throw new LLMError('No content in OpenAI response', 'openai');
+    }
+
+    const inputTokens = data.usage?.prompt_tokens || 0;
+    const outputTokens = data.usage?.completion_tokens || 0;
+
+    return {
+      text,
+      provider: 'openai',
+      model,
+      usage: {
+        input_tokens: inputTokens,
+        output_tokens: outputTokens,
+        total_tokens: inputTokens + outputTokens,
+        cost: estimateCost('openai', model, inputTokens, outputTokens),
+      },
+      stopReason: choice.finish_reason === 'length' ? 'max_tokens' : choice.finish_reason === 'stop' ? 'end' : choice.finish_reason,
+    };
+  }
+}
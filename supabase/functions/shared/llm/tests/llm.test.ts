@@ -0,0 +1,155 @@
+/**
+ * Tests for the shared LLM client
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/llm/tests/
+ */
+
+import { assertEquals, assertRejects } from "jsr:@std/assert@1";
+import {
+  BudgetGuard,
+  createLLMClient,
+  LLMBudgetExceededError,
+  LLMConfigError,
+  parseJSONResponse,
+  type LLMResponse,
+} from "../index.ts";
+
+function withFetch(responses: Response[], run: (calls: string[]) => Promise<void>): () => Promise<void> {
+  return async () => {
+    const originalFetch = globalThis.fetch;
+    const calls: string[] = [];
+    globalThis.fetch = (input: string | URL | Request) => {
+      calls.push(String(input));
+      return Promise.resolve(responses.shift()!);
+    };
+    try {
+      await run(calls);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  };
+}
+
+function openAIReply(content: string): Response {
+  return new Response(
+    JSON.stringify({
+      choices: [{ message: { content }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 1000, completion_tokens: 500 },
+    }),
+    { status: 200 }
+  );
+}
+
+Deno.test("parseJSONResponse handles fences and surrounding prose", () => {
+  assertEquals(parseJSONResponse('```json\n{"a": 1}\n```'), { a: 1 });
+  assertEquals(parseJSONResponse('Here you go: [1, 2, {"b": "]"}] Hope that helps.'), [1, 2, { b: "]" }]);
+});
+
+Deno.test("mock provider classifies offline and records usage", async () => {
+  const llm = createLLMClient({ mode: "mock" });
+  const { data } = await llm.completeJSON<Array<{ is_cayman_related: boolean }>>({
+    task: "article_classification",
+    messages: [
+      {
+        role: "user",
+        content: '1. {"title": "Cayman fund enters liquidation"}\n2. {"title": "Local football results"}',
+      },
+    ],
+    json: true,
+  });
+
+  assertEquals(data.map((item) => item.is_cayman_related), [true, false]);
+  const usage = llm.usage.summary();
+  assertEquals(usage.provider, "mock");
+  assertEquals(usage.calls, 1);
+  assertEquals(usage.total_cost, 0);
+});
+
+Deno.test("mock responses can be overridden per task", async () => {
+  const llm = createLLMClient({ mode: "mock", mockResponses: { pdf_summary: "custom summary" } });
+  const response = await llm.complete({ task: "pdf_summary", messages: [{ role: "user", content: "x" }] });
+  assertEquals(response.text, "custom summary");
+});
+
+Deno.test("resolve falls back to the provider that has a key", () => {
+  const llm = createLLMClient({ keys: { anthropic: "sk-ant" } });
+  assertEquals(llm.resolve("entity_extraction"), { provider: "anthropic", model: "claude-sonnet-4-20250514" });
+
+  const openaiOnly = createLLMClient({ keys: { openai: "sk" } });
+  assertEquals(openaiOnly.resolve("pdf_summary", { documents: true }), null);
+  assertEquals(openaiOnly.resolve("case_consolidation"), { provider: "openai", model: "gpt-4o-mini" });
+});
+
+Deno.test("per-task model overrides are used", () => {
+  const llm = createLLMClient({ keys: { openai: "sk" }, models: { entity_extraction: "gpt-4o" } });
+  assertEquals(llm.resolve("entity_extraction"), { provider: "openai", model: "gpt-4o" });
+});
+
+Deno.test("complete without any key throws a config error", async () => {
+  await assertRejects(
+    () => createLLMClient().complete({ task: "entity_extraction", messages: [{ role: "user", content: "x" }] }),
+    LLMConfigError
+  );
+});
+
+Deno.test(
+  "rate limits are retried and usage is costed",
+  withFetch(
+    [new Response("slow down", { status: 429 }), openAIReply('{"orgs": []}')],
+    async (calls) => {
+      const llm = createLLMClient({ keys: { openai: "sk" }, retryBaseDelayMs: 1 });
+      const { data } = await llm.completeJSON({
+        task: "entity_extraction",
+        messages: [{ role: "user", content: "x" }],
+        json: true,
+      });
+
+      assertEquals(data, { orgs: [] });
+      assertEquals(calls.length, 2);
+      const usage = llm.usage.summary();
+      assertEquals(usage.total_tokens, 1500);
+      // gpt-4o-mini: $0.15 / $0.60 per 1M tokens
+      assertEquals(usage.total_cost, 0.00045);
+    }
+  )
+);
+
+Deno.test(
+  "client errors are not retried",
+  withFetch([new Response("bad request", { status: 400 })], async (calls) => {
+    const llm = createLLMClient({ keys: { openai: "sk" }, retryBaseDelayMs: 1 });
+    await assertRejects(() => llm.complete({ task: "entity_extraction", messages: [{ role: "user", content: "x" }] }));
+    assertEquals(calls.length, 1);
+  })
+);
+
+Deno.test(
+  "budget stops calls once spend crosses the limit",
+  withFetch([openAIReply('{"orgs": []}'), openAIReply('{"orgs": []}')], async (calls) => {
+    const recorded: LLMResponse[] = [];
+    const budget = new BudgetGuard([
+      { name: "global", limits: { daily: 0.01, monthly: null }, spentToday: 0.0097, spentThisMonth: 0.0097 },
+    ]);
+    const llm = createLLMClient(
+      { keys: { openai: "sk" } },
+      { budget, onResponse: (_request, response) => Promise.resolve(void recorded.push(response)) }
+    );
+    const request = { task: "entity_extraction" as const, messages: [{ role: "user" as const, content: "x" }] };
+
+    await llm.complete(request);
+    const error = await assertRejects(() => llm.complete(request), LLMBudgetExceededError);
+
+    assertEquals(calls.length, 1);
+    assertEquals(recorded.length, 1);
+    assertEquals(error.status.reason, "global daily budget of $0.01 reached ($0.01 spent)");
+  })
+);
+
+Deno.test("budget scopes are checked independently", () => {
+  const budget = new BudgetGuard([
+    { name: "global", limits: { daily: null, monthly: 100 }, spentToday: 1, spentThisMonth: 20 },
+    { name: "monitor", limits: { daily: null, monthly: 20 }, spentToday: 1, spentThisMonth: 20 },
+  ]);
+  assertEquals(budget.status().reason, "monitor monthly budget of $20.00 reached ($20.00 spent)");
+});
@@ -0,0 +1,103 @@
+// Types shared by the LLM client and its providers
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'mock';
+
+/**
+ * The pipelines that call an LLM. Each task has its own model setting
+ * (app_settings.llm_models) and its own mock response.
+ */
+export type LLMTask =
+  | 'article_classification'
+  | 'entity_extraction'
+  | 'case_chunk_summary'
+  | 'case_consolidation'
+  | 'pdf_summary'
+  | 'gazette_extraction';
+
+/**
+ * Tasks in the llm_usage ledger: the completion tasks plus embeddings, which
+ * are billed by OpenAI but do not go through LLMClient
+ */
+export type LLMUsageTask = LLMTask | 'article_embedding';
+
+export type LLMContentPart =
+  | { type: 'text'; text: string }
+  // Base64 PDF; only Anthropic models accept documents
+  | { type: 'document'; mediaType: 'application/pdf'; data: string };
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string | LLMContentPart[];
+}
+
+export interface LLMRequest {
+  task: LLMTask;
+  system?: string;
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  // Ask for a JSON object (OpenAI response_format); use completeJSON() to parse the reply
+  json?: boolean;
+}
+
+export interface LLMUsage {
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  cost: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: LLMProviderName;
+  model: string;
+  usage: LLMUsage;
+  // 'end' when the model finished; 'max_tokens' when the reply was truncated
+  stopReason: 'end' | 'max_tokens' | string;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  complete(request: LLMRequest, model: string): Promise<LLMResponse>;
+}
+
+/**
+ * Error from a provider API. `retryable` marks rate limits, overloads and server errors.
+ */
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: LLMProviderName,
+    public readonly status: number | null = null,
+    public readonly retryable = false,
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+/**
+ * No usable provider for a task (missing API key, or documents sent to a model that cannot read them)
+ */
+export class LLMConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMConfigError';
+  }
+}
+
+/**
+ * Shape written to the llm_tokens_used columns
+ */
+export interface LLMTokensUsed {
+  provider: LLMProviderName | null;
+  model: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  total_cost: number;
+  calls: number;
+  by_model: Record<string, { provider: LLMProviderName; input_tokens: number; output_tokens: number; calls: number; cost: number }>;
+  timestamp: string;
+}
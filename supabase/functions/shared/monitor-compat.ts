@@ -0,0 +1,153 @@
+// Cayman Monitor legacy shapes
+//
+// The first monitor exposed monitor-ingest-*, monitor-batch-classify,
+// monitor-extract-entities and monitor-api-* functions over the monitor_*
+// tables. Those tables are now views over `articles` and friends (see
+// monitor-types.ts) and the functions are shims: writes are forwarded to the
+// canonical functions and responses mapped back to the shapes below, which
+// are frozen. New callers should use the canonical functions and monitor_api.
+
+import type { MonitorSignal } from './monitor-types.ts';
+
+export type LegacySignal =
+  | 'financial_decline'
+  | 'fraud'
+  | 'misstated_financials'
+  | 'shareholder_dispute'
+  | 'director_duties'
+  | 'regulatory_investigation';
+
+export const LEGACY_SIGNALS: LegacySignal[] = [
+  'financial_decline',
+  'fraud',
+  'misstated_financials',
+  'shareholder_dispute',
+  'director_duties',
+  'regulatory_investigation',
+];
+
+// Names the first monitor used for two of the signals. The legacy views keep
+// them as signal_* columns; the taxonomy lists them as aliases.
+export const LEGACY_SIGNAL_NAMES: Record<string, MonitorSignal> = {
+  shareholder_dispute: 'shareholder_issues',
+  regulatory_investigation: 'enforcement',
+};
+
+/**
+ * The name the first monitor used for a signal
+ */
+export function legacySignalName(signal: MonitorSignal): LegacySignal {
+  const legacy = Object.keys(LEGACY_SIGNAL_NAMES).find((name) => LEGACY_SIGNAL_NAMES[name] === signal);
+  return (legacy ?? signal) as LegacySignal;
+}
+
+export interface IngestionRunResponse {
+  success: boolean;
+  run_id?: string | null;
+  articles_fetched?: number;
+  articles_new?: number;
+  articles_duplicate?: number;
+  articles_cayman_relevant?: number;
+  errors?: string[];
+  error?: string;
+}
+
+export interface BatchClassifyResponse {
+  success: boolean;
+  message?: string;
+  budget_exhausted?: string | null;
+  articles_processed: number;
+  articles_failed?: number;
+  error?: string;
+}
+
+export interface ExtractEntitiesResponse {
+  success: boolean;
+  message?: string;
+  articles_processed: number;
+  links_created?: number;
+  error?: string;
+}
+
+// JSON body of a canonical function's response
+export type CanonicalResult = Record<string, unknown>;
+
+function count(value: unknown): number {
+  return typeof value === 'number' ? value : 0;
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Call a canonical monitor function with the service role key
+ */
+export async function invokeMonitorFunction(
+  name: string,
+  body: Record<string, unknown>
+): Promise<{ status: number; result: CanonicalResult }> {
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL') ?? ''}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => ({ success: false, error: `${name} returned ${response.status}` }));
+  return { status: response.status, result };
+}
+
+/**
+ * Map an ingest_gdelt / ingest_newsapi response to the monitor-ingest-* shape
+ */
+export function toIngestionRunResponse(result: CanonicalResult): IngestionRunResponse {
+  if (!result.success) {
+    return { success: false, run_id: text(result.run_id) ?? null, error: text(result.error) };
+  }
+  return {
+    success: true,
+    run_id: text(result.run_id),
+    articles_fetched: count(result.fetched),
+    articles_new: count(result.stored),
+    articles_duplicate: count(result.skipped),
+    articles_cayman_relevant: count(result.keyword_matches),
+  };
+}
+
+/**
+ * Map a classify_articles response to the monitor-batch-classify shape
+ */
+export function toBatchClassifyResponse(result: CanonicalResult): BatchClassifyResponse {
+  if (!result.success) {
+    return { success: false, error: text(result.error), articles_processed: 0 };
+  }
+
+  // Articles the heuristics filter out are classified as not relevant, so
+  // only the rest of `skipped` are failures
+  const filtered = typeof result.heuristic_filtered === 'number' ? result.heuristic_filtered : count(result.skipped);
+  return {
+    success: true,
+    message: text(result.message),
+    budget_exhausted: text(result.budget_exhausted) ?? null,
+    articles_processed: count(result.updated) + filtered,
+    articles_failed: Math.max(count(result.skipped) - filtered, 0),
+  };
+}
+
+/**
+ * Map an extract_entities response to the monitor-extract-entities shape
+ */
+export function toExtractEntitiesResponse(result: CanonicalResult): ExtractEntitiesResponse {
+  if (!result.success) {
+    return { success: false, error: text(result.error), articles_processed: 0 };
+  }
+  return {
+    success: true,
+    message: text(result.message),
+    articles_processed: count(result.processed),
+    links_created: count(result.linked),
+  };
+}
@@ -1,90 +1,69 @@
-// Shared TypeScript types for Cayman Monitor feature
+// Cayman Monitor article model
+//
+// Articles live in one store: `articles`, `entities`, `article_entities` and
+// `ingest_runs`. ingest_gdelt, ingest_newsapi and ingest_rss write articles as `pending`,
+// classify_articles sets relevance and signals, extract_entities links
+// entities, and monitor_api serves the Monitor page. Signals are defined in
+// monitor_signals (see signal-taxonomy.ts); aliases are mapped to their
+// canonical names on the way in.
+//
+// The monitor_* tables of the first monitor were merged into this store by
+// 20251127000000_unify_monitor_articles.sql. Their names survive as read-only
+// views and the monitor-* functions as shims over the functions above; both
+// return the legacy shapes in monitor-compat.ts.
 
-export interface MonitorArticle {
-  id: string;
-  source_api: 'gdelt' | 'newsapi';
-  source_id: string;
-  url: string;
-  url_hash: string;
-  title: string;
-  title_normalized: string;
-  published_at: string;
-  content_raw: string | null;
-  content_normalized: string | null;
-  content_snippet: string | null;
-  language: string;
-  embedding: number[] | null;
-  source_name: string | null;
-  source_domain: string | null;
-  author: string | null;
-  cayman_relevant: boolean;
-  cayman_confidence: number | null;
-  cayman_keywords: string[];
-  cayman_entities: CaymanEntity[];
-  classified: boolean;
-  classification_result: ClassificationResult | null;
-  signals: string[];
-  signal_financial_decline: boolean;
-  signal_fraud: boolean;
-  signal_misstated_financials: boolean;
-  signal_shareholder_dispute: boolean;
-  signal_director_duties: boolean;
-  signal_regulatory_investigation: boolean;
-  ingested_at: string;
-  classified_at: string | null;
-  llm_tokens_used: LLMTokenUsage;
-  processing_errors: string[];
-  status: 'pending' | 'classified' | 'failed';
-  requires_review: boolean;
-  duplicate_of: string | null;
-  similarity_score: number | null;
-  created_at: string;
-  updated_at: string;
-}
+import { DEFAULT_SIGNAL_TAXONOMY, type SignalFlags, type SignalTaxonomy } from './signal-taxonomy.ts';
 
-export interface CaymanEntity {
-  name: string;
-  type: 'ORG' | 'PERSON' | 'GPE' | 'RO_PROVIDER';
-  confidence: number;
-}
+export type { SignalFlags } from './signal-taxonomy.ts';
+
+// A name from the signal taxonomy
+export type MonitorSignal = string;
 
-export interface ClassificationResult {
-  cayman_reasoning: string;
-  summary: string;
-  signal_details: Record<string, SignalDetail>;
+export type EntityType = 'ORG' | 'PERSON' | 'GPE' | 'RO_PROVIDER';
+
+// APIs articles are ingested from (articles.source_api)
+export const MONITOR_SOURCE_APIS = ['gdelt', 'newsapi', 'rss'] as const;
+
+export type MonitorSourceApi = (typeof MONITOR_SOURCE_APIS)[number];
+
+export type ArticleStatus = 'pending' | 'classified' | 'failed';
+
+export type ContentFetchStatus = 'pending' | 'fetched' | 'paywalled' | 'blocked' | 'failed';
+
+/**
+ * The canonical name for a signal, accepting aliases; null if unknown
+ */
+export function canonicalSignal(name: string, taxonomy: SignalTaxonomy = DEFAULT_SIGNAL_TAXONOMY): MonitorSignal | null {
+  return taxonomy.canonical(name);
 }
 
-export interface SignalDetail {
-  confidence: number;
-  evidence: string;
+/**
+ * Flags for every signal, true for each (canonical or alias) name given
+ */
+export function signalFlags(names: Iterable<string>, taxonomy: SignalTaxonomy = DEFAULT_SIGNAL_TAXONOMY): SignalFlags {
+  return taxonomy.flags(names);
 }
 
-export interface LLMTokenUsage {
-  input_tokens?: number;
-  output_tokens?: number;
-  total_tokens?: number;
-  total_cost?: number;
+/**
+ * Signals set in a stored `signals` object, in taxonomy order
+ */
+export function activeSignals(
+  signals: Record<string, unknown> | null | undefined,
+  taxonomy: SignalTaxonomy = DEFAULT_SIGNAL_TAXONOMY
+): MonitorSignal[] {
+  return taxonomy.flagged(signals);
 }
 
-export interface MonitorEntity {
-  id: string;
-  entity_name: string;
-  entity_type: 'ORG' | 'PERSON' | 'GPE' | 'RO_PROVIDER';
-  normalized_name: string;
-  aliases: string[];
-  article_count: number;
-  first_seen: string;
-  last_seen: string;
-  metadata: Record<string, unknown>;
-  created_at: string;
+export interface CaymanEntity {
+  name: string;
+  type: EntityType;
+  confidence: number;
 }
 
 export interface MonitorSettings {
   id: string;
   gdelt_enabled: boolean;
-  newsapi_key: string | null;
   newsapi_enabled: boolean;
-  openai_api_key: string | null;
   ingest_schedule: string;
   lookback_hours: number;
   max_articles_per_run: number;
@@ -98,24 +77,25 @@ export interface MonitorSettings {
   last_newsapi_reset: string | null;
   enable_embeddings: boolean;
   enable_deduplication: boolean;
+  // null uses the embedding model's default (DEFAULT_STORY_THRESHOLDS)
+  story_similarity_threshold: number | null;
+  story_window_hours: number;
+  content_fetch_enabled: boolean;
+  content_fetch_delay_seconds: number;
+  rss_enabled: boolean;
+  rss_feeds: RSSFeedConfig[];
   created_at: string;
   updated_at: string;
 }
 
-export interface IngestionRun {
-  id: string;
-  source_api: string;
-  started_at: string;
-  completed_at: string | null;
-  status: string;
-  articles_fetched: number;
-  articles_new: number;
-  articles_duplicate: number;
-  articles_cayman_relevant: number;
-  errors: string[];
-  metadata: Record<string, unknown>;
-  triggered_by: string;
-  created_at: string;
+// One entry of monitor_settings.rss_feeds
+export interface RSSFeedConfig {
+  name: string;
+  url: string;
+  // Only items mentioning one of these are stored; empty takes every item
+  keywords?: string[];
+  language?: string;
+  enabled?: boolean;
 }
 
 // GDELT API Response Types
@@ -123,7 +103,7 @@ export interface GDELTArticle {
   url: string;
   url_mobile?: string;
   title: string;
-  seendate: string;
+  seendate: string; // Format: YYYYMMDDTHHMMSSZ
   socialimage?: string;
   domain: string;
   language: string;
@@ -131,7 +111,7 @@ export interface GDELTArticle {
 }
 
 export interface GDELTResponse {
-  articles: GDELTArticle[];
+  articles?: GDELTArticle[];
 }
 
 // NewsAPI Response Types
@@ -145,7 +125,7 @@ export interface NewsAPIArticle {
   description: string | null;
   url: string;
   urlToImage: string | null;
-  publishedAt: string;
+  publishedAt: string; // ISO 8601
   content: string | null;
 }
 
@@ -155,95 +135,223 @@ export interface NewsAPIResponse {
   articles: NewsAPIArticle[];
 }
 
-// LLM Classification Types
-export interface LLMClassificationRequest {
-  title: string;
-  content: string;
-  ro_providers: string[];
-}
+export type ArticleDTO = {
+  id: string;
+  url: string;
+  source: string;
+  title: string | null;
+  excerpt: string | null;
+  published_at: string | null;
+  cayman_flag: boolean;
+  signals: SignalFlags;
+  reasons: string[];
+  confidence: number | null;
+  // Set when the list is grouped by story
+  story?: StoryDTO | null;
+};
 
-export interface LLMClassificationResponse {
-  cayman_relevant: boolean;
-  cayman_confidence: number;
-  cayman_reasoning: string;
-  cayman_entities: CaymanEntity[];
-  signals_detected: string[];
-  signal_details: Record<string, SignalDetail>;
-  summary: string;
-}
-
-// API Response Types
-export interface APIArticleResponse {
-  success: boolean;
-  count: number;
-  total: number;
-  offset: number;
-  limit: number;
-  articles: MonitorArticle[];
-  error?: string;
-}
-
-export interface APIEntityArticlesResponse {
-  success: boolean;
-  entity: MonitorEntity;
-  count: number;
-  total: number;
+// A group of near-duplicate articles (syndicated copies of one story)
+export type StoryDTO = {
+  id: string;
+  title: string | null;
+  article_count: number;
+  source_count: number;
+  first_published_at: string | null;
+  last_published_at: string | null;
+};
+
+export type StoryArticlesResponse = {
+  story: StoryDTO;
   articles: Array<{
     id: string;
-    title: string;
     url: string;
-    published_at: string;
-    signals: string[];
-    mention_count: number;
-    confidence: number;
+    source: string;
+    source_name: string | null;
+    title: string | null;
+    published_at: string | null;
+    similarity_score: number | null;
   }>;
-  error?: string;
-}
+};
 
-export interface APIStatsResponse {
-  success: boolean;
-  stats: {
-    total_articles: number;
+export type EntityDTO = {
+  id: string;
+  name: string;
+  canonical_name: string | null;
+  type: EntityType;
+  aliases: string[];
+};
+
+export type IngestRunDTO = {
+  id: string;
+  source: string;
+  status: string;
+  fetched: number;
+  stored: number;
+  skipped: number;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+};
+
+export type ListArticlesResponse = {
+  items: ArticleDTO[];
+  next_cursor?: string;
+};
+
+export type ListArticlesRequest = {
+  signal?: MonitorSignal;
+  from?: string;
+  to?: string;
+  q?: string;
+  source?: string;
+  limit?: number;
+  cursor?: string;
+  // 'story' (default) lists one article per story; 'none' lists every copy
+  group?: 'story' | 'none';
+};
+
+export type StatsResponse = {
+  total_articles: number;
+  cayman_relevant: number;
+  by_signal: Partial<SignalFlags>;
+  by_source: Record<string, number>;
+  recent_24h: {
+    total: number;
     cayman_relevant: number;
-    cayman_percentage: number;
-    by_signal: Record<string, number>;
-    by_source: Record<string, number>;
-    recent_24h: {
-      total: number;
-      cayman_relevant: number;
-      high_priority: number;
-    };
-    top_entities: Array<{
-      id: string;
-      name: string;
-      type: string;
-      article_count: number;
-    }>;
-    last_ingestion: {
-      run_id: string;
-      source_api: string;
-      completed_at: string;
-      articles_new: number;
-      articles_cayman_relevant: number;
-    } | null;
-    classification_health: {
-      pending: number;
-      classified_today: number;
-      avg_confidence: number;
-      requires_review: number;
-    };
   };
-  error?: string;
+  top_entities: Array<{
+    id: string;
+    name: string;
+    type: string;
+    article_count: number;
+  }>;
+};
+
+export interface ArticleRow {
+  id: string;
+  url: string;
+  url_hash: string;
+  // Domain the article was published on
+  source: string;
+  // API it was ingested from: gdelt, newsapi, rss
+  source_api: string | null;
+  // Publication name where the API gives one
+  source_name: string | null;
+  author: string | null;
+  language: string | null;
+  title: string | null;
+  excerpt: string | null;
+  body: string | null;
+  published_at: string | null;
+  cayman_flag: boolean;
+  signals: Record<string, boolean>;
+  reasons: string[];
+  confidence: number | null;
+  embedding: number[] | null;
+  meta: Record<string, unknown>;
+  status: ArticleStatus;
+  classified_at: string | null;
+  requires_review: boolean;
+  // Full-text fetch (fetch_article_content); null when the source supplied the text
+  content_fetch_status: ContentFetchStatus | null;
+  content_fetch_attempts: number;
+  content_fetch_error: string | null;
+  content_fetched_at: string | null;
+  content_fetch_retry_at: string | null;
+  // Story clustering (cluster_stories); null until clustered
+  story_id: string | null;
+  similarity_score: number | null;
+  embedding_model: string | null;
+  clustered_at: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
-export interface APIIngestionResponse {
-  success: boolean;
-  run_id: string;
-  message: string;
+export interface StoryRow {
+  id: string;
+  title: string | null;
+  lead_article_id: string | null;
+  article_count: number;
+  source_count: number;
+  embedding_model: string;
+  first_published_at: string | null;
+  last_published_at: string | null;
+}
+
+export interface EntityRow {
+  id: string;
+  name: string;
+  canonical_name: string | null;
+  type: EntityType;
+  aliases: string[];
+}
+
+export interface ArticleEntityRow {
+  article_id: string;
+  entity_id: string;
+  role: string | null;
+}
+
+export interface IngestRunRow {
+  id: string;
   source: string;
-  lookback_hours: number;
+  status: string;
+  fetched: number;
+  stored: number;
+  skipped: number;
+  error: string | null;
+  triggered_by: string;
+  meta: Record<string, unknown>;
   started_at: string;
-  estimated_completion: string;
-  error?: string;
+  finished_at: string | null;
+}
+
+export function articleRowToDTO(row: ArticleRow, taxonomy: SignalTaxonomy = DEFAULT_SIGNAL_TAXONOMY): ArticleDTO {
+  return {
+    id: row.id,
+    url: row.url,
+    source: row.source,
+    title: row.title,
+    excerpt: row.excerpt,
+    published_at: row.published_at,
+    cayman_flag: row.cayman_flag,
+    signals: signalFlags(activeSignals(row.signals, taxonomy), taxonomy),
+    reasons: row.reasons,
+    confidence: row.confidence,
+  };
+}
+
+export function storyRowToDTO(row: StoryRow): StoryDTO {
+  return {
+    id: row.id,
+    title: row.title,
+    article_count: row.article_count,
+    source_count: row.source_count,
+    first_published_at: row.first_published_at,
+    last_published_at: row.last_published_at,
+  };
+}
+
+export function entityRowToDTO(row: EntityRow): EntityDTO {
+  return {
+    id: row.id,
+    name: row.name,
+    canonical_name: row.canonical_name,
+    type: row.type,
+    aliases: row.aliases,
+  };
 }
 
+export function ingestRunRowToDTO(row: IngestRunRow): IngestRunDTO {
+  return {
+    id: row.id,
+    source: row.source,
+    status: row.status,
+    fetched: row.fetched,
+    stored: row.stored,
+    skipped: row.skipped,
+    error: row.error,
+    started_at: row.started_at,
+    finished_at: row.finished_at,
+  };
+}
@@ -195,6 +195,22 @@ export function formatError(error: unknown): string {
   return JSON.stringify(error);
 }
 
+/**
+ * Restrict a query to rows after (at, id) in (column, id) order. Rows written
+ * together share a timestamp, so a cursor on the timestamp alone skips those
+ * left past a batch boundary. Without an id, rows after `at`.
+ */
+export function afterKeyset<Q extends { or(filters: string): Q }>(
+  query: Q,
+  column: string,
+  at: string,
+  id: string | null
+): Q {
+  return id
+    ? query.or(`${column}.gt.${at},and(${column}.eq.${at},id.gt.${id})`)
+    : query.or(`${column}.gt.${at}`);
+}
+
 /**
  * Calculate cost estimate for OpenAI tokens
  */
@@ -0,0 +1,76 @@
+// Delivery channels used by send-notification and send-notification-digest
+
+export interface ChannelResult {
+  success: boolean;
+  error?: string;
+  reason?: string;
+}
+
+export interface SlackPayload {
+  text: string;
+  blocks: unknown[];
+}
+
+export async function sendEmail(
+  to: string,
+  subject: string,
+  message: string,
+  html?: string
+): Promise<ChannelResult> {
+  console.log(`Would send email to ${to}: ${subject}${html ? ` (${html.length} bytes HTML)` : ''}`);
+  return { success: true };
+}
+
+/**
+ * Single-notification Slack message
+ */
+export function buildSlackMessage(title: string, message: string, data: Record<string, unknown>): SlackPayload {
+  return {
+    text: `*${title}*`,
+    blocks: [
+      {
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: title,
+        },
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: message,
+        },
+      },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `Data: \`${JSON.stringify(data)}\``,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+export async function sendSlackMessage(webhookUrl: string, payload: SlackPayload): Promise<ChannelResult> {
+  try {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Slack API error: ${response.status}`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
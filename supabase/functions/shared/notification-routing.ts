@@ -0,0 +1,164 @@
+// Notification routing
+//
+// Routing rules decide, per notification_type and priority, which channels a
+// notification goes to, who receives it, and whether it is sent immediately,
+// held until quiet hours end, or batched into a daily/weekly digest.
+
+export type NotificationPriority = 'low' | 'medium' | 'high' | 'critical';
+
+export type DeliveryMode = 'immediate' | 'daily_digest' | 'weekly_digest';
+
+export interface RoutingRule {
+  id: string;
+  name: string;
+  // null matches every notification type
+  notification_type: string | null;
+  priorities: NotificationPriority[];
+  channels: string[];
+  email_recipients: string[];
+  slack_webhook: string | null;
+  delivery_mode: DeliveryMode;
+  // "HH:MM" wall-clock times in the rule's timezone; both null disables quiet hours
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string;
+  digest_hour: number;
+  // 0 = Sunday ... 6 = Saturday, used by weekly digests
+  digest_weekday: number;
+  sort_order: number;
+  is_active: boolean;
+}
+
+export type DeliveryPlan =
+  | { action: 'send' }
+  | { action: 'queue'; reason: 'digest' | 'quiet_hours'; deliverAfter: Date };
+
+interface LocalClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * First active rule (by sort_order) whose type and priority match
+ */
+export function findRoutingRule(
+  rules: RoutingRule[],
+  notificationType: string,
+  priority: NotificationPriority
+): RoutingRule | null {
+  const ordered = rules.filter((rule) => rule.is_active).sort((a, b) => a.sort_order - b.sort_order);
+
+  return (
+    ordered.find(
+      (rule) =>
+        (!rule.notification_type || rule.notification_type === notificationType) &&
+        (rule.priorities.length === 0 || rule.priorities.includes(priority))
+    ) ?? null
+  );
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+export function localClock(date: Date, timeZone: string): LocalClock {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((part) => part.type === type)?.value ?? '0';
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  };
+}
+
+/**
+ * The instant at which the local clock in a timezone reads the given time, `dayOffset` days after `from`'s local date
+ */
+function atLocalTime(from: Date, timeZone: string, hour: number, minute: number, dayOffset: number): Date {
+  const clock = localClock(from, timeZone);
+  const offsetMs =
+    Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute) -
+    Math.floor(from.getTime() / 60000) * 60000;
+  return new Date(Date.UTC(clock.year, clock.month - 1, clock.day + dayOffset, hour, minute) - offsetMs);
+}
+
+function parseTime(value: string | null): number | null {
+  if (!value) return null;
+  const match = value.match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Whether `now` falls inside the rule's quiet hours (windows may cross midnight, e.g. 22:00-07:00)
+ */
+export function isInQuietHours(rule: RoutingRule, now: Date): boolean {
+  const start = parseTime(rule.quiet_hours_start);
+  const end = parseTime(rule.quiet_hours_end);
+  if (start === null || end === null || start === end) return false;
+
+  const clock = localClock(now, rule.timezone);
+  const minutes = clock.hour * 60 + clock.minute;
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * When the current quiet-hours window ends
+ */
+export function quietHoursEnd(rule: RoutingRule, now: Date): Date {
+  const end = parseTime(rule.quiet_hours_end) ?? 0;
+  const clock = localClock(now, rule.timezone);
+  const minutes = clock.hour * 60 + clock.minute;
+  return atLocalTime(now, rule.timezone, Math.floor(end / 60), end % 60, minutes < end ? 0 : 1);
+}
+
+/**
+ * Next digest send time after `now` for a daily or weekly rule
+ */
+export function nextDigestAt(rule: RoutingRule, now: Date): Date {
+  const clock = localClock(now, rule.timezone);
+  let days = clock.hour < rule.digest_hour ? 0 : 1;
+
+  if (rule.delivery_mode === 'weekly_digest') {
+    days = (rule.digest_weekday - clock.weekday + 7) % 7;
+    if (days === 0 && clock.hour >= rule.digest_hour) days = 7;
+  }
+
+  return atLocalTime(now, rule.timezone, rule.digest_hour, 0, days);
+}
+
+/**
+ * Decide whether a notification is sent now or queued.
+ * Critical notifications always go out immediately, ignoring digests and quiet hours.
+ */
+export function planDelivery(rule: RoutingRule, priority: NotificationPriority, now: Date): DeliveryPlan {
+  if (priority === 'critical') return { action: 'send' };
+
+  if (rule.delivery_mode === 'daily_digest' || rule.delivery_mode === 'weekly_digest') {
+    return { action: 'queue', reason: 'digest', deliverAfter: nextDigestAt(rule, now) };
+  }
+
+  if (isInQuietHours(rule, now)) {
+    return { action: 'queue', reason: 'quiet_hours', deliverAfter: quietHoursEnd(rule, now) };
+  }
+
+  return { action: 'send' };
+}
@@ -0,0 +1,61 @@
+// Local OCR engines
+//
+// Pages are rendered with MuPDF (WASM) and read with Tesseract (tesseract.js),
+// so scanned petitions and gazettes are OCR'd inside the edge function without
+// sending documents to a third-party API. Kept apart from ocr.ts so the
+// pipeline logic can be tested without loading either WASM module.
+
+import * as mupdf from 'npm:mupdf@1';
+import { createWorker } from 'npm:tesseract.js@5';
+import { OCR_DPI, runOcr, type OcrEngine, type OcrRunResult, type PageRasterizer, type PdfPageImage } from './ocr.ts';
+
+/** Providers in app_settings.ocr_provider that run in-process */
+export const LOCAL_OCR_PROVIDERS = ['tesseract'];
+
+/**
+ * Render the requested pages (1-based) to greyscale PNGs at the given DPI.
+ * Pages are yielded one at a time so only one bitmap is held in memory.
+ */
+export const mupdfRasterizer: PageRasterizer = async function* (pdf, pages, dpi) {
+  const document = mupdf.Document.openDocument(pdf, 'application/pdf');
+  try {
+    const pageCount = document.countPages();
+    const scale = dpi / 72;
+
+    for (const pageNumber of pages) {
+      if (pageNumber < 1 || pageNumber > pageCount) continue;
+
+      const page = document.loadPage(pageNumber - 1);
+      const pixmap = page.toPixmap(mupdf.Matrix.scale(scale, scale), mupdf.ColorSpace.DeviceGray, false, true);
+      const image: PdfPageImage = { page: pageNumber, png: pixmap.asPNG() };
+      pixmap.destroy();
+      page.destroy();
+
+      yield image;
+    }
+  } finally {
+    document.destroy();
+  }
+};
+
+export async function createTesseractEngine(language = 'eng'): Promise<OcrEngine> {
+  const worker = await createWorker(language);
+
+  return {
+    name: `tesseract:${language}`,
+    async recognize(image) {
+      const { data } = await worker.recognize(image.png);
+      return { text: data.text, confidence: data.confidence };
+    },
+    async terminate() {
+      await worker.terminate();
+    },
+  };
+}
+
+/**
+ * OCR the given pages in-process with MuPDF and Tesseract
+ */
+export async function runLocalOcr(pdf: Uint8Array, pages: number[], dpi = OCR_DPI): Promise<OcrRunResult> {
+  return runOcr(pdf, pages, mupdfRasterizer, await createTesseractEngine(), dpi);
+}
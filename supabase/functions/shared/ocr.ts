@@ -0,0 +1,221 @@
+// OCR stage for scanned PDFs
+//
+// When a PDF's text layer is too thin (shouldTriggerOCR), the pages worth
+// reading are rasterized and run through an OCR engine one at a time, keeping
+// each page's confidence. The OCR text then replaces the thin text page by page
+// in pdf_text. Rasterizer and engine are passed in so the pipeline runs the same
+// against the real engines (ocr-engines.ts) and test doubles.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import {
+  countWords,
+  identifyRelevantPages,
+  joinPdfTextPages,
+  splitPdfTextPages,
+  type PdfTextPage,
+} from './extraction-patterns.ts';
+
+export const OCR_DPI = 200;
+/** Pages below this mean confidence (0-100) go to review_queue */
+export const LOW_CONFIDENCE_THRESHOLD = 60;
+/** Edge functions have limited time and memory; long scans are OCR'd in part */
+export const MAX_OCR_PAGES = 12;
+/** A page with fewer words than this is treated as a scanned image */
+export const SPARSE_PAGE_WORDS = 20;
+
+export interface PdfPageImage {
+  page: number;
+  png: Uint8Array;
+}
+
+export type PageRasterizer = (pdf: Uint8Array, pages: number[], dpi: number) => AsyncIterable<PdfPageImage>;
+
+export interface OcrRecognition {
+  text: string;
+  /** 0-100 */
+  confidence: number;
+}
+
+export interface OcrEngine {
+  name: string;
+  recognize(image: PdfPageImage): Promise<OcrRecognition>;
+  terminate?(): Promise<void>;
+}
+
+export interface OcrPageResult {
+  page: number;
+  text: string;
+  confidence: number;
+  word_count: number;
+  error?: string;
+}
+
+export interface OcrRunResult {
+  engine: string;
+  dpi: number;
+  pages: OcrPageResult[];
+  mean_confidence: number | null;
+  low_confidence_pages: number[];
+}
+
+export interface MergedOcrText {
+  text: string;
+  /** Pages whose text now comes from OCR */
+  replaced_pages: number[];
+}
+
+/**
+ * Pages to OCR: those identifyRelevantPages picks out, or for a scan with no
+ * usable text layer at all, every near-empty page, capped at maxPages.
+ */
+export function selectOcrPages(text: string, pageCount: number, maxPages = MAX_OCR_PAGES): number[] {
+  const relevant = identifyRelevantPages(text).filter((page) => page <= pageCount);
+  if (relevant.length > 0) return relevant.slice(0, maxPages);
+
+  const wordsByPage = new Map(splitPdfTextPages(text).map(({ page, text }) => [page, countWords(text)]));
+  const sparse: number[] = [];
+  for (let page = 1; page <= pageCount && sparse.length < maxPages; page++) {
+    if ((wordsByPage.get(page) ?? 0) < SPARSE_PAGE_WORDS) sparse.push(page);
+  }
+  return sparse;
+}
+
+/**
+ * Rasterize and OCR the given pages. A page that fails is recorded with
+ * confidence 0 rather than failing the whole document.
+ */
+export async function runOcr(
+  pdf: Uint8Array,
+  pages: number[],
+  rasterize: PageRasterizer,
+  engine: OcrEngine,
+  dpi = OCR_DPI
+): Promise<OcrRunResult> {
+  const results: OcrPageResult[] = [];
+  const pending = new Set(pages);
+
+  try {
+    for await (const image of rasterize(pdf, pages, dpi)) {
+      pending.delete(image.page);
+      try {
+        const recognition = await engine.recognize(image);
+        const text = recognition.text.trim();
+        results.push({
+          page: image.page,
+          text,
+          confidence: Math.round(recognition.confidence * 100) / 100,
+          word_count: countWords(text),
+        });
+      } catch (error) {
+        results.push({
+          page: image.page,
+          text: '',
+          confidence: 0,
+          word_count: 0,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  } finally {
+    await engine.terminate?.();
+  }
+
+  for (const page of pending) {
+    results.push({ page, text: '', confidence: 0, word_count: 0, error: 'Page could not be rasterized' });
+  }
+  results.sort((a, b) => a.page - b.page);
+
+  const read = results.filter((result) => !result.error);
+  return {
+    engine: engine.name,
+    dpi,
+    pages: results,
+    mean_confidence: read.length
+      ? Math.round((read.reduce((sum, result) => sum + result.confidence, 0) / read.length) * 100) / 100
+      : null,
+    low_confidence_pages: results
+      .filter((result) => result.confidence < LOW_CONFIDENCE_THRESHOLD)
+      .map((result) => result.page),
+  };
+}
+
+/**
+ * Swap OCR text into the extracted text wherever OCR read more words than the
+ * text layer had, keeping the page markers in place
+ */
+export function mergeOcrText(originalText: string, ocrPages: OcrPageResult[], pageCount: number): MergedOcrText {
+  const original = new Map(splitPdfTextPages(originalText).map(({ page, text }) => [page, text]));
+  const ocr = new Map(ocrPages.map((result) => [result.page, result]));
+
+  const replaced: number[] = [];
+  const pages: PdfTextPage[] = [];
+  for (let page = 1; page <= pageCount; page++) {
+    const layerText = original.get(page) ?? '';
+    const ocrResult = ocr.get(page);
+
+    if (ocrResult && !ocrResult.error && ocrResult.word_count > countWords(layerText)) {
+      pages.push({ page, text: ocrResult.text });
+      replaced.push(page);
+    } else {
+      pages.push({ page, text: layerText });
+    }
+  }
+
+  return { text: joinPdfTextPages(pages), replaced_pages: replaced };
+}
+
+/**
+ * Keep per-page OCR output against the stored PDF, replacing any earlier run.
+ * Returns the ocr_pages id for each page so review items can point at them.
+ */
+export async function saveOcrPages(
+  supabase: SupabaseClient,
+  pdfObjectId: string,
+  run: OcrRunResult
+): Promise<Map<number, string>> {
+  const { data, error } = await supabase
+    .from('ocr_pages')
+    .upsert(
+      run.pages.map((page) => ({
+        pdf_object_id: pdfObjectId,
+        page_number: page.page,
+        engine: run.engine,
+        dpi: run.dpi,
+        text: page.text,
+        confidence: page.confidence,
+        word_count: page.word_count,
+        error: page.error ?? null,
+        created_at: new Date().toISOString(),
+      })),
+      { onConflict: 'pdf_object_id,page_number' }
+    )
+    .select('id, page_number');
+
+  if (error) {
+    console.error('Failed to save OCR pages:', error);
+    return new Map();
+  }
+  return new Map((data || []).map((row: { id: string; page_number: number }) => [row.page_number, row.id]));
+}
+
+/**
+ * review_queue rows for pages OCR could not read reliably. `source` names the
+ * case or gazette issue the page belongs to and is kept in notes.
+ */
+export function lowConfidenceReviewItems(
+  run: OcrRunResult,
+  pageIds: Map<number, string>,
+  source: Record<string, string>
+) {
+  return run.pages
+    .filter((page) => run.low_confidence_pages.includes(page.page) && pageIds.has(page.page))
+    .map((page) => ({
+      item_type: 'ocr_page',
+      item_id: pageIds.get(page.page)!,
+      reason: page.error
+        ? `OCR failed on page ${page.page}: ${page.error}`
+        : `Low OCR confidence on page ${page.page}: ${page.confidence}%`,
+      priority: page.confidence < 30 ? 'high' : 'medium',
+      notes: JSON.stringify({ ...source, page: page.page, confidence: page.confidence }),
+    }));
+}
@@ -0,0 +1,202 @@
+// PDF storage
+//
+// PDFs live in the private "pdfs" Storage bucket, keyed by the SHA-256 of
+// their content, with one pdf_objects row per distinct file. Storing the same
+// bytes twice returns the existing object. Tables that hold a PDF (cases,
+// gazette_issues, analyzed_*_pdfs) point at it through pdf_object_id; rows
+// written before this still carry bytea in pdf_bytes until migrate-pdf-storage
+// moves them, so readers go through loadRowPdf() which handles both.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export const PDF_BUCKET = 'pdfs';
+export const SIGNED_URL_TTL_SECONDS = 300;
+
+export interface PdfObject {
+  id: string;
+  sha256: string;
+  storage_path: string;
+  size_bytes: number;
+  content_type: string;
+  original_filename: string | null;
+  source_url: string | null;
+  created_at: string;
+}
+
+export interface StorePdfOptions {
+  filename?: string | null;
+  sourceUrl?: string | null;
+}
+
+export interface StoredPdf {
+  object: PdfObject;
+  /** The same bytes were already stored; nothing was uploaded */
+  deduplicated: boolean;
+}
+
+/** A row that holds a PDF either in storage or, before migration, as bytea */
+export interface PdfHoldingRow {
+  pdf_object_id?: string | null;
+  pdf_bytes?: unknown;
+}
+
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function pdfStoragePath(sha256: string): string {
+  return `${sha256.slice(0, 2)}/${sha256}.pdf`;
+}
+
+/**
+ * Base64 in chunks; spreading a whole PDF into String.fromCharCode overflows the stack
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+/**
+ * bytea as PostgREST returns it ("\x255044..." hex) or as a plain byte array
+ */
+export function byteaToBytes(value: unknown): Uint8Array | null {
+  if (value == null) return null;
+  if (value instanceof Uint8Array) return value;
+  if (Array.isArray(value)) return Uint8Array.from(value);
+
+  if (typeof value === 'object' && Array.isArray((value as { data?: unknown }).data)) {
+    return Uint8Array.from((value as { data: number[] }).data);
+  }
+
+  if (typeof value === 'string' && value.startsWith('\\x')) {
+    const hex = value.slice(2);
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+  }
+
+  return null;
+}
+
+export function isPdf(bytes: Uint8Array): boolean {
+  return new TextDecoder().decode(bytes.slice(0, 5)) === '%PDF-';
+}
+
+async function findByHash(supabase: SupabaseClient, sha256: string): Promise<PdfObject | null> {
+  const { data, error } = await supabase
+    .from('pdf_objects')
+    .select('*')
+    .eq('sha256', sha256)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as PdfObject | null;
+}
+
+/**
+ * Store a PDF once per distinct content and return its pdf_objects row
+ */
+export async function storePdf(
+  supabase: SupabaseClient,
+  bytes: Uint8Array,
+  options: StorePdfOptions = {}
+): Promise<StoredPdf> {
+  if (!isPdf(bytes)) {
+    throw new Error('Not a PDF');
+  }
+
+  const sha256 = await sha256Hex(bytes);
+  const existing = await findByHash(supabase, sha256);
+  if (existing) return { object: existing, deduplicated: true };
+
+  const storagePath = pdfStoragePath(sha256);
+  const { error: uploadError } = await supabase.storage
+    .from(PDF_BUCKET)
+    .upload(storagePath, bytes, { contentType: 'application/pdf', upsert: false });
+
+  // A concurrent upload of the same file got there first; the object is identical
+  if (uploadError && !/already exists|duplicate/i.test(uploadError.message)) {
+    throw new Error(`PDF upload failed: ${uploadError.message}`);
+  }
+
+  const { error: insertError } = await supabase
+    .from('pdf_objects')
+    .upsert(
+      {
+        sha256,
+        storage_path: storagePath,
+        size_bytes: bytes.length,
+        content_type: 'application/pdf',
+        original_filename: options.filename ?? null,
+        source_url: options.sourceUrl ?? null,
+      },
+      { onConflict: 'sha256', ignoreDuplicates: true }
+    );
+
+  if (insertError) throw insertError;
+
+  const stored = await findByHash(supabase, sha256);
+  if (!stored) throw new Error(`PDF object missing after insert: ${sha256}`);
+  return { object: stored, deduplicated: false };
+}
+
+export async function getPdfObject(supabase: SupabaseClient, objectId: string): Promise<PdfObject> {
+  const { data, error } = await supabase
+    .from('pdf_objects')
+    .select('*')
+    .eq('id', objectId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error(`PDF object not found: ${objectId}`);
+  return data as PdfObject;
+}
+
+export async function loadPdf(supabase: SupabaseClient, objectId: string): Promise<Uint8Array> {
+  const object = await getPdfObject(supabase, objectId);
+  const { data, error } = await supabase.storage.from(PDF_BUCKET).download(object.storage_path);
+  if (error || !data) {
+    throw new Error(`PDF download failed for ${object.storage_path}: ${error?.message ?? 'no data'}`);
+  }
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+/**
+ * The PDF behind a cases / gazette_issues row, from storage or legacy bytea
+ */
+export async function loadRowPdf(supabase: SupabaseClient, row: PdfHoldingRow): Promise<Uint8Array | null> {
+  if (row.pdf_object_id) return await loadPdf(supabase, row.pdf_object_id);
+  return byteaToBytes(row.pdf_bytes);
+}
+
+export async function signedPdfUrl(
+  supabase: SupabaseClient,
+  objectId: string,
+  expiresIn = SIGNED_URL_TTL_SECONDS
+): Promise<{ url: string; expires_at: string; object: PdfObject }> {
+  const object = await getPdfObject(supabase, objectId);
+  const { data, error } = await supabase.storage
+    .from(PDF_BUCKET)
+    .createSignedUrl(object.storage_path, expiresIn, {
+      download: object.original_filename || `${object.sha256.slice(0, 12)}.pdf`,
+    });
+
+  if (error || !data) {
+    throw new Error(`Could not sign PDF URL: ${error?.message ?? 'no data'}`);
+  }
+  return {
+    url: data.signedUrl,
+    expires_at: new Date(Date.now() + expiresIn * 1000).toISOString(),
+    object,
+  };
+}
@@ -0,0 +1,278 @@
+// Insolvency practitioner and firm resolution
+//
+// Gazette notices and case summaries name liquidators in free text:
+// "Kris Beighton of KPMG", "K. Beighton, KPMG Advisory Limited",
+// "Kris Beighton (KPMG)". These helpers split such text into individual
+// practitioner mentions and reduce each one to a key (surname + first initial
+// + firm) so the same person is recognised across sources.
+
+export interface PractitionerMention {
+  name: string;
+  firm: string | null;
+  emails: string[];
+}
+
+export interface PractitionerRecord {
+  id: string;
+  full_name: string;
+  surname: string;
+  first_initial: string;
+  normalized_key: string;
+  firm_id: string | null;
+  firm_key: string | null;
+  emails: string[];
+  aliases: string[];
+}
+
+/**
+ * Well-known firms and the spellings they appear under
+ */
+const FIRM_ALIASES: Array<[RegExp, string]> = [
+  [/\bkpmg\b/i, 'KPMG'],
+  [/pricewaterhouse|\bpwc\b/i, 'PwC'],
+  [/ernst\s*(?:&|and)\s*young|\bey\b/i, 'EY'],
+  [/\bdeloitte\b/i, 'Deloitte'],
+  [/\bgrant\s+thornton\b/i, 'Grant Thornton'],
+  [/\bbdo\b/i, 'BDO'],
+  [/\brsm\b/i, 'RSM'],
+  [/\bffp\b/i, 'FFP'],
+  [/\bkroll\b|duff\s*(?:&|and)\s*phelps/i, 'Kroll'],
+  [/alvarez\s*(?:&|and)\s*marsal/i, 'Alvarez & Marsal'],
+  [/\bteneo\b/i, 'Teneo'],
+  [/\binterpath\b/i, 'Interpath'],
+  [/\bfti\b/i, 'FTI Consulting'],
+  [/\bcrowe\b/i, 'Crowe'],
+  [/\bmazars\b|\bforvis\b/i, 'Forvis Mazars'],
+];
+
+/**
+ * Email domains that say nothing about the practitioner's firm
+ */
+const GENERIC_EMAIL_DOMAINS = new Set([
+  'gmail', 'googlemail', 'yahoo', 'hotmail', 'outlook', 'live', 'icloud', 'me', 'aol', 'proton', 'protonmail',
+]);
+
+const FIRM_WORDS = /\b(?:limited|ltd|llp|llc|inc|advisory|partners|consulting|restructuring|services|group|associates|recovery|insolvency|company|co|corporate|fiduciary|trust|management|solutions|global)\b|&/i;
+
+const ROLE_WORDS = /\b(?:joint\s+)?(?:provisional\s+|official\s+|voluntary\s+)?(?:liquidators?|receivers?(?:\s+and\s+managers?)?|trustees?(?:\s+in\s+bankruptcy)?|administrators?)\b|\bif appointed\b|\bappointed\b|\bboth\b|\beach\b|\bas\b/gi;
+
+const TITLES = /^(?:mr|mrs|ms|miss|dr|sir)\.?\s+/i;
+
+// Addressing prefixes from contact blocks: "EY Cayman Ltd, Attn: Dan Scott", "Dan Scott c/o EY"
+const ADDRESSING = /\b(?:attn|attention|fao|c\/o|care\s+of)\b\.?:?/gi;
+
+const EMAIL_REGEX = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+const PERSON_TOKEN = /^(?:[A-Z][a-zà-ÿ'’-]+(?:-[A-Z][a-zà-ÿ'’-]+)?|[A-Z]\.?|Mc[A-Z][a-z]+|Mac[A-Z][a-z]+|O'[A-Z][a-z]+)$/;
+
+/**
+ * Canonical display name for a firm ("KPMG Advisory (Cayman) Limited" -> "KPMG")
+ */
+export function canonicalFirmName(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const trimmed = raw.replace(/\s+/g, ' ').trim();
+  if (!trimmed) return null;
+
+  for (const [pattern, canonical] of FIRM_ALIASES) {
+    if (pattern.test(trimmed)) return canonical;
+  }
+
+  const cleaned = trimmed
+    .replace(/\((?:cayman|cayman islands|bvi)\)/gi, ' ')
+    .replace(/\b(?:cayman islands|cayman)\b/gi, ' ')
+    .replace(/,?\s*\b(?:limited|ltd\.?|llp|llc|inc\.?)\s*$/i, '')
+    .replace(/[.,;:]+$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return cleaned || null;
+}
+
+/**
+ * Comparison key for a firm
+ */
+export function firmKey(raw: string | null | undefined): string | null {
+  const canonical = canonicalFirmName(raw);
+  if (!canonical) return null;
+  return canonical.toLowerCase().replace(/&/g, 'and').replace(/[^a-z0-9]+/g, ' ').trim() || null;
+}
+
+/**
+ * Infer the firm from an email address when the domain belongs to a known firm
+ */
+export function firmFromEmail(email: string): string | null {
+  const domain = email.split('@')[1]?.toLowerCase();
+  if (!domain) return null;
+  const label = domain.split('.')[0];
+  if (GENERIC_EMAIL_DOMAINS.has(label)) return null;
+
+  for (const [pattern, canonical] of FIRM_ALIASES) {
+    if (pattern.test(label)) return canonical;
+  }
+  return null;
+}
+
+/**
+ * Find a well-known firm mentioned anywhere in a block of text (e.g. a contact address)
+ */
+export function findKnownFirm(text: string | null | undefined): string | null {
+  if (!text) return null;
+  for (const [pattern, canonical] of FIRM_ALIASES) {
+    if (pattern.test(text)) return canonical;
+  }
+  for (const email of text.match(EMAIL_REGEX) || []) {
+    const firm = firmFromEmail(email);
+    if (firm) return firm;
+  }
+  return null;
+}
+
+function isPersonName(text: string): boolean {
+  const tokens = text.replace(TITLES, '').trim().split(/\s+/);
+  if (tokens.length < 2 || tokens.length > 5) return false;
+  if (!tokens.every((token) => PERSON_TOKEN.test(token))) return false;
+  // The surname must be a full word, not an initial
+  return tokens[tokens.length - 1].replace('.', '').length > 1;
+}
+
+function isFirmName(text: string): boolean {
+  if (FIRM_ALIASES.some(([pattern]) => pattern.test(text))) return true;
+  if (FIRM_WORDS.test(text)) return true;
+  // Single all-caps token such as "KPMG" or "FFP"
+  return /^[A-Z0-9&]{2,}$/.test(text.trim());
+}
+
+/**
+ * Split a name into surname and first initial
+ */
+export function splitPersonName(name: string): { surname: string; firstInitial: string; tokens: string[] } {
+  const tokens = name.replace(TITLES, '').replace(/\./g, '. ').split(/\s+/).filter(Boolean);
+  const surname = tokens[tokens.length - 1] || '';
+  return { surname, firstInitial: (tokens[0] || '').charAt(0).toUpperCase(), tokens };
+}
+
+/**
+ * Key used to recognise the same practitioner across sources
+ */
+export function practitionerKey(name: string, firm: string | null): string {
+  const { surname, firstInitial } = splitPersonName(name);
+  return `${surname.toLowerCase().replace(/[^a-z'-]/g, '')}|${firstInitial.toLowerCase()}|${firmKey(firm) ?? ''}`;
+}
+
+/**
+ * Split free-form liquidator text into individual practitioner mentions
+ */
+export function parsePractitionerMentions(raw: string | null | undefined): PractitionerMention[] {
+  if (!raw) return [];
+  if (/^\s*[-•*]?\s*(?:none|n\/a|not (?:specified|appointed|applicable))\b/i.test(raw)) return [];
+
+  const emails = Array.from(new Set((raw.match(EMAIL_REGEX) || []).map((email) => email.toLowerCase())));
+  const mentions: PractitionerMention[] = [];
+
+  const clauses = raw
+    .replace(EMAIL_REGEX, ' ')
+    .split(/[\n;]+/)
+    .map((clause) => clause.replace(/^\s*[-•*]\s*/, '').trim())
+    .filter(Boolean);
+
+  for (const clause of clauses) {
+    const addressed = clause.search(ADDRESSING) !== -1;
+    let text = clause
+      .replace(ADDRESSING, ',')
+      .replace(ROLE_WORDS, ' ')
+      .replace(/\((?:cayman|cayman islands|bvi)\)/gi, ' ')
+      .replace(/[:]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    let firm: string | null = null;
+
+    // "Name (Firm)"
+    const parenthetical = text.match(/\(([^)]+)\)/);
+    if (parenthetical && isFirmName(parenthetical[1])) {
+      firm = parenthetical[1];
+      text = text.replace(parenthetical[0], ' ').trim();
+    }
+
+    // "Name(s) of/at/from Firm"
+    const ofFirm = text.match(/^(.*?)\s+(?:of|at|from|with)\s+(.+)$/);
+    if (!firm && ofFirm) {
+      firm = ofFirm[2];
+      text = ofFirm[1];
+    }
+
+    // "Name, Firm" - the trailing comma part is a firm when it does not look like a person
+    const parts = text.split(/\s*,\s*/).filter(Boolean);
+    if (!firm && parts.length > 1 && isFirmName(parts[parts.length - 1])) {
+      firm = parts.pop() ?? null;
+      text = parts.join(', ');
+    }
+
+    // "Firm, Attn: Name" - contact blocks put the firm first
+    if (!firm && addressed && parts.length > 1 && isFirmName(parts[0])) {
+      firm = parts.shift() ?? null;
+      text = parts.join(', ');
+    }
+
+    const names = text
+      .split(/\s*(?:,|\band\b|&)\s*/)
+      .map((name) => name.replace(/[.,]+$/, '').trim())
+      .filter((name) => isPersonName(name));
+
+    for (const name of names) {
+      mentions.push({ name: name.replace(TITLES, ''), firm: canonicalFirmName(firm), emails: [] });
+    }
+  }
+
+  // Attach each email to the practitioner whose surname appears in it
+  for (const email of emails) {
+    const local = email.split('@')[0];
+    const owner = mentions.find((mention) =>
+      local.includes(splitPersonName(mention.name).surname.toLowerCase().replace(/[^a-z]/g, ''))
+    );
+    if (owner) {
+      owner.emails.push(email);
+      owner.firm ??= firmFromEmail(email);
+    }
+  }
+
+  return mentions;
+}
+
+/**
+ * In-memory lookup over the practitioners table used during a directory build
+ */
+export class PractitionerIndex {
+  private byKey = new Map<string, PractitionerRecord>();
+  private byPerson = new Map<string, PractitionerRecord[]>();
+
+  constructor(practitioners: PractitionerRecord[] = []) {
+    practitioners.forEach((practitioner) => this.add(practitioner));
+  }
+
+  add(practitioner: PractitionerRecord): void {
+    this.byKey.set(practitioner.normalized_key, practitioner);
+    const personKey = `${practitioner.surname.toLowerCase()}|${practitioner.first_initial.toLowerCase()}`;
+    const list = this.byPerson.get(personKey) || [];
+    if (!list.includes(practitioner)) list.push(practitioner);
+    this.byPerson.set(personKey, list);
+  }
+
+  /**
+   * Exact key first; otherwise the only practitioner with the same surname and
+   * initial when one side has no firm recorded
+   */
+  match(mention: PractitionerMention): PractitionerRecord | null {
+    const key = practitionerKey(mention.name, mention.firm);
+    const exact = this.byKey.get(key);
+    if (exact) return exact;
+
+    const { surname, firstInitial } = splitPersonName(mention.name);
+    const candidates = this.byPerson.get(`${surname.toLowerCase()}|${firstInitial.toLowerCase()}`) || [];
+    const mentionFirm = firmKey(mention.firm);
+
+    const compatible = candidates.filter(
+      (candidate) => !mentionFirm || !candidate.firm_key || candidate.firm_key === mentionFirm
+    );
+    return compatible.length === 1 ? compatible[0] : null;
+  }
+}
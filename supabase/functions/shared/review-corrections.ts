@@ -0,0 +1,351 @@
+// Review corrections
+//
+// Reviewers fix extracted values from the Review Queue. Each review target is a
+// table with a fixed set of editable fields; a field is either a column or a
+// dotted path into one of the row's JSON columns (cases.parsed_json, articles.signals).
+// A correction updates the record, is written to audit_log and is kept in
+// extraction_examples. Exported, the corrections become labelled examples: the
+// source text the extractors read paired with the values a reviewer says are
+// right, which can be run back through extractTargetedFields (replayTargetedExtraction)
+// or the prompt named on the example.
+
+import { consolidateExtractionResults, extractTargetedFields } from './extraction-patterns.ts';
+import { DEFAULT_SIGNAL_TAXONOMY, type SignalTaxonomy } from './signal-taxonomy.ts';
+
+export type ReviewTarget = 'case' | 'gazette_notice' | 'article';
+
+export type ReviewFieldKind = 'text' | 'list' | 'boolean';
+
+export type ReviewFieldValue = string | string[] | boolean | null;
+
+export interface ReviewField {
+  /** Column name, or column.path.into.json */
+  key: string;
+  label: string;
+  kind: ReviewFieldKind;
+  /** extractTargetedFields field that extracts the same value, for replay */
+  extractorField?: string;
+}
+
+type ReviewRecord = Record<string, unknown>;
+
+interface ReviewTargetDefinition {
+  table: string;
+  /** Columns needed to read the fields and the example text */
+  select: string;
+  /** Prompt that produces these fields */
+  prompt: 'case_analysis' | 'gazette_notices' | 'article_classification';
+  fields: ReviewField[];
+  /** Text the extractors read for this record */
+  text(record: ReviewRecord): string;
+}
+
+export const REVIEW_TARGETS: Record<ReviewTarget, ReviewTargetDefinition> = {
+  case: {
+    table: 'cases',
+    select: 'id, parsed_json, pdf_text',
+    prompt: 'case_analysis',
+    fields: [
+      { key: 'parsed_json.company_overview.name', label: 'Company name', kind: 'text' },
+      { key: 'parsed_json.company_overview.registration_number', label: 'Registration number', kind: 'text' },
+      { key: 'parsed_json.company_overview.registered_office', label: 'Registered office', kind: 'text' },
+      { key: 'parsed_json.legal_details.cause_number', label: 'Cause number', kind: 'text' },
+      { key: 'parsed_json.legal_details.filing_date', label: 'Filing date', kind: 'text', extractorField: 'filing_date' },
+      { key: 'parsed_json.legal_details.filing_law_firm', label: 'Filing law firm', kind: 'text', extractorField: 'law_firm' },
+      { key: 'parsed_json.legal_details.petition_type', label: 'Petition type', kind: 'text' },
+      {
+        key: 'parsed_json.practitioners.appointments',
+        label: 'Appointed practitioners',
+        kind: 'list',
+        extractorField: 'liquidators',
+      },
+    ],
+    text: (record) => String(record.pdf_text ?? ''),
+  },
+  gazette_notice: {
+    table: 'gazette_notices',
+    select: 'id, company_name, appointment_type, appointment_date, liquidators, raw_block',
+    prompt: 'gazette_notices',
+    fields: [
+      { key: 'company_name', label: 'Company name', kind: 'text' },
+      { key: 'appointment_type', label: 'Appointment type', kind: 'text' },
+      { key: 'appointment_date', label: 'Appointment date', kind: 'text' },
+      { key: 'liquidators', label: 'Liquidators', kind: 'list', extractorField: 'liquidators' },
+    ],
+    text: (record) => String(record.raw_block ?? ''),
+  },
+  article: {
+    table: 'articles',
+    select: 'id, title, excerpt, body, cayman_flag, signals',
+    prompt: 'article_classification',
+    // One signals.<name> field per signal is added by reviewFields
+    fields: [{ key: 'cayman_flag', label: 'Cayman related', kind: 'boolean' }],
+    text: (record) => [record.title, record.excerpt, record.body].filter(Boolean).join('\n\n'),
+  },
+};
+
+export interface ReviewItemRef {
+  item_type: string;
+  item_id: string;
+  notes: string | null;
+}
+
+/**
+ * The record a review item's fields are edited on. Low-confidence OCR pages
+ * are corrected on the case they came from; gazette issues and final meeting
+ * matches have nothing to edit.
+ */
+export function reviewTargetFor(item: ReviewItemRef): { target: ReviewTarget; recordId: string } | null {
+  if (item.item_type === 'case' || item.item_type === 'gazette_notice' || item.item_type === 'article') {
+    return { target: item.item_type, recordId: item.item_id };
+  }
+
+  if (item.item_type === 'ocr_page' && item.notes) {
+    try {
+      const notes = JSON.parse(item.notes);
+      if (typeof notes.case_id === 'string') return { target: 'case', recordId: notes.case_id };
+    } catch {
+      // Free-text notes
+    }
+  }
+  return null;
+}
+
+function asFieldValue(kind: ReviewFieldKind, value: unknown): ReviewFieldValue {
+  if (value === undefined || value === null) return kind === 'list' ? [] : kind === 'boolean' ? false : null;
+
+  if (kind === 'boolean') return value === true;
+  if (kind === 'list') {
+    if (!Array.isArray(value)) return [];
+    // Case appointments are { name, firm, role }; review edits the names
+    return value
+      .map((entry) => (entry && typeof entry === 'object' ? (entry as { name?: unknown }).name : entry))
+      .filter((entry): entry is string => typeof entry === 'string' && entry.trim() !== '')
+      .map((entry) => entry.trim());
+  }
+
+  const text = String(value).trim();
+  return text === '' ? null : text;
+}
+
+function getPath(record: ReviewRecord, key: string): unknown {
+  return key.split('.').reduce<unknown>(
+    (value, part) => (value && typeof value === 'object' ? (value as ReviewRecord)[part] : undefined),
+    record
+  );
+}
+
+export function readReviewField(record: ReviewRecord, field: ReviewField): ReviewFieldValue {
+  return asFieldValue(field.kind, getPath(record, field.key));
+}
+
+/**
+ * Editable fields of a target; articles get a field for every signal in the taxonomy
+ */
+export function reviewFields(target: ReviewTarget, taxonomy: SignalTaxonomy = DEFAULT_SIGNAL_TAXONOMY): ReviewField[] {
+  const { fields } = REVIEW_TARGETS[target];
+  if (target !== 'article') return fields;
+
+  return [
+    ...fields,
+    ...taxonomy.signals.map((signal): ReviewField => ({ key: `signals.${signal.name}`, label: signal.label, kind: 'boolean' })),
+  ];
+}
+
+export function readReviewFields(
+  target: ReviewTarget,
+  record: ReviewRecord,
+  taxonomy: SignalTaxonomy = DEFAULT_SIGNAL_TAXONOMY
+): Record<string, ReviewFieldValue> {
+  return Object.fromEntries(reviewFields(target, taxonomy).map((field) => [field.key, readReviewField(record, field)]));
+}
+
+function normalizeForCompare(value: ReviewFieldValue): string {
+  if (Array.isArray(value)) return JSON.stringify(value.map((entry) => entry.toLowerCase()).sort());
+  return JSON.stringify(typeof value === 'string' ? value.replace(/\s+/g, ' ').toLowerCase() : value);
+}
+
+function sameValue(a: ReviewFieldValue, b: ReviewFieldValue): boolean {
+  return normalizeForCompare(a) === normalizeForCompare(b);
+}
+
+/**
+ * New list contents, keeping the other properties of object entries (a practitioner's
+ * firm and role) whose name is unchanged
+ */
+function mergeList(existing: unknown, names: string[]): unknown[] {
+  const entries = Array.isArray(existing) ? existing : [];
+  if (!entries.some((entry) => entry && typeof entry === 'object')) return names;
+
+  return names.map((name) => {
+    const match = entries.find(
+      (entry) =>
+        entry &&
+        typeof entry === 'object' &&
+        String((entry as { name?: unknown }).name ?? '').toLowerCase() === name.toLowerCase()
+    );
+    return match ?? { name, firm: null, role: null };
+  });
+}
+
+function setPath(record: ReviewRecord, key: string, value: unknown): ReviewRecord {
+  const [head, ...rest] = key.split('.');
+  if (rest.length === 0) return { ...record, [head]: value };
+
+  const child = record[head] && typeof record[head] === 'object' ? (record[head] as ReviewRecord) : {};
+  return { ...record, [head]: setPath(child, rest.join('.'), value) };
+}
+
+export interface FieldCorrection {
+  field: ReviewField;
+  original: ReviewFieldValue;
+  corrected: ReviewFieldValue;
+}
+
+/**
+ * Apply a reviewer's edits to a record. Returns the column updates to write
+ * and the fields that actually changed; unknown fields and edits that only
+ * change case or spacing are ignored.
+ */
+export function applyReviewCorrections(
+  target: ReviewTarget,
+  record: ReviewRecord,
+  edits: Record<string, unknown>,
+  taxonomy: SignalTaxonomy = DEFAULT_SIGNAL_TAXONOMY
+): { update: ReviewRecord; corrections: FieldCorrection[] } {
+  let updated = record;
+  const corrections: FieldCorrection[] = [];
+
+  for (const field of reviewFields(target, taxonomy)) {
+    if (!(field.key in edits)) continue;
+
+    const original = readReviewField(record, field);
+    const corrected = asFieldValue(field.kind, edits[field.key]);
+    if (sameValue(original, corrected)) continue;
+
+    const stored = field.kind === 'list' ? mergeList(getPath(record, field.key), corrected as string[]) : corrected;
+    updated = setPath(updated, field.key, stored);
+    corrections.push({ field, original, corrected });
+  }
+
+  const columns = new Set(corrections.map((correction) => correction.field.key.split('.')[0]));
+  const update = Object.fromEntries([...columns].map((column) => [column, updated[column]]));
+  return { update, corrections };
+}
+
+/** A row of extraction_examples */
+export interface ExtractionExampleRow {
+  target: ReviewTarget;
+  record_id: string;
+  field: string;
+  extractor_field: string | null;
+  original_value: unknown;
+  corrected_value: unknown;
+  corrected_by: string | null;
+  created_at: string;
+}
+
+export interface LabelledExample {
+  id: string;
+  target: ReviewTarget;
+  record_id: string;
+  prompt: ReviewTargetDefinition['prompt'];
+  text: string;
+  /** Reviewed value for each corrected field */
+  expected: Record<string, unknown>;
+  /** What the pipeline had extracted before review */
+  extracted: Record<string, unknown>;
+  /** expected, keyed by extractTargetedFields field */
+  expected_targeted: Record<string, unknown>;
+  corrected_by: string[];
+  corrected_at: string;
+}
+
+/**
+ * One example per corrected record, using the latest correction of each field.
+ * `texts` holds the source text per `${target}:${record_id}`; records without
+ * text cannot be replayed and are left out.
+ */
+export function buildLabelledExamples(rows: ExtractionExampleRow[], texts: Map<string, string>): LabelledExample[] {
+  const examples = new Map<string, LabelledExample>();
+  const ordered = [...rows].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  for (const row of ordered) {
+    const id = `${row.target}:${row.record_id}`;
+    const text = texts.get(id);
+    if (!text || !REVIEW_TARGETS[row.target]) continue;
+
+    let example = examples.get(id);
+    if (!example) {
+      example = {
+        id,
+        target: row.target,
+        record_id: row.record_id,
+        prompt: REVIEW_TARGETS[row.target].prompt,
+        text,
+        expected: {},
+        extracted: {},
+        expected_targeted: {},
+        corrected_by: [],
+        corrected_at: row.created_at,
+      };
+      examples.set(id, example);
+    }
+
+    // The first correction of a field holds what the pipeline originally extracted
+    if (!(row.field in example.extracted)) example.extracted[row.field] = row.original_value;
+    example.expected[row.field] = row.corrected_value;
+    if (row.extractor_field) example.expected_targeted[row.extractor_field] = row.corrected_value;
+    if (row.corrected_by && !example.corrected_by.includes(row.corrected_by)) example.corrected_by.push(row.corrected_by);
+    example.corrected_at = row.created_at;
+  }
+
+  return [...examples.values()];
+}
+
+export interface TargetedFieldAccuracy {
+  field: string;
+  examples: number;
+  extracted: number;
+  correct: number;
+  accuracy: number;
+}
+
+function matchesExpected(extracted: unknown, expected: unknown): boolean {
+  const normalize = (value: unknown) => String(value ?? '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+  if (Array.isArray(expected)) {
+    if (expected.length === 0) return extracted === undefined || (Array.isArray(extracted) && extracted.length === 0);
+    const found = new Set((Array.isArray(extracted) ? extracted : [extracted]).map(normalize));
+    return expected.every((value) => found.has(normalize(value)));
+  }
+  if (expected === null || expected === '') return extracted === undefined;
+  const candidates = Array.isArray(extracted) ? extracted : [extracted];
+  return candidates.some((value) => normalize(value) === normalize(expected));
+}
+
+/**
+ * Re-run extractTargetedFields over labelled examples and score it per field
+ * against the reviewed values
+ */
+export function replayTargetedExtraction(examples: LabelledExample[]): TargetedFieldAccuracy[] {
+  const scores = new Map<string, TargetedFieldAccuracy>();
+
+  for (const example of examples) {
+    const fields = Object.keys(example.expected_targeted);
+    if (fields.length === 0) continue;
+
+    const { data } = consolidateExtractionResults(extractTargetedFields(example.text, fields));
+
+    for (const field of fields) {
+      const score = scores.get(field) ?? { field, examples: 0, extracted: 0, correct: 0, accuracy: 0 };
+      score.examples++;
+      if (data[field] !== undefined) score.extracted++;
+      if (matchesExpected(data[field], example.expected_targeted[field])) score.correct++;
+      score.accuracy = Math.round((score.correct / score.examples) * 1000) / 10;
+      scores.set(field, score);
+    }
+  }
+
+  return [...scores.values()].sort((a, b) => a.field.localeCompare(b.field));
+}
@@ -0,0 +1,55 @@
+// Server-only secrets
+//
+// API keys live in app_secrets, which only the service role can read. Admins
+// set them from the Settings page through manage-secrets; the browser never
+// sees a stored value. Each key falls back to an environment variable so a
+// deployment can keep using `supabase secrets set` instead.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export const SECRET_NAMES = [
+  'openai_api_key',
+  'anthropic_api_key',
+  'firecrawl_api_key',
+  'ocr_api_key',
+  'newsapi_key',
+  'monitor_openai_api_key',
+] as const;
+
+export type SecretName = (typeof SECRET_NAMES)[number];
+
+// Environment variable checked when a secret is not stored
+export const SECRET_ENV_VARS: Record<SecretName, string> = {
+  openai_api_key: 'OPENAI_API_KEY',
+  anthropic_api_key: 'ANTHROPIC_API_KEY',
+  firecrawl_api_key: 'FIRECRAWL_API_KEY',
+  ocr_api_key: 'OCR_API_KEY',
+  newsapi_key: 'NEWSAPI_KEY',
+  monitor_openai_api_key: 'MONITOR_OPENAI_API_KEY',
+};
+
+export function isSecretName(name: unknown): name is SecretName {
+  return typeof name === 'string' && (SECRET_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Load secrets by name. Needs a service role client; missing keys are null.
+ */
+export async function loadSecrets<N extends SecretName>(
+  supabase: SupabaseClient,
+  names: readonly N[]
+): Promise<Record<N, string | null>> {
+  const { data, error } = await supabase.from('app_secrets').select('name, value').in('name', [...names]);
+  if (error) console.error('Failed to load secrets:', error.message);
+
+  const stored = new Map((data || []).map((row: { name: string; value: string }) => [row.name, row.value]));
+  const secrets = {} as Record<N, string | null>;
+  for (const name of names) {
+    secrets[name] = stored.get(name) || Deno.env.get(SECRET_ENV_VARS[name]) || null;
+  }
+  return secrets;
+}
+
+export async function loadSecret(supabase: SupabaseClient, name: SecretName): Promise<string | null> {
+  return (await loadSecrets(supabase, [name]))[name];
+}
@@ -0,0 +1,247 @@
+// Risk signal taxonomy
+//
+// The risk signals an article can carry (fraud, enforcement, ...) are rows in
+// monitor_signals rather than code. The classifier prompt, the keyword
+// heuristics, the monitor_api filters and stats, review routing and the
+// Monitor page badges are all built from the same list, so adding a signal is
+// an insert and retiring one is `active = false`. Articles keep every flag
+// they were given: articles.signals holds one boolean per signal name, and an
+// inactive signal is no longer detected but still shown and filterable.
+//
+// DEFAULT_SIGNALS mirrors the seed rows of 20251201000000_signal_taxonomy.sql
+// and is used when the table cannot be read.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export const SIGNAL_SEVERITIES = ['low', 'medium', 'high'] as const;
+
+export type SignalSeverity = (typeof SIGNAL_SEVERITIES)[number];
+
+export interface SignalDefinition {
+  // Key in articles.signals: lowercase letters, digits and underscores
+  name: string;
+  label: string;
+  // What the classifier should look for
+  description: string;
+  // Lowercase phrases for the no-LLM heuristic
+  keywords: string[];
+  // Cayman-related articles with a high severity signal always go to review
+  severity: SignalSeverity;
+  // Earlier names, folded into this one wherever signals are read
+  aliases: string[];
+  // Inactive signals are no longer detected but stay readable
+  active: boolean;
+}
+
+export type SignalFlags = Record<string, boolean>;
+
+export const DEFAULT_SIGNALS: SignalDefinition[] = [
+  {
+    name: 'financial_decline',
+    label: 'Financial Decline',
+    description: 'Financial distress, losses, declining performance, liquidity issues',
+    keywords: ['bankrupt', 'insolvency', 'liquidation', 'financial distress', 'debt default', 'asset decline'],
+    severity: 'medium',
+    aliases: [],
+    active: true,
+  },
+  {
+    name: 'fraud',
+    label: 'Fraud',
+    description: 'Allegations or evidence of fraud, misrepresentation, deception',
+    keywords: ['fraud', 'fraudulent', 'embezzlement', 'misappropriation', 'corruption', 'ponzi'],
+    severity: 'high',
+    aliases: [],
+    active: true,
+  },
+  {
+    name: 'misstated_financials',
+    label: 'Misstated Financials',
+    description: 'Accounting irregularities, restatements, audit issues',
+    keywords: ['accounting irregularities', 'restatement', 'audit', 'financial misstatement', 'cooking the books'],
+    severity: 'medium',
+    aliases: [],
+    active: true,
+  },
+  {
+    name: 'shareholder_issues',
+    label: 'Shareholder Issues',
+    description: 'Shareholder disputes, oppression, conflicts, activism',
+    keywords: ['shareholder lawsuit', 'derivative action', 'oppression', 'governance conflict'],
+    severity: 'low',
+    aliases: ['shareholder_dispute'],
+    active: true,
+  },
+  {
+    name: 'director_duties',
+    label: 'Director Duties',
+    description: 'Breaches of director duties, governance failures, conflicts of interest',
+    keywords: ['breach of fiduciary duty', 'director liability', 'wrongful trading', 'governance failure'],
+    severity: 'medium',
+    aliases: [],
+    active: true,
+  },
+  {
+    name: 'enforcement',
+    label: 'Enforcement',
+    description: 'Regulatory investigation, enforcement action, sanctions, penalties',
+    keywords: ['sec investigation', 'regulatory enforcement', 'doj', 'fca', 'sanctions', 'enforcement action'],
+    severity: 'high',
+    aliases: ['regulatory_investigation'],
+    active: true,
+  },
+  {
+    name: 'sanctions',
+    label: 'Sanctions',
+    description: 'Designation under a sanctions regime, asset freezes, dealings with sanctioned parties',
+    keywords: ['ofac', 'sanctions list', 'sanctioned', 'asset freeze', 'specially designated', 'sanctions breach'],
+    severity: 'high',
+    aliases: [],
+    active: true,
+  },
+  {
+    name: 'crypto_collapse',
+    label: 'Crypto Collapse',
+    description: 'Failure of a crypto exchange, fund or token: halted withdrawals, depegs, exploits',
+    keywords: [
+      'crypto exchange',
+      'withdrawals halted',
+      'withdrawal freeze',
+      'stablecoin depeg',
+      'token collapse',
+      'defi exploit',
+      'digital asset fund',
+    ],
+    severity: 'medium',
+    aliases: [],
+    active: true,
+  },
+  {
+    name: 'aml_breach',
+    label: 'AML Breach',
+    description: 'Money laundering, anti-money laundering or KYC failings, suspicious activity reports',
+    keywords: [
+      'money laundering',
+      'anti-money laundering',
+      'aml failings',
+      'kyc failures',
+      'suspicious activity report',
+      'proceeds of crime',
+    ],
+    severity: 'high',
+    aliases: [],
+    active: true,
+  },
+];
+
+export class SignalTaxonomy {
+  readonly signals: readonly SignalDefinition[];
+  private readonly lookup = new Map<string, SignalDefinition>();
+
+  constructor(signals: SignalDefinition[]) {
+    this.signals = signals;
+    // Aliases first so a signal named like another's alias wins
+    for (const signal of signals) {
+      for (const alias of signal.aliases) this.lookup.set(alias, signal);
+    }
+    for (const signal of signals) this.lookup.set(signal.name, signal);
+  }
+
+  /** Every signal name, active or not, in display order */
+  get names(): string[] {
+    return this.signals.map((signal) => signal.name);
+  }
+
+  /** Signals the classifier and heuristics look for */
+  get active(): SignalDefinition[] {
+    return this.signals.filter((signal) => signal.active);
+  }
+
+  /**
+   * The definition for a signal name or alias
+   */
+  get(name: string): SignalDefinition | undefined {
+    return this.lookup.get(name);
+  }
+
+  /**
+   * The canonical name for a signal, accepting aliases; null if unknown
+   */
+  canonical(name: string): string | null {
+    return this.lookup.get(name)?.name ?? null;
+  }
+
+  /**
+   * Flags for every signal, true for each (canonical or alias) name given
+   */
+  flags(names: Iterable<string>): SignalFlags {
+    const flags: SignalFlags = Object.fromEntries(this.signals.map((signal) => [signal.name, false]));
+    for (const name of names) {
+      const signal = this.canonical(name);
+      if (signal) flags[signal] = true;
+    }
+    return flags;
+  }
+
+  /**
+   * Signals set in a stored `signals` object, in taxonomy order
+   */
+  flagged(signals: Record<string, unknown> | null | undefined): string[] {
+    const flags = this.flags(Object.keys(signals || {}).filter((name) => signals?.[name] === true));
+    return this.names.filter((name) => flags[name]);
+  }
+
+  /**
+   * Active signals with a keyword in the text
+   */
+  matchKeywords(text: string): string[] {
+    const lowerText = text.toLowerCase();
+    return this.active
+      .filter((signal) => signal.keywords.some((keyword) => lowerText.includes(keyword)))
+      .map((signal) => signal.name);
+  }
+}
+
+export const DEFAULT_SIGNAL_TAXONOMY = new SignalTaxonomy(DEFAULT_SIGNALS);
+
+interface SignalRow {
+  name: string;
+  label: string | null;
+  description: string | null;
+  keywords: string[] | null;
+  severity: string | null;
+  aliases: string[] | null;
+  active: boolean | null;
+}
+
+function rowToDefinition(row: SignalRow): SignalDefinition {
+  return {
+    name: row.name,
+    label: row.label || row.name,
+    description: row.description || '',
+    keywords: (row.keywords || []).map((keyword) => keyword.toLowerCase().trim()).filter(Boolean),
+    severity: (SIGNAL_SEVERITIES as readonly string[]).includes(row.severity ?? '')
+      ? (row.severity as SignalSeverity)
+      : 'medium',
+    aliases: row.aliases || [],
+    active: row.active !== false,
+  };
+}
+
+/**
+ * The taxonomy in monitor_signals, or DEFAULT_SIGNALS if it cannot be read
+ */
+export async function loadSignalTaxonomy(supabase: SupabaseClient): Promise<SignalTaxonomy> {
+  const { data, error } = await supabase
+    .from('monitor_signals')
+    .select('name, label, description, keywords, severity, aliases, active')
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error || !data || data.length === 0) {
+    console.warn(`Using the default signal taxonomy: ${error ? error.message : 'monitor_signals is empty'}`);
+    return DEFAULT_SIGNAL_TAXONOMY;
+  }
+
+  return new SignalTaxonomy((data as SignalRow[]).map(rowToDefinition));
+}
@@ -0,0 +1,116 @@
+/**
+ * Tests for article fetching, readability extraction and robots.txt
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/tests/
+ */
+
+import { assert, assertEquals, assertStringIncludes } from "jsr:@std/assert@1";
+import {
+  detectPaywall,
+  extractArticleText,
+  fetchArticleContent,
+  isAllowedByRobots,
+  parseRobotsTxt,
+} from "../article-content.ts";
+
+const fixture = (name: string) =>
+  Deno.readTextFile(new URL(`./fixtures/article-content/${name}`, import.meta.url));
+
+function stubFetch(respond: (url: string) => Response | Promise<Response>): typeof fetch {
+  return ((input: string | URL | Request) => Promise.resolve(respond(String(input)))) as typeof fetch;
+}
+
+Deno.test("extracts the article paragraphs and leaves page furniture behind", async () => {
+  const article = extractArticleText(await fixture("news-article.html"));
+
+  assertEquals(article.title, "Cayman fund placed in official liquidation after redemption freeze");
+  assertEquals(
+    article.excerpt,
+    "The Grand Court appointed joint official liquidators to Harbour Point Opportunities Fund SPC on Monday.",
+  );
+
+  const paragraphs = article.text.split("\n\n");
+  assert(paragraphs[0].startsWith("The Grand Court of the Cayman Islands has appointed"), paragraphs[0]);
+  assertStringIncludes(article.text, "fund’s participating shares");
+  assertStringIncludes(article.text, "the fund’s books and records");
+
+  for (const furniture of ["Most read", "Sign up for our daily briefing", "Great article", "Copyright", "Markets"]) {
+    assert(!article.text.includes(furniture), `kept "${furniture}"`);
+  }
+  assert(article.word_count > 100);
+});
+
+Deno.test("recognises a paywall from schema.org and the subscription prompt", async () => {
+  assert(detectPaywall(await fixture("paywalled.html")));
+  assert(!detectPaywall(await fixture("news-article.html")));
+  assert(detectPaywall("<p>Short teaser.</p><p>To continue reading, please subscribe.</p>"));
+});
+
+Deno.test("fetchArticleContent reports each outcome without throwing", async () => {
+  const news = await fixture("news-article.html");
+  const paywalled = await fixture("paywalled.html");
+  const html = (body: string) => new Response(body, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+
+  const fetched = await fetchArticleContent("https://example.ky/news", { fetchFn: stubFetch(() => html(news)) });
+  assertEquals(fetched.status, "fetched");
+
+  const paid = await fetchArticleContent("https://example.ky/paid", { fetchFn: stubFetch(() => html(paywalled)) });
+  assertEquals(paid.status, "paywalled");
+  assertEquals(paid.status !== "fetched" && paid.retryable, false);
+
+  const forbidden = await fetchArticleContent("https://example.ky/x", {
+    fetchFn: stubFetch(() => new Response("no", { status: 403 })),
+  });
+  assertEquals(forbidden.status, "blocked");
+
+  const missing = await fetchArticleContent("https://example.ky/x", {
+    fetchFn: stubFetch(() => new Response("gone", { status: 404 })),
+  });
+  assertEquals(missing.status === "failed" && missing.retryable, false);
+
+  const overloaded = await fetchArticleContent("https://example.ky/x", {
+    fetchFn: stubFetch(() => new Response("busy", { status: 503 })),
+  });
+  assertEquals(overloaded.status === "failed" && overloaded.retryable, true);
+
+  const pdf = await fetchArticleContent("https://example.ky/x.pdf", {
+    fetchFn: stubFetch(() => new Response("%PDF-1.7", { headers: { "Content-Type": "application/pdf" } })),
+  });
+  assertEquals(pdf.status, "failed");
+
+  const hanging: typeof fetch = (_input, init) =>
+    new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener("abort", () => reject(init.signal!.reason));
+    });
+  const slow = await fetchArticleContent("https://example.ky/slow", { fetchFn: hanging, timeoutMs: 20 });
+  assertEquals(slow.status, "failed");
+  assertEquals(slow.status === "failed" && slow.error, "Timed out after 20ms");
+});
+
+Deno.test("robots.txt picks our group over * and the longest rule wins", () => {
+  const robots = [
+    "User-agent: *",
+    "Disallow: /",
+    "",
+    "User-agent: Googlebot",
+    "User-agent: CaymanWatch",
+    "Disallow: /news/premium/",
+    "Allow: /news/premium/free-*",
+    "Disallow: /*.pdf$",
+    "Crawl-delay: 30",
+  ].join("\n");
+
+  const rules = parseRobotsTxt(robots);
+  assertEquals(rules.crawlDelaySeconds, 30);
+  assert(isAllowedByRobots(rules, "/news/cayman-fund-liquidation"));
+  assert(!isAllowedByRobots(rules, "/news/premium/fraud-claims"));
+  assert(isAllowedByRobots(rules, "/news/premium/free-preview"));
+  assert(!isAllowedByRobots(rules, "/filings/petition.pdf"));
+  assert(isAllowedByRobots(rules, "/filings/petition.pdf?download=1"));
+
+  const others = parseRobotsTxt(robots, "SomeOtherBot");
+  assert(!isAllowedByRobots(others, "/news/cayman-fund-liquidation"));
+
+  assert(isAllowedByRobots(parseRobotsTxt(""), "/anything"));
+});
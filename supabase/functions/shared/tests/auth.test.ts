@@ -0,0 +1,87 @@
+/**
+ * Tests for caller identity and role checks
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/tests/
+ */
+
+import { assertEquals, assertRejects } from "jsr:@std/assert@1";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { actorName, AuthError, authenticate, hasRole, requireRole } from "../auth.ts";
+
+const SERVICE_KEY = "service-role-key";
+Deno.env.set("SUPABASE_SERVICE_ROLE_KEY", SERVICE_KEY);
+
+const USERS: Record<string, { id: string; email: string; role: string | null }> = {
+  "admin-token": { id: "u-admin", email: "admin@example.ky", role: "admin" },
+  "viewer-token": { id: "u-viewer", email: "viewer@example.ky", role: "viewer" },
+  "no-profile-token": { id: "u-new", email: "new@example.ky", role: null },
+};
+
+// Just enough of the client for auth.getUser and the user_profiles lookup
+const supabase = {
+  auth: {
+    getUser: (token: string) => {
+      const user = USERS[token];
+      return Promise.resolve(
+        user
+          ? { data: { user: { id: user.id, email: user.email } }, error: null }
+          : { data: { user: null }, error: { message: "invalid JWT" } }
+      );
+    },
+  },
+  from: () => {
+    let id = "";
+    const query = {
+      select: () => query,
+      eq: (_column: string, value: string) => {
+        id = value;
+        return query;
+      },
+      maybeSingle: () => {
+        const user = Object.values(USERS).find((u) => u.id === id);
+        return Promise.resolve({ data: user?.role ? { role: user.role } : null, error: null });
+      },
+    };
+    return query;
+  },
+} as unknown as SupabaseClient;
+
+function request(token?: string): Request {
+  return new Request("http://localhost/fn", {
+    method: "POST",
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+}
+
+Deno.test("orders roles viewer < analyst < admin", () => {
+  assertEquals(hasRole("admin", "analyst"), true);
+  assertEquals(hasRole("analyst", "analyst"), true);
+  assertEquals(hasRole("viewer", "analyst"), false);
+  assertEquals(hasRole(null, "viewer"), false);
+});
+
+Deno.test("treats the service role key as a system caller", async () => {
+  assertEquals(await authenticate(request(SERVICE_KEY), supabase, "admin"), null);
+  assertEquals(actorName(null, "cron"), "cron");
+});
+
+Deno.test("returns the signed-in user when their role is high enough", async () => {
+  const user = await authenticate(request("admin-token"), supabase, "analyst");
+  assertEquals(user, { id: "u-admin", email: "admin@example.ky", role: "admin" });
+  assertEquals(actorName(user, "cron"), "admin@example.ky");
+});
+
+Deno.test("rejects anon, unknown and under-privileged callers", async () => {
+  await assertRejects(() => authenticate(request(), supabase, "viewer"), AuthError, "Sign in required");
+  await assertRejects(() => authenticate(request("expired"), supabase, "viewer"), AuthError, "Sign in required");
+  await assertRejects(
+    () => authenticate(request("viewer-token"), supabase, "analyst"),
+    AuthError,
+    "needs the analyst role"
+  );
+  await assertRejects(() => authenticate(request("no-profile-token"), supabase, "viewer"), AuthError);
+
+  const response = await requireRole(request("viewer-token"), supabase, "admin", {});
+  assertEquals(response instanceof Response ? response.status : null, 403);
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for structured case analyses
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/tests/
+ */
+
+import { assertEquals, assertRejects } from "jsr:@std/assert@1";
+import {
+  caseAnalysisFromMarkdown,
+  caseAnalysisQuality,
+  completeCaseAnalysis,
+  readCaseAnalysis,
+  renderCaseAnalysisMarkdown,
+  validateCaseAnalysis,
+} from "../case-analysis.ts";
+import { createLLMClient } from "../llm/index.ts";
+
+const LEGACY_SUMMARY = `**1. COMPANY OVERVIEW**
+- Company name: China Example Holdings Limited 中国例子控股有限公司
+- Registration No. CR-123456 | Incorporated: 12 March 2005
+- Registered Office: Maples Corporate Services, George Town
+
+**2. LEGAL DETAILS**
+- Court: Grand Court of the Cayman Islands, FSD
+- Cause No.: FSD 123 of 2024 | Filed: 1 May 2024
+- Petition Type: Winding-up under section 92 Companies Act
+
+**3. KEY TIMELINE**
+| Date | Event |
+|------|-------|
+| 12 Mar 2005 | Incorporation |
+| 1 May 2024 | Petition filed |
+
+**4. FINANCIAL SUMMARY**
+- Solvency status: Insolvent
+
+**5. INSOLVENCY PRACTITIONERS**
+- John Smith and Jane Doe of Kroll (Cayman) Ltd
+
+---`;
+
+Deno.test("legacy markdown converts into the v1 schema", () => {
+  const analysis = caseAnalysisFromMarkdown(LEGACY_SUMMARY);
+
+  assertEquals(analysis.source, "legacy_markdown");
+  assertEquals(analysis.company_overview.name, "China Example Holdings Limited");
+  assertEquals(analysis.company_overview.name_chinese, "中国例子控股有限公司");
+  assertEquals(analysis.company_overview.registration_number, "CR-123456");
+  assertEquals(analysis.legal_details.cause_number, "FSD 123 of 2024");
+  assertEquals(analysis.legal_details.petition_type, "Winding-up");
+  assertEquals(analysis.legal_details.statutory_basis, "section 92 Companies Act");
+  assertEquals(analysis.timeline, [
+    { date: "12 Mar 2005", event: "Incorporation" },
+    { date: "1 May 2024", event: "Petition filed" },
+  ]);
+  assertEquals(analysis.practitioners.appointed, true);
+  assertEquals(analysis.practitioners.appointments.map((appointment) => appointment.name), ["John Smith", "Jane Doe"]);
+  assertEquals(caseAnalysisQuality(analysis).score, 100);
+});
+
+Deno.test("placeholders become null and unknown versions are rejected", () => {
+  const valid = validateCaseAnalysis({ schema_version: 1, legal_details: { court: "N/A", cause_number: "Not specified" } });
+  assertEquals(valid.success && valid.analysis.legal_details.court, null);
+
+  const invalid = validateCaseAnalysis({ schema_version: 2 });
+  assertEquals(invalid.success, false);
+});
+
+Deno.test("readCaseAnalysis accepts v1 objects and pre-v1 full_summary objects", () => {
+  const analysis = caseAnalysisFromMarkdown(LEGACY_SUMMARY);
+  assertEquals(readCaseAnalysis(analysis), analysis);
+  assertEquals(readCaseAnalysis({ full_summary: LEGACY_SUMMARY })?.legal_details.cause_number, "FSD 123 of 2024");
+  assertEquals(readCaseAnalysis({}), null);
+});
+
+Deno.test("rendered markdown keeps the dashboard section headings", () => {
+  const markdown = renderCaseAnalysisMarkdown(caseAnalysisFromMarkdown(LEGACY_SUMMARY));
+  assertEquals(caseAnalysisFromMarkdown(markdown).legal_details.cause_number, "FSD 123 of 2024");
+});
+
+Deno.test("invalid model output gets one repair round", async () => {
+  const replies = ['{"schema_version": 1, "timeline": "none"}', '{"schema_version": 1, "timeline": []}'];
+  const llm = createLLMClient({ mode: "mock", mockResponses: { case_consolidation: () => replies.shift()! } });
+
+  const analysis = await completeCaseAnalysis(llm, { task: "case_consolidation", messages: [{ role: "user", content: "x" }] });
+  assertEquals(analysis.timeline, []);
+  assertEquals(llm.usage.summary().calls, 2);
+
+  const broken = createLLMClient({ mode: "mock", mockResponses: { case_consolidation: "not json" } });
+  await assertRejects(() =>
+    completeCaseAnalysis(broken, { task: "case_consolidation", messages: [{ role: "user", content: "x" }] })
+  );
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for cause-number parsing and court matter lifecycle
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/tests/
+ */
+
+import { assertEquals } from "jsr:@std/assert@1";
+import {
+  courtEventFromTimelineEntry,
+  courtEventsFromText,
+  extractCauseNumbers,
+  formatCauseNumber,
+  parseCauseNumber,
+  summarizeCourtMatter,
+} from "../court-matters.ts";
+
+Deno.test("cause numbers written different ways share one key", () => {
+  const forms = [
+    "FSD 123 of 2025 (IKJ)",
+    "Cause No. FSD 123 of 2025",
+    "FSD Cause No. 123 of 2025",
+    "fsd 123/2025",
+    "FSD2025-0123",
+  ];
+  for (const form of forms) {
+    assertEquals(parseCauseNumber(form)?.key, "FSD-123-2025", form);
+  }
+
+  const parsed = parseCauseNumber("IN THE GRAND COURT ... CAUSE NO. FSD 123 of 2025 (IKJ)");
+  assertEquals(parsed, { division: "FSD", number: 123, year: 2025, judge: "IKJ", key: "FSD-123-2025" });
+  assertEquals(formatCauseNumber(parsed!), "FSD 123 of 2025 (IKJ)");
+});
+
+Deno.test("asides in brackets are not judge initials and non-causes are ignored", () => {
+  assertEquals(parseCauseNumber('FSD 45 of 2024 (the "Petition")')?.judge, null);
+  assertEquals(parseCauseNumber("G 12 of 2019")?.key, "G-12-2019");
+  assertEquals(parseCauseNumber("Registration No. 123456"), null);
+  assertEquals(parseCauseNumber(null), null);
+
+  const found = extractCauseNumbers("FSD 1 of 2025 (NSJ) consolidated with FSD 2 of 2025 and FSD 1/2025");
+  assertEquals(found.map((cause) => cause.key), ["FSD-1-2025", "FSD-2-2025"]);
+});
+
+const GRAND_COURT_NOTICE = `IN THE GRAND COURT OF THE CAYMAN ISLANDS
+FINANCIAL SERVICES DIVISION
+CAUSE NO. FSD 123 OF 2025 (IKJ)
+IN THE MATTER OF ALDER CREEK FUND LTD
+NOTICE is hereby given that a petition was presented to the Grand Court on 3 March 2025 for the
+winding up of the above-named company. The petition will be heard before the Honourable Justice
+Kawaley on 14th day of April 2025 at 10:00 a.m.`;
+
+const WINDING_UP_NOTICE = `CAUSE NO. FSD 123 OF 2025 (IKJ)
+ALDER CREEK FUND LTD (In Official Liquidation)
+By an order of the Grand Court dated 15 April 2025 the Company was ordered to be wound up and
+John Smith and Jane Doe of Kroll were appointed as joint official liquidators.`;
+
+Deno.test("Grand Court notices yield dated lifecycle events", () => {
+  assertEquals(courtEventsFromText(GRAND_COURT_NOTICE, "2025-03-10"), [
+    { type: "petition_filed", date: "2025-03-03" },
+    { type: "hearing", date: "2025-04-14" },
+  ]);
+
+  const events = courtEventsFromText(WINDING_UP_NOTICE, "2025-04-20");
+  assertEquals(events.find((event) => event.type === "winding_up_order")?.date, "2025-04-15");
+  assertEquals(events.find((event) => event.type === "liquidator_appointed")?.date, "2025-04-20");
+});
+
+Deno.test("case timeline entries classify by wording", () => {
+  assertEquals(courtEventFromTimelineEntry("2025-03-03", "Petition filed"), { type: "petition_filed", date: "2025-03-03" });
+  assertEquals(courtEventFromTimelineEntry("14 April 2025", "Hearing of the petition"), { type: "hearing", date: "2025-04-14" });
+  assertEquals(courtEventFromTimelineEntry("2005-03-12", "Incorporation"), null);
+});
+
+Deno.test("summary follows the matter to its furthest stage", () => {
+  const petitionOnly = summarizeCourtMatter(
+    [
+      { type: "petition_filed", date: "2025-03-03" },
+      { type: "hearing", date: "2025-04-14" },
+    ],
+    "2025-04-01"
+  );
+  assertEquals(petitionOnly.stage, "hearing");
+  assertEquals(petitionOnly.next_hearing_on, "2025-04-14");
+  assertEquals(petitionOnly.last_hearing_on, null);
+
+  const wound = summarizeCourtMatter(
+    [
+      { type: "petition_filed", date: "2025-03-03" },
+      { type: "hearing", date: "2025-04-14" },
+      { type: "winding_up_order", date: "2025-04-15" },
+      { type: "liquidator_appointed", date: "2025-04-15" },
+    ],
+    "2025-05-01"
+  );
+  assertEquals(wound.stage, "in_liquidation");
+  assertEquals(wound.last_hearing_on, "2025-04-14");
+  assertEquals(wound.winding_up_order_on, "2025-04-15");
+  assertEquals(wound.last_event_on, "2025-04-15");
+
+  const dismissed = summarizeCourtMatter(
+    [
+      { type: "petition_filed", date: "2025-03-03" },
+      { type: "dismissed", date: "2025-05-02" },
+    ],
+    "2025-06-01"
+  );
+  assertEquals(dismissed.stage, "dismissed");
+});
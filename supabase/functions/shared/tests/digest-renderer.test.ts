@@ -0,0 +1,103 @@
+/**
+ * Tests for rendering notification digests
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/tests/
+ */
+
+import { assert, assertEquals, assertStringIncludes } from "jsr:@std/assert@1";
+import { digestSubject, renderDigestHtml, renderDigestSlack, type Digest, type DigestItem } from "../digest-renderer.ts";
+
+function item(id: string, overrides: Partial<DigestItem> = {}): DigestItem {
+  return {
+    id,
+    notification_type: "watchlist_hit",
+    title: `Watchlist hit ${id}`,
+    message: "Company name matches",
+    priority: "medium",
+    sent_at: "2025-11-12T15:00:00Z",
+    ...overrides,
+  };
+}
+
+function digest(items: DigestItem[], overrides: Partial<Digest> = {}): Digest {
+  return {
+    ruleName: "Low priority daily",
+    reason: "digest",
+    periodStart: "2025-11-12T13:00:00Z",
+    periodEnd: "2025-11-13T13:00:00Z",
+    timezone: "America/Cayman",
+    items,
+    ...overrides,
+  };
+}
+
+Deno.test("digestSubject counts the notifications and says why they were held", () => {
+  assertEquals(digestSubject(digest([item("1")])), "Cayman Watch digest (Low priority daily): 1 notification");
+  assertEquals(
+    digestSubject(digest([item("1"), item("2")], { reason: "quiet_hours" })),
+    "Cayman Watch: 2 notifications held during quiet hours"
+  );
+});
+
+Deno.test("renderDigestHtml groups items by type, busiest type first", () => {
+  const html = renderDigestHtml(
+    digest([
+      item("1", { notification_type: "registry_new_cases", title: "Registry scrape finished" }),
+      item("2"),
+      item("3"),
+    ])
+  );
+
+  assertStringIncludes(html, "<title>Cayman Watch digest (Low priority daily): 3 notifications</title>");
+  assertStringIncludes(html, "Watchlist Hit (2)");
+  assertStringIncludes(html, "Registry New Cases (1)");
+  assert(html.indexOf("Watchlist Hit (2)") < html.indexOf("Registry New Cases (1)"));
+});
+
+Deno.test("renderDigestHtml lists higher priorities first within a type", () => {
+  const html = renderDigestHtml(
+    digest([
+      item("low", { priority: "low", title: "Low item" }),
+      item("critical", { priority: "critical", title: "Critical item" }),
+      item("medium", { priority: "medium", title: "Medium item" }),
+    ])
+  );
+
+  const order = ["Critical item", "Medium item", "Low item"].map((title) => html.indexOf(title));
+  assertEquals([...order].sort((a, b) => a - b), order);
+  assertStringIncludes(html, "#b91c1c");
+});
+
+Deno.test("renderDigestHtml escapes notification text and keeps line breaks", () => {
+  const html = renderDigestHtml(
+    digest([item("1", { title: "<script>alert('x')</script>", message: "Smith & Jones\nLine two" })])
+  );
+
+  assert(!html.includes("<script>"));
+  assertStringIncludes(html, "&lt;script&gt;alert(&#39;x&#39;)&lt;/script&gt;");
+  assertStringIncludes(html, "Smith &amp; Jones<br>Line two");
+});
+
+Deno.test("renderDigestHtml shows the period in the rule's timezone", () => {
+  const html = renderDigestHtml(digest([item("1")]));
+  // 13:00Z is 08:00 in Cayman
+  assertStringIncludes(html, "Nov 12, 08:00");
+  assertStringIncludes(html, "(America/Cayman)");
+});
+
+Deno.test("renderDigestHtml says when there is nothing to report", () => {
+  assertStringIncludes(renderDigestHtml(digest([])), "No notifications in this period.");
+  assert(!renderDigestHtml(digest([item("1")])).includes("No notifications in this period."));
+});
+
+Deno.test("renderDigestSlack keeps each type to one section of ten items", () => {
+  const items = Array.from({ length: 12 }, (_, i) => item(String(i)));
+  const slack = renderDigestSlack(digest(items));
+
+  assertEquals(slack.text, "Cayman Watch digest (Low priority daily): 12 notifications");
+  assertEquals(slack.blocks.length, 3);
+  const section = slack.blocks[2] as { text: { text: string } };
+  assertStringIncludes(section.text.text, "*Watchlist Hit* (12)");
+  assertStringIncludes(section.text.text, "…and 2 more");
+});
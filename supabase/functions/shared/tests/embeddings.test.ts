@@ -0,0 +1,148 @@
+/**
+ * Tests for article embeddings and story matching
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/tests/
+ */
+
+import { assert, assertAlmostEquals, assertEquals, assertRejects } from "jsr:@std/assert@1";
+import {
+  DEFAULT_STORY_THRESHOLDS,
+  EMBEDDING_DIMENSIONS,
+  bestStoryMatch,
+  cosineSimilarity,
+  createLocalEmbeddingProvider,
+  createOpenAIEmbeddingProvider,
+  embeddingText,
+  hashedEmbedding,
+} from "../embeddings.ts";
+import { BudgetGuard, LLMBudgetExceededError } from "../llm/budget.ts";
+import { LLMError } from "../llm/types.ts";
+
+const wire = embeddingText({
+  title: "Cayman court appoints liquidators to Harbour Point fund after investor redemptions halted",
+  excerpt: null,
+  body:
+    "GEORGE TOWN, Nov 20 (Reuters) - The Grand Court of the Cayman Islands has appointed joint official " +
+    "liquidators to Harbour Point Opportunities Fund SPC, three months after the hedge fund suspended " +
+    "redemptions and investors petitioned for it to be wound up. The liquidators, from a George Town " +
+    "restructuring firm, will take control of the fund's books and records and investigate transfers made " +
+    "to an affiliated manager before the suspension, according to the court order.",
+});
+
+// The same wire piece picked up by another site, with its own headline and only the excerpt
+const reprint = embeddingText({
+  title: "Liquidators appointed to Harbour Point fund by Cayman court",
+  excerpt:
+    "The Grand Court of the Cayman Islands has appointed joint official liquidators to Harbour Point " +
+    "Opportunities Fund SPC, three months after the hedge fund suspended redemptions and investors " +
+    "petitioned for it to be wound up.",
+  body: null,
+});
+
+// A different story about the same fund
+const followUp = embeddingText({
+  title: "Harbour Point investors sue former manager in New York over fees",
+  excerpt: null,
+  body:
+    "Investors in Harbour Point Opportunities Fund have filed suit in New York against the fund's former " +
+    "investment manager, alleging it charged performance fees on valuations that were later written down. " +
+    "The complaint seeks damages and the return of fees paid since 2021.",
+});
+
+Deno.test("embedding text is the title and the start of the body", () => {
+  assertEquals(embeddingText({ title: " Headline ", excerpt: "Excerpt", body: null }), "Headline\n\nExcerpt");
+  assertEquals(embeddingText({ title: null, excerpt: "Excerpt", body: "Body\n text" }), "Body text");
+  assertEquals(embeddingText({ title: "T", excerpt: null, body: "x".repeat(5000) }).length, 1000);
+});
+
+Deno.test("cosine similarity", () => {
+  assertAlmostEquals(cosineSimilarity([1, 0], [1, 0]), 1);
+  assertAlmostEquals(cosineSimilarity([1, 0], [0, 2]), 0);
+  assertAlmostEquals(cosineSimilarity([1, 1], [-1, -1]), -1);
+  assertEquals(cosineSimilarity([0, 0], [1, 0]), 0);
+});
+
+Deno.test("local embeddings are unit vectors that group reprints and separate other stories", async () => {
+  const { vectors, tokens } = await createLocalEmbeddingProvider().embed([wire, reprint, followUp, ""]);
+  const [a, b, c, empty] = vectors;
+
+  assertEquals(tokens, 0);
+  assertEquals(a.length, EMBEDDING_DIMENSIONS);
+  assertAlmostEquals(Math.hypot(...a), 1);
+  assert(empty.every((value) => value === 0));
+
+  // Deterministic: the same text always gives the same vector
+  assertEquals(hashedEmbedding(wire), a);
+
+  const threshold = DEFAULT_STORY_THRESHOLDS.local;
+  assert(cosineSimilarity(a, b) >= threshold, `reprint scored ${cosineSimilarity(a, b)}`);
+  assert(cosineSimilarity(a, c) < threshold, `follow-up scored ${cosineSimilarity(a, c)}`);
+});
+
+Deno.test("OpenAI embeddings are batched, reordered by index and retryable on 429", async () => {
+  const requests: Array<{ input: string[]; dimensions: number; model: string }> = [];
+  const server: typeof fetch = async (_input, init) => {
+    const body = JSON.parse(String(init?.body));
+    requests.push(body);
+    const data = body.input.map((text: string, index: number) => ({ index, embedding: [text.length, index] }));
+    return new Response(JSON.stringify({ data: data.reverse(), usage: { total_tokens: 7 } }));
+  };
+
+  const provider = createOpenAIEmbeddingProvider("sk-test", undefined, server);
+  const result = await provider.embed(["a", "bb", ""]);
+
+  assertEquals(provider.model, "text-embedding-3-small");
+  assertEquals(requests[0].dimensions, EMBEDDING_DIMENSIONS);
+  // Empty inputs are rejected by the API
+  assertEquals(requests[0].input, ["a", "bb", " "]);
+  assertEquals(result.vectors, [[1, 0], [2, 1], [1, 2]]);
+  assertEquals(result.tokens, 7);
+
+  const limited = createOpenAIEmbeddingProvider("sk-test", undefined, () =>
+    Promise.resolve(new Response("slow down", { status: 429, headers: { "retry-after": "3" } }))
+  );
+  const error = await assertRejects(() => limited.embed(["a"]), LLMError);
+  assertEquals(error.retryable, true);
+  assertEquals(error.retryAfterMs, 3000);
+});
+
+Deno.test("OpenAI embeddings are costed, recorded and refused once the budget is spent", async () => {
+  let calls = 0;
+  const server: typeof fetch = async (_input, init) => {
+    calls++;
+    const body = JSON.parse(String(init?.body));
+    const data = body.input.map((_text: string, index: number) => ({ index, embedding: [index] }));
+    return new Response(JSON.stringify({ data, usage: { total_tokens: 500_000 } }));
+  };
+
+  const budget = new BudgetGuard([
+    { name: "monitor", limits: { daily: 0.01, monthly: null }, spentToday: 0, spentThisMonth: 0 },
+  ]);
+  const recorded: Array<{ model: string; usage: { input_tokens: number; cost: number } }> = [];
+  const provider = createOpenAIEmbeddingProvider("sk-test", undefined, server, {
+    budget,
+    onUsage: (response) => Promise.resolve(void recorded.push(response)),
+  });
+
+  await provider.embed(["a"]);
+  assertEquals(recorded.length, 1);
+  assertEquals(recorded[0].model, "text-embedding-3-small");
+  assertEquals(recorded[0].usage.input_tokens, 500_000);
+  assertAlmostEquals(recorded[0].usage.cost, 0.01);
+
+  await assertRejects(() => provider.embed(["b"]), LLMBudgetExceededError);
+  assertEquals(calls, 1);
+});
+
+Deno.test("an article joins the most similar story above the threshold", () => {
+  const candidates = [
+    { article_id: "a1", story_id: "s1", similarity: 0.82 },
+    { article_id: "a2", story_id: "s2", similarity: 0.93 },
+    { article_id: "a3", story_id: "s1", similarity: 0.91 },
+  ];
+
+  assertEquals(bestStoryMatch(candidates, 0.9)?.story_id, "s2");
+  assertEquals(bestStoryMatch(candidates, 0.95), null);
+  assertEquals(bestStoryMatch([], 0.5), null);
+});
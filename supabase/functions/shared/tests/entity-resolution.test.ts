@@ -0,0 +1,126 @@
+/**
+ * Tests for cross-source company name and registration number matching
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/tests/
+ */
+
+import { assert, assertEquals } from "jsr:@std/assert@1";
+import {
+  CompanyIndex,
+  companyNameSimilarity,
+  extractCompanyNamesFromTitle,
+  extractRegistrationNumbers,
+  normalizeCompanyName,
+  normalizeRegistrationNo,
+  type CompanyRecord,
+} from "../entity-resolution.ts";
+
+function company(id: string, name: string, registrationNo: string | null = null, aliases: string[] = []): CompanyRecord {
+  return {
+    id,
+    canonical_name: name,
+    normalized_name: normalizeCompanyName(name),
+    registration_no: registrationNo,
+    aliases,
+  };
+}
+
+Deno.test("normalizeCompanyName collapses legal suffixes", () => {
+  const expected = normalizeCompanyName("Harbour Point Capital Ltd");
+  assertEquals(expected, "harbour point capital ltd");
+  assertEquals(normalizeCompanyName("Harbour Point Capital Limited"), expected);
+  assertEquals(normalizeCompanyName("HARBOUR POINT CAPITAL LTD."), expected);
+  assertEquals(normalizeCompanyName("Seven Mile Partners Limited Partnership"), normalizeCompanyName("Seven Mile Partners L.P."));
+  assertEquals(normalizeCompanyName("Reef Holding Corporation"), "reef holdings corp");
+});
+
+Deno.test("normalizeCompanyName strips punctuation, qualifiers and a leading article", () => {
+  assertEquals(normalizeCompanyName("The Blue Iguana Fund, Ltd."), "blue iguana fund ltd");
+  assertEquals(normalizeCompanyName("Smith & Jones (Cayman) Ltd"), "smith and jones cayman ltd");
+  assertEquals(normalizeCompanyName("North-West Trading Ltd"), "north west trading ltd");
+  assertEquals(normalizeCompanyName("Blue Iguana Fund Ltd (In Voluntary Liquidation)"), "blue iguana fund ltd");
+  assertEquals(normalizeCompanyName("Blue Iguana Fund Ltd (in official liquidation)"), "blue iguana fund ltd");
+  assertEquals(normalizeCompanyName(null), "");
+  assertEquals(normalizeCompanyName("  "), "");
+});
+
+Deno.test("normalizeRegistrationNo accepts the registry's spellings", () => {
+  assertEquals(normalizeRegistrationNo("IC-323061"), "IC-323061");
+  assertEquals(normalizeRegistrationNo("ic 323061"), "IC-323061");
+  assertEquals(normalizeRegistrationNo("Registration No. CR–12345"), "CR-12345");
+  assertEquals(normalizeRegistrationNo("323061"), null);
+  assertEquals(normalizeRegistrationNo(null), null);
+});
+
+Deno.test("extractRegistrationNumbers returns each number once", () => {
+  assertEquals(
+    extractRegistrationNumbers("IC-323061 (formerly CR 4411); see also ic323061"),
+    ["IC-323061", "CR-4411"]
+  );
+  assertEquals(extractRegistrationNumbers(""), []);
+});
+
+Deno.test("extractCompanyNamesFromTitle splits cause titles into companies", () => {
+  assertEquals(
+    extractCompanyNamesFromTitle("IN THE MATTER OF THE COMPANIES ACT (2023 REVISION) AND IN THE MATTER OF ABC FUND LTD (IN OFFICIAL LIQUIDATION)"),
+    ["ABC FUND LTD"]
+  );
+  assertEquals(extractCompanyNamesFromTitle("Coral Bay Capital Limited v Sandbar Holdings Inc."), [
+    "Coral Bay Capital Limited",
+    "Sandbar Holdings Inc",
+  ]);
+  assertEquals(extractCompanyNamesFromTitle(null), []);
+});
+
+Deno.test("CompanyIndex prefers the registration number over the name", () => {
+  const index = new CompanyIndex([
+    company("a", "Coral Bay Capital Ltd", "IC-100200"),
+    company("b", "Coral Bay Capital Ltd", null),
+  ]);
+
+  const match = index.match({ name: "Something Else Entirely Ltd", registrationNo: "ic 100200" });
+  assertEquals(match?.company.id, "a");
+  assertEquals(match?.method, "registration_no");
+  assertEquals(match?.confidence, 1.0);
+});
+
+Deno.test("CompanyIndex matches normalised names and aliases with lower confidence", () => {
+  const index = new CompanyIndex([
+    company("a", "Coral Bay Capital Limited", null, ["CBC Master Fund Ltd"]),
+  ]);
+
+  const byName = index.match({ name: "CORAL BAY CAPITAL LTD. (In Voluntary Liquidation)", registrationNo: null });
+  assertEquals(byName?.company.id, "a");
+  assertEquals(byName?.method, "normalized_name");
+  assertEquals(byName?.confidence, 0.9);
+
+  const byAlias = index.match({ name: "CBC Master Fund Limited", registrationNo: null });
+  assertEquals(byAlias?.company.id, "a");
+  assertEquals(byAlias?.method, "alias");
+  assertEquals(byAlias?.confidence, 0.8);
+});
+
+Deno.test("CompanyIndex needs an exact normalised name: close spellings are not matched", () => {
+  const index = new CompanyIndex([company("a", "Coral Bay Capital Ltd")]);
+
+  // Similar enough to score highly, but a one-letter difference can be a different company
+  const similarity = companyNameSimilarity("Coral Bay Capital Ltd", "Coral Bay Capitol Ltd");
+  assert(similarity > 0.9 && similarity < 1, `similarity was ${similarity}`);
+  assertEquals(index.match({ name: "Coral Bay Capitol Ltd", registrationNo: null }), null);
+  assertEquals(index.match({ name: "Coral Bay Capital Partners Ltd", registrationNo: null }), null);
+  assertEquals(index.match({ name: "", registrationNo: null }), null);
+});
+
+Deno.test("CompanyIndex rejects a name match with a conflicting registration number", () => {
+  const index = new CompanyIndex([company("a", "Coral Bay Capital Ltd", "IC-100200")]);
+
+  assertEquals(index.match({ name: "Coral Bay Capital Ltd", registrationNo: "IC-999999" }), null);
+  assertEquals(index.match({ name: "Coral Bay Capital Ltd", registrationNo: null })?.company.id, "a");
+});
+
+Deno.test("companyNameSimilarity compares names after normalisation", () => {
+  assertEquals(companyNameSimilarity("The Coral Bay Fund, Ltd.", "CORAL BAY FUND LIMITED"), 1);
+  assertEquals(companyNameSimilarity("Coral Bay Fund Ltd", null), 0);
+  assert(companyNameSimilarity("Coral Bay Fund Ltd", "Sandbar Holdings Inc") < 0.5);
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for matching final meeting notices to the liquidation notices they close
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/tests/
+ */
+
+import { assert, assertEquals } from "jsr:@std/assert@1";
+import {
+  AUTO_MATCH_SIMILARITY,
+  finalMeetingReviewNotes,
+  matchFinalMeeting,
+  readCandidateIds,
+  REVIEW_SIMILARITY,
+  type FinalMeetingNotice,
+} from "../final-meeting-matching.ts";
+import { companyNameSimilarity } from "../entity-resolution.ts";
+
+function notice(
+  id: string,
+  companyName: string,
+  issueDate: string,
+  registrationNo: string | null = null
+): FinalMeetingNotice {
+  return {
+    id,
+    company_name: companyName,
+    registration_no: registrationNo,
+    liquidation_type: "Voluntary",
+    final_meeting_date: null,
+    final_meeting_notice_id: null,
+    final_meeting_match_status: null,
+    created_at: `${issueDate}T09:00:00Z`,
+    analyzed_gazette_pdfs: { issue_number: `Ex${id}`, issue_date: issueDate },
+  };
+}
+
+function meeting(companyName: string, issueDate: string, registrationNo: string | null = null): FinalMeetingNotice {
+  return {
+    ...notice("m1", companyName, issueDate, registrationNo),
+    liquidation_type: "Unknown",
+    final_meeting_date: "2025-03-14",
+  };
+}
+
+Deno.test("a registration number match wins over names and links every notice for it", () => {
+  const outcome = matchFinalMeeting(meeting("Renamed Holdings Ltd", "2025-02-10", "IC 100200"), [
+    notice("n1", "Coral Bay Capital Limited", "2024-11-04", "IC-100200"),
+    notice("n2", "Coral Bay Capital Limited", "2024-11-18", "ic100200"),
+    notice("n3", "Renamed Holdings Ltd", "2024-12-02"),
+  ]);
+
+  assert(outcome.status === "matched");
+  assertEquals(outcome.method, "registration_no");
+  assertEquals(outcome.confidence, 1);
+  assertEquals(outcome.notices.map((n) => n.id), ["n1", "n2"]);
+});
+
+Deno.test("names match exactly after normalisation, or closely above the auto-match threshold", () => {
+  const exact = matchFinalMeeting(meeting("CORAL BAY CAPITAL LTD.", "2025-02-10"), [
+    notice("n1", "Coral Bay Capital Limited", "2024-11-04"),
+  ]);
+  assert(exact.status === "matched");
+  assertEquals(exact.method, "normalized_name");
+  assertEquals(exact.confidence, 1);
+
+  const score = companyNameSimilarity("Coral Bay Capitol Limited", "Coral Bay Capital Limited");
+  assert(score >= AUTO_MATCH_SIMILARITY && score < 1, `similarity was ${score}`);
+  const close = matchFinalMeeting(meeting("Coral Bay Capitol Limited", "2025-02-10"), [
+    notice("n1", "Coral Bay Capital Limited", "2024-11-04"),
+  ]);
+  assert(close.status === "matched");
+  assertEquals(close.method, "fuzzy_name");
+});
+
+Deno.test("only notices published on or before the final meeting are candidates", () => {
+  const outcome = matchFinalMeeting(meeting("Coral Bay Capital Limited", "2025-02-10"), [
+    notice("n1", "Coral Bay Capital Limited", "2025-02-24"),
+  ]);
+  assertEquals(outcome.status, "unmatched");
+
+  const sameDay = matchFinalMeeting(meeting("Coral Bay Capital Limited", "2025-02-10"), [
+    notice("n1", "Coral Bay Capital Limited", "2025-02-10"),
+  ]);
+  assertEquals(sameDay.status, "matched");
+});
+
+Deno.test("a conflicting registration number rules out a name match", () => {
+  const outcome = matchFinalMeeting(meeting("Coral Bay Capital Limited", "2025-02-10", "IC-999999"), [
+    notice("n1", "Coral Bay Capital Limited", "2024-11-04", "IC-100200"),
+  ]);
+  assertEquals(outcome.status, "unmatched");
+});
+
+Deno.test("two close companies, or a name between the thresholds, go to review", () => {
+  const tied = matchFinalMeeting(meeting("Coral Bay Capital Limited", "2025-02-10"), [
+    notice("n1", "Coral Bay Capital Limited", "2024-11-04"),
+    notice("n2", "Coral Bay Capitol Limited", "2024-12-02"),
+  ]);
+  assert(tied.status === "ambiguous");
+  assertEquals(tied.groups.map((group) => group.notices[0].id), ["n1", "n2"]);
+
+  const score = companyNameSimilarity("Coral Bay Capital Fund Limited", "Coral Bay Capital Limited");
+  assert(score >= REVIEW_SIMILARITY && score < AUTO_MATCH_SIMILARITY, `similarity was ${score}`);
+  const partial = matchFinalMeeting(meeting("Coral Bay Capital Fund Limited", "2025-02-10"), [
+    notice("n1", "Coral Bay Capital Limited", "2024-11-04"),
+  ]);
+  assertEquals(partial.status, "ambiguous");
+});
+
+Deno.test("different companies are not matched", () => {
+  const outcome = matchFinalMeeting(meeting("Sandbar Holdings Inc", "2025-02-10"), [
+    notice("n1", "Coral Bay Capital Limited", "2024-11-04"),
+  ]);
+  assertEquals(outcome.status, "unmatched");
+});
+
+Deno.test("review notes list every candidate id, and older notes are still read", () => {
+  const outcome = matchFinalMeeting(meeting("Coral Bay Capital Limited", "2025-02-10"), [
+    notice("n1", "Coral Bay Capital Limited", "2024-11-04"),
+    notice("n2", "Coral Bay Capital Limited", "2024-11-18"),
+    notice("n3", "Coral Bay Capitol Limited", "2024-12-02"),
+  ]);
+  assert(outcome.status === "ambiguous");
+
+  const notes = finalMeetingReviewNotes(outcome.groups);
+  assertEquals(notes.candidate_ids, ["n1", "n2", "n3"]);
+  assertEquals(notes.candidates[0], {
+    id: "n1",
+    company_name: "Coral Bay Capital Limited",
+    registration_no: null,
+    gazette: "Exn1",
+    similarity: 1,
+  });
+
+  assertEquals(readCandidateIds(JSON.stringify(notes)), ["n1", "n2", "n3"]);
+  assertEquals(readCandidateIds(JSON.stringify({ candidates: [{ id: "n9" }] })), ["n9"]);
+  assertEquals(readCandidateIds("not json"), []);
+  assertEquals(readCandidateIds(null), []);
+});
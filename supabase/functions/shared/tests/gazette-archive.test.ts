@@ -0,0 +1,138 @@
+/**
+ * Tests for gazette archive crawling, against a local fixture server
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env --allow-net supabase/functions/shared/tests/
+ */
+
+import { assertEquals, assertRejects } from "jsr:@std/assert@1";
+import {
+  crawlGazetteArchive,
+  downloadGazettePdf,
+  extractIssueDate,
+  extractIssueNumber,
+  parseGazetteListing,
+} from "../gazette-archive.ts";
+import { bytesToBase64 } from "../pdf-storage.ts";
+import { startGazetteFixtureServer } from "./gazette-fixture-server.ts";
+
+Deno.test("issue numbers and dates come from titles or file names", () => {
+  assertEquals(extractIssueNumber("Gazette No. 6 of 2025"), "Ga06/2025");
+  assertEquals(extractIssueNumber("Ga05-2025-2025-03-03.pdf"), "Ga05/2025");
+  assertEquals(extractIssueNumber("Extraordinary Gazette No. 63 of 2024"), "Ex63/2024");
+  assertEquals(extractIssueNumber("Ex63-2024.pdf"), "Ex63/2024");
+  assertEquals(extractIssueNumber("Gazette Supplement"), null);
+
+  assertEquals(extractIssueDate("Ga05-2025-2025-03-03.pdf"), "2025-03-03");
+  assertEquals(extractIssueDate("Extraordinary Gazette No. 63 of 2024 – 20 December 2024"), "2024-12-20");
+  assertEquals(extractIssueDate("Gazette Supplement"), null);
+});
+
+Deno.test("listing pages yield gazette PDFs and the next page", () => {
+  const html = `
+    <a href="/wp-content/uploads/2025/03/Ga06-2025-2025-03-17.pdf">Gazette No. 6 of 2025</a>
+    <a href="/wp-content/uploads/2025/03/Ga06-2025-2025-03-17.pdf">Download</a>
+    <a href="/wp-content/uploads/2025/03/budget-statement.pdf">Budget Statement</a>
+    <a href="/government-gazettes/page/2/">Older Entries</a>`;
+
+  const page = parseGazetteListing(html, "https://www.gov.ky/government-gazettes/", "regular");
+  assertEquals(page.entries, [
+    {
+      kind: "regular",
+      pdf_url: "https://www.gov.ky/wp-content/uploads/2025/03/Ga06-2025-2025-03-17.pdf",
+      title: "Gazette No. 6 of 2025",
+      issue_number: "Ga06/2025",
+      issue_date: "2025-03-17",
+    },
+  ]);
+  assertEquals(page.next_page_url, "https://www.gov.ky/government-gazettes/page/2/");
+});
+
+Deno.test("backfill crawl follows pagination and stops once pages are older than the range", async () => {
+  const server = startGazetteFixtureServer();
+  try {
+    const result = await crawlGazetteArchive({
+      kind: "regular",
+      from: "2024-12-01",
+      to: "2025-02-28",
+      baseUrl: server.baseUrl,
+    });
+
+    assertEquals(result.entries.map((entry) => entry.issue_number), ["Ga04/2025", "Ga03/2025", "Ga26/2024"]);
+    assertEquals(result.pages_crawled, 3);
+    assertEquals(result.undated_skipped, 1);
+    // Page 3 is entirely before the range, so its <link rel="next"> is never followed
+    assertEquals(server.requests.includes("/government-gazettes/page/4/"), false);
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test("crawl without a range keeps undated PDFs and respects maxPages", async () => {
+  const server = startGazetteFixtureServer();
+  try {
+    const result = await crawlGazetteArchive({ kind: "regular", baseUrl: server.baseUrl, maxPages: 2 });
+
+    assertEquals(result.pages_crawled, 2);
+    assertEquals(result.entries.length, 6);
+    assertEquals(result.entries.at(-1)?.title, "Gazette Supplement");
+    assertEquals(server.requests, ["/government-gazettes/", "/government-gazettes/page/2/"]);
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test("extraordinary archive dates issues from their titles", async () => {
+  const server = startGazetteFixtureServer();
+  try {
+    const result = await crawlGazetteArchive({ kind: "extraordinary", from: "2024-12-15", baseUrl: server.baseUrl });
+
+    assertEquals(result.pages_crawled, 1);
+    assertEquals(result.entries, [
+      {
+        kind: "extraordinary",
+        pdf_url: "https://www.gov.ky/wp-content/uploads/2024/12/Ex63-2024.pdf",
+        title: "Extraordinary Gazette No. 63 of 2024 – 20 December 2024",
+        issue_number: "Ex63/2024",
+        issue_date: "2024-12-20",
+      },
+    ]);
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test("a failing listing page aborts the crawl", async () => {
+  const server = startGazetteFixtureServer();
+  try {
+    await assertRejects(
+      () => crawlGazetteArchive({ kind: "regular", baseUrl: `${server.baseUrl}/not-gov-ky` }),
+      Error,
+      "404",
+    );
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test("downloads accept PDFs and reject error pages", async () => {
+  const server = startGazetteFixtureServer();
+  try {
+    const bytes = await downloadGazettePdf(`${server.baseUrl}/wp-content/uploads/2025/03/Ga05-2025-2025-03-03.pdf`);
+    assertEquals(new TextDecoder().decode(bytes.slice(0, 5)), "%PDF-");
+    assertEquals(atob(bytesToBase64(bytes)), new TextDecoder().decode(bytes));
+
+    await assertRejects(
+      () => downloadGazettePdf(`${server.baseUrl}/wp-content/uploads/2025/03/error-page.pdf`),
+      Error,
+      "Not a PDF",
+    );
+    await assertRejects(
+      () => downloadGazettePdf(`${server.baseUrl}/wp-content/uploads/2025/03/missing.pdf`),
+      Error,
+      "404",
+    );
+  } finally {
+    await server.close();
+  }
+});
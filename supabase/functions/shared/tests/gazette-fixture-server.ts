@@ -0,0 +1,67 @@
+/**
+ * Local stand-in for the gov.ky gazette archive
+ *
+ * Serves the listing pages in tests/fixtures/gazette-archive at the same paths
+ * gov.ky uses, and a tiny PDF for any /wp-content/uploads/*.pdf path. Point
+ * GAZETTE_BASE_URL (or crawlGazetteArchive's baseUrl) at server.baseUrl.
+ *
+ * Special paths:
+ * - *.pdf containing "error-page" - an HTML page served with a 200, as gov.ky does
+ *   for some removed uploads
+ * - *.pdf containing "missing"    - 404
+ */
+
+const FIXTURES = new URL("./fixtures/gazette-archive/", import.meta.url);
+
+const LISTING_PAGES: Record<string, string> = {
+  "/government-gazettes/": "regular-page-1.html",
+  "/government-gazettes/page/2/": "regular-page-2.html",
+  "/government-gazettes/page/3/": "regular-page-3.html",
+  "/extraordinary-gazettes/": "extraordinary-page-1.html",
+};
+
+export interface GazetteFixtureServer {
+  baseUrl: string;
+  /** Paths requested so far, in order */
+  requests: string[];
+  close(): Promise<void>;
+}
+
+export function startGazetteFixtureServer(): GazetteFixtureServer {
+  const requests: string[] = [];
+
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen: () => {} },
+    async (req) => {
+      const path = new URL(req.url).pathname;
+      requests.push(path);
+
+      const listing = LISTING_PAGES[path];
+      if (listing) {
+        const html = await Deno.readTextFile(new URL(listing, FIXTURES));
+        return new Response(html, { headers: { "Content-Type": "text/html; charset=UTF-8" } });
+      }
+
+      if (path.startsWith("/wp-content/uploads/") && path.endsWith(".pdf")) {
+        if (path.includes("missing")) {
+          return new Response("Not Found", { status: 404 });
+        }
+        if (path.includes("error-page")) {
+          return new Response("<!DOCTYPE html><html><body>Page not found</body></html>", {
+            headers: { "Content-Type": "text/html" },
+          });
+        }
+        const pdf = await Deno.readFile(new URL("sample.pdf", FIXTURES));
+        return new Response(pdf, { headers: { "Content-Type": "application/pdf" } });
+      }
+
+      return new Response("Not Found", { status: 404 });
+    },
+  );
+
+  return {
+    baseUrl: `http://127.0.0.1:${server.addr.port}`,
+    requests,
+    close: () => server.shutdown(),
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Tests for job kind definitions and retry policy
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/tests/
+ */
+
+import { assertEquals } from "jsr:@std/assert@1";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import {
+  casePipeline,
+  isRetryableStatus,
+  JOB_DEFINITIONS,
+  JOB_KINDS,
+  JOB_PIPELINES,
+  nextJobAttemptAt,
+} from "../jobs.ts";
+
+Deno.test("every kind and pipeline step has a definition", () => {
+  for (const kind of JOB_KINDS) {
+    assertEquals(typeof JOB_DEFINITIONS[kind].functionName, "string");
+  }
+  for (const build of Object.values(JOB_PIPELINES)) {
+    for (const spec of build()) assertEquals(JOB_KINDS.includes(spec.kind), true);
+  }
+});
+
+Deno.test("case pipeline steps get the case id from the capture they depend on", () => {
+  const [capture, extract, analyze] = casePipeline("row-1", "https://cdn.box.example/file.pdf");
+
+  assertEquals(capture.idempotency_key, "capture_pdf:row-1");
+  assertEquals(JOB_DEFINITIONS.capture_pdf.input(capture.payload!, {}), {
+    registry_row_id: "row-1",
+    box_cdn_url: "https://cdn.box.example/file.pdf",
+  });
+  assertEquals(JOB_DEFINITIONS[extract.kind].input({}, { capture_pdf: { case_id: "case-9" } }), { case_id: "case-9" });
+  assertEquals(JOB_DEFINITIONS[analyze.kind].input({}, { extract_pdf_text: { case_id: "case-9" } }), { case_id: "case-9" });
+});
+
+Deno.test("a gazette scrape queues a parse job for each new issue", async () => {
+  const chains = await JOB_DEFINITIONS.scrape_gazette.followUps!(
+    { results: [{ id: "issue-1" }, { issue_number: "no id" }, { id: "issue-2" }] },
+    {} as SupabaseClient
+  );
+
+  assertEquals(chains.map((chain) => chain.map((spec) => spec.idempotency_key)), [
+    ["parse_gazette:issue-1"],
+    ["parse_gazette:issue-2"],
+  ]);
+});
+
+Deno.test("retries back off exponentially, are capped, then dead-letter", () => {
+  const now = new Date("2025-11-24T00:00:00Z");
+  const policy = { maxAttempts: 4, baseDelaySeconds: 60, maxDelaySeconds: 150 };
+  const delay = (attempts: number) => {
+    const at = nextJobAttemptAt(attempts, policy.maxAttempts, policy, now);
+    return at ? (at.getTime() - now.getTime()) / 1000 : null;
+  };
+
+  assertEquals([delay(1), delay(2), delay(3), delay(4)], [60, 120, 150, null]);
+});
+
+Deno.test("only transient failures are retried", () => {
+  assertEquals([null, 408, 429, 500, 503].map(isRetryableStatus), [true, true, true, true, true]);
+  assertEquals([400, 404, 422].map(isRetryableStatus), [false, false, false]);
+});
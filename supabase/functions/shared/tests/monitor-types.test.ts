@@ -0,0 +1,88 @@
+/**
+ * Tests for the monitor signal taxonomy and its legacy names
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/tests/
+ */
+
+import { assertEquals } from "jsr:@std/assert@1";
+import { activeSignals, articleRowToDTO, canonicalSignal, signalFlags } from "../monitor-types.ts";
+import type { ArticleRow } from "../monitor-types.ts";
+import { legacySignalName, toBatchClassifyResponse, toIngestionRunResponse } from "../monitor-compat.ts";
+
+Deno.test("canonicalSignal maps the first monitor's names", () => {
+  assertEquals(canonicalSignal("fraud"), "fraud");
+  assertEquals(canonicalSignal("shareholder_dispute"), "shareholder_issues");
+  assertEquals(canonicalSignal("regulatory_investigation"), "enforcement");
+  assertEquals(canonicalSignal("cayman_related"), null);
+});
+
+Deno.test("legacySignalName is the inverse for renamed signals", () => {
+  assertEquals(legacySignalName("enforcement"), "regulatory_investigation");
+  assertEquals(legacySignalName("shareholder_issues"), "shareholder_dispute");
+  assertEquals(legacySignalName("director_duties"), "director_duties");
+});
+
+Deno.test("signalFlags sets every signal and ignores unknown names", () => {
+  assertEquals(signalFlags(["regulatory_investigation", "fraud", "nonsense"]), {
+    financial_decline: false,
+    fraud: true,
+    misstated_financials: false,
+    shareholder_issues: false,
+    director_duties: false,
+    enforcement: true,
+    sanctions: false,
+    crypto_collapse: false,
+    aml_breach: false,
+  });
+});
+
+Deno.test("activeSignals reads canonical and legacy keys in taxonomy order", () => {
+  assertEquals(activeSignals({ enforcement: true, fraud: true, financial_decline: false }), ["fraud", "enforcement"]);
+  assertEquals(activeSignals({ shareholder_dispute: true }), ["shareholder_issues"]);
+  assertEquals(activeSignals(null), []);
+});
+
+Deno.test("articleRowToDTO normalizes stored signals", () => {
+  const row = {
+    id: "a1",
+    url: "https://example.com/a1",
+    source: "example.com",
+    title: "Fund placed in liquidation",
+    excerpt: null,
+    published_at: "2025-11-01T00:00:00Z",
+    cayman_flag: true,
+    signals: { regulatory_investigation: true },
+    reasons: ["Regulator action"],
+    confidence: 0.8,
+    meta: {},
+    created_at: "2025-11-01T00:00:00Z",
+  } as unknown as ArticleRow;
+
+  const dto = articleRowToDTO(row);
+  assertEquals(dto.signals.enforcement, true);
+  assertEquals(dto.signals.fraud, false);
+});
+
+Deno.test("toIngestionRunResponse keeps the monitor-ingest-* field names", () => {
+  assertEquals(
+    toIngestionRunResponse({ success: true, run_id: "r1", fetched: 10, stored: 4, skipped: 6, keyword_matches: 3 }),
+    {
+      success: true,
+      run_id: "r1",
+      articles_fetched: 10,
+      articles_new: 4,
+      articles_duplicate: 6,
+      articles_cayman_relevant: 3,
+    },
+  );
+  assertEquals(toIngestionRunResponse({ success: false, error: "boom" }), { success: false, run_id: null, error: "boom" });
+});
+
+Deno.test("toBatchClassifyResponse counts heuristic skips as processed, not failed", () => {
+  assertEquals(
+    toBatchClassifyResponse({ success: true, message: "done", updated: 5, skipped: 7, heuristic_filtered: 4 }),
+    { success: true, message: "done", budget_exhausted: null, articles_processed: 9, articles_failed: 3 },
+  );
+  assertEquals(toBatchClassifyResponse({ success: false, error: "boom" }), { success: false, error: "boom", articles_processed: 0 });
+});
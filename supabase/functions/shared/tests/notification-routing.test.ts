@@ -0,0 +1,137 @@
+/**
+ * Tests for notification routing: rule selection, quiet hours and digest scheduling
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/tests/
+ */
+
+import { assertEquals } from "jsr:@std/assert@1";
+import {
+  findRoutingRule,
+  isInQuietHours,
+  planDelivery,
+  type RoutingRule,
+} from "../notification-routing.ts";
+
+// America/Cayman is UTC-5 all year, so local times below are UTC minus five hours
+function rule(overrides: Partial<RoutingRule> = {}): RoutingRule {
+  return {
+    id: "r1",
+    name: "Default",
+    notification_type: null,
+    priorities: [],
+    channels: ["email"],
+    email_recipients: ["alerts@example.com"],
+    slack_webhook: null,
+    delivery_mode: "immediate",
+    quiet_hours_start: "22:00",
+    quiet_hours_end: "07:00",
+    timezone: "America/Cayman",
+    digest_hour: 8,
+    digest_weekday: 1,
+    sort_order: 100,
+    is_active: true,
+    ...overrides,
+  };
+}
+
+Deno.test("isInQuietHours handles a window that crosses midnight", () => {
+  const overnight = rule();
+  assertEquals(isInQuietHours(overnight, new Date("2025-11-13T02:59:00Z")), false); // 21:59
+  assertEquals(isInQuietHours(overnight, new Date("2025-11-13T03:00:00Z")), true); // 22:00
+  assertEquals(isInQuietHours(overnight, new Date("2025-11-13T05:30:00Z")), true); // 00:30
+  assertEquals(isInQuietHours(overnight, new Date("2025-11-13T11:59:00Z")), true); // 06:59
+  assertEquals(isInQuietHours(overnight, new Date("2025-11-13T12:00:00Z")), false); // 07:00
+  assertEquals(isInQuietHours(overnight, new Date("2025-11-13T17:00:00Z")), false); // 12:00
+});
+
+Deno.test("isInQuietHours handles a window within one day", () => {
+  const lunch = rule({ quiet_hours_start: "12:00", quiet_hours_end: "13:30" });
+  assertEquals(isInQuietHours(lunch, new Date("2025-11-13T16:59:00Z")), false); // 11:59
+  assertEquals(isInQuietHours(lunch, new Date("2025-11-13T17:00:00Z")), true); // 12:00
+  assertEquals(isInQuietHours(lunch, new Date("2025-11-13T18:29:00Z")), true); // 13:29
+  assertEquals(isInQuietHours(lunch, new Date("2025-11-13T18:30:00Z")), false); // 13:30
+  assertEquals(isInQuietHours(lunch, new Date("2025-11-13T05:30:00Z")), false); // 00:30
+});
+
+Deno.test("isInQuietHours is off without a complete window", () => {
+  const at = new Date("2025-11-13T05:30:00Z");
+  assertEquals(isInQuietHours(rule({ quiet_hours_start: null }), at), false);
+  assertEquals(isInQuietHours(rule({ quiet_hours_end: null }), at), false);
+  assertEquals(isInQuietHours(rule({ quiet_hours_start: "22:00", quiet_hours_end: "22:00" }), at), false);
+});
+
+Deno.test("isInQuietHours reads the clock in the rule's timezone", () => {
+  // 23:30 in London is 18:30 in Cayman
+  const at = new Date("2025-11-13T23:30:00Z");
+  assertEquals(isInQuietHours(rule({ timezone: "Europe/London" }), at), true);
+  assertEquals(isInQuietHours(rule(), at), false);
+});
+
+Deno.test("planDelivery sends immediately outside quiet hours", () => {
+  assertEquals(planDelivery(rule(), "medium", new Date("2025-11-13T17:00:00Z")), { action: "send" });
+});
+
+Deno.test("planDelivery holds notifications until quiet hours end", () => {
+  // 23:30 and 02:00 local are both held until 07:00 on the 13th
+  assertEquals(planDelivery(rule(), "high", new Date("2025-11-13T04:30:00Z")), {
+    action: "queue",
+    reason: "quiet_hours",
+    deliverAfter: new Date("2025-11-13T12:00:00Z"),
+  });
+  assertEquals(planDelivery(rule(), "low", new Date("2025-11-13T07:00:00Z")), {
+    action: "queue",
+    reason: "quiet_hours",
+    deliverAfter: new Date("2025-11-13T12:00:00Z"),
+  });
+});
+
+Deno.test("planDelivery always sends critical notifications", () => {
+  assertEquals(planDelivery(rule(), "critical", new Date("2025-11-13T04:30:00Z")), { action: "send" });
+  assertEquals(planDelivery(rule({ delivery_mode: "weekly_digest" }), "critical", new Date()), { action: "send" });
+});
+
+Deno.test("planDelivery queues daily digests for the next digest hour", () => {
+  const daily = rule({ delivery_mode: "daily_digest", quiet_hours_start: null, quiet_hours_end: null });
+  // 05:00 local: later the same day
+  assertEquals(planDelivery(daily, "low", new Date("2025-11-13T10:00:00Z")), {
+    action: "queue",
+    reason: "digest",
+    deliverAfter: new Date("2025-11-13T13:00:00Z"),
+  });
+  // 08:00 local: the digest hour has started, so tomorrow
+  assertEquals(planDelivery(daily, "low", new Date("2025-11-13T13:00:00Z")), {
+    action: "queue",
+    reason: "digest",
+    deliverAfter: new Date("2025-11-14T13:00:00Z"),
+  });
+});
+
+Deno.test("planDelivery queues weekly digests for the next digest weekday", () => {
+  // Monday digests; 2025-11-13 is a Thursday
+  const weekly = rule({ delivery_mode: "weekly_digest" });
+  assertEquals(planDelivery(weekly, "medium", new Date("2025-11-13T17:00:00Z")), {
+    action: "queue",
+    reason: "digest",
+    deliverAfter: new Date("2025-11-17T13:00:00Z"),
+  });
+  // Monday after the digest hour waits a full week
+  assertEquals(planDelivery(weekly, "medium", new Date("2025-11-17T14:00:00Z")), {
+    action: "queue",
+    reason: "digest",
+    deliverAfter: new Date("2025-11-24T13:00:00Z"),
+  });
+});
+
+Deno.test("findRoutingRule takes the first active rule that matches", () => {
+  const rules = [
+    rule({ id: "fallback", sort_order: 100 }),
+    rule({ id: "watchlist-high", notification_type: "watchlist_hit", priorities: ["high", "critical"], sort_order: 10 }),
+    rule({ id: "retired", notification_type: "watchlist_hit", sort_order: 1, is_active: false }),
+  ];
+
+  assertEquals(findRoutingRule(rules, "watchlist_hit", "high")?.id, "watchlist-high");
+  assertEquals(findRoutingRule(rules, "watchlist_hit", "low")?.id, "fallback");
+  assertEquals(findRoutingRule(rules, "registry_new_cases", "critical")?.id, "fallback");
+  assertEquals(findRoutingRule(rules.slice(1), "registry_new_cases", "low"), null);
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for the OCR stage, with a fake rasterizer and engine standing in for
+ * MuPDF and Tesseract
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/tests/
+ */
+
+import { assertEquals } from "jsr:@std/assert@1";
+import { identifyRelevantPages, joinPdfTextPages, splitPdfTextPages } from "../extraction-patterns.ts";
+import {
+  lowConfidenceReviewItems,
+  mergeOcrText,
+  runOcr,
+  selectOcrPages,
+  type OcrEngine,
+  type PageRasterizer,
+} from "../ocr.ts";
+
+const PETITION_PAGE =
+  "IN THE MATTER OF THE COMPANIES ACT. Petition of the petitioner, a creditor, for the winding up of the respondent. The debt of US$1,250,000 remains unpaid.";
+
+// Each "image" carries its page number so the fake engine can answer per page
+const fakeRasterizer: PageRasterizer = async function* (_pdf, pages) {
+  for (const page of pages) {
+    if (page === 99) continue;
+    yield { page, png: Uint8Array.of(page) };
+  }
+};
+
+function fakeEngine(pages: Record<number, { text: string; confidence: number } | Error>) {
+  const engine: OcrEngine & { terminated: boolean } = {
+    name: "fake",
+    terminated: false,
+    recognize(image) {
+      const result = pages[image.page];
+      return result instanceof Error ? Promise.reject(result) : Promise.resolve(result);
+    },
+    terminate() {
+      engine.terminated = true;
+      return Promise.resolve();
+    },
+  };
+  return engine;
+}
+
+Deno.test("page markers split and join back to the same text", () => {
+  const text = joinPdfTextPages([
+    { page: 1, text: "first" },
+    { page: 2, text: "" },
+    { page: 3, text: PETITION_PAGE },
+  ]);
+
+  assertEquals(splitPdfTextPages(text).map((p) => p.page), [1, 2, 3]);
+  assertEquals(splitPdfTextPages(text)[2].text, PETITION_PAGE);
+  assertEquals(splitPdfTextPages("no markers here"), [{ page: 1, text: "no markers here" }]);
+});
+
+Deno.test("relevant pages are numbered from the page markers", () => {
+  const text = joinPdfTextPages([
+    { page: 1, text: "Cover sheet" },
+    { page: 2, text: PETITION_PAGE },
+    { page: 3, text: "Schedule of creditors" },
+  ]);
+
+  assertEquals(identifyRelevantPages(text), [2]);
+});
+
+Deno.test("a scan with no usable text OCRs its empty pages, capped", () => {
+  const text = joinPdfTextPages([
+    { page: 1, text: "" },
+    { page: 2, text: "" },
+    { page: 3, text: "" },
+  ]);
+
+  assertEquals(selectOcrPages(text, 3), [1, 2, 3]);
+  assertEquals(selectOcrPages(text, 3, 2), [1, 2]);
+  assertEquals(selectOcrPages(text + "\n\n" + joinPdfTextPages([{ page: 4, text: PETITION_PAGE }]), 4), [4]);
+});
+
+Deno.test("runOcr keeps per-page confidence and flags weak and failed pages", async () => {
+  const engine = fakeEngine({
+    1: { text: PETITION_PAGE, confidence: 91.234 },
+    2: { text: "l0w qual1ty sc4n", confidence: 42 },
+    3: new Error("worker crashed"),
+  });
+
+  const run = await runOcr(new Uint8Array(), [1, 2, 3, 99], fakeRasterizer, engine);
+
+  assertEquals(run.engine, "fake");
+  assertEquals(run.pages.map((p) => [p.page, p.confidence]), [[1, 91.23], [2, 42], [3, 0], [99, 0]]);
+  assertEquals(run.pages[2].error, "worker crashed");
+  assertEquals(run.pages[3].error, "Page could not be rasterized");
+  assertEquals(run.low_confidence_pages, [2, 3, 99]);
+  assertEquals(run.mean_confidence, 66.62);
+  assertEquals(engine.terminated, true);
+
+  const items = lowConfidenceReviewItems(run, new Map([[2, "page-2"], [3, "page-3"]]), { case_id: "c1" });
+  assertEquals(items.map((i) => [i.item_id, i.priority]), [["page-2", "medium"], ["page-3", "high"]]);
+  assertEquals(JSON.parse(items[0].notes), { case_id: "c1", page: 2, confidence: 42 });
+});
+
+Deno.test("OCR text replaces only pages where it read more than the text layer", () => {
+  const original = joinPdfTextPages([
+    { page: 1, text: "Header only" },
+    { page: 2, text: "A text layer page with more words than the OCR produced here" },
+  ]);
+
+  const merged = mergeOcrText(
+    original,
+    [
+      { page: 1, text: PETITION_PAGE, confidence: 88, word_count: 26 },
+      { page: 2, text: "short", confidence: 70, word_count: 1 },
+      { page: 3, text: "", confidence: 0, word_count: 0, error: "worker crashed" },
+    ],
+    3
+  );
+
+  assertEquals(merged.replaced_pages, [1]);
+  const pages = splitPdfTextPages(merged.text);
+  assertEquals(pages.map((p) => p.page), [1, 2, 3]);
+  assertEquals(pages[0].text, PETITION_PAGE);
+  assertEquals(pages[1].text, "A text layer page with more words than the OCR produced here");
+  assertEquals(pages[2].text, "");
+});
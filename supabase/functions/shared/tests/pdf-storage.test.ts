@@ -0,0 +1,44 @@
+/**
+ * Tests for PDF storage helpers
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/tests/
+ */
+
+import { assertEquals } from "jsr:@std/assert@1";
+import {
+  base64ToBytes,
+  byteaToBytes,
+  bytesToBase64,
+  isPdf,
+  pdfStoragePath,
+  sha256Hex,
+} from "../pdf-storage.ts";
+
+const PDF = new TextEncoder().encode("%PDF-1.4\n%%EOF\n");
+
+Deno.test("identical content hashes to one storage path", async () => {
+  const hash = await sha256Hex(PDF);
+  assertEquals(hash.length, 64);
+  assertEquals(await sha256Hex(PDF.slice()), hash);
+  assertEquals(pdfStoragePath(hash), `${hash.slice(0, 2)}/${hash}.pdf`);
+
+  const other = await sha256Hex(new TextEncoder().encode("%PDF-1.7\n%%EOF\n"));
+  assertEquals(other === hash, false);
+});
+
+Deno.test("legacy bytea decodes from PostgREST hex and byte arrays", () => {
+  assertEquals(byteaToBytes("\\x255044462d"), new TextEncoder().encode("%PDF-"));
+  assertEquals(byteaToBytes([37, 80, 68, 70, 45]), new TextEncoder().encode("%PDF-"));
+  assertEquals(byteaToBytes({ type: "Buffer", data: [37, 80] }), Uint8Array.from([37, 80]));
+  assertEquals(byteaToBytes(null), null);
+  assertEquals(byteaToBytes("not bytea"), null);
+});
+
+Deno.test("base64 round-trips large files and PDFs are recognised by header", () => {
+  const large = new Uint8Array(200_000).map((_, i) => i % 256);
+  assertEquals(base64ToBytes(bytesToBase64(large)), large);
+
+  assertEquals(isPdf(PDF), true);
+  assertEquals(isPdf(new TextEncoder().encode("<!DOCTYPE html>")), false);
+});
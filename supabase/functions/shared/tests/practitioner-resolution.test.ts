@@ -0,0 +1,109 @@
+/**
+ * Tests for splitting liquidator text into practitioners and recognising them across sources
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/tests/
+ */
+
+import { assertEquals } from "jsr:@std/assert@1";
+import {
+  canonicalFirmName,
+  parsePractitionerMentions,
+  PractitionerIndex,
+  practitionerKey,
+  splitPersonName,
+  type PractitionerMention,
+  type PractitionerRecord,
+} from "../practitioner-resolution.ts";
+
+function record(id: string, mention: PractitionerMention): PractitionerRecord {
+  const { surname, firstInitial } = splitPersonName(mention.name);
+  return {
+    id,
+    full_name: mention.name,
+    surname,
+    first_initial: firstInitial,
+    normalized_key: practitionerKey(mention.name, mention.firm),
+    firm_id: null,
+    firm_key: mention.firm ? mention.firm.toLowerCase() : null,
+    emails: mention.emails,
+    aliases: [],
+  };
+}
+
+Deno.test("parsePractitionerMentions reads the common ways of naming a liquidator", () => {
+  assertEquals(parsePractitionerMentions("Kris Beighton of KPMG"), [
+    { name: "Kris Beighton", firm: "KPMG", emails: [] },
+  ]);
+  assertEquals(parsePractitionerMentions("K. Beighton, KPMG"), [
+    { name: "K. Beighton", firm: "KPMG", emails: [] },
+  ]);
+  assertEquals(parsePractitionerMentions("Kris Beighton (KPMG Advisory (Cayman) Limited)"), [
+    { name: "Kris Beighton", firm: "KPMG", emails: [] },
+  ]);
+});
+
+Deno.test("'Kris Beighton of KPMG' and 'K. Beighton, KPMG' are the same practitioner", () => {
+  const [full] = parsePractitionerMentions("Kris Beighton of KPMG");
+  const [initial] = parsePractitionerMentions("K. Beighton, KPMG");
+
+  assertEquals(practitionerKey(full.name, full.firm), practitionerKey(initial.name, initial.firm));
+
+  const index = new PractitionerIndex([record("p1", full)]);
+  assertEquals(index.match(initial)?.id, "p1");
+});
+
+Deno.test("parsePractitionerMentions splits joint appointments and drops role words", () => {
+  assertEquals(
+    parsePractitionerMentions("Joint Official Liquidators: Dan Scott and Jane Ebanks of Ernst & Young Ltd."),
+    [
+      { name: "Dan Scott", firm: "EY", emails: [] },
+      { name: "Jane Ebanks", firm: "EY", emails: [] },
+    ]
+  );
+});
+
+Deno.test("parsePractitionerMentions strips Attn: and c/o addressing", () => {
+  assertEquals(parsePractitionerMentions("EY Cayman Ltd, Attn: Dan Scott"), [
+    { name: "Dan Scott", firm: "EY", emails: [] },
+  ]);
+  assertEquals(parsePractitionerMentions("Dan Scott c/o EY Cayman Ltd"), [
+    { name: "Dan Scott", firm: "EY", emails: [] },
+  ]);
+  assertEquals(parsePractitionerMentions("c/o Harbour Restructuring Ltd, Attn. Jane Ebanks"), [
+    { name: "Jane Ebanks", firm: "Harbour Restructuring", emails: [] },
+  ]);
+});
+
+Deno.test("parsePractitionerMentions attaches emails and infers the firm from them", () => {
+  assertEquals(parsePractitionerMentions("Jane Ebanks, jane.ebanks@kpmg.ky"), [
+    { name: "Jane Ebanks", firm: "KPMG", emails: ["jane.ebanks@kpmg.ky"] },
+  ]);
+  assertEquals(parsePractitionerMentions("Jane Ebanks jebanks@gmail.com"), [
+    { name: "Jane Ebanks", firm: null, emails: ["jebanks@gmail.com"] },
+  ]);
+});
+
+Deno.test("parsePractitionerMentions ignores placeholders", () => {
+  assertEquals(parsePractitionerMentions("N/A"), []);
+  assertEquals(parsePractitionerMentions("Not appointed"), []);
+  assertEquals(parsePractitionerMentions(null), []);
+});
+
+Deno.test("canonicalFirmName folds well-known firms and strips legal suffixes", () => {
+  assertEquals(canonicalFirmName("PricewaterhouseCoopers Corporate Finance & Recovery (Cayman) Limited"), "PwC");
+  assertEquals(canonicalFirmName("Duff & Phelps"), "Kroll");
+  assertEquals(canonicalFirmName("Harbour Restructuring (Cayman) Ltd."), "Harbour Restructuring");
+  assertEquals(canonicalFirmName("  "), null);
+});
+
+Deno.test("PractitionerIndex keeps namesakes at different firms apart", () => {
+  const kpmg = record("p1", { name: "Dan Scott", firm: "KPMG", emails: [] });
+  const ey = record("p2", { name: "Dan Scott", firm: "EY", emails: [] });
+  const index = new PractitionerIndex([kpmg, ey]);
+
+  assertEquals(index.match({ name: "D. Scott", firm: "KPMG", emails: [] })?.id, "p1");
+  assertEquals(index.match({ name: "Dan Scott", firm: "EY", emails: [] })?.id, "p2");
+  // Without a firm either could be meant
+  assertEquals(index.match({ name: "Dan Scott", firm: null, emails: [] }), null);
+});
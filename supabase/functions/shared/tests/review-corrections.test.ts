@@ -0,0 +1,108 @@
+/**
+ * Tests for review corrections and labelled example replay
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/tests/
+ */
+
+import { assertEquals } from "jsr:@std/assert@1";
+import {
+  applyReviewCorrections,
+  buildLabelledExamples,
+  readReviewFields,
+  replayTargetedExtraction,
+  reviewTargetFor,
+  type ExtractionExampleRow,
+} from "../review-corrections.ts";
+
+const caseRecord = {
+  id: "case-1",
+  pdf_text: "Petition presented by Walkers on behalf of the company.",
+  parsed_json: {
+    schema_version: 1,
+    legal_details: { filing_law_firm: "Walker", cause_number: "FSD 12 of 2025" },
+    practitioners: {
+      appointed: true,
+      appointments: [{ name: "Jane Doe", firm: "Kroll", role: "Joint Official Liquidator" }],
+    },
+  },
+};
+
+Deno.test("case fields are read from parsed_json, appointments as names", () => {
+  const fields = readReviewFields("case", caseRecord);
+
+  assertEquals(fields["parsed_json.legal_details.cause_number"], "FSD 12 of 2025");
+  assertEquals(fields["parsed_json.practitioners.appointments"], ["Jane Doe"]);
+  assertEquals(fields["parsed_json.company_overview.name"], null);
+});
+
+Deno.test("corrections update only changed fields and keep practitioner details", () => {
+  const { update, corrections } = applyReviewCorrections("case", caseRecord, {
+    "parsed_json.legal_details.cause_number": "fsd 12  of 2025",
+    "parsed_json.legal_details.filing_law_firm": "Walkers",
+    "parsed_json.practitioners.appointments": ["Jane Doe", "John Roe"],
+    "not_a_field": "ignored",
+  });
+
+  assertEquals(
+    corrections.map((c) => c.field.key),
+    ["parsed_json.legal_details.filing_law_firm", "parsed_json.practitioners.appointments"]
+  );
+  assertEquals(Object.keys(update), ["parsed_json"]);
+
+  const parsed = update.parsed_json as typeof caseRecord.parsed_json;
+  assertEquals(parsed.legal_details.filing_law_firm, "Walkers");
+  assertEquals(parsed.legal_details.cause_number, "FSD 12 of 2025");
+  assertEquals(parsed.practitioners.appointments, [
+    { name: "Jane Doe", firm: "Kroll", role: "Joint Official Liquidator" },
+    { name: "John Roe", firm: null, role: null },
+  ]);
+});
+
+Deno.test("article signal corrections write the signals column", () => {
+  const article = { id: "a-1", cayman_flag: true, signals: { fraud: false, enforcement: true } };
+  const { update, corrections } = applyReviewCorrections("article", article, { "signals.fraud": true });
+
+  assertEquals(corrections.length, 1);
+  assertEquals(update, { signals: { fraud: true, enforcement: true } });
+});
+
+Deno.test("OCR page items are corrected on their case", () => {
+  assertEquals(
+    reviewTargetFor({ item_type: "ocr_page", item_id: "page-1", notes: '{"case_id":"case-1","page":3}' }),
+    { target: "case", recordId: "case-1" }
+  );
+  assertEquals(reviewTargetFor({ item_type: "gazette_issue", item_id: "issue-1", notes: null }), null);
+});
+
+Deno.test("examples keep the first extracted value and latest correction, and replay scores them", () => {
+  const row = (field: string, original: unknown, corrected: unknown, at: string): ExtractionExampleRow => ({
+    target: "gazette_notice",
+    record_id: "notice-1",
+    field,
+    extractor_field: field === "liquidators" ? "liquidators" : null,
+    original_value: original,
+    corrected_value: corrected,
+    corrected_by: "reviewer",
+    created_at: at,
+  });
+  const text = "Notice is hereby given that John Smith and Mary Jones were appointed as Joint Voluntary Liquidators.";
+
+  const examples = buildLabelledExamples(
+    [
+      row("liquidators", [], ["John Smith"], "2025-11-25T10:00:00Z"),
+      row("liquidators", ["John Smith"], ["John Smith", "Mary Jones"], "2025-11-25T11:00:00Z"),
+      row("company_name", "ACME", "ACME LTD", "2025-11-25T10:30:00Z"),
+    ],
+    new Map([["gazette_notice:notice-1", text]])
+  );
+
+  assertEquals(examples.length, 1);
+  assertEquals(examples[0].prompt, "gazette_notices");
+  assertEquals(examples[0].extracted, { liquidators: [], company_name: "ACME" });
+  assertEquals(examples[0].expected_targeted, { liquidators: ["John Smith", "Mary Jones"] });
+
+  const [score] = replayTargetedExtraction(examples);
+  assertEquals(score.field, "liquidators");
+  assertEquals(score.examples, 1);
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for the configurable risk signal taxonomy
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/tests/
+ */
+
+import { assert, assertEquals, assertStringIncludes } from "jsr:@std/assert@1";
+import { DEFAULT_SIGNALS, DEFAULT_SIGNAL_TAXONOMY, SignalTaxonomy } from "../signal-taxonomy.ts";
+import { articleRowToDTO, type ArticleRow } from "../monitor-types.ts";
+import { readReviewFields } from "../review-corrections.ts";
+import {
+  buildBatchPrompt,
+  buildSystemPrompt,
+  parseClassificationResult,
+  type ClassificationResult,
+} from "../../classify_articles/classifier-prompt.ts";
+import { detectSignalsHeuristic } from "../../classify_articles/cayman-heuristics.ts";
+
+// The defaults with fraud retired and one signal added
+const custom = new SignalTaxonomy([
+  ...DEFAULT_SIGNALS.map((signal) => (signal.name === "fraud" ? { ...signal, active: false } : signal)),
+  {
+    name: "tax_evasion",
+    label: "Tax Evasion",
+    description: "Tax evasion or aggressive avoidance schemes",
+    keywords: ["tax evasion", "undeclared offshore"],
+    severity: "high",
+    aliases: ["tax_fraud"],
+    active: true,
+  },
+]);
+
+Deno.test("the default taxonomy keeps the original signals and adds the new ones", () => {
+  assertEquals(DEFAULT_SIGNAL_TAXONOMY.names, [
+    "financial_decline",
+    "fraud",
+    "misstated_financials",
+    "shareholder_issues",
+    "director_duties",
+    "enforcement",
+    "sanctions",
+    "crypto_collapse",
+    "aml_breach",
+  ]);
+  assertEquals(DEFAULT_SIGNAL_TAXONOMY.canonical("regulatory_investigation"), "enforcement");
+  assertEquals(DEFAULT_SIGNAL_TAXONOMY.get("fraud")?.severity, "high");
+});
+
+Deno.test("the classifier prompt lists only active signals", () => {
+  const system = buildSystemPrompt(custom);
+  assertStringIncludes(system, "tax_evasion: Tax evasion or aggressive avoidance schemes");
+  assertStringIncludes(system, "1. financial_decline:");
+  assert(!system.includes("fraud:"));
+
+  const batch = buildBatchPrompt([], custom);
+  assertStringIncludes(batch, '"tax_evasion": bool');
+  assert(!batch.includes('"fraud": bool'));
+
+  // The default prompt covers the signals added by the taxonomy migration
+  assertStringIncludes(buildSystemPrompt(), "aml_breach:");
+});
+
+Deno.test("classifier output is mapped onto the taxonomy, keeping retired flags", () => {
+  const result = parseClassificationResult(
+    JSON.stringify({ is_cayman_related: true, signals: { tax_fraud: true, fraud: true, made_up: true }, confidence: 0.9 }),
+    custom
+  ) as ClassificationResult;
+
+  assertEquals(custom.flagged(result.signals), ["fraud", "tax_evasion"]);
+  assertEquals("made_up" in result.signals, false);
+});
+
+Deno.test("keyword heuristics use active signals only", () => {
+  const text = "Liquidators allege fraud and undeclared offshore accounts; OFAC adds the fund to its sanctions list";
+  assertEquals(detectSignalsHeuristic(text), ["fraud", "enforcement", "sanctions"]);
+  assertEquals(detectSignalsHeuristic(text, custom), ["enforcement", "sanctions", "tax_evasion"]);
+});
+
+Deno.test("articles and review fields cover every signal in the taxonomy", () => {
+  const row = {
+    id: "a1",
+    url: "https://example.com/a1",
+    source: "example.com",
+    title: "Exchange halts withdrawals",
+    excerpt: null,
+    published_at: "2025-11-01T00:00:00Z",
+    cayman_flag: true,
+    signals: { fraud: true, tax_evasion: true },
+    reasons: [],
+    confidence: 0.8,
+    meta: {},
+    created_at: "2025-11-01T00:00:00Z",
+  } as unknown as ArticleRow;
+
+  assertEquals(articleRowToDTO(row, custom).signals.tax_evasion, true);
+  assertEquals(articleRowToDTO(row).signals.tax_evasion, undefined);
+
+  const fields = readReviewFields("article", row, custom);
+  assertEquals(fields["signals.tax_evasion"], true);
+  assertEquals(fields["signals.fraud"], true);
+  assertEquals(fields["signals.aml_breach"], false);
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for matching watchlist entries against registry rows, gazette notices and articles
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/tests/
+ */
+
+import { assert, assertEquals, assertStringIncludes } from "jsr:@std/assert@1";
+import {
+  flattenText,
+  matchWatchlistEntry,
+  snippetAround,
+  type WatchedRecord,
+  type WatchlistEntry,
+  type WatchlistEntryType,
+} from "../watchlist-matching.ts";
+
+function entry(entryType: WatchlistEntryType, value: string): WatchlistEntry {
+  return { id: "w1", entry_type: entryType, value, label: null, priority: "medium", channels: ["dashboard"] };
+}
+
+const notice: WatchedRecord = {
+  sourceType: "gazette_notice",
+  sourceId: "n1",
+  title: "Coral Bay Capital Limited (In Voluntary Liquidation)",
+  url: null,
+  companyNames: ["Coral Bay Capital Limited"],
+  registrationNos: ["IC-100200"],
+  people: ["Kris Beighton"],
+  text: flattenText(
+    "Coral Bay Capital Limited (In Voluntary Liquidation)",
+    "Registration No: IC 100200.\nLiquidator: Kris Beighton, KPMG.",
+    "Registered office: c/o Maples Corporate Services Limited, Ugland House"
+  ),
+};
+
+const article: WatchedRecord = {
+  sourceType: "article",
+  sourceId: "a1",
+  title: "Fund administrator halts redemptions",
+  url: "https://example.com/news",
+  companyNames: [],
+  registrationNos: [],
+  people: [],
+  text: flattenText(
+    "Investors in Sandbar Holdings Inc. were told on Monday that redemptions are suspended.",
+    "A spokesperson for J. Ebanks declined to comment."
+  ),
+};
+
+Deno.test("company names match exactly or after normalisation", () => {
+  const exact = matchWatchlistEntry(entry("company_name", "Coral Bay Capital Limited"), notice);
+  assertEquals(exact?.matchedText, "Coral Bay Capital Limited");
+  assertEquals(exact?.reason, 'Company name matches "Coral Bay Capital Limited"');
+
+  // Suffix, case and punctuation differences normalise away
+  const normalised = matchWatchlistEntry(entry("company_name", "CORAL BAY CAPITAL LTD."), notice);
+  assertEquals(normalised?.matchedText, "Coral Bay Capital Limited");
+  assertEquals(normalised?.reason, 'Company name matches "CORAL BAY CAPITAL LTD."');
+  assertStringIncludes(normalised?.snippet ?? "", "Coral Bay Capital Limited");
+});
+
+Deno.test("company names match close spellings and free-text mentions", () => {
+  const similar = matchWatchlistEntry(entry("company_name", "Coral Bay Capitol Limited"), notice);
+  assert(similar?.reason.startsWith('Company name is similar to "Coral Bay Capitol Limited"'), similar?.reason);
+
+  const mentioned = matchWatchlistEntry(entry("company_name", "Sandbar Holdings Inc."), article);
+  assertEquals(mentioned?.reason, '"Sandbar Holdings Inc." is mentioned in the article');
+  assertEquals(mentioned?.matchedText, "Sandbar Holdings Inc.");
+});
+
+Deno.test("company names do not match different companies", () => {
+  assertEquals(matchWatchlistEntry(entry("company_name", "Coral Bay Partners Limited"), notice), null);
+  assertEquals(matchWatchlistEntry(entry("company_name", "Sandbar"), notice), null);
+  // Whole words only
+  assertEquals(matchWatchlistEntry(entry("company_name", "Sandbar Hold"), article), null);
+  assertEquals(matchWatchlistEntry(entry("company_name", "   "), notice), null);
+});
+
+Deno.test("registration numbers match in any spelling", () => {
+  const match = matchWatchlistEntry(entry("registration_no", "ic100200"), notice);
+  assertEquals(match?.matchedText, "IC-100200");
+  assertEquals(match?.reason, "Registration number IC-100200 appears");
+  assertStringIncludes(match?.snippet ?? "", "IC 100200");
+
+  assertEquals(matchWatchlistEntry(entry("registration_no", "IC-100201"), notice), null);
+  assertEquals(matchWatchlistEntry(entry("registration_no", "CR-100200"), notice), null);
+  assertEquals(matchWatchlistEntry(entry("registration_no", "100200"), notice), null);
+});
+
+Deno.test("people match listed names and initials in the text", () => {
+  const listed = matchWatchlistEntry(entry("person_name", "K. Beighton"), notice);
+  assertEquals(listed?.matchedText, "Kris Beighton");
+  assertEquals(listed?.reason, "Kris Beighton is named on the notice");
+
+  const mentioned = matchWatchlistEntry(entry("person_name", "Jane Ebanks"), article);
+  assertEquals(mentioned?.matchedText, "J. Ebanks");
+
+  assertEquals(matchWatchlistEntry(entry("person_name", "Kevin Beighton"), { ...notice, people: [] }), null);
+  assertEquals(matchWatchlistEntry(entry("person_name", "Dan Beighton"), notice), null);
+  // A bare surname is too loose to watch
+  assertEquals(matchWatchlistEntry(entry("person_name", "Beighton"), notice), null);
+});
+
+Deno.test("registered office providers match without their legal suffix", () => {
+  const match = matchWatchlistEntry(entry("ro_provider", "Maples Corporate Services (Cayman) Ltd"), notice);
+  assertEquals(match?.matchedText, "Maples Corporate Services");
+
+  assertEquals(matchWatchlistEntry(entry("ro_provider", "Walkers Corporate Limited"), notice), null);
+});
+
+Deno.test("snippetAround marks trimmed text", () => {
+  const text = "x".repeat(300) + " Coral Bay " + "y".repeat(300);
+  const snippet = snippetAround(text, 301, 9);
+  assert(snippet.startsWith("…") && snippet.endsWith("…"));
+  assertStringIncludes(snippet, "Coral Bay");
+  assertEquals(snippetAround("short text", 0, 5), "short text");
+});
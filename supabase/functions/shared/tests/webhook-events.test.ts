@@ -0,0 +1,68 @@
+/**
+ * Tests for webhook signing and retry backoff
+ *
+ * Run with:
+ *   deno test --allow-read --allow-env supabase/functions/shared/tests/
+ */
+
+import { assertEquals, assertNotEquals } from "jsr:@std/assert@1";
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  nextRetryAt,
+  signWebhookPayload,
+  webhookHeaders,
+  WEBHOOK_SCHEMA_VERSION,
+} from "../webhook-events.ts";
+
+const SECRET = "whsec_test";
+const BODY = '{"id":"evt_1","type":"registry.case_created"}';
+const TIMESTAMP = 1763208000; // 2025-11-15T12:00:00Z
+// HMAC-SHA256 of "1763208000.<BODY>" keyed with SECRET, computed outside this module
+const EXPECTED_SIGNATURE = "b0cc33ee7d446782698f3af21d7d81a752b3dac1b156348c43b1b182ccca7641";
+
+Deno.test("signWebhookPayload is the hex HMAC-SHA256 of '<timestamp>.<body>'", async () => {
+  assertEquals(await signWebhookPayload(SECRET, TIMESTAMP, BODY), EXPECTED_SIGNATURE);
+});
+
+Deno.test("signWebhookPayload changes with the secret, timestamp and body", async () => {
+  assertNotEquals(await signWebhookPayload("whsec_other", TIMESTAMP, BODY), EXPECTED_SIGNATURE);
+  assertNotEquals(await signWebhookPayload(SECRET, TIMESTAMP + 1, BODY), EXPECTED_SIGNATURE);
+  assertNotEquals(await signWebhookPayload(SECRET, TIMESTAMP, BODY + " "), EXPECTED_SIGNATURE);
+});
+
+Deno.test("webhookHeaders sends the signature as t=...,v1=...", async () => {
+  const headers = await webhookHeaders(
+    SECRET,
+    { id: "evt_1", type: "registry.case_created", version: WEBHOOK_SCHEMA_VERSION },
+    BODY,
+    new Date("2025-11-15T12:00:00.750Z")
+  );
+
+  assertEquals(headers["X-Webhook-Signature"], `t=${TIMESTAMP},v1=${EXPECTED_SIGNATURE}`);
+  assertEquals(headers["X-Webhook-Timestamp"], String(TIMESTAMP));
+  assertEquals(headers["X-Webhook-Id"], "evt_1");
+  assertEquals(headers["X-Webhook-Event"], "registry.case_created");
+  assertEquals(headers["X-Webhook-Version"], WEBHOOK_SCHEMA_VERSION);
+  assertEquals(headers["Content-Type"], "application/json");
+});
+
+Deno.test("nextRetryAt doubles the wait after each failed attempt", () => {
+  const now = new Date("2025-11-15T12:00:00Z");
+  const delays = [1, 2, 3, 4].map((attempts) => (nextRetryAt(attempts, now)!.getTime() - now.getTime()) / 1000);
+  assertEquals(delays, [60, 120, 240, 480]);
+});
+
+Deno.test("nextRetryAt waits at most six hours", () => {
+  const now = new Date("2025-11-15T12:00:00Z");
+  // The last retry, after attempt 7, waits 64 minutes
+  assertEquals(nextRetryAt(MAX_DELIVERY_ATTEMPTS - 1, now)!.getTime() - now.getTime(), 64 * 60 * 1000);
+  for (let attempts = 1; attempts < MAX_DELIVERY_ATTEMPTS; attempts++) {
+    assertEquals(nextRetryAt(attempts, now)!.getTime() - now.getTime() <= 6 * 60 * 60 * 1000, true);
+  }
+});
+
+Deno.test("nextRetryAt gives up after MAX_DELIVERY_ATTEMPTS", () => {
+  assertEquals(nextRetryAt(MAX_DELIVERY_ATTEMPTS), null);
+  assertEquals(nextRetryAt(MAX_DELIVERY_ATTEMPTS + 1), null);
+  assertNotEquals(nextRetryAt(MAX_DELIVERY_ATTEMPTS - 1), null);
+});
@@ -0,0 +1,80 @@
+// Date extraction for gazette and court notice text
+//
+// Notices spell dates out ("12th day of March 2025", "March 12, 2025"). These
+// helpers find them as ISO dates with their position so callers can pick the
+// date that belongs to a keyword.
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const MONTH_PATTERN = 'January|February|March|April|May|June|July|August|September|October|November|December';
+
+const DAY_FIRST_DATE = new RegExp(
+  `\\b(\\d{1,2})(?:st|nd|rd|th)?(?:\\s+day\\s+of)?\\s+(${MONTH_PATTERN}),?\\s+(\\d{4})\\b`,
+  'gi'
+);
+
+const MONTH_FIRST_DATE = new RegExp(
+  `\\b(${MONTH_PATTERN})\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`,
+  'gi'
+);
+
+const ISO_DATE = /\b(\d{4})-(\d{2})-(\d{2})\b/g;
+
+export interface TextDate {
+  index: number;
+  iso: string;
+}
+
+function toIsoDate(year: string, month: string, day: string): string | null {
+  const monthIndex = MONTHS.indexOf(month.toLowerCase());
+  const dayNumber = parseInt(day, 10);
+  if (monthIndex === -1 || dayNumber < 1 || dayNumber > 31) return null;
+  return `${year}-${String(monthIndex + 1).padStart(2, '0')}-${String(dayNumber).padStart(2, '0')}`;
+}
+
+/**
+ * Find every written-out date in a block of text, in order of appearance
+ * ISO dates (2025-03-12) are included when includeIso is set
+ */
+export function findDates(text: string, includeIso = false): TextDate[] {
+  const dates: TextDate[] = [];
+
+  for (const match of text.matchAll(DAY_FIRST_DATE)) {
+    const iso = toIsoDate(match[3], match[2], match[1]);
+    if (iso) dates.push({ index: match.index ?? 0, iso });
+  }
+  for (const match of text.matchAll(MONTH_FIRST_DATE)) {
+    const iso = toIsoDate(match[3], match[1], match[2]);
+    if (iso) dates.push({ index: match.index ?? 0, iso });
+  }
+  if (includeIso) {
+    for (const match of text.matchAll(ISO_DATE)) {
+      const iso = toIsoDate(match[1], MONTHS[parseInt(match[2], 10) - 1] ?? '', match[3]);
+      if (iso) dates.push({ index: match.index ?? 0, iso });
+    }
+  }
+
+  return dates.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * First date after (or shortly before) a keyword match
+ */
+export function dateNear(text: string, keyword: RegExp, windowAfter = 100, windowBefore = 40): string | null {
+  const dates = findDates(text);
+  const flags = keyword.flags.includes('g') ? keyword.flags : `${keyword.flags}g`;
+
+  for (const match of text.matchAll(new RegExp(keyword.source, flags))) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const after = dates.find((d) => d.index >= end && d.index <= end + windowAfter);
+    if (after) return after.iso;
+    const before = [...dates].reverse().find((d) => d.index < start && d.index >= start - windowBefore);
+    if (before) return before.iso;
+  }
+
+  return null;
+}
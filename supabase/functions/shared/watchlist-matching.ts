@@ -0,0 +1,210 @@
+// Watchlist matching
+//
+// Checks new registry rows, gazette liquidation notices and Cayman-relevant
+// news articles against user watchlist entries. Each source record is first
+// reduced to a WatchedRecord (names, registration numbers, people and free
+// text) so one matcher covers every source.
+
+import {
+  companyNameSimilarity,
+  extractRegistrationNumbers,
+  normalizeCompanyName,
+  normalizeRegistrationNo,
+} from './entity-resolution.ts';
+import { splitPersonName } from './practitioner-resolution.ts';
+
+export type WatchlistEntryType = 'company_name' | 'registration_no' | 'person_name' | 'ro_provider';
+
+export type WatchedSourceType = 'registry_row' | 'gazette_notice' | 'article';
+
+export interface WatchlistEntry {
+  id: string;
+  entry_type: WatchlistEntryType;
+  value: string;
+  label: string | null;
+  priority: 'low' | 'medium' | 'high' | 'critical';
+  channels: string[];
+}
+
+export interface WatchedRecord {
+  sourceType: WatchedSourceType;
+  sourceId: string;
+  title: string;
+  url: string | null;
+  companyNames: string[];
+  registrationNos: string[];
+  people: string[];
+  /** Whitespace-collapsed text searched for free-text mentions */
+  text: string;
+}
+
+export interface WatchlistMatch {
+  reason: string;
+  matchedText: string;
+  snippet: string;
+}
+
+// Names at or above this similarity count as the same company
+const COMPANY_SIMILARITY = 0.92;
+
+const SNIPPET_RADIUS = 120;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Text around the first occurrence of a match, for the notification and hit history
+ */
+export function snippetAround(text: string, index: number, length: number): string {
+  if (index < 0) return text.slice(0, SNIPPET_RADIUS * 2).trim();
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Collapse whitespace so offsets found by the matchers line up with the stored text
+ */
+export function flattenText(...parts: Array<string | null | undefined>): string {
+  return parts.filter(Boolean).join(' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Case-insensitive whole-word search for a phrase
+ */
+function findPhrase(text: string, phrase: string): { index: number; matched: string } | null {
+  const words = phrase.trim().split(/\s+/).map(escapeRegExp);
+  if (words.length === 0 || !words[0]) return null;
+  // No closing word boundary after a trailing "." as in "Holdings Inc."
+  const end = /\w$/.test(phrase.trim()) ? '\\b' : '';
+  const pattern = new RegExp(`\\b${words.join('\\s+')}${end}`, 'i');
+  const match = pattern.exec(text);
+  return match ? { index: match.index, matched: match[0] } : null;
+}
+
+/**
+ * Registered office providers are usually written with a legal suffix
+ * ("Maples Corporate Services Limited"); match on the distinctive part
+ */
+function roProviderPhrase(value: string): string {
+  return value
+    .replace(/\((?:cayman|cayman islands)\)/gi, ' ')
+    .replace(/,?\s*\b(?:limited|ltd\.?|llc|inc\.?)\s*$/i, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function matchCompanyName(entry: WatchlistEntry, record: WatchedRecord): WatchlistMatch | null {
+  const wanted = normalizeCompanyName(entry.value);
+  if (!wanted) return null;
+
+  for (const name of record.companyNames) {
+    if (normalizeCompanyName(name) === wanted) {
+      return {
+        reason: `Company name matches "${entry.value}"`,
+        matchedText: name,
+        snippet: snippetAround(record.text, record.text.indexOf(name), name.length),
+      };
+    }
+    const similarity = companyNameSimilarity(name, entry.value);
+    if (similarity >= COMPANY_SIMILARITY) {
+      return {
+        reason: `Company name is similar to "${entry.value}" (${Math.round(similarity * 100)}%)`,
+        matchedText: name,
+        snippet: snippetAround(record.text, record.text.indexOf(name), name.length),
+      };
+    }
+  }
+
+  // Free-text mention, e.g. in a news article body
+  const found = findPhrase(record.text, entry.value.replace(/\s*\([^)]*\)\s*/g, ' '));
+  if (found) {
+    return {
+      reason: `"${entry.value}" is mentioned in the ${record.sourceType === 'article' ? 'article' : 'record'}`,
+      matchedText: found.matched,
+      snippet: snippetAround(record.text, found.index, found.matched.length),
+    };
+  }
+  return null;
+}
+
+function matchRegistrationNo(entry: WatchlistEntry, record: WatchedRecord): WatchlistMatch | null {
+  const wanted = normalizeRegistrationNo(entry.value);
+  if (!wanted) return null;
+
+  const numbers = new Set([
+    ...record.registrationNos.map((no) => normalizeRegistrationNo(no)).filter(Boolean),
+    ...extractRegistrationNumbers(record.text),
+  ]);
+  if (!numbers.has(wanted)) return null;
+
+  const digits = wanted.split('-')[1];
+  const index = record.text.indexOf(digits);
+  return {
+    reason: `Registration number ${wanted} appears`,
+    matchedText: wanted,
+    snippet: snippetAround(record.text, index, digits.length),
+  };
+}
+
+function matchPersonName(entry: WatchlistEntry, record: WatchedRecord): WatchlistMatch | null {
+  const { surname, firstInitial, tokens } = splitPersonName(entry.value);
+  if (!surname || tokens.length < 2) return null;
+
+  // Listed people (liquidators, extracted PERSON entities) match on surname and first initial
+  for (const person of record.people) {
+    const candidate = splitPersonName(person);
+    if (candidate.surname.toLowerCase() === surname.toLowerCase() && candidate.firstInitial === firstInitial) {
+      return {
+        reason: `${person} is named on the ${record.sourceType === 'gazette_notice' ? 'notice' : 'record'}`,
+        matchedText: person,
+        snippet: snippetAround(record.text, record.text.indexOf(person), person.length),
+      };
+    }
+  }
+
+  // Otherwise look for "Kris Beighton" or "K. Beighton" in the text
+  const first = escapeRegExp(tokens[0].replace(/\.$/, ''));
+  const pattern = new RegExp(`\\b(?:${first}|${escapeRegExp(firstInitial)}\\.?)\\s+(?:[A-Z]\\.?\\s+)?${escapeRegExp(surname)}\\b`, 'i');
+  const match = pattern.exec(record.text);
+  if (!match) return null;
+
+  return {
+    reason: `"${entry.value}" is mentioned`,
+    matchedText: match[0],
+    snippet: snippetAround(record.text, match.index, match[0].length),
+  };
+}
+
+function matchRoProvider(entry: WatchlistEntry, record: WatchedRecord): WatchlistMatch | null {
+  const phrase = roProviderPhrase(entry.value);
+  if (!phrase) return null;
+
+  const found = findPhrase(record.text, phrase);
+  if (!found) return null;
+
+  return {
+    reason: `Registered office provider "${entry.value}" is mentioned`,
+    matchedText: found.matched,
+    snippet: snippetAround(record.text, found.index, found.matched.length),
+  };
+}
+
+/**
+ * Check a single watchlist entry against a record
+ */
+export function matchWatchlistEntry(entry: WatchlistEntry, record: WatchedRecord): WatchlistMatch | null {
+  switch (entry.entry_type) {
+    case 'company_name':
+      return matchCompanyName(entry, record);
+    case 'registration_no':
+      return matchRegistrationNo(entry, record);
+    case 'person_name':
+      return matchPersonName(entry, record);
+    case 'ro_provider':
+      return matchRoProvider(entry, record);
+    default:
+      return null;
+  }
+}
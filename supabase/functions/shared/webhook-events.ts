@@ -0,0 +1,201 @@
+// Outbound webhooks
+//
+// Producers call enqueueWebhookEvent() when something downstream systems care
+// about happens. One webhook_deliveries row is written per subscribed endpoint
+// and deliver-webhooks sends them, retrying failures with exponential backoff.
+//
+// Every delivery is a JSON envelope:
+//
+//   { "id": "<event uuid>", "type": "registry.case_created", "version": "2025-11-15",
+//     "created_at": "<iso>", "data": { ... } }
+//
+// signed with the endpoint secret:
+//
+//   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+//
+// Receivers should recompute the HMAC over the raw body and reject stale timestamps.
+// Adding fields to `data` is not a breaking change; removing or renaming one
+// requires a new WEBHOOK_SCHEMA_VERSION.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export const WEBHOOK_SCHEMA_VERSION = '2025-11-15';
+
+export const WEBHOOK_EVENT_TYPES = [
+  'registry.case_created',
+  'gazette.notice_extracted',
+  'monitor.article_flagged',
+  'notification.created',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export interface RegistryCaseCreatedData {
+  registry_row_id: string | null;
+  cause_number: string;
+  title: string | null;
+  subject: string | null;
+  filing_date: string | null;
+  register_bucket: string;
+}
+
+export interface GazetteNoticeExtractedData {
+  notice_id: string | null;
+  gazette_id: string;
+  company_name: string;
+  registration_no: string | null;
+  liquidation_type: string | null;
+  liquidators: string[];
+  contact_emails: string[];
+  court_cause_no: string | null;
+  liquidation_date: string | null;
+  final_meeting_date: string | null;
+  extraction_confidence: string | null;
+}
+
+export interface MonitorArticleFlaggedData {
+  article_id: string;
+  title: string;
+  url: string;
+  source: string | null;
+  published_at: string | null;
+  cayman_confidence: number | null;
+  signals: string[];
+  cayman_entities: unknown[];
+  summary: string | null;
+}
+
+export interface NotificationCreatedData {
+  notification_id: string;
+  notification_type: string;
+  title: string;
+  message: string;
+  priority: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookEventDataMap {
+  'registry.case_created': RegistryCaseCreatedData;
+  'gazette.notice_extracted': GazetteNoticeExtractedData;
+  'monitor.article_flagged': MonitorArticleFlaggedData;
+  'notification.created': NotificationCreatedData;
+}
+
+export interface WebhookEvent<T extends WebhookEventType = WebhookEventType> {
+  id: string;
+  type: T;
+  version: string;
+  created_at: string;
+  data: WebhookEventDataMap[T];
+}
+
+// Attempt n (1-based) failed -> wait RETRY_BASE_SECONDS * 2^(n-1), capped
+export const MAX_DELIVERY_ATTEMPTS = 8;
+const RETRY_BASE_SECONDS = 60;
+const RETRY_MAX_SECONDS = 6 * 60 * 60;
+
+export function buildWebhookEvent<T extends WebhookEventType>(type: T, data: WebhookEventDataMap[T]): WebhookEvent<T> {
+  return {
+    id: crypto.randomUUID(),
+    type,
+    version: WEBHOOK_SCHEMA_VERSION,
+    created_at: new Date().toISOString(),
+    data,
+  };
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Hex HMAC-SHA256 of "<timestamp>.<body>"
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return toHex(signature);
+}
+
+export async function webhookHeaders(
+  secret: string,
+  event: Pick<WebhookEvent, 'id' | 'type' | 'version'>,
+  body: string,
+  now: Date = new Date()
+): Promise<Record<string, string>> {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  const signature = await signWebhookPayload(secret, timestamp, body);
+
+  return {
+    'Content-Type': 'application/json',
+    'User-Agent': 'CaymanWatch-Webhooks/1',
+    'X-Webhook-Id': event.id,
+    'X-Webhook-Event': event.type,
+    'X-Webhook-Version': event.version,
+    'X-Webhook-Timestamp': String(timestamp),
+    'X-Webhook-Signature': `t=${timestamp},v1=${signature}`,
+  };
+}
+
+/**
+ * When to retry after `attempts` failed attempts, or null once the delivery should be given up on
+ */
+export function nextRetryAt(attempts: number, now: Date = new Date()): Date | null {
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) return null;
+  const delay = Math.min(RETRY_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_SECONDS);
+  return new Date(now.getTime() + delay * 1000);
+}
+
+/**
+ * Queue an event for every active endpoint subscribed to its type (an empty event_types list subscribes to all).
+ * Returns the number of deliveries queued.
+ */
+export async function enqueueWebhookEvents<T extends WebhookEventType>(
+  supabase: SupabaseClient,
+  type: T,
+  items: WebhookEventDataMap[T][]
+): Promise<number> {
+  if (items.length === 0) return 0;
+
+  const { data: endpoints, error } = await supabase
+    .from('webhook_endpoints')
+    .select('id, event_types')
+    .eq('is_active', true);
+
+  if (error) throw new Error(`Failed to load webhook endpoints: ${error.message}`);
+
+  const subscribed = (endpoints || []).filter((endpoint: { event_types: string[] | null }) => {
+    const types = endpoint.event_types || [];
+    return types.length === 0 || types.includes(type);
+  });
+  if (subscribed.length === 0) return 0;
+
+  const events = items.map((data) => buildWebhookEvent(type, data));
+  const now = new Date().toISOString();
+  const rows = subscribed.flatMap((endpoint: { id: string }) =>
+    events.map((event) => ({
+      endpoint_id: endpoint.id,
+      event_id: event.id,
+      event_type: event.type,
+      payload: event,
+      status: 'pending',
+      next_attempt_at: now,
+    }))
+  );
+
+  for (let i = 0; i < rows.length; i += 500) {
+    const { error: insertError } = await supabase.from('webhook_deliveries').insert(rows.slice(i, i + 500));
+    if (insertError) throw new Error(`Failed to queue webhook deliveries: ${insertError.message}`);
+  }
+
+  return rows.length;
+}
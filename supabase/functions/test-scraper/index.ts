@@ -1,5 +1,7 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
 import Firecrawl from 'npm:@mendable/firecrawl-js@1';
+import { loadSecret } from '../shared/secrets.ts';
+import { actorName, requireRole } from '../shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -150,6 +152,9 @@ Deno.serve(async (req: Request) => {
   const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
   const supabase = createClient(supabaseUrl, supabaseKey);
 
+  const user = await requireRole(req, supabase, 'admin', corsHeaders);
+  if (user instanceof Response) return user;
+
   let testRunId: string | null = null;
   const logs: TestLog[] = [];
   let currentStepNumber = 0;
@@ -193,7 +198,7 @@ Deno.serve(async (req: Request) => {
         test_mode,
         started_at: new Date().toISOString(),
         status: 'running',
-        triggered_by: 'manual_test',
+        triggered_by: actorName(user, 'manual_test'),
       })
       .select()
       .single();
@@ -209,11 +214,11 @@ Deno.serve(async (req: Request) => {
     const stepStart1 = Date.now();
     const { data: settings } = await supabase
       .from('app_settings')
-      .select('firecrawl_api_key, firecrawl_enabled')
+      .select('firecrawl_enabled')
       .maybeSingle();
 
     const firecrawlEnabled = settings?.firecrawl_enabled || false;
-    const firecrawlApiKey = settings?.firecrawl_api_key || null;
+    const firecrawlApiKey = await loadSecret(supabase, 'firecrawl_api_key');
     const stepTime1 = Date.now() - stepStart1;
 
     if (!firecrawlEnabled || !firecrawlApiKey) {
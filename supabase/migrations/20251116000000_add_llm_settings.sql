@@ -0,0 +1,40 @@
+/*
+  # Add LLM Provider Settings
+
+  1. Changes to app_settings table
+    - Add llm_provider (text) to choose how models are picked:
+      'auto' (by model name, falling back to whichever provider has a key),
+      'openai', 'anthropic', or 'mock' (offline canned responses)
+    - Add llm_models (jsonb) for per-task model overrides, e.g.
+      {"case_consolidation": "claude-sonnet-4-5-20250929", "entity_extraction": "gpt-4o"}
+      Tasks without an entry use the defaults in shared/llm/client.ts
+
+  2. llm_tokens_used
+    - Pipelines now write a common structure to llm_tokens_used:
+      {provider, model, input_tokens, output_tokens, total_tokens, total_cost, calls, by_model, timestamp}
+
+  3. Security
+    - No RLS changes needed (existing policies apply)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'app_settings' AND column_name = 'llm_provider'
+  ) THEN
+    ALTER TABLE app_settings ADD COLUMN llm_provider text DEFAULT 'auto'
+      CHECK (llm_provider IN ('auto', 'openai', 'anthropic', 'mock'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'app_settings' AND column_name = 'llm_models'
+  ) THEN
+    ALTER TABLE app_settings ADD COLUMN llm_models jsonb DEFAULT '{}'::jsonb;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN app_settings.llm_provider IS 'LLM provider mode: auto, openai, anthropic or mock (offline)';
+COMMENT ON COLUMN app_settings.llm_models IS 'Per-task model overrides keyed by task name, e.g. {"pdf_summary": "claude-sonnet-4-5-20250929"}';
+COMMENT ON COLUMN cases.llm_tokens_used IS 'Token usage: {provider, model, input_tokens, output_tokens, total_tokens, total_cost, calls, by_model, timestamp}';
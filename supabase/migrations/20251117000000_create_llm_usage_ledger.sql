@@ -0,0 +1,114 @@
+/*
+  # LLM Spend Ledger and Budgets
+
+  1. New Tables
+    - `llm_usage`
+      - One row per LLM call made by an edge function (written by shared/llm)
+      - `function_name` (text) - Edge function that made the call, e.g. 'analyze-case'
+      - `task` (text) - LLM task, e.g. 'case_consolidation'
+      - `provider`, `model` (text)
+      - `input_tokens`, `output_tokens`, `total_tokens` (integer)
+      - `cost` (numeric) - Estimated USD cost
+
+  2. Views
+    - `llm_usage_daily` - Calls, tokens and cost per UTC day, function and model
+
+  3. Functions
+    - `llm_spend_totals(p_function_names)` - Spend today and this month (UTC), optionally
+      limited to a set of functions; used for budget checks before each LLM call
+
+  4. Changes
+    - app_settings: `llm_daily_budget`, `llm_monthly_budget` (USD, NULL = no limit) cap all LLM spend
+    - monitor_settings: `llm_daily_budget`, `llm_monthly_budget` cap spend by the news monitor functions
+
+  5. Security
+    - Enable RLS on llm_usage
+    - Anyone can read usage; only the service role writes it
+*/
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  function_name text NOT NULL,
+  task text NOT NULL,
+  provider text NOT NULL,
+  model text NOT NULL,
+  input_tokens integer NOT NULL DEFAULT 0,
+  output_tokens integer NOT NULL DEFAULT 0,
+  total_tokens integer GENERATED ALWAYS AS (input_tokens + output_tokens) STORED,
+  cost numeric(12,6) NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created_at ON llm_usage(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_function_created ON llm_usage(function_name, created_at DESC);
+
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read llm usage"
+  ON llm_usage FOR SELECT
+  USING (true);
+
+CREATE OR REPLACE VIEW llm_usage_daily
+WITH (security_invoker = true) AS
+SELECT
+  (created_at AT TIME ZONE 'UTC')::date AS day,
+  function_name,
+  provider,
+  model,
+  COUNT(*)::integer AS calls,
+  SUM(input_tokens)::bigint AS input_tokens,
+  SUM(output_tokens)::bigint AS output_tokens,
+  SUM(total_tokens)::bigint AS total_tokens,
+  SUM(cost)::numeric(12,6) AS cost
+FROM llm_usage
+GROUP BY 1, 2, 3, 4;
+
+CREATE OR REPLACE FUNCTION llm_spend_totals(p_function_names text[] DEFAULT NULL)
+RETURNS TABLE (spent_today numeric, spent_this_month numeric)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    COALESCE(SUM(cost) FILTER (WHERE created_at >= date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'), 0),
+    COALESCE(SUM(cost), 0)
+  FROM llm_usage
+  WHERE created_at >= date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+    AND (p_function_names IS NULL OR function_name = ANY(p_function_names));
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'app_settings' AND column_name = 'llm_daily_budget'
+  ) THEN
+    ALTER TABLE app_settings ADD COLUMN llm_daily_budget numeric(10,2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'app_settings' AND column_name = 'llm_monthly_budget'
+  ) THEN
+    ALTER TABLE app_settings ADD COLUMN llm_monthly_budget numeric(10,2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'monitor_settings' AND column_name = 'llm_daily_budget'
+  ) THEN
+    ALTER TABLE monitor_settings ADD COLUMN llm_daily_budget numeric(10,2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'monitor_settings' AND column_name = 'llm_monthly_budget'
+  ) THEN
+    ALTER TABLE monitor_settings ADD COLUMN llm_monthly_budget numeric(10,2);
+  END IF;
+END $$;
+
+COMMENT ON TABLE llm_usage IS 'Ledger of LLM calls with token counts and estimated cost, one row per call';
+COMMENT ON COLUMN app_settings.llm_daily_budget IS 'Maximum LLM spend per UTC day in USD across all functions (NULL = no limit)';
+COMMENT ON COLUMN app_settings.llm_monthly_budget IS 'Maximum LLM spend per calendar month in USD across all functions (NULL = no limit)';
+COMMENT ON COLUMN monitor_settings.llm_daily_budget IS 'Maximum LLM spend per UTC day in USD by news monitor functions (NULL = no limit)';
+COMMENT ON COLUMN monitor_settings.llm_monthly_budget IS 'Maximum LLM spend per calendar month in USD by news monitor functions (NULL = no limit)';
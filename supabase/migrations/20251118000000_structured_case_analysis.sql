@@ -0,0 +1,30 @@
+/*
+  # Structured Case Analysis
+
+  Case analyses are now stored as validated JSON (schema_version 1, see
+  supabase/functions/shared/case-analysis.ts) instead of markdown sections.
+
+  1. Changes
+    - analyzed_registry_pdfs: `parsed_json` (jsonb) - structured analysis of the uploaded PDF
+    - cases.parsed_json now holds the versioned analysis object; dashboard_summary is
+      rendered from it
+
+  2. Existing data
+    - Rows written before this change have markdown in dashboard_summary and, for cases,
+      a `{ full_summary, ...sections }` object in parsed_json. Convert them by invoking
+      the `migrate-case-analyses` edge function (markdown parsing is done in TypeScript so
+      it matches the converter the app uses for unmigrated rows).
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'analyzed_registry_pdfs' AND column_name = 'parsed_json'
+  ) THEN
+    ALTER TABLE analyzed_registry_pdfs ADD COLUMN parsed_json jsonb;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN cases.parsed_json IS 'Structured case analysis (shared/case-analysis.ts); schema_version identifies the format, pre-v1 rows hold { full_summary, ...markdown sections }';
+COMMENT ON COLUMN analyzed_registry_pdfs.parsed_json IS 'Structured case analysis of the uploaded PDF (same schema as cases.parsed_json)';
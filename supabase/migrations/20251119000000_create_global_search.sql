@@ -0,0 +1,345 @@
+/*
+  # Global Search
+
+  One search across every collected record, used by the `search` edge function and
+  the search bar in the app header.
+
+  1. Changes
+    - Enable `pg_trgm`
+    - Generated `search_vector` (tsvector, english) columns with GIN indexes on:
+      - registry_rows (cause number, title, subject)
+      - cases (extracted PDF text, first 500k characters)
+      - gazette_liquidation_notices (company, registration no, liquidators, notice text)
+      - companies (canonical name, registration no, aliases)
+      - practitioners (name, aliases)
+      - monitor_articles and articles (title, content)
+    - Trigram GIN indexes on names and titles for fuzzy (misspelt) matches
+
+  2. Functions
+    - `global_search_matches(p_query)` - Every matching record with a rank; full-text
+      matches plus trigram word similarity on names/titles. `exact_match` is set when the
+      query is a registration number (e.g. "IC-323061", "ic 323061") or cause number that
+      matches the record exactly; these always rank first.
+    - `global_search(p_query, p_sources, p_from, p_to, p_limit, p_offset)` - One page of
+      results with highlighted snippets (matches wrapped in ⟦ and ⟧)
+    - `global_search_facets(p_query, p_sources, p_from, p_to)` - Result counts by source
+      and by month. Each facet ignores its own filter so other values stay selectable.
+
+  3. Security
+    - Functions run as the caller, so existing RLS policies apply
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- ============================================================================
+-- Search vectors
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'registry_rows' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE registry_rows ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', coalesce(cause_number, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(subject, '')), 'B')
+    ) STORED;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'cases' AND column_name = 'search_vector'
+  ) THEN
+    -- tsvectors are limited to 1MB, so very long petitions are only indexed in part
+    ALTER TABLE cases ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', left(coalesce(pdf_text, ''), 500000)), 'C')
+    ) STORED;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'gazette_liquidation_notices' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE gazette_liquidation_notices ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', coalesce(company_name, '') || ' ' || coalesce(registration_no, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(liquidator_name, '') || ' ' || coalesce(liquidators::text, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(raw_notice_text, '') || ' ' || coalesce(notes, '')), 'C')
+    ) STORED;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'companies' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE companies ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', canonical_name || ' ' || coalesce(registration_no, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(aliases::text, '')), 'B')
+    ) STORED;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'practitioners' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE practitioners ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('simple', full_name), 'A') ||
+      setweight(to_tsvector('simple', coalesce(aliases::text, '')), 'B')
+    ) STORED;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'monitor_articles' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE monitor_articles ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+      setweight(to_tsvector('english', left(coalesce(content_normalized, content_snippet, ''), 200000)), 'C')
+    ) STORED;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(excerpt, '')), 'B') ||
+      setweight(to_tsvector('english', left(coalesce(body, ''), 200000)), 'C')
+    ) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_registry_rows_search ON registry_rows USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_cases_search ON cases USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_gazette_liquidation_notices_search ON gazette_liquidation_notices USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_companies_search ON companies USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_practitioners_search ON practitioners USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_monitor_articles_search ON monitor_articles USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_articles_search ON articles USING gin (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_registry_rows_title_trgm ON registry_rows USING gin (title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_gazette_liquidation_notices_company_trgm ON gazette_liquidation_notices USING gin (company_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_gazette_liquidation_notices_liquidator_trgm ON gazette_liquidation_notices USING gin (liquidator_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_companies_name_trgm ON companies USING gin (canonical_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_practitioners_name_trgm ON practitioners USING gin (full_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_monitor_articles_title_trgm ON monitor_articles USING gin (title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_articles_title_trgm ON articles USING gin (title gin_trgm_ops);
+
+-- ============================================================================
+-- Search functions
+-- ============================================================================
+
+-- "IC-323061", "ic 323061" -> "IC323061"; NULL when the query is not a registration number
+CREATE OR REPLACE FUNCTION search_registration_key(p_value text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_value ~* '^\s*(CR|IC|MC)\s*[-–‑]?\s*\d{3,7}\s*$'
+      THEN upper(regexp_replace(p_value, '[^A-Za-z0-9]', '', 'g'))
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION global_search_matches(p_query text)
+RETURNS TABLE (
+  source text,
+  record_id uuid,
+  title text,
+  subtitle text,
+  url text,
+  record_date date,
+  rank double precision,
+  exact_match boolean
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english', p_query) AS tsq,
+      websearch_to_tsquery('simple', p_query) AS simple_tsq,
+      btrim(p_query) AS raw,
+      search_registration_key(p_query) AS registration_key
+  )
+  SELECT
+    'registry_row', r.id, coalesce(r.title, r.cause_number), r.cause_number, NULL::text, r.filing_date,
+    ts_rank(r.search_vector, q.tsq) + word_similarity(q.raw, coalesce(r.title, '')) * 0.5,
+    lower(r.cause_number) = lower(q.raw)
+  FROM registry_rows r, q
+  WHERE r.search_vector @@ q.tsq OR q.raw <% r.title OR lower(r.cause_number) = lower(q.raw)
+
+  UNION ALL
+
+  SELECT
+    'case', c.id, coalesce(rr.title, c.parsed_json->'company_overview'->>'name', 'Case'), rr.cause_number, NULL,
+    coalesce(rr.filing_date, c.created_at::date),
+    ts_rank(c.search_vector, q.tsq),
+    coalesce(search_registration_key(c.parsed_json->'company_overview'->>'registration_number') = q.registration_key, false)
+  FROM cases c
+  CROSS JOIN q
+  LEFT JOIN registry_rows rr ON rr.id = c.registry_row_id
+  WHERE c.search_vector @@ q.tsq
+    OR search_registration_key(c.parsed_json->'company_overview'->>'registration_number') = q.registration_key
+
+  UNION ALL
+
+  SELECT
+    'gazette_notice', g.id, g.company_name,
+    concat_ws(' · ', g.registration_no, g.liquidation_type, g.liquidator_name), NULL,
+    coalesce(g.appointment_date, g.liquidation_date, g.created_at::date),
+    ts_rank(g.search_vector, q.tsq)
+      + greatest(word_similarity(q.raw, g.company_name), word_similarity(q.raw, coalesce(g.liquidator_name, ''))) * 0.5,
+    coalesce(search_registration_key(g.registration_no) = q.registration_key, false)
+  FROM gazette_liquidation_notices g, q
+  WHERE g.search_vector @@ q.tsq
+    OR q.raw <% g.company_name
+    OR q.raw <% g.liquidator_name
+    OR search_registration_key(g.registration_no) = q.registration_key
+
+  UNION ALL
+
+  SELECT
+    'company', co.id, co.canonical_name, co.registration_no, NULL, co.last_seen_at::date,
+    ts_rank(co.search_vector, q.tsq) + word_similarity(q.raw, co.canonical_name) * 0.5,
+    coalesce(search_registration_key(co.registration_no) = q.registration_key, false)
+  FROM companies co, q
+  WHERE co.search_vector @@ q.tsq
+    OR q.raw <% co.canonical_name
+    OR search_registration_key(co.registration_no) = q.registration_key
+
+  UNION ALL
+
+  SELECT
+    'practitioner', p.id, p.full_name, pf.name, NULL, p.last_appointed_on,
+    ts_rank(p.search_vector, q.simple_tsq) + word_similarity(q.raw, p.full_name) * 0.5,
+    false
+  FROM practitioners p
+  CROSS JOIN q
+  LEFT JOIN practitioner_firms pf ON pf.id = p.firm_id
+  WHERE p.search_vector @@ q.simple_tsq OR q.raw <% p.full_name
+
+  UNION ALL
+
+  SELECT
+    'monitor_article', m.id, m.title, m.source_name, m.url, m.published_at::date,
+    ts_rank(m.search_vector, q.tsq) + word_similarity(q.raw, m.title) * 0.5,
+    false
+  FROM monitor_articles m, q
+  WHERE m.search_vector @@ q.tsq OR q.raw <% m.title
+
+  UNION ALL
+
+  SELECT
+    'article', a.id, coalesce(a.title, a.url), a.source, a.url, a.published_at::date,
+    ts_rank(a.search_vector, q.tsq) + word_similarity(q.raw, coalesce(a.title, '')) * 0.5,
+    false
+  FROM articles a, q
+  WHERE a.search_vector @@ q.tsq OR q.raw <% a.title;
+$$;
+
+-- Highlighted extract of the text a record was matched on
+CREATE OR REPLACE FUNCTION global_search_snippet(p_source text, p_record_id uuid, p_query text)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ts_headline(
+    CASE WHEN p_source = 'practitioner' THEN 'simple' ELSE 'english' END::regconfig,
+    left(doc, 100000),
+    websearch_to_tsquery(CASE WHEN p_source = 'practitioner' THEN 'simple' ELSE 'english' END::regconfig, p_query),
+    'StartSel=⟦, StopSel=⟧, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+  )
+  FROM (
+    SELECT concat_ws(' — ', cause_number, title, subject) AS doc
+    FROM registry_rows WHERE p_source = 'registry_row' AND id = p_record_id
+    UNION ALL
+    SELECT pdf_text FROM cases WHERE p_source = 'case' AND id = p_record_id
+    UNION ALL
+    SELECT concat_ws(' — ', company_name, registration_no, liquidator_name, raw_notice_text)
+    FROM gazette_liquidation_notices WHERE p_source = 'gazette_notice' AND id = p_record_id
+    UNION ALL
+    SELECT concat_ws(' — ', canonical_name, registration_no, aliases::text)
+    FROM companies WHERE p_source = 'company' AND id = p_record_id
+    UNION ALL
+    SELECT concat_ws(' — ', full_name, aliases::text) FROM practitioners WHERE p_source = 'practitioner' AND id = p_record_id
+    UNION ALL
+    SELECT coalesce(content_normalized, content_snippet, title)
+    FROM monitor_articles WHERE p_source = 'monitor_article' AND id = p_record_id
+    UNION ALL
+    SELECT concat_ws(' — ', excerpt, body) FROM articles WHERE p_source = 'article' AND id = p_record_id
+  ) d
+  WHERE doc IS NOT NULL
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION global_search(
+  p_query text,
+  p_sources text[] DEFAULT NULL,
+  p_from date DEFAULT NULL,
+  p_to date DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  source text,
+  record_id uuid,
+  title text,
+  subtitle text,
+  url text,
+  record_date date,
+  rank double precision,
+  exact_match boolean,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    page.source, page.record_id, page.title, page.subtitle, page.url, page.record_date, page.rank,
+    page.exact_match, global_search_snippet(page.source, page.record_id, p_query)
+  FROM (
+    SELECT m.*
+    FROM global_search_matches(p_query) m
+    WHERE (p_sources IS NULL OR m.source = ANY(p_sources))
+      AND (p_from IS NULL OR m.record_date >= p_from)
+      AND (p_to IS NULL OR m.record_date <= p_to)
+    ORDER BY m.exact_match DESC, m.rank DESC, m.record_date DESC NULLS LAST
+    LIMIT least(greatest(p_limit, 1), 100)
+    OFFSET greatest(p_offset, 0)
+  ) page
+  ORDER BY page.exact_match DESC, page.rank DESC, page.record_date DESC NULLS LAST;
+$$;
+
+CREATE OR REPLACE FUNCTION global_search_facets(
+  p_query text,
+  p_sources text[] DEFAULT NULL,
+  p_from date DEFAULT NULL,
+  p_to date DEFAULT NULL
+)
+RETURNS TABLE (facet text, value text, count bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH m AS (
+    SELECT * FROM global_search_matches(p_query)
+  )
+  SELECT 'source', m.source, count(*)
+  FROM m
+  WHERE (p_from IS NULL OR m.record_date >= p_from)
+    AND (p_to IS NULL OR m.record_date <= p_to)
+  GROUP BY m.source
+
+  UNION ALL
+
+  SELECT 'month', to_char(m.record_date, 'YYYY-MM'), count(*)
+  FROM m
+  WHERE m.record_date IS NOT NULL
+    AND (p_sources IS NULL OR m.source = ANY(p_sources))
+  GROUP BY to_char(m.record_date, 'YYYY-MM');
+$$;
+
+COMMENT ON FUNCTION global_search(text, text[], date, date, integer, integer) IS 'Full-text and fuzzy search across registry rows, cases, gazette notices, companies, practitioners and articles';
+COMMENT ON FUNCTION global_search_facets(text, text[], date, date) IS 'Result counts by source and month for global_search';
@@ -0,0 +1,70 @@
+/*
+  # PDF Storage
+
+  PDFs move out of bytea columns (cases.pdf_bytes, gazette_issues.pdf_bytes) into
+  the private "pdfs" Storage bucket, stored once per distinct file under the
+  SHA-256 of its content. The analyzed_* tables, which had to drop their bytes,
+  can now keep a reference to the PDF they came from.
+
+  ## New Tables
+  - `pdf_objects` - one row per distinct stored PDF
+    - `sha256` (text, unique) - content hash; identical uploads share one object
+    - `storage_path` (text) - path in the pdfs bucket ("ab/ab12….pdf")
+    - `size_bytes`, `content_type`
+    - `original_filename`, `source_url` - where the first copy came from
+
+  ## Changes
+  - `pdf_object_id` (uuid, nullable) on cases, gazette_issues, analyzed_registry_pdfs
+    and analyzed_gazette_pdfs
+  - pdf_bytes stays until migrate-pdf-storage has moved every row; readers fall back
+    to it for rows that have no pdf_object_id yet
+
+  ## Storage
+  - Private bucket `pdfs`. Only the service role reads and writes it; the UI gets
+    short-lived signed download URLs from the pdf-storage edge function.
+
+  ## Security
+  - Anyone can read pdf_objects metadata (hash, size, file name)
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('pdfs', 'pdfs', false, 52428800, ARRAY['application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS pdf_objects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sha256 text UNIQUE NOT NULL CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  storage_path text NOT NULL,
+  size_bytes bigint NOT NULL,
+  content_type text NOT NULL DEFAULT 'application/pdf',
+  original_filename text,
+  source_url text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE pdf_objects ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read pdf_objects" ON pdf_objects;
+CREATE POLICY "Anyone can read pdf_objects"
+  ON pdf_objects FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['cases', 'gazette_issues', 'analyzed_registry_pdfs', 'analyzed_gazette_pdfs'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = t AND column_name = 'pdf_object_id'
+    ) THEN
+      EXECUTE format('ALTER TABLE %I ADD COLUMN pdf_object_id uuid REFERENCES pdf_objects(id) ON DELETE SET NULL', t);
+    END IF;
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I(pdf_object_id)', 'idx_' || t || '_pdf_object', t);
+  END LOOP;
+END $$;
+
+COMMENT ON TABLE pdf_objects IS 'PDFs in the pdfs Storage bucket, one row per distinct SHA-256';
+COMMENT ON COLUMN cases.pdf_bytes IS 'Legacy: moved to pdf_objects by migrate-pdf-storage';
+COMMENT ON COLUMN gazette_issues.pdf_bytes IS 'Legacy: moved to pdf_objects by migrate-pdf-storage';
@@ -0,0 +1,60 @@
+/*
+  # Local OCR
+
+  Scanned petitions and gazettes are now OCR'd in-process (MuPDF + Tesseract)
+  by extract-pdf-text and parse-gazette. Each OCR'd page is kept with the engine's
+  confidence so weak pages can be checked by hand.
+
+  ## New Tables
+  - `ocr_pages` - OCR output for one page of a stored PDF
+    - `pdf_object_id` (uuid) - the PDF in pdf_objects
+    - `page_number` (integer, 1-based)
+    - `engine` (text) - e.g. "tesseract:eng"
+    - `dpi` (integer) - resolution the page was rendered at
+    - `text`, `word_count`
+    - `confidence` (numeric) - engine mean confidence, 0-100
+    - `error` (text) - set when the page could not be rendered or read
+    - one row per page; re-running OCR replaces it
+
+  ## Changes
+  - app_settings.ocr_provider defaults to 'tesseract'. Installs without an OCR API
+    key switch to it; pdfrest and convertapi remain available with a key.
+  - review_queue items with item_type 'ocr_page' point at ocr_pages rows whose
+    confidence is below 60
+
+  ## Security
+  - Anyone can read ocr_pages
+*/
+
+CREATE TABLE IF NOT EXISTS ocr_pages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  pdf_object_id uuid NOT NULL REFERENCES pdf_objects(id) ON DELETE CASCADE,
+  page_number integer NOT NULL CHECK (page_number > 0),
+  engine text NOT NULL,
+  dpi integer,
+  text text NOT NULL DEFAULT '',
+  word_count integer NOT NULL DEFAULT 0,
+  confidence numeric(5,2) NOT NULL DEFAULT 0,
+  error text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (pdf_object_id, page_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ocr_pages_confidence ON ocr_pages(confidence);
+
+ALTER TABLE ocr_pages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read ocr_pages" ON ocr_pages;
+CREATE POLICY "Anyone can read ocr_pages"
+  ON ocr_pages FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+ALTER TABLE app_settings ALTER COLUMN ocr_provider SET DEFAULT 'tesseract';
+
+UPDATE app_settings
+SET ocr_provider = 'tesseract'
+WHERE ocr_api_key IS NULL OR ocr_api_key = '';
+
+COMMENT ON TABLE ocr_pages IS 'Per-page OCR text and confidence for scanned PDFs';
+COMMENT ON COLUMN app_settings.ocr_provider IS 'tesseract (local, no key), pdfrest or convertapi';
@@ -0,0 +1,109 @@
+/*
+  # Review Workflow
+
+  Review items could only be marked as reviewed. Reviewers now claim an item,
+  correct the extracted values it concerns and approve or reject it with a
+  reason, all through the review-queue edge function. Corrections are written to
+  audit_log and kept as labelled examples for measuring extraction accuracy.
+
+  ## Modified Tables
+
+  ### review_queue
+  - status (text) - open, claimed, approved, rejected. `reviewed` stays true for
+    approved and rejected items so existing filters keep working.
+  - assigned_to (text) - reviewer who claimed the item
+  - claimed_at (timestamptz)
+  - decision_reason (text) - why the item was approved or rejected
+  - decided_at (timestamptz)
+
+  ## New Tables
+
+  ### extraction_examples
+  One row per corrected field:
+  - target (text) - case, gazette_notice or article (see shared/review-corrections.ts)
+  - record_id (uuid) - the corrected cases / gazette_notices / articles row
+  - field (text) - column or column.json.path that was corrected
+  - extractor_field (text) - matching extractTargetedFields field, if any
+  - original_value (jsonb) - value before the correction
+  - corrected_value (jsonb) - value the reviewer entered
+  - review_item_id (uuid) - review_queue item the correction was made from
+  - corrected_by (text)
+
+  ## Security
+  - Anyone can read extraction_examples. Claims, corrections and decisions are
+    made through review-queue with the service role.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'review_queue' AND column_name = 'status'
+  ) THEN
+    ALTER TABLE review_queue
+      ADD COLUMN status text NOT NULL DEFAULT 'open'
+      CHECK (status IN ('open', 'claimed', 'approved', 'rejected'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'review_queue' AND column_name = 'assigned_to'
+  ) THEN
+    ALTER TABLE review_queue ADD COLUMN assigned_to text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'review_queue' AND column_name = 'claimed_at'
+  ) THEN
+    ALTER TABLE review_queue ADD COLUMN claimed_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'review_queue' AND column_name = 'decision_reason'
+  ) THEN
+    ALTER TABLE review_queue ADD COLUMN decision_reason text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'review_queue' AND column_name = 'decided_at'
+  ) THEN
+    ALTER TABLE review_queue ADD COLUMN decided_at timestamptz;
+  END IF;
+END $$;
+
+-- Items already marked as reviewed count as approved
+UPDATE review_queue
+SET status = 'approved', decided_at = COALESCE(reviewed_at, created_at)
+WHERE reviewed = true AND status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_review_queue_status ON review_queue(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_review_queue_assigned_to ON review_queue(assigned_to) WHERE status = 'claimed';
+
+CREATE TABLE IF NOT EXISTS extraction_examples (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  target text NOT NULL CHECK (target IN ('case', 'gazette_notice', 'article')),
+  record_id uuid NOT NULL,
+  field text NOT NULL,
+  extractor_field text,
+  original_value jsonb,
+  corrected_value jsonb,
+  review_item_id uuid REFERENCES review_queue(id) ON DELETE SET NULL,
+  corrected_by text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_extraction_examples_record ON extraction_examples(target, record_id);
+CREATE INDEX IF NOT EXISTS idx_extraction_examples_created_at ON extraction_examples(created_at DESC);
+
+ALTER TABLE extraction_examples ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read extraction_examples"
+  ON extraction_examples FOR SELECT
+  USING (true);
+
+COMMENT ON COLUMN review_queue.status IS 'open, claimed, approved or rejected; reviewed is true once decided';
+COMMENT ON TABLE extraction_examples IS 'Reviewer corrections to extracted fields, exported as labelled examples';
+COMMENT ON COLUMN extraction_examples.field IS 'Column, or column.path into a JSON column, as defined in shared/review-corrections.ts';
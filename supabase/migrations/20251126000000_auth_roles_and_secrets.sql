@@ -0,0 +1,385 @@
+/*
+  # Authentication, Roles and Server-only Secrets
+
+  The app ran without login: earlier migrations (fix_*_anon_access,
+  monitor_anon_select_policies) opened tables to the anon key and app_settings
+  held API keys the browser could read. Users now sign in with Supabase Auth
+  and every table is scoped by role.
+
+  ## New Tables
+
+  ### user_profiles
+  One row per auth user, created on sign-up:
+  - id (uuid) - auth.users id
+  - email (text)
+  - role (text) - admin, analyst or viewer. The first user to sign up becomes
+    admin; everyone after starts as viewer until an admin promotes them.
+
+  ### app_secrets
+  API keys, readable only by the service role (edge functions):
+  - name (text) - openai_api_key, anthropic_api_key, firecrawl_api_key,
+    ocr_api_key, newsapi_key, monitor_openai_api_key
+  - value (text)
+  - updated_by (text) - email of the admin who set it
+  - updated_at (timestamptz)
+  Admins set and clear keys through the manage-secrets edge function, which
+  only ever reports whether a key is set.
+
+  ## Modified Tables
+  - app_settings: openai_api_key, anthropic_api_key, firecrawl_api_key and
+    ocr_api_key moved to app_secrets and dropped
+  - monitor_settings: newsapi_key and openai_api_key moved to app_secrets
+    (newsapi_key, monitor_openai_api_key) and dropped
+  - analyzed_registry_pdfs, analyzed_gazette_pdfs: uploaded_by is set to the
+    signed-in user's email on insert
+
+  ## Security
+  Every policy in the public schema is replaced:
+  - viewer: read everything except app_secrets and webhook signing secrets,
+    and mark notifications read
+  - analyst: viewer, plus upload and delete analysed PDFs and manage watchlists
+  - admin: analyst, plus app_settings, monitor_settings, notification routing,
+    webhook endpoints and user roles
+  - anon: nothing
+  Edge functions check the caller's role themselves (shared/auth.ts) and
+  write with the service role. The registry cron trigger now calls
+  scrape-registry with the service role key (app.settings.service_role_key).
+*/
+
+-- Profiles and roles
+
+CREATE TABLE IF NOT EXISTS user_profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text,
+  role text NOT NULL DEFAULT 'viewer' CHECK (role IN ('admin', 'analyst', 'viewer')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO user_profiles (id, email, role)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    CASE WHEN EXISTS (SELECT 1 FROM user_profiles WHERE role = 'admin') THEN 'viewer' ELSE 'admin' END
+  )
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_user();
+
+-- Users created before this migration: the earliest becomes admin
+INSERT INTO user_profiles (id, email, role)
+SELECT id, email, CASE WHEN row_number() OVER (ORDER BY created_at) = 1 THEN 'admin' ELSE 'viewer' END
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_user_profiles_updated_at ON user_profiles;
+CREATE TRIGGER update_user_profiles_updated_at
+    BEFORE UPDATE ON user_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Role of the signed-in user, null for anon
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM user_profiles WHERE id = auth.uid();
+$$;
+
+-- Whether the signed-in user has at least the given role (viewer < analyst < admin)
+CREATE OR REPLACE FUNCTION has_role(required text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    array_position(ARRAY['viewer', 'analyst', 'admin'], current_user_role())
+      >= array_position(ARRAY['viewer', 'analyst', 'admin'], required),
+    false
+  );
+$$;
+
+-- Secrets
+
+CREATE TABLE IF NOT EXISTS app_secrets (
+  name text PRIMARY KEY CHECK (name IN (
+    'openai_api_key', 'anthropic_api_key', 'firecrawl_api_key',
+    'ocr_api_key', 'newsapi_key', 'monitor_openai_api_key'
+  )),
+  value text NOT NULL,
+  updated_by text,
+  updated_at timestamptz DEFAULT now()
+);
+
+DO $$
+DECLARE
+  key_column text;
+  key_value text;
+BEGIN
+  FOREACH key_column IN ARRAY ARRAY['openai_api_key', 'anthropic_api_key', 'firecrawl_api_key', 'ocr_api_key'] LOOP
+    IF EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = 'app_settings' AND column_name = key_column
+    ) THEN
+      EXECUTE format(
+        'SELECT %I FROM app_settings WHERE id = %L',
+        key_column, '00000000-0000-0000-0000-000000000001'
+      ) INTO key_value;
+      IF COALESCE(key_value, '') <> '' THEN
+        INSERT INTO app_secrets (name, value, updated_by)
+        VALUES (key_column, key_value, 'migration')
+        ON CONFLICT (name) DO NOTHING;
+      END IF;
+      EXECUTE format('ALTER TABLE app_settings DROP COLUMN %I', key_column);
+    END IF;
+  END LOOP;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'monitor_settings' AND column_name = 'newsapi_key'
+  ) THEN
+    INSERT INTO app_secrets (name, value, updated_by)
+    SELECT 'newsapi_key', newsapi_key, 'migration'
+    FROM monitor_settings
+    WHERE id = '00000000-0000-0000-0000-000000000002' AND COALESCE(newsapi_key, '') <> ''
+    ON CONFLICT (name) DO NOTHING;
+    ALTER TABLE monitor_settings DROP COLUMN newsapi_key;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'monitor_settings' AND column_name = 'openai_api_key'
+  ) THEN
+    INSERT INTO app_secrets (name, value, updated_by)
+    SELECT 'monitor_openai_api_key', openai_api_key, 'migration'
+    FROM monitor_settings
+    WHERE id = '00000000-0000-0000-0000-000000000002' AND COALESCE(openai_api_key, '') <> ''
+    ON CONFLICT (name) DO NOTHING;
+    ALTER TABLE monitor_settings DROP COLUMN openai_api_key;
+  END IF;
+END $$;
+
+-- Uploads record who made them
+
+CREATE OR REPLACE FUNCTION set_uploaded_by_from_auth()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    NEW.uploaded_by := COALESCE(auth.jwt() ->> 'email', auth.uid()::text);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_analyzed_registry_pdfs_uploaded_by ON analyzed_registry_pdfs;
+CREATE TRIGGER set_analyzed_registry_pdfs_uploaded_by
+  BEFORE INSERT ON analyzed_registry_pdfs
+  FOR EACH ROW
+  EXECUTE FUNCTION set_uploaded_by_from_auth();
+
+DROP TRIGGER IF EXISTS set_analyzed_gazette_pdfs_uploaded_by ON analyzed_gazette_pdfs;
+CREATE TRIGGER set_analyzed_gazette_pdfs_uploaded_by
+  BEFORE INSERT ON analyzed_gazette_pdfs
+  FOR EACH ROW
+  EXECUTE FUNCTION set_uploaded_by_from_auth();
+
+-- Policies: drop every existing policy, then grant by role
+
+DO $$
+DECLARE
+  p record;
+  t text;
+BEGIN
+  FOR p IN SELECT policyname, tablename FROM pg_policies WHERE schemaname = 'public' LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', p.policyname, p.tablename);
+  END LOOP;
+
+  FOR t IN
+    SELECT table_name FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_type = 'BASE TABLE'
+  LOOP
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', t);
+
+    IF t NOT IN ('app_secrets', 'user_profiles') THEN
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I FOR SELECT TO authenticated USING (has_role(%L))',
+        'Viewers can read ' || t, t, 'viewer'
+      );
+    END IF;
+  END LOOP;
+END $$;
+
+REVOKE ALL ON ALL TABLES IN SCHEMA public FROM anon;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public REVOKE ALL ON TABLES FROM anon;
+
+-- The webhook signing secret stays write-only
+REVOKE SELECT ON webhook_endpoints FROM authenticated;
+GRANT SELECT (id, name, url, event_types, is_active, created_at, updated_at)
+  ON webhook_endpoints TO authenticated;
+
+CREATE POLICY "Users can read their own profile"
+  ON user_profiles FOR SELECT
+  TO authenticated
+  USING (id = auth.uid() OR has_role('admin'));
+
+CREATE POLICY "Admins can update user roles"
+  ON user_profiles FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Analysts can upload registry PDFs"
+  ON analyzed_registry_pdfs FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('analyst'));
+
+CREATE POLICY "Analysts can delete registry PDFs"
+  ON analyzed_registry_pdfs FOR DELETE
+  TO authenticated
+  USING (has_role('analyst'));
+
+CREATE POLICY "Analysts can delete gazette PDFs"
+  ON analyzed_gazette_pdfs FOR DELETE
+  TO authenticated
+  USING (has_role('analyst'));
+
+CREATE POLICY "Analysts can insert watchlists"
+  ON watchlists FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('analyst'));
+
+CREATE POLICY "Analysts can update watchlists"
+  ON watchlists FOR UPDATE
+  TO authenticated
+  USING (has_role('analyst'))
+  WITH CHECK (has_role('analyst'));
+
+CREATE POLICY "Analysts can delete watchlists"
+  ON watchlists FOR DELETE
+  TO authenticated
+  USING (has_role('analyst'));
+
+CREATE POLICY "Viewers can mark notifications read"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (has_role('viewer'))
+  WITH CHECK (has_role('viewer'));
+
+CREATE POLICY "Admins can update app_settings"
+  ON app_settings FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Admins can update monitor_settings"
+  ON monitor_settings FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['notification_routing_rules', 'webhook_endpoints'] LOOP
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR INSERT TO authenticated WITH CHECK (has_role(%L))',
+      'Admins can insert ' || t, t, 'admin'
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR UPDATE TO authenticated USING (has_role(%L)) WITH CHECK (has_role(%L))',
+      'Admins can update ' || t, t, 'admin', 'admin'
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR DELETE TO authenticated USING (has_role(%L))',
+      'Admins can delete ' || t, t, 'admin'
+    );
+  END LOOP;
+END $$;
+
+-- The daily registry scrape authenticates as the service role, not anon
+
+CREATE OR REPLACE FUNCTION trigger_registry_scrape()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  edge_function_url text;
+  supabase_url text;
+  service_role_key text;
+  request_id bigint;
+BEGIN
+  supabase_url := current_setting('app.settings.supabase_url', true);
+  service_role_key := current_setting('app.settings.service_role_key', true);
+
+  IF supabase_url IS NULL OR service_role_key IS NULL THEN
+    RAISE EXCEPTION 'Set app.settings.supabase_url and app.settings.service_role_key to schedule scrape-registry';
+  END IF;
+
+  edge_function_url := supabase_url || '/functions/v1/scrape-registry';
+
+  SELECT net.http_post(
+    url := edge_function_url,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := '{}'::jsonb
+  ) INTO request_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'request_id', request_id,
+    'triggered_at', now(),
+    'function_url', edge_function_url
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  INSERT INTO scrape_jobs (
+    job_type,
+    started_at,
+    completed_at,
+    status,
+    error_log,
+    triggered_by
+  ) VALUES (
+    'registry_daily',
+    now(),
+    now(),
+    'failed',
+    SQLERRM,
+    'cron'
+  );
+
+  RETURN jsonb_build_object(
+    'success', false,
+    'error', SQLERRM
+  );
+END;
+$$;
+
+COMMENT ON TABLE user_profiles IS 'Role (admin, analyst, viewer) of each signed-in user';
+COMMENT ON TABLE app_secrets IS 'API keys; service role only, set through the manage-secrets edge function';
+COMMENT ON FUNCTION has_role(text) IS 'Whether the signed-in user has at least the given role (viewer < analyst < admin)';
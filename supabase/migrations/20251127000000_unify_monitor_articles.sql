@@ -0,0 +1,587 @@
+/*
+  # Unify the Cayman Monitor stores
+
+  The monitor grew two parallel stores: the first (monitor_articles,
+  monitor_entities, monitor_article_entities, monitor_ingestion_runs), written
+  by the monitor-* functions, and the one the Monitor page reads (articles,
+  entities, article_entities, ingest_runs). They named two risk signals
+  differently. Everything now lives in the second store with one signal
+  taxonomy: financial_decline, fraud, misstated_financials, shareholder_issues,
+  director_duties, enforcement. The old names map as
+  shareholder_dispute -> shareholder_issues and
+  regulatory_investigation -> enforcement.
+
+  ## Modified Tables
+  - articles: source_api, source_name, author, language, status
+    (pending/classified/failed), classified_at, requires_review, updated_at.
+    Existing rows are `classified` if the classifier has seen them, otherwise
+    `pending`, which is what classify_articles now picks up.
+  - ingest_runs: triggered_by, meta
+  - watchlist_hits, watchlist_scan_state: source_type 'monitor_article' is
+    now 'article'
+  - company_source_links: 'monitor_article' links now point at the merged
+    article with source_type 'article'
+
+  ## Data
+  - monitor_articles rows are copied into articles keeping their ids. Where
+    the URL is already in articles the existing row is kept, and takes the
+    old classification if it had none. signal_* columns become the signals
+    object under the new names; keywords, entities, the classification result,
+    token usage and errors go into meta.
+  - monitor_entities merge into entities by case-insensitive name and type;
+    monitor_article_entities become article_entities
+  - monitor_ingestion_runs are copied into ingest_runs
+  - The old tables are renamed *_legacy and no longer written
+
+  ## Compatibility
+  - Views monitor_articles, monitor_entities, monitor_article_entities and
+    monitor_ingestion_runs present the merged tables in the old columns, with
+    signal_shareholder_dispute and signal_regulatory_investigation read from
+    the new names. They run as the caller, so the RLS of the tables applies.
+  - global_search no longer has a monitor_article source; merged articles are
+    returned as `article`
+*/
+
+-- ============================================================================
+-- articles and ingest_runs columns
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'source_api'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN source_api text;
+    UPDATE articles SET source_api = CASE
+      WHEN meta ? 'gdelt_seendate' THEN 'gdelt'
+      WHEN meta ? 'newsapi_source_name' THEN 'newsapi'
+    END;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'source_name'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN source_name text;
+    UPDATE articles SET source_name = coalesce(meta->>'newsapi_source_name', meta->>'gdelt_domain');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'author'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN author text;
+    UPDATE articles SET author = meta->>'author' WHERE meta ? 'author';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'language'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN language text DEFAULT 'en';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'classified_at'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN classified_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'status'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN status text NOT NULL DEFAULT 'pending'
+      CHECK (status IN ('pending', 'classified', 'failed'));
+
+    -- classify_articles used to pick up rows with empty signals; rows it had
+    -- seen (including heuristic rejects, which got a confidence) are done
+    UPDATE articles
+    SET status = 'classified',
+        classified_at = coalesce((meta->>'classified_at')::timestamptz, created_at)
+    WHERE (signals IS NOT NULL AND signals <> '{}'::jsonb) OR confidence IS NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'requires_review'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN requires_review boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN updated_at timestamptz NOT NULL DEFAULT now();
+    UPDATE articles SET updated_at = coalesce(classified_at, created_at);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'ingest_runs' AND column_name = 'triggered_by'
+  ) THEN
+    ALTER TABLE ingest_runs ADD COLUMN triggered_by text NOT NULL DEFAULT 'manual';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'ingest_runs' AND column_name = 'meta'
+  ) THEN
+    ALTER TABLE ingest_runs ADD COLUMN meta jsonb NOT NULL DEFAULT '{}'::jsonb;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_articles_status_pending ON articles(published_at DESC) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_articles_classified_at ON articles(classified_at) WHERE cayman_flag = true;
+CREATE INDEX IF NOT EXISTS idx_articles_source_api ON articles(source_api);
+
+DROP TRIGGER IF EXISTS trigger_articles_updated ON articles;
+CREATE TRIGGER trigger_articles_updated
+  BEFORE UPDATE ON articles
+  FOR EACH ROW EXECUTE FUNCTION update_monitor_updated_at();
+
+-- ============================================================================
+-- Merge the first monitor's tables
+-- ============================================================================
+
+ALTER TABLE watchlist_hits DROP CONSTRAINT IF EXISTS watchlist_hits_source_type_check;
+ALTER TABLE watchlist_scan_state DROP CONSTRAINT IF EXISTS watchlist_scan_state_source_type_check;
+ALTER TABLE company_source_links DROP CONSTRAINT IF EXISTS company_source_links_source_type_check;
+
+DO $$
+BEGIN
+  -- Already merged: the names are views from here on
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_tables WHERE schemaname = 'public' AND tablename = 'monitor_articles'
+  ) THEN
+    RETURN;
+  END IF;
+
+  CREATE TEMP TABLE monitor_article_map ON COMMIT DROP AS
+  SELECT m.id AS legacy_id, coalesce(a.id, m.id) AS article_id, a.id IS NULL AS is_new
+  FROM monitor_articles m
+  LEFT JOIN articles a ON a.url = m.url;
+
+  INSERT INTO articles (
+    id, url, url_hash, source, source_api, source_name, author, language,
+    title, excerpt, body, published_at, cayman_flag, signals, reasons, confidence,
+    embedding, meta, status, classified_at, requires_review, created_at, updated_at
+  )
+  SELECT
+    m.id, m.url, m.url_hash, coalesce(m.source_domain, 'unknown'), m.source_api, m.source_name, m.author, m.language,
+    m.title, m.content_snippet, coalesce(m.content_raw, m.content_normalized), m.published_at,
+    coalesce(m.cayman_relevant, false),
+    jsonb_build_object(
+      'financial_decline', coalesce(m.signal_financial_decline, false),
+      'fraud', coalesce(m.signal_fraud, false),
+      'misstated_financials', coalesce(m.signal_misstated_financials, false),
+      'shareholder_issues', coalesce(m.signal_shareholder_dispute, false),
+      'director_duties', coalesce(m.signal_director_duties, false),
+      'enforcement', coalesce(m.signal_regulatory_investigation, false)
+    ),
+    CASE
+      WHEN m.classification_result->>'cayman_reasoning' IS NOT NULL
+        THEN ARRAY[m.classification_result->>'cayman_reasoning']
+      ELSE '{}'::text[]
+    END,
+    m.cayman_confidence,
+    m.embedding,
+    jsonb_strip_nulls(jsonb_build_object(
+      'legacy_source_id', m.source_id,
+      'cayman_keywords', m.cayman_keywords,
+      'cayman_entities', m.cayman_entities,
+      'classification_result', m.classification_result,
+      'llm_tokens_used', m.llm_tokens_used,
+      'processing_errors', m.processing_errors
+    )),
+    coalesce(m.status, 'pending'),
+    m.classified_at,
+    coalesce(m.requires_review, false),
+    coalesce(m.ingested_at, m.created_at, now()),
+    coalesce(m.updated_at, now())
+  FROM monitor_articles m
+  JOIN monitor_article_map map ON map.legacy_id = m.id AND map.is_new;
+
+  -- Same URL in both stores: keep the article, fill in what the first monitor knew
+  UPDATE articles a
+  SET
+    meta = jsonb_strip_nulls(jsonb_build_object(
+      'legacy_source_id', m.source_id,
+      'cayman_keywords', m.cayman_keywords,
+      'cayman_entities', m.cayman_entities,
+      'classification_result', m.classification_result
+    )) || coalesce(a.meta, '{}'::jsonb),
+    source_api = coalesce(a.source_api, m.source_api),
+    source_name = coalesce(a.source_name, m.source_name),
+    author = coalesce(a.author, m.author),
+    cayman_flag = CASE WHEN a.status = 'pending' AND m.status = 'classified' THEN coalesce(m.cayman_relevant, false) ELSE a.cayman_flag END,
+    signals = CASE WHEN a.status = 'pending' AND m.status = 'classified' THEN jsonb_build_object(
+      'financial_decline', coalesce(m.signal_financial_decline, false),
+      'fraud', coalesce(m.signal_fraud, false),
+      'misstated_financials', coalesce(m.signal_misstated_financials, false),
+      'shareholder_issues', coalesce(m.signal_shareholder_dispute, false),
+      'director_duties', coalesce(m.signal_director_duties, false),
+      'enforcement', coalesce(m.signal_regulatory_investigation, false)
+    ) ELSE a.signals END,
+    confidence = CASE WHEN a.status = 'pending' AND m.status = 'classified' THEN m.cayman_confidence ELSE a.confidence END,
+    requires_review = a.requires_review OR coalesce(m.requires_review, false),
+    classified_at = CASE WHEN a.status = 'pending' AND m.status = 'classified' THEN m.classified_at ELSE a.classified_at END,
+    status = CASE WHEN a.status = 'pending' AND m.status = 'classified' THEN 'classified' ELSE a.status END
+  FROM monitor_articles m
+  JOIN monitor_article_map map ON map.legacy_id = m.id AND NOT map.is_new
+  WHERE a.id = map.article_id;
+
+  CREATE TEMP TABLE monitor_entity_map ON COMMIT DROP AS
+  SELECT
+    me.id AS legacy_id,
+    coalesce(
+      (
+        SELECT e.id FROM entities e
+        WHERE lower(e.name) = lower(me.entity_name) AND e.type = coalesce(me.entity_type, 'ORG')
+        ORDER BY e.id
+        LIMIT 1
+      ),
+      me.id
+    ) AS entity_id
+  FROM monitor_entities me;
+
+  INSERT INTO entities (id, name, canonical_name, type, aliases)
+  SELECT
+    me.id, me.entity_name, me.entity_name, coalesce(me.entity_type, 'ORG'),
+    CASE
+      WHEN jsonb_typeof(me.aliases) = 'array' THEN ARRAY(SELECT jsonb_array_elements_text(me.aliases))
+      ELSE '{}'::text[]
+    END
+  FROM monitor_entities me
+  JOIN monitor_entity_map map ON map.legacy_id = me.id AND map.entity_id = me.id;
+
+  INSERT INTO article_entities (article_id, entity_id, role)
+  SELECT DISTINCT am.article_id, em.entity_id, NULL::text
+  FROM monitor_article_entities mae
+  JOIN monitor_article_map am ON am.legacy_id = mae.article_id
+  JOIN monitor_entity_map em ON em.legacy_id = mae.entity_id
+  ON CONFLICT (article_id, entity_id) DO NOTHING;
+
+  INSERT INTO ingest_runs (id, source, status, fetched, stored, skipped, error, triggered_by, meta, started_at, finished_at)
+  SELECT
+    r.id,
+    r.source_api,
+    CASE WHEN r.status = 'running' THEN 'started' ELSE coalesce(r.status, 'completed') END,
+    coalesce(r.articles_fetched, 0),
+    coalesce(r.articles_new, 0),
+    coalesce(r.articles_duplicate, 0),
+    CASE
+      WHEN jsonb_typeof(r.errors) = 'array' AND jsonb_array_length(r.errors) > 0
+        THEN (SELECT string_agg(value, '; ') FROM jsonb_array_elements_text(r.errors))
+    END,
+    coalesce(r.triggered_by, 'manual'),
+    coalesce(r.metadata, '{}'::jsonb) || jsonb_build_object('keyword_matches', coalesce(r.articles_cayman_relevant, 0)),
+    coalesce(r.started_at, r.created_at, now()),
+    r.completed_at
+  FROM monitor_ingestion_runs r
+  ON CONFLICT (id) DO NOTHING;
+
+  -- Company links and watchlist hits follow the article they now point at
+  DELETE FROM company_source_links l
+  USING monitor_article_map am
+  WHERE l.source_type = 'monitor_article'
+    AND l.source_id = am.legacy_id
+    AND EXISTS (
+      SELECT 1 FROM company_source_links d
+      WHERE d.company_id = l.company_id AND d.source_type = 'article' AND d.source_id = am.article_id
+    );
+
+  UPDATE company_source_links l
+  SET source_type = 'article', source_id = am.article_id
+  FROM monitor_article_map am
+  WHERE l.source_type = 'monitor_article' AND l.source_id = am.legacy_id;
+
+  DELETE FROM watchlist_hits h
+  USING monitor_article_map am
+  WHERE h.source_type = 'monitor_article'
+    AND h.source_id = am.legacy_id
+    AND EXISTS (
+      SELECT 1 FROM watchlist_hits d
+      WHERE d.watchlist_id = h.watchlist_id AND d.source_type = 'article' AND d.source_id = am.article_id
+    );
+
+  UPDATE watchlist_hits h
+  SET source_type = 'article', source_id = am.article_id
+  FROM monitor_article_map am
+  WHERE h.source_type = 'monitor_article' AND h.source_id = am.legacy_id;
+
+  ALTER TABLE monitor_article_entities RENAME TO monitor_article_entities_legacy;
+  ALTER TABLE monitor_entities RENAME TO monitor_entities_legacy;
+  ALTER TABLE monitor_ingestion_runs RENAME TO monitor_ingestion_runs_legacy;
+  ALTER TABLE monitor_articles RENAME TO monitor_articles_legacy;
+END $$;
+
+-- Links to articles that were never merged (deleted before this ran) go
+DELETE FROM company_source_links WHERE source_type = 'monitor_article';
+DELETE FROM watchlist_hits WHERE source_type = 'monitor_article';
+
+-- The watchlist cursor carries over to the merged source
+INSERT INTO watchlist_scan_state (source_type, last_scanned_at)
+SELECT 'article', last_scanned_at FROM watchlist_scan_state WHERE source_type = 'monitor_article'
+ON CONFLICT (source_type) DO NOTHING;
+INSERT INTO watchlist_scan_state (source_type) VALUES ('article')
+ON CONFLICT (source_type) DO NOTHING;
+DELETE FROM watchlist_scan_state WHERE source_type = 'monitor_article';
+
+ALTER TABLE watchlist_hits ADD CONSTRAINT watchlist_hits_source_type_check
+  CHECK (source_type IN ('registry_row', 'gazette_notice', 'article'));
+ALTER TABLE watchlist_scan_state ADD CONSTRAINT watchlist_scan_state_source_type_check
+  CHECK (source_type IN ('registry_row', 'gazette_notice', 'article'));
+ALTER TABLE company_source_links ADD CONSTRAINT company_source_links_source_type_check
+  CHECK (source_type IN ('registry_row', 'case', 'gazette_notice', 'article'));
+
+-- ============================================================================
+-- Compatibility views
+-- ============================================================================
+
+CREATE OR REPLACE VIEW monitor_articles
+WITH (security_invoker = true) AS
+SELECT
+  a.id,
+  a.source_api,
+  coalesce(a.meta->>'legacy_source_id', left(a.url_hash, 32)) AS source_id,
+  a.url,
+  a.url_hash,
+  coalesce(a.title, a.url) AS title,
+  lower(btrim(regexp_replace(coalesce(a.title, a.url), '[^a-zA-Z0-9\s]', '', 'g'))) AS title_normalized,
+  coalesce(a.published_at, a.created_at) AS published_at,
+  a.body AS content_raw,
+  a.body AS content_normalized,
+  a.excerpt AS content_snippet,
+  a.language,
+  a.embedding,
+  coalesce(a.source_name, a.source) AS source_name,
+  a.source AS source_domain,
+  a.author,
+  a.cayman_flag AS cayman_relevant,
+  a.confidence::numeric(3,2) AS cayman_confidence,
+  coalesce(a.meta->'cayman_keywords', '[]'::jsonb) AS cayman_keywords,
+  coalesce(a.meta->'cayman_entities', '[]'::jsonb) AS cayman_entities,
+  a.status = 'classified' AS classified,
+  coalesce(
+    a.meta->'classification_result',
+    CASE WHEN a.status = 'classified' THEN jsonb_build_object(
+      'cayman_reasoning', array_to_string(a.reasons, ' '),
+      'summary', NULL,
+      'signal_details', '{}'::jsonb
+    ) END
+  ) AS classification_result,
+  (
+    SELECT coalesce(jsonb_agg(s.legacy_name ORDER BY s.ord), '[]'::jsonb)
+    FROM (VALUES
+      (1, 'financial_decline', 'financial_decline'),
+      (2, 'fraud', 'fraud'),
+      (3, 'misstated_financials', 'misstated_financials'),
+      (4, 'shareholder_issues', 'shareholder_dispute'),
+      (5, 'director_duties', 'director_duties'),
+      (6, 'enforcement', 'regulatory_investigation')
+    ) AS s(ord, name, legacy_name)
+    WHERE a.signals->>s.name = 'true'
+  ) AS signals,
+  coalesce(a.signals->>'financial_decline' = 'true', false) AS signal_financial_decline,
+  coalesce(a.signals->>'fraud' = 'true', false) AS signal_fraud,
+  coalesce(a.signals->>'misstated_financials' = 'true', false) AS signal_misstated_financials,
+  coalesce(a.signals->>'shareholder_issues' = 'true', false) AS signal_shareholder_dispute,
+  coalesce(a.signals->>'director_duties' = 'true', false) AS signal_director_duties,
+  coalesce(a.signals->>'enforcement' = 'true', false) AS signal_regulatory_investigation,
+  a.created_at AS ingested_at,
+  a.classified_at,
+  coalesce(a.meta->'llm_tokens_used', '{}'::jsonb) AS llm_tokens_used,
+  coalesce(a.meta->'processing_errors', '[]'::jsonb) AS processing_errors,
+  a.status,
+  a.requires_review,
+  NULL::uuid AS duplicate_of,
+  NULL::numeric(3,2) AS similarity_score,
+  a.created_at,
+  a.updated_at,
+  a.search_vector
+FROM articles a;
+
+CREATE OR REPLACE VIEW monitor_entities
+WITH (security_invoker = true) AS
+SELECT
+  e.id,
+  e.name AS entity_name,
+  e.type AS entity_type,
+  lower(btrim(e.name)) AS normalized_name,
+  to_jsonb(coalesce(e.aliases, '{}'::text[])) AS aliases,
+  count(ae.article_id)::integer AS article_count,
+  min(coalesce(a.published_at, a.created_at)) AS first_seen,
+  max(coalesce(a.published_at, a.created_at)) AS last_seen,
+  '{}'::jsonb AS metadata,
+  min(a.created_at) AS created_at
+FROM entities e
+LEFT JOIN article_entities ae ON ae.entity_id = e.id
+LEFT JOIN articles a ON a.id = ae.article_id
+GROUP BY e.id;
+
+CREATE OR REPLACE VIEW monitor_article_entities
+WITH (security_invoker = true) AS
+SELECT
+  ae.article_id,
+  ae.entity_id,
+  NULL::numeric(3,2) AS confidence,
+  1 AS mention_count
+FROM article_entities ae;
+
+CREATE OR REPLACE VIEW monitor_ingestion_runs
+WITH (security_invoker = true) AS
+SELECT
+  r.id,
+  r.source AS source_api,
+  r.started_at,
+  r.finished_at AS completed_at,
+  CASE WHEN r.status = 'started' THEN 'running' ELSE r.status END AS status,
+  r.fetched AS articles_fetched,
+  r.stored AS articles_new,
+  r.skipped AS articles_duplicate,
+  coalesce((r.meta->>'keyword_matches')::integer, 0) AS articles_cayman_relevant,
+  CASE WHEN r.error IS NULL THEN '[]'::jsonb ELSE jsonb_build_array(r.error) END AS errors,
+  r.meta AS metadata,
+  r.triggered_by,
+  r.started_at AS created_at
+FROM ingest_runs r;
+
+GRANT SELECT ON monitor_articles, monitor_entities, monitor_article_entities, monitor_ingestion_runs TO authenticated;
+
+-- ============================================================================
+-- Search: one article source
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION global_search_matches(p_query text)
+RETURNS TABLE (
+  source text,
+  record_id uuid,
+  title text,
+  subtitle text,
+  url text,
+  record_date date,
+  rank double precision,
+  exact_match boolean
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english', p_query) AS tsq,
+      websearch_to_tsquery('simple', p_query) AS simple_tsq,
+      btrim(p_query) AS raw,
+      search_registration_key(p_query) AS registration_key
+  )
+  SELECT
+    'registry_row', r.id, coalesce(r.title, r.cause_number), r.cause_number, NULL::text, r.filing_date,
+    ts_rank(r.search_vector, q.tsq) + word_similarity(q.raw, coalesce(r.title, '')) * 0.5,
+    lower(r.cause_number) = lower(q.raw)
+  FROM registry_rows r, q
+  WHERE r.search_vector @@ q.tsq OR q.raw <% r.title OR lower(r.cause_number) = lower(q.raw)
+
+  UNION ALL
+
+  SELECT
+    'case', c.id, coalesce(rr.title, c.parsed_json->'company_overview'->>'name', 'Case'), rr.cause_number, NULL,
+    coalesce(rr.filing_date, c.created_at::date),
+    ts_rank(c.search_vector, q.tsq),
+    coalesce(search_registration_key(c.parsed_json->'company_overview'->>'registration_number') = q.registration_key, false)
+  FROM cases c
+  CROSS JOIN q
+  LEFT JOIN registry_rows rr ON rr.id = c.registry_row_id
+  WHERE c.search_vector @@ q.tsq
+    OR search_registration_key(c.parsed_json->'company_overview'->>'registration_number') = q.registration_key
+
+  UNION ALL
+
+  SELECT
+    'gazette_notice', g.id, g.company_name,
+    concat_ws(' · ', g.registration_no, g.liquidation_type, g.liquidator_name), NULL,
+    coalesce(g.appointment_date, g.liquidation_date, g.created_at::date),
+    ts_rank(g.search_vector, q.tsq)
+      + greatest(word_similarity(q.raw, g.company_name), word_similarity(q.raw, coalesce(g.liquidator_name, ''))) * 0.5,
+    coalesce(search_registration_key(g.registration_no) = q.registration_key, false)
+  FROM gazette_liquidation_notices g, q
+  WHERE g.search_vector @@ q.tsq
+    OR q.raw <% g.company_name
+    OR q.raw <% g.liquidator_name
+    OR search_registration_key(g.registration_no) = q.registration_key
+
+  UNION ALL
+
+  SELECT
+    'company', co.id, co.canonical_name, co.registration_no, NULL, co.last_seen_at::date,
+    ts_rank(co.search_vector, q.tsq) + word_similarity(q.raw, co.canonical_name) * 0.5,
+    coalesce(search_registration_key(co.registration_no) = q.registration_key, false)
+  FROM companies co, q
+  WHERE co.search_vector @@ q.tsq
+    OR q.raw <% co.canonical_name
+    OR search_registration_key(co.registration_no) = q.registration_key
+
+  UNION ALL
+
+  SELECT
+    'practitioner', p.id, p.full_name, pf.name, NULL, p.last_appointed_on,
+    ts_rank(p.search_vector, q.simple_tsq) + word_similarity(q.raw, p.full_name) * 0.5,
+    false
+  FROM practitioners p
+  CROSS JOIN q
+  LEFT JOIN practitioner_firms pf ON pf.id = p.firm_id
+  WHERE p.search_vector @@ q.simple_tsq OR q.raw <% p.full_name
+
+  UNION ALL
+
+  SELECT
+    'article', a.id, coalesce(a.title, a.url), coalesce(a.source_name, a.source), a.url, a.published_at::date,
+    ts_rank(a.search_vector, q.tsq) + word_similarity(q.raw, coalesce(a.title, '')) * 0.5,
+    false
+  FROM articles a, q
+  WHERE a.search_vector @@ q.tsq OR q.raw <% a.title;
+$$;
+
+CREATE OR REPLACE FUNCTION global_search_snippet(p_source text, p_record_id uuid, p_query text)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ts_headline(
+    CASE WHEN p_source = 'practitioner' THEN 'simple' ELSE 'english' END::regconfig,
+    left(doc, 100000),
+    websearch_to_tsquery(CASE WHEN p_source = 'practitioner' THEN 'simple' ELSE 'english' END::regconfig, p_query),
+    'StartSel=⟦, StopSel=⟧, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+  )
+  FROM (
+    SELECT concat_ws(' — ', cause_number, title, subject) AS doc
+    FROM registry_rows WHERE p_source = 'registry_row' AND id = p_record_id
+    UNION ALL
+    SELECT pdf_text FROM cases WHERE p_source = 'case' AND id = p_record_id
+    UNION ALL
+    SELECT concat_ws(' — ', company_name, registration_no, liquidator_name, raw_notice_text)
+    FROM gazette_liquidation_notices WHERE p_source = 'gazette_notice' AND id = p_record_id
+    UNION ALL
+    SELECT concat_ws(' — ', canonical_name, registration_no, aliases::text)
+    FROM companies WHERE p_source = 'company' AND id = p_record_id
+    UNION ALL
+    SELECT concat_ws(' — ', full_name, aliases::text) FROM practitioners WHERE p_source = 'practitioner' AND id = p_record_id
+    UNION ALL
+    SELECT concat_ws(' — ', excerpt, body) FROM articles WHERE p_source = 'article' AND id = p_record_id
+  ) d
+  WHERE doc IS NOT NULL
+  LIMIT 1;
+$$;
+
+COMMENT ON COLUMN articles.signals IS 'Risk signal flags: financial_decline, fraud, misstated_financials, shareholder_issues, director_duties, enforcement';
+COMMENT ON COLUMN articles.source IS 'Domain the article was published on';
+COMMENT ON COLUMN articles.source_api IS 'API the article was ingested from: gdelt, newsapi';
+COMMENT ON COLUMN articles.status IS 'pending until classify_articles has seen the article, then classified (or failed)';
+COMMENT ON COLUMN articles.requires_review IS 'Cayman-related with low confidence or a fraud/enforcement signal';
+COMMENT ON COLUMN ingest_runs.meta IS 'Run parameters and counts, e.g. since, query, keyword_matches';
+COMMENT ON VIEW monitor_articles IS 'Deprecated: articles in the columns of the first monitor. Read articles instead.';
+COMMENT ON VIEW monitor_entities IS 'Deprecated: entities with article counts, in the columns of the first monitor';
+COMMENT ON VIEW monitor_article_entities IS 'Deprecated: article_entities in the columns of the first monitor';
+COMMENT ON VIEW monitor_ingestion_runs IS 'Deprecated: ingest_runs in the columns of the first monitor';
@@ -0,0 +1,115 @@
+/*
+  # Article content fetching
+
+  GDELT returns metadata only, so GDELT articles were stored with a title and
+  no body and classified on the headline alone. fetch_article_content now
+  fetches each article page (respecting robots.txt, one request per site per
+  delay window, with a timeout), extracts the main text into body/excerpt and
+  sets the article back to `pending` so classify_articles sees the full text.
+
+  ## Modified Tables
+  - articles
+    - content_fetch_status (text) - pending, fetched, paywalled, blocked
+      (robots.txt or 401/403), failed; null for articles that came with text
+    - content_fetch_attempts (integer)
+    - content_fetch_error (text) - why the last attempt did not get the text
+    - content_fetched_at (timestamptz) - last attempt
+    - content_fetch_retry_at (timestamptz) - earliest next attempt after a
+      timeout, rate limit or server error. Those are retried up to three
+      times; paywalls, blocks and missing pages are final.
+  - monitor_settings
+    - content_fetch_enabled (boolean)
+    - content_fetch_delay_seconds (integer) - minimum gap between requests to
+      one site; a longer robots.txt Crawl-delay wins
+
+  ## New Tables
+  ### article_fetch_domains
+  Per-site crawl state shared across runs: the cached robots.txt (refreshed
+  daily), its Crawl-delay and when we last fetched from the site.
+
+  ## Data
+  GDELT articles from the last 30 days without a body are queued for fetching.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'content_fetch_status'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN content_fetch_status text
+      CHECK (content_fetch_status IN ('pending', 'fetched', 'paywalled', 'blocked', 'failed'));
+
+    UPDATE articles
+    SET content_fetch_status = 'pending'
+    WHERE source_api = 'gdelt'
+      AND body IS NULL
+      AND created_at > now() - interval '30 days';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'content_fetch_attempts'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN content_fetch_attempts integer NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'content_fetch_error'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN content_fetch_error text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'content_fetched_at'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN content_fetched_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'content_fetch_retry_at'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN content_fetch_retry_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'monitor_settings' AND column_name = 'content_fetch_enabled'
+  ) THEN
+    ALTER TABLE monitor_settings ADD COLUMN content_fetch_enabled boolean DEFAULT true;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'monitor_settings' AND column_name = 'content_fetch_delay_seconds'
+  ) THEN
+    ALTER TABLE monitor_settings ADD COLUMN content_fetch_delay_seconds integer DEFAULT 10;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_articles_content_fetch_pending
+  ON articles(published_at DESC) WHERE content_fetch_status = 'pending';
+
+CREATE TABLE IF NOT EXISTS article_fetch_domains (
+  domain text PRIMARY KEY,
+  robots_txt text,
+  robots_fetched_at timestamptz,
+  crawl_delay_seconds numeric,
+  last_fetched_at timestamptz,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE article_fetch_domains ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Viewers can read article_fetch_domains" ON article_fetch_domains;
+CREATE POLICY "Viewers can read article_fetch_domains"
+  ON article_fetch_domains FOR SELECT
+  TO authenticated
+  USING (has_role('viewer'));
+
+COMMENT ON COLUMN articles.content_fetch_status IS 'Full-text fetch: pending, fetched, paywalled, blocked, failed; null when the source supplied the text';
+COMMENT ON COLUMN articles.content_fetch_retry_at IS 'Earliest retry after a transient fetch failure';
+COMMENT ON TABLE article_fetch_domains IS 'Per-site robots.txt cache and request spacing for fetch_article_content';
@@ -0,0 +1,63 @@
+/*
+  # RSS and Atom feed ingestion
+
+  Adds a third article source next to GDELT and NewsAPI: ingest_rss reads the
+  feeds listed in monitor_settings (local Cayman press, offshore legal blogs,
+  law-firm client alerts) into `articles` with source_api 'rss', deduplicated
+  by URL like the other sources, and records each run in ingest_runs.
+
+  ## Modified Tables
+  - monitor_settings
+    - rss_enabled (boolean)
+    - rss_feeds (jsonb) - array of feeds, e.g.
+      [{"name": "Cayman Compass", "url": "https://www.caymancompass.com/feed/",
+        "keywords": ["liquidat", "court", "CIMA"], "enabled": true}]
+      `keywords` is optional: when given, only items mentioning one of them
+      (in the title, summary or content) are stored. `language` is optional
+      and overrides the feed's own.
+
+  ## New Tables
+  ### rss_feed_state
+  Per-feed conditional GET state and health: the last ETag and Last-Modified
+  the feed sent (returned as If-None-Match / If-Modified-Since), when it was
+  last checked, whether that worked and how many items it had.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'monitor_settings' AND column_name = 'rss_enabled'
+  ) THEN
+    ALTER TABLE monitor_settings ADD COLUMN rss_enabled boolean DEFAULT true;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'monitor_settings' AND column_name = 'rss_feeds'
+  ) THEN
+    ALTER TABLE monitor_settings ADD COLUMN rss_feeds jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS rss_feed_state (
+  feed_url text PRIMARY KEY,
+  etag text,
+  last_modified text,
+  last_checked_at timestamptz,
+  last_status text CHECK (last_status IN ('ok', 'not_modified', 'error')),
+  last_error text,
+  last_item_count integer,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE rss_feed_state ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Viewers can read rss_feed_state" ON rss_feed_state;
+CREATE POLICY "Viewers can read rss_feed_state"
+  ON rss_feed_state FOR SELECT
+  TO authenticated
+  USING (has_role('viewer'));
+
+COMMENT ON COLUMN monitor_settings.rss_feeds IS 'Feeds read by ingest_rss: [{name, url, keywords?, language?, enabled?}]';
+COMMENT ON TABLE rss_feed_state IS 'Conditional GET validators and last result per RSS/Atom feed';
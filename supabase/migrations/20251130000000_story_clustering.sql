@@ -0,0 +1,221 @@
+/*
+  # Story clustering
+
+  A wire story picked up by twenty sites was stored (correctly, by URL) as
+  twenty articles and listed twenty times. cluster_stories embeds each
+  classified Cayman article (OpenAI when enable_embeddings is on, otherwise a
+  local hashing model) and attaches it to the story of its most similar
+  recent article, or starts a new story. The monitor list shows one card per
+  story with the number of sources that carried it.
+
+  ## New Tables
+  ### stories
+  One row per group of near-duplicate articles. The lead article is the
+  earliest published; counts and dates are kept up to date by a trigger on
+  articles.story_id.
+
+  ## Modified Tables
+  - articles
+    - story_id (uuid) - story the article belongs to; every clustered
+      article has one, even when it is the only copy
+    - similarity_score (real) - similarity to the article it was matched
+      with; null for the first article of a story
+    - embedding_model (text) - model that produced `embedding`. Vectors are
+      only compared with vectors from the same model.
+    - clustered_at (timestamptz) - null until cluster_stories has run
+  - monitor_settings
+    - story_similarity_threshold (numeric) - similarity at which two articles
+      are one story; null uses the embedding model's default
+    - story_window_hours (integer) - how far apart two copies can be published
+
+  ## Functions
+  - `match_story_articles(...)` - most similar clustered articles in a time
+    window, for cluster_stories (service role only)
+  - `refresh_story(p_story_id)` - recount a story, or delete it once empty;
+    called by the trigger
+*/
+
+CREATE TABLE IF NOT EXISTS stories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text,
+  lead_article_id uuid REFERENCES articles(id) ON DELETE SET NULL,
+  article_count integer NOT NULL DEFAULT 0,
+  source_count integer NOT NULL DEFAULT 0,
+  embedding_model text NOT NULL,
+  first_published_at timestamptz,
+  last_published_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stories_last_published ON stories(last_published_at DESC);
+
+DROP TRIGGER IF EXISTS update_stories_updated_at ON stories;
+CREATE TRIGGER update_stories_updated_at
+  BEFORE UPDATE ON stories
+  FOR EACH ROW EXECUTE FUNCTION update_monitor_updated_at();
+
+ALTER TABLE stories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Viewers can read stories" ON stories;
+CREATE POLICY "Viewers can read stories"
+  ON stories FOR SELECT
+  TO authenticated
+  USING (has_role('viewer'));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'story_id'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN story_id uuid REFERENCES stories(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'similarity_score'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN similarity_score real;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'embedding_model'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN embedding_model text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'clustered_at'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN clustered_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'monitor_settings' AND column_name = 'story_similarity_threshold'
+  ) THEN
+    ALTER TABLE monitor_settings ADD COLUMN story_similarity_threshold numeric(4,3)
+      CHECK (story_similarity_threshold > 0 AND story_similarity_threshold <= 1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'monitor_settings' AND column_name = 'story_window_hours'
+  ) THEN
+    ALTER TABLE monitor_settings ADD COLUMN story_window_hours integer NOT NULL DEFAULT 72;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_articles_story_id ON articles(story_id);
+CREATE INDEX IF NOT EXISTS idx_articles_unclustered ON articles(published_at)
+  WHERE clustered_at IS NULL AND cayman_flag = true;
+CREATE INDEX IF NOT EXISTS idx_articles_story_candidates ON articles(embedding_model, published_at)
+  WHERE story_id IS NOT NULL;
+
+-- ============================================================================
+-- Story counts
+-- ============================================================================
+
+-- Runs as owner: the trigger fires for analysts editing articles, who cannot
+-- write to stories under RLS
+CREATE OR REPLACE FUNCTION refresh_story(p_story_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_story_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM articles WHERE story_id = p_story_id) THEN
+    DELETE FROM stories WHERE id = p_story_id;
+    RETURN;
+  END IF;
+
+  UPDATE stories s
+  SET article_count = agg.article_count,
+      source_count = agg.source_count,
+      lead_article_id = agg.lead_article_id,
+      title = agg.title,
+      first_published_at = agg.first_published_at,
+      last_published_at = agg.last_published_at
+  FROM (
+    SELECT
+      count(*)::integer AS article_count,
+      count(DISTINCT a.source)::integer AS source_count,
+      (array_agg(a.id ORDER BY a.published_at NULLS LAST, a.created_at))[1] AS lead_article_id,
+      (array_agg(a.title ORDER BY a.published_at NULLS LAST, a.created_at))[1] AS title,
+      min(a.published_at) AS first_published_at,
+      max(a.published_at) AS last_published_at
+    FROM articles a
+    WHERE a.story_id = p_story_id
+  ) agg
+  WHERE s.id = p_story_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION articles_story_changed()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_story(OLD.story_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.story_id IS DISTINCT FROM OLD.story_id THEN
+    PERFORM refresh_story(NEW.story_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_articles_story_changed ON articles;
+CREATE TRIGGER trigger_articles_story_changed
+  AFTER INSERT OR DELETE OR UPDATE OF story_id ON articles
+  FOR EACH ROW EXECUTE FUNCTION articles_story_changed();
+
+-- ============================================================================
+-- Nearest clustered articles
+-- ============================================================================
+
+-- Exact search over the window: ordering by the computed similarity keeps the
+-- planner off the approximate ivfflat index, which would drop close matches
+-- that fall outside its probed lists.
+CREATE OR REPLACE FUNCTION match_story_articles(
+  p_embedding vector(1536),
+  p_embedding_model text,
+  p_from timestamptz,
+  p_to timestamptz,
+  p_exclude_article_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 5
+)
+RETURNS TABLE (article_id uuid, story_id uuid, similarity double precision)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT c.id, c.story_id, c.similarity
+  FROM (
+    SELECT a.id, a.story_id, 1 - (a.embedding <=> p_embedding) AS similarity
+    FROM articles a
+    WHERE a.story_id IS NOT NULL
+      AND a.embedding IS NOT NULL
+      AND a.embedding_model = p_embedding_model
+      AND a.published_at BETWEEN p_from AND p_to
+      AND a.id IS DISTINCT FROM p_exclude_article_id
+  ) c
+  ORDER BY c.similarity DESC
+  LIMIT p_limit;
+$$;
+
+REVOKE ALL ON FUNCTION match_story_articles(vector, text, timestamptz, timestamptz, uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION refresh_story(uuid) FROM anon;
+
+COMMENT ON TABLE stories IS 'Near-duplicate articles (syndicated copies of one story), grouped by cluster_stories';
+COMMENT ON COLUMN articles.story_id IS 'Story cluster; set by cluster_stories for classified Cayman articles';
+COMMENT ON COLUMN articles.embedding_model IS 'Model that produced embedding (text-embedding-3-small or local-hashing-v1)';
+COMMENT ON COLUMN monitor_settings.story_similarity_threshold IS 'Similarity at which two articles are one story; null uses the model default';
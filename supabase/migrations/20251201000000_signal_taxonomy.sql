@@ -0,0 +1,150 @@
+/*
+  # Configurable risk signal taxonomy
+
+  The six risk signals were hardcoded in the classifier prompt, the keyword
+  heuristics, monitor_api's filter and stats and the Monitor page badges.
+  They are now rows in monitor_signals, read by all of those, so an admin can
+  add a signal (sanctions, crypto_collapse and aml_breach are seeded here) or
+  retire one without a deploy.
+
+  ## New Tables
+  ### monitor_signals
+  - name (text) - key in articles.signals
+  - label (text) - shown on badges, filters and review fields
+  - description (text) - what the classifier looks for; one line of its prompt
+  - keywords (text[]) - lowercase phrases for the no-LLM heuristic
+  - severity (text) - low, medium or high. Cayman-related articles with a
+    high severity signal always go to review.
+  - aliases (text[]) - earlier names, read as this signal
+  - active (boolean) - inactive signals are no longer detected; articles keep
+    the flag and it can still be filtered on
+  - sort_order (integer) - display order
+
+  ## Historical flags
+  Signals are never dropped from articles.signals:
+  - flags stored under an alias are renamed to the signal's name
+  - any other flag set on an article gets an inactive row, so it keeps its
+    badge and filter until an admin describes or activates it
+  Rows cannot be deleted through the API; retire a signal with active = false.
+*/
+
+CREATE TABLE IF NOT EXISTS monitor_signals (
+  name text PRIMARY KEY CHECK (name ~ '^[a-z][a-z0-9_]*$'),
+  label text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  keywords text[] NOT NULL DEFAULT '{}',
+  severity text NOT NULL DEFAULT 'medium' CHECK (severity IN ('low', 'medium', 'high')),
+  aliases text[] NOT NULL DEFAULT '{}',
+  active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 100,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_monitor_signals_updated_at ON monitor_signals;
+CREATE TRIGGER update_monitor_signals_updated_at
+  BEFORE UPDATE ON monitor_signals
+  FOR EACH ROW EXECUTE FUNCTION update_monitor_updated_at();
+
+ALTER TABLE monitor_signals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Viewers can read monitor_signals" ON monitor_signals;
+CREATE POLICY "Viewers can read monitor_signals"
+  ON monitor_signals FOR SELECT
+  TO authenticated
+  USING (has_role('viewer'));
+
+DROP POLICY IF EXISTS "Admins can insert monitor_signals" ON monitor_signals;
+CREATE POLICY "Admins can insert monitor_signals"
+  ON monitor_signals FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('admin'));
+
+DROP POLICY IF EXISTS "Admins can update monitor_signals" ON monitor_signals;
+CREATE POLICY "Admins can update monitor_signals"
+  ON monitor_signals FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+-- Mirrors DEFAULT_SIGNALS in supabase/functions/shared/signal-taxonomy.ts
+INSERT INTO monitor_signals (name, label, description, keywords, severity, aliases, sort_order) VALUES
+  ('financial_decline', 'Financial Decline',
+    'Financial distress, losses, declining performance, liquidity issues',
+    ARRAY['bankrupt', 'insolvency', 'liquidation', 'financial distress', 'debt default', 'asset decline'],
+    'medium', '{}', 10),
+  ('fraud', 'Fraud',
+    'Allegations or evidence of fraud, misrepresentation, deception',
+    ARRAY['fraud', 'fraudulent', 'embezzlement', 'misappropriation', 'corruption', 'ponzi'],
+    'high', '{}', 20),
+  ('misstated_financials', 'Misstated Financials',
+    'Accounting irregularities, restatements, audit issues',
+    ARRAY['accounting irregularities', 'restatement', 'audit', 'financial misstatement', 'cooking the books'],
+    'medium', '{}', 30),
+  ('shareholder_issues', 'Shareholder Issues',
+    'Shareholder disputes, oppression, conflicts, activism',
+    ARRAY['shareholder lawsuit', 'derivative action', 'oppression', 'governance conflict'],
+    'low', ARRAY['shareholder_dispute'], 40),
+  ('director_duties', 'Director Duties',
+    'Breaches of director duties, governance failures, conflicts of interest',
+    ARRAY['breach of fiduciary duty', 'director liability', 'wrongful trading', 'governance failure'],
+    'medium', '{}', 50),
+  ('enforcement', 'Enforcement',
+    'Regulatory investigation, enforcement action, sanctions, penalties',
+    ARRAY['sec investigation', 'regulatory enforcement', 'doj', 'fca', 'sanctions', 'enforcement action'],
+    'high', ARRAY['regulatory_investigation'], 60),
+  ('sanctions', 'Sanctions',
+    'Designation under a sanctions regime, asset freezes, dealings with sanctioned parties',
+    ARRAY['ofac', 'sanctions list', 'sanctioned', 'asset freeze', 'specially designated', 'sanctions breach'],
+    'high', '{}', 70),
+  ('crypto_collapse', 'Crypto Collapse',
+    'Failure of a crypto exchange, fund or token: halted withdrawals, depegs, exploits',
+    ARRAY['crypto exchange', 'withdrawals halted', 'withdrawal freeze', 'stablecoin depeg', 'token collapse',
+      'defi exploit', 'digital asset fund'],
+    'medium', '{}', 80),
+  ('aml_breach', 'AML Breach',
+    'Money laundering, anti-money laundering or KYC failings, suspicious activity reports',
+    ARRAY['money laundering', 'anti-money laundering', 'aml failings', 'kyc failures', 'suspicious activity report',
+      'proceeds of crime'],
+    'high', '{}', 90)
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================================================
+-- Historical flags
+-- ============================================================================
+
+-- Flags stored under an alias move to the signal's name (set if either was)
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN
+    SELECT s.name, alias
+    FROM monitor_signals s, unnest(s.aliases) AS alias
+  LOOP
+    UPDATE articles
+    SET signals = (signals - r.alias) || jsonb_build_object(
+      r.name,
+      coalesce(signals->>r.name = 'true', false) OR coalesce(signals->>r.alias = 'true', false)
+    )
+    WHERE jsonb_typeof(signals) = 'object' AND signals ? r.alias;
+  END LOOP;
+END $$;
+
+-- Any other flag set on an article is kept as an inactive signal
+INSERT INTO monitor_signals (name, label, description, severity, active, sort_order)
+SELECT DISTINCT
+  f.key,
+  initcap(replace(f.key, '_', ' ')),
+  'Flag found on existing articles',
+  'medium',
+  false,
+  1000
+FROM articles a, jsonb_each(a.signals) AS f
+WHERE jsonb_typeof(a.signals) = 'object'
+  AND f.value = 'true'::jsonb
+  AND f.key ~ '^[a-z][a-z0-9_]*$'
+ON CONFLICT (name) DO NOTHING;
+
+COMMENT ON TABLE monitor_signals IS 'Risk signal taxonomy: drives the classifier prompt, keyword heuristics, filters and badges';
+COMMENT ON COLUMN articles.signals IS 'One boolean per monitor_signals.name; flags of retired signals are kept';
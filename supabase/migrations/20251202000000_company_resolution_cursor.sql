@@ -0,0 +1,40 @@
+/*
+  # Company resolution cursor
+
+  resolve-companies read each source oldest first with a row limit, so a run
+  without `since` re-read the same oldest rows every time and never reached
+  newer ones. Each source now keeps the position of the last record resolved
+  and scheduled runs carry on from there.
+
+  ## New Tables
+  ### company_resolution_state
+  Per-source cursor for resolve-companies
+  - source_type (text, primary key)
+  - last_resolved_at (timestamptz) - created_at (updated_at for cases) of the last record resolved
+  - last_source_id (uuid) - id of that record, to break ties on the timestamp
+
+  No rows are seeded: a source without a row is read from the beginning.
+  Runs given an explicit `since` window leave the cursor alone, so the hourly
+  job should now post an empty body rather than a two hour window.
+
+  ## Security
+  - RLS enabled; viewers can read
+  - Written by the resolve-companies edge function using service_role
+*/
+
+CREATE TABLE IF NOT EXISTS company_resolution_state (
+  source_type text PRIMARY KEY CHECK (source_type IN ('registry_row', 'case', 'gazette_notice', 'article')),
+  last_resolved_at timestamptz NOT NULL,
+  last_source_id uuid NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE company_resolution_state ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Viewers can read company_resolution_state" ON company_resolution_state;
+CREATE POLICY "Viewers can read company_resolution_state"
+  ON company_resolution_state FOR SELECT
+  TO authenticated
+  USING (has_role('viewer'));
+
+COMMENT ON TABLE company_resolution_state IS 'Per-source cursor for the resolve-companies job';
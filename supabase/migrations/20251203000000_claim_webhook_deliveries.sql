@@ -0,0 +1,69 @@
+/*
+  # Claim webhook deliveries atomically
+
+  deliver-webhooks read due deliveries with a plain select, so two runs that
+  overlapped (a slow cron run and the next one, or a manual run from the
+  Webhooks page) could both send the same delivery. Deliveries are now claimed
+  the way claim_jobs claims jobs: the due rows are locked with SKIP LOCKED and
+  marked `sending` in one statement, so each is handed to exactly one run.
+
+  ## Changes to webhook_deliveries
+  - status (text) - adds `sending`: claimed by a run that has not recorded the outcome yet
+  - locked_at (timestamptz) - when the delivery was claimed
+
+  ## New Functions
+  - `claim_webhook_deliveries(p_limit, p_delivery_ids, p_stale_after)` - marks up to
+    p_limit due deliveries to active endpoints as sending and returns them.
+    p_delivery_ids restricts the claim to those deliveries (replays). Deliveries
+    still sending after p_stale_after are claimed again. Only callable with the
+    service role.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'webhook_deliveries' AND column_name = 'locked_at'
+  ) THEN
+    ALTER TABLE webhook_deliveries ADD COLUMN locked_at timestamptz;
+  END IF;
+END $$;
+
+ALTER TABLE webhook_deliveries DROP CONSTRAINT IF EXISTS webhook_deliveries_status_check;
+ALTER TABLE webhook_deliveries ADD CONSTRAINT webhook_deliveries_status_check
+  CHECK (status IN ('pending', 'sending', 'succeeded', 'failed', 'dead'));
+
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+  p_limit integer DEFAULT 50,
+  p_delivery_ids uuid[] DEFAULT NULL,
+  p_stale_after interval DEFAULT interval '15 minutes'
+)
+RETURNS SETOF webhook_deliveries
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE webhook_deliveries w
+  SET status = 'sending',
+      locked_at = now()
+  WHERE w.id IN (
+    SELECT c.id
+    FROM webhook_deliveries c
+    JOIN webhook_endpoints e ON e.id = c.endpoint_id
+    WHERE e.is_active
+      AND (p_delivery_ids IS NULL OR c.id = ANY(p_delivery_ids))
+      AND (
+        (c.status IN ('pending', 'failed') AND c.next_attempt_at <= now())
+        OR (c.status = 'sending' AND c.locked_at < now() - p_stale_after)
+      )
+    ORDER BY c.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE OF c SKIP LOCKED
+  )
+  RETURNING w.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_webhook_deliveries(integer, uuid[], interval) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN webhook_deliveries.locked_at IS 'When a deliver-webhooks run claimed the delivery; sending rows older than the stale timeout are claimed again';
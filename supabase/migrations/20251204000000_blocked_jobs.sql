@@ -0,0 +1,107 @@
+/*
+  # Block jobs whose dependencies are dead
+
+  claim_jobs only runs a job once every job it depends on has succeeded, so the
+  dependents of a dead-lettered job stayed `pending` forever with nothing on the
+  Jobs page to say why. They are now marked `blocked` with the dead job that
+  holds them up, and go back to `pending` when that job is requeued.
+
+  ## Changes to jobs
+  - status (text) - adds `blocked`: waiting on a dead job, directly or further up the chain
+  - blocked_by_job_id (uuid) - the dead job it is waiting on
+
+  ## New Functions
+  - `block_job_dependents(p_job_id)` - marks every pending or retrying job that
+    depends on p_job_id, directly or transitively, as blocked by it. Returns the
+    number of jobs blocked.
+  - `unblock_job_dependents(p_job_ids)` - returns jobs blocked by any of p_job_ids
+    to pending. A job that still waits on another dead job is blocked by that one
+    instead. Returns the number of jobs returned to pending.
+  Both are only callable with the service role.
+
+  ## Existing data
+  Jobs already stuck behind a dead job are blocked here.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'jobs' AND column_name = 'blocked_by_job_id'
+  ) THEN
+    ALTER TABLE jobs ADD COLUMN blocked_by_job_id uuid REFERENCES jobs(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_blocked_by ON jobs(blocked_by_job_id) WHERE blocked_by_job_id IS NOT NULL;
+
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_status_check;
+ALTER TABLE jobs ADD CONSTRAINT jobs_status_check
+  CHECK (status IN ('pending', 'running', 'succeeded', 'failed', 'dead', 'blocked'));
+
+CREATE OR REPLACE FUNCTION block_job_dependents(p_job_id uuid)
+RETURNS integer
+LANGUAGE sql
+AS $$
+  WITH RECURSIVE dependents AS (
+    SELECT d.job_id
+    FROM job_dependencies d
+    WHERE d.depends_on_job_id = p_job_id
+    UNION
+    SELECT d.job_id
+    FROM job_dependencies d
+    JOIN dependents x ON d.depends_on_job_id = x.job_id
+  ),
+  blocked AS (
+    UPDATE jobs j
+    SET status = 'blocked',
+        blocked_by_job_id = p_job_id,
+        next_attempt_at = NULL,
+        locked_at = NULL
+    WHERE j.id IN (SELECT job_id FROM dependents)
+      AND j.status IN ('pending', 'failed')
+    RETURNING 1
+  )
+  SELECT count(*)::integer FROM blocked;
+$$;
+
+CREATE OR REPLACE FUNCTION unblock_job_dependents(p_job_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_unblocked integer;
+BEGIN
+  UPDATE jobs
+  SET status = 'pending',
+      blocked_by_job_id = NULL,
+      next_attempt_at = now()
+  WHERE status = 'blocked'
+    AND blocked_by_job_id = ANY(p_job_ids);
+  GET DIAGNOSTICS v_unblocked = ROW_COUNT;
+
+  -- Jobs that also wait on another dead job are blocked by that one. The dead jobs
+  -- that could hold one up either have a waiting dependent or already block others
+  PERFORM block_job_dependents(dead.id)
+  FROM jobs dead
+  WHERE dead.status = 'dead'
+    AND (
+      EXISTS (
+        SELECT 1
+        FROM job_dependencies d
+        JOIN jobs waiting ON waiting.id = d.job_id
+        WHERE d.depends_on_job_id = dead.id AND waiting.status IN ('pending', 'failed')
+      )
+      OR EXISTS (SELECT 1 FROM jobs b WHERE b.blocked_by_job_id = dead.id)
+    );
+
+  RETURN v_unblocked;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION block_job_dependents(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION unblock_job_dependents(uuid[]) FROM PUBLIC, anon, authenticated;
+
+SELECT block_job_dependents(id) FROM jobs WHERE status = 'dead';
+
+COMMENT ON COLUMN jobs.blocked_by_job_id IS 'Dead job this blocked job is waiting on; requeueing it returns this job to pending';
@@ -0,0 +1,25 @@
+/*
+  # Tie-break the watchlist scan cursor on id
+
+  match-watchlists kept only the timestamp of the last record scanned and read
+  rows strictly after it. Rows written by one bulk insert share created_at, so
+  those left past the end of a batch were skipped on every later run and never
+  matched. The cursor is now (timestamp, id), as for resolve-companies.
+
+  ## Changes to watchlist_scan_state
+  - last_source_id (uuid) - id of the last record scanned, to break ties on
+    last_scanned_at. NULL for cursors saved before this change, which carry on
+    from rows after last_scanned_at.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'watchlist_scan_state' AND column_name = 'last_source_id'
+  ) THEN
+    ALTER TABLE watchlist_scan_state ADD COLUMN last_source_id uuid;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN watchlist_scan_state.last_source_id IS 'Id of the last record scanned; breaks ties on last_scanned_at';